@@ -18,6 +18,7 @@ import { AppCoreOptimized } from './components/core/AppCoreOptimized';
 import { ErrorBoundary } from './components/ErrorBoundary';
 import { LoadingState } from './components/core/app-states/LoadingState';
 import { AuthProvider } from './components/auth/AuthProvider';
+import { RouterProvider } from './components/router';
 
 /**
  * FlashFusion Application Error Boundary
@@ -252,6 +253,7 @@ function FlashFusionLoader() {
  * 
  * Core Features:
  * - Centralized authentication management via AuthProvider
+ * - Path-based routing with deep links and browser history
  * - Route-based authentication protection
  * - Type-safe error boundaries with branded recovery UI
  * - Performance-optimized resource loading
@@ -332,20 +334,22 @@ function App(): JSX.Element {
   // Render the main application with authentication provider
   return (
     <FlashFusionErrorBoundary>
-      <AuthProvider>
-        <Suspense fallback={<FlashFusionLoader />}>
-          <div 
-            className="min-h-screen"
-            style={{
-              backgroundColor: 'var(--ff-bg-dark)',
-              color: 'var(--ff-text-primary)',
-              fontFamily: 'var(--ff-font-secondary)'
-            }}
-          >
-            <AppCoreOptimized />
-          </div>
-        </Suspense>
-      </AuthProvider>
+      <RouterProvider>
+        <AuthProvider>
+          <Suspense fallback={<FlashFusionLoader />}>
+            <div 
+              className="min-h-screen"
+              style={{
+                backgroundColor: 'var(--ff-bg-dark)',
+                color: 'var(--ff-text-primary)',
+                fontFamily: 'var(--ff-font-secondary)'
+              }}
+            >
+              <AppCoreOptimized />
+            </div>
+          </Suspense>
+        </AuthProvider>
+      </RouterProvider>
     </FlashFusionErrorBoundary>
   );
 }
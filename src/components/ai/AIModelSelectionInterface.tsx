@@ -2,11 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription } from '../ui/card';
 import { Button } from '../ui/button';
+import { Input } from '../ui/input';
 import { Badge } from '../ui/badge';
 import { Switch } from '../ui/switch';
 import { Progress } from '../ui/progress';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
-import { Input } from '../ui/input';
 import { Label } from '../ui/label';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Separator } from '../ui/separator';
@@ -33,7 +33,6 @@ import {
   Cpu,
   Database,
   Key,
-  Save,
   TestTube,
   CheckCircle2,
   AlertCircle,
@@ -142,16 +141,11 @@ export function AIModelSelectionInterface() {
   const [selectedModel, setSelectedModel] = useState<string | null>(null);
   const [showComparison, setShowComparison] = useState(false);
   const [showApiKeySetup, setShowApiKeySetup] = useState(false);
-  const [apiKeys, setApiKeys] = useState<Record<AIProvider, string>>({
-    openai: '',
-    anthropic: '',
-    google: '',
-    meta: '',
-    local: ''
-  });
   const [availableModels, setAvailableModels] = useState<AIModel[]>([]);
   const [isTestingModel, setIsTestingModel] = useState(false);
   const [usageStats, setUsageStats] = useState(null);
+  const [localConfig, setLocalConfig] = useState(() => AIService.getLocalModelConfig());
+  const [isDiscoveringLocal, setIsDiscoveringLocal] = useState(false);
 
   useEffect(() => {
     loadAvailableModels();
@@ -159,11 +153,26 @@ export function AIModelSelectionInterface() {
     loadUsageStats();
   }, []);
 
-  const loadAvailableModels = () => {
-    const models = AIService.getAvailableModels();
+  const loadAvailableModels = async () => {
+    const models = await AIService.getAvailableModels();
     setAvailableModels(models);
   };
 
+  const discoverLocalModels = async () => {
+    setIsDiscoveringLocal(true);
+    try {
+      const localModels = await AIService.configureLocalModels(localConfig);
+      if (localModels.length > 0) {
+        toast.success(`Found ${localModels.length} local model${localModels.length === 1 ? '' : 's'}`);
+      } else {
+        toast.error(`No models found at ${localConfig.baseUrl}. Is the server running?`);
+      }
+      await loadAvailableModels();
+    } finally {
+      setIsDiscoveringLocal(false);
+    }
+  };
+
   const loadCurrentSelection = () => {
     const currentModel = AIService.getCurrentModel();
     setSelectedModel(currentModel?.id || null);
@@ -185,27 +194,6 @@ export function AIModelSelectionInterface() {
     }
   };
 
-  const handleApiKeyUpdate = (provider: AIProvider, key: string) => {
-    setApiKeys(prev => ({ ...prev, [provider]: key }));
-  };
-
-  const saveApiKey = (provider: AIProvider) => {
-    const key = apiKeys[provider];
-    if (!key) {
-      toast.error('Please enter a valid API key');
-      return;
-    }
-
-    try {
-      AIService.setApiKey(provider, key);
-      toast.success(`${provider.toUpperCase()} API key saved`);
-      loadAvailableModels();
-      setShowApiKeySetup(false);
-    } catch (error) {
-      toast.error('Failed to save API key');
-    }
-  };
-
   const testModel = async () => {
     if (!selectedModel) {
       toast.error('Please select a model first');
@@ -658,13 +646,13 @@ export function AIModelSelectionInterface() {
               </Button>
             </CardTitle>
             <CardDescription className="text-ff-text-muted">
-              Configure your AI provider API keys to enable model access
+              Provider keys are stored as Supabase function secrets and used only by the AI gateway
             </CardDescription>
           </CardHeader>
           <CardContent className="space-y-6 max-h-96 overflow-y-auto">
             {(['openai', 'anthropic', 'google'] as AIProvider[]).map((provider) => (
               <div key={provider} className="space-y-2">
-                <Label htmlFor={`${provider}-key`} className="text-ff-text-primary">
+                <Label className="text-ff-text-primary">
                   {provider.toUpperCase()} API Key
                   {AIService.hasValidApiKey(provider) && (
                     <Badge className="ml-2 ff-btn-secondary text-xs">
@@ -673,31 +661,52 @@ export function AIModelSelectionInterface() {
                     </Badge>
                   )}
                 </Label>
-                <div className="flex gap-2">
-                  <Input
-                    id={`${provider}-key`}
-                    type="password"
-                    placeholder={`Enter your ${provider.toUpperCase()} API key`}
-                    value={apiKeys[provider]}
-                    onChange={(e) => handleApiKeyUpdate(provider, e.target.value)}
-                    className="ff-focus-ring"
-                  />
-                  <Button
-                    onClick={() => saveApiKey(provider)}
-                    disabled={!apiKeys[provider]}
-                    className="ff-btn-primary"
-                    size="sm"
-                  >
-                    <Save className="h-4 w-4" />
-                  </Button>
-                </div>
                 <p className="text-xs text-ff-text-muted">
-                  {provider === 'openai' && 'Get your API key from platform.openai.com'}
-                  {provider === 'anthropic' && 'Get your API key from console.anthropic.com'}
-                  {provider === 'google' && 'Get your API key from console.cloud.google.com'}
+                  {provider === 'openai' && 'Set the Openai_api_key secret with a key from platform.openai.com'}
+                  {provider === 'anthropic' && 'Set the Anthropic secret with a key from console.anthropic.com'}
+                  {provider === 'google' && 'Set the Gemini_api_key secret with a key from console.cloud.google.com'}
                 </p>
               </div>
             ))}
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label className="text-ff-text-primary flex items-center gap-2">
+                <Cpu className="h-4 w-4" />
+                Local Models
+                {availableModels.some(model => model.provider === 'local') && (
+                  <Badge className="ml-2 ff-btn-secondary text-xs">
+                    <CheckCircle2 className="h-3 w-3 mr-1" />
+                    {availableModels.filter(model => model.provider === 'local').length} found
+                  </Badge>
+                )}
+              </Label>
+              <p className="text-xs text-ff-text-muted">
+                Any OpenAI-compatible server (Ollama, llama.cpp server, vLLM). Requests go straight from your browser to this URL.
+              </p>
+              <Input
+                value={localConfig.baseUrl}
+                onChange={(e) => setLocalConfig(prev => ({ ...prev, baseUrl: e.target.value }))}
+                placeholder="http://localhost:11434"
+                className="ff-focus-ring"
+              />
+              <Input
+                type="password"
+                value={localConfig.apiKey || ''}
+                onChange={(e) => setLocalConfig(prev => ({ ...prev, apiKey: e.target.value }))}
+                placeholder="API key (optional)"
+                className="ff-focus-ring"
+              />
+              <Button
+                size="sm"
+                onClick={discoverLocalModels}
+                disabled={isDiscoveringLocal || !localConfig.baseUrl.trim()}
+                className="ff-btn-primary ff-focus-ring"
+              >
+                {isDiscoveringLocal ? 'Discovering...' : 'Discover Models'}
+              </Button>
+            </div>
           </CardContent>
         </Card>
       )}
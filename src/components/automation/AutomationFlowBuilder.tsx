@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef } from 'react';
+import React, { useState, useCallback, useRef, useEffect } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
@@ -29,12 +29,21 @@ import {
   GitBranch,
   Timer,
   Database,
-  Globe
+  Globe,
+  FlaskConical,
+  Square
 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { WorkflowNodeConfigPanel, nodeRuntimeSettings } from './WorkflowNodeConfigPanel';
+import { WorkflowRunPanel } from './WorkflowRunPanel';
+import { useWorkflowRun } from '../../hooks/useWorkflowRun';
+import { WorkflowExecutionService } from '../../services/WorkflowExecutionService';
+import { nextConditionBranch } from '../../utils/workflow-engine';
+import type { NodeRunStatus, WorkflowGraph, WorkflowNodeType, WorkflowRunStats } from '../../types/workflow';
 
 interface FlowNode {
   id: string;
-  type: 'agent' | 'trigger' | 'action' | 'condition' | 'delay';
+  type: 'agent' | 'trigger' | 'action' | 'condition' | 'delay' | 'webhook';
   position: { x: number; y: number };
   data: {
     label: string;
@@ -43,8 +52,6 @@ interface FlowNode {
     agentIcon?: React.ComponentType<{ className?: string }>;
     description?: string;
     config?: Record<string, any>;
-    status?: 'idle' | 'running' | 'completed' | 'error';
-    executionTime?: number;
   };
 }
 
@@ -52,6 +59,7 @@ interface FlowConnection {
   id: string;
   source: string;
   target: string;
+  /** 'true' or 'false' on connections leaving a condition */
   sourceHandle?: string;
   targetHandle?: string;
   animated?: boolean;
@@ -64,10 +72,6 @@ interface AutomationFlow {
   description: string;
   nodes: FlowNode[];
   connections: FlowConnection[];
-  isActive: boolean;
-  lastRun?: Date;
-  runCount: number;
-  successRate: number;
 }
 
 const AGENT_TYPES = {
@@ -79,15 +83,55 @@ const AGENT_TYPES = {
   orchestrator: { name: 'Orchestrator', color: '#2a5298', icon: Network }
 };
 
+/** Agents run as AI steps whose prompt starts from the agent's brief */
+function agentConfig(agentType: keyof typeof AGENT_TYPES, description: string): Record<string, any> {
+  return {
+    systemPrompt: `You are the ${AGENT_TYPES[agentType].name} agent in an automated content workflow.`,
+    prompt: `${description}\n\nWork from this input:\n{{ input }}`
+  };
+}
+
+const NODE_RUNTIME_TYPES: Record<FlowNode['type'], WorkflowNodeType> = {
+  agent: 'ai',
+  trigger: 'trigger',
+  action: 'action',
+  condition: 'condition',
+  delay: 'delay',
+  webhook: 'webhook'
+};
+
+/** Converts the canvas model into the graph the workflow runtime executes */
+function toWorkflowGraph(flow: AutomationFlow): WorkflowGraph {
+  return {
+    id: flow.id,
+    name: flow.name,
+    description: flow.description,
+    nodes: flow.nodes.map(node => {
+      const { retries, timeoutSeconds, ...config } = node.data.config ?? {};
+      return {
+        id: node.id,
+        type: NODE_RUNTIME_TYPES[node.type],
+        label: node.data.label,
+        description: node.data.description,
+        config,
+        position: node.position,
+        ...nodeRuntimeSettings(node.data.config ?? {})
+      };
+    }),
+    edges: flow.connections.map(connection => ({
+      id: connection.id,
+      source: connection.source,
+      target: connection.target,
+      branch: connection.sourceHandle === 'true' || connection.sourceHandle === 'false' ? connection.sourceHandle : undefined
+    }))
+  };
+}
+
 const SAMPLE_FLOWS: AutomationFlow[] = [
   {
     id: 'flow-1',
     name: 'Content Creation Pipeline',
     description: 'Automated workflow for creating, optimizing, and publishing content across multiple platforms',
-    isActive: true,
-    lastRun: new Date(Date.now() - 2 * 60 * 60 * 1000),
-    runCount: 47,
-    successRate: 94.7,
     nodes: [
       {
         id: 'trigger-1',
@@ -96,7 +140,7 @@ const SAMPLE_FLOWS: AutomationFlow[] = [
         data: {
           label: 'Content Request',
           description: 'Triggered when new content is requested',
-          status: 'idle'
+          config: { sample: { topic: 'Launching a productivity app', audience: 'indie developers' } }
         }
       },
       {
@@ -109,8 +153,7 @@ const SAMPLE_FLOWS: AutomationFlow[] = [
           agentColor: '#61dafb',
           agentIcon: Brain,
           description: 'Analyze market trends and audience preferences',
-          status: 'completed',
-          executionTime: 45
+          config: agentConfig('researcher', 'Analyze market trends and audience preferences')
         }
       },
       {
@@ -123,8 +166,7 @@ const SAMPLE_FLOWS: AutomationFlow[] = [
           agentColor: '#d14d21',
           agentIcon: Palette,
           description: 'Generate content based on research insights',
-          status: 'running',
-          executionTime: 120
+          config: agentConfig('creator', 'Generate content based on research insights')
         }
       },
       {
@@ -137,7 +179,7 @@ const SAMPLE_FLOWS: AutomationFlow[] = [
           agentColor: '#10b981',
           agentIcon: TrendingUp,
           description: 'Optimize content for different platforms',
-          status: 'idle'
+          config: agentConfig('optimizer', 'Optimize content for different platforms')
         }
       }
     ],
@@ -145,20 +187,17 @@ const SAMPLE_FLOWS: AutomationFlow[] = [
       {
         id: 'conn-1',
         source: 'trigger-1',
-        target: 'researcher-1',
-        animated: true
+        target: 'researcher-1'
       },
       {
         id: 'conn-2',
         source: 'researcher-1',
-        target: 'creator-1',
-        animated: true
+        target: 'creator-1'
       },
       {
         id: 'conn-3',
         source: 'creator-1',
-        target: 'optimizer-1',
-        animated: false
+        target: 'optimizer-1'
       }
     ]
   }
@@ -170,7 +209,29 @@ export function AutomationFlowBuilder() {
   const [selectedNode, setSelectedNode] = useState<FlowNode | null>(null);
   const [isDragging, setIsDragging] = useState(false);
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
+  const [connectingFrom, setConnectingFrom] = useState<string | null>(null);
+  const [stats, setStats] = useState<WorkflowRunStats | null>(null);
   const canvasRef = useRef<HTMLDivElement>(null);
+  const workflowRun = useWorkflowRun();
+  const selectedNodeModel = selectedFlow?.nodes.find(node => node.id === selectedNode?.id);
+
+  const refreshStats = useCallback((flowId: string) => {
+    WorkflowExecutionService.getStats(flowId)
+      .then(setStats)
+      .catch(error => {
+        console.error('Failed to load flow statistics:', error);
+        setStats(null);
+      });
+  }, []);
+
+  useEffect(() => {
+    if (selectedFlow) refreshStats(selectedFlow.id);
+  }, [selectedFlow?.id, refreshStats]);
+
+  const updateFlow = (updatedFlow: AutomationFlow) => {
+    setSelectedFlow(updatedFlow);
+    setFlows(prev => prev.map(f => f.id === updatedFlow.id ? updatedFlow : f));
+  };
 
   const handleNodeDragStart = (node: FlowNode, event: React.MouseEvent) => {
     setSelectedNode(node);
@@ -210,17 +271,19 @@ export function AutomationFlowBuilder() {
   const addNode = (type: FlowNode['type'], agentType?: string) => {
     if (!selectedFlow) return;
 
+    const agent = agentType ? AGENT_TYPES[agentType as keyof typeof AGENT_TYPES] : undefined;
+    const description = agent ? `${agent.name} agent step` : `${type} node description`;
     const newNode: FlowNode = {
       id: `${type}-${Date.now()}`,
       type,
       position: { x: 200, y: 200 },
       data: {
-        label: agentType ? AGENT_TYPES[agentType as keyof typeof AGENT_TYPES].name : `New ${type}`,
+        label: agent ? agent.name : `New ${type}`,
         agentType,
-        agentColor: agentType ? AGENT_TYPES[agentType as keyof typeof AGENT_TYPES].color : undefined,
-        agentIcon: agentType ? AGENT_TYPES[agentType as keyof typeof AGENT_TYPES].icon : undefined,
-        description: `${type} node description`,
-        status: 'idle'
+        agentColor: agent?.color,
+        agentIcon: agent?.icon,
+        description,
+        config: agent ? agentConfig(agentType as keyof typeof AGENT_TYPES, description) : {}
       }
     };
 
@@ -247,26 +310,79 @@ export function AutomationFlowBuilder() {
     setSelectedNode(null);
   };
 
-  const getStatusIcon = (status: FlowNode['data']['status']) => {
+  const updateNodeConfig = (nodeId: string, config: Record<string, any>) => {
+    if (!selectedFlow) return;
+    updateFlow({
+      ...selectedFlow,
+      nodes: selectedFlow.nodes.map(node => node.id === nodeId ? { ...node, data: { ...node.data, config } } : node)
+    });
+  };
+
+  /** Connections from a condition alternate true then false */
+  const connectNodes = (sourceId: string, targetId: string) => {
+    setConnectingFrom(null);
+    if (!selectedFlow || sourceId === targetId) return;
+    if (selectedFlow.connections.some(c => c.source === sourceId && c.target === targetId)) return;
+
+    const source = selectedFlow.nodes.find(node => node.id === sourceId);
+    let sourceHandle: string | undefined;
+    if (source?.type === 'condition') {
+      const edges = selectedFlow.connections.map(c => ({ ...c, branch: c.sourceHandle as 'true' | 'false' | undefined }));
+      const next = nextConditionBranch(edges, sourceId);
+      if (!next) {
+        toast.error('A condition already has a true and a false branch');
+        return;
+      }
+      sourceHandle = next;
+    }
+
+    updateFlow({
+      ...selectedFlow,
+      connections: [...selectedFlow.connections, { id: `conn-${Date.now()}`, source: sourceId, target: targetId, sourceHandle }]
+    });
+  };
+
+  const deleteConnection = (connectionId: string) => {
+    if (!selectedFlow) return;
+    updateFlow({ ...selectedFlow, connections: selectedFlow.connections.filter(c => c.id !== connectionId) });
+  };
+
+  const saveFlow = async () => {
+    if (!selectedFlow) return;
+    try {
+      await WorkflowExecutionService.saveWorkflow(toWorkflowGraph(selectedFlow));
+      toast.success('Flow saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save flow');
+    }
+  };
+
+  const runFlow = async (dryRun: boolean) => {
+    if (!selectedFlow) return;
+    const execution = await workflowRun.run(toWorkflowGraph(selectedFlow), { dryRun });
+    if (execution && !dryRun) refreshStats(selectedFlow.id);
+  };
+
+  const getStatusIcon = (status: NodeRunStatus | undefined) => {
     switch (status) {
       case 'running':
         return Play;
-      case 'completed':
+      case 'succeeded':
         return CheckCircle;
-      case 'error':
+      case 'failed':
         return AlertCircle;
       default:
         return Pause;
     }
   };
 
-  const getStatusColor = (status: FlowNode['data']['status']) => {
+  const getStatusColor = (status: NodeRunStatus | undefined) => {
     switch (status) {
       case 'running':
         return '#3B82F6';
-      case 'completed':
+      case 'succeeded':
         return '#10B981';
-      case 'error':
+      case 'failed':
         return '#EF4444';
       default:
         return '#6B7280';
@@ -274,8 +390,9 @@ export function AutomationFlowBuilder() {
   };
 
   const FlowNodeComponent = ({ node }: { node: FlowNode }) => {
-    const StatusIcon = getStatusIcon(node.data.status);
-    const statusColor = getStatusColor(node.data.status);
+    const runLog = workflowRun.nodeLogs[node.id];
+    const StatusIcon = getStatusIcon(runLog?.status);
+    const statusColor = getStatusColor(runLog?.status);
     const isSelected = selectedNode?.id === node.id;
 
     return (
@@ -308,6 +425,10 @@ export function AutomationFlowBuilder() {
           }}
           onClick={(e) => {
             e.stopPropagation();
+            if (connectingFrom) {
+              connectNodes(connectingFrom, node.id);
+              return;
+            }
             setSelectedNode(node);
           }}
         >
@@ -340,6 +461,7 @@ export function AutomationFlowBuilder() {
                      node.type === 'action' ? <Settings className="h-4 w-4 text-blue-600" /> :
                      node.type === 'condition' ? <GitBranch className="h-4 w-4 text-purple-600" /> :
                      node.type === 'delay' ? <Timer className="h-4 w-4 text-orange-600" /> :
+                     node.type === 'webhook' ? <Globe className="h-4 w-4 text-teal-600" /> :
                      <Database className="h-4 w-4 text-gray-600" />}
                   </div>
                 )}
@@ -357,7 +479,7 @@ export function AutomationFlowBuilder() {
                     }}
                   >
                     <StatusIcon className="h-3 w-3 mr-1" />
-                    {node.data.status}
+                    {runLog?.status ?? 'idle'}
                   </Badge>
                 </div>
               </div>
@@ -381,14 +503,14 @@ export function AutomationFlowBuilder() {
               {node.data.description}
             </p>
 
-            {node.data.executionTime && (
+            {runLog && (
               <div className="flex items-center justify-between text-xs text-gray-500">
                 <div className="flex items-center space-x-1">
                   <Clock className="h-3 w-3" />
-                  <span>{node.data.executionTime}s</span>
+                  <span>{runLog.durationMs !== undefined ? `${(runLog.durationMs / 1000).toFixed(1)}s` : '–'}</span>
                 </div>
                 
-                {node.data.status === 'running' && (
+                {runLog.status === 'running' && (
                   <div className="flex items-center space-x-1">
                     <div className="w-2 h-2 rounded-full bg-blue-500 animate-pulse" />
                     <span>Running...</span>
@@ -397,9 +519,18 @@ export function AutomationFlowBuilder() {
               </div>
             )}
 
-            {/* Connection points */}
+            {/* Connection points: click the output, then the node to connect to */}
             <div className="absolute -right-2 top-1/2 transform -translate-y-1/2">
-              <div className="w-4 h-4 rounded-full bg-white border-2 border-gray-300 hover:border-blue-500 cursor-pointer" />
+              <div
+                className={`w-4 h-4 rounded-full bg-white border-2 hover:border-blue-500 cursor-pointer ${
+                  connectingFrom === node.id ? 'border-blue-500' : 'border-gray-300'
+                }`}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setConnectingFrom(connectingFrom === node.id ? null : node.id);
+                }}
+              />
             </div>
             <div className="absolute -left-2 top-1/2 transform -translate-y-1/2">
               <div className="w-4 h-4 rounded-full bg-white border-2 border-gray-300 hover:border-blue-500 cursor-pointer" />
@@ -422,6 +553,8 @@ export function AutomationFlowBuilder() {
     const endY = targetNode.position.y + 60;
 
     const midX = (startX + endX) / 2;
+    const sourceLog = workflowRun.nodeLogs[connection.source];
+    const animated = connection.animated || (workflowRun.isRunning && sourceLog?.status === 'succeeded');
 
     return (
       <svg 
@@ -437,7 +570,7 @@ export function AutomationFlowBuilder() {
             <stop offset="100%" stopColor="#E91E63" />
           </linearGradient>
           
-          {connection.animated && (
+          {animated && (
             <animate>
               <animateTransform
                 attributeName="transform"
@@ -456,10 +589,10 @@ export function AutomationFlowBuilder() {
           stroke="url(#connectionGradient)"
           strokeWidth="3"
           fill="none"
-          opacity={connection.animated ? 0.8 : 0.6}
+          opacity={animated ? 0.8 : 0.6}
         />
         
-        {connection.animated && (
+        {animated && (
           <motion.circle
             r="4"
             fill="#FF7B00"
@@ -482,6 +615,18 @@ export function AutomationFlowBuilder() {
           points={`${endX-8},${endY-4} ${endX},${endY} ${endX-8},${endY+4}`}
           fill="#00B4D8"
         />
+
+        {(connection.sourceHandle === 'true' || connection.sourceHandle === 'false') && (
+          <text
+            x={midX}
+            y={(startY + endY) / 2 - 6}
+            textAnchor="middle"
+            className="text-xs font-medium"
+            fill={connection.sourceHandle === 'true' ? '#10B981' : '#EF4444'}
+          >
+            {connection.sourceHandle}
+          </text>
+        )}
       </svg>
     );
   };
@@ -504,6 +649,7 @@ export function AutomationFlowBuilder() {
             <Select value={selectedFlow?.id || ''} onValueChange={(id) => {
               const flow = flows.find(f => f.id === id);
               setSelectedFlow(flow || null);
+              workflowRun.reset();
             }}>
               <SelectTrigger className="w-64">
                 <SelectValue placeholder="Select a flow" />
@@ -527,7 +673,7 @@ export function AutomationFlowBuilder() {
               Export
             </Button>
             
-            <Button className="bg-gradient-to-r from-primary to-secondary">
+            <Button className="bg-gradient-to-r from-primary to-secondary" onClick={saveFlow} disabled={!selectedFlow}>
               <Save className="h-4 w-4 mr-2" />
               Save Flow
             </Button>
@@ -538,6 +684,40 @@ export function AutomationFlowBuilder() {
       <div className="flex">
         {/* Sidebar - Node Palette */}
         <div className="w-80 bg-white border-r p-6 overflow-y-auto">
+          {/* Selected node settings */}
+          {selectedNodeModel && selectedFlow && (
+            <Card className="p-4 mb-6 space-y-3">
+              <div className="flex items-center justify-between">
+                <h4 className="font-semibold text-sm">{selectedNodeModel.data.label}</h4>
+                <Badge className="text-xs capitalize">{selectedNodeModel.type}</Badge>
+              </div>
+              <WorkflowNodeConfigPanel
+                key={selectedNodeModel.id}
+                type={NODE_RUNTIME_TYPES[selectedNodeModel.type]}
+                config={selectedNodeModel.data.config ?? {}}
+                onChange={(config) => updateNodeConfig(selectedNodeModel.id, config)}
+              />
+              {selectedFlow.connections.filter(c => c.source === selectedNodeModel.id).map(connection => (
+                <div key={connection.id} className="flex items-center justify-between text-xs text-gray-600">
+                  <span>
+                    → {selectedFlow.nodes.find(node => node.id === connection.target)?.data.label}
+                    {connection.sourceHandle && ` (${connection.sourceHandle})`}
+                  </span>
+                  <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => deleteConnection(connection.id)}>
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              ))}
+            </Card>
+          )}
+
+          {connectingFrom && (
+            <div className="flex items-center justify-between text-xs bg-blue-50 text-blue-700 rounded-md p-2 mb-6">
+              <span className="flex items-center"><Link className="h-3 w-3 mr-1" />Click the node to connect to</span>
+              <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => setConnectingFrom(null)}>Cancel</Button>
+            </div>
+          )}
+
           <h3 className="text-lg font-semibold mb-4">Add Nodes</h3>
           
           {/* AI Agents */}
@@ -606,6 +786,16 @@ export function AutomationFlowBuilder() {
               <Timer className="h-4 w-4 mr-2 text-orange-600" />
               Delay
             </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              className="w-full justify-start"
+              onClick={() => addNode('webhook')}
+            >
+              <Globe className="h-4 w-4 mr-2 text-teal-600" />
+              Webhook
+            </Button>
           </div>
 
           {/* Flow Stats */}
@@ -615,22 +805,24 @@ export function AutomationFlowBuilder() {
               <div className="space-y-2 text-sm">
                 <div className="flex justify-between">
                   <span className="text-gray-600">Runs:</span>
-                  <span className="font-medium">{selectedFlow.runCount}</span>
+                  <span className="font-medium">{stats?.totalRuns ?? 0}</span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Success Rate:</span>
-                  <span className="font-medium text-green-600">{selectedFlow.successRate}%</span>
+                  <span className="font-medium text-green-600">
+                    {stats?.successRate !== null && stats?.successRate !== undefined ? `${stats.successRate}%` : '—'}
+                  </span>
                 </div>
                 <div className="flex justify-between">
                   <span className="text-gray-600">Status:</span>
-                  <Badge className={selectedFlow.isActive ? "bg-green-100 text-green-700" : "bg-gray-100 text-gray-700"}>
-                    {selectedFlow.isActive ? 'Active' : 'Inactive'}
+                  <Badge className={workflowRun.isRunning ? "bg-blue-100 text-blue-700" : "bg-gray-100 text-gray-700"}>
+                    {workflowRun.isRunning ? 'Running' : 'Idle'}
                   </Badge>
                 </div>
-                {selectedFlow.lastRun && (
+                {stats?.lastRunAt && (
                   <div className="flex justify-between">
                     <span className="text-gray-600">Last Run:</span>
-                    <span className="font-medium">{selectedFlow.lastRun.toLocaleTimeString()}</span>
+                    <span className="font-medium">{new Date(stats.lastRunAt).toLocaleTimeString()}</span>
                   </div>
                 )}
               </div>
@@ -655,7 +847,10 @@ export function AutomationFlowBuilder() {
             style={{ width: '2000px', height: '1500px' }}
             onMouseMove={handleNodeDrag}
             onMouseUp={handleNodeDragEnd}
-            onClick={() => setSelectedNode(null)}
+            onClick={() => {
+              setSelectedNode(null);
+              setConnectingFrom(null);
+            }}
           >
             {selectedFlow && (
               <>
@@ -699,24 +894,47 @@ export function AutomationFlowBuilder() {
       </div>
 
       {/* Control Panel */}
-      <div className="fixed bottom-6 right-6 flex space-x-3">
-        {selectedFlow?.isActive ? (
-          <Button
-            size="lg"
-            className="bg-red-500 hover:bg-red-600"
-          >
-            <Pause className="h-5 w-5 mr-2" />
-            Stop Flow
-          </Button>
-        ) : (
-          <Button
-            size="lg"
-            className="bg-green-500 hover:bg-green-600"
-          >
-            <Play className="h-5 w-5 mr-2" />
-            Run Flow
-          </Button>
-        )}
+      <div className="fixed bottom-6 right-6 flex flex-col items-end space-y-3">
+        <WorkflowRunPanel
+          nodeLogs={workflowRun.nodeLogs}
+          execution={workflowRun.execution}
+          isRunning={workflowRun.isRunning}
+          onClose={workflowRun.reset}
+        />
+
+        <div className="flex space-x-3">
+          {workflowRun.isRunning ? (
+            <Button
+              size="lg"
+              className="bg-red-500 hover:bg-red-600"
+              onClick={workflowRun.cancel}
+            >
+              <Square className="h-5 w-5 mr-2" />
+              Stop Flow
+            </Button>
+          ) : (
+            <>
+              <Button
+                size="lg"
+                variant="outline"
+                disabled={!selectedFlow}
+                onClick={() => runFlow(true)}
+              >
+                <FlaskConical className="h-5 w-5 mr-2" />
+                Dry Run
+              </Button>
+              <Button
+                size="lg"
+                className="bg-green-500 hover:bg-green-600"
+                disabled={!selectedFlow}
+                onClick={() => runFlow(false)}
+              >
+                <Play className="h-5 w-5 mr-2" />
+                Run Flow
+              </Button>
+            </>
+          )}
+        </div>
       </div>
     </div>
   );
@@ -42,12 +42,21 @@ import {
   X,
   Edit3,
   Eye,
-  Share2
+  Share2,
+  Star,
+  Link
 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { WorkflowNodeConfigPanel, nodeRuntimeSettings } from './WorkflowNodeConfigPanel';
+import { WorkflowRunPanel, statusColor } from './WorkflowRunPanel';
+import { useWorkflowRun } from '../../hooks/useWorkflowRun';
+import { WorkflowExecutionService } from '../../services/WorkflowExecutionService';
+import { nextConditionBranch } from '../../utils/workflow-engine';
+import type { WorkflowGraph, WorkflowNodeType } from '../../types/workflow';
 
 interface WorkflowNode {
   id: string;
-  type: 'trigger' | 'action' | 'condition' | 'delay' | 'webhook';
+  type: WorkflowNodeType;
   position: { x: number; y: number };
   data: {
     title: string;
@@ -56,9 +65,6 @@ interface WorkflowNode {
     platform?: string;
     icon?: React.ComponentType<{ className?: string }>;
     color?: string;
-    status?: 'idle' | 'running' | 'success' | 'error';
-    lastRun?: Date;
-    executionCount?: number;
   };
 }
 
@@ -66,6 +72,8 @@ interface WorkflowConnection {
   id: string;
   source: string;
   target: string;
+  /** Set on connections leaving a condition */
+  branch?: 'true' | 'false';
   conditions?: {
     field: string;
     operator: 'equals' | 'contains' | 'greater_than' | 'less_than';
@@ -112,7 +120,7 @@ const TRIGGER_TYPES = [
 const ACTION_TYPES = [
   { id: 'post-content', name: 'Post Content', icon: Upload, description: 'Share content on platforms' },
   { id: 'send-email', name: 'Send Email', icon: Mail, description: 'Send email notifications' },
-  { id: 'generate-content', name: 'Generate Content', icon: Zap, description: 'AI content generation' },
+  { id: 'generate-content', name: 'Generate Content', icon: Zap, description: 'AI content generation', nodeType: 'ai' as const },
   { id: 'process-image', name: 'Process Image', icon: Image, description: 'Edit or optimize images' },
   { id: 'analyze-data', name: 'Analyze Data', icon: BarChart3, description: 'Data analysis and insights' },
   { id: 'update-database', name: 'Update Database', icon: Database, description: 'Store or update data' },
@@ -120,6 +128,40 @@ const ACTION_TYPES = [
   { id: 'create-task', name: 'Create Task', icon: CheckCircle2, description: 'Add tasks to project' }
 ];
 
+const LOGIC_TYPES = [
+  { id: 'condition', name: 'Condition', icon: GitBranch, description: 'Branch on a value', nodeType: 'condition' as const },
+  { id: 'delay', name: 'Delay', icon: Timer, description: 'Wait before continuing', nodeType: 'delay' as const },
+  { id: 'webhook', name: 'Webhook', icon: Globe, description: 'Call an HTTP endpoint', nodeType: 'webhook' as const },
+  { id: 'ai-step', name: 'AI Step', icon: Zap, description: 'Run a prompt', nodeType: 'ai' as const }
+];
+
+/** Converts the canvas model into the graph the workflow runtime executes */
+function toWorkflowGraph(workflow: WorkflowTemplate): WorkflowGraph {
+  return {
+    id: workflow.id,
+    name: workflow.name,
+    description: workflow.description,
+    nodes: workflow.nodes.map(node => {
+      const { retries, timeoutSeconds, ...config } = node.data.config;
+      return {
+        id: node.id,
+        type: node.type,
+        label: node.data.title,
+        description: node.data.description,
+        config,
+        position: node.position,
+        ...nodeRuntimeSettings(node.data.config)
+      };
+    }),
+    edges: workflow.connections.map(connection => ({
+      id: connection.id,
+      source: connection.source,
+      target: connection.target,
+      branch: connection.branch
+    }))
+  };
+}
+
 const WORKFLOW_TEMPLATES: WorkflowTemplate[] = [
   {
     id: 'youtube-tiktok-repurpose',
@@ -236,7 +278,16 @@ export function NoCodeWorkflowBuilder() {
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
   const [isCreating, setIsCreating] = useState(false);
   const [activeTab, setActiveTab] = useState<'templates' | 'builder' | 'integrations' | 'analytics'>('templates');
+  const [connectingFrom, setConnectingFrom] = useState<string | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
   const canvasRef = useRef<HTMLDivElement>(null);
+  const workflowRun = useWorkflowRun();
+  const selectedNodeModel = selectedWorkflow?.nodes.find(node => node.id === selectedNode?.id);
+
+  const updateWorkflow = (updatedWorkflow: WorkflowTemplate) => {
+    setSelectedWorkflow(updatedWorkflow);
+    setWorkflows(prev => prev.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w));
+  };
 
   const handleNodeDrag = useCallback((event: React.MouseEvent) => {
     if (!isDragging || !selectedNode || !selectedWorkflow || !canvasRef.current) return;
@@ -269,14 +320,15 @@ export function NoCodeWorkflowBuilder() {
   const addNode = (type: WorkflowNode['type'], nodeType: any) => {
     if (!selectedWorkflow) return;
 
+    const runtimeType: WorkflowNodeType = nodeType.nodeType ?? type;
     const newNode: WorkflowNode = {
-      id: `${type}-${Date.now()}`,
-      type,
+      id: `${runtimeType}-${Date.now()}`,
+      type: runtimeType,
       position: { x: 300, y: 200 },
       data: {
         title: nodeType.name,
         description: nodeType.description,
-        config: {},
+        config: runtimeType === 'action' ? { action: nodeType.id } : {},
         icon: nodeType.icon,
         color: nodeType.color || '#6B7280'
       }
@@ -291,6 +343,55 @@ export function NoCodeWorkflowBuilder() {
     setWorkflows(prev => prev.map(w => w.id === updatedWorkflow.id ? updatedWorkflow : w));
   };
 
+  const updateNodeConfig = (nodeId: string, config: Record<string, any>) => {
+    if (!selectedWorkflow) return;
+    updateWorkflow({
+      ...selectedWorkflow,
+      nodes: selectedWorkflow.nodes.map(node => node.id === nodeId ? { ...node, data: { ...node.data, config } } : node)
+    });
+  };
+
+  /** Connections from a condition alternate true then false */
+  const connectNodes = (sourceId: string, targetId: string) => {
+    setConnectingFrom(null);
+    if (!selectedWorkflow || sourceId === targetId) return;
+    if (selectedWorkflow.connections.some(c => c.source === sourceId && c.target === targetId)) return;
+
+    const source = selectedWorkflow.nodes.find(node => node.id === sourceId);
+    let branch: WorkflowConnection['branch'];
+    if (source?.type === 'condition') {
+      const next = nextConditionBranch(selectedWorkflow.connections, sourceId);
+      if (!next) {
+        toast.error('A condition already has a true and a false branch');
+        return;
+      }
+      branch = next;
+    }
+
+    updateWorkflow({
+      ...selectedWorkflow,
+      connections: [...selectedWorkflow.connections, { id: `conn-${Date.now()}`, source: sourceId, target: targetId, branch }]
+    });
+  };
+
+  const deleteConnection = (connectionId: string) => {
+    if (!selectedWorkflow) return;
+    updateWorkflow({ ...selectedWorkflow, connections: selectedWorkflow.connections.filter(c => c.id !== connectionId) });
+  };
+
+  const saveWorkflow = async () => {
+    if (!selectedWorkflow) return;
+    setIsSaving(true);
+    try {
+      await WorkflowExecutionService.saveWorkflow(toWorkflowGraph(selectedWorkflow));
+      toast.success('Workflow saved');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save workflow');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
   const deleteNode = (nodeId: string) => {
     if (!selectedWorkflow) return;
 
@@ -326,6 +427,7 @@ export function NoCodeWorkflowBuilder() {
   const WorkflowNodeComponent = ({ node, isSelected }: { node: WorkflowNode; isSelected: boolean }) => {
     const NodeIcon = node.data.icon || Zap;
     const platform = PLATFORM_INTEGRATIONS.find(p => p.id === node.data.platform);
+    const runLog = workflowRun.nodeLogs[node.id];
 
     return (
       <motion.div
@@ -354,6 +456,10 @@ export function NoCodeWorkflowBuilder() {
           }}
           onClick={(e) => {
             e.stopPropagation();
+            if (connectingFrom) {
+              connectNodes(connectingFrom, node.id);
+              return;
+            }
             setSelectedNode(selectedNode?.id === node.id ? null : node);
           }}
         >
@@ -400,24 +506,31 @@ export function NoCodeWorkflowBuilder() {
               </p>
             </div>
 
-            {/* Node Status */}
-            {node.data.status && (
+            {/* Last run status */}
+            {runLog && (
               <div className="flex items-center justify-between text-xs">
-                <div className="flex items-center space-x-1">
-                  {node.data.status === 'success' && <CheckCircle2 className="h-3 w-3 text-green-500" />}
-                  {node.data.status === 'error' && <AlertTriangle className="h-3 w-3 text-red-500" />}
-                  {node.data.status === 'running' && <RefreshCw className="h-3 w-3 text-blue-500 animate-spin" />}
-                  <span className="capitalize">{node.data.status}</span>
+                <div className="flex items-center space-x-1" style={{ color: statusColor(runLog.status) }}>
+                  {runLog.status === 'succeeded' && <CheckCircle2 className="h-3 w-3" />}
+                  {runLog.status === 'failed' && <AlertTriangle className="h-3 w-3" />}
+                  {runLog.status === 'running' && <RefreshCw className="h-3 w-3 animate-spin" />}
+                  <span className="capitalize">{runLog.status}</span>
                 </div>
-                {node.data.executionCount && (
-                  <span>{node.data.executionCount} runs</span>
-                )}
+                {runLog.durationMs !== undefined && <span>{runLog.durationMs} ms</span>}
               </div>
             )}
 
-            {/* Connection Points */}
+            {/* Connection Points: click the output, then the step to connect to */}
             <div className="absolute -right-2 top-1/2 transform -translate-y-1/2">
-              <div className="w-4 h-4 rounded-full bg-white border-2 border-gray-300 hover:border-blue-500 cursor-pointer" />
+              <div
+                className={`w-4 h-4 rounded-full bg-white border-2 hover:border-blue-500 cursor-pointer ${
+                  connectingFrom === node.id ? 'border-blue-500' : 'border-gray-300'
+                }`}
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => {
+                  e.stopPropagation();
+                  setConnectingFrom(connectingFrom === node.id ? null : node.id);
+                }}
+              />
             </div>
             <div className="absolute -left-2 top-1/2 transform -translate-y-1/2">
               <div className="w-4 h-4 rounded-full bg-white border-2 border-gray-300 hover:border-blue-500 cursor-pointer" />
@@ -484,6 +597,18 @@ export function NoCodeWorkflowBuilder() {
           points={`${endX-8},${endY-4} ${endX},${endY} ${endX-8},${endY+4}`}
           fill="#00B4D8"
         />
+
+        {connection.branch && (
+          <text
+            x={midX}
+            y={(startY + endY) / 2 - 6}
+            textAnchor="middle"
+            className="text-xs font-medium"
+            fill={connection.branch === 'true' ? '#10B981' : '#EF4444'}
+          >
+            {connection.branch}
+          </text>
+        )}
       </svg>
     );
   };
@@ -643,6 +768,40 @@ export function NoCodeWorkflowBuilder() {
             </TabsContent>
 
             <TabsContent value="builder" className="space-y-4">
+              {/* Selected step settings */}
+              {selectedNodeModel && selectedWorkflow && (
+                <Card className="p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <h4 className="font-semibold text-sm">{selectedNodeModel.data.title}</h4>
+                    <Badge className="text-xs capitalize">{selectedNodeModel.type}</Badge>
+                  </div>
+                  <WorkflowNodeConfigPanel
+                    key={selectedNodeModel.id}
+                    type={selectedNodeModel.type}
+                    config={selectedNodeModel.data.config}
+                    onChange={(config) => updateNodeConfig(selectedNodeModel.id, config)}
+                  />
+                  {selectedWorkflow.connections.filter(c => c.source === selectedNodeModel.id).map(connection => (
+                    <div key={connection.id} className="flex items-center justify-between text-xs text-gray-600">
+                      <span>
+                        → {selectedWorkflow.nodes.find(node => node.id === connection.target)?.data.title}
+                        {connection.branch && ` (${connection.branch})`}
+                      </span>
+                      <Button size="sm" variant="ghost" className="h-6 w-6 p-0" onClick={() => deleteConnection(connection.id)}>
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </Card>
+              )}
+
+              {connectingFrom && (
+                <div className="flex items-center justify-between text-xs bg-blue-50 text-blue-700 rounded-md p-2">
+                  <span className="flex items-center"><Link className="h-3 w-3 mr-1" />Click the step to connect to</span>
+                  <Button size="sm" variant="ghost" className="h-6 px-2" onClick={() => setConnectingFrom(null)}>Cancel</Button>
+                </div>
+              )}
+
               {/* Trigger Nodes */}
               <div>
                 <h4 className="font-semibold mb-3">Triggers</h4>
@@ -681,6 +840,25 @@ export function NoCodeWorkflowBuilder() {
                 </div>
               </div>
 
+              {/* Logic Nodes */}
+              <div>
+                <h4 className="font-semibold mb-3">Logic</h4>
+                <div className="space-y-2">
+                  {LOGIC_TYPES.map((logic) => (
+                    <Button
+                      key={logic.id}
+                      variant="outline"
+                      size="sm"
+                      className="w-full justify-start"
+                      onClick={() => addNode(logic.nodeType, logic)}
+                    >
+                      <logic.icon className="h-4 w-4 mr-2 text-purple-600" />
+                      <span className="text-sm">{logic.name}</span>
+                    </Button>
+                  ))}
+                </div>
+              </div>
+
               {/* Platform Integrations */}
               <div>
                 <h4 className="font-semibold mb-3">Platforms</h4>
@@ -717,7 +895,10 @@ export function NoCodeWorkflowBuilder() {
               }}
               onMouseMove={handleNodeDrag}
               onMouseUp={() => setIsDragging(false)}
-              onClick={() => setSelectedNode(null)}
+              onClick={() => {
+                setSelectedNode(null);
+                setConnectingFrom(null);
+              }}
             >
               {selectedWorkflow && (
                 <>
@@ -770,19 +951,31 @@ export function NoCodeWorkflowBuilder() {
 
       {/* Control Panel */}
       {selectedWorkflow && (
-        <div className="fixed bottom-6 right-6 flex space-x-3">
-          <Button variant="outline" size="lg">
-            <Save className="h-5 w-5 mr-2" />
-            Save
-          </Button>
-          
-          <Button
-            size="lg"
-            className="bg-green-500 hover:bg-green-600 text-white"
-          >
-            <Play className="h-5 w-5 mr-2" />
-            Test Workflow
-          </Button>
+        <div className="fixed bottom-6 right-6 flex flex-col items-end space-y-3">
+          <WorkflowRunPanel
+            nodeLogs={workflowRun.nodeLogs}
+            execution={workflowRun.execution}
+            isRunning={workflowRun.isRunning}
+            onCancel={workflowRun.cancel}
+            onClose={workflowRun.reset}
+          />
+
+          <div className="flex space-x-3">
+            <Button variant="outline" size="lg" onClick={saveWorkflow} disabled={isSaving}>
+              <Save className="h-5 w-5 mr-2" />
+              {isSaving ? 'Saving...' : 'Save'}
+            </Button>
+
+            <Button
+              size="lg"
+              className="bg-green-500 hover:bg-green-600 text-white"
+              disabled={workflowRun.isRunning}
+              onClick={() => workflowRun.run(toWorkflowGraph(selectedWorkflow), { dryRun: true })}
+            >
+              <Play className="h-5 w-5 mr-2" />
+              {workflowRun.isRunning ? 'Testing...' : 'Test Workflow'}
+            </Button>
+          </div>
         </div>
       )}
     </div>
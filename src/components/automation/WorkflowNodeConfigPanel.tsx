@@ -0,0 +1,208 @@
+import React, { useState } from 'react';
+import { Input } from '../ui/input';
+import { Label } from '../ui/label';
+import { Textarea } from '../ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { workflowHandlers } from '../../utils/workflow-engine';
+import type { ConditionOperator, WorkflowNode, WorkflowNodeType } from '../../types/workflow';
+
+const CONDITION_OPERATORS: Array<{ value: ConditionOperator; label: string }> = [
+  { value: 'equals', label: 'Equals' },
+  { value: 'not_equals', label: 'Does not equal' },
+  { value: 'contains', label: 'Contains' },
+  { value: 'greater_than', label: 'Greater than' },
+  { value: 'less_than', label: 'Less than' },
+  { value: 'exists', label: 'Exists' }
+];
+
+const RETRY_BACKOFF_MS = 1000;
+
+/** Maps the panel's `retries` and `timeoutSeconds` fields onto the runtime node settings */
+export function nodeRuntimeSettings(config: Record<string, any>): Pick<WorkflowNode, 'retry' | 'timeoutMs'> {
+  const retries = Number(config.retries ?? 0);
+  const timeoutSeconds = Number(config.timeoutSeconds ?? 0);
+  return {
+    retry: retries > 0 ? { maxAttempts: retries + 1, backoffMs: RETRY_BACKOFF_MS } : undefined,
+    timeoutMs: timeoutSeconds > 0 ? timeoutSeconds * 1000 : undefined
+  };
+}
+
+/** Edits a JSON value; the config only changes while the text parses */
+function JsonField({ label, value, onChange, placeholder }: {
+  label: string;
+  value: unknown;
+  onChange: (value: unknown) => void;
+  placeholder?: string;
+}) {
+  const [text, setText] = useState(value === undefined ? '' : JSON.stringify(value, null, 2));
+  const [invalid, setInvalid] = useState(false);
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">{label}</Label>
+      <Textarea
+        value={text}
+        rows={4}
+        className="font-mono text-xs"
+        placeholder={placeholder}
+        onChange={(e) => {
+          setText(e.target.value);
+          if (!e.target.value.trim()) {
+            setInvalid(false);
+            onChange(undefined);
+            return;
+          }
+          try {
+            onChange(JSON.parse(e.target.value));
+            setInvalid(false);
+          } catch {
+            setInvalid(true);
+          }
+        }}
+      />
+      {invalid && <p className="text-xs text-red-600">Not valid JSON yet — the last valid value is kept</p>}
+    </div>
+  );
+}
+
+interface WorkflowNodeConfigPanelProps {
+  type: WorkflowNodeType;
+  config: Record<string, any>;
+  onChange: (config: Record<string, any>) => void;
+}
+
+/** Type-specific settings for a workflow step, shared by the builder canvases */
+export function WorkflowNodeConfigPanel({ type, config, onChange }: WorkflowNodeConfigPanelProps) {
+  const set = (key: string, value: unknown) => onChange({ ...config, [key]: value });
+  const text = (key: string) => (config[key] ?? '') as string;
+
+  return (
+    <div className="space-y-3">
+      {type === 'trigger' && (
+        <JsonField
+          label="Sample data for dry runs"
+          value={config.sample}
+          onChange={(value) => set('sample', value)}
+          placeholder='{ "email": "ada@example.com" }'
+        />
+      )}
+
+      {type === 'condition' && (
+        <>
+          <div className="space-y-1">
+            <Label className="text-xs">Field</Label>
+            <Input value={text('field')} onChange={(e) => set('field', e.target.value)} placeholder="input.status or trigger.email" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Operator</Label>
+            <Select value={config.operator ?? 'equals'} onValueChange={(value) => set('operator', value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {CONDITION_OPERATORS.map(operator => (
+                  <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {config.operator !== 'exists' && (
+            <div className="space-y-1">
+              <Label className="text-xs">Value</Label>
+              <Input value={text('value')} onChange={(e) => set('value', e.target.value)} />
+            </div>
+          )}
+          <p className="text-xs text-gray-500">The first connection you draw from a condition is its “true” branch, the second its “false” branch.</p>
+        </>
+      )}
+
+      {type === 'delay' && (
+        <div className="space-y-1">
+          <Label className="text-xs">Wait (seconds)</Label>
+          <Input type="number" min={0} value={config.seconds ?? ''} onChange={(e) => set('seconds', Number(e.target.value))} />
+        </div>
+      )}
+
+      {type === 'webhook' && (
+        <>
+          <div className="space-y-1">
+            <Label className="text-xs">URL</Label>
+            <Input value={text('url')} onChange={(e) => set('url', e.target.value)} placeholder="https://example.com/hooks/{{ trigger.id }}" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Method</Label>
+            <Select value={config.method ?? 'POST'} onValueChange={(value) => set('method', value)}>
+              <SelectTrigger><SelectValue /></SelectTrigger>
+              <SelectContent>
+                {['GET', 'POST', 'PUT', 'PATCH', 'DELETE'].map(method => (
+                  <SelectItem key={method} value={method}>{method}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <JsonField
+            label="Body (defaults to the previous step's output)"
+            value={config.body}
+            onChange={(value) => set('body', value)}
+          />
+        </>
+      )}
+
+      {type === 'ai' && (
+        <>
+          <div className="space-y-1">
+            <Label className="text-xs">Prompt</Label>
+            <Textarea value={text('prompt')} rows={4} onChange={(e) => set('prompt', e.target.value)} placeholder="Summarise {{ input }}" />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">System prompt</Label>
+            <Textarea value={text('systemPrompt')} rows={2} onChange={(e) => set('systemPrompt', e.target.value)} />
+          </div>
+        </>
+      )}
+
+      {type === 'action' && (
+        <>
+          <div className="space-y-1">
+            <Label className="text-xs">Operation</Label>
+            <Select value={config.action ?? ''} onValueChange={(value) => set('action', value)}>
+              <SelectTrigger><SelectValue placeholder="Choose an operation" /></SelectTrigger>
+              <SelectContent>
+                {workflowHandlers.listActions().map(action => (
+                  <SelectItem key={action.name} value={action.name}>{action.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {config.action && !workflowHandlers.hasAction(config.action) && (
+              <p className="text-xs text-amber-600">
+                “{config.action}” has no runtime handler yet; choose an operation or use a webhook step instead.
+              </p>
+            )}
+          </div>
+          {config.action === 'set-data' && (
+            <JsonField label="Values to add" value={config.values} onChange={(value) => set('values', value)} placeholder='{ "approved": true }' />
+          )}
+        </>
+      )}
+
+      {type !== 'trigger' && (
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label className="text-xs">Retries</Label>
+            <Input type="number" min={0} max={5} value={config.retries ?? 0} onChange={(e) => set('retries', Number(e.target.value))} />
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs">Timeout (s)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={config.timeoutSeconds ?? ''}
+              placeholder={type === 'delay' ? 'None' : '30'}
+              onChange={(e) => set('timeoutSeconds', Number(e.target.value))}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default WorkflowNodeConfigPanel;
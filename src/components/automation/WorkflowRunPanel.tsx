@@ -0,0 +1,96 @@
+import React from 'react';
+import { Card } from '../ui/card';
+import { Badge } from '../ui/badge';
+import { Button } from '../ui/button';
+import { CheckCircle2, AlertTriangle, RefreshCw, SkipForward, Clock, X } from 'lucide-react';
+import type { NodeExecutionLog, NodeRunStatus, WorkflowExecution } from '../../types/workflow';
+
+const STATUS_STYLES: Record<NodeRunStatus, { color: string; icon: React.ComponentType<{ className?: string }> }> = {
+  pending: { color: '#6B7280', icon: Clock },
+  running: { color: '#3B82F6', icon: RefreshCw },
+  succeeded: { color: '#10B981', icon: CheckCircle2 },
+  failed: { color: '#EF4444', icon: AlertTriangle },
+  skipped: { color: '#9CA3AF', icon: SkipForward }
+};
+
+export function statusColor(status: NodeRunStatus): string {
+  return STATUS_STYLES[status].color;
+}
+
+function preview(value: unknown): string {
+  const text = typeof value === 'string' ? value : JSON.stringify(value, null, 2);
+  return text.length > 400 ? `${text.slice(0, 400)}…` : text;
+}
+
+interface WorkflowRunPanelProps {
+  /** Live node updates while running; the finished execution afterwards */
+  nodeLogs: Record<string, NodeExecutionLog>;
+  execution: WorkflowExecution | null;
+  isRunning: boolean;
+  onCancel?: () => void;
+  onClose?: () => void;
+}
+
+/** Step-by-step log of the current or last workflow run */
+export function WorkflowRunPanel({ nodeLogs, execution, isRunning, onCancel, onClose }: WorkflowRunPanelProps) {
+  const logs = execution?.logs ?? Object.values(nodeLogs);
+  if (!isRunning && logs.length === 0) return null;
+
+  return (
+    <Card className="w-96 max-h-[60vh] overflow-y-auto p-4 space-y-3 shadow-xl">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2">
+          <h4 className="font-semibold text-sm">{execution?.dryRun ? 'Dry run' : 'Run'} log</h4>
+          {execution ? (
+            <Badge style={{ backgroundColor: execution.status === 'completed' ? '#10B98115' : '#EF444415', color: execution.status === 'completed' ? '#10B981' : '#EF4444' }}>
+              {execution.status}
+            </Badge>
+          ) : (
+            <Badge className="bg-blue-50 text-blue-600">running</Badge>
+          )}
+        </div>
+        <div className="flex gap-1">
+          {isRunning && onCancel && (
+            <Button size="sm" variant="outline" onClick={onCancel}>Cancel</Button>
+          )}
+          {!isRunning && onClose && (
+            <Button size="sm" variant="ghost" className="h-7 w-7 p-0" onClick={onClose}>
+              <X className="h-4 w-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {execution?.error && <p className="text-xs text-red-600">{execution.error}</p>}
+
+      <div className="space-y-2">
+        {logs.map(log => {
+          const { color, icon: Icon } = STATUS_STYLES[log.status];
+          return (
+            <div key={log.nodeId} className="border rounded-md p-2 text-xs space-y-1">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-2">
+                  <span style={{ color }}>
+                    <Icon className={`h-3 w-3 ${log.status === 'running' ? 'animate-spin' : ''}`} />
+                  </span>
+                  <span className="font-medium">{log.label}</span>
+                  <span className="text-gray-400">{log.type}</span>
+                </div>
+                <span className="text-gray-500">
+                  {log.attempts > 1 && `${log.attempts} attempts · `}
+                  {log.durationMs !== undefined && `${log.durationMs} ms`}
+                </span>
+              </div>
+              {log.error && <p className="text-red-600">{log.error}</p>}
+              {log.output !== undefined && log.status === 'succeeded' && (
+                <pre className="bg-gray-50 rounded p-2 whitespace-pre-wrap break-all text-[11px]">{preview(log.output)}</pre>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </Card>
+  );
+}
+
+export default WorkflowRunPanel;
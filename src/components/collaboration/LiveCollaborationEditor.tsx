@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef, useCallback } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef, useCallback } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { Card } from '../ui/card';
 import { Button } from '../ui/button';
@@ -15,6 +15,8 @@ import {
 import { Prism as SyntaxHighlighter } from 'react-syntax-highlighter';
 import { vscDarkPlus } from 'react-syntax-highlighter/dist/esm/styles/prism';
 import { toast } from 'sonner@2.0.3';
+import { useCollaborativeDocument } from '../../hooks/useCollaborativeDocument';
+import { transformIndex, type TextOperation } from '../../utils/text-operations';
 
 interface CollaboratorPresence {
   id: string;
@@ -67,6 +69,8 @@ interface FileContent {
 interface LiveCollaborationEditorProps {
   projectId: string;
   currentUserId: string;
+  /** Collaboration session whose shared document backs the active file */
+  sessionId?: string;
   onContentChange?: (fileId: string, content: string) => void;
   onSave?: (files: FileContent[]) => void;
 }
@@ -74,6 +78,7 @@ interface LiveCollaborationEditorProps {
 export function LiveCollaborationEditor({ 
   projectId, 
   currentUserId, 
+  sessionId,
   onContentChange,
   onSave 
 }: LiveCollaborationEditorProps) {
@@ -93,6 +98,42 @@ export function LiveCollaborationEditor({
   
   const editorRef = useRef<HTMLTextAreaElement>(null);
   const typingTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const pendingSelectionRef = useRef<{ start: number; end: number } | null>(null);
+
+  // Keep the local caret in place while remote edits land around it
+  const handleRemoteOperation = useCallback((operation: TextOperation) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+    const selection = pendingSelectionRef.current ?? { start: editor.selectionStart, end: editor.selectionEnd };
+    pendingSelectionRef.current = {
+      start: transformIndex(selection.start, operation),
+      end: transformIndex(selection.end, operation)
+    };
+  }, []);
+
+  const sharedDocument = useCollaborativeDocument({
+    sessionId,
+    projectId,
+    userId: currentUserId,
+    onRemoteOperation: handleRemoteOperation
+  });
+  const connected = sessionId ? sharedDocument.isConnected : isConnected;
+
+  useEffect(() => {
+    if (!sessionId || !sharedDocument.isReady) return;
+    setEditorContent(sharedDocument.content);
+    setFiles(prev => prev.map(file =>
+      file.id === activeFile ? { ...file, content: sharedDocument.content } : file
+    ));
+  }, [sessionId, sharedDocument.isReady, sharedDocument.content, activeFile]);
+
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    if (selection && editorRef.current) {
+      editorRef.current.setSelectionRange(selection.start, selection.end);
+    }
+    pendingSelectionRef.current = null;
+  }, [editorContent]);
 
   useEffect(() => {
     initializeCollaboration();
@@ -307,6 +348,9 @@ body {
 
   const handleContentChange = useCallback((content: string) => {
     setEditorContent(content);
+    if (sessionId) {
+      sharedDocument.updateContent(content);
+    }
     setIsTyping(true);
     
     // Clear existing timeout
@@ -328,7 +372,7 @@ body {
         ? { ...file, content, lastModified: 'just now', modifiedBy: 'You' }
         : file
     ));
-  }, [activeFile, onContentChange]);
+  }, [activeFile, onContentChange, sessionId, sharedDocument.updateContent]);
 
   const handleSaveFiles = async () => {
     try {
@@ -382,9 +426,9 @@ body {
       <div className="flex items-center justify-between p-4 border-b bg-card">
         <div className="flex items-center gap-4">
           <div className="flex items-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500' : 'bg-red-500'}`} />
+            <div className={`w-2 h-2 rounded-full ${connected ? 'bg-green-500' : 'bg-red-500'}`} />
             <span className="text-sm text-muted-foreground">
-              {isConnected ? 'Connected' : 'Disconnected'}
+              {connected ? 'Connected' : 'Disconnected'}
             </span>
           </div>
           
@@ -21,6 +21,8 @@ import { LoadingState } from './app-states/LoadingState';
 import { ErrorState } from './app-states/ErrorState';
 import { useAuthentication } from '../../hooks/useAuthentication';
 import { initializeApp, type AppMode } from '../../utils/system-detection';
+import { safeRedirectPath } from '../../utils/router';
+import { RouteGuard, useRouter } from '../router';
 
 // Enhanced component creation with error boundaries and performance optimization
 const createEnhancedFallback = (name: string, message: string, action?: () => void) => {
@@ -163,76 +165,31 @@ interface RouteState {
  * Enhanced URL-based routing hook with mobile-first approach
  */
 function useEnhancedRouting() {
-  const [routeState, setRouteState] = useState<RouteState>(() => {
-    if (typeof window === 'undefined') {
-      return {
-        currentPath: '/',
-        searchParams: new URLSearchParams(),
-        isDemoMode: false,
-        isAuthRoute: false,
-        shouldShowApp: false,
-        routeData: {}
-      };
-    }
-    
-    const url = new URL(window.location.href);
+  const { location, searchParams, navigate } = useRouter();
+
+  const routeState = useMemo<RouteState>(() => {
     const isMobileDevice = /Android|webOS|iPhone|iPod|BlackBerry|Opera Mini/i.test(navigator.userAgent) || window.innerWidth <= 768;
     
     // For mobile devices, be more conservative about showing app vs landing page
     const shouldShowApp = isMobileDevice 
-      ? url.searchParams.has('app') && url.searchParams.get('app') === 'true' // Explicit app parameter required for mobile
-      : url.searchParams.has('app') || localStorage.getItem('ff-show-app') === 'true';
+      ? searchParams.has('app') && searchParams.get('app') === 'true' // Explicit app parameter required for mobile
+      : searchParams.has('app') || localStorage.getItem('ff-show-app') === 'true';
     
     return {
-      currentPath: url.pathname,
-      searchParams: url.searchParams,
-      isDemoMode: url.searchParams.has('demo') || url.pathname.includes('/demo'),
-      isAuthRoute: url.pathname.includes('/auth/') || url.pathname.includes('/verify-') || url.pathname.includes('/reset-'),
+      currentPath: location.pathname,
+      searchParams,
+      isDemoMode: searchParams.has('demo') || location.pathname.includes('/demo'),
+      isAuthRoute: location.pathname === '/auth' || location.pathname.includes('/auth/') || location.pathname.includes('/verify-') || location.pathname.includes('/reset-'),
       shouldShowApp,
       routeData: {}
     };
-  });
-
-  const updateRouteState = useCallback(() => {
-    const url = new URL(window.location.href);
-    const isMobileDevice = /Android|webOS|iPhone|iPod|BlackBerry|Opera Mini/i.test(navigator.userAgent) || window.innerWidth <= 768;
-    
-    // For mobile devices, be more conservative about showing app vs landing page
-    const shouldShowApp = isMobileDevice 
-      ? url.searchParams.has('app') && url.searchParams.get('app') === 'true' // Explicit app parameter required for mobile
-      : url.searchParams.has('app') || localStorage.getItem('ff-show-app') === 'true';
-    
-    setRouteState({
-      currentPath: url.pathname,
-      searchParams: url.searchParams,
-      isDemoMode: url.searchParams.has('demo') || url.pathname.includes('/demo'),
-      isAuthRoute: url.pathname.includes('/auth/') || url.pathname.includes('/verify-') || url.pathname.includes('/reset-'),
-      shouldShowApp,
-      routeData: {}
-    });
-  }, []);
-
-  useEffect(() => {
-    const handleRouteChange = () => updateRouteState();
-    
-    window.addEventListener('popstate', handleRouteChange);
-    window.addEventListener('pushstate', handleRouteChange);
-    window.addEventListener('replacestate', handleRouteChange);
-    
-    return () => {
-      window.removeEventListener('popstate', handleRouteChange);
-      window.removeEventListener('pushstate', handleRouteChange);
-      window.removeEventListener('replacestate', handleRouteChange);
-    };
-  }, [updateRouteState]);
+  }, [location.pathname, searchParams]);
 
   const navigateToRoute = useCallback((path: string, replace: boolean = false) => {
-    const method = replace ? 'replaceState' : 'pushState';
-    window.history[method]({}, '', path);
-    updateRouteState();
-  }, [updateRouteState]);
+    navigate(path, { replace });
+  }, [navigate]);
 
-  return { routeState, navigateToRoute, updateRouteState };
+  return { routeState, navigateToRoute };
 }
 
 /**
@@ -376,8 +333,14 @@ export function AppCoreOptimized(): JSX.Element {
     const url = new URL(window.location.href);
     url.searchParams.delete('app');
     localStorage.removeItem('ff-show-app');
-    window.history.replaceState({}, '', url.toString());
-  }, []);
+    navigateToRoute(`${url.pathname}${url.search}${url.hash}`, true);
+  }, [navigateToRoute]);
+
+  // Mobile visitors asking for the app without a session get the landing page instead
+  const shouldLeaveApp = routeState.shouldShowApp && !auth.isAuthenticated && auth.isInitialized && deviceDetection.isMobile;
+  useEffect(() => {
+    if (shouldLeaveApp) cleanupUrlParams();
+  }, [shouldLeaveApp, cleanupUrlParams]);
 
   // Enhanced emergency mode with better UX
   if (appState.mode === 'emergency') {
@@ -473,7 +436,8 @@ export function AppCoreOptimized(): JSX.Element {
             <AuthenticationSystem
               onAuthSuccess={(user) => {
                 console.log('✅ Auth success:', user?.email);
-                navigateToRoute('/');
+                // Back to the page that sent the user to sign in
+                navigateToRoute(safeRedirectPath(routeState.searchParams.get('redirect')), true);
               }}
               onAuthError={(error) => {
                 console.error('❌ Auth error:', error);
@@ -515,9 +479,8 @@ export function AppCoreOptimized(): JSX.Element {
   }
 
   // Mobile authentication - Only for explicit auth routes or user-initiated sign in
-  if (routeState.shouldShowApp && !auth.isAuthenticated && auth.isInitialized && deviceDetection.isMobile) {
-    // For mobile, redirect to landing page and clear the app flag
-    cleanupUrlParams();
+  if (shouldLeaveApp) {
+    // For mobile, show the landing page while the app flag is cleared
     return (
       <ErrorBoundary 
         fallback={<LandingFallback />}
@@ -570,21 +533,28 @@ export function AppCoreOptimized(): JSX.Element {
     );
   }
 
-  // Enhanced landing page
+  // Enhanced landing page; signed-out visitors on a protected deep link are sent to sign in first
   return (
     <ErrorBoundary 
       fallback={<LandingFallback />}
       onError={handleError}
     >
       <div className="min-h-screen bg-[var(--ff-bg-dark)]">
-        <Suspense fallback={
+        <RouteGuard fallback={
           <LoadingState 
-            message="Loading FlashFusion" 
-            detail="Preparing the ultimate creators hub..." 
+            message="Checking Access" 
+            detail="Verifying your session..." 
           />
         }>
-          <FlashFusionLandingPage />
-        </Suspense>
+          <Suspense fallback={
+            <LoadingState 
+              message="Loading FlashFusion" 
+              detail="Preparing the ultimate creators hub..." 
+            />
+          }>
+            <FlashFusionLandingPage />
+          </Suspense>
+        </RouteGuard>
         
         {/* Enhanced development debug info */}
         {process.env.NODE_ENV === 'development' && (
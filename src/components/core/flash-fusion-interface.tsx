@@ -9,6 +9,8 @@ import { FlashFusionLoader } from '../ui/flash-fusion-loader';
 import { LiteModeIndicator } from '../ui/lite-mode-indicator';
 import { EnhancedHomePage } from '../pages/enhanced-home-page';
 import { useRouteNavigation } from '../../hooks/use-route-navigation';
+import { lazyRoute } from '../router';
+import type { PageType } from '../../types';
 import type { AppMode } from '../../utils/system-detection';
 
 // Import existing pages
@@ -17,10 +19,10 @@ import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Badge } from '../ui/badge';
 
 // Lazy load major components
-const Dashboard = React.lazy(() => import('../pages/DashboardPage'));
-const AIToolsHub = React.lazy(() => import('../tools/AIToolsHub'));
-const ProjectsPage = React.lazy(() => import('../pages/ProjectsPage'));
-const AnalyticsPage = React.lazy(() => import('../pages/AnalyticsPage'));
+const Dashboard = lazyRoute(() => import('../pages/DashboardPage'));
+const AIToolsHub = lazyRoute(() => import('../tools/AIToolsHub'));
+const ProjectsPage = lazyRoute(() => import('../pages/ProjectsPage'));
+const AnalyticsPage = lazyRoute(() => import('../pages/AnalyticsPage'));
 
 // Phase 1 Components
 const MultiModelAIService = React.lazy(() => import('../ai/MultiModelAIService'));
@@ -35,18 +37,28 @@ const EnterpriseSecurityWorkflow = React.lazy(() => import('../workflows/Enterpr
 const SmartAnalyticsWorkflow = React.lazy(() => import('../workflows/SmartAnalyticsWorkflow'));
 const QualityAssuranceWorkflow = React.lazy(() => import('../workflows/QualityAssuranceWorkflow'));
 
+// Page chunks the navigation header preloads on hover
+const ROUTE_CHUNKS: Partial<Record<PageType, { preload: () => Promise<unknown> }>> = {
+  dashboard: Dashboard,
+  tools: AIToolsHub,
+  projects: ProjectsPage,
+  analytics: AnalyticsPage
+};
+
+const preloadRoute = (route: PageType) => {
+  ROUTE_CHUNKS[route]?.preload().catch(() => {
+    // Rendering the page retries the load and reports the failure
+  });
+};
+
 interface FlashFusionInterfaceProps {
   mode: AppMode;
 }
 
 export const FlashFusionInterface = memo(({ mode }: FlashFusionInterfaceProps) => {
-  const { currentRoute, isTransitioning, navigateToRoute } = useRouteNavigation();
+  const { currentRoute, navigateToRoute } = useRouteNavigation();
 
   const renderMainContent = () => {
-    if (isTransitioning) {
-      return <FlashFusionLoader message="Loading..." detail="Preparing your workspace" />;
-    }
-
     switch (currentRoute) {
       case 'home':
         return <EnhancedHomePage onNavigate={navigateToRoute} />;
@@ -59,6 +71,7 @@ export const FlashFusionInterface = memo(({ mode }: FlashFusionInterfaceProps) =
         );
       
       case 'tools':
+      case 'tool-detail':
         return (
           <Suspense fallback={<FlashFusionLoader message="Loading AI Tools" detail="Initializing 60+ development tools" />}>
             <AIToolsHub />
@@ -66,6 +79,7 @@ export const FlashFusionInterface = memo(({ mode }: FlashFusionInterfaceProps) =
         );
       
       case 'projects':
+      case 'project-detail':
         return (
           <Suspense fallback={<FlashFusionLoader message="Loading Projects" detail="Fetching your development projects" />}>
             <ProjectsPage />
@@ -137,7 +151,7 @@ export const FlashFusionInterface = memo(({ mode }: FlashFusionInterfaceProps) =
                     Automated build, test, and deployment pipeline with real-time monitoring
                   </p>
                   <Button 
-                    onClick={() => navigateToRoute('cicd-pipeline')}
+                    onClick={() => navigateToRoute('cicd')}
                     className="ff-btn-accent w-full"
                   >
                     Configure Pipeline
@@ -162,7 +176,7 @@ export const FlashFusionInterface = memo(({ mode }: FlashFusionInterfaceProps) =
           </Suspense>
         );
       
-      case 'cicd-pipeline':
+      case 'cicd':
         return (
           <Suspense fallback={<FlashFusionLoader message="Loading CI/CD Pipeline" detail="Initializing deployment automation" />}>
             <AdvancedCICDPipeline />
@@ -221,7 +235,7 @@ export const FlashFusionInterface = memo(({ mode }: FlashFusionInterfaceProps) =
             </div>
             
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6 ff-stagger-fade">
-              {[
+              {([
                 {
                   id: 'ai-creation',
                   title: 'AI-Powered Creation',
@@ -270,7 +284,7 @@ export const FlashFusionInterface = memo(({ mode }: FlashFusionInterfaceProps) =
                   color: 'from-emerald-500 to-green-500',
                   route: 'quality-assurance'
                 }
-              ].map((workflow) => (
+              ] as const).map((workflow) => (
                 <Card key={workflow.id} className="ff-card-interactive cursor-pointer" onClick={() => navigateToRoute(workflow.route)}>
                   <CardContent className="p-6">
                     <div className="space-y-4">
@@ -417,7 +431,7 @@ export const FlashFusionInterface = memo(({ mode }: FlashFusionInterfaceProps) =
 
   return (
     <div className="min-h-screen bg-background">
-      <NavigationHeader currentRoute={currentRoute} onRouteChange={navigateToRoute} />
+      <NavigationHeader currentRoute={currentRoute} onRoutePreload={preloadRoute} />
       
       <main className="container mx-auto px-4 py-8">
         <div className="max-w-7xl mx-auto">
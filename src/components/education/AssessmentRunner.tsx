@@ -0,0 +1,378 @@
+/**
+ * Assessment Runner
+ *
+ * Takes an assessment from generated content: renders the questions, scores
+ * objective answers from the answer key, asks the model for rubric scores on
+ * written answers and lets the teacher confirm or override every score
+ * before the attempt is stored.
+ */
+
+import React, { useCallback, useMemo, useState } from 'react';
+import { Button } from '../ui/button';
+import { Input } from '../ui/input';
+import { Textarea } from '../ui/textarea';
+import { Badge } from '../ui/badge';
+import { Checkbox } from '../ui/checkbox';
+import { Label } from '../ui/label';
+import { RadioGroup, RadioGroupItem } from '../ui/radio-group';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
+import { CheckCircle, Sparkles } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import AIService from '../../services/AIService';
+import AssessmentService from '../../services/AssessmentService';
+import type {
+  Assessment,
+  AssessmentAttempt,
+  AssessmentQuestion,
+  EducationalContent,
+  QuestionGrade,
+  QuestionResponse
+} from '../../types/education';
+import {
+  attemptPercentage,
+  gradeResponses,
+  isObjective,
+  overrideGrade,
+  scoreWithRubric,
+  summarizeGrades
+} from '../../utils/assessment-grading';
+import { choicesOf, correctChoiceIndexes, matchingPairs, optionLetter } from '../../utils/education-export';
+
+interface AssessmentRunnerProps {
+  content: EducationalContent;
+  assessment: Assessment;
+}
+
+const STATUS_LABELS: Record<QuestionGrade['status'], string> = {
+  auto: 'Auto-graded',
+  suggested: 'AI suggestion',
+  reviewed: 'Reviewed',
+  pending: 'Needs scoring'
+};
+
+const mutedText: React.CSSProperties = { color: 'var(--ff-text-muted)', fontSize: 'var(--ff-text-xs)' };
+
+function QuestionInput({
+  question,
+  response,
+  disabled,
+  onChange
+}: {
+  question: AssessmentQuestion;
+  response: QuestionResponse;
+  disabled: boolean;
+  onChange: (response: QuestionResponse) => void;
+}) {
+  const id = `question-${question.id}`;
+
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false': {
+      const choices = choicesOf(question);
+      if (correctChoiceIndexes(question).length > 1) {
+        const chosen = response.choices ?? [];
+        return (
+          <div className="space-y-2">
+            {choices.map((choice, index) => (
+              <div key={index} className="flex items-center gap-2">
+                <Checkbox
+                  id={`${id}-${index}`}
+                  disabled={disabled}
+                  checked={chosen.includes(index)}
+                  onCheckedChange={(checked) => onChange({
+                    choices: checked ? [...chosen, index].sort((a, b) => a - b) : chosen.filter(entry => entry !== index)
+                  })}
+                />
+                <Label htmlFor={`${id}-${index}`}>{optionLetter(index)}. {choice}</Label>
+              </div>
+            ))}
+          </div>
+        );
+      }
+      return (
+        <RadioGroup
+          disabled={disabled}
+          value={response.choices?.[0] !== undefined ? String(response.choices[0]) : ''}
+          onValueChange={(value) => onChange({ choices: [Number(value)] })}
+        >
+          {choices.map((choice, index) => (
+            <div key={index} className="flex items-center gap-2">
+              <RadioGroupItem id={`${id}-${index}`} value={String(index)} />
+              <Label htmlFor={`${id}-${index}`}>{optionLetter(index)}. {choice}</Label>
+            </div>
+          ))}
+        </RadioGroup>
+      );
+    }
+    case 'matching': {
+      const pairs = matchingPairs(question);
+      // Listed alphabetically so the order doesn't give the pairs away
+      const targets = [...new Set(pairs.map(pair => pair.match))].sort((a, b) => a.localeCompare(b));
+      const matches = response.matches ?? [];
+      return (
+        <div className="space-y-2">
+          {pairs.map((pair, index) => (
+            <div key={index} className="grid grid-cols-2 items-center gap-2">
+              <span>{pair.prompt}</span>
+              <Select
+                disabled={disabled}
+                value={matches[index] ?? ''}
+                onValueChange={(value) => {
+                  const next = pairs.map((_, entry) => matches[entry] ?? '');
+                  next[index] = value;
+                  onChange({ matches: next });
+                }}
+              >
+                <SelectTrigger aria-label={`Match for ${pair.prompt}`}>
+                  <SelectValue placeholder="Choose a match" />
+                </SelectTrigger>
+                <SelectContent>
+                  {targets.map(target => <SelectItem key={target} value={target}>{target}</SelectItem>)}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+      );
+    }
+    default:
+      // Written answers get room to write; short keyed answers a single line
+      return isObjective(question) ? (
+        <Input
+          id={id}
+          aria-label={question.question}
+          disabled={disabled}
+          value={response.text ?? ''}
+          onChange={(event) => onChange({ text: event.target.value })}
+        />
+      ) : (
+        <Textarea
+          id={id}
+          aria-label={question.question}
+          disabled={disabled}
+          rows={question.type === 'essay' ? 8 : 4}
+          value={response.text ?? ''}
+          onChange={(event) => onChange({ text: event.target.value })}
+        />
+      );
+  }
+}
+
+export function AssessmentRunner({ content, assessment }: AssessmentRunnerProps) {
+  const [startedAt] = useState(() => new Date());
+  const [responses, setResponses] = useState<AssessmentAttempt['responses']>({});
+  const [attempt, setAttempt] = useState<AssessmentAttempt | null>(null);
+  const [grades, setGrades] = useState<QuestionGrade[]>([]);
+  const [scoringId, setScoringId] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const { rubric } = assessment;
+  const moduleIds = useMemo(() => content.assessments.map(entry => entry.id), [content.assessments]);
+  const totals = summarizeGrades(grades);
+
+  const suggestScore = useCallback(async (question: AssessmentQuestion, grade: QuestionGrade): Promise<QuestionGrade> => {
+    const answer = responses[question.id]?.text ?? '';
+    if (!rubric || !answer.trim()) return grade;
+    const suggestion = await AIService.scoreRubricResponse(question, rubric, answer);
+    return suggestion ? scoreWithRubric(grade, rubric, suggestion.criteria, { reviewed: false, feedback: suggestion.feedback }) : grade;
+  }, [responses, rubric]);
+
+  const handleSubmit = useCallback(async () => {
+    setIsSubmitting(true);
+    try {
+      const graded = gradeResponses(assessment, responses);
+      // Suggestions are fetched one at a time to stay inside provider rate limits
+      for (const [index, grade] of graded.entries()) {
+        if (grade.status !== 'pending') continue;
+        try {
+          graded[index] = await suggestScore(assessment.questions[index], grade);
+        } catch (error) {
+          console.error('Rubric suggestion failed:', error);
+        }
+      }
+
+      const saved = await AssessmentService.submitAttempt({
+        contentId: content.id,
+        assessmentId: assessment.id,
+        responses,
+        grades: graded,
+        startedAt,
+        submittedAt: new Date()
+      }, moduleIds);
+      setAttempt(saved);
+      setGrades(saved.grades);
+      if (saved.status === 'needs-review') {
+        toast.info('Some answers need a teacher to confirm their scores');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to submit the assessment');
+    } finally {
+      setIsSubmitting(false);
+    }
+  }, [assessment, content.id, moduleIds, responses, startedAt, suggestScore]);
+
+  const updateGrade = (questionId: string, update: (grade: QuestionGrade) => QuestionGrade) => {
+    setGrades(current => current.map(grade => (grade.questionId === questionId ? update(grade) : grade)));
+  };
+
+  const handleSuggest = async (question: AssessmentQuestion) => {
+    setScoringId(question.id);
+    try {
+      const grade = grades.find(entry => entry.questionId === question.id)!;
+      const suggested = await suggestScore(question, grade);
+      if (suggested === grade) toast.error('No rubric score could be suggested for this answer');
+      updateGrade(question.id, () => suggested);
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Rubric suggestion failed');
+    } finally {
+      setScoringId(null);
+    }
+  };
+
+  const handleSaveReview = async () => {
+    if (!attempt) return;
+    setIsSaving(true);
+    try {
+      const reviewed = await AssessmentService.saveReview(attempt, grades, moduleIds);
+      setAttempt(reviewed);
+      toast.success(reviewed.status === 'graded' ? 'Scores saved' : 'Scores saved; some answers still need review');
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to save scores');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      {assessment.description && <p style={{ color: 'var(--ff-text-secondary)' }}>{assessment.description}</p>}
+
+      {assessment.questions.map((question, index) => {
+        const grade = grades.find(entry => entry.questionId === question.id);
+        const rubricScored = rubric && !isObjective(question) && Boolean(responses[question.id]?.text?.trim());
+
+        return (
+          <div
+            key={question.id}
+            className="space-y-3 p-4 rounded-lg"
+            style={{ border: '1px solid rgba(255, 255, 255, 0.1)', borderRadius: 'var(--ff-radius-sm)' }}
+          >
+            <div className="flex items-start justify-between gap-4">
+              <p style={{ color: 'var(--ff-text-primary)', fontWeight: 'var(--ff-weight-medium)' }}>
+                {index + 1}. {question.question}
+              </p>
+              <span style={mutedText}>
+                {grade ? `${grade.points} / ${grade.maxPoints}` : `${question.points}`} pts
+              </span>
+            </div>
+
+            <QuestionInput
+              question={question}
+              response={responses[question.id] ?? {}}
+              disabled={attempt !== null}
+              onChange={(response) => setResponses(current => ({ ...current, [question.id]: response }))}
+            />
+
+            {grade && (
+              <div className="space-y-3 pt-2" style={{ borderTop: '1px solid rgba(255, 255, 255, 0.1)' }}>
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge variant={grade.status === 'pending' || grade.status === 'suggested' ? 'secondary' : 'outline'}>
+                    {STATUS_LABELS[grade.status]}
+                  </Badge>
+                  {rubricScored && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      disabled={scoringId === question.id}
+                      onClick={() => handleSuggest(question)}
+                    >
+                      <Sparkles className="w-3 h-3 mr-1" />
+                      {scoringId === question.id ? 'Scoring...' : 'Suggest score'}
+                    </Button>
+                  )}
+                  {grade.status !== 'reviewed' && grade.status !== 'auto' && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateGrade(question.id, current => current.criteria && rubric
+                        ? scoreWithRubric(current, rubric, current.criteria, { reviewed: true })
+                        : overrideGrade(current, current.points))}
+                    >
+                      <CheckCircle className="w-3 h-3 mr-1" />
+                      Approve
+                    </Button>
+                  )}
+                </div>
+
+                {rubricScored && rubric.criteria.map(criterion => {
+                  const score = grade.criteria?.find(entry => entry.criterionId === criterion.id);
+                  return (
+                    <div key={criterion.id} className="grid grid-cols-[1fr_auto] items-center gap-2">
+                      <div>
+                        <span style={{ color: 'var(--ff-text-secondary)' }}>{criterion.name} ({criterion.weight}%)</span>
+                        {score?.rationale && <p style={mutedText}>{score.rationale}</p>}
+                      </div>
+                      <Select
+                        value={score ? String(score.level) : ''}
+                        onValueChange={(value) => updateGrade(question.id, current => {
+                          const criteria = rubric.criteria.map(entry =>
+                            entry.id === criterion.id
+                              ? { criterionId: entry.id, level: Number(value) }
+                              : current.criteria?.find(existing => existing.criterionId === entry.id) ?? { criterionId: entry.id, level: 0 });
+                          return scoreWithRubric(current, rubric, criteria, { reviewed: true });
+                        })}
+                      >
+                        <SelectTrigger className="w-40" aria-label={`${criterion.name} level`}>
+                          <SelectValue placeholder="Level" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {rubric.scale.map(step => (
+                            <SelectItem key={step.level} value={String(step.level)}>{step.level} · {step.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  );
+                })}
+
+                <div className="flex items-center gap-2">
+                  <Label htmlFor={`points-${question.id}`} style={mutedText}>Override points</Label>
+                  <Input
+                    id={`points-${question.id}`}
+                    type="number"
+                    className="w-24"
+                    min={0}
+                    max={grade.maxPoints}
+                    step={0.5}
+                    value={grade.points}
+                    onChange={(event) => updateGrade(question.id, current => overrideGrade(current, Number(event.target.value)))}
+                  />
+                </div>
+                {grade.feedback && <p style={{ color: 'var(--ff-text-secondary)', fontSize: 'var(--ff-text-sm)' }}>{grade.feedback}</p>}
+              </div>
+            )}
+          </div>
+        );
+      })}
+
+      {attempt ? (
+        <div className="flex items-center justify-between">
+          <span style={{ color: 'var(--ff-text-primary)', fontWeight: 'var(--ff-weight-semibold)' }}>
+            Score: {totals.score} / {totals.maxScore} ({attemptPercentage(totals)}%)
+            {totals.status === 'needs-review' && <span style={mutedText}> · provisional</span>}
+          </span>
+          <Button className="ff-btn-primary" disabled={isSaving} onClick={handleSaveReview}>
+            {isSaving ? 'Saving...' : 'Save scores'}
+          </Button>
+        </div>
+      ) : (
+        <Button className="ff-btn-primary w-full" disabled={isSubmitting} onClick={handleSubmit}>
+          {isSubmitting ? 'Grading...' : 'Submit answers'}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+export default AssessmentRunner;
@@ -26,13 +26,26 @@ import { Accordion, AccordionContent, AccordionItem, AccordionTrigger } from '..
 import { Progress } from '../ui/progress';
 import { Separator } from '../ui/separator';
 import { ScrollArea } from '../ui/scroll-area';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '../ui/dialog';
 import { 
   BookOpen, Users, GraduationCap, ShoppingBag, Brain, 
   FileText, PresentationChart, Clipboard, MessageSquare, 
   Target, Lightbulb, Download, Share2, Star, Zap,
   School, Calculator, Globe, Palette, Music, Beaker,
-  History, Languages, Heart, Trophy, Puzzle, MapPin
+  History, Languages, Heart, Trophy, Puzzle, MapPin, ClipboardCheck
 } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import { EDUCATIONAL_PLATFORMS, FILE_FORMATS, LMS_EXPORT_FORMATS } from '../../constants/education';
+import type {
+  EducationalContent as StructuredContent,
+  EducationalPlatform,
+  ExportFormat
+} from '../../types/education';
+import { contentBlocks, renderMarkdown } from '../../utils/education-export';
+import { exportEducationalContent } from '../../utils/education-export/package';
+import { downloadBlob } from '../../utils/print-export/images';
+import { buildContent } from './content-templates';
+import { AssessmentRunner } from './AssessmentRunner';
 
 // Educational Content Types and Interfaces
 interface EducationalContent {
@@ -45,7 +58,10 @@ interface EducationalContent {
   standard?: string;
   difficulty: 'beginner' | 'intermediate' | 'advanced';
   format: string[];
+  /** Markdown preview of `document` */
   content: string;
+  /** The structured lesson every export is rendered from */
+  document: StructuredContent;
   metadata: {
     duration?: string;
     materials?: string[];
@@ -138,6 +154,9 @@ function EducationalContentStudio() {
   const [generatedContent, setGeneratedContent] = useState<EducationalContent[]>([]);
   const [generationProgress, setGenerationProgress] = useState(0);
   const [selectedContentType, setSelectedContentType] = useState<string>('');
+  const [exportPlatform, setExportPlatform] = useState<EducationalPlatform>('google-classroom');
+  const [exportingId, setExportingId] = useState<string | null>(null);
+  const [takingId, setTakingId] = useState<string | null>(null);
   
   // Form State
   const [formData, setFormData] = useState<ContentGenerationRequest>({
@@ -177,10 +196,11 @@ function EducationalContentStudio() {
         await new Promise(resolve => setTimeout(resolve, 800));
       }
 
-      // Generate mock content based on form data
+      const subjectName = SUBJECTS.find(subject => subject.id === formData.subject)?.name ?? formData.subject;
+      const lesson = buildContent(formData, subjectName);
       const newContent: EducationalContent = {
-        id: `content-${Date.now()}`,
-        title: `${formData.type.replace('-', ' ').toUpperCase()}: ${formData.topic}`,
+        id: lesson.id,
+        title: lesson.title,
         type: formData.type.includes('assessment') ? 'assessment' : 'lesson',
         targetAudience: formData.audience as any,
         subject: formData.subject,
@@ -188,18 +208,15 @@ function EducationalContentStudio() {
         standard: formData.standard,
         difficulty: 'intermediate',
         format: [formData.format],
-        content: generateMockContent(formData),
+        content: renderMarkdown(contentBlocks(lesson)),
+        document: lesson,
         metadata: {
-          duration: '45 minutes',
-          materials: ['Whiteboard', 'Handouts', 'Digital presentation'],
-          objectives: [
-            `Students will understand ${formData.topic}`,
-            `Students will apply concepts to real-world scenarios`,
-            `Students will demonstrate mastery through assessment`
-          ],
+          duration: `${lesson.metadata.duration} minutes`,
+          materials: [...new Set(lesson.content.flatMap(section => section.materials ?? []))],
+          objectives: lesson.objectives.map(objective => objective.description),
           tags: [formData.subject, formData.gradeLevel, formData.topic]
         },
-        generatedAt: new Date()
+        generatedAt: lesson.generatedAt
       };
 
       setGeneratedContent(prev => [newContent, ...prev]);
@@ -212,20 +229,35 @@ function EducationalContentStudio() {
     }
   }, [formData]);
 
-  // Mock Content Generator
-  const generateMockContent = (request: ContentGenerationRequest): string => {
-    const templates = {
-      'lesson-plans': `# ${request.topic} Lesson Plan\n\n## Learning Objectives\n- Students will understand key concepts of ${request.topic}\n- Students will apply knowledge through hands-on activities\n\n## Materials Needed\n- Textbook\n- Worksheets\n- Interactive whiteboard\n\n## Lesson Structure\n### Introduction (10 mins)\n- Hook students with engaging question\n- Review prior knowledge\n\n### Main Activity (25 mins)\n- Present new concepts\n- Guided practice\n- Independent work time\n\n### Closure (10 mins)\n- Review key points\n- Preview next lesson\n\n## Assessment\n- Formative: Exit ticket\n- Summative: Unit test\n\n## Differentiation\n- For advanced learners: Extension activities\n- For struggling learners: Additional scaffolding\n- For ELL students: Visual aids and vocabulary support`,
-      
-      'assessments': `# ${request.topic} Assessment\n\n## Multiple Choice Questions\n\n1. Which of the following best describes ${request.topic}?\na) Option A\nb) Option B\nc) Option C\nd) Option D\n\n## Short Answer Questions\n\n1. Explain the main concepts of ${request.topic} in your own words.\n\n2. Provide an example of how ${request.topic} applies to real life.\n\n## Essay Question\n\nDiscuss the importance of ${request.topic} in ${request.subject}. Support your answer with specific examples and evidence.\n\n## Rubric\n- Excellent (4): Demonstrates complete understanding\n- Proficient (3): Shows good understanding with minor gaps\n- Developing (2): Shows partial understanding\n- Beginning (1): Shows limited understanding`,
-      
-      'study-guides': `# ${request.topic} Study Guide\n\n## Key Concepts\n- Important concept 1\n- Important concept 2\n- Important concept 3\n\n## Vocabulary Terms\n- Term 1: Definition\n- Term 2: Definition\n- Term 3: Definition\n\n## Practice Questions\n1. Sample question about ${request.topic}\n2. Another practice question\n3. Application-based question\n\n## Study Tips\n- Review notes daily\n- Create concept maps\n- Practice with flashcards\n- Form study groups\n\n## Additional Resources\n- Recommended readings\n- Online videos\n- Practice websites`,
-      
-      default: `# ${request.topic} Educational Content\n\nThis is AI-generated educational content for ${request.subject} at the ${request.gradeLevel} level.\n\n## Overview\nComprehensive content covering key aspects of ${request.topic}.\n\n## Learning Outcomes\nStudents will gain understanding and practical skills related to the topic.\n\n## Implementation Guide\nStep-by-step instructions for effective delivery.`
-    };
+  const handleExport = useCallback(async (content: EducationalContent, format: ExportFormat) => {
+    setExportingId(content.id);
+    try {
+      const { filename, blob, warnings } = await exportEducationalContent(content.document, format);
+      downloadBlob(blob, filename);
+      if (warnings.length > 0) {
+        toast.warning(`${filename} exported with ${warnings.length} note(s): ${warnings.join('; ')}`);
+      } else {
+        toast.success(`${filename} exported`);
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Export failed');
+    } finally {
+      setExportingId(null);
+    }
+  }, []);
 
-    return templates[request.type as keyof typeof templates] || templates.default;
-  };
+  // Formats the chosen platform imports, then everything else
+  const exportFormats = useMemo(() => {
+    const recommended: readonly string[] = EDUCATIONAL_PLATFORMS.find(platform => platform.id === exportPlatform)?.exports ?? [];
+    const formats = [...LMS_EXPORT_FORMATS, ...FILE_FORMATS];
+    return [
+      ...formats.filter(format => recommended.includes(format.id)).map(format => ({ ...format, recommended: true })),
+      ...formats.filter(format => !recommended.includes(format.id)).map(format => ({ ...format, recommended: false }))
+    ];
+  }, [exportPlatform]);
+
+  const takingContent = generatedContent.find(content => content.id === takingId);
+  const takingAssessment = takingContent?.document.assessments.find(assessment => assessment.questions.length > 0);
 
   // Get content types for current audience
   const currentContentTypes = useMemo(() => {
@@ -710,17 +742,40 @@ function EducationalContentStudio() {
                   Generated Content
                 </div>
                 {generatedContent.length > 0 && (
-                  <Badge 
-                    style={{
-                      backgroundColor: 'rgba(0, 180, 216, 0.1)',
-                      color: 'var(--ff-secondary)',
-                      border: '1px solid rgba(0, 180, 216, 0.2)',
-                      fontSize: 'var(--ff-text-xs)',
-                      fontWeight: 'var(--ff-weight-semibold)'
-                    }}
-                  >
-                    {generatedContent.length} items
-                  </Badge>
+                  <div className="flex items-center gap-2">
+                    <Select value={exportPlatform} onValueChange={(value: string) => setExportPlatform(value as EducationalPlatform)}>
+                      <SelectTrigger
+                        className="h-8 w-44"
+                        aria-label="Export for platform"
+                        style={{
+                          backgroundColor: 'var(--ff-surface)',
+                          borderColor: 'rgba(255, 255, 255, 0.2)',
+                          color: 'var(--ff-text-primary)',
+                          fontSize: 'var(--ff-text-xs)'
+                        }}
+                      >
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {EDUCATIONAL_PLATFORMS.map((platform) => (
+                          <SelectItem key={platform.id} value={platform.id}>
+                            {platform.icon} {platform.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Badge 
+                      style={{
+                        backgroundColor: 'rgba(0, 180, 216, 0.1)',
+                        color: 'var(--ff-secondary)',
+                        border: '1px solid rgba(0, 180, 216, 0.2)',
+                        fontSize: 'var(--ff-text-xs)',
+                        fontWeight: 'var(--ff-weight-semibold)'
+                      }}
+                    >
+                      {generatedContent.length} items
+                    </Badge>
+                  </div>
                 )}
               </CardTitle>
             </CardHeader>
@@ -819,21 +874,33 @@ function EducationalContentStudio() {
                               </div>
                             </div>
                             <div className="flex gap-2">
-                              <Button
-                                variant="outline"
-                                size="sm"
-                                className="ff-btn-ghost"
-                                style={{
-                                  backgroundColor: 'transparent',
-                                  borderColor: 'rgba(255, 255, 255, 0.2)',
-                                  color: 'var(--ff-text-muted)',
-                                  fontSize: 'var(--ff-text-xs)',
-                                  padding: 'var(--ff-space-1) var(--ff-space-2)'
-                                }}
+                              <Select
+                                value=""
+                                disabled={exportingId === content.id}
+                                onValueChange={(format: string) => handleExport(content, format as ExportFormat)}
                               >
-                                <Download className="w-3 h-3 mr-1" />
-                                Export
-                              </Button>
+                                <SelectTrigger
+                                  className="ff-btn-ghost h-8 w-auto gap-1"
+                                  aria-label={`Export ${content.title}`}
+                                  style={{
+                                    backgroundColor: 'transparent',
+                                    borderColor: 'rgba(255, 255, 255, 0.2)',
+                                    color: 'var(--ff-text-muted)',
+                                    fontSize: 'var(--ff-text-xs)',
+                                    padding: 'var(--ff-space-1) var(--ff-space-2)'
+                                  }}
+                                >
+                                  <Download className="w-3 h-3" />
+                                  {exportingId === content.id ? 'Exporting...' : 'Export'}
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {exportFormats.map((format) => (
+                                    <SelectItem key={format.id} value={format.id}>
+                                      {format.icon} {format.name} ({format.extension}){format.recommended ? ' ★' : ''}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
                               <Button
                                 variant="outline"
                                 size="sm"
@@ -849,6 +916,24 @@ function EducationalContentStudio() {
                                 <Share2 className="w-3 h-3 mr-1" />
                                 Share
                               </Button>
+                              {content.document.assessments.some(assessment => assessment.questions.length > 0) && (
+                                <Button
+                                  variant="outline"
+                                  size="sm"
+                                  className="ff-btn-ghost"
+                                  onClick={() => setTakingId(content.id)}
+                                  style={{
+                                    backgroundColor: 'transparent',
+                                    borderColor: 'rgba(255, 255, 255, 0.2)',
+                                    color: 'var(--ff-text-muted)',
+                                    fontSize: 'var(--ff-text-xs)',
+                                    padding: 'var(--ff-space-1) var(--ff-space-2)'
+                                  }}
+                                >
+                                  <ClipboardCheck className="w-3 h-3 mr-1" />
+                                  Take
+                                </Button>
+                              )}
                             </div>
                           </div>
                         </CardHeader>
@@ -1079,6 +1164,24 @@ function EducationalContentStudio() {
           </div>
         </CardContent>
       </Card>
+
+      {/* Assessment Runner */}
+      <Dialog open={takingContent !== undefined} onOpenChange={(open) => !open && setTakingId(null)}>
+        <DialogContent className="max-w-3xl max-h-[85vh] overflow-y-auto">
+          {takingContent && takingAssessment && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{takingAssessment.title}</DialogTitle>
+                <DialogDescription>
+                  {takingAssessment.questions.length} questions · {takingAssessment.questions.reduce((sum, question) => sum + question.points, 0)} points
+                  {takingAssessment.timeLimit ? ` · ${takingAssessment.timeLimit} minutes` : ''}
+                </DialogDescription>
+              </DialogHeader>
+              <AssessmentRunner key={takingContent.id} content={takingContent.document} assessment={takingAssessment} />
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
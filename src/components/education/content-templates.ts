@@ -0,0 +1,192 @@
+/**
+ * Template lessons for the Educational Content Studio. Each request becomes a
+ * structured EducationalContent (objectives, timed sections, an assessment
+ * with a rubric) so every export format renders the same material.
+ */
+
+import { EDUCATIONAL_STANDARDS, GRADE_LEVELS } from '../../constants/education';
+import type {
+  Assessment,
+  ContentSection,
+  ContentType,
+  EducationalContent,
+  GradeLevel,
+  SubjectArea
+} from '../../types/education';
+
+export interface StudioRequest {
+  type: string;
+  subject: string;
+  gradeLevel: string;
+  standard?: string;
+  topic: string;
+  audience: string;
+  specifications?: string;
+}
+
+// The studio's subject buttons are finer-grained than the catalog's subject areas
+const SUBJECT_AREAS: Record<string, SubjectArea> = {
+  math: 'mathematics',
+  science: 'science',
+  english: 'english',
+  history: 'social-studies',
+  geography: 'social-studies',
+  languages: 'world-languages',
+  arts: 'arts',
+  music: 'arts',
+  pe: 'physical-education',
+  critical: 'english'
+};
+
+const AUDIENCE_TYPES: Record<string, ContentType> = {
+  educator: 'educator',
+  student: 'student',
+  both: 'educator',
+  seller: 'marketplace'
+};
+
+const ASSESSMENT_TYPES = ['assessments', 'practice-tests', 'exam-prep'];
+
+function sections(topic: string, differentiate: boolean): ContentSection[] {
+  return [
+    {
+      id: 'introduction',
+      title: 'Introduction',
+      type: 'introduction',
+      duration: 10,
+      content: `Open with a question that connects ${topic} to students' own experience, then review the prior knowledge this lesson builds on.`,
+      instructions: [`Pose the opening question about ${topic}`, 'Collect a few responses and note misconceptions', 'Share the learning objectives']
+    },
+    {
+      id: 'instruction',
+      title: 'Direct Instruction',
+      type: 'instruction',
+      duration: 15,
+      content: `Present the key concepts of ${topic} with worked examples, checking for understanding after each one.`,
+      materials: ['Whiteboard', 'Slide deck', 'Guided notes handout']
+    },
+    {
+      id: 'activity',
+      title: 'Guided Practice',
+      type: 'activity',
+      duration: 15,
+      content: `Students work in pairs to apply ${topic} to a real-world scenario, then share their reasoning with the class.`,
+      materials: ['Practice worksheet'],
+      instructions: ['Form pairs', 'Complete the scenario tasks together', 'Prepare a one-minute summary of your reasoning'],
+      differentiation: differentiate
+        ? [
+            { type: 'content', learnerType: 'advanced', strategy: 'Extension problems', description: `Apply ${topic} to an unfamiliar context` },
+            { type: 'process', learnerType: 'struggling', strategy: 'Scaffolded steps', description: 'Work from a partially completed example' },
+            { type: 'content', learnerType: 'ell', strategy: 'Vocabulary support', description: 'Provide a visual glossary of key terms' }
+          ]
+        : undefined
+    },
+    {
+      id: 'closure',
+      title: 'Closure',
+      type: 'closure',
+      duration: 5,
+      content: `Summarize the main ideas of ${topic} and complete an exit ticket.`
+    }
+  ];
+}
+
+function assessment(topic: string, subject: string): Assessment {
+  return {
+    id: 'assessment',
+    title: `${topic} Check for Understanding`,
+    type: 'formative',
+    description: `Answer each question about ${topic}. Show your reasoning on written responses.`,
+    pointsTotal: 10,
+    timeLimit: 20,
+    questions: [
+      {
+        id: 'q1',
+        type: 'multiple-choice',
+        question: `Which statement best describes ${topic}?`,
+        options: [`A core idea in ${subject}`, 'An unrelated fact', 'A common misconception', 'None of the above'],
+        correctAnswer: `A core idea in ${subject}`,
+        points: 2,
+        difficulty: 'easy'
+      },
+      {
+        id: 'q2',
+        type: 'true-false',
+        question: `${topic} can be applied to real-world situations.`,
+        correctAnswer: 'True',
+        points: 1,
+        difficulty: 'easy'
+      },
+      {
+        id: 'q3',
+        type: 'short-answer',
+        question: `Explain ${topic} in your own words.`,
+        correctAnswer: [],
+        points: 3,
+        difficulty: 'medium'
+      },
+      {
+        id: 'q4',
+        type: 'essay',
+        question: `Discuss why ${topic} matters in ${subject}, using specific examples.`,
+        correctAnswer: [],
+        points: 4,
+        difficulty: 'hard'
+      }
+    ],
+    rubric: {
+      id: 'rubric',
+      title: 'Written Response Rubric',
+      criteria: [
+        { id: 'understanding', name: 'Understanding', description: `Accuracy of the explanation of ${topic}`, weight: 50 },
+        { id: 'evidence', name: 'Evidence', description: 'Use of specific, relevant examples', weight: 30 },
+        { id: 'clarity', name: 'Clarity', description: 'Organization and clarity of writing', weight: 20 }
+      ],
+      scale: [
+        { level: 4, label: 'Excellent', description: 'Complete and insightful', points: 4 },
+        { level: 3, label: 'Proficient', description: 'Accurate with minor gaps', points: 3 },
+        { level: 2, label: 'Developing', description: 'Partially accurate', points: 2 },
+        { level: 1, label: 'Beginning', description: 'Limited understanding', points: 1 }
+      ]
+    }
+  };
+}
+
+export function buildContent(request: StudioRequest, subjectName: string): EducationalContent {
+  const { topic } = request;
+  const isAssessment = ASSESSMENT_TYPES.includes(request.type);
+  const now = new Date();
+
+  return {
+    id: `content-${now.getTime()}`,
+    title: isAssessment ? `${topic} Assessment` : `${topic}: ${request.type.replace(/-/g, ' ').replace(/\b\w/g, letter => letter.toUpperCase())}`,
+    description: request.specifications || undefined,
+    type: AUDIENCE_TYPES[request.audience] ?? 'educator',
+    subject: SUBJECT_AREAS[request.subject] ?? 'english',
+    gradeLevel: (GRADE_LEVELS as readonly string[]).includes(request.gradeLevel) ? request.gradeLevel as GradeLevel : 'Professional Development',
+    standard: EDUCATIONAL_STANDARDS.find(standard => request.standard && standard.startsWith(request.standard)),
+    topic,
+    objectives: [
+      { id: 'o1', description: `Explain the key concepts of ${topic}`, bloomLevel: 'understand', measurable: true },
+      { id: 'o2', description: `Apply ${topic} to a real-world scenario`, bloomLevel: 'apply', measurable: true },
+      { id: 'o3', description: `Evaluate examples of ${topic} and justify conclusions`, bloomLevel: 'evaluate', measurable: true }
+    ],
+    content: isAssessment ? [] : sections(topic, request.audience !== 'student'),
+    assessments: [assessment(topic, subjectName)],
+    resources: [],
+    metadata: {
+      duration: isAssessment ? 20 : 45,
+      difficulty: 'intermediate',
+      prerequisites: [],
+      keywords: [topic, subjectName],
+      tags: [request.type, request.gradeLevel].filter(Boolean),
+      language: 'en-US',
+      accessibility: [],
+      lastModified: now
+    },
+    generatedAt: now,
+    generatedBy: 'template',
+    version: '1.0.0',
+    status: 'draft'
+  };
+}
@@ -13,7 +13,6 @@ import {
   Sparkles
 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
-import { awardXP } from '../../services/GamificationInitializer';
 
 interface Achievement {
   id: string;
@@ -139,12 +138,9 @@ export function AchievementUnlockDemo() {
       return;
     }
 
-    // Add to unlocked achievements
+    // Preview only: real achievements and their XP are granted by the server
     setUnlockedAchievements(prev => [...prev, achievement.id]);
 
-    // Award XP
-    await awardXP(achievement.xp, `Unlocked achievement: ${achievement.name}`);
-
     // Show achievement unlock notification
     toast.success(`🏆 Achievement Unlocked!`, {
       description: `${achievement.name}: ${achievement.description}`,
@@ -169,12 +165,9 @@ export function AchievementUnlockDemo() {
 
     const totalXP = lockedAchievements.reduce((sum, a) => sum + a.xp, 0);
     
-    // Unlock all achievements
+    // Unlock all achievements (preview only)
     setUnlockedAchievements(prev => [...prev, ...lockedAchievements.map(a => a.id)]);
     
-    // Award total XP
-    await awardXP(totalXP, `Unlocked ${lockedAchievements.length} achievements`);
-    
     // Show massive unlock notification
     toast.success(`🎊 ${lockedAchievements.length} Achievements Unlocked!`, {
       description: `Earned ${totalXP} total XP!`,
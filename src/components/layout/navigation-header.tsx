@@ -5,14 +5,32 @@
 
 import React, { memo } from 'react';
 import { Button } from '../ui/button';
+import { Link } from '../router';
+import { ROUTE_CONFIGS, routePath } from './route-constants';
+import type { PageType } from '../../types';
 
 interface NavigationHeaderProps {
-  currentRoute: string;
-  onRouteChange: (route: string) => void;
+  currentRoute: PageType | null;
+  /** Called when a nav item is hovered or focused, to start loading its page */
+  onRoutePreload?: (route: PageType) => void;
 }
 
-export const NavigationHeader = memo(({ currentRoute, onRouteChange }: NavigationHeaderProps) => {
-  const mainNavItems = [
+interface NavItem {
+  id: PageType;
+  label: string;
+  icon: string;
+}
+
+/** A section stays highlighted on its detail pages, e.g. Projects on `/projects/:id` */
+function isActive(item: PageType, currentRoute: PageType | null): boolean {
+  if (!currentRoute) return false;
+  if (item === currentRoute) return true;
+  const sectionPath = ROUTE_CONFIGS[item]?.path;
+  return sectionPath !== '/' && !!ROUTE_CONFIGS[currentRoute]?.path.startsWith(`${sectionPath}/`);
+}
+
+export const NavigationHeader = memo(({ currentRoute, onRoutePreload }: NavigationHeaderProps) => {
+  const mainNavItems: NavItem[] = [
     { id: 'home', label: 'Home', icon: '🏠' },
     { id: 'dashboard', label: 'Dashboard', icon: '📊' },
     { id: 'tools', label: 'AI Tools', icon: '🤖' },
@@ -51,11 +69,14 @@ export const NavigationHeader = memo(({ currentRoute, onRouteChange }: Navigatio
           {/* Main Navigation */}
           <div className="hidden md:flex items-center space-x-1">
             {mainNavItems.map((item) => (
-              <button
+              <Link
                 key={item.id}
-                onClick={() => onRouteChange(item.id)}
+                to={routePath(item.id)}
+                onMouseEnter={() => onRoutePreload?.(item.id)}
+                onFocus={() => onRoutePreload?.(item.id)}
+                aria-current={isActive(item.id, currentRoute) ? 'page' : undefined}
                 className={`flex items-center space-x-2 px-4 py-2 rounded-lg ff-text-sm transition-all duration-200 ${
-                  currentRoute === item.id 
+                  isActive(item.id, currentRoute)
                     ? 'bg-primary/10 text-primary border border-primary/20' 
                     : 'text-muted-foreground hover:text-foreground hover:bg-muted/50'
                 }`}
@@ -66,7 +87,7 @@ export const NavigationHeader = memo(({ currentRoute, onRouteChange }: Navigatio
               >
                 <span>{item.icon}</span>
                 <span>{item.label}</span>
-              </button>
+              </Link>
             ))}
           </div>
 
@@ -1,4 +1,5 @@
 import { PageType } from '../../types';
+import { buildPath, RouteTable, type PathParams } from '../../utils/router';
 
 // Route configuration with metadata
 export interface RouteConfig {
@@ -12,6 +13,21 @@ export interface RouteConfig {
   comingSoon?: boolean;
 }
 
+/** Paths of the pages that take parameters, kept literal so the parameters are typed */
+export const ROUTE_PARAM_PATHS = {
+  'project-detail': '/projects/:id',
+  'tool-detail': '/tools/:toolId'
+} as const;
+
+type ParameterizedPage = keyof typeof ROUTE_PARAM_PATHS;
+
+export type RouteParams<P extends PageType> = P extends ParameterizedPage
+  ? PathParams<(typeof ROUTE_PARAM_PATHS)[P]>
+  : Record<string, never>;
+
+/** The params argument `routePath` takes for a page: required when its path has any */
+export type RouteArgs<P extends PageType> = P extends ParameterizedPage ? [params: RouteParams<P>] : [];
+
 export const ROUTE_CONFIGS: Record<PageType, RouteConfig> = {
   // Public routes
   home: {
@@ -112,6 +128,14 @@ export const ROUTE_CONFIGS: Record<PageType, RouteConfig> = {
     requiresAuth: true,
     category: 'protected'
   },
+  'project-detail': {
+    page: 'project-detail',
+    path: ROUTE_PARAM_PATHS['project-detail'],
+    title: 'Project Details - FlashFusion',
+    description: 'Files, settings and activity for a single project',
+    requiresAuth: true,
+    category: 'protected'
+  },
   analytics: {
     page: 'analytics',
     path: '/analytics',
@@ -170,6 +194,15 @@ export const ROUTE_CONFIGS: Record<PageType, RouteConfig> = {
     category: 'protected',
     tier: 'pro'
   },
+  'live-collaboration': {
+    page: 'live-collaboration',
+    path: '/collaboration/live',
+    title: 'Live Collaboration - FlashFusion',
+    description: 'Edit code together in real time',
+    requiresAuth: true,
+    category: 'protected',
+    tier: 'pro'
+  },
   cicd: {
     page: 'cicd',
     path: '/cicd',
@@ -298,6 +331,56 @@ export const ROUTE_CONFIGS: Record<PageType, RouteConfig> = {
     requiresAuth: true,
     category: 'differentiators'
   },
+
+  // Creator workflows, run one after another from the workflow hub
+  workflows: {
+    page: 'workflows',
+    path: '/workflows/creator',
+    title: 'Creator Workflows - FlashFusion',
+    description: 'End-to-end workflows for content creation and monetization',
+    requiresAuth: true,
+    category: 'protected'
+  },
+  'ai-creation': {
+    page: 'ai-creation',
+    path: '/workflows/ai-creation',
+    title: 'AI-Powered Creation - FlashFusion',
+    description: 'Generate content, code and creative assets in seconds',
+    requiresAuth: true,
+    category: 'protected'
+  },
+  'one-click-publishing': {
+    page: 'one-click-publishing',
+    path: '/workflows/publishing',
+    title: 'One-Click Publishing - FlashFusion',
+    description: 'Publish your creations across 20+ platforms at once',
+    requiresAuth: true,
+    category: 'protected'
+  },
+  'creator-commerce': {
+    page: 'creator-commerce',
+    path: '/workflows/commerce',
+    title: 'Creator Commerce - FlashFusion',
+    description: 'Turn your creative work into revenue streams',
+    requiresAuth: true,
+    category: 'protected'
+  },
+  'smart-analytics': {
+    page: 'smart-analytics',
+    path: '/workflows/analytics',
+    title: 'Smart Analytics - FlashFusion',
+    description: 'Track performance and optimize revenue in real time',
+    requiresAuth: true,
+    category: 'protected'
+  },
+  'quality-assurance': {
+    page: 'quality-assurance',
+    path: '/workflows/qa',
+    title: 'Quality Assurance - FlashFusion',
+    description: 'Automated quality checks for professional standards',
+    requiresAuth: true,
+    category: 'protected'
+  },
   'security-dashboard': {
     page: 'security-dashboard',
     path: '/security',
@@ -522,7 +605,7 @@ export const ROUTE_CONFIGS: Record<PageType, RouteConfig> = {
   },
   'tool-detail': {
     page: 'tool-detail',
-    path: '/tools/:id',
+    path: ROUTE_PARAM_PATHS['tool-detail'],
     title: 'Tool Details - FlashFusion',
     description: 'Detailed information about AI tools and capabilities',
     requiresAuth: false,
@@ -530,11 +613,20 @@ export const ROUTE_CONFIGS: Record<PageType, RouteConfig> = {
   }
 };
 
+// Resolves URL pathnames to pages and their parameters
+export const ROUTE_TABLE = new RouteTable<PageType>(Object.values(ROUTE_CONFIGS));
+
 // Helper functions for route management
 export const getRouteConfig = (page: PageType): RouteConfig => {
   return ROUTE_CONFIGS[page];
 };
 
+/** The URL of a page, e.g. `routePath('project-detail', { id })` */
+export const routePath = <P extends PageType>(page: P, ...[params]: RouteArgs<P>): string => {
+  const { path } = getRouteConfig(page);
+  return params ? buildPath(path, params) : path;
+};
+
 export const getRoutesByCategory = (category: RouteConfig['category']): RouteConfig[] => {
   return Object.values(ROUTE_CONFIGS).filter(route => route.category === category);
 };
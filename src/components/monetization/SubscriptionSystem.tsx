@@ -17,6 +17,7 @@ import {
 } from 'lucide-react';
 import { useAuth } from '../auth/AuthSystem';
 import { cn } from '../ui/utils';
+import { UsageClient, type MeteredResource, type UsageReport } from '../../services/UsageClient';
 
 // Subscription tiers configuration
 export const SUBSCRIPTION_TIERS = {
@@ -356,71 +357,85 @@ interface UsageTrackerProps {
   currentTier: string;
 }
 
+const USAGE_ROWS: Array<{ resource: MeteredResource; label: string }> = [
+  { resource: 'ai_calls', label: 'AI Tool Usage' },
+  { resource: 'projects', label: 'Projects' },
+  { resource: 'deployments', label: 'Deployments' },
+  { resource: 'storage_bytes', label: 'Storage' },
+];
+
+const formatBytes = (bytes: number) => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Number.isInteger(value) ? value : value.toFixed(1)}${units[unit]}`;
+};
+
 const UsageTracker: React.FC<UsageTrackerProps> = ({ currentTier }) => {
-  const tier = SUBSCRIPTION_TIERS[currentTier.toUpperCase() as keyof typeof SUBSCRIPTION_TIERS];
-  
-  // Mock usage data - replace with real data from your backend
-  const [usage, setUsage] = useState({
-    aiToolUsage: 23,
-    projects: 1,
-    deployments: 2,
-    storage: '45MB',
-  });
+  const [usage, setUsage] = useState<UsageReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    UsageClient.getUsage()
+      .then(report => { if (!cancelled) setUsage(report); })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load usage'); });
+    return () => { cancelled = true; };
+  }, [currentTier]);
 
-  if (!tier || tier.id === 'enterprise') return null;
+  if (error) {
+    return <p className="text-sm text-muted-foreground">{error}</p>;
+  }
 
-  const getUsagePercentage = (used: number, limit: number | string) => {
-    if (typeof limit === 'string') return 0;
+  if (!usage) {
+    return <p className="text-sm text-muted-foreground">Loading usage…</p>;
+  }
+
+  const getUsagePercentage = (used: number, limit: number | null) => {
+    if (limit === null) return 0;
+    if (limit === 0) return 100;
     return Math.min((used / limit) * 100, 100);
   };
 
+  const format = (resource: MeteredResource, amount: number) =>
+    resource === 'storage_bytes' ? formatBytes(amount) : amount.toLocaleString();
+
+  const nearLimit = USAGE_ROWS.some(({ resource }) => {
+    const { used, limit } = usage.resources[resource];
+    return getUsagePercentage(used, limit) > 80;
+  });
+
   return (
     <div className="space-y-4">
-      {/* AI Tool Usage */}
-      <div className="space-y-2">
-        <div className="flex justify-between text-sm">
-          <span>AI Tool Usage</span>
-          <span className="text-muted-foreground">
-            {usage.aiToolUsage} / {tier.limits.aiToolUsage}
-          </span>
-        </div>
-        <Progress 
-          value={getUsagePercentage(usage.aiToolUsage, tier.limits.aiToolUsage)} 
-          className="h-2"
-        />
-      </div>
-
-      {/* Projects */}
-      <div className="space-y-2">
-        <div className="flex justify-between text-sm">
-          <span>Projects</span>
-          <span className="text-muted-foreground">
-            {usage.projects} / {tier.limits.projects}
-          </span>
-        </div>
-        <Progress 
-          value={getUsagePercentage(usage.projects, tier.limits.projects)} 
-          className="h-2"
-        />
-      </div>
+      {USAGE_ROWS.map(({ resource, label }) => {
+        const { used, limit } = usage.resources[resource];
+        return (
+          <div key={resource} className="space-y-2">
+            <div className="flex justify-between text-sm">
+              <span>{label}</span>
+              <span className="text-muted-foreground">
+                {format(resource, used)} / {limit === null ? 'Unlimited' : format(resource, limit)}
+              </span>
+            </div>
+            <Progress value={getUsagePercentage(used, limit)} className="h-2" />
+          </div>
+        );
+      })}
 
-      {/* Storage */}
-      <div className="space-y-2">
-        <div className="flex justify-between text-sm">
-          <span>Storage</span>
-          <span className="text-muted-foreground">
-            {usage.storage} / {tier.limits.storage}
-          </span>
-        </div>
-        <Progress value={45} className="h-2" />
-      </div>
+      <p className="text-xs text-muted-foreground">
+        {usage.planName} plan · AI tool uses and deployments reset on {new Date(usage.periodEnd).toLocaleDateString()}
+      </p>
 
       {/* Upgrade prompt if near limits */}
-      {(getUsagePercentage(usage.aiToolUsage, tier.limits.aiToolUsage) > 80) && (
+      {nearLimit && usage.plan !== 'enterprise' && (
         <div className="mt-4 p-3 bg-primary/10 border border-primary/20 rounded-lg">
           <div className="flex items-center space-x-2 text-sm">
             <Zap className="w-4 h-4 text-primary" />
-            <span>You're approaching your usage limits. Consider upgrading for unlimited access.</span>
+            <span>You're approaching your usage limits. Consider upgrading for more capacity.</span>
           </div>
         </div>
       )}
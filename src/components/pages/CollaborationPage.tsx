@@ -12,6 +12,7 @@ interface CollaborationPageProps {
 
 export function CollaborationPage({ projectId = 'current-project', currentUserId }: CollaborationPageProps) {
   const [activeTab, setActiveTab] = useState('dashboard');
+  const [activeSessionId, setActiveSessionId] = useState<string | undefined>();
 
   const handleContentChange = (fileId: string, content: string) => {
     console.log('File content changed:', fileId, content);
@@ -54,6 +55,7 @@ export function CollaborationPage({ projectId = 'current-project', currentUserId
             }}
             onSessionJoin={(sessionId) => {
               console.log('Joined collaboration session:', sessionId);
+              setActiveSessionId(sessionId);
             }}
           />
         </TabsContent>
@@ -62,6 +64,7 @@ export function CollaborationPage({ projectId = 'current-project', currentUserId
           <LiveCollaborationEditor
             projectId={projectId}
             currentUserId={currentUserId}
+            sessionId={activeSessionId}
             onContentChange={handleContentChange}
             onSave={handleSave}
           />
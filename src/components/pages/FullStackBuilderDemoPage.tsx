@@ -11,7 +11,7 @@ import { NextStepsRoadmap } from '../ui/next-steps-roadmap';
 import { AchievementUnlockDemo } from '../gamification/AchievementUnlockDemo';
 import { FullStackAppBuilder } from '../tools/generation/FullStackAppBuilder';
 import { FullStackAppBuilderTest } from '../test/FullStackAppBuilderTest';
-import { awardXP, getCurrentStats } from '../../services/GamificationInitializer';
+import { getCurrentStats } from '../../services/GamificationInitializer';
 import { 
   Rocket, 
   Code, 
@@ -31,10 +31,11 @@ export function FullStackBuilderDemoPage() {
   // Test XP system
   const handleTestXP = async () => {
     try {
-      await awardXP(25, 'Tested XP system from demo page');
       const stats = await getCurrentStats();
       if (stats) {
         toast.success(`🎉 XP System Working! Level ${stats.level}, ${stats.total_xp} XP`);
+      } else {
+        toast.error('XP system unavailable');
       }
     } catch (error) {
       toast.error('XP system test failed');
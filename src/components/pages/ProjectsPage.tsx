@@ -33,6 +33,8 @@ import {
   Calendar
 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
+import { Link, useRouter, useRouteParams } from '../router';
+import { routePath } from '../layout/route-constants';
 
 interface Project {
   id: string;
@@ -173,12 +175,22 @@ export function ProjectsPage() {
   const [statusFilter, setStatusFilter] = useState<string>('all');
   const [typeFilter, setTypeFilter] = useState<string>('all');
   const [showCreateDialog, setShowCreateDialog] = useState(false);
-  const [showProjectDialog, setShowProjectDialog] = useState(false);
-  const [selectedProject, setSelectedProject] = useState<Project | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [sortBy, setSortBy] = useState<'name' | 'updated' | 'progress'>('updated');
   const [viewMode, setViewMode] = useState<'grid' | 'list'>('grid');
   
+  // The open project lives in the URL (`/projects/:id`) so it can be linked to and closed with Back
+  const { navigate } = useRouter();
+  const selectedProjectId = useRouteParams('project-detail')?.id;
+  const selectedProject = projects.find(project => project.id === selectedProjectId) ?? null;
+
+  useEffect(() => {
+    if (selectedProjectId && !selectedProject) {
+      toast.error('Project not found');
+      navigate(routePath('projects'), { replace: true });
+    }
+  }, [selectedProjectId, selectedProject, navigate]);
+
   const [formData, setFormData] = useState<ProjectFormData>({
     name: '',
     description: '',
@@ -519,7 +531,11 @@ export function ProjectsPage() {
                 <div className="flex items-center space-x-2">
                   <span className="text-lg">{getTypeIcon(project.type)}</span>
                   <div>
-                    <CardTitle className="ff-text-base leading-tight">{project.name}</CardTitle>
+                    <CardTitle className="ff-text-base leading-tight">
+                      <Link to={routePath('project-detail', { id: project.id })} className="hover:underline">
+                        {project.name}
+                      </Link>
+                    </CardTitle>
                     <div className="flex items-center space-x-2 mt-1">
                       <Badge className={getStatusColor(project.status)}>
                         {project.status}
@@ -629,6 +645,80 @@ export function ProjectsPage() {
         ))}
       </div>
       
+      {/* Project Details */}
+      <Dialog
+        open={!!selectedProject}
+        onOpenChange={(open) => {
+          if (!open) navigate(routePath('projects'), { preserveScroll: true });
+        }}
+      >
+        {selectedProject && (
+          <DialogContent className="sm:max-w-lg">
+            <DialogHeader>
+              <DialogTitle className="flex items-center gap-2">
+                <span>{getTypeIcon(selectedProject.type)}</span>
+                {selectedProject.name}
+              </DialogTitle>
+              <DialogDescription>{selectedProject.description}</DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-4">
+              <div className="flex items-center gap-2">
+                <Badge className={getStatusColor(selectedProject.status)}>{selectedProject.status}</Badge>
+                <Badge variant="outline" className="text-xs capitalize">{selectedProject.visibility}</Badge>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex justify-between text-xs">
+                  <span className="text-muted-foreground">Progress</span>
+                  <span className="font-medium">{selectedProject.progress}%</span>
+                </div>
+                <Progress value={selectedProject.progress} className="h-2" />
+              </div>
+
+              <div className="flex flex-wrap gap-1">
+                {selectedProject.techStack.map((tech) => (
+                  <Badge key={tech} variant="secondary" className="text-xs">{tech}</Badge>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                {selectedProject.collaborators.map((collaborator) => (
+                  <div key={collaborator.id} className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Avatar className="h-6 w-6">
+                        <AvatarImage src={collaborator.avatar} />
+                        <AvatarFallback className="text-xs">{collaborator.name.charAt(0)}</AvatarFallback>
+                      </Avatar>
+                      <span className="ff-text-sm">{collaborator.name}</span>
+                    </div>
+                    <span className="text-xs text-muted-foreground capitalize">{collaborator.role}</span>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-2 gap-2 text-xs text-muted-foreground">
+                <div className="flex items-center gap-1">
+                  <Calendar className="h-3 w-3" />
+                  Created {selectedProject.createdAt}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Clock className="h-3 w-3" />
+                  Updated {selectedProject.updatedAt}
+                </div>
+                <div className="flex items-center gap-1">
+                  <Rocket className="h-3 w-3" />
+                  {selectedProject.deployments} deployments
+                </div>
+                {selectedProject.lastDeployment && (
+                  <div>Last deployed {selectedProject.lastDeployment}</div>
+                )}
+              </div>
+            </div>
+          </DialogContent>
+        )}
+      </Dialog>
+
       {filteredProjects.length === 0 && (
         <Card className="ff-card">
           <CardContent className="py-12 text-center">
@@ -7,16 +7,10 @@ import React, { memo } from 'react';
 import { Button } from '../ui/button';
 import { Card } from '../ui/card';
 import { Badge } from '../ui/badge';
-
-export type PageRoute = 'home' | 'dashboard' | 'tools' | 'projects' | 'deployments' | 
-                        'analytics' | 'collaboration' | 'templates' | 'integrations' | 
-                        'settings' | 'about' | 'pricing' | 'contact' | 'ai-models' | 
-                        'live-collaboration' | 'cicd-pipeline' | 'workflows' |
-                        'ai-creation' | 'one-click-publishing' | 'creator-commerce' |
-                        'enterprise-security' | 'smart-analytics' | 'quality-assurance';
+import type { PageType } from '../../types';
 
 interface EnhancedHomePageProps {
-  onNavigate: (route: PageRoute) => void;
+  onNavigate: (route: PageType) => void;
 }
 
 export const EnhancedHomePage = memo(({ onNavigate }: EnhancedHomePageProps) => (
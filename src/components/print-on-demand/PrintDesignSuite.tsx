@@ -54,36 +54,22 @@ import {
   RotateCw,
   Flip,
   Maximize,
-  Minimize
+  Minimize,
+  AlertTriangle
 } from 'lucide-react';
 import { PRODUCT_TYPES, DESIGN_CATEGORIES, PRINT_SPECS, MARKETPLACES } from '../../constants/print-on-demand';
-
-interface DesignElement {
-  id: string;
-  type: 'text' | 'image' | 'shape' | 'vector';
-  content: string;
-  x: number;
-  y: number;
-  width: number;
-  height: number;
-  rotation: number;
-  opacity: number;
-  zIndex: number;
-  locked: boolean;
-  visible: boolean;
-  properties: Record<string, any>;
-}
-
-interface CanvasState {
-  elements: DesignElement[];
-  selectedElements: string[];
-  zoom: number;
-  panX: number;
-  panY: number;
-  canvasWidth: number;
-  canvasHeight: number;
-  backgroundColor: string;
-}
+import type { CanvasState, DesignElement } from '../../types/print-design';
+import {
+  downloadBlob,
+  elementPrintArea,
+  preflightDesign,
+  prepareImages,
+  printGeometry,
+  printPages,
+  rasterizeSvg,
+  renderPdf,
+  renderSvg
+} from '../../utils/print-export';
 
 interface PrintDesignSuiteProps {
   user: any;
@@ -288,6 +274,7 @@ export function PrintDesignSuite({
   const [selectedSize, setSelectedSize] = useState(selectedProduct.sizes[0]);
   const [selectedColor, setSelectedColor] = useState(selectedProduct.colors[0]);
   const [selectedMaterial, setSelectedMaterial] = useState(selectedProduct.materials[0]);
+  const [activePrintArea, setActivePrintArea] = useState<string>(selectedProduct.printAreas[0]);
   
   // Canvas state
   const [canvasState, setCanvasState] = useState<CanvasState>({
@@ -362,7 +349,8 @@ export function PrintDesignSuite({
       id: `element_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       zIndex: canvasState.elements.length,
       locked: false,
-      visible: true
+      visible: true,
+      printArea: activePrintArea
     };
     
     const newState = {
@@ -455,6 +443,8 @@ export function PrintDesignSuite({
           opacity: 1,
           properties: {
             aiGenerated: true,
+            originalWidth: 800,
+            originalHeight: 600,
             prompt: aiPrompt,
             style: selectedCategory.id,
             filter: 'none',
@@ -480,12 +470,17 @@ export function PrintDesignSuite({
 
   // Apply template to canvas
   const applyTemplate = (template: Template) => {
+    // Templates replace the print area being edited and leave the others alone
     const newState = {
       ...canvasState,
-      elements: template.elements.map(el => ({
-        ...el,
-        id: `element_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-      })),
+      elements: [
+        ...canvasState.elements.filter(el => elementPrintArea(el, selectedProduct) !== activePrintArea),
+        ...template.elements.map(el => ({
+          ...el,
+          id: `element_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+          printArea: activePrintArea
+        }))
+      ],
       selectedElements: []
     };
     
@@ -541,38 +536,66 @@ export function PrintDesignSuite({
     toast.success("Design saved successfully!");
   };
 
-  // Enhanced export with multiple formats
+  // Print output: a page per print area with artwork
+  const getPrintPages = () => printPages(selectedProduct, canvasState.elements, canvasState.backgroundColor);
+
+  const runPreflight = () => preflightDesign({
+    product: selectedProduct,
+    pages: getPrintPages(),
+    canvasWidth: canvasState.canvasWidth,
+    canvasHeight: canvasState.canvasHeight
+  });
+
+  // PDF has every print area; SVG, PNG and JPG are the area being edited
   const exportDesign = async (format: 'png' | 'jpg' | 'svg' | 'pdf') => {
     setIsExporting(true);
     setExportProgress(0);
 
     try {
-      const steps = [
-        { progress: 25, message: 'Preparing canvas...' },
-        { progress: 50, message: 'Rendering elements...' },
-        { progress: 75, message: 'Optimizing output...' },
-        { progress: 100, message: 'Download ready!' }
-      ];
+      const geometry = printGeometry(selectedProduct);
+      const pages = getPrintPages();
+      const filename = designTitle.replace(/[^a-z0-9]/gi, '_').toLowerCase();
 
-      for (const step of steps) {
-        setExportProgress(step.progress);
-        await new Promise(resolve => setTimeout(resolve, 400));
+      setExportProgress(25);
+      const images = await prepareImages(canvasState.elements);
+      const imageCount = new Set(canvasState.elements.filter(el => el.type === 'image').map(el => el.content)).size;
+      if (images.size < imageCount) {
+        toast.warning(`${imageCount - images.size} image(s) couldn't be loaded and were left out of the export`);
       }
+      setExportProgress(50);
+
+      let blob: Blob;
+      if (format === 'pdf') {
+        const pdf = renderPdf(pages, geometry, { title: designTitle, images });
+        blob = new Blob([pdf as BlobPart], { type: 'application/pdf' });
+      } else {
+        // Embed images so the file stands alone and the browser can rasterize it
+        const svg = renderSvg({
+          printArea: activePrintArea,
+          backgroundColor: canvasState.backgroundColor,
+          elements: canvasState.elements
+            .filter(el => elementPrintArea(el, selectedProduct) === activePrintArea)
+            .map(el => (el.type === 'image' && images.has(el.content) ? { ...el, content: images.get(el.content)!.dataUrl } : el))
+        }, geometry);
+        setExportProgress(75);
 
-      // Simulate file download
-      const canvas = canvasRef.current;
-      if (canvas) {
-        const dataURL = canvas.toDataURL(`image/${format}`, 0.9);
-        const link = document.createElement('a');
-        link.download = `${designTitle.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.${format}`;
-        link.href = dataURL;
-        document.body.appendChild(link);
-        link.click();
-        document.body.removeChild(link);
+        blob = format === 'svg'
+          ? new Blob([svg], { type: 'image/svg+xml' })
+          : await rasterizeSvg(svg, geometry, format === 'png' ? 'image/png' : 'image/jpeg');
       }
 
-      toast.success(`Design exported as ${format.toUpperCase()}`);
+      const areaSuffix = format !== 'pdf' && selectedProduct.printAreas.length > 1 ? `_${activePrintArea}` : '';
+      downloadBlob(blob, `${filename}${areaSuffix}.${format}`);
+      setExportProgress(100);
+
+      const errors = runPreflight().issues.filter(issue => issue.severity === 'error').length;
+      if (errors > 0) {
+        toast.warning(`Exported as ${format.toUpperCase()} with ${errors} preflight error(s); fix them before sending to print`);
+      } else {
+        toast.success(`Design exported as ${format.toUpperCase()}`);
+      }
     } catch (error) {
+      console.error('Export failed:', error);
       toast.error("Export failed. Please try again.");
     } finally {
       setIsExporting(false);
@@ -601,6 +624,18 @@ export function PrintDesignSuite({
       return;
     }
 
+    // Print problems block publishing; warnings only need a look
+    const preflight = runPreflight();
+    const errors = preflight.issues.filter(issue => issue.severity === 'error');
+    if (!preflight.passed) {
+      toast.error(`Fix ${errors.length} print issue(s) before publishing: ${errors[0].message}`);
+      setActiveTab('publish');
+      return;
+    }
+    if (preflight.issues.length > 0) {
+      toast.warning(`${preflight.issues.length} print warning(s); review them under Print Preflight`);
+    }
+
     const productData = {
       design: {
         id: `design_${Date.now()}`,
@@ -619,7 +654,9 @@ export function PrintDesignSuite({
       tags: [selectedProduct.category, selectedSize, selectedColor, selectedCategory.id],
       metadata: {
         designComplexity: canvasState.elements.length,
-        hasAIContent: canvasState.elements.some(el => el.properties.aiGenerated)
+        hasAIContent: canvasState.elements.some(el => el.properties.aiGenerated),
+        printAreas: getPrintPages().map(page => page.printArea),
+        preflightWarnings: preflight.issues.length
       }
     };
 
@@ -666,6 +703,8 @@ export function PrintDesignSuite({
   }, [selectedColor]);
 
   const pricing = calculatePricing();
+  const preflight = runPreflight();
+  const areaElements = canvasState.elements.filter(el => elementPrintArea(el, selectedProduct) === activePrintArea);
 
   return (
     <div className="h-screen flex bg-background overflow-hidden">
@@ -1035,10 +1074,10 @@ export function PrintDesignSuite({
                 <div>
                   <h3 className="text-lg font-semibold mb-3 flex items-center">
                     <Layers className="h-4 w-4 mr-2" />
-                    Layers ({canvasState.elements.length})
+                    Layers ({areaElements.length})
                   </h3>
                   <div className="space-y-2 max-h-64 overflow-y-auto">
-                    {canvasState.elements
+                    {areaElements
                       .sort((a, b) => b.zIndex - a.zIndex)
                       .map((element, index) => (
                       <motion.div
@@ -1114,7 +1153,7 @@ export function PrintDesignSuite({
                         )}
                       </motion.div>
                     ))}
-                    {canvasState.elements.length === 0 && (
+                    {areaElements.length === 0 && (
                       <div className="text-center text-muted-foreground py-8">
                         <Layers className="h-8 w-8 mx-auto mb-2 opacity-50" />
                         <p className="text-sm">No elements yet</p>
@@ -1146,6 +1185,12 @@ export function PrintDesignSuite({
                             setSelectedSize(product.sizes[0]);
                             setSelectedColor(product.colors[0]);
                             setSelectedMaterial(product.materials[0]);
+                            setActivePrintArea(product.printAreas[0]);
+                            setCanvasState(prev => ({
+                              ...prev,
+                              canvasWidth: product.dimensions.width,
+                              canvasHeight: product.dimensions.height
+                            }));
                           }
                         }}
                       >
@@ -1168,6 +1213,24 @@ export function PrintDesignSuite({
                         </SelectContent>
                       </Select>
                     </div>
+
+                    {selectedProduct.printAreas.length > 1 && (
+                      <div>
+                        <Label>Print Area</Label>
+                        <Select value={activePrintArea} onValueChange={setActivePrintArea}>
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {selectedProduct.printAreas.map((area: string) => (
+                              <SelectItem key={area} value={area} className="capitalize">
+                                {area.replace('_', ' ')}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    )}
                     
                     <div className="grid grid-cols-2 gap-3">
                       <div>
@@ -1400,6 +1463,48 @@ export function PrintDesignSuite({
                       />
                     </div>
 
+                    <div>
+                      <div className="flex items-center justify-between">
+                        <Label>Print Preflight</Label>
+                        <Badge variant={preflight.passed ? 'outline' : 'destructive'} className="text-xs">
+                          {preflight.passed ? 'Print ready' : 'Needs fixes'}
+                        </Badge>
+                      </div>
+                      <div className="space-y-2 mt-2 max-h-48 overflow-y-auto">
+                        {preflight.issues.length === 0 && (
+                          <div className="flex items-center space-x-2 text-sm text-muted-foreground">
+                            <Check className="h-4 w-4 text-green-500" />
+                            <span>
+                              Meets {selectedProduct.dimensions.dpi} DPI, bleed and safe zone specs
+                            </span>
+                          </div>
+                        )}
+                        {preflight.issues.map((issue, index) => (
+                          <div
+                            key={`${issue.check}-${issue.elementId ?? index}`}
+                            className={`flex items-start space-x-2 text-xs p-2 rounded border ${issue.elementId ? 'cursor-pointer hover:bg-accent/50' : ''}`}
+                            onClick={() => {
+                              if (!issue.elementId) return;
+                              if (issue.printArea) setActivePrintArea(issue.printArea);
+                              setCanvasState(prev => ({ ...prev, selectedElements: [issue.elementId!] }));
+                            }}
+                          >
+                            {issue.severity === 'error' ? (
+                              <X className="h-4 w-4 text-destructive flex-shrink-0" />
+                            ) : (
+                              <AlertTriangle className="h-4 w-4 text-yellow-500 flex-shrink-0" />
+                            )}
+                            <span>
+                              {issue.printArea && selectedProduct.printAreas.length > 1 && (
+                                <span className="capitalize font-medium">{issue.printArea.replace('_', ' ')}: </span>
+                              )}
+                              {issue.message}
+                            </span>
+                          </div>
+                        ))}
+                      </div>
+                    </div>
+
                     <div>
                       <Label>Available Marketplaces</Label>
                       <div className="grid grid-cols-1 gap-3 mt-2">
@@ -0,0 +1,33 @@
+import React, { forwardRef, type AnchorHTMLAttributes, type MouseEvent } from 'react';
+import { useRouter } from './RouterProvider';
+
+interface LinkProps extends Omit<AnchorHTMLAttributes<HTMLAnchorElement>, 'href'> {
+  to: string;
+  replace?: boolean;
+}
+
+/**
+ * Anchor that navigates through the router on a plain left click, and
+ * leaves modified clicks (new tab, new window, download) to the browser.
+ */
+export const Link = forwardRef<HTMLAnchorElement, LinkProps>(({ to, replace, onClick, target, ...props }, ref) => {
+  const { navigate } = useRouter();
+
+  const handleClick = (event: MouseEvent<HTMLAnchorElement>) => {
+    onClick?.(event);
+    if (
+      event.defaultPrevented ||
+      event.button !== 0 ||
+      event.metaKey || event.altKey || event.ctrlKey || event.shiftKey ||
+      (target && target !== '_self')
+    ) {
+      return;
+    }
+    event.preventDefault();
+    navigate(to, { replace });
+  };
+
+  return <a ref={ref} href={to} target={target} onClick={handleClick} {...props} />;
+});
+
+Link.displayName = 'Link';
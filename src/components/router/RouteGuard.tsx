@@ -0,0 +1,43 @@
+import React, { useEffect, type ReactNode } from 'react';
+import { useAuth } from '../auth/AuthProvider';
+import { useRouter } from './RouterProvider';
+import {
+  getAuthRedirectUrl,
+  getRouteProtectionLevel,
+  hasRoutePermission
+} from '../../utils/auth-protection';
+
+interface RouteGuardProps {
+  children: ReactNode;
+  /** Shown while the session loads or a redirect is on its way */
+  fallback?: ReactNode;
+}
+
+/**
+ * Renders its children only when the signed-in user may open the current
+ * path. Signed-out visitors are sent to sign in and brought back to the
+ * path afterwards; signed-in users without access go to the dashboard.
+ */
+export function RouteGuard({ children, fallback = null }: RouteGuardProps) {
+  const auth = useAuth();
+  const { location, navigate } = useRouter();
+  const level = getRouteProtectionLevel(location.pathname, location.search);
+  const canAccess = hasRoutePermission(auth, level);
+  const isResolving = auth.isLoading || !auth.isInitialized;
+
+  useEffect(() => {
+    if (isResolving || canAccess) return;
+    navigate(
+      auth.isAuthenticated
+        ? '/dashboard?error=insufficient_permissions'
+        : getAuthRedirectUrl(`${location.pathname}${location.search}`),
+      { replace: true }
+    );
+  }, [isResolving, canAccess, auth.isAuthenticated, location.pathname, location.search, navigate]);
+
+  if (level !== 'public' && (isResolving || !canAccess)) {
+    return <>{fallback}</>;
+  }
+
+  return <>{children}</>;
+}
@@ -0,0 +1,260 @@
+/**
+ * @fileoverview URL Router
+ * @chunk core
+ * @category routing
+ * @version 1.0.0
+ * @author FlashFusion Team
+ *
+ * Path-based routing over ROUTE_CONFIGS: the URL is the source of truth for
+ * the current page and its parameters, browser history drives back and
+ * forward, and each history entry keeps its own scroll position.
+ */
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useLayoutEffect,
+  useMemo,
+  useRef,
+  useState,
+  type ReactNode
+} from 'react';
+import { ROUTE_CONFIGS, ROUTE_TABLE, type RouteParams } from '../layout/route-constants';
+import type { PageType } from '../../types';
+import type { RouteMatch } from '../../utils/router';
+
+export interface RouterLocation {
+  pathname: string;
+  search: string;
+  hash: string;
+  /** Identifies the history entry, for scroll restoration */
+  key: string;
+}
+
+export interface NavigateOptions {
+  replace?: boolean;
+  /** Leave the scroll position alone instead of going to the top or the hash target */
+  preserveScroll?: boolean;
+}
+
+interface RouterContextType {
+  location: RouterLocation;
+  /** The page the pathname resolves to, or null for an unknown path */
+  match: RouteMatch<PageType> | null;
+  searchParams: URLSearchParams;
+  navigate: (to: string, options?: NavigateOptions) => void;
+}
+
+type ScrollIntent =
+  | { type: 'none' }
+  | { type: 'top' }
+  | { type: 'hash'; id: string }
+  | { type: 'restore' };
+
+const SCROLL_STORAGE_KEY = 'ff-scroll-positions';
+const MAX_SCROLL_ENTRIES = 50;
+/** Frames to keep retrying while lazy chunks grow the page tall enough to scroll to */
+const SCROLL_RETRY_FRAMES = 60;
+
+const RouterContext = createContext<RouterContextType | undefined>(undefined);
+
+function createKey(): string {
+  return Math.random().toString(36).slice(2, 10);
+}
+
+function readLocation(): RouterLocation {
+  const { pathname, search, hash } = window.location;
+  // Entries pushed outside the router have no key; fall back to their URL
+  const key = (window.history.state as { key?: string } | null)?.key ?? `${pathname}${search}`;
+  return { pathname, search, hash, key };
+}
+
+function sameLocation(a: RouterLocation, b: RouterLocation): boolean {
+  return a.key === b.key && a.pathname === b.pathname && a.search === b.search && a.hash === b.hash;
+}
+
+function loadScrollPositions(): Record<string, number> {
+  try {
+    return JSON.parse(sessionStorage.getItem(SCROLL_STORAGE_KEY) ?? '{}');
+  } catch {
+    return {};
+  }
+}
+
+function storeScrollPositions(positions: Record<string, number>) {
+  const recent = Object.entries(positions).slice(-MAX_SCROLL_ENTRIES);
+  try {
+    sessionStorage.setItem(SCROLL_STORAGE_KEY, JSON.stringify(Object.fromEntries(recent)));
+  } catch {
+    // Storage unavailable; positions still restore within this page load
+  }
+}
+
+function initialLocation(): RouterLocation {
+  const state = window.history.state as Record<string, unknown> | null;
+  if (!state?.key) {
+    window.history.replaceState({ ...state, key: createKey() }, '');
+  }
+  return readLocation();
+}
+
+/**
+ * Router Provider Component
+ * Tracks the URL and resolves it against the route table
+ */
+export function RouterProvider({ children }: { children: ReactNode }) {
+  const [location, setLocation] = useState<RouterLocation>(initialLocation);
+  const locationRef = useRef(location);
+  const positions = useRef<Record<string, number>>(loadScrollPositions());
+  const scrollIntent = useRef<ScrollIntent>(
+    location.hash ? { type: 'hash', id: decodeURIComponent(location.hash.slice(1)) } : { type: 'restore' }
+  );
+  // Set while the router itself writes history, so its own change events are ignored
+  const isNavigating = useRef(false);
+
+  const rememberScroll = useCallback(() => {
+    const { key } = locationRef.current;
+    // Re-insert so the most recent entries survive the cap
+    delete positions.current[key];
+    positions.current[key] = window.scrollY;
+    storeScrollPositions(positions.current);
+  }, []);
+
+  const sync = useCallback((intent: ScrollIntent) => {
+    const next = readLocation();
+    if (sameLocation(next, locationRef.current)) return;
+    scrollIntent.current = intent;
+    locationRef.current = next;
+    setLocation(next);
+  }, []);
+
+  const navigate = useCallback((to: string, options: NavigateOptions = {}) => {
+    const url = new URL(to, window.location.href);
+    if (url.origin !== window.location.origin) {
+      window.location.assign(url.href);
+      return;
+    }
+
+    const href = `${url.pathname}${url.search}${url.hash}`;
+    const current = locationRef.current;
+    const replace = options.replace || href === `${current.pathname}${current.search}${current.hash}`;
+    rememberScroll();
+
+    isNavigating.current = true;
+    try {
+      window.history[replace ? 'replaceState' : 'pushState']({ key: replace ? current.key : createKey() }, '', href);
+    } finally {
+      isNavigating.current = false;
+    }
+
+    sync(
+      options.preserveScroll
+        ? { type: 'none' }
+        : url.hash
+          ? { type: 'hash', id: decodeURIComponent(url.hash.slice(1)) }
+          : { type: 'top' }
+    );
+  }, [rememberScroll, sync]);
+
+  useEffect(() => {
+    const handlePopState = () => {
+      rememberScroll();
+      sync({ type: 'restore' });
+    };
+    // pushState/replaceState from elsewhere in the app (see NavigationEventManager)
+    const handleExternalChange = () => {
+      if (!isNavigating.current) sync({ type: 'top' });
+    };
+
+    window.addEventListener('popstate', handlePopState);
+    window.addEventListener('ff-navigation-change', handleExternalChange);
+    window.addEventListener('pagehide', rememberScroll);
+    return () => {
+      window.removeEventListener('popstate', handlePopState);
+      window.removeEventListener('ff-navigation-change', handleExternalChange);
+      window.removeEventListener('pagehide', rememberScroll);
+    };
+  }, [rememberScroll, sync]);
+
+  useEffect(() => {
+    const previous = window.history.scrollRestoration;
+    window.history.scrollRestoration = 'manual';
+    return () => {
+      window.history.scrollRestoration = previous;
+    };
+  }, []);
+
+  useLayoutEffect(() => {
+    const intent = scrollIntent.current;
+    scrollIntent.current = { type: 'none' };
+    if (intent.type === 'none') return;
+    if (intent.type === 'top') {
+      window.scrollTo(0, 0);
+      return;
+    }
+
+    const top = positions.current[location.key] ?? 0;
+    let frame = 0;
+    let handle = 0;
+    const attempt = () => {
+      if (intent.type === 'hash') {
+        const target = document.getElementById(intent.id);
+        if (target) {
+          target.scrollIntoView();
+          return;
+        }
+      } else if (document.documentElement.scrollHeight - window.innerHeight >= top) {
+        window.scrollTo(0, top);
+        return;
+      }
+
+      if (++frame < SCROLL_RETRY_FRAMES) {
+        handle = requestAnimationFrame(attempt);
+      } else if (intent.type === 'restore') {
+        window.scrollTo(0, top);
+      }
+    };
+    attempt();
+    return () => cancelAnimationFrame(handle);
+  }, [location]);
+
+  const match = useMemo(() => ROUTE_TABLE.match(location.pathname), [location.pathname]);
+  const searchParams = useMemo(() => new URLSearchParams(location.search), [location.search]);
+
+  useEffect(() => {
+    if (!match) return;
+    const { title, description } = ROUTE_CONFIGS[match.page];
+    document.title = title;
+    document.querySelector('meta[name="description"]')?.setAttribute('content', description);
+  }, [match]);
+
+  const value = useMemo(
+    () => ({ location, match, searchParams, navigate }),
+    [location, match, searchParams, navigate]
+  );
+
+  return <RouterContext.Provider value={value}>{children}</RouterContext.Provider>;
+}
+
+/**
+ * Hook to use the router context
+ */
+export function useRouter() {
+  const context = useContext(RouterContext);
+
+  if (context === undefined) {
+    throw new Error('useRouter must be used within a RouterProvider');
+  }
+
+  return context;
+}
+
+/**
+ * The current route's parameters when it is `page`, null otherwise
+ */
+export function useRouteParams<P extends PageType>(page: P): RouteParams<P> | null {
+  const { match } = useRouter();
+  return match?.page === page ? (match.params as RouteParams<P>) : null;
+}
@@ -0,0 +1,4 @@
+export { RouterProvider, useRouter, useRouteParams, type NavigateOptions, type RouterLocation } from './RouterProvider';
+export { Link } from './Link';
+export { RouteGuard } from './RouteGuard';
+export { lazyRoute, type LazyRoute } from './lazy-route';
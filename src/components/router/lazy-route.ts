@@ -0,0 +1,22 @@
+import React, { type ComponentType, type LazyExoticComponent } from 'react';
+
+export type LazyRoute<T extends ComponentType<any>> = LazyExoticComponent<T> & {
+  /** Starts loading the chunk ahead of navigation, e.g. on hover */
+  preload: () => Promise<{ default: T }>;
+};
+
+/**
+ * React.lazy for a route's page chunk, plus a `preload` that shares the same
+ * request. A failed preload is retried by the next preload or render.
+ */
+export function lazyRoute<T extends ComponentType<any>>(loader: () => Promise<{ default: T }>): LazyRoute<T> {
+  let pending: Promise<{ default: T }> | undefined;
+  const load = () => {
+    pending ??= loader().catch(error => {
+      pending = undefined;
+      throw error;
+    });
+    return pending;
+  };
+  return Object.assign(React.lazy(load), { preload: load });
+}
@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Badge } from '../ui/badge';
@@ -29,7 +29,29 @@ import {
   ExternalLink
 } from 'lucide-react';
 import { motion, AnimatePresence } from 'motion/react';
-import type { SearchResult, Command as CommandType } from '../../types/core';
+import { SearchService } from '../../services/SearchService';
+import type { SearchDocument, ServerSearchResult } from '../../types/search';
+
+interface SearchResult {
+  id: string;
+  type: string;
+  title: string;
+  description: string;
+  url?: string;
+  metadata?: Record<string, string | number | boolean>;
+  /** Relevance relative to the best result, 0-1 */
+  score: number;
+}
+
+interface CommandType {
+  id: string;
+  label: string;
+  description: string;
+  shortcut?: string;
+  category: string;
+  action: () => void;
+  icon?: string;
+}
 
 interface SearchCategory {
   id: string;
@@ -39,11 +61,36 @@ interface SearchCategory {
   results: SearchResult[];
 }
 
+function documentResult(document: SearchDocument, score: number): SearchResult {
+  return {
+    id: document.id,
+    type: document.type,
+    title: document.title,
+    description: document.description,
+    url: document.url,
+    metadata: { ...(document.category && { category: document.category }), ...document.metadata },
+    score
+  };
+}
+
+function fileResult(file: ServerSearchResult, topRank: number): SearchResult {
+  return {
+    id: `file:${file.id}`,
+    type: 'file',
+    title: file.title,
+    // Highlights are marked up for display elsewhere; plain text here
+    description: file.snippet.replace(/<\/?mark>/g, '') || file.path || '',
+    url: '/projects',
+    metadata: { path: file.path ?? '' },
+    score: topRank > 0 ? file.rank / topRank : 0
+  };
+}
+
 export default function GlobalSearchPalette() {
   const [searchQuery, setSearchQuery] = useState('');
   const [activeTab, setActiveTab] = useState('search');
   const [selectedResult, setSelectedResult] = useState<SearchResult | null>(null);
-  const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
+  const [fileResults, setFileResults] = useState<SearchResult[]>([]);
   const [commands, setCommands] = useState<CommandType[]>([]);
   const [recentSearches, setRecentSearches] = useState<string[]>([]);
   const [isCommandMode, setIsCommandMode] = useState(false);
@@ -51,54 +98,6 @@ export default function GlobalSearchPalette() {
 
   // Initialize data
   useEffect(() => {
-    const mockResults: SearchResult[] = [
-      {
-        id: 'project-1',
-        type: 'project',
-        title: 'Creator Commerce Platform',
-        description: 'E-commerce platform for content creators with AI-powered product generation',
-        url: '/projects/creator-commerce',
-        metadata: { framework: 'React', status: 'active' },
-        score: 0.95
-      },
-      {
-        id: 'tool-1',
-        type: 'tool',
-        title: 'AI Content Generator',
-        description: 'Generate high-quality content using advanced AI models',
-        url: '/tools/ai-content-generator',
-        metadata: { category: 'AI Tools', pricing: 'pro' },
-        score: 0.92
-      },
-      {
-        id: 'template-1',
-        type: 'template',
-        title: 'SaaS Landing Page',
-        description: 'Modern landing page template for SaaS products',
-        url: '/templates/saas-landing',
-        metadata: { framework: 'Next.js', complexity: 'intermediate' },
-        score: 0.88
-      },
-      {
-        id: 'doc-1',
-        type: 'documentation',
-        title: 'Getting Started Guide',
-        description: 'Complete guide to building your first FlashFusion application',
-        url: '/docs/getting-started',
-        metadata: { category: 'Documentation', updated: '2024-03-20' },
-        score: 0.85
-      },
-      {
-        id: 'user-1',
-        type: 'user',
-        title: 'Sarah Chen',
-        description: 'Product Designer at FlashFusion',
-        url: '/users/sarah-chen',
-        metadata: { role: 'team_member', department: 'Design' },
-        score: 0.82
-      }
-    ];
-
     const mockCommands: CommandType[] = [
       {
         id: 'create-project',
@@ -147,11 +146,49 @@ export default function GlobalSearchPalette() {
       }
     ];
 
-    setSearchResults(mockResults);
     setCommands(mockCommands);
-    setRecentSearches(['creator commerce', 'ai tools', 'landing page', 'settings']);
+    setRecentSearches(SearchService.getRecentSearches());
   }, []);
 
+  // Stored project files are searched server-side, a little after typing stops
+  useEffect(() => {
+    const trimmed = searchQuery.trim();
+    setFileResults([]);
+    if (!trimmed || isCommandMode) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      SearchService.searchServer(trimmed)
+        .then(results => {
+          const files = results.filter(result => result.kind === 'file');
+          if (!cancelled) {
+            setFileResults(files.map(file => fileResult(file, files[0].rank)));
+          }
+        })
+        .catch(error => console.warn('Workspace search unavailable:', error));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [searchQuery, isCommandMode]);
+
+  const searchResults = useMemo(() => {
+    if (!searchQuery.trim()) return [];
+    const { hits } = SearchService.search(searchQuery, { limit: 30 });
+    const topScore = hits[0]?.score ?? 0;
+    return [...hits.map(hit => documentResult(hit.document, topScore > 0 ? hit.score / topScore : 0)), ...fileResults];
+  }, [searchQuery, fileResults]);
+
+  const openResult = (result: SearchResult) => {
+    setSelectedResult(result);
+    if (!result.id.startsWith('file:')) {
+      SearchService.recordSelection(result.id);
+    }
+    setRecentSearches(SearchService.saveRecentSearch(searchQuery));
+  };
+
   // Keyboard shortcuts
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
@@ -182,8 +219,10 @@ export default function GlobalSearchPalette() {
         return <File className="w-4 h-4 text-green-500" />;
       case 'documentation':
         return <BookOpen className="w-4 h-4 text-orange-500" />;
-      case 'user':
-        return <User className="w-4 h-4 text-pink-500" />;
+      case 'file':
+        return <Code className="w-4 h-4 text-cyan-500" />;
+      case 'page':
+        return <Globe className="w-4 h-4 text-pink-500" />;
       default:
         return <File className="w-4 h-4 text-gray-500" />;
     }
@@ -207,54 +246,18 @@ export default function GlobalSearchPalette() {
   };
 
   const categorizeResults = (): SearchCategory[] => {
+    // Keyed by document type, in display order
     const categories: Record<string, SearchCategory> = {
-      projects: {
-        id: 'projects',
-        name: 'Projects',
-        icon: Folder,
-        color: 'text-blue-500',
-        results: []
-      },
-      tools: {
-        id: 'tools',
-        name: 'Tools',
-        icon: Zap,
-        color: 'text-purple-500',
-        results: []
-      },
-      templates: {
-        id: 'templates',
-        name: 'Templates',
-        icon: File,
-        color: 'text-green-500',
-        results: []
-      },
-      docs: {
-        id: 'docs',
-        name: 'Documentation',
-        icon: BookOpen,
-        color: 'text-orange-500',
-        results: []
-      },
-      users: {
-        id: 'users',
-        name: 'People',
-        icon: User,
-        color: 'text-pink-500',
-        results: []
-      }
+      project: { id: 'projects', name: 'Projects', icon: Folder, color: 'text-blue-500', results: [] },
+      file: { id: 'files', name: 'Files', icon: Code, color: 'text-cyan-500', results: [] },
+      tool: { id: 'tools', name: 'Tools', icon: Zap, color: 'text-purple-500', results: [] },
+      template: { id: 'templates', name: 'Templates', icon: File, color: 'text-green-500', results: [] },
+      documentation: { id: 'docs', name: 'Documentation', icon: BookOpen, color: 'text-orange-500', results: [] },
+      page: { id: 'pages', name: 'Pages', icon: Globe, color: 'text-pink-500', results: [] }
     };
 
-    const filteredResults = searchResults.filter(result =>
-      result.title.toLowerCase().includes(searchQuery.toLowerCase()) ||
-      result.description.toLowerCase().includes(searchQuery.toLowerCase())
-    );
-
-    filteredResults.forEach(result => {
-      const categoryKey = result.type === 'documentation' ? 'docs' : `${result.type}s`;
-      if (categories[categoryKey]) {
-        categories[categoryKey].results.push(result);
-      }
+    searchResults.forEach(result => {
+      categories[result.type]?.results.push(result);
     });
 
     return Object.values(categories).filter(category => category.results.length > 0);
@@ -486,7 +489,7 @@ export default function GlobalSearchPalette() {
                             <Button
                               variant="ghost"
                               className="w-full justify-between p-4 h-auto"
-                              onClick={() => setSelectedResult(result)}
+                              onClick={() => openResult(result)}
                             >
                               <div className="flex items-start space-x-3 text-left">
                                 {getResultIcon(result.type)}
@@ -24,6 +24,9 @@ import {
   Hash
 } from 'lucide-react';
 import { useDebounce } from '../ui/use-mobile';
+import { SearchIndex } from '../../utils/search-index';
+import { SearchService } from '../../services/SearchService';
+import type { SearchDocument } from '../../types/search';
 
 interface SearchableItem {
   id: string;
@@ -62,6 +65,20 @@ interface SearchSystemProps {
   popularTags?: string[];
 }
 
+function toDocument(item: SearchableItem): SearchDocument {
+  return {
+    id: item.id,
+    type: item.type,
+    title: item.title,
+    // The author is searchable, with the weight of the description
+    description: item.author ? `${item.description} ${item.author}` : item.description,
+    tags: item.tags,
+    category: item.category,
+    updatedAt: item.created_at,
+    usage: item.usage_count
+  };
+}
+
 // Custom debounce hook
 function useDebounce<T>(value: T, delay: number): T {
   const [debouncedValue, setDebouncedValue] = useState<T>(value);
@@ -95,106 +112,47 @@ export function SearchSystem({
 
   const debouncedQuery = useDebounce(searchQuery, 300);
 
-  // Load recent searches from localStorage
+  // Load recent searches
   useEffect(() => {
-    const stored = localStorage.getItem('ff_recent_searches');
-    if (stored) {
-      setRecentSearches(JSON.parse(stored));
-    }
+    setRecentSearches(SearchService.getRecentSearches());
   }, []);
 
   // Save search to recent searches
   const saveRecentSearch = (query: string) => {
-    if (!query.trim()) return;
-    
-    const updated = [query, ...recentSearches.filter(q => q !== query)].slice(0, 5);
-    setRecentSearches(updated);
-    localStorage.setItem('ff_recent_searches', JSON.stringify(updated));
+    setRecentSearches(SearchService.saveRecentSearch(query));
   };
 
-  // Filter and search items
-  const filteredItems = useMemo(() => {
-    let filtered = items;
-
-    // Apply text search
-    if (debouncedQuery.trim()) {
-      const query = debouncedQuery.toLowerCase();
-      filtered = filtered.filter(item =>
-        item.title.toLowerCase().includes(query) ||
-        item.description.toLowerCase().includes(query) ||
-        item.tags.some(tag => tag.toLowerCase().includes(query)) ||
-        item.category?.toLowerCase().includes(query) ||
-        item.author?.toLowerCase().includes(query)
-      );
-    }
-
-    // Apply filters
-    if (filters.type?.length) {
-      filtered = filtered.filter(item => filters.type!.includes(item.type));
-    }
-
-    if (filters.category?.length) {
-      filtered = filtered.filter(item => 
-        item.category && filters.category!.includes(item.category)
-      );
-    }
-
-    if (filters.tags?.length) {
-      filtered = filtered.filter(item =>
-        filters.tags!.some(tag => item.tags.includes(tag))
-      );
-    }
-
-    if (filters.difficulty?.length) {
-      filtered = filtered.filter(item =>
-        item.difficulty && filters.difficulty!.includes(item.difficulty)
-      );
-    }
-
-    if (filters.rating) {
-      filtered = filtered.filter(item =>
-        item.rating && item.rating >= filters.rating!
-      );
-    }
-
-    // Sort by relevance and popularity
-    return filtered.sort((a, b) => {
-      // Boost exact matches
-      const aExactMatch = a.title.toLowerCase() === debouncedQuery.toLowerCase();
-      const bExactMatch = b.title.toLowerCase() === debouncedQuery.toLowerCase();
-      if (aExactMatch && !bExactMatch) return -1;
-      if (!aExactMatch && bExactMatch) return 1;
-
-      // Then by usage count
-      return (b.usage_count || 0) - (a.usage_count || 0);
+  const index = useMemo(() => new SearchIndex(items.map(toDocument)), [items]);
+  const itemsById = useMemo(() => new Map(items.map(item => [item.id, item])), [items]);
+
+  // Ranked matches for the query and type/category/tag filters; difficulty and rating aren't indexed
+  const { filteredItems, facets } = useMemo(() => {
+    const { hits, facets } = index.search(debouncedQuery, {
+      filters: { type: filters.type, category: filters.category, tags: filters.tags },
+      limit: items.length
     });
-  }, [items, debouncedQuery, filters]);
 
-  // Get search suggestions
-  const searchSuggestions = useMemo(() => {
-    if (!searchQuery.trim() || searchQuery.length < 2) return [];
+    const filteredItems = hits
+      .map(hit => itemsById.get(hit.document.id)!)
+      .filter(item => !filters.difficulty?.length || (item.difficulty && filters.difficulty.includes(item.difficulty)))
+      .filter(item => !filters.rating || (item.rating && item.rating >= filters.rating));
 
-    const suggestions = new Set<string>();
-    const query = searchQuery.toLowerCase();
+    return { filteredItems, facets };
+  }, [index, itemsById, items.length, debouncedQuery, filters]);
 
-    // Add matching tags
-    items.forEach(item => {
-      item.tags.forEach(tag => {
-        if (tag.toLowerCase().includes(query) && !tag.toLowerCase().startsWith(query)) {
-          suggestions.add(tag);
-        }
-      });
-    });
+  // Tags and categories of what the query matches, most common first; typos in the query still find them
+  const searchSuggestions = useMemo(() => {
+    if (!searchQuery.trim() || searchQuery.length < 2) return [];
 
-    // Add matching categories
-    categories.forEach(category => {
-      if (category.toLowerCase().includes(query)) {
-        suggestions.add(category);
-      }
-    });
+    const { facets } = index.search(searchQuery, { limit: 0 });
+    const query = searchQuery.trim().toLowerCase();
 
-    return Array.from(suggestions).slice(0, 6);
-  }, [searchQuery, items, categories]);
+    return [...Object.entries(facets.tags), ...Object.entries(facets.category)]
+      .sort((a, b) => b[1] - a[1])
+      .map(([value]) => value)
+      .filter((value, position, values) => value.toLowerCase() !== query && values.indexOf(value) === position)
+      .slice(0, 6);
+  }, [searchQuery, index]);
 
   // Handle search submission
   const handleSearch = (query: string) => {
@@ -547,6 +505,7 @@ export function SearchSystem({
                     className="capitalize"
                   >
                     {type}
+                    <span className="ml-1 text-xs opacity-70">{facets.type[type] ?? 0}</span>
                   </Button>
                 ))}
               </div>
@@ -573,6 +532,7 @@ export function SearchSystem({
                       })}
                     >
                       {category}
+                      <span className="ml-1 text-xs opacity-70">{facets.category[category] ?? 0}</span>
                     </Button>
                   ))}
                 </div>
@@ -9,10 +9,12 @@ import {
   Play, Download, Copy, Share, Plus, Filter, X
 } from 'lucide-react';
 import { toast } from 'sonner';
+import { SearchService } from '../../services/SearchService';
+import type { SearchDocument, SearchDocumentType, ServerSearchResult } from '../../types/search';
 
 interface SearchResult {
   id: string;
-  type: 'tool' | 'project' | 'template' | 'documentation' | 'team' | 'command' | 'integration';
+  type: SearchDocumentType | 'command';
   title: string;
   description: string;
   category?: string;
@@ -40,130 +42,42 @@ interface GlobalSearchCommandPaletteProps {
   onNavigate?: (url: string) => void;
 }
 
-// Mock search data - replace with real search API
-const mockSearchData: SearchResult[] = [
-  // Tools
-  {
-    id: 'code-generator',
-    type: 'tool',
-    title: 'AI Code Generator',
-    description: 'Generate production-ready code in any language',
-    category: 'Generation',
-    icon: '🤖',
-    url: '/tools/code-generator',
-    score: 95
-  },
-  {
-    id: 'full-stack-builder',
-    type: 'tool',
-    title: 'Full-Stack App Builder',
-    description: 'Build complete applications with frontend, backend, and database',
-    category: 'Generation',
-    icon: '🏗️',
-    url: '/tools/full-stack-builder',
-    score: 92
-  },
-  {
-    id: 'logo-generator',
-    type: 'tool',
-    title: 'AI Logo Generator',
-    description: 'Create professional logos with AI-powered design',
-    category: 'Design',
-    icon: '🎨',
-    url: '/tools/logo-generator',
-    score: 88
-  },
-  
-  // Projects
-  {
-    id: 'ecommerce-project',
-    type: 'project',
-    title: 'E-commerce Dashboard',
-    description: 'Next.js e-commerce platform with Stripe integration',
-    category: 'Active Projects',
-    icon: '🛒',
-    url: '/projects/ecommerce-dashboard',
-    score: 90
-  },
-  {
-    id: 'blog-project',
-    type: 'project',
-    title: 'Personal Blog',
-    description: 'Gatsby blog with CMS integration',
-    category: 'Active Projects',
-    icon: '📝',
-    url: '/projects/personal-blog',
-    score: 85
-  },
-  
-  // Templates
-  {
-    id: 'react-starter',
-    type: 'template',
-    title: 'React Starter Template',
-    description: 'TypeScript + Tailwind + Vite starter template',
-    category: 'Templates',
-    icon: '⚛️',
-    url: '/templates/react-starter',
-    score: 87
-  },
-  {
-    id: 'saas-template',
-    type: 'template',
-    title: 'SaaS Landing Page',
-    description: 'Complete SaaS marketing site template',
-    category: 'Templates',
-    icon: '🚀',
-    url: '/templates/saas-landing',
-    score: 89
-  },
-  
-  // Documentation
-  {
-    id: 'getting-started',
-    type: 'documentation',
-    title: 'Getting Started Guide',
-    description: 'Learn how to use FlashFusion effectively',
-    category: 'Documentation',
-    icon: '📚',
-    url: '/docs/getting-started',
-    score: 82
-  },
-  {
-    id: 'api-reference',
-    type: 'documentation',
-    title: 'API Reference',
-    description: 'Complete API documentation and examples',
-    category: 'Documentation',
-    icon: '🔧',
-    url: '/docs/api-reference',
-    score: 80
-  },
-  
-  // Team
-  {
-    id: 'team-workspace',
-    type: 'team',
-    title: 'Development Team',
-    description: '5 members • 12 active projects',
-    category: 'Team',
-    icon: '👥',
-    url: '/team/development',
-    score: 86
-  },
-  
-  // Integrations
-  {
-    id: 'github-integration',
-    type: 'integration',
-    title: 'GitHub Integration',
-    description: 'Connect your GitHub repositories',
-    category: 'Integrations',
-    icon: '🔗',
-    url: '/integrations/github',
-    score: 84
-  }
-];
+// Shown next to results that have no icon of their own
+const TYPE_ICONS: Record<string, string> = {
+  project: '📁',
+  file: '📄',
+  template: '📦',
+  page: '🧭',
+  documentation: '📚',
+  tutorial: '🎓'
+};
+
+const MAX_RESULTS = 8;
+
+function toResult(document: SearchDocument): SearchResult {
+  return {
+    id: document.id,
+    type: document.type,
+    title: document.title,
+    description: document.description,
+    category: document.category,
+    icon: document.icon ?? TYPE_ICONS[document.type] ?? '🔎',
+    url: document.url
+  };
+}
+
+function fileResult(file: ServerSearchResult): SearchResult {
+  return {
+    id: `file:${file.id}`,
+    type: 'file',
+    title: file.title,
+    description: file.path ?? '',
+    category: 'Files',
+    icon: TYPE_ICONS.file,
+    url: '/projects',
+    metadata: { projectId: file.projectId }
+  };
+}
 
 const quickActions: QuickAction[] = [
   {
@@ -222,7 +136,6 @@ const quickActions: QuickAction[] = [
   }
 ];
 
-const recentSearches = ['React component', 'API generator', 'deployment guide', 'team settings'];
 const popularSearches = ['code generator', 'logo maker', 'full stack builder', 'documentation'];
 
 export function GlobalSearchCommandPalette({ 
@@ -234,6 +147,7 @@ export function GlobalSearchCommandPalette({
   const [selectedIndex, setSelectedIndex] = useState(0);
   const [searchResults, setSearchResults] = useState<SearchResult[]>([]);
   const [showingCommands, setShowingCommands] = useState(false);
+  const [recentSearches, setRecentSearches] = useState<string[]>(() => SearchService.getRecentSearches());
   const inputRef = useRef<HTMLInputElement>(null);
 
   // Focus input when opened
@@ -275,42 +189,33 @@ export function GlobalSearchCommandPalette({
     }
 
     setShowingCommands(false);
-
-    // Fuzzy search implementation
-    const searchTerms = searchQuery.toLowerCase().split(' ').filter(Boolean);
-    
-    const results = mockSearchData
-      .map(item => {
-        let score = 0;
-        const titleLower = item.title.toLowerCase();
-        const descriptionLower = item.description.toLowerCase();
-        const categoryLower = item.category?.toLowerCase() || '';
-
-        // Exact matches get highest score
-        if (titleLower.includes(searchQuery.toLowerCase())) {
-          score += 100;
-        }
-
-        // Partial matches
-        searchTerms.forEach(term => {
-          if (titleLower.includes(term)) score += 50;
-          if (descriptionLower.includes(term)) score += 25;
-          if (categoryLower.includes(term)) score += 15;
-        });
-
-        // Boost score for popular items
-        score += item.score || 0;
-
-        return { ...item, score };
-      })
-      .filter(item => item.score > 0)
-      .sort((a, b) => (b.score || 0) - (a.score || 0))
-      .slice(0, 8);
-
-    setSearchResults(results);
+    setSearchResults(SearchService.search(searchQuery, { limit: MAX_RESULTS }).hits.map(hit => toResult(hit.document)));
     setSelectedIndex(0);
   }, []);
 
+  // Project files only exist server-side; they join the results when the database answers
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed || trimmed.startsWith('>')) return;
+
+    let cancelled = false;
+    const timer = setTimeout(() => {
+      SearchService.searchServer(trimmed, MAX_RESULTS)
+        .then(results => {
+          const files = results.filter(result => result.kind === 'file').map(fileResult);
+          if (!cancelled && files.length > 0) {
+            setSearchResults(previous => [...previous, ...files].slice(0, MAX_RESULTS * 2));
+          }
+        })
+        .catch(error => console.warn('Workspace search unavailable:', error));
+    }, 300);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [query]);
+
   // Handle search input
   useEffect(() => {
     const debounceTimer = setTimeout(() => {
@@ -353,6 +258,19 @@ export function GlobalSearchCommandPalette({
     return () => document.removeEventListener('keydown', handleKeyDown);
   }, [isOpen, onClose, searchResults.length, selectedIndex]);
 
+  const openResult = (result: SearchResult) => {
+    if (result.action) {
+      result.action();
+    } else {
+      SearchService.recordSelection(result.id);
+      setRecentSearches(SearchService.saveRecentSearch(query));
+      if (result.url && onNavigate) {
+        onNavigate(result.url);
+      }
+    }
+    onClose();
+  };
+
   const handleSelection = useCallback(() => {
     if (query.trim() === '') {
       // Handle quick actions when no query
@@ -361,13 +279,7 @@ export function GlobalSearchCommandPalette({
         onClose();
       }
     } else if (searchResults.length > 0) {
-      const selected = searchResults[selectedIndex];
-      if (selected.action) {
-        selected.action();
-      } else if (selected.url && onNavigate) {
-        onNavigate(selected.url);
-      }
-      onClose();
+      openResult(searchResults[selectedIndex]);
     }
   }, [query, searchResults, selectedIndex, onClose, onNavigate]);
 
@@ -377,9 +289,9 @@ export function GlobalSearchCommandPalette({
       case 'project': return <Code className="w-4 h-4 text-secondary" />;
       case 'template': return <Package className="w-4 h-4 text-accent" />;
       case 'documentation': return <FileText className="w-4 h-4 text-info" />;
-      case 'team': return <Users className="w-4 h-4 text-warning" />;
+      case 'file': return <FileText className="w-4 h-4 text-muted-foreground" />;
+      case 'page': return <Globe className="w-4 h-4 text-purple-500" />;
       case 'command': return <Command className="w-4 h-4 text-success" />;
-      case 'integration': return <Globe className="w-4 h-4 text-purple-500" />;
       default: return <Search className="w-4 h-4 text-muted-foreground" />;
     }
   };
@@ -502,14 +414,7 @@ export function GlobalSearchCommandPalette({
               {searchResults.map((result, index) => (
                 <button
                   key={result.id}
-                  onClick={() => {
-                    if (result.action) {
-                      result.action();
-                    } else if (result.url && onNavigate) {
-                      onNavigate(result.url);
-                    }
-                    onClose();
-                  }}
+                  onClick={() => openResult(result)}
                   className={`w-full flex items-center gap-3 p-3 rounded-lg text-left transition-colors ff-hover-scale ${
                     selectedIndex === index ? 'bg-primary/10 border border-primary/20' : 'hover:bg-muted/50'
                   }`}
@@ -548,7 +453,7 @@ export function GlobalSearchCommandPalette({
               <Search className="w-8 h-8 mx-auto mb-3 text-muted-foreground opacity-50" />
               <p className="text-sm text-muted-foreground mb-2">No results found for "{query}"</p>
               <p className="text-xs text-muted-foreground">
-                Try searching for tools, projects, or type '>' for commands
+                Try searching for tools, projects, or type {"'>'"} for commands
               </p>
             </div>
           )}
@@ -571,7 +476,7 @@ export function GlobalSearchCommandPalette({
                 Close
               </span>
             </div>
-            <span>Type '>' for commands • Ctrl+K to open</span>
+            <span>Type {"'>'"} for commands • Ctrl+K to open</span>
           </div>
         </div>
       </div>
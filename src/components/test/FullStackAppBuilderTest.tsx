@@ -117,7 +117,7 @@ export function FullStackAppBuilderTest() {
       case 'gamification':
         // Test gamification service
         const { GamificationService } = await import('../../services/GamificationService');
-        if (typeof GamificationService.addXP !== 'function') {
+        if (typeof GamificationService.recordEvent !== 'function') {
           throw new Error('Gamification service not properly configured');
         }
         break;
@@ -1,4 +1,6 @@
 import React, { useState, Suspense, useCallback } from 'react';
+import { useRouter, useRouteParams } from '../router';
+import { routePath } from '../layout/route-constants';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '../ui/card';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Badge } from '../ui/badge';
@@ -148,7 +150,9 @@ const TOOLS: Tool[] = [
 ];
 
 export function AIToolsHub() {
-  const [selectedTool, setSelectedTool] = useState<string | null>(null);
+  // The open tool lives in the URL (`/tools/:toolId`) so it can be linked to and left with Back
+  const { navigate } = useRouter();
+  const selectedTool = useRouteParams('tool-detail')?.toolId ?? null;
   const [searchQuery, setSearchQuery] = useState('');
   const [categoryFilter, setCategoryFilter] = useState<string>('all');
   const [sortBy, setSortBy] = useState<'popularity' | 'name' | 'category'>('popularity');
@@ -177,8 +181,8 @@ export function AIToolsHub() {
   const categories = Array.from(new Set(TOOLS.map(tool => tool.category)));
 
   const handleToolSelect = useCallback((toolId: string) => {
-    setSelectedTool(toolId);
-  }, []);
+    navigate(routePath('tool-detail', { toolId }));
+  }, [navigate]);
 
   const selectedToolData = selectedTool ? TOOLS.find(tool => tool.id === selectedTool) : null;
 
@@ -188,7 +192,7 @@ export function AIToolsHub() {
       <div className="space-y-4" style={{ fontFamily: 'var(--ff-font-secondary)' }}>
         <div className="flex items-center gap-4">
           <Button 
-            onClick={() => setSelectedTool(null)}
+            onClick={() => navigate(routePath('tools'))}
             variant="outline" 
             className="border-[var(--border)]"
           >
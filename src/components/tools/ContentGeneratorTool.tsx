@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../ui/card';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
@@ -31,6 +31,7 @@ import {
   Zap
 } from 'lucide-react';
 import { aiServiceManager } from '../../services/AIServiceManager';
+import { isAbortError } from '../../utils/sse-stream';
 
 interface ContentConfig {
   topic: string;
@@ -146,6 +147,11 @@ export function ContentGeneratorTool() {
   const [selectedContent, setSelectedContent] = useState<GeneratedContent | null>(null);
   const [contentAnalytics, setContentAnalytics] = useState<ContentAnalytics | null>(null);
   const [generationProgress, setGenerationProgress] = useState(0);
+  const [streamingText, setStreamingText] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight stream when the tool unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const addKeyword = () => {
     if (keywordInput.trim() && !config.keywords.includes(keywordInput.trim())) {
@@ -174,6 +180,10 @@ export function ContentGeneratorTool() {
     setGeneratedContent([]);
     setSelectedContent(null);
     setGenerationProgress(0);
+    setStreamingText('');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
     try {
       const contents: GeneratedContent[] = [];
@@ -185,7 +195,10 @@ export function ContentGeneratorTool() {
         setGenerationProgress((i / config.platform.length) * 100);
 
         const prompt = buildContentPrompt(config, platform, platformData);
-        const response = await aiServiceManager.generateContentForType(prompt, config.contentType);
+        const response = await aiServiceManager.streamContentForType(prompt, config.contentType, {
+          signal: abortController.signal,
+          onToken: (_token, fullText) => setStreamingText(fullText)
+        });
 
         const content = parseContentResponse(response.content, platform);
         const analytics = await analyzeContent(content.content, platform);
@@ -209,13 +222,22 @@ export function ContentGeneratorTool() {
       setGenerationProgress(100);
 
     } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
       console.error('Content generation failed:', error);
       alert('Content generation failed. Please try again.');
     } finally {
+      abortControllerRef.current = null;
+      setStreamingText('');
       setIsGenerating(false);
     }
   };
 
+  const cancelGeneration = () => {
+    abortControllerRef.current?.abort();
+  };
+
   const buildContentPrompt = (config: ContentConfig, platform: string, platformData: any): string => {
     const platformLimit = platformData?.limit ? ` (max ${platformData.limit} characters)` : '';
     
@@ -614,6 +636,14 @@ Create engaging, platform-optimized content that resonates with the target audie
                       <span>{Math.round(generationProgress)}%</span>
                     </div>
                     <Progress value={generationProgress} className="h-2" />
+                    {streamingText && (
+                      <p className="max-h-48 overflow-auto rounded-md bg-muted p-3 text-xs whitespace-pre-wrap">
+                        {streamingText}
+                      </p>
+                    )}
+                    <Button variant="outline" size="sm" className="w-full" onClick={cancelGeneration}>
+                      Cancel
+                    </Button>
                   </div>
                 )}
               </CardContent>
@@ -6,7 +6,9 @@
  * @author FlashFusion Team
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
+import JSZip from 'jszip';
+import { toast } from 'sonner@2.0.3';
 import { Button } from '../ui/button';
 import { Input } from '../ui/input';
 import { Label } from '../ui/label';
@@ -16,582 +18,258 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { Badge } from '../ui/badge';
 import { Alert, AlertDescription } from '../ui/alert';
-import { Progress } from '../ui/progress';
-import { 
-  Play, 
-  Download, 
-  Save, 
-  Settings, 
-  Zap, 
-  GitBranch, 
-  Network, 
+import {
+  Play,
+  Download,
+  Settings,
+  GitBranch,
+  Network,
   Workflow,
   FileCode,
-  Database,
-  Bot,
   Brain,
-  Link,
   Plus,
   Trash2,
-  Edit,
-  Copy,
-  ExternalLink,
-  CheckCircle,
+  Upload,
   AlertTriangle,
-  Loader2,
-  Code,
-  FileJson,
-  FileText
+  Loader2
 } from 'lucide-react';
-
-interface WorkflowNode {
-  id: string;
-  type: 'input' | 'process' | 'output' | 'condition' | 'database' | 'api' | 'ai';
-  title: string;
-  description: string;
-  config: Record<string, any>;
-  position: { x: number; y: number };
-  connections: string[];
-}
-
-interface WorkflowConfig {
-  name: string;
-  description: string;
-  type: 'langchain' | 'graph' | 'forge' | 'flow';
-  nodes: WorkflowNode[];
-  metadata: Record<string, any>;
+import { WorkflowNodeConfigPanel, nodeRuntimeSettings } from '../automation/WorkflowNodeConfigPanel';
+import { nextConditionBranch, outgoingEdges } from '../../utils/workflow-engine';
+import {
+  DEFAULT_MODEL,
+  WORKFLOW_EXPORT_TARGETS,
+  compileWorkflow,
+  importWorkflowProject,
+  importWorkflowSource,
+  type CompiledWorkflowProject,
+  type WorkflowExportTarget
+} from '../../utils/workflow-codegen';
+import type { WorkflowGraph, WorkflowNode, WorkflowNodeType } from '../../types/workflow';
+
+const STEP_TYPES: Array<{ type: WorkflowNodeType; label: string }> = [
+  { type: 'trigger', label: 'Trigger' },
+  { type: 'ai', label: 'AI prompt' },
+  { type: 'condition', label: 'Condition' },
+  { type: 'webhook', label: 'Webhook' },
+  { type: 'delay', label: 'Delay' },
+  { type: 'action', label: 'Action' }
+];
+
+const MODELS = [
+  { value: DEFAULT_MODEL, label: 'GPT-4o mini' },
+  { value: 'gpt-4o', label: 'GPT-4o' },
+  { value: 'gpt-4', label: 'GPT-4' },
+  { value: 'gpt-3.5-turbo', label: 'GPT-3.5 Turbo' }
+];
+
+const STARTER_GRAPH: WorkflowGraph = {
+  id: 'workflow-starter',
+  name: '',
+  description: '',
+  nodes: [
+    { id: 'trigger-1', type: 'trigger', label: 'Start', config: { sample: { text: 'Hello from FlashFusion' } }, position: { x: 100, y: 100 } },
+    { id: 'ai-1', type: 'ai', label: 'Summarise', config: { prompt: 'Summarise: {{ trigger.text }}' }, position: { x: 350, y: 100 } }
+  ],
+  edges: [{ id: 'edge-1', source: 'trigger-1', target: 'ai-1' }]
+};
+
+/** The config panel edits retries and timeouts as config fields */
+function panelConfig(node: WorkflowNode): Record<string, any> {
+  return {
+    ...node.config,
+    retries: node.retry ? node.retry.maxAttempts - 1 : 0,
+    timeoutSeconds: node.timeoutMs ? node.timeoutMs / 1000 : undefined
+  };
 }
 
-interface GeneratedWorkflow {
-  id: string;
-  config: WorkflowConfig;
-  code: string;
-  documentation: string;
-  examples: string[];
-  testSuite: string;
-  deployment: string;
-  timestamp: Date;
+function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = fileName;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
 }
 
 export function EnhancedWorkflowBuilder() {
   const [activeTab, setActiveTab] = useState<'langchain' | 'graph' | 'forge' | 'flow'>('langchain');
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [progress, setProgress] = useState(0);
-  const [generatedWorkflow, setGeneratedWorkflow] = useState<GeneratedWorkflow | null>(null);
-  const [workflowConfig, setWorkflowConfig] = useState<WorkflowConfig>({
-    name: '',
-    description: '',
-    type: 'langchain',
-    nodes: [],
-    metadata: {}
-  });
-
-  // LangChain specific state
-  const [langchainTemplate, setLangchainTemplate] = useState('');
-  const [langchainModel, setLangchainModel] = useState('gpt-4');
-  const [langchainChains, setLangchainChains] = useState<string[]>([]);
-
-  // Graph workflow state
-  const [graphNodes, setGraphNodes] = useState<WorkflowNode[]>([]);
-  const [selectedNode, setSelectedNode] = useState<string | null>(null);
-
-  // Forge process state
-  const [forgeSteps, setForgeSteps] = useState<string[]>(['']);
-  const [forgeOutputType, setForgeOutputType] = useState('application');
-
-  // Flow diagram state
-  const [flowType, setFlowType] = useState('sequential');
-  const [flowElements, setFlowElements] = useState<any[]>([]);
-
-  // Generate comprehensive LangChain workflow
-  const generateLangChainWorkflow = useCallback(async () => {
-    const template = langchainTemplate || 'Create a comprehensive AI workflow';
-    const chains = langchainChains.length > 0 ? langchainChains : ['LLMChain', 'SequentialChain'];
-    
-    const code = `"""
-FlashFusion Generated LangChain Workflow
-Generated: ${new Date().toISOString()}
-Model: ${langchainModel}
-Template: ${template}
-"""
-
-from langchain.llms import OpenAI
-from langchain.chains import LLMChain, SequentialChain
-from langchain.prompts import PromptTemplate
-from langchain.memory import ConversationBufferMemory
-from langchain.agents import initialize_agent, Tool
-from langchain.utilities import GoogleSearchAPIWrapper
-import os
-from typing import Dict, List, Any
-
-class FlashFusionLangChainWorkflow:
-    """${workflowConfig.description || 'AI-powered workflow using LangChain'}"""
-    
-    def __init__(self, model_name: str = "${langchainModel}"):
-        self.llm = OpenAI(
-            model_name=model_name,
-            temperature=0.7,
-            max_tokens=2000
-        )
-        self.memory = ConversationBufferMemory(
-            memory_key="chat_history",
-            return_messages=True
-        )
-        self.setup_chains()
-        self.setup_agents()
-    
-    def setup_chains(self):
-        """Initialize LangChain chains for workflow processing"""
-        
-        # Primary analysis chain
-        self.analysis_prompt = PromptTemplate(
-            input_variables=["input_text", "context"],
-            template="""
-            Analyze the following input in the context of: ${template}
-            
-            Input: {input_text}
-            Context: {context}
-            
-            Please provide a comprehensive analysis including:
-            1. Key insights and patterns
-            2. Recommendations for action
-            3. Potential challenges and solutions
-            4. Next steps and implementation strategy
-            
-            Analysis:
-            """
-        )
-        
-        self.analysis_chain = LLMChain(
-            llm=self.llm,
-            prompt=self.analysis_prompt,
-            output_key="analysis"
-        )
-        
-        # Enhancement chain
-        self.enhancement_prompt = PromptTemplate(
-            input_variables=["analysis", "requirements"],
-            template="""
-            Based on this analysis: {analysis}
-            
-            Requirements: {requirements}
-            
-            Create an enhanced solution that:
-            1. Addresses all identified challenges
-            2. Implements best practices
-            3. Includes specific action items
-            4. Provides measurable outcomes
-            
-            Enhanced Solution:
-            """
-        )
-        
-        self.enhancement_chain = LLMChain(
-            llm=self.llm,
-            prompt=self.enhancement_prompt,
-            output_key="enhanced_solution"
-        )
-        
-        # Sequential workflow
-        self.workflow = SequentialChain(
-            chains=[self.analysis_chain, self.enhancement_chain],
-            input_variables=["input_text", "context", "requirements"],
-            output_variables=["analysis", "enhanced_solution"],
-            verbose=True
-        )
-    
-    def setup_agents(self):
-        """Initialize AI agents for specialized tasks"""
-        
-        # Web search tool
-        search = GoogleSearchAPIWrapper()
-        
-        tools = [
-            Tool(
-                name="Web Search",
-                func=search.run,
-                description="Search the web for current information and research"
-            ),
-            Tool(
-                name="Code Analysis",
-                func=self.analyze_code,
-                description="Analyze code patterns, performance, and best practices"
-            ),
-            Tool(
-                name="Document Generator",
-                func=self.generate_documentation,
-                description="Generate comprehensive documentation for projects"
-            )
-        ]
-        
-        self.agent = initialize_agent(
-            tools,
-            self.llm,
-            agent="chat-conversational-react-description",
-            memory=self.memory,
-            verbose=True
-        )
-    
-    def process_workflow(self, input_data: Dict[str, Any]) -> Dict[str, Any]:
-        """Execute the complete workflow"""
-        
-        try:
-            # Extract input parameters
-            input_text = input_data.get("input_text", "")
-            context = input_data.get("context", "${template}")
-            requirements = input_data.get("requirements", "Generate a comprehensive solution")
-            
-            # Execute sequential workflow
-            result = self.workflow({
-                "input_text": input_text,
-                "context": context,
-                "requirements": requirements
-            })
-            
-            # Enhance with agent capabilities
-            agent_analysis = self.agent.run(
-                f"Provide additional insights for this workflow result: {result['enhanced_solution']}"
-            )
-            
-            return {
-                "status": "success",
-                "workflow_result": result,
-                "agent_insights": agent_analysis,
-                "metadata": {
-                    "model": "${langchainModel}",
-                    "timestamp": "${new Date().toISOString()}",
-                    "chains_used": ${JSON.stringify(chains)},
-                    "processing_time": "calculated_at_runtime"
-                }
-            }
-            
-        except Exception as e:
-            return {
-                "status": "error",
-                "error": str(e),
-                "fallback_result": self.generate_fallback_response(input_data)
-            }
-    
-    def analyze_code(self, code: str) -> str:
-        """Analyze code for patterns and improvements"""
-        prompt = f"""
-        Analyze this code and provide insights:
-        {code}
-        
-        Focus on:
-        - Code quality and best practices
-        - Performance optimization opportunities
-        - Security considerations
-        - Maintainability improvements
-        """
-        return self.llm(prompt)
-    
-    def generate_documentation(self, project_info: str) -> str:
-        """Generate comprehensive documentation"""
-        prompt = f"""
-        Create detailed documentation for:
-        {project_info}
-        
-        Include:
-        - Overview and purpose
-        - Installation instructions
-        - Usage examples
-        - API reference
-        - Contributing guidelines
-        """
-        return self.llm(prompt)
-    
-    def generate_fallback_response(self, input_data: Dict[str, Any]) -> str:
-        """Generate fallback response when main workflow fails"""
-        return f"Fallback analysis for: {input_data.get('input_text', 'No input provided')}"
-
-# Usage example
-if __name__ == "__main__":
-    workflow = FlashFusionLangChainWorkflow()
-    
-    # Example workflow execution
-    result = workflow.process_workflow({
-        "input_text": "I need to build a web application for e-commerce",
-        "context": "Modern web development with AI integration",
-        "requirements": "Scalable, secure, and user-friendly solution"
-    })
-    
-    print("Workflow Result:")
-    print(result)
-`;
-
-    const documentation = `# FlashFusion LangChain Workflow Documentation
-
-## Overview
-This workflow implements a comprehensive LangChain-based AI processing system with the following capabilities:
-
-### Features
-- **Sequential Chain Processing**: Multi-stage analysis and enhancement
-- **AI Agent Integration**: Specialized tools for research and analysis
-- **Memory Management**: Conversation history and context retention
-- **Error Handling**: Robust fallback mechanisms
-- **Extensible Architecture**: Easy to add new chains and tools
-
-### Architecture
-1. **Analysis Chain**: Initial input processing and insights
-2. **Enhancement Chain**: Solution development and optimization
-3. **Agent Tools**: Web search, code analysis, documentation generation
-
-### Usage
-\`\`\`python
-from workflow import FlashFusionLangChainWorkflow
-
-# Initialize workflow
-workflow = FlashFusionLangChainWorkflow(model_name="${langchainModel}")
-
-# Process input
-result = workflow.process_workflow({
-    "input_text": "Your input here",
-    "context": "Processing context",
-    "requirements": "Specific requirements"
-})
-\`\`\`
-
-### Configuration
-- **Model**: ${langchainModel}
-- **Template**: ${template}
-- **Chains**: ${chains.join(', ')}
-- **Memory**: ConversationBufferMemory
-- **Tools**: Web Search, Code Analysis, Documentation
-`;
-
-    const examples = [
-      `# Example 1: Business Analysis
-result = workflow.process_workflow({
-    "input_text": "Startup idea for AI-powered fitness app",
-    "context": "Mobile app development and AI integration",
-    "requirements": "Market analysis and technical implementation plan"
-})`,
-      `# Example 2: Code Review
-result = workflow.process_workflow({
-    "input_text": "React component with performance issues",
-    "context": "Frontend optimization and best practices",
-    "requirements": "Performance improvements and code quality"
-})`,
-      `# Example 3: Content Strategy
-result = workflow.process_workflow({
-    "input_text": "Blog content plan for tech startup",
-    "context": "Content marketing and audience engagement",
-    "requirements": "Content calendar and SEO optimization"
-})`
-    ];
-
-    const testSuite = `"""
-Test Suite for FlashFusion LangChain Workflow
-"""
-
-import unittest
-from unittest.mock import Mock, patch
-from workflow import FlashFusionLangChainWorkflow
-
-class TestFlashFusionWorkflow(unittest.TestCase):
-    
-    def setUp(self):
-        self.workflow = FlashFusionLangChainWorkflow()
-    
-    def test_workflow_initialization(self):
-        """Test workflow initializes correctly"""
-        self.assertIsNotNone(self.workflow.llm)
-        self.assertIsNotNone(self.workflow.memory)
-        self.assertIsNotNone(self.workflow.workflow)
-    
-    def test_process_workflow_success(self):
-        """Test successful workflow processing"""
-        input_data = {
-            "input_text": "Test input",
-            "context": "Test context",
-            "requirements": "Test requirements"
-        }
-        
-        # Mock LLM responses
-        with patch.object(self.workflow.llm, '__call__', return_value="Mock response"):
-            result = self.workflow.process_workflow(input_data)
-            self.assertEqual(result["status"], "success")
-    
-    def test_error_handling(self):
-        """Test error handling and fallback"""
-        input_data = {"input_text": ""}
-        
-        # Force an error
-        with patch.object(self.workflow.workflow, '__call__', side_effect=Exception("Test error")):
-            result = self.workflow.process_workflow(input_data)
-            self.assertEqual(result["status"], "error")
-            self.assertIn("fallback_result", result)
-
-if __name__ == "__main__":
-    unittest.main()
-`;
-
-    const deployment = `# Deployment Configuration
-
-## Docker Deployment
-\`\`\`dockerfile
-FROM python:3.9-slim
-
-WORKDIR /app
-
-COPY requirements.txt .
-RUN pip install -r requirements.txt
-
-COPY . .
-
-EXPOSE 8000
-
-CMD ["python", "workflow.py"]
-\`\`\`
-
-## Requirements
-\`\`\`
-langchain>=0.0.350
-openai>=1.0.0
-google-search-results>=2.4.2
-python-dotenv>=1.0.0
-fastapi>=0.104.1
-uvicorn>=0.24.0
-\`\`\`
-
-## Environment Variables
-\`\`\`bash
-OPENAI_API_KEY=your_openai_key
-GOOGLE_API_KEY=your_google_key
-GOOGLE_CSE_ID=your_cse_id
-\`\`\`
-`;
-
-    return {
-      id: `langchain-${Date.now()}`,
-      config: { ...workflowConfig, type: 'langchain' },
-      code,
-      documentation,
-      examples,
-      testSuite,
-      deployment,
-      timestamp: new Date()
-    };
-  }, [langchainTemplate, langchainModel, langchainChains, workflowConfig]);
-
-  // Generate workflow
-  const generateWorkflow = useCallback(async () => {
-    setIsGenerating(true);
-    setProgress(0);
+  const [graph, setGraph] = useState<WorkflowGraph>(STARTER_GRAPH);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [exportTarget, setExportTarget] = useState<WorkflowExportTarget>('langgraph-python');
+  const [defaultModel, setDefaultModel] = useState(DEFAULT_MODEL);
+  const [project, setProject] = useState<CompiledWorkflowProject | null>(null);
+  const [previewPath, setPreviewPath] = useState<string | null>(null);
+  const [compileErrors, setCompileErrors] = useState<string[]>([]);
+  const [importWarnings, setImportWarnings] = useState<string[]>([]);
+  const [isImporting, setIsImporting] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const selectedNode = graph.nodes.find(node => node.id === selectedNodeId) ?? null;
+
+  const updateGraph = useCallback((update: (current: WorkflowGraph) => WorkflowGraph) => {
+    setGraph(update);
+    setProject(null);
+  }, []);
+
+  const updateNode = useCallback((id: string, changes: Partial<WorkflowNode>) => {
+    updateGraph(current => ({
+      ...current,
+      nodes: current.nodes.map(node => (node.id === id ? { ...node, ...changes } : node))
+    }));
+  }, [updateGraph]);
+
+  const addNode = useCallback((type: WorkflowNodeType) => {
+    const id = `${type}-${Date.now()}`;
+    updateGraph(current => {
+      const index = current.nodes.length;
+      const label = STEP_TYPES.find(step => step.type === type)!.label;
+      const node: WorkflowNode = {
+        id,
+        type,
+        label,
+        config: {},
+        position: { x: 100 + (index % 4) * 250, y: 100 + Math.floor(index / 4) * 180 }
+      };
+      // New steps follow the selected one, so a linear flow needs no extra clicks
+      const parent = current.nodes.find(candidate => candidate.id === selectedNodeId);
+      const edges = parent && type !== 'trigger'
+        ? [...current.edges, {
+            id: `edge-${Date.now()}`,
+            source: parent.id,
+            target: id,
+            ...(parent.type === 'condition' ? { branch: nextConditionBranch(current.edges, parent.id) ?? undefined } : {})
+          }]
+        : current.edges;
+      return { ...current, nodes: [...current.nodes, node], edges };
+    });
+    setSelectedNodeId(id);
+  }, [selectedNodeId, updateGraph]);
+
+  const removeNode = useCallback((id: string) => {
+    updateGraph(current => ({
+      ...current,
+      nodes: current.nodes.filter(node => node.id !== id),
+      edges: current.edges.filter(edge => edge.source !== id && edge.target !== id)
+    }));
+    setSelectedNodeId(null);
+  }, [updateGraph]);
+
+  const addEdge = useCallback((source: string, target: string) => {
+    updateGraph(current => {
+      if (source === target || current.edges.some(edge => edge.source === source && edge.target === target)) return current;
+      const isCondition = current.nodes.find(node => node.id === source)?.type === 'condition';
+      const branch = isCondition ? nextConditionBranch(current.edges, source) : null;
+      if (isCondition && !branch) {
+        toast.error('A condition has one connection for each outcome');
+        return current;
+      }
+      return {
+        ...current,
+        edges: [...current.edges, { id: `edge-${Date.now()}`, source, target, ...(branch ? { branch } : {}) }]
+      };
+    });
+  }, [updateGraph]);
 
+  const removeEdge = useCallback((id: string) => {
+    updateGraph(current => ({ ...current, edges: current.edges.filter(edge => edge.id !== id) }));
+  }, [updateGraph]);
+
+  const generateWorkflow = useCallback(() => {
+    const named = { ...graph, name: graph.name.trim() || 'Untitled workflow' };
+    try {
+      const compiled = compileWorkflow(named, exportTarget, { defaultModel });
+      setProject(compiled);
+      setPreviewPath(compiled.entry);
+      setCompileErrors([]);
+      toast.success(`Generated ${compiled.files.length} files`);
+    } catch (error) {
+      const problems = (error as { problems?: Array<{ message: string }> }).problems;
+      setProject(null);
+      setCompileErrors(problems?.map(problem => problem.message) ?? [error instanceof Error ? error.message : String(error)]);
+    }
+  }, [graph, exportTarget, defaultModel]);
+
+  const downloadFile = useCallback((path: string, content: string) => {
+    downloadBlob(new Blob([content], { type: 'text/plain' }), path.split('/').pop()!);
+  }, []);
+
+  const downloadProject = useCallback(async () => {
+    if (!project) return;
+    const zip = new JSZip();
+    const folder = zip.folder(project.name)!;
+    for (const file of project.files) folder.file(file.path, file.content);
+    downloadBlob(await zip.generateAsync({ type: 'blob' }), `${project.name}.zip`);
+  }, [project]);
+
+  const importFile = useCallback(async (file: File) => {
+    setIsImporting(true);
     try {
-      const steps = [
-        'Analyzing workflow requirements...',
-        'Generating code structure...',
-        'Creating documentation...',
-        'Generating examples...',
-        'Building test suite...',
-        'Finalizing deployment config...'
-      ];
-
-      let workflow: GeneratedWorkflow;
-
-      for (let i = 0; i < steps.length; i++) {
-        setProgress(((i + 1) / steps.length) * 100);
-        await new Promise(resolve => setTimeout(resolve, 800));
-
-        if (i === steps.length - 1) {
-          // Generate based on active tab
-          switch (activeTab) {
-            case 'langchain':
-              workflow = await generateLangChainWorkflow();
-              break;
-            default:
-              workflow = await generateLangChainWorkflow();
-          }
-          setGeneratedWorkflow(workflow);
+      let imported;
+      if (file.name.endsWith('.zip')) {
+        const zip = await JSZip.loadAsync(file);
+        const files: Record<string, string> = {};
+        for (const entry of Object.values(zip.files)) {
+          if (!entry.dir && /\.(py|ts)$/.test(entry.name)) files[entry.name] = await entry.async('string');
         }
+        imported = importWorkflowProject(files);
+      } else {
+        imported = importWorkflowSource(await file.text(), file.name);
       }
-
-      console.log('✅ Workflow generated successfully');
+      setGraph(imported.graph);
+      setExportTarget(imported.target);
+      setProject(null);
+      setCompileErrors([]);
+      setSelectedNodeId(null);
+      setImportWarnings(imported.warnings);
+      setActiveTab('graph');
+      toast.success(`Imported ${imported.graph.nodes.length} steps from ${file.name}`);
     } catch (error) {
-      console.error('❌ Workflow generation failed:', error);
+      toast.error(error instanceof Error ? error.message : 'Could not import the workflow');
     } finally {
-      setIsGenerating(false);
-      setProgress(0);
+      setIsImporting(false);
     }
-  }, [activeTab, generateLangChainWorkflow]);
-
-  // Download generated files
-  const downloadWorkflow = useCallback((type: 'code' | 'docs' | 'tests' | 'deployment' | 'all') => {
-    if (!generatedWorkflow) return;
-
-    const files: Record<string, string> = {
-      code: generatedWorkflow.code,
-      docs: generatedWorkflow.documentation,
-      tests: generatedWorkflow.testSuite,
-      deployment: generatedWorkflow.deployment
-    };
-
-    if (type === 'all') {
-      // Create zip-like structure
-      const allFiles = `# FlashFusion Workflow Package
-# Generated: ${generatedWorkflow.timestamp.toISOString()}
-
-## Main Code File (workflow.py)
-${generatedWorkflow.code}
-
-## Documentation (README.md)
-${generatedWorkflow.documentation}
-
-## Test Suite (test_workflow.py)
-${generatedWorkflow.testSuite}
-
-## Deployment Configuration (deployment.md)
-${generatedWorkflow.deployment}
-
-## Examples
-${generatedWorkflow.examples.join('\n\n')}
-`;
-
-      const blob = new Blob([allFiles], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `flashfusion-workflow-${generatedWorkflow.config.type}.txt`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    } else {
-      // Download individual file
-      const content = files[type];
-      const extensions: Record<string, string> = {
-        code: 'py',
-        docs: 'md',
-        tests: 'py',
-        deployment: 'md'
-      };
+  }, []);
 
-      const blob = new Blob([content], { type: 'text/plain' });
-      const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `flashfusion-${type}.${extensions[type]}`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
-      URL.revokeObjectURL(url);
-    }
-  }, [generatedWorkflow]);
+  const previewFile = project?.files.find(file => file.path === previewPath);
+  const labelOf = (id: string) => graph.nodes.find(node => node.id === id)?.label ?? id;
 
   return (
     <div className="space-y-6" style={{ fontFamily: 'var(--ff-font-secondary)' }}>
       <Card className="bg-[var(--ff-surface)] border-[var(--border)]">
         <CardHeader>
-          <CardTitle className="flex items-center gap-3 text-[var(--ff-text-primary)]" style={{ fontFamily: 'var(--ff-font-primary)' }}>
-            <Workflow className="w-6 h-6 text-[var(--ff-primary)]" />
-            Enhanced Workflow Builder
-          </CardTitle>
-          <CardDescription className="text-[var(--ff-text-secondary)]">
-            Create comprehensive AI workflows with LangChain, graph processing, forge automation, and flow diagrams.
-          </CardDescription>
+          <div className="flex items-start justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-3 text-[var(--ff-text-primary)]" style={{ fontFamily: 'var(--ff-font-primary)' }}>
+                <Workflow className="w-6 h-6 text-[var(--ff-primary)]" />
+                Enhanced Workflow Builder
+              </CardTitle>
+              <CardDescription className="text-[var(--ff-text-secondary)]">
+                Design a workflow as a graph and export it as a runnable LangGraph or LangChain.js project, or import one back.
+              </CardDescription>
+            </div>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".py,.ts,.zip"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importFile(file);
+                e.target.value = '';
+              }}
+            />
+            <Button
+              variant="outline"
+              className="border-[var(--border)]"
+              disabled={isImporting}
+              onClick={() => fileInputRef.current?.click()}
+            >
+              {isImporting ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+              Import
+            </Button>
+          </div>
         </CardHeader>
         <CardContent>
           <Tabs value={activeTab} onValueChange={(value) => setActiveTab(value as any)}>
@@ -618,7 +296,7 @@ ${generatedWorkflow.examples.join('\n\n')}
               <Alert className="border-[var(--ff-primary)] bg-[var(--ff-primary)]/10">
                 <Brain className="h-4 w-4 text-[var(--ff-primary)]" />
                 <AlertDescription className="text-[var(--ff-text-secondary)]">
-                  <strong className="text-[var(--ff-primary)]">LangChain Workflow:</strong> Build AI-powered workflows with sequential chains, agents, and memory.
+                  <strong className="text-[var(--ff-primary)]">LangChain Export:</strong> Compiles the {graph.nodes.length} steps on the Graph tab into a project with its own tests. Re-import the exported files to keep editing here.
                 </AlertDescription>
               </Alert>
 
@@ -633,8 +311,8 @@ ${generatedWorkflow.examples.join('\n\n')}
                       <Input
                         id="workflow-name"
                         placeholder="e.g., AI Content Analyzer"
-                        value={workflowConfig.name}
-                        onChange={(e) => setWorkflowConfig(prev => ({ ...prev, name: e.target.value }))}
+                        value={graph.name}
+                        onChange={(e) => updateGraph(current => ({ ...current, name: e.target.value }))}
                         className="bg-[var(--ff-surface)] border-[var(--border)]"
                       />
                     </div>
@@ -644,35 +322,8 @@ ${generatedWorkflow.examples.join('\n\n')}
                       <Textarea
                         id="workflow-description"
                         placeholder="Describe your workflow purpose..."
-                        value={workflowConfig.description}
-                        onChange={(e) => setWorkflowConfig(prev => ({ ...prev, description: e.target.value }))}
-                        className="bg-[var(--ff-surface)] border-[var(--border)]"
-                        rows={3}
-                      />
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="langchain-model">AI Model</Label>
-                      <Select value={langchainModel} onValueChange={setLangchainModel}>
-                        <SelectTrigger className="bg-[var(--ff-surface)] border-[var(--border)]">
-                          <SelectValue placeholder="Select model" />
-                        </SelectTrigger>
-                        <SelectContent>
-                          <SelectItem value="gpt-4">GPT-4</SelectItem>
-                          <SelectItem value="gpt-3.5-turbo">GPT-3.5 Turbo</SelectItem>
-                          <SelectItem value="claude-2">Claude 2</SelectItem>
-                          <SelectItem value="llama-2">Llama 2</SelectItem>
-                        </SelectContent>
-                      </Select>
-                    </div>
-
-                    <div className="space-y-2">
-                      <Label htmlFor="langchain-template">Processing Template</Label>
-                      <Textarea
-                        id="langchain-template"
-                        placeholder="Define your AI processing context..."
-                        value={langchainTemplate}
-                        onChange={(e) => setLangchainTemplate(e.target.value)}
+                        value={graph.description ?? ''}
+                        onChange={(e) => updateGraph(current => ({ ...current, description: e.target.value }))}
                         className="bg-[var(--ff-surface)] border-[var(--border)]"
                         rows={3}
                       />
@@ -682,167 +333,134 @@ ${generatedWorkflow.examples.join('\n\n')}
 
                 <Card className="bg-[var(--ff-surface-light)] border-[var(--border)]">
                   <CardHeader>
-                    <CardTitle className="text-[var(--ff-text-primary)]">Chain Configuration</CardTitle>
+                    <CardTitle className="text-[var(--ff-text-primary)]">Export</CardTitle>
                   </CardHeader>
                   <CardContent className="space-y-4">
                     <div className="space-y-2">
-                      <Label>Chain Types</Label>
-                      <div className="grid grid-cols-2 gap-2">
-                        {['LLMChain', 'SequentialChain', 'RouterChain', 'TransformChain'].map((chain) => (
-                          <Button
-                            key={chain}
-                            variant={langchainChains.includes(chain) ? 'default' : 'outline'}
-                            size="sm"
-                            onClick={() => {
-                              setLangchainChains(prev => 
-                                prev.includes(chain) 
-                                  ? prev.filter(c => c !== chain)
-                                  : [...prev, chain]
-                              );
-                            }}
-                            className={
-                              langchainChains.includes(chain)
-                                ? 'bg-[var(--ff-primary)] text-white'
-                                : 'border-[var(--border)]'
-                            }
-                          >
-                            {chain}
-                          </Button>
-                        ))}
-                      </div>
+                      <Label>Target</Label>
+                      <Select
+                        value={exportTarget}
+                        onValueChange={(value) => {
+                          setExportTarget(value as WorkflowExportTarget);
+                          setProject(null);
+                        }}
+                      >
+                        <SelectTrigger className="bg-[var(--ff-surface)] border-[var(--border)]">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {WORKFLOW_EXPORT_TARGETS.map(target => (
+                            <SelectItem key={target.id} value={target.id}>{target.label} ({target.language})</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
 
                     <div className="space-y-2">
-                      <Label>Selected Chains</Label>
-                      <div className="flex flex-wrap gap-2">
-                        {langchainChains.map((chain) => (
-                          <Badge key={chain} className="bg-[var(--ff-primary)] text-white">
-                            {chain}
-                            <button
-                              onClick={() => setLangchainChains(prev => prev.filter(c => c !== chain))}
-                              className="ml-1 hover:text-red-300"
-                            >
-                              ×
-                            </button>
-                          </Badge>
-                        ))}
-                      </div>
+                      <Label htmlFor="langchain-model">Default Model</Label>
+                      <Select
+                        value={defaultModel}
+                        onValueChange={(value) => {
+                          setDefaultModel(value);
+                          setProject(null);
+                        }}
+                      >
+                        <SelectTrigger id="langchain-model" className="bg-[var(--ff-surface)] border-[var(--border)]">
+                          <SelectValue placeholder="Select model" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {MODELS.map(model => (
+                            <SelectItem key={model.value} value={model.value}>{model.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <p className="text-xs text-[var(--ff-text-muted)]">Used by AI steps that do not name a model.</p>
                     </div>
 
                     <div className="pt-4">
                       <Button
                         onClick={generateWorkflow}
-                        disabled={isGenerating}
                         className="w-full bg-[var(--ff-primary)] hover:bg-[var(--ff-primary-600)] text-white"
                       >
-                        {isGenerating ? (
-                          <>
-                            <Loader2 className="w-4 h-4 mr-2 animate-spin" />
-                            Generating...
-                          </>
-                        ) : (
-                          <>
-                            <Play className="w-4 h-4 mr-2" />
-                            Generate Workflow
-                          </>
-                        )}
+                        <Play className="w-4 h-4 mr-2" />
+                        Generate Workflow
                       </Button>
                     </div>
                   </CardContent>
                 </Card>
               </div>
 
-              {isGenerating && (
-                <Card className="bg-[var(--ff-surface-light)] border-[var(--border)]">
-                  <CardHeader>
-                    <CardTitle className="text-[var(--ff-text-primary)]">Generation Progress</CardTitle>
-                  </CardHeader>
-                  <CardContent className="space-y-4">
-                    <Progress value={progress} className="h-2" />
-                    <p className="text-sm text-[var(--ff-text-secondary)]">
-                      Generating your {activeTab} workflow...
-                    </p>
-                  </CardContent>
-                </Card>
+              {compileErrors.length > 0 && (
+                <Alert className="border-red-500 bg-red-500/10">
+                  <AlertTriangle className="h-4 w-4 text-red-500" />
+                  <AlertDescription className="text-[var(--ff-text-secondary)]">
+                    <strong className="text-red-500">Fix these on the Graph tab first:</strong>
+                    <ul className="list-disc ml-5 mt-1">
+                      {compileErrors.map(error => <li key={error}>{error}</li>)}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
               )}
 
-              {generatedWorkflow && (
+              {project && (
                 <Card className="bg-[var(--ff-surface-light)] border-[var(--border)]">
                   <CardHeader>
                     <CardTitle className="text-[var(--ff-text-primary)]">Generated Workflow</CardTitle>
                     <CardDescription className="text-[var(--ff-text-muted)]">
-                      Your workflow has been generated successfully. Download the files below.
+                      {project.files.length} files in {project.name}/. The README explains how to run it and its tests.
                     </CardDescription>
                   </CardHeader>
                   <CardContent className="space-y-4">
-                    <div className="grid grid-cols-2 md:grid-cols-5 gap-2">
-                      <Button
-                        onClick={() => downloadWorkflow('code')}
-                        variant="outline"
-                        size="sm"
-                        className="border-[var(--border)]"
-                      >
-                        <FileCode className="w-3 h-3 mr-1" />
-                        Code
-                      </Button>
-                      <Button
-                        onClick={() => downloadWorkflow('docs')}
-                        variant="outline"
-                        size="sm"
-                        className="border-[var(--border)]"
-                      >
-                        <FileText className="w-3 h-3 mr-1" />
-                        Docs
-                      </Button>
-                      <Button
-                        onClick={() => downloadWorkflow('tests')}
-                        variant="outline"
-                        size="sm"
-                        className="border-[var(--border)]"
-                      >
-                        <CheckCircle className="w-3 h-3 mr-1" />
-                        Tests
-                      </Button>
-                      <Button
-                        onClick={() => downloadWorkflow('deployment')}
-                        variant="outline"
-                        size="sm"
-                        className="border-[var(--border)]"
-                      >
-                        <Settings className="w-3 h-3 mr-1" />
-                        Deploy
-                      </Button>
-                      <Button
-                        onClick={() => downloadWorkflow('all')}
-                        className="bg-[var(--ff-secondary)] hover:bg-[var(--ff-secondary-600)] text-white"
-                        size="sm"
-                      >
-                        <Download className="w-3 h-3 mr-1" />
-                        All
-                      </Button>
+                    {project.warnings.length > 0 && (
+                      <Alert className="border-[var(--ff-warning)] bg-[var(--ff-warning)]/10">
+                        <AlertTriangle className="h-4 w-4 text-[var(--ff-warning)]" />
+                        <AlertDescription className="text-[var(--ff-text-secondary)]">
+                          <ul className="list-disc ml-5">
+                            {project.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                          </ul>
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    <div className="flex flex-wrap gap-2">
+                      {project.files.map(file => (
+                        <Button
+                          key={file.path}
+                          variant={file.path === previewPath ? 'default' : 'outline'}
+                          size="sm"
+                          className={file.path === previewPath ? 'bg-[var(--ff-primary)] text-white' : 'border-[var(--border)]'}
+                          onClick={() => setPreviewPath(file.path)}
+                        >
+                          <FileCode className="w-3 h-3 mr-1" />
+                          {file.path}
+                        </Button>
+                      ))}
                     </div>
 
-                    <div className="p-4 bg-[var(--ff-surface)] rounded-lg border border-[var(--border)]">
-                      <h4 className="text-sm font-semibold text-[var(--ff-text-primary)] mb-2">Workflow Summary</h4>
-                      <div className="grid grid-cols-2 gap-4 text-xs">
-                        <div>
-                          <span className="text-[var(--ff-text-muted)]">Type:</span>
-                          <span className="text-[var(--ff-text-primary)] ml-2 capitalize">{generatedWorkflow.config.type}</span>
-                        </div>
-                        <div>
-                          <span className="text-[var(--ff-text-muted)]">Generated:</span>
-                          <span className="text-[var(--ff-text-primary)] ml-2">{generatedWorkflow.timestamp.toLocaleString()}</span>
-                        </div>
-                        <div>
-                          <span className="text-[var(--ff-text-muted)]">Model:</span>
-                          <span className="text-[var(--ff-text-primary)] ml-2">{langchainModel}</span>
-                        </div>
-                        <div>
-                          <span className="text-[var(--ff-text-muted)]">Chains:</span>
-                          <span className="text-[var(--ff-text-primary)] ml-2">{langchainChains.length || 2}</span>
-                        </div>
+                    {previewFile && (
+                      <div className="space-y-2">
+                        <pre className="max-h-96 overflow-auto p-4 bg-[var(--ff-surface)] rounded-lg border border-[var(--border)] text-xs text-[var(--ff-text-primary)]">
+                          {previewFile.content}
+                        </pre>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="border-[var(--border)]"
+                          onClick={() => downloadFile(previewFile.path, previewFile.content)}
+                        >
+                          <Download className="w-3 h-3 mr-1" />
+                          {previewFile.path.split('/').pop()}
+                        </Button>
                       </div>
-                    </div>
+                    )}
+
+                    <Button
+                      onClick={downloadProject}
+                      className="bg-[var(--ff-secondary)] hover:bg-[var(--ff-secondary-600)] text-white"
+                    >
+                      <Download className="w-4 h-4 mr-2" />
+                      Download project (.zip)
+                    </Button>
                   </CardContent>
                 </Card>
               )}
@@ -855,14 +473,123 @@ ${generatedWorkflow.examples.join('\n\n')}
                   <strong className="text-[var(--ff-secondary)]">Graph Workflow:</strong> Build node-based processing pipelines with conditional logic and data flow.
                 </AlertDescription>
               </Alert>
-              
-              <div className="text-center py-12">
-                <Network className="w-16 h-16 text-[var(--ff-text-muted)] mx-auto mb-4" />
-                <h3 className="text-lg font-semibold text-[var(--ff-text-primary)] mb-2">Graph Workflow Builder</h3>
-                <p className="text-[var(--ff-text-muted)] mb-4">Coming soon in the next update</p>
-                <Button variant="outline" className="border-[var(--border)]">
-                  Request Early Access
-                </Button>
+
+              {importWarnings.length > 0 && (
+                <Alert className="border-[var(--ff-warning)] bg-[var(--ff-warning)]/10">
+                  <AlertTriangle className="h-4 w-4 text-[var(--ff-warning)]" />
+                  <AlertDescription className="text-[var(--ff-text-secondary)]">
+                    <strong className="text-[var(--ff-warning)]">Imported with warnings:</strong>
+                    <ul className="list-disc ml-5 mt-1">
+                      {importWarnings.map(warning => <li key={warning}>{warning}</li>)}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {STEP_TYPES.map(step => (
+                  <Button key={step.type} variant="outline" size="sm" className="border-[var(--border)]" onClick={() => addNode(step.type)}>
+                    <Plus className="w-3 h-3 mr-1" />
+                    {step.label}
+                  </Button>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                <Card className="bg-[var(--ff-surface-light)] border-[var(--border)]">
+                  <CardHeader>
+                    <CardTitle className="text-[var(--ff-text-primary)]">Steps</CardTitle>
+                    <CardDescription className="text-[var(--ff-text-muted)]">
+                      Select a step to edit it. New steps connect after the selected one.
+                    </CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    {graph.nodes.length === 0 && (
+                      <p className="text-sm text-[var(--ff-text-muted)]">Add a trigger to start.</p>
+                    )}
+                    {graph.nodes.map(node => (
+                      <div
+                        key={node.id}
+                        onClick={() => setSelectedNodeId(node.id)}
+                        className={`p-3 rounded-lg border cursor-pointer ${
+                          node.id === selectedNodeId ? 'border-[var(--ff-primary)] bg-[var(--ff-primary)]/10' : 'border-[var(--border)]'
+                        }`}
+                      >
+                        <div className="flex items-center justify-between gap-2">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline" className="capitalize">{node.type}</Badge>
+                            <span className="text-sm font-medium text-[var(--ff-text-primary)]">{node.label}</span>
+                          </div>
+                          <span className="text-xs text-[var(--ff-text-muted)]">
+                            {outgoingEdges(graph, node.id)
+                              .map(edge => `${edge.branch ? `${edge.branch}: ` : ''}${labelOf(edge.target)}`)
+                              .join(', ') || 'end'}
+                          </span>
+                        </div>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+
+                {selectedNode ? (
+                  <Card className="bg-[var(--ff-surface-light)] border-[var(--border)]">
+                    <CardHeader>
+                      <div className="flex items-center justify-between">
+                        <CardTitle className="text-[var(--ff-text-primary)]">Step Settings</CardTitle>
+                        <Button variant="ghost" size="sm" onClick={() => removeNode(selectedNode.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </div>
+                    </CardHeader>
+                    <CardContent className="space-y-4">
+                      <div className="space-y-1">
+                        <Label className="text-xs">Label</Label>
+                        <Input value={selectedNode.label} onChange={(e) => updateNode(selectedNode.id, { label: e.target.value })} />
+                      </div>
+
+                      <WorkflowNodeConfigPanel
+                        type={selectedNode.type}
+                        config={panelConfig(selectedNode)}
+                        onChange={(config) => {
+                          const { retries, timeoutSeconds, ...rest } = config;
+                          updateNode(selectedNode.id, { config: rest, ...nodeRuntimeSettings(config) });
+                        }}
+                      />
+
+                      <div className="space-y-2">
+                        <Label className="text-xs">Connections</Label>
+                        {outgoingEdges(graph, selectedNode.id).map(edge => (
+                          <div key={edge.id} className="flex items-center justify-between text-sm">
+                            <span className="text-[var(--ff-text-secondary)]">
+                              {edge.branch && <Badge variant="outline" className="mr-2">{edge.branch}</Badge>}
+                              → {labelOf(edge.target)}
+                            </span>
+                            <Button variant="ghost" size="sm" onClick={() => removeEdge(edge.id)}>
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
+                        ))}
+                        <Select value="" onValueChange={(target) => addEdge(selectedNode.id, target)}>
+                          <SelectTrigger className="bg-[var(--ff-surface)] border-[var(--border)]">
+                            <SelectValue placeholder="Connect to…" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {graph.nodes
+                              .filter(node => node.id !== selectedNode.id && node.type !== 'trigger')
+                              .map(node => (
+                                <SelectItem key={node.id} value={node.id}>{node.label}</SelectItem>
+                              ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </CardContent>
+                  </Card>
+                ) : (
+                  <div className="text-center py-12">
+                    <Network className="w-16 h-16 text-[var(--ff-text-muted)] mx-auto mb-4" />
+                    <p className="text-[var(--ff-text-muted)]">Select a step to configure it</p>
+                  </div>
+                )}
               </div>
             </TabsContent>
 
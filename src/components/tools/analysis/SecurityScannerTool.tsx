@@ -7,21 +7,19 @@
  * 
  * FLASHFUSION - SECURITY SCANNER PRO
  * 
- * Comprehensive security analysis for vulnerabilities, compliance checks, 
- * and penetration testing based on industry-leading practices.
+ * Static security analysis of uploaded code or a GitHub repository, run by
+ * the scanner in utils/security-scan.
  * 
  * Features:
- * - OWASP Top 10 vulnerability scanning
- * - Dependency vulnerability audit
- * - Compliance checks (SOC 2, PCI DSS, GDPR)
- * - Penetration testing simulation
- * - Code security analysis
- * - Automated security reports
- * - Continuous monitoring setup
+ * - Injection, XSS, eval and insecure crypto rules mapped to the OWASP Top 10
+ * - Secret detection (known key formats and high-entropy credentials)
+ * - Dependency audit of npm, Yarn and pnpm lockfiles against an offline advisory database
+ * - Compliance checks (SOC 2, PCI DSS, GDPR) for the controls code can evidence
+ * - SARIF export for GitHub code scanning and IDEs
  * - Security remediation guidance
  */
 
-import React, { useState, useCallback } from 'react';
+import React, { useState, useCallback, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '../../ui/card';
 import { Button } from '../../ui/button';
 import { Input } from '../../ui/input';
@@ -53,100 +51,44 @@ import {
   TrendingUp,
   BarChart3,
   Target,
-  Settings
+  Settings,
+  Upload,
+  Package,
+  FileCode
 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
+import { IntegrationService } from '../../../services/IntegrationService';
+import type { ScanFile, SecurityScanResult } from '../../../types/security-scan';
+import { readUploadedFiles, scanFiles, toSarif, type ScanType } from '../../../utils/security-scan';
 
-interface SecurityScanResult {
-  overall_score: number;
-  vulnerabilities: SecurityVulnerability[];
-  compliance: ComplianceCheck[];
-  dependencies: DependencyIssue[];
-  recommendations: SecurityRecommendation[];
-  scan_metadata: {
-    scan_type: string;
-    duration: number;
-    files_scanned: number;
-    started_at: number;
-    completed_at: number;
-  };
-}
-
-interface SecurityVulnerability {
-  id: string;
-  severity: 'critical' | 'high' | 'medium' | 'low';
-  category: string;
-  cwe_id: string;
-  title: string;
-  description: string;
-  affected_files: string[];
-  remediation: string;
-  references: string[];
-  exploitability: number;
-  impact: number;
-}
-
-interface ComplianceCheck {
-  standard: string;
-  status: 'compliant' | 'non_compliant' | 'partial';
-  requirements_met: number;
-  total_requirements: number;
-  details: string[];
-}
-
-interface DependencyIssue {
-  package: string;
-  version: string;
-  vulnerability: string;
-  severity: 'critical' | 'high' | 'medium' | 'low';
-  fix_available: boolean;
-  recommended_version: string;
-}
-
-interface SecurityRecommendation {
-  priority: 'high' | 'medium' | 'low';
-  category: string;
-  title: string;
-  description: string;
-  implementation_effort: string;
-  security_impact: string;
-}
-
-const SCAN_TYPES = [
+const SCAN_TYPES: Array<{ value: ScanType; label: string; description: string; checks: string; depth: string }> = [
   { 
     value: 'comprehensive', 
     label: 'Comprehensive Scan', 
     description: 'Full security assessment including OWASP Top 10, dependencies, and compliance',
-    duration: '10-15 minutes',
+    checks: 'Code rules, secrets and dependencies',
     depth: 'Deep'
   },
   { 
     value: 'quick', 
     label: 'Quick Scan', 
     description: 'Rapid security check for critical vulnerabilities',
-    duration: '2-3 minutes',
+    checks: 'Critical and high findings only',
     depth: 'Surface'
   },
   { 
     value: 'dependency', 
     label: 'Dependency Audit', 
-    description: 'Focus on third-party package vulnerabilities',
-    duration: '1-2 minutes',
+    description: 'Match lockfile versions against the bundled advisory database',
+    checks: 'Lockfiles and package.json',
     depth: 'Focused'
   },
   { 
     value: 'compliance', 
     label: 'Compliance Check', 
-    description: 'Verify adherence to security standards (SOC 2, PCI DSS)',
-    duration: '5-8 minutes',
+    description: 'Map code findings to the controls of the selected standards',
+    checks: 'All checks, mapped to controls',
     depth: 'Regulatory'
-  },
-  { 
-    value: 'penetration', 
-    label: 'Penetration Test', 
-    description: 'Simulated attacks to test security defenses',
-    duration: '15-20 minutes',
-    depth: 'Intensive'
   }
 ];
 
@@ -159,23 +101,29 @@ const COMPLIANCE_STANDARDS = [
   { value: 'iso27001', label: 'ISO 27001', description: 'Information security management' }
 ];
 
+/** Locations listed per vulnerability; the SARIF export has all of them */
+const MAX_LISTED_LOCATIONS = 5;
+
 export function SecurityScannerTool(): JSX.Element {
-  const [scanType, setScanType] = useState('comprehensive');
-  const [targetUrl, setTargetUrl] = useState('');
+  const [scanType, setScanType] = useState<ScanType>('comprehensive');
+  const [repositoryUrl, setRepositoryUrl] = useState('');
+  const [uploadedFiles, setUploadedFiles] = useState<File[]>([]);
   const [selectedStandards, setSelectedStandards] = useState(['owasp-top-10']);
   const [includeSourceCode, setIncludeSourceCode] = useState(true);
   const [includeDependencies, setIncludeDependencies] = useState(true);
   const [isScanning, setIsScanning] = useState(false);
   const [progress, setProgress] = useState(0);
+  const [progressStage, setProgressStage] = useState('');
   const [scanResults, setScanResults] = useState<SecurityScanResult | null>(null);
   const [activeTab, setActiveTab] = useState('configure');
+  const fileInputRef = useRef<HTMLInputElement>(null);
 
   /**
    * Handle security scan
    */
   const handleStartScan = useCallback(async (): Promise<void> => {
-    if (!targetUrl.trim() && scanType !== 'dependency') {
-      toast.error('Please provide a target URL or codebase');
+    if (uploadedFiles.length === 0 && !repositoryUrl.trim()) {
+      toast.error('Upload files or a .zip, or enter a GitHub repository URL');
       return;
     }
 
@@ -184,38 +132,52 @@ export function SecurityScannerTool(): JSX.Element {
     setActiveTab('results');
 
     try {
-      const selectedScanType = SCAN_TYPES.find(s => s.value === scanType);
-      
-      // Simulate security scanning
-      const steps = [
-        'Initializing security scanner...',
-        'Analyzing application structure...',
-        'Checking for OWASP Top 10 vulnerabilities...',
-        'Auditing dependencies for known CVEs...',
-        'Testing authentication mechanisms...',
-        'Analyzing data handling practices...',
-        'Checking compliance requirements...',
-        'Generating security recommendations...',
-        'Finalizing scan report...'
-      ];
-
-      for (let i = 0; i < steps.length; i++) {
-        setProgress(((i + 1) / steps.length) * 100);
-        await new Promise(resolve => setTimeout(resolve, 800));
+      let files: ScanFile[];
+      if (uploadedFiles.length > 0) {
+        setProgressStage('Reading uploaded files...');
+        files = await readUploadedFiles(uploadedFiles);
+      } else {
+        setProgressStage('Downloading repository...');
+        files = await IntegrationService.fetchRepositoryFiles(repositoryUrl.trim());
+      }
+      if (files.length === 0) {
+        throw new Error('No scannable files found');
       }
 
-      // Generate mock scan results
-      const results = generateMockScanResults(scanType, selectedStandards);
+      setProgress(20);
+      setProgressStage(`Scanning ${files.length} files...`);
+      const results = await scanFiles(files, {
+        scanType,
+        standards: selectedStandards,
+        includeSourceCode,
+        includeDependencies,
+        onProgress: (scanned, total) => setProgress(20 + Math.round((scanned / total) * 80))
+      });
       setScanResults(results);
-      
-      toast.success(`Security scan completed! Found ${results.vulnerabilities.length} issues.`);
+
+      toast.success(`Security scan completed! Found ${results.vulnerabilities.length + results.dependencies.length} issues.`);
     } catch (error) {
-      toast.error('Security scan failed. Please try again.');
+      toast.error(error instanceof Error ? `Security scan failed: ${error.message}` : 'Security scan failed. Please try again.');
     } finally {
       setIsScanning(false);
       setProgress(0);
+      setProgressStage('');
     }
-  }, [targetUrl, scanType, selectedStandards]);
+  }, [uploadedFiles, repositoryUrl, scanType, selectedStandards, includeSourceCode, includeDependencies]);
+
+  /**
+   * Download the results as SARIF
+   */
+  const handleExportSarif = useCallback((): void => {
+    if (!scanResults) return;
+    const blob = new Blob([JSON.stringify(toSarif(scanResults), null, 2)], { type: 'application/sarif+json' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `security-scan-${new Date(scanResults.scan_metadata.completed_at).toISOString().slice(0, 10)}.sarif`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }, [scanResults]);
 
   /**
    * Get severity color
@@ -336,7 +298,7 @@ export function SecurityScannerTool(): JSX.Element {
                             <p className="text-xs text-[var(--ff-text-muted)]">{scan.description}</p>
                           </div>
                           <div className="text-right">
-                            <div className="text-xs text-[var(--ff-text-muted)]">{scan.duration}</div>
+                            <div className="text-xs text-[var(--ff-text-muted)]">{scan.checks}</div>
                             <Badge variant="outline" className="text-xs mt-1">
                               {scan.depth}
                             </Badge>
@@ -348,13 +310,41 @@ export function SecurityScannerTool(): JSX.Element {
                 </div>
 
                 <div className="space-y-2">
-                  <Label className="text-sm font-semibold">Target URL or Repository</Label>
-                  <Input
-                    placeholder="https://example.com or github.com/user/repo"
-                    value={targetUrl}
-                    onChange={(e) => setTargetUrl(e.target.value)}
-                    className="ff-input"
+                  <Label className="text-sm font-semibold">Code to Scan</Label>
+                  <div className="flex items-center gap-2">
+                    <Button variant="outline" onClick={() => fileInputRef.current?.click()} disabled={isScanning}>
+                      <Upload className="h-4 w-4 mr-2" />
+                      Upload Files or .zip
+                    </Button>
+                    {uploadedFiles.length > 0 && (
+                      <Button variant="ghost" size="sm" onClick={() => setUploadedFiles([])} className="ff-btn-ghost">
+                        <XCircle className="h-4 w-4 mr-1" />
+                        Clear
+                      </Button>
+                    )}
+                  </div>
+                  <input
+                    ref={fileInputRef}
+                    type="file"
+                    multiple
+                    onChange={(e) => {
+                      setUploadedFiles(Array.from(e.target.files ?? []));
+                      e.target.value = '';
+                    }}
+                    className="hidden"
                   />
+                  {uploadedFiles.length > 0 ? (
+                    <p className="text-xs text-[var(--ff-text-muted)]">
+                      {uploadedFiles.length === 1 ? uploadedFiles[0].name : `${uploadedFiles.length} files selected`}
+                    </p>
+                  ) : (
+                    <Input
+                      placeholder="or a GitHub repository: github.com/user/repo"
+                      value={repositoryUrl}
+                      onChange={(e) => setRepositoryUrl(e.target.value)}
+                      className="ff-input"
+                    />
+                  )}
                 </div>
 
                 <div className="space-y-4">
@@ -398,11 +388,11 @@ export function SecurityScannerTool(): JSX.Element {
                       What will be scanned:
                     </h4>
                     <div className="space-y-2 text-sm text-[var(--ff-text-secondary)]">
-                      {scanType === 'comprehensive' && (
+                      {(scanType === 'comprehensive' || scanType === 'compliance') && (
                         <>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
-                            <span>OWASP Top 10 vulnerabilities</span>
+                            <span>Injection, XSS and eval sinks</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
@@ -410,15 +400,15 @@ export function SecurityScannerTool(): JSX.Element {
                           </div>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
-                            <span>Configuration security</span>
+                            <span>TLS and CORS configuration</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
-                            <span>Authentication & authorization</span>
+                            <span>Hardcoded secrets and token settings</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
-                            <span>Data protection measures</span>
+                            <span>Weak cryptography</span>
                           </div>
                         </>
                       )}
@@ -426,7 +416,7 @@ export function SecurityScannerTool(): JSX.Element {
                         <>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
-                            <span>Critical vulnerabilities only</span>
+                            <span>Critical and high findings only</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
@@ -438,11 +428,11 @@ export function SecurityScannerTool(): JSX.Element {
                         <>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
-                            <span>NPM/PyPI/Maven packages</span>
+                            <span>npm, Yarn and pnpm lockfiles</span>
                           </div>
                           <div className="flex items-center gap-2">
                             <CheckCircle className="h-4 w-4 text-green-500" />
-                            <span>Known CVE database lookup</span>
+                            <span>Offline CVE advisory lookup</span>
                           </div>
                         </>
                       )}
@@ -451,8 +441,8 @@ export function SecurityScannerTool(): JSX.Element {
 
                   <div className="grid grid-cols-2 gap-4 text-sm">
                     <div>
-                      <span className="text-[var(--ff-text-muted)]">Estimated Duration:</span>
-                      <div className="font-medium">{selectedScanType.duration}</div>
+                      <span className="text-[var(--ff-text-muted)]">Checks:</span>
+                      <div className="font-medium">{selectedScanType.checks}</div>
                     </div>
                     <div>
                       <span className="text-[var(--ff-text-muted)]">Scan Depth:</span>
@@ -526,7 +516,7 @@ export function SecurityScannerTool(): JSX.Element {
                       Security Scan in Progress
                     </h3>
                     <p className="text-[var(--ff-text-secondary)]">
-                      Analyzing your application for security vulnerabilities...
+                      {progressStage || 'Analyzing your code for security vulnerabilities...'}
                     </p>
                   </div>
                   <div className="w-full max-w-md mx-auto">
@@ -543,9 +533,15 @@ export function SecurityScannerTool(): JSX.Element {
               {/* Security Score */}
               <Card className="ff-card">
                 <CardHeader>
-                  <CardTitle className="flex items-center gap-2">
-                    <BarChart3 className="h-5 w-5 text-[var(--ff-primary)]" />
-                    Security Assessment
+                  <CardTitle className="flex items-center justify-between">
+                    <span className="flex items-center gap-2">
+                      <BarChart3 className="h-5 w-5 text-[var(--ff-primary)]" />
+                      Security Assessment
+                    </span>
+                    <Button variant="outline" size="sm" onClick={handleExportSarif}>
+                      <Download className="h-4 w-4 mr-2" />
+                      Export SARIF
+                    </Button>
                   </CardTitle>
                 </CardHeader>
                 <CardContent>
@@ -592,7 +588,11 @@ export function SecurityScannerTool(): JSX.Element {
                       <div className="text-center py-8">
                         <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
                         <h3 className="font-semibold text-green-600 mb-2">No Vulnerabilities Found</h3>
-                        <p className="text-[var(--ff-text-secondary)]">Your application appears to be secure!</p>
+                        <p className="text-[var(--ff-text-secondary)]">
+                          {scanResults.scan_metadata.scan_type === 'dependency'
+                            ? 'Source code was not analyzed in a dependency audit'
+                            : 'No code matched the scanner rules. Pattern rules cannot rule out logic or access control flaws.'}
+                        </p>
                       </div>
                     ) : (
                       scanResults.vulnerabilities.map((vuln) => (
@@ -611,6 +611,9 @@ export function SecurityScannerTool(): JSX.Element {
                                     <Badge variant="outline" className="text-xs">
                                       {vuln.cwe_id}
                                     </Badge>
+                                    <Badge variant="outline" className="text-xs">
+                                      OWASP {vuln.owasp}
+                                    </Badge>
                                   </div>
                                   <h4 className="font-semibold text-[var(--ff-text-primary)] mb-1">
                                     {vuln.title}
@@ -630,15 +633,23 @@ export function SecurityScannerTool(): JSX.Element {
                                 <p className="text-sm text-blue-700">{vuln.remediation}</p>
                               </div>
 
-                              {vuln.affected_files.length > 0 && (
+                              {vuln.locations.length > 0 && (
                                 <div>
-                                  <div className="text-xs font-semibold text-[var(--ff-text-muted)] mb-1">Affected Files:</div>
-                                  <div className="flex flex-wrap gap-1">
-                                    {vuln.affected_files.map((file, index) => (
-                                      <Badge key={index} variant="outline" className="text-xs font-mono">
-                                        {file}
-                                      </Badge>
+                                  <div className="text-xs font-semibold text-[var(--ff-text-muted)] mb-1">
+                                    Locations ({vuln.locations.length}) in {vuln.affected_files.length} file{vuln.affected_files.length === 1 ? '' : 's'}:
+                                  </div>
+                                  <div className="space-y-1">
+                                    {vuln.locations.slice(0, MAX_LISTED_LOCATIONS).map((location, index) => (
+                                      <div key={index} className="text-xs font-mono bg-[var(--ff-surface)]/50 rounded p-2">
+                                        <div className="text-[var(--ff-text-muted)]">{location.file}:{location.line}:{location.column}</div>
+                                        <div className="text-[var(--ff-text-primary)] truncate">{location.snippet}</div>
+                                      </div>
                                     ))}
+                                    {vuln.locations.length > MAX_LISTED_LOCATIONS && (
+                                      <p className="text-xs text-[var(--ff-text-muted)]">
+                                        and {vuln.locations.length - MAX_LISTED_LOCATIONS} more (see the SARIF export)
+                                      </p>
+                                    )}
                                   </div>
                                 </div>
                               )}
@@ -650,6 +661,96 @@ export function SecurityScannerTool(): JSX.Element {
                   </div>
                 </CardContent>
               </Card>
+
+              {/* Dependencies */}
+              <Card className="ff-card">
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Package className="h-5 w-5 text-orange-500" />
+                    Vulnerable Dependencies ({scanResults.dependencies.length})
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  {scanResults.dependencies.length === 0 ? (
+                    <p className="text-sm text-[var(--ff-text-secondary)]">
+                      No locked or declared package version matches a known advisory.
+                    </p>
+                  ) : (
+                    <div className="space-y-3">
+                      {scanResults.dependencies.map((dep) => (
+                        <div
+                          key={`${dep.manifest}-${dep.package}-${dep.version}-${dep.advisory_id}`}
+                          className="flex items-start justify-between gap-4 border-b border-[var(--ff-surface)] pb-3 last:border-0"
+                        >
+                          <div className="space-y-1">
+                            <div className="flex items-center gap-2">
+                              <Badge className={`text-xs ${getSeverityColor(dep.severity)}`}>
+                                {dep.severity.toUpperCase()}
+                              </Badge>
+                              <span className="font-mono text-sm text-[var(--ff-text-primary)]">{dep.package}@{dep.version}</span>
+                            </div>
+                            <p className="text-sm text-[var(--ff-text-secondary)]">
+                              <a href={dep.references[0]} target="_blank" rel="noopener noreferrer" className="underline">
+                                {dep.advisory_id}
+                              </a>
+                              : {dep.vulnerability}
+                            </p>
+                            <p className="text-xs font-mono text-[var(--ff-text-muted)]">{dep.manifest}</p>
+                          </div>
+                          <div className="text-right text-xs whitespace-nowrap">
+                            {dep.fix_available ? (
+                              <>
+                                <div className="text-[var(--ff-text-muted)]">Upgrade to</div>
+                                <div className="font-mono font-semibold text-green-600">{dep.recommended_version}</div>
+                              </>
+                            ) : (
+                              <div className="text-[var(--ff-text-muted)]">{dep.recommended_version}</div>
+                            )}
+                          </div>
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+
+              {/* Compliance */}
+              {scanResults.compliance.length > 0 && (
+                <Card className="ff-card">
+                  <CardHeader>
+                    <CardTitle className="flex items-center gap-2">
+                      <FileCode className="h-5 w-5 text-[var(--ff-accent)]" />
+                      Compliance
+                    </CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    {scanResults.compliance.map((check) => (
+                      <div key={check.standard} className="space-y-2">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2">
+                            {check.status === 'compliant' ? (
+                              <CheckCircle className="h-4 w-4 text-green-500" />
+                            ) : check.status === 'non_compliant' ? (
+                              <XCircle className="h-4 w-4 text-red-500" />
+                            ) : (
+                              <AlertTriangle className="h-4 w-4 text-yellow-500" />
+                            )}
+                            <span className="font-semibold text-sm text-[var(--ff-text-primary)]">{check.standard}</span>
+                          </div>
+                          <span className="text-xs text-[var(--ff-text-muted)]">
+                            {check.requirements_met}/{check.total_requirements} automated checks passed
+                          </span>
+                        </div>
+                        <ul className="text-xs text-[var(--ff-text-secondary)] space-y-1 pl-6 list-disc">
+                          {check.details.map((detail, index) => (
+                            <li key={index}>{detail}</li>
+                          ))}
+                        </ul>
+                      </div>
+                    ))}
+                  </CardContent>
+                </Card>
+              )}
             </div>
           ) : (
             <div className="text-center py-12 space-y-4">
@@ -678,6 +779,11 @@ export function SecurityScannerTool(): JSX.Element {
             <CardContent>
               {scanResults ? (
                 <div className="space-y-4">
+                  {scanResults.recommendations.length === 0 && (
+                    <p className="text-sm text-[var(--ff-text-secondary)]">
+                      The last scan found nothing to remediate.
+                    </p>
+                  )}
                   {scanResults.recommendations.map((rec, index) => (
                     <Card key={index} className="ff-card">
                       <CardContent className="pt-6">
@@ -735,86 +841,3 @@ export function SecurityScannerTool(): JSX.Element {
     </div>
   );
 }
-
-/**
- * Generate mock security scan results
- */
-function generateMockScanResults(scanType: string, standards: string[]): SecurityScanResult {
-  const vulnerabilities: SecurityVulnerability[] = [
-    {
-      id: '1',
-      severity: 'high',
-      category: 'Injection',
-      cwe_id: 'CWE-89',
-      title: 'SQL Injection Vulnerability',
-      description: 'Application may be vulnerable to SQL injection attacks through user input fields',
-      affected_files: ['src/api/users.ts', 'src/api/auth.ts'],
-      remediation: 'Use parameterized queries or ORM with built-in protection',
-      references: ['https://owasp.org/www-community/attacks/SQL_Injection'],
-      exploitability: 8,
-      impact: 9
-    },
-    {
-      id: '2',
-      severity: 'medium',
-      category: 'Authentication',
-      cwe_id: 'CWE-287',
-      title: 'Weak Password Policy',
-      description: 'Password requirements do not meet security standards',
-      affected_files: ['src/components/auth/SignUp.tsx'],
-      remediation: 'Implement stronger password requirements (12+ characters, mixed case, symbols)',
-      references: ['https://owasp.org/www-project-authentication-cheat-sheet/'],
-      exploitability: 6,
-      impact: 7
-    }
-  ];
-
-  return {
-    overall_score: Math.floor(Math.random() * 30) + 60,
-    vulnerabilities,
-    compliance: standards.map(standard => ({
-      standard,
-      status: Math.random() > 0.3 ? 'compliant' : 'partial',
-      requirements_met: Math.floor(Math.random() * 10) + 15,
-      total_requirements: 25,
-      details: [`${standard} assessment completed`]
-    })),
-    dependencies: [
-      {
-        package: 'lodash',
-        version: '4.17.20',
-        vulnerability: 'Prototype Pollution',
-        severity: 'high',
-        fix_available: true,
-        recommended_version: '4.17.21'
-      }
-    ],
-    recommendations: [
-      {
-        priority: 'high',
-        category: 'Authentication',
-        title: 'Implement Multi-Factor Authentication',
-        description: 'Add MFA to critical user accounts to prevent unauthorized access',
-        implementation_effort: '1-2 weeks',
-        security_impact: 'High - Significantly reduces account takeover risk'
-      },
-      {
-        priority: 'medium',
-        category: 'Data Protection',
-        title: 'Enable Database Encryption at Rest',
-        description: 'Encrypt sensitive data stored in the database',
-        implementation_effort: '3-5 days',
-        security_impact: 'Medium - Protects data in case of database breach'
-      }
-    ],
-    scan_metadata: {
-      scan_type: scanType,
-      duration: Math.floor(Math.random() * 300) + 60,
-      files_scanned: Math.floor(Math.random() * 200) + 50,
-      started_at: Date.now() - 300000,
-      completed_at: Date.now()
-    }
-  };
-}
-
-export default SecurityScannerTool;
\ No newline at end of file
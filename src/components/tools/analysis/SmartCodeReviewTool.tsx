@@ -56,84 +56,9 @@ import {
   HelpCircle
 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
-
-/**
- * Code Review Result Interface
- */
-interface CodeReviewResult {
-  overall_score: number;
-  security_issues: SecurityIssue[];
-  performance_issues: PerformanceIssue[];
-  quality_issues: QualityIssue[];
-  best_practices: BestPracticeIssue[];
-  suggestions: AutoFixSuggestion[];
-  metrics: CodeMetrics;
-  learning_points: LearningPoint[];
-}
-
-interface SecurityIssue {
-  id: string;
-  severity: 'critical' | 'high' | 'medium' | 'low';
-  type: string;
-  line: number;
-  description: string;
-  fix_suggestion: string;
-  cwe_id?: string;
-  references: string[];
-}
-
-interface PerformanceIssue {
-  id: string;
-  impact: 'high' | 'medium' | 'low';
-  type: string;
-  line: number;
-  description: string;
-  suggestion: string;
-  estimated_improvement: string;
-}
-
-interface QualityIssue {
-  id: string;
-  category: 'maintainability' | 'readability' | 'complexity' | 'duplication';
-  severity: 'error' | 'warning' | 'info';
-  line: number;
-  description: string;
-  suggestion: string;
-}
-
-interface BestPracticeIssue {
-  id: string;
-  practice: string;
-  description: string;
-  line?: number;
-  recommendation: string;
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
-}
-
-interface AutoFixSuggestion {
-  id: string;
-  type: 'security' | 'performance' | 'quality';
-  description: string;
-  before: string;
-  after: string;
-  confidence: number;
-}
-
-interface CodeMetrics {
-  lines_of_code: number;
-  cyclomatic_complexity: number;
-  maintainability_index: number;
-  test_coverage: number;
-  code_duplication: number;
-  technical_debt: string;
-}
-
-interface LearningPoint {
-  concept: string;
-  explanation: string;
-  resources: string[];
-  difficulty: 'beginner' | 'intermediate' | 'advanced';
-}
+import AIService from '../../../services/AIService';
+import { analyzeCode, codeAnalyzers, describeFindings } from '../../../utils/code-analysis';
+import type { AutoFixSuggestion, CodeReviewResult } from '../../../types/code-review';
 
 const PROGRAMMING_LANGUAGES = [
   { value: 'javascript', label: 'JavaScript', icon: '🟨' },
@@ -184,30 +109,45 @@ export function SmartCodeReviewTool(): JSX.Element {
       toast.error('Please enter some code to analyze');
       return;
     }
+    if (!codeAnalyzers.supports(language)) {
+      toast.error(`Static analysis isn't available for ${language} yet`);
+      return;
+    }
 
     setIsAnalyzing(true);
     setAnalysisProgress(0);
     setResults(null);
 
     try {
-      // Simulate progressive analysis
-      const steps = [
-        'Parsing code structure...',
-        'Analyzing security vulnerabilities...',
-        'Checking performance patterns...',
-        'Evaluating code quality...',
-        'Generating suggestions...',
-        'Finalizing report...'
-      ];
-
-      for (let i = 0; i < steps.length; i++) {
-        setAnalysisProgress((i + 1) / steps.length * 100);
-        await new Promise(resolve => setTimeout(resolve, 1000));
+      const analysis = await analyzeCode(code, language);
+      setAnalysisProgress(50);
+
+      const review: CodeReviewResult = {
+        overall_score: analysis.overall_score,
+        security_issues: [],
+        performance_issues: analysis.performance_issues,
+        quality_issues: analysis.quality_issues,
+        best_practices: analysis.best_practices,
+        suggestions: [],
+        metrics: analysis.metrics,
+        learning_points: []
+      };
+
+      const findingCount =
+        analysis.quality_issues.length + analysis.performance_issues.length + analysis.best_practices.length;
+      if ((learningMode || autoFix) && findingCount > 0) {
+        try {
+          const focus = REVIEW_STANDARDS.find(std => std.value === reviewStandard)?.description ?? reviewStandard;
+          const explanation = await AIService.explainCodeReview(code, language, describeFindings(analysis), focus);
+          review.suggestions = explanation.suggestions;
+          review.learning_points = explanation.learning_points;
+        } catch {
+          toast.warning('Showing the static analysis only: AI explanations are unavailable');
+        }
       }
 
-      // Generate mock analysis results
-      const mockResults: CodeReviewResult = await generateMockAnalysis(code, language, reviewStandard);
-      setResults(mockResults);
+      setAnalysisProgress(100);
+      setResults(review);
       setActiveTab('overview');
       
       toast.success('Code analysis completed successfully!');
@@ -219,7 +159,7 @@ export function SmartCodeReviewTool(): JSX.Element {
       setIsAnalyzing(false);
       setAnalysisProgress(0);
     }
-  }, [code, language, reviewStandard]);
+  }, [code, language, reviewStandard, learningMode, autoFix]);
 
   /**
    * Handle copying code fixes
@@ -299,7 +239,7 @@ export function SmartCodeReviewTool(): JSX.Element {
         
         <div className="flex items-center gap-3">
           <Badge variant="secondary" className="text-xs">
-            {PROGRAMMING_LANGUAGES.length} Languages Supported
+            {codeAnalyzers.languages().length} Languages Analyzed
           </Badge>
           <Button
             variant="outline"
@@ -331,10 +271,13 @@ export function SmartCodeReviewTool(): JSX.Element {
                 </SelectTrigger>
                 <SelectContent>
                   {PROGRAMMING_LANGUAGES.map((lang) => (
-                    <SelectItem key={lang.value} value={lang.value}>
+                    <SelectItem key={lang.value} value={lang.value} disabled={!codeAnalyzers.supports(lang.value)}>
                       <div className="flex items-center gap-2">
                         <span>{lang.icon}</span>
                         <span>{lang.label}</span>
+                        {!codeAnalyzers.supports(lang.value) && (
+                          <span className="text-xs text-[var(--ff-text-muted)]">coming soon</span>
+                        )}
                       </div>
                     </SelectItem>
                   ))}
@@ -494,12 +437,9 @@ function calculateTotal(items) {
             <div className="space-y-2">
               <Progress value={analysisProgress} className="w-full" />
               <div className="text-center text-sm text-[var(--ff-text-muted)]">
-                {analysisProgress < 20 && 'Parsing code structure...'}
-                {analysisProgress >= 20 && analysisProgress < 40 && 'Analyzing security vulnerabilities...'}
-                {analysisProgress >= 40 && analysisProgress < 60 && 'Checking performance patterns...'}
-                {analysisProgress >= 60 && analysisProgress < 80 && 'Evaluating code quality...'}
-                {analysisProgress >= 80 && analysisProgress < 95 && 'Generating suggestions...'}
-                {analysisProgress >= 95 && 'Finalizing report...'}
+                {analysisProgress < 50 && 'Parsing and measuring the code...'}
+                {analysisProgress >= 50 && analysisProgress < 100 && 'Explaining findings and generating fixes...'}
+                {analysisProgress >= 100 && 'Finalizing report...'}
               </div>
             </div>
           )}
@@ -649,7 +589,7 @@ function calculateTotal(items) {
                       </div>
                       <div className="text-center">
                         <div className="text-2xl font-bold text-[var(--ff-text-primary)]">
-                          {results.metrics.test_coverage}%
+                          {results.metrics.test_coverage === null ? 'n/a' : `${results.metrics.test_coverage}%`}
                         </div>
                         <div className="text-sm text-[var(--ff-text-muted)]">Test Coverage</div>
                       </div>
@@ -675,8 +615,10 @@ function calculateTotal(items) {
                 {results.security_issues.length === 0 ? (
                   <div className="text-center py-8">
                     <Shield className="h-12 w-12 text-green-500 mx-auto mb-4" />
-                    <h3 className="font-semibold text-green-600 mb-2">No Security Issues Found</h3>
-                    <p className="text-[var(--ff-text-secondary)]">Your code appears to be secure!</p>
+                    <h3 className="font-semibold text-green-600 mb-2">No Security Issues Reported</h3>
+                    <p className="text-[var(--ff-text-secondary)]">
+                      The review measures quality and performance; use the Security Scanner for vulnerabilities.
+                    </p>
                   </div>
                 ) : (
                   results.security_issues.map((issue) => (
@@ -717,8 +659,99 @@ function calculateTotal(items) {
                 )}
               </TabsContent>
 
+              {/* Performance Tab */}
+              <TabsContent value="performance" className="space-y-4">
+                {results.performance_issues.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Zap className="h-12 w-12 text-green-500 mx-auto mb-4" />
+                    <h3 className="font-semibold text-green-600 mb-2">No Performance Issues Found</h3>
+                  </div>
+                ) : (
+                  results.performance_issues.map((issue) => (
+                    <Card key={issue.id} className="ff-card">
+                      <CardContent className="pt-6">
+                        <div className="flex items-center gap-2 mb-2">
+                          <Badge className={`text-xs ${getSeverityColor(issue.impact)}`}>
+                            {issue.impact.toUpperCase()}
+                          </Badge>
+                          <Badge variant="outline" className="text-xs">
+                            {issue.type}
+                          </Badge>
+                          <span className="text-xs text-[var(--ff-text-muted)]">Line {issue.line}</span>
+                        </div>
+                        <h4 className="font-semibold text-[var(--ff-text-primary)] mb-2">
+                          {issue.description}
+                        </h4>
+                        <p className="text-sm text-[var(--ff-text-secondary)] mb-1">{issue.suggestion}</p>
+                        <p className="text-xs text-[var(--ff-text-muted)]">{issue.estimated_improvement}</p>
+                      </CardContent>
+                    </Card>
+                  ))
+                )}
+              </TabsContent>
+
+              {/* Quality Tab */}
+              <TabsContent value="quality" className="space-y-4">
+                {results.quality_issues.length === 0 && results.best_practices.length === 0 && (
+                  <div className="text-center py-8">
+                    <Star className="h-12 w-12 text-green-500 mx-auto mb-4" />
+                    <h3 className="font-semibold text-green-600 mb-2">No Quality Issues Found</h3>
+                  </div>
+                )}
+                {results.quality_issues.map((issue) => (
+                  <Card key={issue.id} className="ff-card">
+                    <CardContent className="pt-6">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Badge className={`text-xs ${getSeverityColor(issue.severity)}`}>
+                          {issue.severity.toUpperCase()}
+                        </Badge>
+                        <Badge variant="outline" className="text-xs">
+                          {issue.category}
+                        </Badge>
+                        <span className="text-xs text-[var(--ff-text-muted)]">Line {issue.line}</span>
+                      </div>
+                      <h4 className="font-semibold text-[var(--ff-text-primary)] mb-2">
+                        {issue.description}
+                      </h4>
+                      <p className="text-sm text-[var(--ff-text-secondary)]">{issue.suggestion}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+                {results.best_practices.map((practice) => (
+                  <Card key={`practice-${practice.id}`} className="ff-card">
+                    <CardContent className="pt-6">
+                      <div className="flex items-center gap-2 mb-2">
+                        <Badge variant="outline" className="text-xs">
+                          {practice.practice}
+                        </Badge>
+                        <Badge variant="secondary" className="text-xs">
+                          {practice.difficulty}
+                        </Badge>
+                        {practice.line && (
+                          <span className="text-xs text-[var(--ff-text-muted)]">Line {practice.line}</span>
+                        )}
+                      </div>
+                      <h4 className="font-semibold text-[var(--ff-text-primary)] mb-2">
+                        {practice.description}
+                      </h4>
+                      <p className="text-sm text-[var(--ff-text-secondary)]">{practice.recommendation}</p>
+                    </CardContent>
+                  </Card>
+                ))}
+              </TabsContent>
+
               {/* Auto-Fix Suggestions Tab */}
               <TabsContent value="suggestions" className="space-y-4">
+                {results.suggestions.length === 0 && (
+                  <div className="text-center py-8">
+                    <Lightbulb className="h-12 w-12 text-[var(--ff-text-muted)] mx-auto mb-4" />
+                    <p className="text-[var(--ff-text-secondary)]">
+                      {learningMode || autoFix
+                        ? 'No fixes were proposed for these findings.'
+                        : 'Turn on Auto-Fix to have the AI propose fixes for the findings.'}
+                    </p>
+                  </div>
+                )}
                 {results.suggestions.map((suggestion) => (
                   <Card key={suggestion.id} className="ff-card">
                     <CardContent className="pt-6">
@@ -819,122 +852,6 @@ function calculateTotal(items) {
   );
 }
 
-/**
- * Generate mock analysis results for demonstration
- */
-async function generateMockAnalysis(
-  code: string, 
-  language: string, 
-  standard: string
-): Promise<CodeReviewResult> {
-  // This would call actual AI analysis services in production
-  const mockResults: CodeReviewResult = {
-    overall_score: Math.floor(Math.random() * 40) + 60,
-    security_issues: [
-      {
-        id: '1',
-        severity: 'high',
-        type: 'Input Validation',
-        line: 5,
-        description: 'Potential XSS vulnerability due to unvalidated user input',
-        fix_suggestion: 'Sanitize and validate all user inputs before processing',
-        cwe_id: 'CWE-79',
-        references: ['OWASP XSS Prevention', 'CWE-79']
-      },
-      {
-        id: '2',
-        severity: 'medium',
-        type: 'Weak Cryptography',
-        line: 12,
-        description: 'Using weak hashing algorithm MD5',
-        fix_suggestion: 'Use SHA-256 or bcrypt for password hashing',
-        references: ['OWASP Cryptographic Storage']
-      }
-    ],
-    performance_issues: [
-      {
-        id: '1',
-        impact: 'high',
-        type: 'Inefficient Loop',
-        line: 8,
-        description: 'Nested loop creating O(n²) complexity',
-        suggestion: 'Consider using a hash map for O(n) lookup',
-        estimated_improvement: '75% faster execution'
-      }
-    ],
-    quality_issues: [
-      {
-        id: '1',
-        category: 'maintainability',
-        severity: 'warning',
-        line: 15,
-        description: 'Function exceeds maximum recommended length',
-        suggestion: 'Break down into smaller, focused functions'
-      },
-      {
-        id: '2',
-        category: 'readability',
-        severity: 'info',
-        line: 3,
-        description: 'Variable name is not descriptive',
-        suggestion: 'Use meaningful variable names like "userCount" instead of "n"'
-      }
-    ],
-    best_practices: [
-      {
-        id: '1',
-        practice: 'Error Handling',
-        description: 'Missing error handling for async operations',
-        line: 20,
-        recommendation: 'Add try-catch blocks for async functions',
-        difficulty: 'beginner'
-      }
-    ],
-    suggestions: [
-      {
-        id: '1',
-        type: 'security',
-        description: 'Replace innerHTML with textContent',
-        before: 'element.innerHTML = userInput;',
-        after: 'element.textContent = userInput;',
-        confidence: 95
-      },
-      {
-        id: '2',
-        type: 'performance',
-        description: 'Use const instead of var for better performance',
-        before: 'var items = [];',
-        after: 'const items = [];',
-        confidence: 85
-      }
-    ],
-    metrics: {
-      lines_of_code: code.split('\n').length,
-      cyclomatic_complexity: Math.floor(Math.random() * 10) + 1,
-      maintainability_index: Math.floor(Math.random() * 40) + 60,
-      test_coverage: Math.floor(Math.random() * 60) + 20,
-      code_duplication: Math.floor(Math.random() * 20),
-      technical_debt: `${Math.floor(Math.random() * 5) + 1}h`
-    },
-    learning_points: [
-      {
-        concept: 'Input Validation',
-        explanation: 'Always validate and sanitize user inputs to prevent security vulnerabilities like XSS and injection attacks.',
-        resources: ['OWASP Input Validation Guide', 'JavaScript Input Sanitization'],
-        difficulty: 'beginner'
-      },
-      {
-        concept: 'Time Complexity',
-        explanation: 'Understanding Big O notation helps you write more efficient algorithms. Nested loops often indicate O(n²) complexity.',
-        resources: ['Big O Cheat Sheet', 'Algorithm Complexity Guide'],
-        difficulty: 'intermediate'
-      }
-    ]
-  };
-
-  return mockResults;
-}
-
 /**
  * Generate markdown report
  */
@@ -957,7 +874,7 @@ function generateReport(results: CodeReviewResult, code: string, language: strin
 - **Lines of Code:** ${results.metrics.lines_of_code}
 - **Cyclomatic Complexity:** ${results.metrics.cyclomatic_complexity}
 - **Maintainability Index:** ${results.metrics.maintainability_index}
-- **Test Coverage:** ${results.metrics.test_coverage}%
+- **Test Coverage:** ${results.metrics.test_coverage === null ? 'n/a' : `${results.metrics.test_coverage}%`}
 - **Code Duplication:** ${results.metrics.code_duplication}%
 - **Technical Debt:** ${results.metrics.technical_debt}
 
@@ -985,6 +902,26 @@ ${results.performance_issues.map(issue => `
 **Estimated Improvement:** ${issue.estimated_improvement}
 `).join('')}
 
+## Quality Issues
+
+${results.quality_issues.map(issue => `
+### ${issue.category} (Line ${issue.line}) - ${issue.severity.toUpperCase()}
+
+**Description:** ${issue.description}
+
+**Suggestion:** ${issue.suggestion}
+`).join('')}
+
+## Best Practices
+
+${results.best_practices.map(practice => `
+### ${practice.practice}${practice.line ? ` (Line ${practice.line})` : ''}
+
+**Description:** ${practice.description}
+
+**Recommendation:** ${practice.recommendation}
+`).join('')}
+
 ## Auto-Fix Suggestions
 
 ${results.suggestions.map(suggestion => `
@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo, useEffect } from 'react';
+import React, { useState, useCallback, useMemo, useEffect, useRef } from 'react';
 import { Button } from '../../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../ui/card';
 import { Badge } from '../../ui/badge';
@@ -19,6 +19,7 @@ import {
 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import AIService, { type AIModel } from '../../../services/AIService';
+import { isAbortError } from '../../../utils/sse-stream';
 import { AISetupWizard } from '../../onboarding/AISetupWizard';
 import { RepositoryIntegrationCard } from './RepositoryIntegrationCard';
 
@@ -104,10 +105,17 @@ const FEATURE_OPTIONS = [
   'CI/CD Pipeline',
 ];
 
+// Drop the opening markdown fence (and closing one, once streamed) from partial model output
+function stripCodeFence(text: string): string {
+  return text.replace(/^\s*```[\w-]*\n?/, '').replace(/\n?```\s*$/, '');
+}
+
 export function CodeGeneratorTool({ onBack }: CodeGeneratorToolProps) {
   const [activeTab, setActiveTab] = useState('generate');
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
+  const [streamedCode, setStreamedCode] = useState('');
+  const abortControllerRef = useRef<AbortController | null>(null);
   
   // Form state
   const [description, setDescription] = useState('');
@@ -194,10 +202,15 @@ export function CodeGeneratorTool({ onBack }: CodeGeneratorToolProps) {
 
     setIsGenerating(true);
     setGenerationProgress(0);
+    setStreamedCode('');
+
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
+    let progressInterval: ReturnType<typeof setInterval> | undefined;
 
     try {
       // Update progress
-      const progressInterval = setInterval(() => {
+      progressInterval = setInterval(() => {
         setGenerationProgress(prev => {
           if (prev < 90) return prev + Math.random() * 10;
           return prev;
@@ -236,9 +249,13 @@ export function CodeGeneratorTool({ onBack }: CodeGeneratorToolProps) {
         }
       };
 
+      // Stream the main file so partial code renders while the model is still writing
       const mainCode = useRepository && selectedRepo 
         ? await AIService.generateCodeWithRepository(codeRequest)
-        : await AIService.generateCode(codeRequest);
+        : await AIService.generateCodeStream(codeRequest, {
+            signal: abortController.signal,
+            onToken: (_token, fullText) => setStreamedCode(fullText)
+          });
 
       clearInterval(progressInterval);
       setGenerationProgress(90);
@@ -334,14 +351,28 @@ export function CodeGeneratorTool({ onBack }: CodeGeneratorToolProps) {
       toast.success(`🎉 AI-generated ${codeType} is ready!`);
       toast.info(`Generated using ${currentModel?.name}`);
     } catch (error) {
+      if (isAbortError(error)) {
+        toast.info('Code generation cancelled');
+        return;
+      }
       console.error('AI generation failed:', error);
       toast.error(`AI generation failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
     } finally {
+      clearInterval(progressInterval);
+      abortControllerRef.current = null;
       setIsGenerating(false);
       setGenerationProgress(0);
+      setStreamedCode('');
     }
   }, [description, language, codeType, framework, projectName, selectedFeatures, includeTests, includeDocs, aiModelAvailable, currentModel]);
 
+  const cancelGeneration = useCallback(() => {
+    abortControllerRef.current?.abort();
+  }, []);
+
+  // Abort any in-flight stream when the tool unmounts
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
+
   // Helper functions for generating config files and project structure
   const generateEslintConfig = () => {
     return JSON.stringify({
@@ -892,9 +923,15 @@ export function CodeGeneratorTool({ onBack }: CodeGeneratorToolProps) {
                     <span className="text-sm font-medium">Generating your code...</span>
                   </div>
                   <Progress value={generationProgress} className="w-full" />
-                  <p className="text-xs text-muted-foreground">
-                    This may take a few moments depending on complexity
-                  </p>
+                  {streamedCode ? (
+                    <pre className="max-h-64 overflow-auto rounded-md bg-background p-3 text-xs font-mono whitespace-pre-wrap">
+                      {stripCodeFence(streamedCode)}
+                    </pre>
+                  ) : (
+                    <p className="text-xs text-muted-foreground">
+                      This may take a few moments depending on complexity
+                    </p>
+                  )}
                 </div>
               )}
 
@@ -918,6 +955,12 @@ export function CodeGeneratorTool({ onBack }: CodeGeneratorToolProps) {
                   )}
                 </Button>
                 
+                {isGenerating && (
+                  <Button variant="outline" onClick={cancelGeneration}>
+                    Cancel
+                  </Button>
+                )}
+
                 {generatedProject && (
                   <Button variant="outline" onClick={() => setActiveTab('preview')}>
                     <FileText className="w-4 h-4 mr-2" />
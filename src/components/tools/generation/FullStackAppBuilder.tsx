@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useMemo } from 'react';
+import React, { useState, useCallback, useMemo, useRef } from 'react';
 import { Button } from '../../ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '../../ui/card';
 import { Badge } from '../../ui/badge';
@@ -10,7 +10,7 @@ import { Switch } from '../../ui/switch';
 import { Progress } from '../../ui/progress';
 import { 
   Layers, CloudUpload, Download, Monitor, Settings,
-  Loader2, Zap
+  Loader2, Zap, Upload
 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 
@@ -27,40 +27,46 @@ import {
 
 import type {
   GeneratedApp,
-  AppStack
+  AppStack,
+  DataModel
 } from '../../../types/full-stack-builder';
 
 // Import utility functions
 import {
-  generateFrontendPackageJson,
-  generateBackendPackageJson,
   generateFrontendHomePage,
   generateLayoutComponent,
-  generateBackendApp,
-  generateUserRoutes,
   generateAuthConfig,
-  generateAuthMiddleware
+  generateAuthMiddleware,
+  generateSharedTypes,
+  generateEntityValidation
 } from '../../../utils/full-stack-code-generators';
+import { STACK_LAYERS, stackTemplates } from '../../../utils/stack-templates';
 
 // Import AI Service for real code generation
 import AIService from '../../../services/AIService';
 import { GamificationService } from '../../../services/GamificationService';
+import { ARCHIVE_METADATA_FILE, archiveMetadata, importProjectFile } from '../../../utils/project-export';
+import { createGenerationManifest, loadGeneratedContents, saveGenerationSnapshot } from '../../../utils/generation-manifest';
+import {
+  applyRegeneration,
+  mergeRegeneration,
+  type ConflictChoice,
+  type RegeneratedFile
+} from '../../../utils/three-way-merge';
 
 import {
-  generateDatabaseSchema,
-  generateInitialMigration,
   generateDockerCompose,
   generateEnvExample,
   generateProjectReadme,
   generateAPIEndpoints,
   generateDeploymentConfig
 } from '../../../utils/full-stack-config-generators';
-
 import {
-  generateFrontendDockerfile,
-  generateBackendDockerfile,
-  generateGitHubActions
-} from '../../../utils/docker-generators';
+  createDefaultDataModel,
+  validateDataModel
+} from '../../../utils/data-model';
+
+import { generateGitHubActions } from '../../../utils/docker-generators';
 
 // Additional generator functions for enhanced file creation
 const generateUIComponent = (componentName: string, framework: string): string => {
@@ -367,118 +373,6 @@ module.exports = {
 };`;
 };
 
-const generateViteConfig = (): string => {
-  return `import { defineConfig } from 'vite';
-import react from '@vitejs/plugin-react';
-import path from 'path';
-
-export default defineConfig({
-  plugins: [react()],
-  resolve: {
-    alias: {
-      '@': path.resolve(__dirname, './src'),
-    },
-  },
-  server: {
-    port: 3000,
-    proxy: {
-      '/api': {
-        target: 'http://localhost:3001',
-        changeOrigin: true,
-      },
-    },
-  },
-  build: {
-    outDir: 'dist',
-    sourcemap: true,
-    rollupOptions: {
-      output: {
-        manualChunks: {
-          vendor: ['react', 'react-dom'],
-          router: ['react-router-dom'],
-        },
-      },
-    },
-  },
-});`;
-};
-
-const generateCORSMiddleware = (): string => {
-  return `import cors from 'cors';
-
-const allowedOrigins = [
-  'http://localhost:3000',
-  'http://localhost:5173',
-  process.env.FRONTEND_URL,
-].filter(Boolean);
-
-export const corsMiddleware = cors({
-  origin: (origin, callback) => {
-    if (!origin || allowedOrigins.includes(origin)) {
-      callback(null, true);
-    } else {
-      callback(new Error('Not allowed by CORS'));
-    }
-  },
-  credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization'],
-});`;
-};
-
-const generateUserModel = (database: string): string => {
-  return `export interface User {
-  id: string;
-  email: string;
-  name: string;
-  password: string;
-  avatar?: string;
-  isActive: boolean;
-  emailVerified: boolean;
-  createdAt: Date;
-  updatedAt: Date;
-}
-
-export interface CreateUserData {
-  email: string;
-  name: string;
-  password: string;
-}
-
-export interface UpdateUserData {
-  name?: string;
-  email?: string;
-  avatar?: string;
-}
-
-export class UserModel {
-  static async create(userData: CreateUserData): Promise<User> {
-    // Database-specific implementation for ${database}
-    throw new Error('Not implemented');
-  }
-
-  static async findById(id: string): Promise<User | null> {
-    // Database-specific implementation for ${database}
-    throw new Error('Not implemented');
-  }
-
-  static async findByEmail(email: string): Promise<User | null> {
-    // Database-specific implementation for ${database}
-    throw new Error('Not implemented');
-  }
-
-  static async update(id: string, data: UpdateUserData): Promise<User> {
-    // Database-specific implementation for ${database}
-    throw new Error('Not implemented');
-  }
-
-  static async delete(id: string): Promise<void> {
-    // Database-specific implementation for ${database}
-    throw new Error('Not implemented');
-  }
-}`;
-};
-
 const generateValidationUtils = (): string => {
   return `import Joi from 'joi';
 
@@ -508,81 +402,6 @@ export function validateRequest<T>(schema: Joi.ObjectSchema<T>, data: any): T {
 }`;
 };
 
-const generateDatabaseConfig = (database: string): string => {
-  return `import { Pool } from 'pg';
-
-const pool = new Pool({
-  connectionString: process.env.DATABASE_URL,
-  ssl: process.env.NODE_ENV === 'production' ? { rejectUnauthorized: false } : false,
-  max: 20,
-  idleTimeoutMillis: 30000,
-  connectionTimeoutMillis: 2000,
-});
-
-export async function query(text: string, params?: any[]) {
-  const start = Date.now();
-  try {
-    const res = await pool.query(text, params);
-    const duration = Date.now() - start;
-    console.log('Executed query', { text, duration, rows: res.rowCount });
-    return res;
-  } catch (error) {
-    console.error('Database query error:', error);
-    throw error;
-  }
-}
-
-export async function getClient() {
-  return await pool.connect();
-}
-
-export default pool;`;
-};
-
-const generateBackendTSConfig = (): string => {
-  return `{
-  "compilerOptions": {
-    "target": "ES2020",
-    "module": "commonjs",
-    "lib": ["ES2020"],
-    "outDir": "./dist",
-    "rootDir": "./src",
-    "strict": true,
-    "esModuleInterop": true,
-    "skipLibCheck": true,
-    "forceConsistentCasingInFileNames": true,
-    "resolveJsonModule": true,
-    "declaration": true,
-    "declarationMap": true,
-    "sourceMap": true,
-    "removeComments": true,
-    "noImplicitAny": true,
-    "strictNullChecks": true,
-    "strictFunctionTypes": true,
-    "noImplicitThis": true,
-    "noImplicitReturns": true,
-    "noFallthroughCasesInSwitch": true,
-    "moduleResolution": "node",
-    "baseUrl": "./",
-    "paths": {
-      "@/*": ["src/*"]
-    },
-    "allowSyntheticDefaultImports": true,
-    "experimentalDecorators": true,
-    "emitDecoratorMetadata": true
-  },
-  "include": ["src/**/*"],
-  "exclude": ["node_modules", "dist", "**/*.test.ts"]
-}`;
-};
-
-const generateUserSeeds = (): string => {
-  return `-- User seeds for development
-INSERT INTO users (id, email, name, password, email_verified, created_at, updated_at) VALUES
-  (gen_random_uuid(), 'admin@example.com', 'Admin User', '$2b$10$hash', true, NOW(), NOW()),
-  (gen_random_uuid(), 'user@example.com', 'Test User', '$2b$10$hash', true, NOW(), NOW());`;
-};
-
 const generateProductionDockerCompose = (stack: any): string => {
   return `version: '3.8'
 
@@ -726,6 +545,14 @@ import { AppPreviewSection } from './components/AppPreviewSection';
 import { DeploymentSection } from './components/DeploymentSection';
 import { ExportSection } from './components/ExportSection';
 import { RealTimeCodePreview } from './components/RealTimeCodePreview';
+import { DataModelSection } from './components/DataModelSection';
+import { RegenerationMergeDialog } from './components/RegenerationMergeDialog';
+
+const DEFAULT_FEATURES = [
+  'User Authentication & Authorization',
+  'Admin Dashboard',
+  'API Documentation'
+];
 
 interface FullStackAppBuilderProps {
   onBack?: () => void;
@@ -735,16 +562,6 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
   const [activeTab, setActiveTab] = useState('configure');
   const [isGenerating, setIsGenerating] = useState(false);
   const [generationProgress, setGenerationProgress] = useState(0);
-  const [userId] = useState(() => {
-    const existingUserId = localStorage.getItem('ff_user_id') || localStorage.getItem('user_id');
-    if (existingUserId) {
-      return existingUserId;
-    }
-    const newUserId = `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
-    localStorage.setItem('ff_user_id', newUserId);
-    localStorage.setItem('user_id', newUserId); // Backwards compatibility
-    return newUserId;
-  });
   
   // Configuration state
   const [appName, setAppName] = useState('');
@@ -755,15 +572,15 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
   const [database, setDatabase] = useState('postgresql');
   const [auth, setAuth] = useState('nextauth');
   const [deployment, setDeployment] = useState('vercel');
-  const [selectedFeatures, setSelectedFeatures] = useState<string[]>([
-    'User Authentication & Authorization',
-    'Admin Dashboard',
-    'API Documentation'
-  ]);
+  const [selectedFeatures, setSelectedFeatures] = useState<string[]>(DEFAULT_FEATURES);
+  const [dataModel, setDataModel] = useState<DataModel>(() => createDefaultDataModel(DEFAULT_FEATURES));
   
   // Generated state
   const [generatedApp, setGeneratedApp] = useState<GeneratedApp | null>(null);
   const [selectedFile, setSelectedFile] = useState<string | null>(null);
+  // A regeneration whose merge has conflicts, waiting for the user to resolve them
+  const [pendingMerge, setPendingMerge] = useState<{ app: GeneratedApp; results: RegeneratedFile[] } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
 
   const handleFeatureToggle = useCallback((feature: string) => {
     setSelectedFeatures(prev => {
@@ -772,23 +589,14 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
         ? prev.filter(f => f !== feature)
         : [...prev, feature];
       
-      // Award XP for feature selection (non-blocking)
-      if (!wasSelected) {
-        GamificationService.addXP(
-          userId,
-          5,
-          'tool_usage',
-          `Selected feature: ${feature}`,
-          { feature_name: feature }
-        ).catch(() => {});
-      }
-      
       return newFeatures;
     });
-  }, [userId]);
+  }, []);
 
   const generateFullStackApp = useCallback(async (): Promise<GeneratedApp> => {
     const stack: AppStack = { frontend, backend, database, auth, deployment };
+    const backendTemplate = stackTemplates.get('backend', backend);
+    const backendName = backendTemplate?.name ?? backend;
     
     // Check if AI service is available
     const currentModel = AIService.getCurrentModel();
@@ -797,16 +605,10 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
     }
 
     try {
-      // Award XP for starting generation (non-blocking)
-      GamificationService.recordToolUsage(userId, 'Full-Stack App Builder', false).catch(() => {
-        // Silently handle gamification errors
-      });
-      
       // Generate files using AI for critical components
       const [
         frontendHomePage,
         layoutComponent,
-        backendApp,
         userRoutes,
         authConfigContent,
         authMiddlewareContent
@@ -875,53 +677,12 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
           }
         }),
 
-        // Generate backend app with AI
-        AIService.generateCode({
-          type: 'api',
-          framework: backend,
-          requirements: `Create a production-ready ${backend} application with:
-            
-            Core Setup:
-            - Express.js server with TypeScript
-            - CORS configuration for frontend origin
-            - Body parser and security middleware (helmet, express-rate-limit)
-            - Morgan logging middleware
-            - Error handling middleware
-            - Graceful shutdown handling
-            
-            Database Integration:
-            - ${database} connection setup
-            - Connection pooling and retry logic
-            - Database health checks
-            
-            Authentication:
-            - ${auth} integration
-            - JWT token handling
-            - Password hashing with bcrypt
-            - Rate limiting for auth endpoints
-            
-            API Structure:
-            - Health check endpoint: GET /health
-            - User endpoints: /api/users/*
-            - Auth endpoints: /api/auth/*
-            - Protected route middleware
-            
-            Features: ${selectedFeatures.join(', ')}
-            
-            Include proper TypeScript interfaces, error handling, and environment configuration.
-            Make it production-ready with proper logging and monitoring.`,
-          options: {
-            includeTypeScript: true,
-            includeDocumentation: true,
-            optimizeForPerformance: true
-          }
-        }),
-
         // Generate user routes with AI
         AIService.generateCode({
           type: 'api',
           framework: backend,
-          requirements: `Create comprehensive user management API routes:
+          requirements: `Create comprehensive user management API routes for ${backendName}.
+            app.ts mounts this module at /api/auth, so export ${backendTemplate?.routeModule ?? 'the routes as the default export'}.
             
             Endpoints:
             - POST /api/auth/register - User registration
@@ -933,7 +694,7 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
             - POST /api/auth/reset-password - Password reset
             
             Security Features:
-            - Input validation with Joi or express-validator
+            - Input validation with Joi
             - Password hashing with bcrypt
             - JWT token generation and verification
             - Rate limiting (5 attempts per 15 minutes)
@@ -989,7 +750,7 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
         AIService.generateCode({
           type: 'api',
           framework: backend,
-          requirements: `Create authentication middleware for ${auth}:
+          requirements: `Create ${backendName} authentication middleware for ${auth}:
             
             Middleware Functions:
             - verifyToken: JWT token verification
@@ -1026,18 +787,24 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
         })
       ]);
 
-      // Award XP for each major code generation milestone (non-blocking)
-      GamificationService.addXP(userId, 100, 'tool_usage', 'Generated frontend components', { component_count: 2 }).catch(() => {});
-      GamificationService.addXP(userId, 100, 'tool_usage', 'Generated backend API', { endpoint_count: 4 }).catch(() => {});
+      // Report the finished AI calls; the server credits each against a gateway call (non-blocking)
+      GamificationService.recordToolUsage('full-stack-builder')
+        .then(() => GamificationService.recordCodeGeneration('full-stack-builder'));
       
-      const files = [
+      const sharedTypes = generateSharedTypes(dataModel, database);
+      const entityValidation = generateEntityValidation(dataModel);
+
+      // package.json files, framework config, app entry, routes, database and Docker files
+      const composed = stackTemplates.compose({
+        name: appName,
+        description: appDescription,
+        stack,
+        features: selectedFeatures,
+        dataModel
+      });
+
+      const generated = [
         // Frontend files (AI-generated)
-        {
-          path: 'frontend/package.json',
-          content: generateFrontendPackageJson(appName, frontend, selectedFeatures),
-          type: 'frontend' as const,
-          size: new Blob([generateFrontendPackageJson(appName, frontend, selectedFeatures)]).size
-        },
         {
           path: 'frontend/src/pages/index.tsx',
           content: frontendHomePage,
@@ -1074,6 +841,12 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
           type: 'frontend' as const,
           size: 512
         },
+        {
+          path: 'frontend/src/types/entities.ts',
+          content: sharedTypes,
+          type: 'frontend' as const,
+          size: new Blob([sharedTypes]).size
+        },
         {
           path: 'frontend/src/services/api.ts',
           content: generateAPIService(backend),
@@ -1086,26 +859,8 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
           type: 'frontend' as const,
           size: 512
         },
-        {
-          path: 'frontend/vite.config.ts',
-          content: generateViteConfig(),
-          type: 'frontend' as const,
-          size: 384
-        },
         
         // Backend files (AI-generated)
-        {
-          path: 'backend/package.json',
-          content: generateBackendPackageJson(appName, backend, selectedFeatures),
-          type: 'backend' as const,
-          size: new Blob([generateBackendPackageJson(appName, backend, selectedFeatures)]).size
-        },
-        {
-          path: 'backend/src/app.ts',
-          content: backendApp,
-          type: 'backend' as const,
-          size: new Blob([backendApp]).size
-        },
         {
           path: 'backend/src/routes/auth.ts',
           content: userRoutes,
@@ -1119,16 +874,16 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
           size: new Blob([authMiddlewareContent]).size
         },
         {
-          path: 'backend/src/middleware/cors.ts',
-          content: generateCORSMiddleware(),
+          path: 'backend/src/types/entities.ts',
+          content: sharedTypes,
           type: 'backend' as const,
-          size: 384
+          size: new Blob([sharedTypes]).size
         },
         {
-          path: 'backend/src/models/User.ts',
-          content: generateUserModel(database),
+          path: 'backend/src/validation/entities.ts',
+          content: entityValidation,
           type: 'backend' as const,
-          size: 768
+          size: new Blob([entityValidation]).size
         },
         {
           path: 'backend/src/utils/validation.ts',
@@ -1136,38 +891,6 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
           type: 'backend' as const,
           size: 512
         },
-        {
-          path: 'backend/src/config/database.ts',
-          content: generateDatabaseConfig(database),
-          type: 'backend' as const,
-          size: 640
-        },
-        {
-          path: 'backend/tsconfig.json',
-          content: generateBackendTSConfig(),
-          type: 'backend' as const,
-          size: 256
-        },
-        
-        // Database files (enhanced)
-        {
-          path: 'database/schema.sql',
-          content: generateDatabaseSchema(database, selectedFeatures),
-          type: 'database' as const,
-          size: new Blob([generateDatabaseSchema(database, selectedFeatures)]).size
-        },
-        {
-          path: 'database/migrations/001_initial.sql',
-          content: generateInitialMigration(selectedFeatures),
-          type: 'database' as const,
-          size: new Blob([generateInitialMigration(selectedFeatures)]).size
-        },
-        {
-          path: 'database/seeds/users.sql',
-          content: generateUserSeeds(),
-          type: 'database' as const,
-          size: 384
-        },
         
         // Configuration files (enhanced)
         {
@@ -1190,9 +913,9 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
         },
         {
           path: 'README.md',
-          content: generateProjectReadme(appName, appDescription, stack, selectedFeatures),
+          content: generateProjectReadme(appName, appDescription, stack, selectedFeatures, dataModel),
           type: 'config' as const,
-          size: new Blob([generateProjectReadme(appName, appDescription, stack, selectedFeatures)]).size
+          size: new Blob([generateProjectReadme(appName, appDescription, stack, selectedFeatures, dataModel)]).size
         },
         {
           path: '.gitignore',
@@ -1208,6 +931,10 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
         },
       ];
 
+      // The home page and auth routes replace the template's stand-ins
+      const generatedPaths = new Set(generated.map(file => file.path));
+      const files = [...composed.files.filter(file => !generatedPaths.has(file.path)), ...generated];
+
     // Add CI/CD files if selected
     if (selectedFeatures.includes('CI/CD Pipeline')) {
       files.push({
@@ -1218,25 +945,7 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
       });
     }
 
-    // Add Docker files if selected
-    if (selectedFeatures.includes('Docker Containerization')) {
-      files.push(
-        {
-          path: 'frontend/Dockerfile',
-          content: generateFrontendDockerfile(frontend),
-          type: 'config' as const,
-          size: 512
-        },
-        {
-          path: 'backend/Dockerfile',
-          content: generateBackendDockerfile(backend),
-          type: 'config' as const,
-          size: 512
-        }
-      );
-    }
-
-    const endpoints = generateAPIEndpoints(selectedFeatures);
+    const endpoints = generateAPIEndpoints(selectedFeatures, dataModel);
 
     return {
       name: appName,
@@ -1245,13 +954,14 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
         files,
         features: selectedFeatures,
         endpoints,
-        deploymentConfig: generateDeploymentConfig(stack)
+        deploymentConfig: generateDeploymentConfig(stack),
+        dataModel
       };
     } catch (error) {
       console.error('AI-powered generation failed:', error);
       throw new Error(`Failed to generate application: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
-  }, [appName, appDescription, frontend, backend, database, auth, deployment, selectedFeatures]);
+  }, [appName, appDescription, frontend, backend, database, auth, deployment, selectedFeatures, dataModel]);
 
   const generateApp = useCallback(async () => {
     if (!appName.trim() || !appDescription.trim()) {
@@ -1259,6 +969,19 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
       return;
     }
 
+    // Projects imported from older versions can name options that have no template
+    const unsupported = STACK_LAYERS.filter(layer => !stackTemplates.has(layer, { frontend, backend, database, auth, deployment }[layer]));
+    if (unsupported.length > 0) {
+      toast.error(`Pick a supported ${unsupported.join(', ')} option; the current choice has no template yet`);
+      return;
+    }
+
+    const modelErrors = validateDataModel(dataModel);
+    if (modelErrors.length > 0) {
+      toast.error(`Fix the data model first: ${modelErrors[0]}`);
+      return;
+    }
+
     // Check if AI model is configured
     const currentModel = AIService.getCurrentModel();
     if (!currentModel) {
@@ -1291,34 +1014,34 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
         }
       }, 800);
 
-      const app = await generateFullStackApp();
+      const output = await generateFullStackApp();
+      const generation = await createGenerationManifest(output.files);
+      saveGenerationSnapshot(generation, output.files);
+      const app = { ...output, generation };
       
       clearInterval(progressInterval);
       setGenerationProgress(100);
-      
-      setGeneratedApp(app);
-      setSelectedFile(app.files[0]?.path || null);
-      setActiveTab('preview');
-      
-      // Award XP for full-stack app generation (non-blocking)
-      GamificationService.recordProjectCompletion(userId, appName, 'full_stack').catch(() => {});
-      
-      // Award bonus XP for using advanced features
-      let bonusXP = 0;
-      if (selectedFeatures.includes('Multi-Agent Orchestration')) bonusXP += 100;
-      if (selectedFeatures.includes('Real-time Collaboration')) bonusXP += 75;
-      if (selectedFeatures.includes('Advanced Analytics')) bonusXP += 50;
-      
-      if (bonusXP > 0) {
-        GamificationService.addXP(
-          userId,
-          bonusXP,
-          'tool_usage',
-          `Advanced Full-Stack App: ${selectedFeatures.filter(f => 
-            ['Multi-Agent Orchestration', 'Real-time Collaboration', 'Advanced Analytics'].includes(f)
-          ).join(', ')}`,
-          { app_name: appName, features: selectedFeatures }
-        ).catch(() => {});
+
+      // Regenerating a project that may have been edited: merge instead of overwriting
+      const previous = generatedApp?.generation ? generatedApp : null;
+      const results = previous && await mergeRegeneration({
+        manifest: previous.generation!,
+        base: await loadGeneratedContents(previous.generation!),
+        current: previous.files,
+        next: app.files
+      });
+
+      if (results?.some(result => result.status === 'conflict')) {
+        setPendingMerge({ app, results });
+        toast.warning('Some of your edits conflict with the new output - review them before applying');
+      } else {
+        const files = results ? applyRegeneration(results) : app.files;
+        setGeneratedApp({ ...app, files });
+        setSelectedFile(files[0]?.path || null);
+        setActiveTab('preview');
+        if (results?.some(result => result.status === 'merged' || result.status === 'kept')) {
+          toast.info('Your edits were merged into the regenerated project');
+        }
       }
       
       toast.success('🎉 Your AI-generated full-stack application is ready!');
@@ -1330,7 +1053,17 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
       setIsGenerating(false);
       setGenerationProgress(0);
     }
-  }, [generateFullStackApp, generationProgress, appName, selectedFeatures]);
+  }, [generateFullStackApp, generationProgress, appName, selectedFeatures, dataModel, generatedApp]);
+
+  const applyPendingMerge = useCallback((choices: Record<string, Array<ConflictChoice | undefined>>) => {
+    if (!pendingMerge) return;
+    const files = applyRegeneration(pendingMerge.results, choices);
+    setGeneratedApp({ ...pendingMerge.app, files });
+    setSelectedFile(files[0]?.path || null);
+    setActiveTab('preview');
+    setPendingMerge(null);
+    toast.success('Regenerated project merged with your edits');
+  }, [pendingMerge]);
 
   const downloadApp = useCallback(async () => {
     if (!generatedApp) return;
@@ -1355,8 +1088,13 @@ export function FullStackAppBuilder({ onBack }: FullStackAppBuilderProps) {
         }
       });
       
+      // Files added around the app's own, listed in the metadata so imports leave them out
+      const packagingFiles: string[] = [];
+      const hasFile = (path: string) => generatedApp.files.some(file => file.path === path);
+
       // Add package.json files if they don't exist
-      if (!generatedApp.files.find(f => f.path === 'package.json')) {
+      if (!hasFile('package.json')) {
+        packagingFiles.push('package.json');
         const rootPackageJson = {
           name: generatedApp.name.toLowerCase().replace(/\s+/g, '-'),
           version: '1.0.0',
@@ -1449,7 +1187,10 @@ ${generatedApp.deploymentConfig ?
 This project was generated using FlashFusion AI Platform.
 `;
       
-      zip.file('README.md', readmeContent);
+      if (!hasFile('README.md')) {
+        packagingFiles.push('README.md');
+        zip.file('README.md', readmeContent);
+      }
       
       // Add .gitignore
       const gitignoreContent = `# Dependencies
@@ -1487,7 +1228,18 @@ logs/
 *.log
 `;
       
-      zip.file('.gitignore', gitignoreContent);
+      if (!hasFile('.gitignore')) {
+        packagingFiles.push('.gitignore');
+        zip.file('.gitignore', gitignoreContent);
+      }
+
+      // Lets the project be imported again, edits included, and regenerated
+      zip.file(ARCHIVE_METADATA_FILE, JSON.stringify({
+        generatedAt: new Date().toISOString(),
+        format: 'zip',
+        appName: generatedApp.name,
+        ...archiveMetadata(generatedApp, packagingFiles)
+      }, null, 2));
       
       // Generate the ZIP file
       const zipBlob = await zip.generateAsync({ type: 'blob' });
@@ -1506,52 +1258,54 @@ logs/
       toast.dismiss(loadingToast);
       toast.success('🎉 Project downloaded successfully!');
       
-      // Award XP for downloading (non-blocking)
-      GamificationService.addXP(
-        userId,
-        50,
-        'tool_usage',
-        'Downloaded full-stack application',
-        { app_name: generatedApp.name, file_count: generatedApp.files.length }
-      ).catch(() => {});
-      
     } catch (error) {
       console.error('Error downloading project:', error);
       toast.error('Failed to generate project files. Please try again.');
     }
   }, [generatedApp]);
 
+  // Resume a project from a JSON or YAML export
+  const handleImportProject = useCallback(async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      const app = await importProjectFile(file);
+
+      setAppName(app.name);
+      setAppDescription(app.description);
+      if (app.stack.frontend) setFrontend(app.stack.frontend);
+      if (app.stack.backend) setBackend(app.stack.backend);
+      if (app.stack.database) setDatabase(app.stack.database);
+      if (app.stack.auth) setAuth(app.stack.auth);
+      if (app.stack.deployment) setDeployment(app.stack.deployment);
+      setSelectedFeatures(app.features);
+      if (app.dataModel) setDataModel(app.dataModel);
+
+      setGeneratedApp(app);
+      setSelectedFile(app.files[0]?.path || null);
+      setActiveTab('preview');
+      toast.success(`Imported ${app.name} (${app.files.length} files)`);
+    } catch (error) {
+      console.error('Failed to import project:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to import project');
+    }
+  }, []);
+
   const copyToClipboard = useCallback(async (content: string) => {
     try {
       await navigator.clipboard.writeText(content);
       toast.success('Copied to clipboard!');
-      
-      // Award XP for copying code (non-blocking)
-      GamificationService.addXP(
-        userId,
-        5,
-        'tool_usage',
-        'Copied generated code',
-        { content_length: content.length }
-      ).catch(() => {});
     } catch (error) {
       console.error('Failed to copy to clipboard:', error);
       toast.error('Failed to copy to clipboard');
     }
-  }, [userId]);
+  }, []);
 
   const handleFileSelect = useCallback((filePath: string) => {
     setSelectedFile(filePath);
-    
-    // Award XP for file exploration (non-blocking)
-    GamificationService.addXP(
-      userId,
-      2,
-      'tool_usage',
-      'Explored generated file',
-      { file_path: filePath }
-    ).catch(() => {});
-  }, [userId]);
+  }, []);
 
   const handleDownloadFile = useCallback((filePath: string, content: string) => {
     try {
@@ -1566,20 +1320,11 @@ logs/
       URL.revokeObjectURL(url);
       
       toast.success(`Downloaded ${filePath.split('/').pop()}`);
-      
-      // Award XP for individual file download (non-blocking)
-      GamificationService.addXP(
-        userId,
-        10,
-        'tool_usage',
-        'Downloaded individual file',
-        { file_path: filePath, file_size: content.length }
-      ).catch(() => {});
     } catch (error) {
       console.error('Failed to download file:', error);
       toast.error('Failed to download file');
     }
-  }, [userId]);
+  }, []);
 
   return (
     <div className="space-y-6">
@@ -1646,6 +1391,12 @@ logs/
                 onFeatureToggle={handleFeatureToggle}
               />
 
+              <DataModelSection
+                dataModel={dataModel}
+                onChange={setDataModel}
+                onReset={() => setDataModel(createDefaultDataModel(selectedFeatures))}
+              />
+
               {/* Generation Progress */}
               {isGenerating && (
                 <div className="space-y-3 p-6 bg-muted/50 rounded-lg border">
@@ -1687,6 +1438,23 @@ logs/
                     View App
                   </Button>
                 )}
+
+                <Button
+                  variant="outline"
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={isGenerating}
+                  size="lg"
+                >
+                  <Upload className="w-5 h-5 mr-2" />
+                  Import Project
+                </Button>
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".json,.yaml,.yml,.zip,application/json,application/x-yaml,application/zip"
+                  className="hidden"
+                  onChange={handleImportProject}
+                />
               </div>
             </CardContent>
           </Card>
@@ -1720,6 +1488,12 @@ logs/
           )}
         </TabsContent>
       </Tabs>
+
+      <RegenerationMergeDialog
+        results={pendingMerge?.results ?? null}
+        onApply={applyPendingMerge}
+        onCancel={() => setPendingMerge(null)}
+      />
     </div>
   );
 }
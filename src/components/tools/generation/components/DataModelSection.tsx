@@ -0,0 +1,335 @@
+import React, { useMemo } from 'react';
+import { Button } from '../../../ui/button';
+import { Input } from '../../../ui/input';
+import { Label } from '../../../ui/label';
+import { Switch } from '../../../ui/switch';
+import { Separator } from '../../../ui/separator';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../../../ui/select';
+import { Database, Plus, RotateCcw, Trash2 } from 'lucide-react';
+import type {
+  DataModel,
+  EntityDefinition,
+  EntityField,
+  EntityFieldType,
+  EntityIndex,
+  EntityRelation,
+  EntityRelationKind
+} from '../../../../types/full-stack-builder';
+import { ENTITY_FIELD_TYPES, createEntity, tableName, validateDataModel } from '../../../../utils/data-model';
+
+const RELATION_KINDS: EntityRelationKind[] = ['many-to-one', 'one-to-one', 'many-to-many'];
+
+interface DataModelSectionProps {
+  dataModel: DataModel;
+  onChange: (dataModel: DataModel) => void;
+  onReset: () => void;
+}
+
+const splitList = (value: string) => value.split(',').map(item => item.trim()).filter(Boolean);
+
+export function DataModelSection({ dataModel, onChange, onReset }: DataModelSectionProps) {
+  const errors = useMemo(() => validateDataModel(dataModel), [dataModel]);
+  const entityNames = dataModel.entities.map(entity => entity.name);
+
+  const updateEntity = (index: number, patch: Partial<EntityDefinition>) => {
+    onChange({
+      entities: dataModel.entities.map((entity, i) => (i === index ? { ...entity, ...patch } : entity))
+    });
+  };
+
+  // Relations follow a renamed entity
+  const renameEntity = (index: number, name: string) => {
+    const previous = dataModel.entities[index].name;
+    onChange({
+      entities: dataModel.entities.map((entity, i) => ({
+        ...entity,
+        ...(i === index ? { name } : {}),
+        relations: entity.relations.map(relation =>
+          relation.target === previous ? { ...relation, target: name } : relation
+        )
+      }))
+    });
+  };
+
+  const removeEntity = (index: number) => {
+    onChange({ entities: dataModel.entities.filter((_, i) => i !== index) });
+  };
+
+  const addEntity = () => {
+    let name = 'Item';
+    for (let n = 2; entityNames.includes(name); n++) name = `Item${n}`;
+    onChange({ entities: [...dataModel.entities, createEntity(name)] });
+  };
+
+  const updateField = (entityIndex: number, fieldIndex: number, patch: Partial<EntityField>) => {
+    const entity = dataModel.entities[entityIndex];
+    updateEntity(entityIndex, {
+      fields: entity.fields.map((field, i) => (i === fieldIndex ? { ...field, ...patch } : field))
+    });
+  };
+
+  const updateRelation = (entityIndex: number, relationIndex: number, patch: Partial<EntityRelation>) => {
+    const entity = dataModel.entities[entityIndex];
+    updateEntity(entityIndex, {
+      relations: entity.relations.map((relation, i) => (i === relationIndex ? { ...relation, ...patch } : relation))
+    });
+  };
+
+  const updateIndex = (entityIndex: number, indexIndex: number, patch: Partial<EntityIndex>) => {
+    const entity = dataModel.entities[entityIndex];
+    updateEntity(entityIndex, {
+      indexes: entity.indexes.map((index, i) => (i === indexIndex ? { ...index, ...patch } : index))
+    });
+  };
+
+  return (
+    <>
+      <Separator />
+
+      <div className="space-y-4">
+        <div className="flex items-center justify-between gap-2">
+          <h3 className="text-lg font-semibold flex items-center gap-2">
+            <Database className="w-5 h-5" />
+            Data Model
+          </h3>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={onReset}>
+              <RotateCcw className="w-4 h-4 mr-2" />
+              Reset from Features
+            </Button>
+            <Button size="sm" onClick={addEntity}>
+              <Plus className="w-4 h-4 mr-2" />
+              Add Entity
+            </Button>
+          </div>
+        </div>
+
+        <p className="text-sm text-muted-foreground">
+          Every entity gets an <code>id</code>, a table, Prisma model, CRUD routes, validation and shared types.
+        </p>
+
+        {errors.length > 0 && (
+          <ul className="text-sm text-destructive space-y-1">
+            {errors.map(error => <li key={error}>{error}</li>)}
+          </ul>
+        )}
+
+        {dataModel.entities.map((entity, entityIndex) => (
+          <div key={entityIndex} className="rounded-lg border p-4 space-y-4">
+            <div className="flex flex-wrap items-end gap-3">
+              <div className="space-y-1">
+                <Label htmlFor={`entity-${entityIndex}`}>Entity</Label>
+                <Input
+                  id={`entity-${entityIndex}`}
+                  value={entity.name}
+                  onChange={(e) => renameEntity(entityIndex, e.target.value)}
+                  className="w-48"
+                />
+              </div>
+              <span className="text-xs text-muted-foreground pb-2">table {tableName(entity)}</span>
+              <div className="flex items-center gap-2 pb-2">
+                <Switch
+                  id={`timestamps-${entityIndex}`}
+                  checked={entity.timestamps}
+                  onCheckedChange={(timestamps) => updateEntity(entityIndex, { timestamps })}
+                />
+                <Label htmlFor={`timestamps-${entityIndex}`} className="text-sm">Timestamps</Label>
+              </div>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="ml-auto"
+                onClick={() => removeEntity(entityIndex)}
+                aria-label={`Remove ${entity.name}`}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+
+            {/* Fields */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Fields</Label>
+              {entity.fields.map((field, fieldIndex) => (
+                <div key={fieldIndex} className="flex flex-wrap items-center gap-2">
+                  <Input
+                    value={field.name}
+                    onChange={(e) => updateField(entityIndex, fieldIndex, { name: e.target.value })}
+                    className="w-40"
+                    aria-label="Field name"
+                  />
+                  <Select
+                    value={field.type}
+                    onValueChange={(type) => updateField(entityIndex, fieldIndex, { type: type as EntityFieldType })}
+                  >
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {ENTITY_FIELD_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{type}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {field.type === 'enum' && (
+                    <Input
+                      value={(field.enumValues ?? []).join(', ')}
+                      onChange={(e) => updateField(entityIndex, fieldIndex, { enumValues: splitList(e.target.value) })}
+                      placeholder="draft, published"
+                      className="w-48"
+                      aria-label="Enum values"
+                    />
+                  )}
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={field.required}
+                      onCheckedChange={(required) => updateField(entityIndex, fieldIndex, { required })}
+                    />
+                    <span className="text-xs">Required</span>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={!!field.unique}
+                      onCheckedChange={(unique) => updateField(entityIndex, fieldIndex, { unique })}
+                    />
+                    <span className="text-xs">Unique</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateEntity(entityIndex, { fields: entity.fields.filter((_, i) => i !== fieldIndex) })}
+                    aria-label={`Remove ${field.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateEntity(entityIndex, {
+                  fields: [...entity.fields, { name: `field${entity.fields.length + 1}`, type: 'string', required: false }]
+                })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Field
+              </Button>
+            </div>
+
+            {/* Relations */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Relations</Label>
+              {entity.relations.map((relation, relationIndex) => (
+                <div key={relationIndex} className="flex flex-wrap items-center gap-2">
+                  <Input
+                    value={relation.name}
+                    onChange={(e) => updateRelation(entityIndex, relationIndex, { name: e.target.value })}
+                    className="w-40"
+                    aria-label="Relation name"
+                  />
+                  <Select
+                    value={relation.kind}
+                    onValueChange={(kind) => updateRelation(entityIndex, relationIndex, { kind: kind as EntityRelationKind })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {RELATION_KINDS.map(kind => (
+                        <SelectItem key={kind} value={kind}>{kind}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Select
+                    value={relation.target}
+                    onValueChange={(target) => updateRelation(entityIndex, relationIndex, { target })}
+                  >
+                    <SelectTrigger className="w-36">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {entityNames.map(name => (
+                        <SelectItem key={name} value={name}>{name}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  {relation.kind !== 'many-to-many' && (
+                    <div className="flex items-center gap-1">
+                      <Switch
+                        checked={!!relation.required}
+                        onCheckedChange={(required) => updateRelation(entityIndex, relationIndex, {
+                          required,
+                          ...(required && relation.onDelete === 'set-null' ? { onDelete: 'cascade' as const } : {})
+                        })}
+                      />
+                      <span className="text-xs">Required</span>
+                    </div>
+                  )}
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateEntity(entityIndex, { relations: entity.relations.filter((_, i) => i !== relationIndex) })}
+                    aria-label={`Remove ${relation.name}`}
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                disabled={entityNames.length === 0}
+                onClick={() => updateEntity(entityIndex, {
+                  relations: [...entity.relations, { name: 'owner', target: entityNames[0], kind: 'many-to-one' }]
+                })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Relation
+              </Button>
+            </div>
+
+            {/* Indexes */}
+            <div className="space-y-2">
+              <Label className="text-sm font-medium">Indexes</Label>
+              {entity.indexes.map((index, indexIndex) => (
+                <div key={indexIndex} className="flex flex-wrap items-center gap-2">
+                  <Input
+                    value={index.fields.join(', ')}
+                    onChange={(e) => updateIndex(entityIndex, indexIndex, { fields: splitList(e.target.value) })}
+                    placeholder="field, relation"
+                    className="w-64"
+                    aria-label="Indexed fields"
+                  />
+                  <div className="flex items-center gap-1">
+                    <Switch
+                      checked={!!index.unique}
+                      onCheckedChange={(unique) => updateIndex(entityIndex, indexIndex, { unique })}
+                    />
+                    <span className="text-xs">Unique</span>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => updateEntity(entityIndex, { indexes: entity.indexes.filter((_, i) => i !== indexIndex) })}
+                    aria-label="Remove index"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => updateEntity(entityIndex, {
+                  indexes: [...entity.indexes, { fields: entity.fields[0] ? [entity.fields[0].name] : [] }]
+                })}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Index
+              </Button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </>
+  );
+}
@@ -6,6 +6,7 @@ import { Separator } from '../../../ui/separator';
 import { Download, Package, GitBranch, Terminal, Check, Sparkles } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
 import { MultiFormatDownloadSelector } from '../../../ui/multi-format-download-selector';
+import { VerificationReportSection } from './VerificationReportSection';
 import type { GeneratedApp } from '../../../../types/full-stack-builder';
 
 interface ExportSectionProps {
@@ -193,6 +194,8 @@ npm run dev
         </div>
       )}
 
+      <VerificationReportSection generatedApp={generatedApp} />
+
       {/* Additional Export Information */}
       <Card className="ff-glass">
         <CardHeader>
@@ -0,0 +1,205 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Button } from '../../../ui/button';
+import { Badge } from '../../../ui/badge';
+import { ScrollArea } from '../../../ui/scroll-area';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle
+} from '../../../ui/dialog';
+import { AlertTriangle, CheckCircle, GitMerge } from 'lucide-react';
+import type {
+  ConflictChoice,
+  MergeHunk,
+  RegeneratedFile,
+  RegenerationStatus
+} from '../../../../utils/three-way-merge';
+
+interface RegenerationMergeDialogProps {
+  results: RegeneratedFile[] | null;
+  onApply: (choices: Record<string, Array<ConflictChoice | undefined>>) => void;
+  onCancel: () => void;
+}
+
+const STATUS_LABELS: Record<RegenerationStatus, string> = {
+  unchanged: 'unchanged',
+  updated: 'updated',
+  kept: 'your version kept',
+  merged: 'merged',
+  conflict: 'conflicts',
+  added: 'added',
+  removed: 'stays deleted',
+  dropped: 'no longer generated'
+};
+
+// Unchanged lines around a conflict that are worth showing
+const CONTEXT_LINES = 3;
+
+function LineBlock({ lines, className }: { lines: string[]; className: string }) {
+  return (
+    <pre className={`p-2 rounded text-xs font-mono whitespace-pre-wrap break-all min-h-[2rem] ${className}`}>
+      {lines.length > 0 ? lines.join('') : <span className="italic opacity-60">(no lines)</span>}
+    </pre>
+  );
+}
+
+function StableContext({ hunk, position }: { hunk: Extract<MergeHunk, { kind: 'stable' }>; position: 'first' | 'middle' | 'last' }) {
+  const { lines } = hunk;
+  if (lines.length <= CONTEXT_LINES * 2) {
+    return <LineBlock lines={lines} className="bg-muted/40 text-muted-foreground" />;
+  }
+
+  const head = position === 'first' ? [] : lines.slice(0, CONTEXT_LINES);
+  const tail = position === 'last' ? [] : lines.slice(-CONTEXT_LINES);
+  return (
+    <div className="space-y-1">
+      {head.length > 0 && <LineBlock lines={head} className="bg-muted/40 text-muted-foreground" />}
+      <p className="text-xs text-muted-foreground text-center">
+        ⋯ {lines.length - head.length - tail.length} unchanged lines ⋯
+      </p>
+      {tail.length > 0 && <LineBlock lines={tail} className="bg-muted/40 text-muted-foreground" />}
+    </div>
+  );
+}
+
+export function RegenerationMergeDialog({ results, onApply, onCancel }: RegenerationMergeDialogProps) {
+  const conflicted = useMemo(() => (results ?? []).filter(result => result.status === 'conflict'), [results]);
+  const [selectedPath, setSelectedPath] = useState<string | null>(null);
+  const [choices, setChoices] = useState<Record<string, Array<ConflictChoice | undefined>>>({});
+
+  useEffect(() => {
+    setChoices({});
+    setSelectedPath(conflicted[0]?.path ?? null);
+  }, [conflicted]);
+
+  const counts = useMemo(() => {
+    const byStatus = new Map<RegenerationStatus, number>();
+    (results ?? []).forEach(result => byStatus.set(result.status, (byStatus.get(result.status) ?? 0) + 1));
+    return [...byStatus.entries()].filter(([status]) => status !== 'unchanged');
+  }, [results]);
+
+  const unresolved = conflicted.reduce(
+    (total, result) => total + (result.merge?.conflicts ?? 0) - (choices[result.path] ?? []).filter(Boolean).length,
+    0
+  );
+  const selected = conflicted.find(result => result.path === selectedPath);
+
+  const choose = (path: string, index: number, choice: ConflictChoice) => {
+    setChoices(prev => {
+      const fileChoices = [...(prev[path] ?? [])];
+      fileChoices[index] = choice;
+      return { ...prev, [path]: fileChoices };
+    });
+  };
+
+  const renderHunks = (file: RegeneratedFile) => {
+    let conflictIndex = 0;
+    const hunks = file.merge?.hunks ?? [];
+
+    return hunks.map((hunk, index) => {
+      if (hunk.kind === 'stable') {
+        const position = index === 0 ? 'first' : index === hunks.length - 1 ? 'last' : 'middle';
+        return <StableContext key={index} hunk={hunk} position={position} />;
+      }
+
+      const current = conflictIndex++;
+      const choice = choices[file.path]?.[current];
+      return (
+        <div key={index} className="border border-ff-warning/40 rounded-lg p-2 space-y-2">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <p className="text-xs font-medium">Your version</p>
+              <LineBlock lines={hunk.ours} className="bg-blue-500/10" />
+            </div>
+            <div className="space-y-1">
+              <p className="text-xs font-medium">Generated</p>
+              <LineBlock lines={hunk.theirs} className="bg-green-500/10" />
+            </div>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {(['ours', 'theirs', 'both'] as const).map(option => (
+              <Button
+                key={option}
+                size="sm"
+                variant={choice === option ? 'default' : 'outline'}
+                onClick={() => choose(file.path, current, option)}
+              >
+                {option === 'ours' ? 'Keep mine' : option === 'theirs' ? 'Use generated' : 'Keep both'}
+              </Button>
+            ))}
+          </div>
+        </div>
+      );
+    });
+  };
+
+  return (
+    <Dialog open={results !== null} onOpenChange={open => !open && onCancel()}>
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitMerge className="w-5 h-5 text-ff-primary" />
+            Merge Regenerated Files
+          </DialogTitle>
+          <DialogDescription>
+            Your edits were merged with the new output. Where both changed the same lines, pick which version to keep.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex flex-wrap gap-2">
+          {counts.map(([status, count]) => (
+            <Badge key={status} variant={status === 'conflict' ? 'destructive' : 'secondary'}>
+              {count} {STATUS_LABELS[status]}
+            </Badge>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-4 gap-4">
+          <ScrollArea className="h-[50vh] lg:col-span-1">
+            <div className="space-y-1 pr-2">
+              {conflicted.map(result => {
+                const left = (result.merge?.conflicts ?? 0) - (choices[result.path] ?? []).filter(Boolean).length;
+                return (
+                  <button
+                    key={result.path}
+                    type="button"
+                    onClick={() => setSelectedPath(result.path)}
+                    className={`w-full text-left p-2 rounded text-xs font-mono flex items-center gap-2 ${
+                      result.path === selectedPath ? 'bg-primary/10 border border-primary/30' : 'hover:bg-muted'
+                    }`}
+                  >
+                    {left > 0
+                      ? <AlertTriangle className="w-3 h-3 text-ff-warning flex-shrink-0" />
+                      : <CheckCircle className="w-3 h-3 text-ff-success flex-shrink-0" />}
+                    <span className="truncate">{result.path}</span>
+                  </button>
+                );
+              })}
+            </div>
+          </ScrollArea>
+
+          <ScrollArea className="h-[50vh] lg:col-span-3">
+            <div className="space-y-2 pr-2">
+              {selected ? renderHunks(selected) : (
+                <p className="text-sm text-muted-foreground">No conflicts: every change merged cleanly.</p>
+              )}
+            </div>
+          </ScrollArea>
+        </div>
+
+        <DialogFooter className="items-center gap-2">
+          {unresolved > 0 && (
+            <p className="text-xs text-muted-foreground mr-auto">
+              {unresolved} unresolved {unresolved === 1 ? 'conflict keeps its' : 'conflicts keep their'} conflict markers
+            </p>
+          )}
+          <Button variant="outline" onClick={onCancel}>Keep Current Project</Button>
+          <Button className="ff-btn-primary" onClick={() => onApply(choices)}>Apply Merge</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
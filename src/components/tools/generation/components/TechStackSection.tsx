@@ -9,6 +9,7 @@ import type {
   AuthProviderOption, 
   DeploymentOption 
 } from '../../../../types/full-stack-builder';
+import { stackTemplates } from '../../../../utils/stack-templates';
 
 interface TechStackSectionProps {
   frontend: string;
@@ -68,12 +69,14 @@ export function TechStackSection({
               </SelectTrigger>
               <SelectContent>
                 {frontendFrameworks.map(fw => (
-                  <SelectItem key={fw.id} value={fw.id}>
+                  <SelectItem key={fw.id} value={fw.id} disabled={!stackTemplates.has('frontend', fw.id)}>
                     <div className="flex items-center gap-2">
                       <span>{fw.icon}</span>
                       <div>
                         <div className="font-medium">{fw.name}</div>
-                        <div className="text-xs text-muted-foreground">{fw.description}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {stackTemplates.has('frontend', fw.id) ? fw.description : 'Coming soon'}
+                        </div>
                       </div>
                     </div>
                   </SelectItem>
@@ -94,12 +97,14 @@ export function TechStackSection({
               </SelectTrigger>
               <SelectContent>
                 {backendFrameworks.map(fw => (
-                  <SelectItem key={fw.id} value={fw.id}>
+                  <SelectItem key={fw.id} value={fw.id} disabled={!stackTemplates.has('backend', fw.id)}>
                     <div className="flex items-center gap-2">
                       <span>{fw.icon}</span>
                       <div>
                         <div className="font-medium">{fw.name}</div>
-                        <div className="text-xs text-muted-foreground">{fw.description}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {stackTemplates.has('backend', fw.id) ? fw.description : 'Coming soon'}
+                        </div>
                       </div>
                     </div>
                   </SelectItem>
@@ -120,12 +125,14 @@ export function TechStackSection({
               </SelectTrigger>
               <SelectContent>
                 {databases.map(db => (
-                  <SelectItem key={db.id} value={db.id}>
+                  <SelectItem key={db.id} value={db.id} disabled={!stackTemplates.has('database', db.id)}>
                     <div className="flex items-center gap-2">
                       <span>{db.icon}</span>
                       <div>
                         <div className="font-medium">{db.name}</div>
-                        <div className="text-xs text-muted-foreground">{db.description}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {stackTemplates.has('database', db.id) ? db.description : 'Coming soon'}
+                        </div>
                       </div>
                     </div>
                   </SelectItem>
@@ -146,12 +153,14 @@ export function TechStackSection({
               </SelectTrigger>
               <SelectContent>
                 {authProviders.map(provider => (
-                  <SelectItem key={provider.id} value={provider.id}>
+                  <SelectItem key={provider.id} value={provider.id} disabled={!stackTemplates.has('auth', provider.id)}>
                     <div className="flex items-center gap-2">
                       <span>{provider.icon}</span>
                       <div>
                         <div className="font-medium">{provider.name}</div>
-                        <div className="text-xs text-muted-foreground">{provider.description}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {stackTemplates.has('auth', provider.id) ? provider.description : 'Coming soon'}
+                        </div>
                       </div>
                     </div>
                   </SelectItem>
@@ -172,12 +181,14 @@ export function TechStackSection({
               </SelectTrigger>
               <SelectContent>
                 {deploymentPlatforms.map(platform => (
-                  <SelectItem key={platform.id} value={platform.id}>
+                  <SelectItem key={platform.id} value={platform.id} disabled={!stackTemplates.has('deployment', platform.id)}>
                     <div className="flex items-center gap-2">
                       <span>{platform.icon}</span>
                       <div>
                         <div className="font-medium">{platform.name}</div>
-                        <div className="text-xs text-muted-foreground">{platform.description}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {stackTemplates.has('deployment', platform.id) ? platform.description : 'Coming soon'}
+                        </div>
                       </div>
                     </div>
                   </SelectItem>
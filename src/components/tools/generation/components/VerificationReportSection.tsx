@@ -0,0 +1,146 @@
+import React, { useState } from 'react';
+import { Button } from '../../../ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '../../../ui/card';
+import { Badge } from '../../../ui/badge';
+import { Separator } from '../../../ui/separator';
+import { CheckCircle, Copy, FileJson, ShieldCheck, Upload, XCircle } from 'lucide-react';
+import { toast } from 'sonner@2.0.3';
+import type { GeneratedApp } from '../../../../types/full-stack-builder';
+import { downloadFile } from '../../../../utils/file-generators';
+import {
+  diagnosticsByFile,
+  parseVerificationReport,
+  type VerificationReport
+} from '../../../../utils/project-verification';
+
+interface VerificationReportSectionProps {
+  generatedApp: GeneratedApp;
+}
+
+export function VerificationReportSection({ generatedApp }: VerificationReportSectionProps) {
+  const [report, setReport] = useState<VerificationReport | null>(null);
+  const slug = generatedApp.name.toLowerCase().replace(/\s+/g, '-');
+  const command = `npm run verify:generated -- ${slug}.app.json --out ${slug}.verification.json`;
+
+  const downloadAppSpec = () => {
+    downloadFile(`${slug}.app.json`, JSON.stringify(generatedApp, null, 2), 'application/json');
+  };
+
+  const copyCommand = () => {
+    navigator.clipboard.writeText(command);
+    toast.success('Verification command copied to clipboard!');
+  };
+
+  const loadReport = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    try {
+      setReport(parseVerificationReport(await file.text()));
+    } catch {
+      toast.error(`${file.name} is not a verification report`);
+    }
+  };
+
+  return (
+    <Card className="ff-card-interactive">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <CardTitle className="flex items-center gap-2 text-base text-ff-text-primary">
+            <ShieldCheck className="w-5 h-5 text-ff-primary" />
+            Verify the Generated Project
+          </CardTitle>
+          {report && (
+            <Badge variant={report.ok ? 'secondary' : 'destructive'}>
+              {report.ok ? 'Verified' : 'Problems found'}
+            </Badge>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-ff-text-muted">
+          Type-check the project and run its generated tests headlessly, then load the report here.
+        </p>
+        <div className="flex items-center gap-2 p-2 bg-ff-surface rounded font-mono text-xs text-ff-text-primary">
+          <code className="flex-1 break-all">{command}</code>
+          <Button variant="ghost" size="sm" onClick={copyCommand} aria-label="Copy verification command">
+            <Copy className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="flex flex-wrap gap-2">
+          <Button variant="outline" size="sm" onClick={downloadAppSpec}>
+            <FileJson className="w-4 h-4 mr-2" />
+            Download App Spec
+          </Button>
+          <Button variant="outline" size="sm" asChild>
+            <label className="cursor-pointer">
+              <Upload className="w-4 h-4 mr-2" />
+              Load Report
+              <input type="file" accept="application/json,.json" className="hidden" onChange={loadReport} />
+            </label>
+          </Button>
+        </div>
+
+        {report && (
+          <>
+            <Separator />
+            <div className="space-y-2 text-sm">
+              <p className="text-ff-text-muted">
+                {report.diagnostics.length} type errors · {report.tests.passed}/{report.tests.total} tests passing ·
+                verified {new Date(report.finishedAt).toLocaleString()}
+              </p>
+              <ul className="space-y-1">
+                {report.steps.map(step => (
+                  <li key={`${step.package}-${step.name}`} className="flex items-center gap-2">
+                    {step.status === 'failed'
+                      ? <XCircle className="w-4 h-4 text-ff-error" />
+                      : <CheckCircle className={`w-4 h-4 ${step.status === 'passed' ? 'text-ff-success' : 'text-ff-text-muted'}`} />}
+                    <span className="text-ff-text-primary">{step.package} {step.name}</span>
+                    <span className="text-ff-text-muted">
+                      {step.status === 'skipped' ? 'skipped' : `${(step.durationMs / 1000).toFixed(1)}s`}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            {diagnosticsByFile(report).map(([file, diagnostics]) => (
+              <div key={file} className="space-y-1">
+                <h4 className="font-mono text-xs font-medium text-ff-text-primary">{file}</h4>
+                <ul className="space-y-1 text-xs text-ff-text-muted">
+                  {diagnostics.map((diagnostic, index) => (
+                    <li key={index} className="whitespace-pre-wrap">
+                      {diagnostic.line}:{diagnostic.column} <span className="text-ff-error">{diagnostic.code}</span> {diagnostic.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+
+            {report.tests.failures.length > 0 && (
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium text-ff-text-primary">Failing tests</h4>
+                {report.tests.failures.map((failure, index) => (
+                  <details key={index} className="text-xs">
+                    <summary className="cursor-pointer text-ff-text-primary">
+                      <span className="font-mono">{failure.file}</span> › {failure.name}
+                    </summary>
+                    <pre className="mt-1 p-2 bg-ff-surface rounded overflow-x-auto text-ff-text-muted">{failure.message}</pre>
+                  </details>
+                ))}
+              </div>
+            )}
+
+            {report.steps.filter(step => step.status === 'failed' && step.output).map(step => (
+              <details key={`${step.package}-${step.name}-output`} className="text-xs">
+                <summary className="cursor-pointer text-ff-text-primary">{step.package} {step.name} output</summary>
+                <pre className="mt-1 p-2 bg-ff-surface rounded overflow-x-auto text-ff-text-muted">{step.output}</pre>
+              </details>
+            ))}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
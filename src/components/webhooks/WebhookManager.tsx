@@ -8,6 +8,7 @@ import { Badge } from '../ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '../ui/tabs';
 import { Alert, AlertDescription } from '../ui/alert';
 import { Progress } from '../ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '../ui/select';
 import { 
   Webhook, 
   Activity, 
@@ -25,15 +26,20 @@ import {
   Zap,
   Bell,
   Shield,
-  Globe
+  Globe,
+  RotateCcw,
+  AlertTriangle
 } from 'lucide-react';
 import { toast } from 'sonner@2.0.3';
+import { supabaseConfig } from '../../lib/supabase';
+import { getSecureAccessToken } from '../../utils/auth-protection';
 
 interface WebhookEndpoint {
   id: string;
   url: string;
   events: string[];
-  secret: string;
+  /** Only returned by the request that creates the endpoint */
+  secret?: string;
   active: boolean;
   lastTriggered?: string;
   deliveryCount: number;
@@ -42,19 +48,56 @@ interface WebhookEndpoint {
   description: string;
 }
 
+type WebhookEventStatus = 'pending' | 'processing' | 'succeeded' | 'failed' | 'dead_letter';
+
+/**
+ * An event in the server-side webhook queue
+ */
 interface WebhookEvent {
   id: string;
+  direction: 'inbound' | 'outbound';
+  source: string;
   type: string;
   timestamp: string;
-  status: 'success' | 'failed' | 'pending';
+  status: WebhookEventStatus;
   payload: any;
-  endpoint: string;
+  endpointId?: string;
   retryCount: number;
-  processingTime: number;
-  response?: {
-    status: number;
-    body: string;
-  };
+  maxAttempts: number;
+  nextAttemptAt: string;
+  lastError?: string;
+  processingLog: string[];
+}
+
+const EVENT_STATUS_FILTERS: { id: 'all' | WebhookEventStatus; label: string }[] = [
+  { id: 'all', label: 'All events' },
+  { id: 'pending', label: 'Pending' },
+  { id: 'failed', label: 'Retrying' },
+  { id: 'dead_letter', label: 'Dead letter' },
+  { id: 'succeeded', label: 'Succeeded' }
+];
+
+const WEBHOOKS_API = `https://${supabaseConfig.projectId}.supabase.co/functions/v1/make-server-88829a40/webhooks`;
+
+async function webhooksRequest<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const accessToken = await getSecureAccessToken();
+  const response = await fetch(`${WEBHOOKS_API}${path}`, {
+    ...init,
+    headers: {
+      'Content-Type': 'application/json',
+      'Authorization': `Bearer ${accessToken || supabaseConfig.anonKey}`
+    }
+  });
+
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.error || `Request failed with ${response.status}`);
+  }
+  return data as T;
+}
+
+interface WebhookManagerProps {
+  userId: string;
 }
 
 const WEBHOOK_EVENT_TYPES = [
@@ -70,9 +113,11 @@ const WEBHOOK_EVENT_TYPES = [
   { id: 'collaboration', label: 'Collaboration', description: 'Team collaboration events' }
 ];
 
-export function WebhookManager() {
+export function WebhookManager({ userId }: WebhookManagerProps) {
   const [webhooks, setWebhooks] = useState<WebhookEndpoint[]>([]);
   const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [statusFilter, setStatusFilter] = useState<'all' | WebhookEventStatus>('all');
+  const [replayingId, setReplayingId] = useState<string | null>(null);
   const [isLoading, setIsLoading] = useState(false);
   const [showCreateForm, setShowCreateForm] = useState(false);
   const [selectedWebhook, setSelectedWebhook] = useState<string | null>(null);
@@ -87,35 +132,29 @@ export function WebhookManager() {
 
   useEffect(() => {
     loadWebhooks();
+  }, [userId]);
+
+  useEffect(() => {
     loadRecentEvents();
-  }, []);
-
-  const loadWebhooks = () => {
-    const saved = localStorage.getItem('ff_webhooks');
-    if (saved) {
-      try {
-        setWebhooks(JSON.parse(saved));
-      } catch (error) {
-        console.error('Failed to load webhooks:', error);
-      }
-    }
-  };
+  }, [userId, statusFilter]);
 
-  const loadRecentEvents = () => {
-    const saved = localStorage.getItem('ff_webhook_events');
-    if (saved) {
-      try {
-        const allEvents = JSON.parse(saved);
-        setEvents(allEvents.slice(0, 50)); // Show last 50 events
-      } catch (error) {
-        console.error('Failed to load events:', error);
-      }
+  const loadWebhooks = async () => {
+    try {
+      const { endpoints } = await webhooksRequest<{ endpoints: WebhookEndpoint[] }>('/endpoints');
+      setWebhooks(endpoints);
+    } catch (error) {
+      console.error('Failed to load webhooks:', error);
     }
   };
 
-  const saveWebhooks = (updatedWebhooks: WebhookEndpoint[]) => {
-    localStorage.setItem('ff_webhooks', JSON.stringify(updatedWebhooks));
-    setWebhooks(updatedWebhooks);
+  const loadRecentEvents = async () => {
+    try {
+      const status = statusFilter === 'all' ? '' : `&status=${statusFilter}`;
+      const { events } = await webhooksRequest<{ events: WebhookEvent[] }>(`/events?limit=50${status}`);
+      setEvents(events);
+    } catch (error) {
+      console.error('Failed to load events:', error);
+    }
   };
 
   const generateWebhookSecret = () => {
@@ -134,24 +173,23 @@ export function WebhookManager() {
     setIsLoading(true);
     
     try {
-      const webhook: WebhookEndpoint = {
-        id: `webhook_${Date.now()}`,
-        url: newWebhook.url,
-        events: newWebhook.events,
-        secret: newWebhook.secret || crypto.randomUUID(),
-        active: newWebhook.active,
-        description: newWebhook.description,
-        deliveryCount: 0,
-        failureCount: 0
-      };
+      const { endpoint: webhook } = await webhooksRequest<{ endpoint: WebhookEndpoint }>('/endpoints', {
+        method: 'POST',
+        body: JSON.stringify({
+          url: newWebhook.url,
+          events: newWebhook.events,
+          secret: newWebhook.secret || crypto.randomUUID(),
+          active: newWebhook.active,
+          description: newWebhook.description
+        })
+      });
 
       // Register webhook with GitHub if it's a GitHub repository webhook
       if (newWebhook.url.includes('github.com') || newWebhook.events.includes('push')) {
         await registerGitHubWebhook(webhook);
       }
 
-      const updatedWebhooks = [...webhooks, webhook];
-      saveWebhooks(updatedWebhooks);
+      setWebhooks(prev => [...prev, webhook]);
 
       setNewWebhook({
         url: '',
@@ -209,8 +247,8 @@ export function WebhookManager() {
         await unregisterGitHubWebhook(webhook);
       }
 
-      const updatedWebhooks = webhooks.filter(w => w.id !== webhookId);
-      saveWebhooks(updatedWebhooks);
+      await webhooksRequest(`/endpoints/${webhookId}`, { method: 'DELETE' });
+      setWebhooks(prev => prev.filter(w => w.id !== webhookId));
       toast.success('Webhook deleted successfully');
     } catch (error) {
       console.error('Failed to delete webhook:', error);
@@ -224,56 +262,37 @@ export function WebhookManager() {
   };
 
   const toggleWebhook = async (webhookId: string) => {
-    const updatedWebhooks = webhooks.map(webhook => 
-      webhook.id === webhookId 
-        ? { ...webhook, active: !webhook.active }
-        : webhook
-    );
-    saveWebhooks(updatedWebhooks);
-    toast.success('Webhook status updated');
-  };
-
-  const testWebhook = async (webhookId: string) => {
     const webhook = webhooks.find(w => w.id === webhookId);
     if (!webhook) return;
 
+    try {
+      const { endpoint } = await webhooksRequest<{ endpoint: WebhookEndpoint }>(`/endpoints/${webhookId}`, {
+        method: 'PATCH',
+        body: JSON.stringify({ active: !webhook.active })
+      });
+      setWebhooks(prev => prev.map(w => w.id === webhookId ? endpoint : w));
+      toast.success('Webhook status updated');
+    } catch (error) {
+      console.error('Failed to update webhook:', error);
+      toast.error('Failed to update webhook');
+    }
+  };
+
+  const testWebhook = async (webhookId: string) => {
     setIsLoading(true);
     
     try {
-      // Simulate webhook test
-      const testPayload = {
-        test: true,
-        timestamp: new Date().toISOString(),
-        event_type: 'ping',
-        source: 'FlashFusion'
-      };
-
-      // In production, this would make an actual HTTP request
-      console.log('Testing webhook:', webhook.url, testPayload);
-      
-      // Simulate success
-      const event: WebhookEvent = {
-        id: `event_${Date.now()}`,
-        type: 'ping',
-        timestamp: new Date().toISOString(),
-        status: 'success',
-        payload: testPayload,
-        endpoint: webhook.url,
-        retryCount: 0,
-        processingTime: Math.floor(Math.random() * 500) + 100,
-        response: {
-          status: 200,
-          body: 'OK'
-        }
-      };
-
-      const savedEvents = localStorage.getItem('ff_webhook_events');
-      const allEvents = savedEvents ? JSON.parse(savedEvents) : [];
-      const updatedEvents = [event, ...allEvents];
-      localStorage.setItem('ff_webhook_events', JSON.stringify(updatedEvents));
-      
-      loadRecentEvents();
-      toast.success('Webhook test completed successfully');
+      // The ping goes through the delivery queue, so a failure is retried like any other event
+      const { event } = await webhooksRequest<{ event: WebhookEvent }>(`/endpoints/${webhookId}/test`, {
+        method: 'POST'
+      });
+
+      if (event.status === 'succeeded') {
+        toast.success('Webhook test completed successfully');
+      } else {
+        toast.error(`Webhook test failed: ${event.lastError || event.status}`);
+      }
+      await Promise.all([loadWebhooks(), loadRecentEvents()]);
     } catch (error) {
       console.error('Webhook test failed:', error);
       toast.error('Webhook test failed');
@@ -282,6 +301,28 @@ export function WebhookManager() {
     }
   };
 
+  const replayEvent = async (eventId: string) => {
+    setReplayingId(eventId);
+
+    try {
+      const { event } = await webhooksRequest<{ event: WebhookEvent }>(`/events/${eventId}/replay`, {
+        method: 'POST'
+      });
+
+      if (event.status === 'succeeded') {
+        toast.success('Event replayed successfully');
+      } else {
+        toast.error(`Replay failed: ${event.lastError || event.status}`);
+      }
+      await loadRecentEvents();
+    } catch (error) {
+      console.error('Failed to replay event:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to replay event');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
   const copyWebhookURL = (url: string) => {
     navigator.clipboard.writeText(url);
     toast.success('Webhook URL copied to clipboard');
@@ -289,11 +330,14 @@ export function WebhookManager() {
 
   const getStatusIcon = (status: WebhookEvent['status']) => {
     switch (status) {
-      case 'success':
+      case 'succeeded':
         return <CheckCircle className="h-4 w-4 text-ff-success" />;
       case 'failed':
+        return <RefreshCw className="h-4 w-4 text-ff-warning" />;
+      case 'dead_letter':
         return <XCircle className="h-4 w-4 text-ff-error" />;
       case 'pending':
+      case 'processing':
         return <Clock className="h-4 w-4 text-ff-warning" />;
       default:
         return null;
@@ -611,10 +655,27 @@ export function WebhookManager() {
         <TabsContent value="events" className="space-y-6">
           <Card className="ff-card-interactive">
             <CardHeader>
-              <CardTitle className="flex items-center gap-2">
-                <Activity className="h-5 w-5 text-ff-primary" />
-                Recent Webhook Events
-              </CardTitle>
+              <div className="flex items-center justify-between">
+                <CardTitle className="flex items-center gap-2">
+                  <Activity className="h-5 w-5 text-ff-primary" />
+                  Recent Webhook Events
+                </CardTitle>
+                <div className="flex items-center gap-2">
+                  <Select value={statusFilter} onValueChange={value => setStatusFilter(value as typeof statusFilter)}>
+                    <SelectTrigger className="w-40">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {EVENT_STATUS_FILTERS.map(filter => (
+                        <SelectItem key={filter.id} value={filter.id}>{filter.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" variant="outline" onClick={loadRecentEvents} className="ff-hover-scale">
+                    <RefreshCw className="h-3 w-3" />
+                  </Button>
+                </div>
+              </div>
             </CardHeader>
             <CardContent>
               <div className="space-y-3">
@@ -625,25 +686,50 @@ export function WebhookManager() {
                   </div>
                 ) : (
                   events.map((event) => (
-                    <div key={event.id} className="flex items-center justify-between p-3 border border-ff-border rounded-lg">
-                      <div className="flex items-center space-x-3">
-                        {getStatusIcon(event.status)}
-                        <div>
-                          <div className="flex items-center gap-2">
-                            <span className="font-medium text-ff-text-primary">{event.type}</span>
-                            <Badge variant="outline" className="text-xs">
-                              {event.status}
-                            </Badge>
+                    <div key={event.id} className="p-3 border border-ff-border rounded-lg space-y-2">
+                      <div className="flex items-center justify-between">
+                        <div className="flex items-center space-x-3">
+                          {getStatusIcon(event.status)}
+                          <div>
+                            <div className="flex items-center gap-2">
+                              <span className="font-medium text-ff-text-primary">{event.type}</span>
+                              <Badge variant={event.status === 'dead_letter' ? 'destructive' : 'outline'} className="text-xs">
+                                {event.status.replace('_', ' ')}
+                              </Badge>
+                              <Badge variant="secondary" className="text-xs">
+                                {event.direction === 'outbound' ? 'outbound' : event.source}
+                              </Badge>
+                            </div>
+                            <p className="text-sm text-ff-text-muted">
+                              Attempt {event.retryCount} of {event.maxAttempts}
+                              {event.status === 'failed' && ` · next retry ${new Date(event.nextAttemptAt).toLocaleTimeString()}`}
+                            </p>
                           </div>
-                          <p className="text-sm text-ff-text-muted">{event.endpoint}</p>
+                        </div>
+                        <div className="flex items-center gap-3">
+                          <p className="text-xs text-ff-text-muted">
+                            {new Date(event.timestamp).toLocaleString()}
+                          </p>
+                          {(event.status === 'failed' || event.status === 'dead_letter' || event.status === 'succeeded') && (
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => replayEvent(event.id)}
+                              disabled={replayingId === event.id}
+                              className="ff-hover-scale"
+                            >
+                              <RotateCcw className={`h-3 w-3 mr-1 ${replayingId === event.id ? 'animate-spin' : ''}`} />
+                              Replay
+                            </Button>
+                          )}
                         </div>
                       </div>
-                      <div className="text-right">
-                        <p className="text-sm text-ff-text-primary">{event.processingTime}ms</p>
-                        <p className="text-xs text-ff-text-muted">
-                          {new Date(event.timestamp).toLocaleString()}
-                        </p>
-                      </div>
+                      {event.lastError && event.status !== 'succeeded' && (
+                        <div className="flex items-start gap-2 text-sm text-ff-error">
+                          <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                          <span className="break-all">{event.lastError}</span>
+                        </div>
+                      )}
                     </div>
                   ))
                 )}
@@ -698,7 +784,7 @@ export function WebhookManager() {
                   <div className="flex items-center justify-between">
                     <div>
                       <Label>Auto-retry Failed Deliveries</Label>
-                      <p className="text-sm text-ff-text-muted">Retry failed webhook deliveries</p>
+                      <p className="text-sm text-ff-text-muted">Retry with exponential backoff, then move to the dead letter</p>
                     </div>
                     <Switch defaultChecked />
                   </div>
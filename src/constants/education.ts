@@ -327,6 +327,13 @@ export const FILE_FORMATS = [
   { id: 'json', name: 'JSON Data', extension: '.json', icon: '💾' }
 ] as const;
 
+// LMS Interchange Formats
+export const LMS_EXPORT_FORMATS = [
+  { id: 'qti', name: 'IMS QTI 2.1 Package', extension: '.zip', icon: '✅' },
+  { id: 'common-cartridge', name: 'IMS Common Cartridge', extension: '.imscc', icon: '🎒' },
+  { id: 'moodle', name: 'Moodle XML Quiz', extension: '.xml', icon: '🎓' }
+] as const;
+
 // Educational Tool Categories
 export const TOOL_CATEGORIES = [
   {
@@ -367,43 +374,49 @@ export const TOOL_CATEGORIES = [
   }
 ] as const;
 
-// Popular Educational Platforms for Export
+// Popular Educational Platforms for Export; `exports` are the files each imports, best first
 export const EDUCATIONAL_PLATFORMS = [
   {
     id: 'google-classroom',
     name: 'Google Classroom',
     formats: ['Google Docs', 'Google Sheets', 'Google Slides'],
-    icon: '🏫'
+    icon: '🏫',
+    exports: ['docx', 'pptx', 'xlsx', 'pdf']
   },
   {
     id: 'canvas',
     name: 'Canvas LMS',
     formats: ['HTML', 'PDF', 'SCORM'],
-    icon: '🎨'
+    icon: '🎨',
+    exports: ['common-cartridge', 'qti', 'html', 'pdf']
   },
   {
     id: 'blackboard',
     name: 'Blackboard',
     formats: ['HTML', 'PDF', 'QTI'],
-    icon: '⚫'
+    icon: '⚫',
+    exports: ['qti', 'common-cartridge', 'html', 'pdf']
   },
   {
     id: 'moodle',
     name: 'Moodle',
     formats: ['HTML', 'PDF', 'SCORM'],
-    icon: '🎓'
+    icon: '🎓',
+    exports: ['moodle', 'common-cartridge', 'html', 'pdf']
   },
   {
     id: 'schoology',
     name: 'Schoology',
     formats: ['PDF', 'Google Docs', 'HTML'],
-    icon: '🏛️'
+    icon: '🏛️',
+    exports: ['common-cartridge', 'qti', 'docx', 'pdf']
   },
   {
     id: 'edmodo',
     name: 'Edmodo',
     formats: ['PDF', 'Image', 'Document'],
-    icon: '📚'
+    icon: '📚',
+    exports: ['pdf', 'docx']
   }
 ] as const;
 
@@ -455,6 +468,8 @@ export type SubjectArea = typeof SUBJECTS[number]['id'];
 export type ContentType = keyof typeof CONTENT_TYPES;
 export type AssessmentType = typeof ASSESSMENT_TYPES[number]['id'];
 export type FileFormat = typeof FILE_FORMATS[number]['id'];
+export type LmsExportFormat = typeof LMS_EXPORT_FORMATS[number]['id'];
+export type ExportFormat = FileFormat | LmsExportFormat;
 export type ToolCategory = typeof TOOL_CATEGORIES[number]['id'];
 export type EducationalPlatform = typeof EDUCATIONAL_PLATFORMS[number]['id'];
 export type GenerationPreset = keyof typeof GENERATION_PRESETS;
\ No newline at end of file
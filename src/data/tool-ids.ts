@@ -0,0 +1,47 @@
+/**
+ * Ids of every tool a user can run: the catalogue in `tools.ts` plus the
+ * built-in Full-Stack App Builder. Kept free of imports so the edge functions
+ * can load it; the XP ledger only credits tool runs reported with these ids.
+ */
+export const TOOL_IDS: readonly string[] = [
+  'creator-content-pipeline',
+  'next-app-generator',
+  'react-component-builder',
+  'ai-design-system',
+  'seo-optimizer',
+  'performance-analyzer',
+  'vue-app-generator',
+  'svelte-app-generator',
+  'angular-app-generator',
+  'api-generator',
+  'graphql-generator',
+  'logo-generator',
+  'color-palette-generator',
+  'icon-generator',
+  'mockup-generator',
+  'bundle-analyzer',
+  'image-optimizer',
+  'code-splitter',
+  'lazy-loader',
+  'accessibility-checker',
+  'security-scanner',
+  'code-quality-analyzer',
+  'lighthouse-runner',
+  'deployment-automation',
+  'testing-automation',
+  'backup-automation',
+  'monitoring-setup',
+  'code-review-assistant',
+  'documentation-generator',
+  'changelog-generator',
+  'readme-generator',
+  'flutter-generator',
+  'react-native-generator',
+  'blockchain-generator',
+  'ai-chatbot-builder',
+  'full-stack-builder'
+];
+
+export function isToolId(id: unknown): id is string {
+  return typeof id === 'string' && TOOL_IDS.includes(id);
+}
@@ -1,33 +1,25 @@
 /**
  * FlashFusion Route Navigation Hook
- * Centralized routing logic with smooth transitions
+ * Page-level navigation for the app interface, backed by the URL router
  */
 
-import { useState, useCallback } from 'react';
+import { useCallback } from 'react';
+import { useRouter } from '../components/router';
+import { routePath, type RouteArgs } from '../components/layout/route-constants';
+import type { PageType } from '../types';
 
-export type PageRoute = 'home' | 'dashboard' | 'tools' | 'projects' | 'deployments' | 
-                        'analytics' | 'collaboration' | 'templates' | 'integrations' | 
-                        'settings' | 'about' | 'pricing' | 'contact' | 'ai-models' | 
-                        'live-collaboration' | 'cicd-pipeline' | 'workflows' |
-                        'ai-creation' | 'one-click-publishing' | 'creator-commerce' |
-                        'enterprise-security' | 'smart-analytics' | 'quality-assurance';
+export type PageRoute = PageType;
 
-export const useRouteNavigation = (initialRoute: PageRoute = 'home') => {
-  const [currentRoute, setCurrentRoute] = useState<PageRoute>(initialRoute);
-  const [isTransitioning, setIsTransitioning] = useState(false);
+export const useRouteNavigation = () => {
+  const { match, navigate } = useRouter();
 
-  const navigateToRoute = useCallback(async (route: PageRoute) => {
-    if (currentRoute === route) return; // Prevent unnecessary navigation
-    
-    setIsTransitioning(true);
-    await new Promise(resolve => setTimeout(resolve, 150)); // Smooth transition
-    setCurrentRoute(route);
-    setIsTransitioning(false);
-  }, [currentRoute]);
+  const navigateToRoute = useCallback(<P extends PageType>(route: P, ...params: RouteArgs<P>) => {
+    navigate(routePath(route, ...params));
+  }, [navigate]);
 
   return {
-    currentRoute,
-    isTransitioning,
+    currentRoute: match?.page ?? null,
+    routeParams: match?.params ?? {},
     navigateToRoute
   };
-};
\ No newline at end of file
+};
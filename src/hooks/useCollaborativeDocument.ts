@@ -0,0 +1,221 @@
+/**
+ * @fileoverview Collaborative document hook
+ * @chunk hooks
+ * @category collaboration
+ *
+ * Keeps a text document in sync with a collaboration session over the
+ * realtime WebSocket. Local edits are sent as operations and remote ones are
+ * merged with operational transformation, so concurrent editors no longer
+ * overwrite each other.
+ *
+ * @example
+ * ```tsx
+ * const { content, isConnected, updateContent } = useCollaborativeDocument({
+ *   sessionId, projectId, userId
+ * });
+ * <textarea value={content} onChange={e => updateContent(e.target.value)} />
+ * ```
+ */
+
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { supabaseConfig } from '../lib/supabase';
+import { getSecureAccessToken } from '../utils/auth-protection';
+import {
+  OTClient,
+  applyOperation,
+  diffToOperation,
+  type TextOperation
+} from '../utils/text-operations';
+
+const REALTIME_PATH = '/functions/v1/make-server-88829a40/realtime';
+const MAX_RECONNECT_DELAY = 10000;
+
+interface UseCollaborativeDocumentOptions {
+  sessionId?: string;
+  projectId: string;
+  userId: string;
+  userName?: string;
+  /** Called with each merged remote operation, e.g. to move the local caret */
+  onRemoteOperation?: (operation: TextOperation) => void;
+}
+
+interface OperationPayload {
+  version: number;
+  operation: TextOperation;
+  client_id: string;
+  op_id: string;
+}
+
+const toVersionedOperation = (payload: OperationPayload) => ({
+  version: payload.version,
+  operation: payload.operation,
+  clientId: payload.client_id,
+  opId: payload.op_id
+});
+
+export function useCollaborativeDocument({
+  sessionId,
+  projectId,
+  userId,
+  userName,
+  onRemoteOperation
+}: UseCollaborativeDocumentOptions) {
+  const [content, setContent] = useState('');
+  const [isConnected, setIsConnected] = useState(false);
+  const [isReady, setIsReady] = useState(false);
+
+  const contentRef = useRef('');
+  const clientRef = useRef<OTClient | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const onRemoteOperationRef = useRef(onRemoteOperation);
+  onRemoteOperationRef.current = onRemoteOperation;
+
+  const replaceContent = useCallback((text: string) => {
+    contentRef.current = text;
+    setContent(text);
+  }, []);
+
+  useEffect(() => {
+    if (!sessionId) return;
+
+    let disposed = false;
+    let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+    let reconnectDelay = 1000;
+    const clientId = crypto.randomUUID();
+    clientRef.current = null;
+
+    // While disconnected the OT client keeps the edit pending and resends it after the sync
+    const send = (type: 'operation' | 'sync', data: Record<string, unknown>) => {
+      if (socketRef.current?.readyState !== WebSocket.OPEN) return;
+      socketRef.current.send(JSON.stringify({
+        type,
+        user_id: userId,
+        user_name: userName || 'User',
+        project_id: projectId,
+        data: { session_id: sessionId, ...data },
+        timestamp: new Date().toISOString()
+      }));
+    };
+
+    const createClient = (version: number) => new OTClient(version, clientId, {
+      sendOperation: (operation, baseVersion, opId) => {
+        send('operation', { operation, base_version: baseVersion, client_id: clientId, op_id: opId });
+      },
+      applyOperation: (operation) => {
+        replaceContent(applyOperation(contentRef.current, operation));
+        onRemoteOperationRef.current?.(operation);
+      }
+    });
+
+    const handleMessage = (message: any) => {
+      if (message.session_id !== sessionId && message.data?.session_id !== sessionId) return;
+      const client = clientRef.current;
+
+      switch (message.type) {
+        case 'document_sync':
+          if (client) {
+            // Reconnected: fetch what we missed before resending pending edits
+            send('sync', { version: client.version });
+          } else {
+            clientRef.current = createClient(message.version);
+            replaceContent(message.content);
+            setIsReady(true);
+          }
+          break;
+        case 'operations':
+          if (client) {
+            (message.operations as OperationPayload[]).forEach(payload => client.applyServer(toVersionedOperation(payload)));
+            client.resend();
+          }
+          break;
+        case 'operation':
+          client?.applyServer(toVersionedOperation(message.data));
+          break;
+        case 'document_reset':
+          if (client?.hasPendingChanges) {
+            toast.error('Your latest edits could not be merged and were discarded');
+          }
+          client?.reset(message.version);
+          replaceContent(message.content);
+          break;
+        case 'operation_rejected':
+          console.error('Collaborative edit rejected:', message.error);
+          // Start again from the server's copy
+          send('sync', { version: -1 });
+          break;
+      }
+    };
+
+    const connect = async () => {
+      const token = await getSecureAccessToken();
+      if (disposed) return;
+      if (!token) {
+        toast.error('Sign in to edit collaboratively');
+        return;
+      }
+
+      const params = new URLSearchParams({
+        project_id: projectId,
+        user_id: userId,
+        session_id: sessionId,
+        token
+      });
+      const socket = new WebSocket(`${supabaseConfig.url.replace(/^http/, 'ws').replace(/\/+$/, '')}${REALTIME_PATH}?${params}`);
+      socketRef.current = socket;
+
+      socket.onopen = () => {
+        reconnectDelay = 1000;
+        setIsConnected(true);
+      };
+
+      socket.onmessage = (event) => {
+        try {
+          handleMessage(JSON.parse(event.data));
+        } catch (error) {
+          console.error('Collaborative document message error:', error);
+        }
+      };
+
+      socket.onclose = (event) => {
+        setIsConnected(false);
+        if (disposed) return;
+        // Policy violations (bad token, not a participant) will not fix themselves
+        if (event.code === 1008) {
+          toast.error(`Could not join the collaborative session: ${event.reason || 'access denied'}`);
+          return;
+        }
+        reconnectTimer = setTimeout(connect, reconnectDelay);
+        reconnectDelay = Math.min(reconnectDelay * 2, MAX_RECONNECT_DELAY);
+      };
+    };
+
+    connect().catch(error => console.error('Collaborative document connection error:', error));
+
+    return () => {
+      disposed = true;
+      if (reconnectTimer) clearTimeout(reconnectTimer);
+      socketRef.current?.close();
+      socketRef.current = null;
+      clientRef.current = null;
+      setIsConnected(false);
+      setIsReady(false);
+    };
+  }, [sessionId, projectId, userId, userName, replaceContent]);
+
+  /**
+   * Apply a local edit (the editor's full new value) and send it to the session
+   */
+  const updateContent = useCallback((text: string) => {
+    const operation = diffToOperation(contentRef.current, text);
+    replaceContent(text);
+    clientRef.current?.applyLocal(operation);
+  }, [replaceContent]);
+
+  return {
+    content,
+    isConnected,
+    isReady,
+    updateContent
+  };
+}
@@ -1,17 +1,16 @@
 import { useState, useEffect, useCallback } from 'react';
-import { GamificationService, type UserStats, type Achievement } from '../services/GamificationService';
+import { GamificationService, type UserStats, type XPAward } from '../services/GamificationService';
 import { toast } from 'sonner@2.0.3';
 
 interface UseGamificationReturn {
   userStats: UserStats | null;
   isLoading: boolean;
   error: string | null;
-  addXP: (points: number, source: string, action: string, metadata?: Record<string, any>) => Promise<void>;
-  recordToolUsage: (toolName: string, isFirstTime?: boolean) => Promise<void>;
-  recordProjectCompletion: (projectName: string, projectType: string) => Promise<void>;
-  recordCodeGeneration: (codeType: string, linesGenerated: number) => Promise<void>;
+  recordToolUsage: (toolId: string) => Promise<void>;
+  recordCodeGeneration: (toolId: string) => Promise<void>;
+  recordDeployment: (deploymentId: string) => Promise<void>;
+  recordProjectCompletion: (projectId: string) => Promise<void>;
   recordDailyLogin: () => Promise<void>;
-  unlockSpecialAchievement: (achievementId: string) => Promise<boolean>;
   refreshStats: () => Promise<void>;
 }
 
@@ -52,6 +51,7 @@ export function useGamification(userId?: string): UseGamificationReturn {
           streak_days: 1,
           last_activity_date: new Date().toISOString().split('T')[0],
           projects_completed: 0,
+          deployments: 0,
           tools_used: [],
           total_time_spent: 0,
           rank: 0,
@@ -80,6 +80,7 @@ export function useGamification(userId?: string): UseGamificationReturn {
         streak_days: 1,
         last_activity_date: new Date().toISOString().split('T')[0],
         projects_completed: 0,
+        deployments: 0,
         tools_used: [],
         total_time_spent: 0,
         rank: 0,
@@ -103,106 +104,42 @@ export function useGamification(userId?: string): UseGamificationReturn {
     return () => clearInterval(interval);
   }, [refreshStats]);
 
-  // Add XP with UI feedback
-  const addXP = useCallback(async (
-    points: number, 
-    source: string, 
-    action: string, 
-    metadata: Record<string, any> = {}
-  ) => {
-    try {
-      const sourceMap = {
-        'tool_usage': 'tool_usage' as const,
-        'project_completion': 'project_completion' as const,
-        'achievement': 'achievement' as const,
-        'daily_streak': 'daily_streak' as const,
-        'collaboration': 'collaboration' as const,
-        'special': 'special' as const
-      };
-
-      const mappedSource = sourceMap[source as keyof typeof sourceMap] || 'special' as const;
-
-      const updatedStats = await GamificationService.addXP(
-        currentUserId,
-        points,
-        mappedSource,
-        action,
-        metadata
-      );
-
-      if (updatedStats) {
-        setUserStats(updatedStats);
-      }
-    } catch (err) {
-      console.error('Failed to add XP:', err);
-      toast.error('Failed to update XP. Please try again.');
+  // The server answers every reported event with the caller's updated stats
+  const applyAward = useCallback((award: XPAward | null) => {
+    if (award) {
+      setUserStats(award.stats);
     }
-  }, [currentUserId]);
+  }, []);
 
-  // Record tool usage
-  const recordToolUsage = useCallback(async (toolName: string, isFirstTime: boolean = false) => {
-    try {
-      await GamificationService.recordToolUsage(currentUserId, toolName, isFirstTime);
-      await refreshStats();
-    } catch (err) {
-      console.error('Failed to record tool usage:', err);
-    }
-  }, [currentUserId, refreshStats]);
+  const recordToolUsage = useCallback(async (toolId: string) => {
+    applyAward(await GamificationService.recordToolUsage(toolId));
+  }, [applyAward]);
 
-  // Record project completion
-  const recordProjectCompletion = useCallback(async (projectName: string, projectType: string) => {
-    try {
-      await GamificationService.recordProjectCompletion(currentUserId, projectName, projectType);
-      await refreshStats();
-    } catch (err) {
-      console.error('Failed to record project completion:', err);
-    }
-  }, [currentUserId, refreshStats]);
+  const recordCodeGeneration = useCallback(async (toolId: string) => {
+    applyAward(await GamificationService.recordCodeGeneration(toolId));
+  }, [applyAward]);
 
-  // Record code generation
-  const recordCodeGeneration = useCallback(async (codeType: string, linesGenerated: number) => {
-    try {
-      await GamificationService.recordCodeGeneration(currentUserId, codeType, linesGenerated);
-      await refreshStats();
-    } catch (err) {
-      console.error('Failed to record code generation:', err);
-    }
-  }, [currentUserId, refreshStats]);
+  const recordDeployment = useCallback(async (deploymentId: string) => {
+    applyAward(await GamificationService.recordDeployment(deploymentId));
+  }, [applyAward]);
 
-  // Record daily login
-  const recordDailyLogin = useCallback(async () => {
-    try {
-      await GamificationService.recordDailyLogin(currentUserId);
-      await refreshStats();
-    } catch (err) {
-      console.error('Failed to record daily login:', err);
-    }
-  }, [currentUserId, refreshStats]);
+  const recordProjectCompletion = useCallback(async (projectId: string) => {
+    applyAward(await GamificationService.recordProjectCompletion(projectId));
+  }, [applyAward]);
 
-  // Unlock special achievement
-  const unlockSpecialAchievement = useCallback(async (achievementId: string): Promise<boolean> => {
-    try {
-      const success = await GamificationService.unlockSpecialAchievement(currentUserId, achievementId);
-      if (success) {
-        await refreshStats();
-      }
-      return success;
-    } catch (err) {
-      console.error('Failed to unlock achievement:', err);
-      return false;
-    }
-  }, [currentUserId, refreshStats]);
+  const recordDailyLogin = useCallback(async () => {
+    applyAward(await GamificationService.recordDailyLogin());
+  }, [applyAward]);
 
   return {
     userStats,
     isLoading,
     error,
-    addXP,
     recordToolUsage,
-    recordProjectCompletion,
     recordCodeGeneration,
+    recordDeployment,
+    recordProjectCompletion,
     recordDailyLogin,
-    unlockSpecialAchievement,
     refreshStats
   };
 }
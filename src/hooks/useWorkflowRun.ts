@@ -0,0 +1,67 @@
+/**
+ * @fileoverview Run workflow graphs from a builder canvas
+ * @chunk hooks
+ * @category automation
+ *
+ * Wraps WorkflowExecutionService for the builders: tracks per-node status
+ * while a run is in progress, keeps the last execution for the log panel,
+ * and lets the user cancel.
+ *
+ * @example
+ * ```tsx
+ * const { run, nodeLogs, execution, isRunning, cancel } = useWorkflowRun();
+ * await run(toWorkflowGraph(flow), { dryRun: true });
+ * ```
+ */
+
+import { useState, useCallback, useRef } from 'react';
+import { toast } from 'sonner@2.0.3';
+import { WorkflowExecutionService } from '../services/WorkflowExecutionService';
+import type { NodeExecutionLog, WorkflowExecution, WorkflowGraph } from '../types/workflow';
+
+export function useWorkflowRun() {
+  const [nodeLogs, setNodeLogs] = useState<Record<string, NodeExecutionLog>>({});
+  const [execution, setExecution] = useState<WorkflowExecution | null>(null);
+  const [isRunning, setIsRunning] = useState(false);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const run = useCallback(async (
+    graph: WorkflowGraph,
+    options: { dryRun?: boolean; triggerData?: Record<string, unknown> } = {}
+  ): Promise<WorkflowExecution | null> => {
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setNodeLogs({});
+    setExecution(null);
+    setIsRunning(true);
+
+    try {
+      const result = await WorkflowExecutionService.run(graph, {
+        ...options,
+        signal: controller.signal,
+        onNodeUpdate: log => setNodeLogs(prev => ({ ...prev, [log.nodeId]: log }))
+      });
+      setExecution(result);
+      const mode = result.dryRun ? 'Dry run' : 'Run';
+      if (result.status === 'completed') toast.success(`${mode} completed in ${result.durationMs} ms`);
+      else if (result.status === 'canceled') toast.info(`${mode} canceled`);
+      else toast.error(`${mode} failed: ${result.error}`);
+      return result;
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Workflow run failed');
+      return null;
+    } finally {
+      controllerRef.current = null;
+      setIsRunning(false);
+    }
+  }, []);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+
+  const reset = useCallback(() => {
+    setNodeLogs({});
+    setExecution(null);
+  }, []);
+
+  return { run, cancel, reset, nodeLogs, execution, isRunning };
+}
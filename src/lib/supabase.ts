@@ -452,6 +452,144 @@ export interface Database {
           updated_at?: string;
         };
       };
+      agent_workflows: {
+        Row: {
+          id: string;
+          workspace_id: string | null;
+          user_id: string | null;
+          name: string;
+          description: string | null;
+          workflow_definition: any;
+          trigger_config: any;
+          status: 'draft' | 'active' | 'paused' | 'archived';
+          total_runs: number;
+          successful_runs: number;
+          last_run_at: string | null;
+          created_at: string;
+          updated_at: string;
+        };
+        Insert: {
+          id?: string;
+          workspace_id?: string | null;
+          user_id?: string | null;
+          name: string;
+          description?: string | null;
+          workflow_definition: any;
+          trigger_config?: any;
+          status?: 'draft' | 'active' | 'paused' | 'archived';
+          updated_at?: string;
+        };
+        Update: {
+          name?: string;
+          description?: string | null;
+          workflow_definition?: any;
+          trigger_config?: any;
+          status?: 'draft' | 'active' | 'paused' | 'archived';
+          updated_at?: string;
+        };
+      };
+      workflow_executions: {
+        Row: {
+          id: string;
+          workflow_id: string;
+          trigger_data: any;
+          execution_log: any;
+          status: 'running' | 'completed' | 'failed' | 'canceled';
+          error_message: string | null;
+          started_at: string;
+          completed_at: string | null;
+          duration_ms: number | null;
+        };
+        Insert: {
+          id?: string;
+          workflow_id: string;
+          trigger_data?: any;
+          execution_log?: any;
+          status?: 'running' | 'completed' | 'failed' | 'canceled';
+          error_message?: string | null;
+          started_at?: string;
+          completed_at?: string | null;
+          duration_ms?: number | null;
+        };
+        Update: {
+          execution_log?: any;
+          status?: 'running' | 'completed' | 'failed' | 'canceled';
+          error_message?: string | null;
+          completed_at?: string | null;
+          duration_ms?: number | null;
+        };
+      };
+      assessment_attempts: {
+        Row: {
+          id: string;
+          user_id: string;
+          content_id: string;
+          assessment_id: string;
+          path_id: string;
+          module_id: string;
+          responses: any;
+          grades: any;
+          score: number;
+          max_score: number;
+          status: 'graded' | 'needs-review';
+          started_at: string;
+          submitted_at: string;
+          reviewed_at: string | null;
+        };
+        Insert: {
+          id?: string;
+          user_id?: string;
+          content_id: string;
+          assessment_id: string;
+          path_id: string;
+          module_id: string;
+          responses?: any;
+          grades?: any;
+          score?: number;
+          max_score?: number;
+          status?: 'graded' | 'needs-review';
+          started_at: string;
+          submitted_at?: string;
+        };
+        Update: {
+          grades?: any;
+          score?: number;
+          status?: 'graded' | 'needs-review';
+          reviewed_at?: string | null;
+        };
+      };
+      study_progress: {
+        Row: {
+          user_id: string;
+          path_id: string;
+          started_at: string;
+          last_accessed_at: string;
+          completed_modules: string[];
+          current_module: string | null;
+          overall_progress: number;
+          time_spent: number;
+          scores: any;
+        };
+        Insert: {
+          user_id?: string;
+          path_id: string;
+          started_at: string;
+          last_accessed_at: string;
+          completed_modules?: string[];
+          current_module?: string | null;
+          overall_progress?: number;
+          time_spent?: number;
+          scores?: any;
+        };
+        Update: {
+          last_accessed_at?: string;
+          completed_modules?: string[];
+          current_module?: string | null;
+          overall_progress?: number;
+          time_spent?: number;
+          scores?: any;
+        };
+      };
     };
     Views: {
       [_ in never]: never;
@@ -476,6 +614,10 @@ export type DailyTaskRow = Database['public']['Tables']['daily_tasks']['Row'];
 export type ToolUsageRow = Database['public']['Tables']['tool_usage']['Row'];
 export type DeploymentRow = Database['public']['Tables']['deployments']['Row'];
 export type IntegrationRow = Database['public']['Tables']['integrations']['Row'];
+export type AgentWorkflowRow = Database['public']['Tables']['agent_workflows']['Row'];
+export type WorkflowExecutionRow = Database['public']['Tables']['workflow_executions']['Row'];
+export type AssessmentAttemptRow = Database['public']['Tables']['assessment_attempts']['Row'];
+export type StudyProgressRow = Database['public']['Tables']['study_progress']['Row'];
 
 // Export demo mode status for other components to use
 export const isSupabaseConfigured = !isDemoMode;
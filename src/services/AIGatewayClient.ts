@@ -0,0 +1,202 @@
+import { supabaseConfig } from '../lib/supabase';
+import { getSecureAccessToken } from '../utils/auth-protection';
+import { readSSEData } from '../utils/sse-stream';
+
+/**
+ * FlashFusion AI Gateway Client
+ * Browser-side access to the edge AI gateway. Provider keys live only in the
+ * Supabase function secrets; the SPA authenticates with the user's session.
+ */
+
+export type GatewayProvider = 'openai' | 'anthropic' | 'google' | 'github' | 'xai' | 'deepseek';
+
+export interface GatewayRequest {
+  provider: GatewayProvider;
+  model: string;
+  prompt: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export interface GatewayResponse {
+  content: string;
+  model: string;
+  provider: GatewayProvider;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+export type GatewayStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'done'; model: string; provider: GatewayProvider; usage: GatewayResponse['usage'] };
+
+export interface StreamOptions {
+  /** Called for every streamed chunk with the text received so far */
+  onToken?: (token: string, fullText: string) => void;
+  /** Abort to cancel generation; the partial text is discarded */
+  signal?: AbortSignal;
+}
+
+export interface GatewayQuota {
+  requestsUsed: number;
+  requestsLimit: number;
+  tokensUsed: number;
+  tokensLimit: number;
+  resetsAt: string;
+}
+
+/**
+ * Errors raised by the gateway carry the HTTP status so callers can
+ * distinguish an exhausted plan allowance (402) or daily quota (429 with
+ * `code: 'quota_exceeded'`) from upstream failures (5xx and other 429s).
+ */
+export type GatewayError = Error & { status: number; code?: string };
+
+const GATEWAY_PATH = '/functions/v1/make-server-88829a40/ai/gateway';
+
+class AIGatewayClientClass {
+  private providersPromise: Promise<Set<GatewayProvider>> | null = null;
+
+  private get baseUrl(): string {
+    return `${supabaseConfig.url.replace(/\/+$/, '')}${GATEWAY_PATH}`;
+  }
+
+  private async buildHeaders(): Promise<Record<string, string>> {
+    const accessToken = await getSecureAccessToken();
+    if (!accessToken) {
+      throw this.createError('Sign in to use AI features', 401);
+    }
+
+    return {
+      'Authorization': `Bearer ${accessToken}`,
+      'apikey': supabaseConfig.anonKey,
+      'Content-Type': 'application/json'
+    };
+  }
+
+  private createError(message: string, status: number, code?: string): GatewayError {
+    return Object.assign(new Error(message), { status, code });
+  }
+
+  /**
+   * Run a completion through the gateway
+   */
+  public async generate(request: GatewayRequest, signal?: AbortSignal): Promise<GatewayResponse> {
+    const response = await fetch(`${this.baseUrl}/generate`, {
+      method: 'POST',
+      headers: await this.buildHeaders(),
+      body: JSON.stringify(request),
+      signal
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw this.createError(
+        `AI Gateway Error: ${response.status} - ${errorData.message || errorData.error || response.statusText}`,
+        response.status,
+        errorData.code
+      );
+    }
+
+    return response.json();
+  }
+
+  /**
+   * Stream a completion through the gateway. Yields text deltas as they arrive
+   * and finishes with a `done` event carrying token usage. Aborting `signal`
+   * cancels both the browser request and the upstream provider call.
+   */
+  public async *stream(request: GatewayRequest, signal?: AbortSignal): AsyncGenerator<GatewayStreamEvent> {
+    const response = await fetch(`${this.baseUrl}/stream`, {
+      method: 'POST',
+      headers: {
+        ...(await this.buildHeaders()),
+        'Accept': 'text/event-stream'
+      },
+      body: JSON.stringify(request),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
+      throw this.createError(
+        `AI Gateway Error: ${response.status} - ${errorData.message || errorData.error || response.statusText}`,
+        response.status,
+        errorData.code
+      );
+    }
+
+    for await (const data of readSSEData(response.body, signal)) {
+      const event = JSON.parse(data);
+
+      if (event.type === 'error') {
+        throw this.createError(`AI Gateway Error: ${event.message}`, 502);
+      }
+
+      yield event as GatewayStreamEvent;
+
+      if (event.type === 'done') {
+        return;
+      }
+    }
+
+    throw this.createError('AI Gateway Error: stream ended unexpectedly', 502);
+  }
+
+  /**
+   * Providers the gateway holds keys for. Cached until refresh() is called.
+   */
+  public async getAvailableProviders(): Promise<Set<GatewayProvider>> {
+    if (supabaseConfig.isDemoMode) {
+      return new Set();
+    }
+
+    if (!this.providersPromise) {
+      this.providersPromise = fetch(`${this.baseUrl}/providers`, {
+        headers: { 'apikey': supabaseConfig.anonKey }
+      })
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`Failed to fetch AI providers: ${response.status}`);
+          }
+          const data: { providers: Array<{ provider: GatewayProvider; available: boolean }> } = await response.json();
+          return new Set(data.providers.filter(p => p.available).map(p => p.provider));
+        })
+        .catch(error => {
+          console.error('Failed to load AI gateway providers:', error);
+          this.providersPromise = null;
+          return new Set<GatewayProvider>();
+        });
+    }
+
+    return this.providersPromise;
+  }
+
+  /**
+   * Current user's daily quota
+   */
+  public async getQuota(): Promise<GatewayQuota> {
+    const response = await fetch(`${this.baseUrl}/quota`, {
+      headers: await this.buildHeaders()
+    });
+
+    if (!response.ok) {
+      throw this.createError(`Failed to fetch AI quota: ${response.status}`, response.status);
+    }
+
+    const data = await response.json();
+    return data.quota;
+  }
+
+  public refresh(): void {
+    this.providersPromise = null;
+  }
+}
+
+// Export singleton instance
+export const AIGatewayClient = new AIGatewayClientClass();
+export default AIGatewayClient;
@@ -0,0 +1,239 @@
+import type { LocalModelInfo } from './LocalModelClient';
+
+/**
+ * FlashFusion AI Model Catalog
+ * Every model the platform can route to, with the ratings and limits the
+ * provider router uses to pick and order candidates.
+ */
+
+export type AIProvider = 'openai' | 'anthropic' | 'google' | 'meta' | 'local' | 'github' | 'xai' | 'deepseek';
+
+export type AIModel = {
+  id: string;
+  name: string;
+  provider: AIProvider;
+  description: string;
+  capabilities: string[];
+  costPer1k: number;
+  maxTokens: number;
+  speedRating: 1 | 2 | 3 | 4 | 5; // 1 = slowest, 5 = fastest
+  qualityRating: 1 | 2 | 3 | 4 | 5; // 1 = lowest, 5 = highest
+  available: boolean;
+};
+
+// Available AI Models Configuration
+export const AI_MODELS: AIModel[] = [
+  // OpenAI Models
+  {
+    id: 'gpt-4-turbo',
+    name: 'GPT-4 Turbo',
+    provider: 'openai',
+    description: 'Most capable OpenAI model for complex code generation',
+    capabilities: ['code-generation', 'architecture', 'debugging', 'optimization'],
+    costPer1k: 0.03,
+    maxTokens: 128000,
+    speedRating: 4,
+    qualityRating: 5,
+    available: true
+  },
+  {
+    id: 'gpt-4o',
+    name: 'GPT-4o',
+    provider: 'openai',
+    description: 'Latest multimodal GPT-4 model with enhanced capabilities',
+    capabilities: ['code-generation', 'architecture', 'multimodal', 'optimization'],
+    costPer1k: 0.025,
+    maxTokens: 128000,
+    speedRating: 5,
+    qualityRating: 5,
+    available: true
+  },
+  {
+    id: 'gpt-3.5-turbo',
+    name: 'GPT-3.5 Turbo',
+    provider: 'openai',
+    description: 'Fast and cost-effective for simple tasks',
+    capabilities: ['code-generation', 'basic-debugging'],
+    costPer1k: 0.002,
+    maxTokens: 16384,
+    speedRating: 5,
+    qualityRating: 3,
+    available: true
+  },
+
+  // Anthropic (Claude) Models
+  {
+    id: 'claude-3-5-sonnet-20241022',
+    name: 'Claude 3.5 Sonnet',
+    provider: 'anthropic',
+    description: 'Latest Claude model with excellent coding and reasoning abilities',
+    capabilities: ['code-generation', 'architecture', 'analysis', 'refactoring'],
+    costPer1k: 0.015,
+    maxTokens: 200000,
+    speedRating: 4,
+    qualityRating: 5,
+    available: true
+  },
+  {
+    id: 'claude-3-opus-20240229',
+    name: 'Claude 3 Opus',
+    provider: 'anthropic',
+    description: 'Most powerful Claude model for complex tasks',
+    capabilities: ['code-generation', 'architecture', 'analysis', 'refactoring', 'complex-reasoning'],
+    costPer1k: 0.075,
+    maxTokens: 200000,
+    speedRating: 2,
+    qualityRating: 5,
+    available: true
+  },
+  {
+    id: 'claude-3-haiku-20240307',
+    name: 'Claude 3 Haiku',
+    provider: 'anthropic',
+    description: 'Fast and efficient Claude model for simple code tasks',
+    capabilities: ['code-generation', 'basic-debugging'],
+    costPer1k: 0.0025,
+    maxTokens: 200000,
+    speedRating: 5,
+    qualityRating: 4,
+    available: true
+  },
+
+  // Google Models
+  {
+    id: 'gemini-1.5-pro',
+    name: 'Gemini 1.5 Pro',
+    provider: 'google',
+    description: 'Google\'s latest multimodal AI with massive context window',
+    capabilities: ['code-generation', 'multimodal', 'optimization', 'long-context'],
+    costPer1k: 0.0035,
+    maxTokens: 2000000,
+    speedRating: 4,
+    qualityRating: 5,
+    available: false
+  },
+  {
+    id: 'gemini-1.5-flash',
+    name: 'Gemini 1.5 Flash',
+    provider: 'google',
+    description: 'Fast and efficient Gemini model for rapid development',
+    capabilities: ['code-generation', 'multimodal', 'optimization'],
+    costPer1k: 0.001,
+    maxTokens: 1000000,
+    speedRating: 5,
+    qualityRating: 4,
+    available: false
+  },
+
+  // GitHub Copilot Models
+  {
+    id: 'copilot-chat',
+    name: 'GitHub Copilot Chat',
+    provider: 'github',
+    description: 'GitHub\'s AI assistant for code generation and explanation',
+    capabilities: ['code-generation', 'debugging', 'explanation', 'repository-analysis'],
+    costPer1k: 0.002,
+    maxTokens: 8192,
+    speedRating: 4,
+    qualityRating: 4,
+    available: false
+  },
+
+  // xAI (Grok) Models
+  {
+    id: 'grok-beta',
+    name: 'Grok Beta',
+    provider: 'xai',
+    description: 'xAI\'s conversational AI with real-time knowledge',
+    capabilities: ['code-generation', 'analysis', 'real-time-data'],
+    costPer1k: 0.01,
+    maxTokens: 32768,
+    speedRating: 4,
+    qualityRating: 4,
+    available: false
+  },
+
+  // DeepSeek Models
+  {
+    id: 'deepseek-coder-33b-instruct',
+    name: 'DeepSeek Coder 33B',
+    provider: 'deepseek',
+    description: 'Specialized coding model with strong programming capabilities',
+    capabilities: ['code-generation', 'debugging', 'optimization', 'code-review'],
+    costPer1k: 0.0014,
+    maxTokens: 16384,
+    speedRating: 3,
+    qualityRating: 4,
+    available: false
+  },
+  {
+    id: 'deepseek-chat',
+    name: 'DeepSeek Chat',
+    provider: 'deepseek',
+    description: 'General purpose DeepSeek model for various tasks',
+    capabilities: ['code-generation', 'analysis', 'explanation'],
+    costPer1k: 0.0014,
+    maxTokens: 32768,
+    speedRating: 4,
+    qualityRating: 4,
+    available: false
+  }
+];
+
+// Local model ids are namespaced so they can't collide with hosted model ids
+export const LOCAL_MODEL_PREFIX = 'local:';
+
+function toLocalAIModel(model: LocalModelInfo): AIModel {
+  return {
+    id: `${LOCAL_MODEL_PREFIX}${model.id}`,
+    name: model.id,
+    provider: 'local',
+    description: `Self-hosted model${model.ownedBy ? ` (${model.ownedBy})` : ''} served from your local endpoint`,
+    capabilities: ['code-generation', 'offline'],
+    costPer1k: 0,
+    maxTokens: 8192,
+    speedRating: 3,
+    qualityRating: 3,
+    available: true
+  };
+}
+
+/**
+ * Replace the local entries in AI_MODELS with the models the local server
+ * currently reports, so selection UIs pick them up like any hosted model.
+ */
+export function registerLocalModels(models: LocalModelInfo[]): void {
+  for (let i = AI_MODELS.length - 1; i >= 0; i--) {
+    if (AI_MODELS[i].provider === 'local') {
+      AI_MODELS.splice(i, 1);
+    }
+  }
+  AI_MODELS.push(...models.map(toLocalAIModel));
+}
+
+export type ModelCapability = 'code' | 'vision' | 'long-context' | 'reasoning';
+
+// Context windows at or above this count as long-context models
+const LONG_CONTEXT_TOKENS = 100000;
+
+/**
+ * Routing capabilities derived from a model's descriptive capability tags
+ */
+export function getModelCapabilities(model: AIModel): ModelCapability[] {
+  const capabilities: ModelCapability[] = [];
+
+  if (model.capabilities.includes('code-generation')) {
+    capabilities.push('code');
+  }
+  if (model.capabilities.includes('multimodal')) {
+    capabilities.push('vision');
+  }
+  if (model.capabilities.includes('long-context') || model.maxTokens >= LONG_CONTEXT_TOKENS) {
+    capabilities.push('long-context');
+  }
+  if (['architecture', 'analysis', 'complex-reasoning'].some(tag => model.capabilities.includes(tag))) {
+    capabilities.push('reasoning');
+  }
+
+  return capabilities;
+}
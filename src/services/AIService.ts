@@ -1,26 +1,21 @@
 import { toast } from 'sonner@2.0.3';
-import { APIKeyService, type APIProvider } from './APIKeyService';
+import type { StreamOptions } from './AIGatewayClient';
+import { LocalModelClient, type LocalModelConfig } from './LocalModelClient';
+import { aiServiceManager, type AIResponse as RoutedResponse } from './AIServiceManager';
+import { AI_MODELS, type AIModel, type AIProvider } from './AIModelCatalog';
+import { isAbortError } from '../utils/sse-stream';
+import { readReviewExplanation, type ReviewExplanation } from '../utils/code-analysis/explanation';
+import { describeRubric, readRubricSuggestion, type RubricSuggestion } from '../utils/assessment-grading';
+import type { AssessmentQuestion, Rubric } from '../types/education';
+
+export { AI_MODELS, LOCAL_MODEL_PREFIX } from './AIModelCatalog';
+export type { AIModel, AIProvider } from './AIModelCatalog';
 
 /**
  * FlashFusion AI Service
  * Centralized service for all AI model integrations and API calls
  */
 
-export type AIProvider = 'openai' | 'anthropic' | 'google' | 'meta' | 'local' | 'github' | 'xai' | 'deepseek';
-
-export type AIModel = {
-  id: string;
-  name: string;
-  provider: AIProvider;
-  description: string;
-  capabilities: string[];
-  costPer1k: number;
-  maxTokens: number;
-  speedRating: 1 | 2 | 3 | 4 | 5; // 1 = slowest, 5 = fastest
-  qualityRating: 1 | 2 | 3 | 4 | 5; // 1 = lowest, 5 = highest
-  available: boolean;
-};
-
 export type AIRequest = {
   prompt: string;
   model: string;
@@ -49,6 +44,8 @@ export type AIResponse = {
   };
 };
 
+export type AIStreamOptions = StreamOptions;
+
 export type RepositoryInfo = {
   url: string;
   branch: string;
@@ -77,169 +74,9 @@ export type CodeGenerationRequest = {
   };
 };
 
-// Available AI Models Configuration
-export const AI_MODELS: AIModel[] = [
-  // OpenAI Models
-  {
-    id: 'gpt-4-turbo',
-    name: 'GPT-4 Turbo',
-    provider: 'openai',
-    description: 'Most capable OpenAI model for complex code generation',
-    capabilities: ['code-generation', 'architecture', 'debugging', 'optimization'],
-    costPer1k: 0.03,
-    maxTokens: 128000,
-    speedRating: 4,
-    qualityRating: 5,
-    available: true
-  },
-  {
-    id: 'gpt-4o',
-    name: 'GPT-4o',
-    provider: 'openai',
-    description: 'Latest multimodal GPT-4 model with enhanced capabilities',
-    capabilities: ['code-generation', 'architecture', 'multimodal', 'optimization'],
-    costPer1k: 0.025,
-    maxTokens: 128000,
-    speedRating: 5,
-    qualityRating: 5,
-    available: true
-  },
-  {
-    id: 'gpt-3.5-turbo',
-    name: 'GPT-3.5 Turbo',
-    provider: 'openai',
-    description: 'Fast and cost-effective for simple tasks',
-    capabilities: ['code-generation', 'basic-debugging'],
-    costPer1k: 0.002,
-    maxTokens: 16384,
-    speedRating: 5,
-    qualityRating: 3,
-    available: true
-  },
-
-  // Anthropic (Claude) Models
-  {
-    id: 'claude-3-5-sonnet-20241022',
-    name: 'Claude 3.5 Sonnet',
-    provider: 'anthropic',
-    description: 'Latest Claude model with excellent coding and reasoning abilities',
-    capabilities: ['code-generation', 'architecture', 'analysis', 'refactoring'],
-    costPer1k: 0.015,
-    maxTokens: 200000,
-    speedRating: 4,
-    qualityRating: 5,
-    available: true
-  },
-  {
-    id: 'claude-3-opus-20240229',
-    name: 'Claude 3 Opus',
-    provider: 'anthropic',
-    description: 'Most powerful Claude model for complex tasks',
-    capabilities: ['code-generation', 'architecture', 'analysis', 'refactoring', 'complex-reasoning'],
-    costPer1k: 0.075,
-    maxTokens: 200000,
-    speedRating: 2,
-    qualityRating: 5,
-    available: true
-  },
-  {
-    id: 'claude-3-haiku-20240307',
-    name: 'Claude 3 Haiku',
-    provider: 'anthropic',
-    description: 'Fast and efficient Claude model for simple code tasks',
-    capabilities: ['code-generation', 'basic-debugging'],
-    costPer1k: 0.0025,
-    maxTokens: 200000,
-    speedRating: 5,
-    qualityRating: 4,
-    available: true
-  },
-
-  // Google Models
-  {
-    id: 'gemini-1.5-pro',
-    name: 'Gemini 1.5 Pro',
-    provider: 'google',
-    description: 'Google\'s latest multimodal AI with massive context window',
-    capabilities: ['code-generation', 'multimodal', 'optimization', 'long-context'],
-    costPer1k: 0.0035,
-    maxTokens: 2000000,
-    speedRating: 4,
-    qualityRating: 5,
-    available: false
-  },
-  {
-    id: 'gemini-1.5-flash',
-    name: 'Gemini 1.5 Flash',
-    provider: 'google',
-    description: 'Fast and efficient Gemini model for rapid development',
-    capabilities: ['code-generation', 'multimodal', 'optimization'],
-    costPer1k: 0.001,
-    maxTokens: 1000000,
-    speedRating: 5,
-    qualityRating: 4,
-    available: false
-  },
-
-  // GitHub Copilot Models
-  {
-    id: 'copilot-chat',
-    name: 'GitHub Copilot Chat',
-    provider: 'github',
-    description: 'GitHub\'s AI assistant for code generation and explanation',
-    capabilities: ['code-generation', 'debugging', 'explanation', 'repository-analysis'],
-    costPer1k: 0.002,
-    maxTokens: 8192,
-    speedRating: 4,
-    qualityRating: 4,
-    available: false
-  },
-
-  // xAI (Grok) Models
-  {
-    id: 'grok-beta',
-    name: 'Grok Beta',
-    provider: 'xai',
-    description: 'xAI\'s conversational AI with real-time knowledge',
-    capabilities: ['code-generation', 'analysis', 'real-time-data'],
-    costPer1k: 0.01,
-    maxTokens: 32768,
-    speedRating: 4,
-    qualityRating: 4,
-    available: false
-  },
-
-  // DeepSeek Models
-  {
-    id: 'deepseek-coder-33b-instruct',
-    name: 'DeepSeek Coder 33B',
-    provider: 'deepseek',
-    description: 'Specialized coding model with strong programming capabilities',
-    capabilities: ['code-generation', 'debugging', 'optimization', 'code-review'],
-    costPer1k: 0.0014,
-    maxTokens: 16384,
-    speedRating: 3,
-    qualityRating: 4,
-    available: false
-  },
-  {
-    id: 'deepseek-chat',
-    name: 'DeepSeek Chat',
-    provider: 'deepseek',
-    description: 'General purpose DeepSeek model for various tasks',
-    capabilities: ['code-generation', 'analysis', 'explanation'],
-    costPer1k: 0.0014,
-    maxTokens: 32768,
-    speedRating: 4,
-    qualityRating: 4,
-    available: false
-  }
-];
-
 class AIServiceClass {
   private selectedModel: string = 'gpt-4-turbo';
   private selectedProvider: AIProvider = 'openai';
-  private apiKeys: Map<AIProvider, string> = new Map();
   private requestCount: number = 0;
   private totalCost: number = 0;
 
@@ -248,59 +85,21 @@ class AIServiceClass {
   }
 
   private async initializeAsync() {
-    await this.loadApiKeys();
     await this.loadUserPreferences();
   }
 
-  private async loadApiKeys() {
-    try {
-      // Initialize the API key service
-      await APIKeyService.initialize();
-      
-      // Load API keys for AI providers
-      const providers: Array<{ provider: AIProvider; aiProvider: string }> = [
-        { provider: 'openai', aiProvider: 'openai' },
-        { provider: 'anthropic', aiProvider: 'anthropic' },
-        { provider: 'google', aiProvider: 'google' },
-        { provider: 'github', aiProvider: 'github' },
-        { provider: 'xai', aiProvider: 'xai' },
-        { provider: 'deepseek', aiProvider: 'deepseek' }
-      ];
-
-      for (const { provider, aiProvider } of providers) {
-        const key = await APIKeyService.getApiKey(provider);
-        if (key) {
-          this.apiKeys.set(aiProvider as AIProvider, key);
-        }
-      }
-
-      console.log(`🤖 AI Service loaded ${this.apiKeys.size} API keys from Supabase`);
-    } catch (error) {
-      console.error('Failed to load API keys for AI Service:', error);
-      
-      // Fallback to local environment variables
-      this.loadFallbackKeys();
-    }
+  public getLocalModelConfig(): LocalModelConfig {
+    return LocalModelClient.getConfig();
   }
 
-  private loadFallbackKeys() {
-    console.log('🔄 AI Service falling back to local environment variables...');
-    
-    const keyMappings = {
-      openai: 'VITE_OPENAI_API_KEY',
-      anthropic: 'VITE_ANTHROPIC_API_KEY',
-      google: 'VITE_GOOGLE_AI_API_KEY',
-      github: 'VITE_GITHUB_TOKEN',
-      xai: 'VITE_XAI_API_KEY',
-      deepseek: 'VITE_DEEPSEEK_API_KEY'
-    };
-
-    Object.entries(keyMappings).forEach(([provider, envVar]) => {
-      const key = import.meta.env[envVar];
-      if (key) {
-        this.apiKeys.set(provider as AIProvider, key);
-      }
-    });
+  /**
+   * Point the service at an OpenAI-compatible local server and return the
+   * models it exposes. An empty list means the server could not be reached.
+   */
+  public async configureLocalModels(config: LocalModelConfig): Promise<AIModel[]> {
+    LocalModelClient.setConfig(config);
+    await aiServiceManager.refreshProviders();
+    return AI_MODELS.filter(model => model.provider === 'local');
   }
 
   private async loadUserPreferences() {
@@ -312,29 +111,25 @@ class AIServiceClass {
       this.selectedModel = savedModel;
     }
     
-    if (savedProvider && this.apiKeys.has(savedProvider)) {
+    if (savedProvider && await aiServiceManager.isProviderConfigured(savedProvider)) {
       this.selectedProvider = savedProvider;
     }
   }
 
   public async getAvailableModels(): Promise<AIModel[]> {
-    await this.loadApiKeys(); // Ensure keys are loaded
-    return AI_MODELS.filter(model => {
-      // Only show models for which we have API keys
-      return this.apiKeys.has(model.provider);
-    });
+    return aiServiceManager.getAvailableModels();
   }
 
   public async setModel(modelId: string) {
-    await this.loadApiKeys(); // Ensure keys are loaded
-    
     const model = AI_MODELS.find(m => m.id === modelId);
     if (!model) {
       throw new Error(`Model ${modelId} not found`);
     }
 
-    if (!this.apiKeys.has(model.provider)) {
-      throw new Error(`API key not configured for ${model.provider}`);
+    if (!await aiServiceManager.isProviderConfigured(model.provider)) {
+      throw new Error(model.provider === 'local'
+        ? 'Local model server is not reachable'
+        : `API key not configured for ${model.provider}`);
     }
 
     this.selectedModel = modelId;
@@ -364,6 +159,23 @@ class AIServiceClass {
     return this.extractCode(aiResponse.content);
   }
 
+  /**
+   * Streaming variant of generateCode. Partial output is delivered through
+   * `options.onToken`; the resolved value is the final extracted code.
+   */
+  public async generateCodeStream(request: CodeGenerationRequest, options: AIStreamOptions = {}): Promise<string> {
+    const content = await this.collectStream({
+      prompt: this.buildUserPrompt(request),
+      systemPrompt: this.buildSystemPrompt(request),
+      model: this.selectedModel,
+      provider: this.selectedProvider,
+      temperature: 0.1,
+      maxTokens: 4000
+    }, options);
+
+    return this.extractCode(content);
+  }
+
   public async generateCodeWithRepository(request: CodeGenerationRequest): Promise<string> {
     if (!request.context?.repository) {
       throw new Error('Repository context is required for repository-based code generation');
@@ -471,6 +283,96 @@ Provide analysis and fixed code:`;
     }
   }
 
+  /**
+   * Explanations and fixes for findings the static analyzer already made.
+   * The model isn't asked to review the code itself, only to explain.
+   */
+  public async explainCodeReview(
+    code: string,
+    language: string,
+    findings: string,
+    focus: string
+  ): Promise<ReviewExplanation> {
+    const systemPrompt = `You are a senior ${language} reviewer explaining the results of a static analysis.
+Only discuss the findings you are given; do not report new issues.
+Respond with JSON only, in the form:
+{"suggestions": [{"type": "performance" | "quality" | "security", "description": string, "before": string, "after": string, "confidence": number}],
+ "learning_points": [{"concept": string, "explanation": string, "resources": string[], "difficulty": "beginner" | "intermediate" | "advanced"}]}
+"before" must be copied exactly from the code; "after" is its replacement. "confidence" is 0-100.`;
+
+    const userPrompt = `Review focus: ${focus}
+
+Code:
+\`\`\`${language}
+${code}
+\`\`\`
+
+Static analysis findings:
+${findings}
+
+Propose fixes for the most important findings and explain the concepts behind them:`;
+
+    const aiResponse = await this.makeAIRequest({
+      prompt: userPrompt,
+      systemPrompt,
+      model: this.selectedModel,
+      provider: this.selectedProvider,
+      temperature: 0.2
+    });
+
+    try {
+      const json = aiResponse.content.match(/```(?:json)?\s*\n([\s\S]*?)```/)?.[1] ?? aiResponse.content;
+      return readReviewExplanation(JSON.parse(json), code);
+    } catch {
+      return { suggestions: [], learning_points: [] };
+    }
+  }
+
+  /**
+   * Suggests a rubric level for each criterion on a written answer. The
+   * suggestion is for a teacher to confirm; null when the model's scoring
+   * doesn't cover the whole rubric.
+   */
+  public async scoreRubricResponse(
+    question: AssessmentQuestion,
+    rubric: Rubric,
+    answer: string
+  ): Promise<RubricSuggestion | null> {
+    const systemPrompt = `You are an experienced teacher scoring a student's written answer against a rubric.
+Score every criterion at one of the rubric's levels, judging only what the answer says.
+Respond with JSON only, in the form:
+{"criteria": [{"criterion_id": string, "level": number, "rationale": string}], "feedback": string}
+"rationale" is one sentence; "feedback" is two or three sentences addressed to the student.`;
+
+    const modelAnswer = [question.correctAnswer].flat().filter(Boolean).join(' / ');
+    const userPrompt = `Question (${question.points} points): ${question.question}
+${modelAnswer ? `Model answer: ${modelAnswer}\n` : ''}
+Rubric: ${rubric.title}
+${describeRubric(rubric)}
+
+Student answer:
+"""
+${answer}
+"""
+
+Score the answer:`;
+
+    const aiResponse = await this.makeAIRequest({
+      prompt: userPrompt,
+      systemPrompt,
+      model: this.selectedModel,
+      provider: this.selectedProvider,
+      temperature: 0.2
+    });
+
+    try {
+      const json = aiResponse.content.match(/```(?:json)?\s*\n([\s\S]*?)```/)?.[1] ?? aiResponse.content;
+      return readRubricSuggestion(JSON.parse(json), rubric);
+    } catch {
+      return null;
+    }
+  }
+
   public async generateDocumentation(code: string, type: 'api' | 'component' | 'function' = 'component'): Promise<string> {
     const systemPrompt = `You are a technical documentation expert. Generate comprehensive, clear documentation 
 for the provided code. Include usage examples, parameter descriptions, and return values where applicable.`;
@@ -572,70 +474,16 @@ Generate production-ready code that follows these guidelines exactly.`;
     return prompt;
   }
 
+  /**
+   * Route a request through the provider router. The selected model is tried
+   * first; on provider failure the router falls back to other code-capable models.
+   */
   private async makeAIRequest(request: AIRequest): Promise<AIResponse> {
-    const model = AI_MODELS.find(m => m.id === request.model);
-    if (!model) {
-      throw new Error(`Model ${request.model} not found`);
-    }
-
-    const apiKey = this.apiKeys.get(request.provider);
-    if (!apiKey) {
-      throw new Error(`API key not configured for ${request.provider}`);
-    }
-
     const startTime = Date.now();
-    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
     try {
-      let response: Response;
-      
-      switch (request.provider) {
-        case 'openai':
-          response = await this.callOpenAI(request, apiKey);
-          break;
-        case 'anthropic':
-          response = await this.callAnthropic(request, apiKey);
-          break;
-        case 'google':
-          response = await this.callGoogle(request, apiKey);
-          break;
-        case 'github':
-          response = await this.callGitHubCopilot(request, apiKey);
-          break;
-        case 'xai':
-          response = await this.callXAI(request, apiKey);
-          break;
-        case 'deepseek':
-          response = await this.callDeepSeek(request, apiKey);
-          break;
-        default:
-          throw new Error(`Provider ${request.provider} not implemented`);
-      }
-
-      if (!response.ok) {
-        const errorData = await response.json().catch(() => ({ error: 'Unknown error' }));
-        throw new Error(`AI API Error: ${response.status} - ${errorData.error || response.statusText}`);
-      }
-
-      const data = await response.json();
-      const processingTime = Date.now() - startTime;
-
-      // Parse response based on provider
-      const parsedResponse = this.parseProviderResponse(data, request.provider, model);
-      
-      // Update usage statistics
-      this.requestCount++;
-      this.totalCost += parsedResponse.usage.estimatedCost;
-
-      return {
-        ...parsedResponse,
-        metadata: {
-          requestId,
-          timestamp: new Date().toISOString(),
-          processingTime
-        }
-      };
-
+      const response = await aiServiceManager.generateContent(this.toRoutedRequest(request));
+      return this.recordResponse(response, Date.now() - startTime);
     } catch (error) {
       console.error('AI Service Error:', error);
       toast.error(`AI request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -643,185 +491,49 @@ Generate production-ready code that follows these guidelines exactly.`;
     }
   }
 
-  private async callOpenAI(request: AIRequest, apiKey: string): Promise<Response> {
-    return fetch('https://api.openai.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: request.model,
-        messages: [
-          ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
-          { role: 'user', content: request.prompt }
-        ],
-        temperature: request.temperature || 0.7,
-        max_tokens: request.maxTokens || 2000,
-        stream: false
-      })
-    });
-  }
-
-  private async callAnthropic(request: AIRequest, apiKey: string): Promise<Response> {
-    return fetch('https://api.anthropic.com/v1/messages', {
-      method: 'POST',
-      headers: {
-        'x-api-key': apiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: request.model,
-        max_tokens: request.maxTokens || 2000,
-        temperature: request.temperature || 0.7,
-        system: request.systemPrompt || '',
-        messages: [
-          { role: 'user', content: request.prompt }
-        ]
-      })
-    });
-  }
-
-  private async callGoogle(request: AIRequest, apiKey: string): Promise<Response> {
-    return fetch(`https://generativelanguage.googleapis.com/v1/models/${request.model}:generateContent?key=${apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: (request.systemPrompt ? request.systemPrompt + '\n\n' : '') + request.prompt }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: request.temperature || 0.7,
-          maxOutputTokens: request.maxTokens || 2000
-        }
-      })
-    });
-  }
+  private async collectStream(request: AIRequest, options: AIStreamOptions): Promise<string> {
+    const startTime = Date.now();
 
-  private async callGitHubCopilot(request: AIRequest, apiKey: string): Promise<Response> {
-    // GitHub Copilot Chat API
-    return fetch('https://api.github.com/copilot/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json',
-        'Accept': 'application/vnd.github+json'
-      },
-      body: JSON.stringify({
-        messages: [
-          ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
-          { role: 'user', content: request.prompt }
-        ],
-        model: request.model,
-        temperature: request.temperature || 0.7,
-        max_tokens: request.maxTokens || 2000
-      })
-    });
+    try {
+      const response = await aiServiceManager.streamContent(this.toRoutedRequest(request), options);
+      return this.recordResponse(response, Date.now() - startTime).content;
+    } catch (error) {
+      if (!isAbortError(error)) {
+        console.error('AI Service Error:', error);
+        toast.error(`AI request failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      }
+      throw error;
+    }
   }
 
-  private async callXAI(request: AIRequest, apiKey: string): Promise<Response> {
-    // xAI Grok API (similar to OpenAI format)
-    return fetch('https://api.x.ai/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: request.model,
-        messages: [
-          ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
-          { role: 'user', content: request.prompt }
-        ],
-        temperature: request.temperature || 0.7,
-        max_tokens: request.maxTokens || 2000,
-        stream: false
-      })
-    });
+  private toRoutedRequest(request: AIRequest) {
+    return {
+      prompt: request.prompt,
+      model: request.model,
+      systemPrompt: request.systemPrompt,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens,
+      capabilities: ['code' as const],
+      context: request.context
+    };
   }
 
-  private async callDeepSeek(request: AIRequest, apiKey: string): Promise<Response> {
-    // DeepSeek API (OpenAI-compatible)
-    return fetch('https://api.deepseek.com/v1/chat/completions', {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: request.model,
-        messages: [
-          ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
-          { role: 'user', content: request.prompt }
-        ],
-        temperature: request.temperature || 0.7,
-        max_tokens: request.maxTokens || 2000,
-        stream: false
-      })
-    });
-  }
+  private recordResponse(response: RoutedResponse, processingTime: number): AIResponse {
+    // Update usage statistics
+    this.requestCount++;
+    this.totalCost += response.usage.estimatedCost;
 
-  private parseProviderResponse(data: any, provider: AIProvider, model: AIModel): Omit<AIResponse, 'metadata'> {
-    switch (provider) {
-      case 'openai':
-      case 'xai':
-      case 'deepseek':
-      case 'github':
-        // OpenAI-compatible format
-        const usage = data.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
-        return {
-          content: data.choices?.[0]?.message?.content || '',
-          model: model.id,
-          provider,
-          usage: {
-            promptTokens: usage.prompt_tokens,
-            completionTokens: usage.completion_tokens,
-            totalTokens: usage.total_tokens,
-            estimatedCost: (usage.total_tokens / 1000) * model.costPer1k
-          }
-        };
-
-      case 'anthropic':
-        const anthropicUsage = data.usage || { input_tokens: 0, output_tokens: 0 };
-        const totalTokens = anthropicUsage.input_tokens + anthropicUsage.output_tokens;
-        return {
-          content: data.content?.[0]?.text || '',
-          model: model.id,
-          provider,
-          usage: {
-            promptTokens: anthropicUsage.input_tokens,
-            completionTokens: anthropicUsage.output_tokens,
-            totalTokens,
-            estimatedCost: (totalTokens / 1000) * model.costPer1k
-          }
-        };
-
-      case 'google':
-        // Google's response structure
-        const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
-        const estimatedTokens = Math.ceil(content.length / 4); // Rough estimate
-        return {
-          content,
-          model: model.id,
-          provider,
-          usage: {
-            promptTokens: 0, // Google doesn't provide detailed usage
-            completionTokens: estimatedTokens,
-            totalTokens: estimatedTokens,
-            estimatedCost: (estimatedTokens / 1000) * model.costPer1k
-          }
-        };
-
-      default:
-        throw new Error(`Provider ${provider} response parsing not implemented`);
-    }
+    return {
+      content: response.content,
+      model: response.model,
+      provider: response.provider,
+      usage: response.usage,
+      metadata: {
+        requestId: response.requestId,
+        timestamp: new Date(response.timestamp).toISOString(),
+        processingTime
+      }
+    };
   }
 
   private extractCode(content: string): string {
@@ -868,14 +580,7 @@ Generate production-ready code that follows these guidelines exactly.`;
   }
 
   public async hasValidApiKey(provider: AIProvider): Promise<boolean> {
-    await this.loadApiKeys(); // Ensure keys are loaded
-    return this.apiKeys.has(provider) && !!this.apiKeys.get(provider);
-  }
-
-  public setApiKey(provider: AIProvider, apiKey: string) {
-    this.apiKeys.set(provider, apiKey);
-    // Note: In production, you'd want to securely store these
-    // For now, we're keeping them in memory only
+    return aiServiceManager.isProviderConfigured(provider);
   }
 
   // Repository Analysis Methods
@@ -1,23 +1,31 @@
-import { createClient } from '@supabase/supabase-js';
-
-export interface AIProvider {
-  name: string;
-  apiKey: string;
-  baseUrl: string;
-  models: string[];
-  capabilities: string[];
-  rateLimits: {
-    requestsPerMinute: number;
-    tokensPerMinute: number;
-  };
-}
+import { AIGatewayClient, type GatewayProvider, type GatewayResponse, type StreamOptions } from './AIGatewayClient';
+import { LocalModelClient } from './LocalModelClient';
+import {
+  AI_MODELS,
+  LOCAL_MODEL_PREFIX,
+  getModelCapabilities,
+  registerLocalModels,
+  type AIModel,
+  type AIProvider,
+  type ModelCapability
+} from './AIModelCatalog';
+import { isAbortError } from '../utils/sse-stream';
+
+/**
+ * FlashFusion AI Provider Router
+ * Single entry point for every AI call. Picks models from the catalog by
+ * capability and cost, walks an ordered fallback chain, and trips per-provider
+ * circuit breakers when a provider keeps returning 5xx or 429 responses.
+ */
 
 export interface AIRequest {
   prompt: string;
+  /** Model to try first; the rest of the chain still applies on failure */
   model?: string;
   temperature?: number;
   maxTokens?: number;
   systemPrompt?: string;
+  capabilities?: ModelCapability[];
   context?: any;
 }
 
@@ -28,133 +36,209 @@ export interface AIResponse {
     promptTokens: number;
     completionTokens: number;
     totalTokens: number;
+    estimatedCost: number;
   };
-  provider: string;
+  provider: AIProvider;
   timestamp: number;
   requestId: string;
+  /** Number of models tried, including the one that answered */
+  attempts: number;
 }
 
-export class AIServiceManager {
-  private providers: Map<string, AIProvider> = new Map();
-  private supabase: any;
-  private rateLimitCache: Map<string, number[]> = new Map();
+export type RoutingStrategy = 'balanced' | 'cost' | 'quality' | 'speed';
+
+export interface RoutePolicy {
+  /** Ordered model or provider ids to try before any others */
+  chain?: string[];
+  /** Fall back to other matching models once the chain is exhausted (default true) */
+  fallback?: boolean;
+  capabilities?: ModelCapability[];
+  strategy?: RoutingStrategy;
+  /** Skip models that cost more than this per 1k tokens */
+  maxCostPer1k?: number;
+  maxAttempts?: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+export interface AIServiceManagerOptions {
+  /** Consecutive retryable failures before a provider's circuit opens */
+  failureThreshold?: number;
+  /** How long an open circuit rejects traffic before allowing a trial request */
+  cooldownMs?: number;
+  now?: () => number;
+}
+
+interface CircuitBreaker {
+  failures: number;
+  openedAt: number | null;
+}
 
-  constructor() {
-    this.initializeProviders();
-    this.initializeSupabase();
+// Client-side ceilings that keep one tab from burning a provider's shared quota
+const PROVIDER_REQUESTS_PER_MINUTE: Record<AIProvider, number> = {
+  openai: 3500,
+  anthropic: 1000,
+  google: 2000,
+  meta: 1000,
+  github: 500,
+  xai: 500,
+  deepseek: 500,
+  local: Infinity
+};
+
+const PROVIDER_NAMES: Record<AIProvider, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  google: 'Google Gemini',
+  meta: 'Meta',
+  github: 'GitHub',
+  xai: 'xAI',
+  deepseek: 'DeepSeek',
+  local: 'Local'
+};
+
+const DEFAULT_MAX_TOKENS = 4000;
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+/**
+ * 429s and 5xx responses (and network failures, which carry no status) are
+ * provider trouble worth failing over; other 4xx errors would fail anywhere.
+ * So would a 429 for the caller's own daily quota, which the gateway tags.
+ */
+function isRetryableError(error: unknown): boolean {
+  const { status, code } = (error ?? {}) as { status?: unknown; code?: unknown };
+  if (code === 'quota_exceeded') {
+    return false;
   }
+  if (typeof status !== 'number') {
+    return true;
+  }
+  return status === 429 || status >= 500;
+}
 
-  private initializeSupabase() {
-    const supabaseUrl = import.meta.env.VITE_SUPABASE_URL;
-    const supabaseKey = import.meta.env.VITE_SUPABASE_ANON_KEY;
-    
-    if (supabaseUrl && supabaseKey) {
-      this.supabase = createClient(supabaseUrl, supabaseKey);
-    }
+// Rough prompt size; four characters per token is close enough to rule out models whose window is too small
+function estimateRequestTokens(request: AIRequest): number {
+  const promptLength = request.prompt.length + (request.systemPrompt?.length || 0);
+  return Math.ceil(promptLength / 4) + (request.maxTokens || DEFAULT_MAX_TOKENS);
+}
+
+function scoreModel(model: AIModel, strategy: RoutingStrategy): number {
+  switch (strategy) {
+    case 'cost':
+      return -model.costPer1k * 1000 + model.qualityRating / 10;
+    case 'quality':
+      return model.qualityRating * 10 - model.costPer1k;
+    case 'speed':
+      return model.speedRating * 10 - model.costPer1k;
+    default:
+      // Quality dominates; log-scaled cost breaks ties between comparable models
+      return model.qualityRating * 2 + model.speedRating - Math.log10(model.costPer1k * 1000 + 1);
   }
+}
 
-  private initializeProviders() {
-    // OpenAI Provider
-    const openaiKey = import.meta.env.VITE_OPENAI_API_KEY;
-    if (openaiKey) {
-      this.providers.set('openai', {
-        name: 'OpenAI',
-        apiKey: openaiKey,
-        baseUrl: 'https://api.openai.com/v1',
-        models: ['gpt-4', 'gpt-4-turbo', 'gpt-3.5-turbo'],
-        capabilities: ['text-generation', 'code-generation', 'reasoning'],
-        rateLimits: {
-          requestsPerMinute: 3500,
-          tokensPerMinute: 90000
-        }
-      });
-    }
+export class AIServiceManager {
+  private availableProviders: Set<AIProvider> = new Set();
+  private circuits: Map<AIProvider, CircuitBreaker> = new Map();
+  private requestLog: Map<AIProvider, number[]> = new Map();
+  private providersReady: Promise<void>;
+  private readonly failureThreshold: number;
+  private readonly cooldownMs: number;
+  private readonly now: () => number;
+
+  constructor(options: AIServiceManagerOptions = {}) {
+    this.failureThreshold = options.failureThreshold ?? 3;
+    this.cooldownMs = options.cooldownMs ?? 30000;
+    this.now = options.now ?? Date.now;
+    this.providersReady = this.initializeProviders();
+  }
 
-    // Anthropic Provider
-    const anthropicKey = import.meta.env.VITE_ANTHROPIC_API_KEY;
-    if (anthropicKey) {
-      this.providers.set('anthropic', {
-        name: 'Anthropic',
-        apiKey: anthropicKey,
-        baseUrl: 'https://api.anthropic.com/v1',
-        models: ['claude-3-5-sonnet-20241022', 'claude-3-haiku-20240307'],
-        capabilities: ['text-generation', 'code-generation', 'analysis'],
-        rateLimits: {
-          requestsPerMinute: 1000,
-          tokensPerMinute: 40000
-        }
-      });
+  private async initializeProviders() {
+    try {
+      // Provider keys live in the edge function secrets; the gateway only reports availability
+      const [gatewayProviders, localModels] = await Promise.all([
+        AIGatewayClient.getAvailableProviders(),
+        LocalModelClient.isConfigured() ? LocalModelClient.discoverModels() : Promise.resolve([])
+      ]);
+
+      registerLocalModels(localModels);
+      this.availableProviders = new Set<AIProvider>(gatewayProviders);
+      if (localModels.length > 0) {
+        this.availableProviders.add('local');
+      }
+    } catch (error) {
+      // A rejected providersReady would fail every later call; start with no providers instead
+      console.error('Failed to load AI providers:', error);
+      this.availableProviders = new Set();
     }
+  }
 
-    // Gemini Provider
-    const geminiKey = import.meta.env.VITE_GEMINI_API_KEY;
-    if (geminiKey) {
-      this.providers.set('gemini', {
-        name: 'Google Gemini',
-        apiKey: geminiKey,
-        baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
-        models: ['gemini-1.5-pro', 'gemini-1.5-flash'],
-        capabilities: ['text-generation', 'multimodal', 'reasoning'],
-        rateLimits: {
-          requestsPerMinute: 2000,
-          tokensPerMinute: 32000
-        }
-      });
-    }
+  /**
+   * Re-read provider availability, e.g. after secrets or the local endpoint change
+   */
+  async refreshProviders(): Promise<void> {
+    AIGatewayClient.refresh();
+    LocalModelClient.refresh();
+    this.providersReady = this.initializeProviders();
+    await this.providersReady;
   }
 
-  async generateContent(request: AIRequest, preferredProvider?: string): Promise<AIResponse> {
-    const startTime = Date.now();
+  async generateContent(request: AIRequest, policy: RoutePolicy = {}): Promise<AIResponse> {
     const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    try {
-      // Select optimal provider
-      const provider = await this.selectOptimalProvider(preferredProvider, request);
-      
-      if (!provider) {
-        throw new Error('No available AI providers configured');
-      }
+    const { result, model, attempts } = await this.route(request, policy, candidate =>
+      this.callProvider(candidate, request)
+    );
 
-      // Check rate limits
-      if (!this.checkRateLimit(provider.name)) {
-        throw new Error(`Rate limit exceeded for ${provider.name}`);
-      }
-
-      // Generate content
-      const response = await this.callProvider(provider, request);
-      
-      // Log usage for analytics
-      await this.logUsage(requestId, provider.name, request, response, Date.now() - startTime);
+    return this.buildResponse(result, model, requestId, attempts);
+  }
 
-      return {
-        content: response.content,
-        model: response.model,
-        usage: response.usage,
-        provider: provider.name,
-        timestamp: Date.now(),
-        requestId
-      };
+  /**
+   * Streaming variant of generateContent. Tokens are delivered through
+   * `options.onToken`; the resolved response contains the full text. Fallback
+   * only happens before the first token, so callers never see mixed output.
+   */
+  async streamContent(request: AIRequest, options: StreamOptions = {}, policy: RoutePolicy = {}): Promise<AIResponse> {
+    const requestId = `req_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
 
-    } catch (error) {
-      console.error('AI generation failed:', error);
-      
-      // Try fallback provider
-      if (!preferredProvider) {
-        const fallbackProvider = this.getFallbackProvider();
-        if (fallbackProvider) {
-          console.log(`Retrying with fallback provider: ${fallbackProvider.name}`);
-          return this.generateContent(request, fallbackProvider.name);
+    const { result, model, attempts } = await this.route(request, policy, async (candidate, commit) => {
+      let content = '';
+      let done: Omit<GatewayResponse, 'content' | 'provider'> | null = null;
+
+      for await (const event of this.streamProvider(candidate, request, options.signal)) {
+        if (event.type === 'delta') {
+          commit();
+          content += event.content;
+          options.onToken?.(event.content, content);
+        } else {
+          done = event;
         }
       }
 
-      throw error;
-    }
+      return {
+        content,
+        model: done?.model || candidate.id,
+        usage: done?.usage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 }
+      };
+    });
+
+    return this.buildResponse(result, model, requestId, attempts);
   }
 
   /**
    * Generate structured content with a preset system prompt for the target content type.
    */
   async generateContentForType(prompt: string, contentType: string = 'blog'): Promise<AIResponse> {
+    return this.generateContent(this.buildContentRequest(prompt, contentType));
+  }
+
+  /**
+   * Streaming variant of generateContentForType.
+   */
+  async streamContentForType(prompt: string, contentType: string = 'blog', options: StreamOptions = {}): Promise<AIResponse> {
+    return this.streamContent(this.buildContentRequest(prompt, contentType), options);
+  }
+
+  private buildContentRequest(prompt: string, contentType: string): AIRequest {
     const systemPrompt = `You are a professional content creator specializing in ${contentType} content. Create engaging, high-quality content that:
 
 - Is well-structured and easy to read
@@ -164,245 +248,242 @@ export class AIServiceManager {
 - Is optimized for engagement and sharing
 - Follows best practices for ${contentType} content`;
 
-    return this.generateContent({
+    return {
       prompt,
       systemPrompt,
       temperature: 0.8,
       maxTokens: 4000
-    });
+    };
   }
 
-  private async selectOptimalProvider(preferredProvider?: string, request?: AIRequest): Promise<AIProvider | null> {
-    if (preferredProvider && this.providers.has(preferredProvider)) {
-      return this.providers.get(preferredProvider)!;
-    }
+  /**
+   * Ordered list of models a request would be tried against. Models whose
+   * provider is unavailable, circuit-broken, or over its rate limit are left
+   * out, as are models lacking a required capability, a large enough context
+   * window, or a price under `maxCostPer1k`.
+   */
+  planRoute(request: AIRequest, policy: RoutePolicy = {}): AIModel[] {
+    const strategy = policy.strategy || 'balanced';
+    const required = new Set([...(policy.capabilities || []), ...(request.capabilities || [])]);
+    const requiredTokens = estimateRequestTokens(request);
+
+    const eligible = AI_MODELS.filter(model => {
+      if (!this.availableProviders.has(model.provider)) return false;
+      if (this.getCircuitState(model.provider) === 'open') return false;
+      if (!this.checkRateLimit(model.provider)) return false;
+      if (model.maxTokens < requiredTokens) return false;
+      if (policy.maxCostPer1k !== undefined && model.costPer1k > policy.maxCostPer1k) return false;
+
+      const capabilities = getModelCapabilities(model);
+      return Array.from(required).every(capability => capabilities.includes(capability));
+    });
 
-    // Score providers based on capabilities and availability
-    const availableProviders = Array.from(this.providers.values())
-      .filter(provider => this.checkRateLimit(provider.name));
+    const ranked = [...eligible].sort((a, b) => scoreModel(b, strategy) - scoreModel(a, strategy));
+    const chain = [...(request.model ? [request.model] : []), ...(policy.chain || [])];
 
-    if (availableProviders.length === 0) {
-      return null;
+    const ordered: AIModel[] = [];
+    for (const entry of chain) {
+      // A chain entry names either a single model or every model of a provider
+      ordered.push(...ranked.filter(model => model.id === entry || model.provider === entry));
     }
-
-    // Simple scoring: prefer providers with more capabilities
-    const scored = availableProviders.map(provider => ({
-      provider,
-      score: provider.capabilities.length + (provider.rateLimits.requestsPerMinute / 1000)
-    }));
-
-    scored.sort((a, b) => b.score - a.score);
-    return scored[0].provider;
-  }
-
-  private async callProvider(provider: AIProvider, request: AIRequest): Promise<any> {
-    switch (provider.name) {
-      case 'OpenAI':
-        return this.callOpenAI(provider, request);
-      case 'Anthropic':
-        return this.callAnthropic(provider, request);
-      case 'Google Gemini':
-        return this.callGemini(provider, request);
-      default:
-        throw new Error(`Unsupported provider: ${provider.name}`);
+    if (policy.fallback !== false || chain.length === 0) {
+      ordered.push(...ranked);
     }
+
+    return Array.from(new Set(ordered));
   }
 
-  private async callOpenAI(provider: AIProvider, request: AIRequest): Promise<any> {
-    const response = await fetch(`${provider.baseUrl}/chat/completions`, {
-      method: 'POST',
-      headers: {
-        'Authorization': `Bearer ${provider.apiKey}`,
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        model: request.model || 'gpt-4-turbo',
-        messages: [
-          ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
-          { role: 'user', content: request.prompt }
-        ],
-        temperature: request.temperature || 0.7,
-        max_tokens: request.maxTokens || 4000
-      })
-    });
+  /**
+   * Try candidates in order until one answers. Retryable failures feed the
+   * provider's circuit breaker and move on to the next provider; anything
+   * else (bad request, auth, abort) is rethrown immediately.
+   */
+  private async route<T>(
+    request: AIRequest,
+    policy: RoutePolicy,
+    attempt: (model: AIModel, commit: () => void) => Promise<T>
+  ): Promise<{ result: T; model: AIModel; attempts: number }> {
+    await this.providersReady;
+
+    const candidates = this.planRoute(request, policy);
+    if (candidates.length === 0) {
+      throw new Error('No available AI providers configured');
+    }
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(`OpenAI API error: ${error.error?.message || response.statusText}`);
+    const maxAttempts = policy.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    const failedProviders = new Set<AIProvider>();
+    let attempts = 0;
+    let lastError: unknown;
+
+    for (const model of candidates) {
+      if (attempts >= maxAttempts) break;
+      // A provider that just failed this request is unlikely to recover for its sibling models
+      if (failedProviders.has(model.provider)) continue;
+
+      attempts++;
+      let committed = false;
+      this.recordRequest(model.provider);
+
+      try {
+        const result = await attempt(model, () => { committed = true; });
+        this.recordSuccess(model.provider);
+        return { result, model, attempts };
+      } catch (error) {
+        if (isAbortError(error) || !isRetryableError(error)) {
+          throw error;
+        }
+
+        this.recordFailure(model.provider);
+        if (committed) {
+          throw error;
+        }
+
+        console.warn(`AI request to ${model.id} failed, trying next provider:`, error);
+        failedProviders.add(model.provider);
+        lastError = error;
+      }
     }
 
-    const data = await response.json();
-    
+    throw lastError ?? new Error('No available AI providers configured');
+  }
+
+  private buildResponse(
+    result: Omit<GatewayResponse, 'provider'>,
+    model: AIModel,
+    requestId: string,
+    attempts: number
+  ): AIResponse {
     return {
-      content: data.choices[0].message.content,
-      model: data.model,
+      content: result.content,
+      model: result.model,
       usage: {
-        promptTokens: data.usage.prompt_tokens,
-        completionTokens: data.usage.completion_tokens,
-        totalTokens: data.usage.total_tokens
-      }
+        ...result.usage,
+        estimatedCost: (result.usage.totalTokens / 1000) * model.costPer1k
+      },
+      provider: model.provider,
+      timestamp: Date.now(),
+      requestId,
+      attempts
     };
   }
 
-  private async callAnthropic(provider: AIProvider, request: AIRequest): Promise<any> {
-    const response = await fetch(`${provider.baseUrl}/messages`, {
-      method: 'POST',
-      headers: {
-        'x-api-key': provider.apiKey,
-        'Content-Type': 'application/json',
-        'anthropic-version': '2023-06-01'
-      },
-      body: JSON.stringify({
-        model: request.model || 'claude-3-5-sonnet-20241022',
-        max_tokens: request.maxTokens || 4000,
-        temperature: request.temperature || 0.7,
-        system: request.systemPrompt || '',
-        messages: [
-          { role: 'user', content: request.prompt }
-        ]
-      })
-    });
-
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(`Anthropic API error: ${error.error?.message || response.statusText}`);
-    }
-
-    const data = await response.json();
-    
+  private toProviderRequest(model: AIModel, request: AIRequest) {
     return {
-      content: data.content[0].text,
-      model: data.model,
-      usage: {
-        promptTokens: data.usage.input_tokens,
-        completionTokens: data.usage.output_tokens,
-        totalTokens: data.usage.input_tokens + data.usage.output_tokens
-      }
+      model: model.provider === 'local' ? model.id.slice(LOCAL_MODEL_PREFIX.length) : model.id,
+      prompt: request.prompt,
+      systemPrompt: request.systemPrompt,
+      temperature: request.temperature,
+      maxTokens: request.maxTokens || DEFAULT_MAX_TOKENS
     };
   }
 
-  private async callGemini(provider: AIProvider, request: AIRequest): Promise<any> {
-    const model = request.model || 'gemini-1.5-pro';
-    const response = await fetch(`${provider.baseUrl}/models/${model}:generateContent?key=${provider.apiKey}`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [
-              { text: request.prompt }
-            ]
-          }
-        ],
-        generationConfig: {
-          temperature: request.temperature || 0.7,
-          maxOutputTokens: request.maxTokens || 4000
-        }
-      })
+  private async callProvider(model: AIModel, request: AIRequest): Promise<Omit<GatewayResponse, 'provider'>> {
+    if (model.provider === 'local') {
+      return LocalModelClient.generate(this.toProviderRequest(model, request));
+    }
+
+    return AIGatewayClient.generate({
+      ...this.toProviderRequest(model, request),
+      provider: model.provider as GatewayProvider
     });
+  }
 
-    if (!response.ok) {
-      const error = await response.json().catch(() => ({ error: 'Unknown error' }));
-      throw new Error(`Gemini API error: ${error.error?.message || response.statusText}`);
+  private streamProvider(model: AIModel, request: AIRequest, signal?: AbortSignal) {
+    if (model.provider === 'local') {
+      return LocalModelClient.stream(this.toProviderRequest(model, request), signal);
     }
 
-    const data = await response.json();
-    
-    if (!data.candidates || data.candidates.length === 0) {
-      throw new Error('No response from Gemini API');
-    }
-    
-    return {
-      content: data.candidates[0].content.parts[0].text,
-      model: model,
-      usage: {
-        promptTokens: data.usageMetadata?.promptTokenCount || 0,
-        completionTokens: data.usageMetadata?.candidatesTokenCount || 0,
-        totalTokens: data.usageMetadata?.totalTokenCount || 0
-      }
-    };
+    return AIGatewayClient.stream({
+      ...this.toProviderRequest(model, request),
+      provider: model.provider as GatewayProvider
+    }, signal);
   }
 
-  private checkRateLimit(providerName: string): boolean {
-    const now = Date.now();
-    const minute = Math.floor(now / 60000);
-    const key = `${providerName}_${minute}`;
-    
-    const requests = this.rateLimitCache.get(key) || [];
-    const provider = this.providers.get(providerName);
-    
-    if (!provider) return false;
-    
-    if (requests.length >= provider.rateLimits.requestsPerMinute) {
-      return false;
+  private getCircuit(provider: AIProvider): CircuitBreaker {
+    let circuit = this.circuits.get(provider);
+    if (!circuit) {
+      circuit = { failures: 0, openedAt: null };
+      this.circuits.set(provider, circuit);
     }
-    
-    requests.push(now);
-    this.rateLimitCache.set(key, requests);
-    
-    // Clean old entries
-    this.cleanRateLimitCache();
-    
-    return true;
+    return circuit;
   }
 
-  private cleanRateLimitCache() {
-    const currentMinute = Math.floor(Date.now() / 60000);
-    
-    for (const [key] of this.rateLimitCache) {
-      const keyMinute = parseInt(key.split('_').pop() || '0');
-      if (currentMinute - keyMinute > 2) {
-        this.rateLimitCache.delete(key);
-      }
+  private recordSuccess(provider: AIProvider) {
+    const circuit = this.getCircuit(provider);
+    circuit.failures = 0;
+    circuit.openedAt = null;
+  }
+
+  private recordFailure(provider: AIProvider) {
+    const circuit = this.getCircuit(provider);
+    const wasHalfOpen = this.getCircuitState(provider) === 'half-open';
+    circuit.failures++;
+
+    // A failed trial request re-opens the circuit straight away
+    if (wasHalfOpen || circuit.failures >= this.failureThreshold) {
+      circuit.openedAt = this.now();
     }
   }
 
-  private getFallbackProvider(): AIProvider | null {
-    const availableProviders = Array.from(this.providers.values())
-      .filter(provider => this.checkRateLimit(provider.name));
-    
-    return availableProviders[0] || null;
+  private checkRateLimit(provider: AIProvider): boolean {
+    const windowStart = this.now() - 60000;
+    const requests = (this.requestLog.get(provider) || []).filter(timestamp => timestamp > windowStart);
+    this.requestLog.set(provider, requests);
+
+    return requests.length < PROVIDER_REQUESTS_PER_MINUTE[provider];
   }
 
-  private async logUsage(requestId: string, provider: string, request: AIRequest, response: any, duration: number) {
-    if (!this.supabase) return;
+  private recordRequest(provider: AIProvider) {
+    const requests = this.requestLog.get(provider) || [];
+    requests.push(this.now());
+    this.requestLog.set(provider, requests);
+  }
 
-    try {
-      await this.supabase.from('ai_usage_logs').insert({
-        request_id: requestId,
-        provider,
-        model: response.model,
-        prompt_tokens: response.usage.promptTokens,
-        completion_tokens: response.usage.completionTokens,
-        total_tokens: response.usage.totalTokens,
-        duration_ms: duration,
-        timestamp: new Date().toISOString(),
-        success: true
-      });
-    } catch (error) {
-      console.warn('Failed to log AI usage:', error);
+  // Public utility methods
+  getCircuitState(provider: AIProvider): CircuitState {
+    const { openedAt } = this.getCircuit(provider);
+    if (openedAt === null) {
+      return 'closed';
     }
+    return this.now() - openedAt < this.cooldownMs ? 'open' : 'half-open';
   }
 
-  // Public utility methods
-  getAvailableProviders(): string[] {
-    return Array.from(this.providers.keys());
+  getAvailableProviders(): AIProvider[] {
+    return Array.from(this.availableProviders);
+  }
+
+  async getAvailableModels(): Promise<AIModel[]> {
+    await this.providersReady;
+    return AI_MODELS.filter(model => this.availableProviders.has(model.provider));
+  }
+
+  /**
+   * Whether the provider is configured at all, regardless of its current health
+   */
+  async isProviderConfigured(provider: AIProvider): Promise<boolean> {
+    await this.providersReady;
+    return this.availableProviders.has(provider);
   }
 
-  getProviderCapabilities(providerName: string): string[] {
-    const provider = this.providers.get(providerName);
-    return provider ? provider.capabilities : [];
+  getProviderName(provider: AIProvider): string {
+    return PROVIDER_NAMES[provider];
   }
 
-  getProviderModels(providerName: string): string[] {
-    const provider = this.providers.get(providerName);
-    return provider ? provider.models : [];
+  getProviderCapabilities(provider: AIProvider): ModelCapability[] {
+    const capabilities = AI_MODELS
+      .filter(model => model.provider === provider)
+      .flatMap(model => getModelCapabilities(model));
+    return Array.from(new Set(capabilities));
   }
 
-  isProviderAvailable(providerName: string): boolean {
-    return this.providers.has(providerName) && this.checkRateLimit(providerName);
+  getProviderModels(provider: AIProvider): string[] {
+    return AI_MODELS.filter(model => model.provider === provider).map(model => model.id);
+  }
+
+  isProviderAvailable(provider: AIProvider): boolean {
+    return this.availableProviders.has(provider)
+      && this.getCircuitState(provider) !== 'open'
+      && this.checkRateLimit(provider);
   }
 
   // Tool-specific generation methods
@@ -421,19 +502,9 @@ Requirements:
       prompt,
       systemPrompt,
       temperature: 0.2,
-      maxTokens: 6000
-    });
-  }
-
-  async generateContentForType(prompt: string, contentType: string = 'blog'): Promise<AIResponse> {
-    const systemPrompt = `You are a professional content creator specializing in ${contentType} content. Create engaging, high-quality content that:
-
-- Is well-structured and easy to read
-- Includes relevant keywords naturally
-- Has a compelling hook and strong conclusion
-- Matches the target audience and platform
-- Is optimized for engagement and sharing
-- Follows best practices for ${contentType} content`;
+      maxTokens: 6000,
+      capabilities: ['code']
+    };
 
     return this.generateContent(request);
   }
@@ -452,27 +523,8 @@ Requirements:
       prompt: `Analyze this code:\n\n${code}`,
       systemPrompt,
       temperature: 0.3,
-      maxTokens: 4000
-    };
-
-    return this.generateContent(request);
-  }
-
-  async generateContentForType(prompt: string, contentType: string = 'blog'): Promise<AIResponse> {
-    const systemPrompt = `You are a professional content creator specializing in ${contentType} content. Create engaging, high-quality content that:
-
-- Is well-structured and easy to read
-- Includes relevant keywords naturally
-- Has a compelling hook and strong conclusion
-- Matches the target audience and platform
-- Is optimized for engagement and sharing
-- Follows best practices for ${contentType} content`;
-
-    const request: AIRequest = {
-      prompt,
-      systemPrompt,
-      temperature: 0.8,
-      maxTokens: 4000
+      maxTokens: 4000,
+      capabilities: ['code']
     };
 
     return this.generateContent(request);
@@ -1,4 +1,5 @@
 import { supabaseConfig } from '../lib/supabase';
+import { AIGatewayClient } from './AIGatewayClient';
 
 /**
  * FlashFusion API Key Service
@@ -127,8 +128,19 @@ export const API_KEY_CONFIGS: APIKeyConfig[] = [
   }
 ];
 
+// AI providers are served by the edge AI gateway; their keys are never loaded client-side
+const GATEWAY_PROVIDERS: ReadonlySet<APIProvider> = new Set<APIProvider>([
+  'openai',
+  'anthropic',
+  'google',
+  'github',
+  'xai',
+  'deepseek'
+]);
+
 class APIKeyServiceClass {
   private apiKeys: Map<APIProvider, string> = new Map();
+  private gatewayProviders: Set<APIProvider> = new Set();
   private isInitialized: boolean = false;
   private initializationPromise: Promise<void> | null = null;
 
@@ -144,7 +156,10 @@ class APIKeyServiceClass {
       return this.initializationPromise;
     }
 
-    this.initializationPromise = this.fetchAPIKeys();
+    this.initializationPromise = Promise.all([
+      this.fetchAPIKeys(),
+      this.fetchGatewayProviders()
+    ]).then(() => undefined);
     await this.initializationPromise;
     this.isInitialized = true;
   }
@@ -182,6 +197,10 @@ class APIKeyServiceClass {
       
       // Store the API keys
       API_KEY_CONFIGS.forEach(config => {
+        if (GATEWAY_PROVIDERS.has(config.provider)) {
+          return;
+        }
+
         const key = data[config.keyName];
         if (key) {
           this.apiKeys.set(config.provider, key);
@@ -200,19 +219,23 @@ class APIKeyServiceClass {
     }
   }
 
+  /**
+   * Ask the AI gateway which AI providers it holds keys for
+   */
+  private async fetchGatewayProviders(): Promise<void> {
+    const providers = await AIGatewayClient.getAvailableProviders();
+    this.gatewayProviders = new Set(
+      Array.from(providers).filter(provider => GATEWAY_PROVIDERS.has(provider))
+    );
+  }
+
   /**
    * Fallback to load API keys from local environment variables
    */
   private loadFallbackKeys(): void {
     console.log('🔄 Falling back to local environment variables...');
 
-    const keyMappings: Record<APIProvider, string> = {
-      openai: 'VITE_OPENAI_API_KEY',
-      anthropic: 'VITE_ANTHROPIC_API_KEY',
-      google: 'VITE_GOOGLE_AI_API_KEY',
-      github: 'VITE_GITHUB_TOKEN',
-      xai: 'VITE_XAI_API_KEY',
-      deepseek: 'VITE_DEEPSEEK_API_KEY',
+    const keyMappings: Partial<Record<APIProvider, string>> = {
       vercel: 'VITE_VERCEL_TOKEN',
       firecrawl: 'VITE_FIRECRAWL_API_KEY',
       leap: 'VITE_LEAP_API_KEY',
@@ -240,6 +263,10 @@ class APIKeyServiceClass {
    */
   public async getApiKey(provider: APIProvider): Promise<string | null> {
     await this.initialize();
+    if (GATEWAY_PROVIDERS.has(provider)) {
+      console.warn(`${provider} is served through the AI gateway; its key is not available client-side`);
+      return null;
+    }
     return this.apiKeys.get(provider) || null;
   }
 
@@ -248,6 +275,13 @@ class APIKeyServiceClass {
    */
   public async hasApiKey(provider: APIProvider): Promise<boolean> {
     await this.initialize();
+    return this.isAvailable(provider);
+  }
+
+  private isAvailable(provider: APIProvider): boolean {
+    if (GATEWAY_PROVIDERS.has(provider)) {
+      return this.gatewayProviders.has(provider);
+    }
     return this.apiKeys.has(provider) && !!this.apiKeys.get(provider);
   }
 
@@ -256,7 +290,7 @@ class APIKeyServiceClass {
    */
   public async getAvailableProviders(): Promise<APIProvider[]> {
     await this.initialize();
-    return Array.from(this.apiKeys.keys());
+    return [...Array.from(this.gatewayProviders), ...Array.from(this.apiKeys.keys())];
   }
 
   /**
@@ -269,7 +303,7 @@ class APIKeyServiceClass {
     
     API_KEY_CONFIGS.forEach(config => {
       status[config.provider] = {
-        available: this.apiKeys.has(config.provider),
+        available: this.isAvailable(config.provider),
         required: config.required,
         description: config.description
       };
@@ -287,7 +321,7 @@ class APIKeyServiceClass {
     const missing: string[] = [];
     
     API_KEY_CONFIGS.forEach(config => {
-      if (config.required && !this.apiKeys.has(config.provider)) {
+      if (config.required && !this.isAvailable(config.provider)) {
         missing.push(`${config.provider} (${config.keyName})`);
       }
     });
@@ -305,6 +339,8 @@ class APIKeyServiceClass {
     this.isInitialized = false;
     this.initializationPromise = null;
     this.apiKeys.clear();
+    this.gatewayProviders.clear();
+    AIGatewayClient.refresh();
     await this.initialize();
   }
 
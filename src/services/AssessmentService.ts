@@ -0,0 +1,203 @@
+import { supabase, isSupabaseConfigured, type AssessmentAttemptRow, type StudyProgressRow } from '../lib/supabase';
+import type { AssessmentAttempt, QuestionGrade, StudyProgress } from '../types/education';
+import {
+  assessmentAnalytics,
+  attemptModuleId,
+  progressFromAttempts,
+  summarizeGrades,
+  type AssessmentAnalytics
+} from '../utils/assessment-grading';
+
+/**
+ * Stores assessment attempts in `assessment_attempts` and keeps the learner's
+ * `study_progress` row for the path rebuilt from them. Content that isn't part
+ * of a study path is its own path, with a module per assessment. Without
+ * Supabase, attempts are kept in memory for the session.
+ */
+
+export type SubmittedAttempt = Omit<AssessmentAttempt, 'id' | 'userId' | 'score' | 'maxScore' | 'status'>;
+
+const LOCAL_USER_ID = 'local';
+
+function toAttempt(row: AssessmentAttemptRow): AssessmentAttempt {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    contentId: row.content_id,
+    assessmentId: row.assessment_id,
+    pathId: row.path_id,
+    moduleId: row.module_id,
+    responses: row.responses ?? {},
+    grades: row.grades ?? [],
+    score: Number(row.score),
+    maxScore: Number(row.max_score),
+    status: row.status,
+    startedAt: new Date(row.started_at),
+    submittedAt: new Date(row.submitted_at)
+  };
+}
+
+function toProgress(row: StudyProgressRow): StudyProgress {
+  return {
+    userId: row.user_id,
+    pathId: row.path_id,
+    startedAt: new Date(row.started_at),
+    lastAccessedAt: new Date(row.last_accessed_at),
+    completedModules: row.completed_modules,
+    currentModule: row.current_module ?? undefined,
+    overallProgress: row.overall_progress,
+    timeSpent: row.time_spent,
+    scores: row.scores ?? {}
+  };
+}
+
+class AssessmentServiceClass {
+  private localAttempts: AssessmentAttempt[] = [];
+  private localProgress = new Map<string, StudyProgress>();
+
+  /**
+   * Stores a graded attempt and refreshes progress on its path. `moduleIds`
+   * lists every module of the path, for the completion percentage.
+   */
+  async submitAttempt(submitted: SubmittedAttempt, moduleIds: string[]): Promise<AssessmentAttempt> {
+    const draft: AssessmentAttempt = {
+      ...submitted,
+      id: '',
+      userId: LOCAL_USER_ID,
+      ...summarizeGrades(submitted.grades)
+    };
+    draft.pathId = submitted.pathId ?? submitted.contentId;
+    draft.moduleId = attemptModuleId(draft);
+
+    if (!isSupabaseConfigured) {
+      const attempt = { ...draft, id: `local-${Date.now()}` };
+      this.localAttempts.unshift(attempt);
+      this.refreshLocalProgress(draft.pathId, moduleIds);
+      return attempt;
+    }
+
+    const { data, error } = await supabase
+      .from('assessment_attempts')
+      .insert({
+        content_id: draft.contentId,
+        assessment_id: draft.assessmentId,
+        path_id: draft.pathId,
+        module_id: draft.moduleId,
+        responses: draft.responses,
+        grades: draft.grades,
+        score: draft.score,
+        max_score: draft.maxScore,
+        status: draft.status,
+        started_at: draft.startedAt.toISOString(),
+        submitted_at: draft.submittedAt.toISOString()
+      })
+      .select('*')
+      .single();
+    if (error || !data) throw new Error(`Failed to save assessment attempt: ${error?.message ?? 'no row returned'}`);
+
+    const attempt = toAttempt(data);
+    await this.refreshProgress(attempt.userId, draft.pathId, moduleIds);
+    return attempt;
+  }
+
+  /** Replaces an attempt's grades after a teacher's review, with the totals and progress that follow from them */
+  async saveReview(attempt: AssessmentAttempt, grades: QuestionGrade[], moduleIds: string[]): Promise<AssessmentAttempt> {
+    const reviewed: AssessmentAttempt = { ...attempt, grades, ...summarizeGrades(grades) };
+    const pathId = attempt.pathId ?? attempt.contentId;
+
+    if (!isSupabaseConfigured) {
+      this.localAttempts = this.localAttempts.map(entry => (entry.id === attempt.id ? reviewed : entry));
+      this.refreshLocalProgress(pathId, moduleIds);
+      return reviewed;
+    }
+
+    const { error } = await supabase
+      .from('assessment_attempts')
+      .update({ grades, score: reviewed.score, status: reviewed.status, reviewed_at: new Date().toISOString() })
+      .eq('id', attempt.id);
+    if (error) throw new Error(`Failed to save review: ${error.message}`);
+
+    await this.refreshProgress(attempt.userId, pathId, moduleIds);
+    return reviewed;
+  }
+
+  async getProgress(pathId: string): Promise<StudyProgress | null> {
+    if (!isSupabaseConfigured) return this.localProgress.get(pathId) ?? null;
+
+    const { data, error } = await supabase
+      .from('study_progress')
+      .select('*')
+      .eq('path_id', pathId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load study progress: ${error.message}`);
+    return data ? toProgress(data) : null;
+  }
+
+  /** Most recent attempts on a path first */
+  async listAttempts(pathId: string, limit = 20): Promise<AssessmentAttempt[]> {
+    if (!isSupabaseConfigured) {
+      return this.localAttempts.filter(attempt => attempt.pathId === pathId).slice(0, limit);
+    }
+
+    const { data, error } = await supabase
+      .from('assessment_attempts')
+      .select('*')
+      .eq('path_id', pathId)
+      .order('submitted_at', { ascending: false })
+      .limit(limit);
+    if (error) throw new Error(`Failed to load assessment attempts: ${error.message}`);
+    return (data ?? []).map(toAttempt);
+  }
+
+  /** Assessment analytics for attempts submitted in the period */
+  async getAnalytics(startDate: Date, endDate: Date): Promise<AssessmentAnalytics> {
+    if (!isSupabaseConfigured) {
+      return assessmentAnalytics(this.localAttempts.filter(attempt => attempt.submittedAt >= startDate && attempt.submittedAt <= endDate));
+    }
+
+    const { data, error } = await supabase
+      .from('assessment_attempts')
+      .select('*')
+      .gte('submitted_at', startDate.toISOString())
+      .lte('submitted_at', endDate.toISOString());
+    if (error) throw new Error(`Failed to load assessment analytics: ${error.message}`);
+    return assessmentAnalytics((data ?? []).map(toAttempt));
+  }
+
+  private refreshLocalProgress(pathId: string, moduleIds: string[]) {
+    const attempts = this.localAttempts.filter(attempt => attempt.pathId === pathId);
+    const progress = progressFromAttempts(LOCAL_USER_ID, pathId, moduleIds, attempts);
+    if (progress) this.localProgress.set(pathId, progress);
+  }
+
+  private async refreshProgress(userId: string, pathId: string, moduleIds: string[]) {
+    const { data, error } = await supabase
+      .from('assessment_attempts')
+      .select('*')
+      .eq('path_id', pathId);
+    if (error) throw new Error(`Failed to load assessment attempts: ${error.message}`);
+
+    const progress = progressFromAttempts(userId, pathId, moduleIds, (data ?? []).map(toAttempt));
+    if (!progress) return;
+
+    const { error: upsertError } = await supabase.from('study_progress').upsert(
+      {
+        user_id: userId,
+        path_id: pathId,
+        started_at: progress.startedAt.toISOString(),
+        last_accessed_at: progress.lastAccessedAt.toISOString(),
+        completed_modules: progress.completedModules,
+        current_module: progress.currentModule ?? null,
+        overall_progress: progress.overallProgress,
+        time_spent: progress.timeSpent,
+        scores: progress.scores
+      },
+      { onConflict: 'user_id,path_id' }
+    );
+    if (upsertError) console.error('Failed to update study progress:', upsertError);
+  }
+}
+
+export const AssessmentService = new AssessmentServiceClass();
+
+export default AssessmentService;
@@ -9,6 +9,13 @@
  * like Bolt.new, Replit, Loveable.dev, etc.
  */
 
+import {
+  createMemoryDeliveryStore,
+  verifyWebhook,
+  type WebhookProvider,
+  type WebhookVerificationResult
+} from '../utils/webhook-signature';
+
 // Platform-specific integration configurations
 export const PLATFORM_CONFIGS = {
   'bolt.new': {
@@ -107,12 +114,18 @@ export interface WebhookPayload {
   data: any;
   timestamp: Date;
   signature?: string;
+  /** Body exactly as received; signatures are checked against these bytes */
+  rawBody?: string;
+  /** Original request headers, when available */
+  headers?: Record<string, string>;
+  deliveryId?: string;
 }
 
 export class ExternalAppIntegrationService {
   private static instance: ExternalAppIntegrationService;
   private credentials: Map<string, IntegrationCredentials> = new Map();
   private webhookHandlers: Map<string, Function[]> = new Map();
+  private webhookDeliveries = createMemoryDeliveryStore();
 
   static getInstance(): ExternalAppIntegrationService {
     if (!ExternalAppIntegrationService.instance) {
@@ -425,9 +438,10 @@ export class ExternalAppIntegrationService {
       throw new Error('No webhook secret found for platform');
     }
 
-    // Verify webhook signature
-    if (payload.signature && !this.verifyWebhookSignature(payload, credentials.webhookSecret)) {
-      throw new Error('Invalid webhook signature');
+    // Verify webhook signature and reject replayed deliveries
+    const verification = await this.verifyWebhookSignature(platform, payload, credentials.webhookSecret);
+    if (!verification.valid) {
+      throw new Error(`Webhook rejected: ${verification.message}`);
     }
 
     // Execute registered handlers
@@ -545,10 +559,23 @@ export class ExternalAppIntegrationService {
     return Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
   }
 
-  private verifyWebhookSignature(payload: WebhookPayload, secret: string): boolean {
-    // Implementation depends on platform-specific signature verification
-    // This is a simplified version
-    return true; // In real implementation, verify HMAC signature
+  private verifyWebhookSignature(
+    platform: string,
+    payload: WebhookPayload,
+    secret: string
+  ): Promise<WebhookVerificationResult> {
+    const provider: WebhookProvider = platform === 'vercel.com' ? 'vercel' : 'hmac-sha256';
+
+    return verifyWebhook({
+      provider,
+      payload: payload.rawBody ?? JSON.stringify(payload.data),
+      headers: payload.headers ?? {
+        [provider === 'vercel' ? 'x-vercel-signature' : 'x-signature']: payload.signature,
+        'x-delivery-id': payload.deliveryId
+      },
+      secret,
+      deliveries: this.webhookDeliveries
+    });
   }
 
   // Refresh expired tokens
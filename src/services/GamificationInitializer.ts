@@ -1,6 +1,6 @@
 /**
  * Gamification System Initializer
- * Ensures the gamification system works in both online and offline modes
+ * Loads the user's stats and reports the daily login when the app starts
  */
 
 import { GamificationService } from './GamificationService';
@@ -29,19 +29,8 @@ export class GamificationInitializer {
         console.log('✅ Gamification system initialized successfully');
         console.log(`📊 User Level: ${userStats.level}, XP: ${userStats.total_xp}`);
         
-        // Award welcome bonus for new users
-        if (userStats.total_xp === 0 && userStats.level === 1) {
-          await GamificationService.addXP(
-            userId,
-            50,
-            'special',
-            'Welcome to FlashFusion!',
-            { first_time: true }
-          );
-        }
-        
-        // Record daily login
-        await GamificationService.recordDailyLogin(userId);
+        // Record daily login; the server pays it at most once per day
+        await GamificationService.recordDailyLogin();
         
       } else {
         console.warn('⚠️ Gamification system running in limited mode');
@@ -71,46 +60,6 @@ export class GamificationInitializer {
     return userId;
   }
 
-  /**
-   * Test XP system with a sample award
-   */
-  static async testXPSystem(): Promise<boolean> {
-    try {
-      const userId = this.ensureUserId();
-      const result = await GamificationService.addXP(
-        userId,
-        10,
-        'tool_usage',
-        'System test',
-        { test: true }
-      );
-      
-      return result !== null;
-    } catch (error) {
-      console.error('XP system test failed:', error);
-      return false;
-    }
-  }
-
-  /**
-   * Award XP for common actions with error handling
-   */
-  static async awardXP(
-    points: number, 
-    action: string, 
-    source: 'tool_usage' | 'project_completion' | 'achievement' | 'daily_streak' | 'collaboration' | 'special' = 'tool_usage',
-    metadata: Record<string, any> = {}
-  ): Promise<boolean> {
-    try {
-      const userId = this.ensureUserId();
-      const result = await GamificationService.addXP(userId, points, source, action, metadata);
-      return result !== null;
-    } catch (error) {
-      console.error('Failed to award XP:', error);
-      return false;
-    }
-  }
-
   /**
    * Get current user stats with error handling
    */
@@ -141,9 +90,6 @@ export class GamificationInitializer {
 
 // Export convenience functions
 export const initializeGamification = () => GamificationInitializer.initialize();
-export const awardXP = (points: number, action: string, source?: any, metadata?: any) => 
-  GamificationInitializer.awardXP(points, action, source, metadata);
 export const getCurrentStats = () => GamificationInitializer.getCurrentStats();
-export const testXPSystem = () => GamificationInitializer.testXPSystem();
 
 export default GamificationInitializer;
\ No newline at end of file
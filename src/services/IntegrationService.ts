@@ -1,5 +1,7 @@
 import { APIKeyService, type APIProvider } from './APIKeyService';
 import { toast } from 'sonner@2.0.3';
+import type { ScanFile } from '../types/security-scan';
+import { isScannable } from '../utils/security-scan/sources';
 
 /**
  * FlashFusion Integration Service
@@ -393,6 +395,52 @@ class IntegrationServiceClass {
     }
   }
 
+  /**
+   * Downloads the text files of a repository for scanning. Public repositories
+   * work without a GitHub key; with one, private repositories do too.
+   * Manifests and lockfiles are fetched first so the cap never drops them.
+   */
+  async fetchRepositoryFiles(repoUrl: string, branch = 'HEAD', maxFiles = 500): Promise<ScanFile[]> {
+    const match = repoUrl.match(/github\.com\/([^\/]+)\/([^\/#?]+)/);
+    if (!match) {
+      throw new Error('Invalid GitHub repository URL');
+    }
+    const [, owner, repo] = match;
+    const cleanRepo = repo.replace(/\.git$/, '');
+    const apiKey = await APIKeyService.getApiKey('github');
+    const headers: Record<string, string> = { 'Accept': 'application/vnd.github.v3+json' };
+    if (apiKey) headers['Authorization'] = `Bearer ${apiKey}`;
+
+    const treeResponse = await fetch(`https://api.github.com/repos/${owner}/${cleanRepo}/git/trees/${branch}?recursive=1`, { headers });
+    if (!treeResponse.ok) {
+      throw new Error(`Failed to fetch repository: ${treeResponse.statusText}`);
+    }
+    const tree: Array<{ path: string; type: string; size?: number }> = (await treeResponse.json()).tree || [];
+
+    const isManifest = (path: string) => /(?:^|\/)(?:package\.json|package-lock\.json|yarn\.lock|pnpm-lock\.yaml)$/.test(path);
+    const paths = tree
+      .filter(entry => entry.type === 'blob' && isScannable(entry.path, entry.size))
+      .map(entry => entry.path)
+      .sort((a, b) => Number(isManifest(b)) - Number(isManifest(a)))
+      .slice(0, maxFiles);
+
+    const files: ScanFile[] = [];
+    const BATCH_SIZE = 10;
+    for (let i = 0; i < paths.length; i += BATCH_SIZE) {
+      const batch = await Promise.all(paths.slice(i, i + BATCH_SIZE).map(async path => {
+        const encoded = path.split('/').map(encodeURIComponent).join('/');
+        const response = apiKey
+          ? await fetch(`https://api.github.com/repos/${owner}/${cleanRepo}/contents/${encoded}?ref=${branch}`, {
+              headers: { ...headers, 'Accept': 'application/vnd.github.raw' }
+            })
+          : await fetch(`https://raw.githubusercontent.com/${owner}/${cleanRepo}/${branch}/${encoded}`);
+        return response.ok ? { path, content: await response.text() } : null;
+      }));
+      files.push(...batch.filter((file): file is ScanFile => file !== null));
+    }
+    return files;
+  }
+
   /**
    * Vercel Deployment Operations
    */
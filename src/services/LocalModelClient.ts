@@ -0,0 +1,220 @@
+import { readSSEData } from '../utils/sse-stream';
+import type { GatewayError, GatewayResponse, GatewayStreamEvent } from './AIGatewayClient';
+
+/**
+ * FlashFusion Local Model Client
+ * Talks directly to an OpenAI-compatible server on the user's machine or
+ * network (Ollama, llama.cpp server, vLLM). Requests never leave the browser
+ * for the gateway, so generators keep working on air-gapped machines.
+ */
+
+export interface LocalModelConfig {
+  /** Server root or its `/v1` path, e.g. http://localhost:11434 */
+  baseUrl: string;
+  /** Only needed when the server was started with an API key (vLLM --api-key) */
+  apiKey?: string;
+}
+
+export interface LocalModelInfo {
+  id: string;
+  ownedBy?: string;
+}
+
+export interface LocalModelRequest {
+  model: string;
+  prompt: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+export type LocalModelResponse = Omit<GatewayResponse, 'provider'>;
+
+export type LocalModelStreamEvent =
+  | Extract<GatewayStreamEvent, { type: 'delta' }>
+  | { type: 'done'; model: string; usage: GatewayResponse['usage'] };
+
+const CONFIG_STORAGE_KEY = 'ff_local_model_config';
+
+// Ollama's default port; llama.cpp and vLLM users override it in settings
+export const DEFAULT_LOCAL_BASE_URL = 'http://localhost:11434';
+
+const EMPTY_USAGE: GatewayResponse['usage'] = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+
+class LocalModelClientClass {
+  private modelsPromise: Promise<LocalModelInfo[]> | null = null;
+
+  public getConfig(): LocalModelConfig {
+    try {
+      const saved = localStorage.getItem(CONFIG_STORAGE_KEY);
+      if (saved) {
+        return { baseUrl: DEFAULT_LOCAL_BASE_URL, ...JSON.parse(saved) };
+      }
+    } catch (error) {
+      console.warn('Failed to read local model config:', error);
+    }
+    return { baseUrl: DEFAULT_LOCAL_BASE_URL };
+  }
+
+  /**
+   * Discovery only runs once the user has saved a config, so hosted-only
+   * users never probe localhost.
+   */
+  public isConfigured(): boolean {
+    return localStorage.getItem(CONFIG_STORAGE_KEY) !== null;
+  }
+
+  public setConfig(config: LocalModelConfig): void {
+    localStorage.setItem(CONFIG_STORAGE_KEY, JSON.stringify({
+      baseUrl: config.baseUrl.trim() || DEFAULT_LOCAL_BASE_URL,
+      apiKey: config.apiKey?.trim() || undefined
+    }));
+    this.refresh();
+  }
+
+  /**
+   * OpenAI-compatible servers expose their API under `/v1`; accept either the
+   * server root or the `/v1` URL so users can paste whichever they have.
+   */
+  private get apiUrl(): string {
+    const baseUrl = this.getConfig().baseUrl.replace(/\/+$/, '');
+    return /\/v1$/.test(baseUrl) ? baseUrl : `${baseUrl}/v1`;
+  }
+
+  private buildHeaders(): Record<string, string> {
+    const { apiKey } = this.getConfig();
+    return {
+      'Content-Type': 'application/json',
+      ...(apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {})
+    };
+  }
+
+  private buildBody(request: LocalModelRequest, stream: boolean): string {
+    const messages = [
+      ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+      { role: 'user', content: request.prompt }
+    ];
+
+    return JSON.stringify({
+      model: request.model,
+      messages,
+      temperature: request.temperature ?? 0.7,
+      max_tokens: request.maxTokens,
+      stream,
+      ...(stream ? { stream_options: { include_usage: true } } : {})
+    });
+  }
+
+  private async createResponseError(response: Response): Promise<GatewayError> {
+    const errorText = await response.text().catch(() => response.statusText);
+    return Object.assign(
+      new Error(`Local model error: ${response.status} - ${errorText || response.statusText}`),
+      { status: response.status }
+    );
+  }
+
+  private parseUsage(usage: any): GatewayResponse['usage'] {
+    if (!usage) {
+      return EMPTY_USAGE;
+    }
+    return {
+      promptTokens: usage.prompt_tokens || 0,
+      completionTokens: usage.completion_tokens || 0,
+      totalTokens: usage.total_tokens || 0
+    };
+  }
+
+  /**
+   * Models the configured server can serve, from its `/v1/models` list.
+   * Cached until refresh(); an unreachable server yields an empty list.
+   */
+  public async discoverModels(): Promise<LocalModelInfo[]> {
+    if (!this.modelsPromise) {
+      this.modelsPromise = fetch(`${this.apiUrl}/models`, { headers: this.buildHeaders() })
+        .then(async response => {
+          if (!response.ok) {
+            throw new Error(`Failed to list local models: ${response.status}`);
+          }
+          const data: { data?: Array<{ id: string; owned_by?: string }> } = await response.json();
+          return (data.data || []).map(model => ({ id: model.id, ownedBy: model.owned_by }));
+        })
+        .catch(error => {
+          console.warn('Local model server unavailable:', error);
+          return [];
+        });
+    }
+
+    return this.modelsPromise;
+  }
+
+  public async generate(request: LocalModelRequest, signal?: AbortSignal): Promise<LocalModelResponse> {
+    const response = await fetch(`${this.apiUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: this.buildBody(request, false),
+      signal
+    });
+
+    if (!response.ok) {
+      throw await this.createResponseError(response);
+    }
+
+    const data = await response.json();
+    return {
+      content: data.choices?.[0]?.message?.content || '',
+      model: data.model || request.model,
+      usage: this.parseUsage(data.usage)
+    };
+  }
+
+  /**
+   * Stream a completion. Servers that ignore `stream_options` report no
+   * usage, in which case the final event carries zero token counts.
+   */
+  public async *stream(request: LocalModelRequest, signal?: AbortSignal): AsyncGenerator<LocalModelStreamEvent> {
+    const response = await fetch(`${this.apiUrl}/chat/completions`, {
+      method: 'POST',
+      headers: { ...this.buildHeaders(), 'Accept': 'text/event-stream' },
+      body: this.buildBody(request, true),
+      signal
+    });
+
+    if (!response.ok || !response.body) {
+      throw await this.createResponseError(response);
+    }
+
+    let model = request.model;
+    let usage = EMPTY_USAGE;
+
+    for await (const data of readSSEData(response.body, signal)) {
+      if (data === '[DONE]') {
+        break;
+      }
+
+      const chunk = JSON.parse(data);
+      if (chunk.error) {
+        throw new Error(`Local model error: ${chunk.error.message || chunk.error}`);
+      }
+
+      model = chunk.model || model;
+      if (chunk.usage) {
+        usage = this.parseUsage(chunk.usage);
+      }
+
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) {
+        yield { type: 'delta', content };
+      }
+    }
+
+    yield { type: 'done', model, usage };
+  }
+
+  public refresh(): void {
+    this.modelsPromise = null;
+  }
+}
+
+// Export singleton instance
+export const LocalModelClient = new LocalModelClientClass();
+export default LocalModelClient;
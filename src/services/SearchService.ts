@@ -0,0 +1,143 @@
+import { supabaseConfig, isSupabaseConfigured } from '../lib/supabase';
+import { getSecureAccessToken } from '../utils/auth-protection';
+import { projectService } from './database';
+import { ALL_TOOLS } from '../data/tools';
+import { ROUTE_CONFIGS } from '../components/layout/route-constants';
+import { BUILT_IN_TEMPLATES } from '../utils/stack-templates';
+import {
+  SearchIndex,
+  projectDocuments,
+  routeDocuments,
+  templateDocuments,
+  toolDocuments,
+  type IndexableProject
+} from '../utils/search-index';
+import type { SearchDocument, SearchOptions, SearchResponse, ServerSearchResult } from '../types/search';
+
+/**
+ * FlashFusion Search Service
+ * One index over tools, pages, guides, stack templates and the user's
+ * projects, searched in the browser as the user types. Project files are
+ * searched by the edge function with Postgres full-text search.
+ */
+
+const SEARCH_PATH = '/functions/v1/make-server-88829a40/search';
+const RECENT_SEARCHES_KEY = 'ff_recent_searches';
+const SELECTIONS_KEY = 'ff_search_selections';
+const MAX_RECENT_SEARCHES = 5;
+
+function readStorage<T>(key: string, fallback: T): T {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+class SearchServiceClass {
+  private index: SearchIndex | null = null;
+  private projectIds: string[] = [];
+  /** Times each document was opened from search results; added to its usage signal */
+  private selections: Record<string, number> = readStorage(SELECTIONS_KEY, {});
+
+  /** Built on first use; the catalogs are static */
+  private getIndex(): SearchIndex {
+    if (!this.index) {
+      this.index = new SearchIndex([
+        ...toolDocuments(ALL_TOOLS),
+        ...routeDocuments(Object.values(ROUTE_CONFIGS)),
+        ...templateDocuments(BUILT_IN_TEMPLATES)
+      ].map(document => this.withSelections(document)));
+    }
+    return this.index;
+  }
+
+  private withSelections(document: SearchDocument): SearchDocument {
+    const selected = this.selections[document.id] ?? 0;
+    return selected ? { ...document, usage: (document.usage ?? 0) + selected } : document;
+  }
+
+  /** Replace the indexed projects with the given user's */
+  async loadProjects(userId: string): Promise<void> {
+    const projects = await projectService.getUserProjects(userId);
+    this.setProjects(projects as unknown as IndexableProject[]);
+  }
+
+  setProjects(projects: IndexableProject[]): void {
+    const index = this.getIndex();
+    this.projectIds.forEach(id => index.remove(id));
+
+    const documents = projectDocuments(projects).map(document => this.withSelections(document));
+    index.addAll(documents);
+    this.projectIds = documents.map(document => document.id);
+  }
+
+  search(query: string, options?: SearchOptions): SearchResponse {
+    return this.getIndex().search(query, options);
+  }
+
+  /** Count an opened result so it ranks higher next time */
+  recordSelection(id: string): void {
+    this.selections[id] = (this.selections[id] ?? 0) + 1;
+    localStorage.setItem(SELECTIONS_KEY, JSON.stringify(this.selections));
+
+    const index = this.getIndex();
+    const document = index.get(id);
+    if (document) {
+      index.add({ ...document, usage: (document.usage ?? 0) + 1 });
+    }
+  }
+
+  /**
+   * Projects and project files matching `query`, from the database. Empty in
+   * demo mode and when signed out, since there is nothing stored to search.
+   */
+  async searchServer(query: string, limit = 20): Promise<ServerSearchResult[]> {
+    if (!isSupabaseConfigured || !query.trim()) {
+      return [];
+    }
+
+    const accessToken = await getSecureAccessToken();
+    if (!accessToken) {
+      return [];
+    }
+
+    const params = new URLSearchParams({ q: query.trim(), limit: String(limit) });
+    const response = await fetch(`${supabaseConfig.url.replace(/\/+$/, '')}${SEARCH_PATH}?${params}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'apikey': supabaseConfig.anonKey
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: response.statusText }));
+      throw Object.assign(new Error(errorData.error || `Search failed: ${response.status}`), {
+        status: response.status
+      });
+    }
+
+    const data = await response.json();
+    return data.results;
+  }
+
+  getRecentSearches(): string[] {
+    return readStorage(RECENT_SEARCHES_KEY, []);
+  }
+
+  saveRecentSearch(query: string): string[] {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      return this.getRecentSearches();
+    }
+
+    const recent = [trimmed, ...this.getRecentSearches().filter(previous => previous !== trimmed)].slice(0, MAX_RECENT_SEARCHES);
+    localStorage.setItem(RECENT_SEARCHES_KEY, JSON.stringify(recent));
+    return recent;
+  }
+}
+
+// Export singleton instance
+export const SearchService = new SearchServiceClass();
+export default SearchService;
@@ -0,0 +1,59 @@
+import { supabaseConfig } from '../lib/supabase';
+import { getSecureAccessToken } from '../utils/auth-protection';
+
+/**
+ * FlashFusion Usage Client
+ * Reads the caller's plan usage for the current billing period from the edge
+ * function. Limits are enforced server-side; requests past a limit fail with
+ * HTTP 402 and a message that names the plan to upgrade to.
+ */
+
+export type MeteredResource = 'ai_calls' | 'projects' | 'deployments' | 'storage_bytes';
+
+export interface UsageLine {
+  used: number;
+  /** null when the plan has no limit */
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface UsageReport {
+  plan: 'free' | 'pro' | 'enterprise';
+  planName: string;
+  periodStart: string;
+  /** AI calls and deployments reset at this time */
+  periodEnd: string;
+  resources: Record<MeteredResource, UsageLine>;
+}
+
+const USAGE_PATH = '/functions/v1/make-server-88829a40/usage';
+
+class UsageClientClass {
+  public async getUsage(): Promise<UsageReport> {
+    const accessToken = await getSecureAccessToken();
+    if (!accessToken) {
+      throw Object.assign(new Error('Sign in to see your usage'), { status: 401 });
+    }
+
+    const response = await fetch(`${supabaseConfig.url.replace(/\/+$/, '')}${USAGE_PATH}`, {
+      headers: {
+        'Authorization': `Bearer ${accessToken}`,
+        'apikey': supabaseConfig.anonKey
+      }
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({ error: response.statusText }));
+      throw Object.assign(new Error(errorData.error || `Failed to fetch usage: ${response.status}`), {
+        status: response.status
+      });
+    }
+
+    const data = await response.json();
+    return data.usage;
+  }
+}
+
+// Export singleton instance
+export const UsageClient = new UsageClientClass();
+export default UsageClient;
@@ -0,0 +1,166 @@
+import { supabase, isSupabaseConfigured, type WorkflowExecutionRow } from '../lib/supabase';
+import type { WorkflowExecution, WorkflowGraph, WorkflowRunStats } from '../types/workflow';
+import { assertRunnable, executeWorkflow, type ExecuteOptions } from '../utils/workflow-engine';
+
+/**
+ * Runs builder workflows and records live runs in `workflow_executions`.
+ * Workflows are stored in `agent_workflows` keyed by the builder's own graph id;
+ * run counts there are kept up to date by a database trigger. Dry runs are
+ * never stored. Without Supabase, runs are kept in memory for the session.
+ */
+
+export type RunOptions = Pick<ExecuteOptions, 'triggerData' | 'triggerId' | 'dryRun' | 'signal' | 'onNodeUpdate'>;
+
+function toExecution(graphId: string, row: WorkflowExecutionRow): WorkflowExecution {
+  const startedAt = Date.parse(row.started_at);
+  return {
+    id: row.id,
+    workflowId: graphId,
+    status: row.status,
+    dryRun: false,
+    triggerData: row.trigger_data ?? {},
+    logs: row.execution_log?.logs ?? [],
+    startedAt,
+    completedAt: row.completed_at ? Date.parse(row.completed_at) : undefined,
+    durationMs: row.duration_ms ?? undefined,
+    error: row.error_message ?? undefined
+  };
+}
+
+class WorkflowExecutionServiceClass {
+  private localExecutions: WorkflowExecution[] = [];
+
+  /** Creates or updates the stored definition and returns its row id */
+  async saveWorkflow(graph: WorkflowGraph): Promise<string> {
+    if (!isSupabaseConfigured) return graph.id;
+
+    const existingId = await this.findWorkflowRowId(graph.id);
+    if (existingId) {
+      const { error } = await supabase
+        .from('agent_workflows')
+        .update({ name: graph.name, description: graph.description ?? null, workflow_definition: graph, updated_at: new Date().toISOString() })
+        .eq('id', existingId);
+      if (error) throw new Error(`Failed to save workflow: ${error.message}`);
+      return existingId;
+    }
+
+    const { data, error } = await supabase
+      .from('agent_workflows')
+      .insert({ name: graph.name, description: graph.description ?? null, workflow_definition: graph, status: 'active' })
+      .select('id')
+      .single();
+    if (error || !data) throw new Error(`Failed to save workflow: ${error?.message ?? 'no row returned'}`);
+    return data.id;
+  }
+
+  /**
+   * Executes the graph. A live run saves the workflow and opens an execution
+   * row before the first node starts, so a run that never finishes still
+   * shows up as running.
+   */
+  async run(graph: WorkflowGraph, options: RunOptions = {}): Promise<WorkflowExecution> {
+    assertRunnable(graph);
+    if (options.dryRun) return executeWorkflow(graph, options);
+
+    if (!isSupabaseConfigured) {
+      const execution = await executeWorkflow(graph, options);
+      execution.id = `local-${Date.now()}`;
+      this.localExecutions.unshift(execution);
+      return execution;
+    }
+
+    const workflowRowId = await this.saveWorkflow(graph);
+    const { data: row, error } = await supabase
+      .from('workflow_executions')
+      .insert({ workflow_id: workflowRowId, trigger_data: options.triggerData ?? {}, status: 'running' })
+      .select('id')
+      .single();
+    if (error || !row) throw new Error(`Failed to record workflow run: ${error?.message ?? 'no row returned'}`);
+
+    let execution: WorkflowExecution;
+    try {
+      execution = await executeWorkflow(graph, options);
+    } catch (runError) {
+      const message = runError instanceof Error ? runError.message : String(runError);
+      await supabase
+        .from('workflow_executions')
+        .update({ status: 'failed', error_message: message, completed_at: new Date().toISOString() })
+        .eq('id', row.id);
+      throw runError;
+    }
+
+    execution.id = row.id;
+    const { error: updateError } = await supabase
+      .from('workflow_executions')
+      .update({
+        status: execution.status,
+        execution_log: { logs: execution.logs },
+        error_message: execution.error ?? null,
+        completed_at: new Date(execution.completedAt ?? Date.now()).toISOString(),
+        duration_ms: execution.durationMs ?? null
+      })
+      .eq('id', row.id);
+    if (updateError) console.error('Failed to store workflow execution log:', updateError);
+    return execution;
+  }
+
+  async getStats(graphId: string): Promise<WorkflowRunStats> {
+    if (!isSupabaseConfigured) {
+      const runs = this.localExecutions.filter(execution => execution.workflowId === graphId && execution.status !== 'canceled');
+      return this.toStats(
+        runs.length,
+        runs.filter(execution => execution.status === 'completed').length,
+        runs[0]?.completedAt ?? null
+      );
+    }
+
+    const { data, error } = await supabase
+      .from('agent_workflows')
+      .select('total_runs, successful_runs, last_run_at')
+      .eq('workflow_definition->>id', graphId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load workflow stats: ${error.message}`);
+    return this.toStats(data?.total_runs ?? 0, data?.successful_runs ?? 0, data?.last_run_at ? Date.parse(data.last_run_at) : null);
+  }
+
+  /** Most recent live runs first */
+  async listExecutions(graphId: string, limit = 20): Promise<WorkflowExecution[]> {
+    if (!isSupabaseConfigured) {
+      return this.localExecutions.filter(execution => execution.workflowId === graphId).slice(0, limit);
+    }
+
+    const workflowRowId = await this.findWorkflowRowId(graphId);
+    if (!workflowRowId) return [];
+    const { data, error } = await supabase
+      .from('workflow_executions')
+      .select('*')
+      .eq('workflow_id', workflowRowId)
+      .order('started_at', { ascending: false })
+      .limit(limit);
+    if (error) throw new Error(`Failed to load workflow runs: ${error.message}`);
+    return (data ?? []).map(row => toExecution(graphId, row));
+  }
+
+  private async findWorkflowRowId(graphId: string): Promise<string | null> {
+    const { data, error } = await supabase
+      .from('agent_workflows')
+      .select('id')
+      .eq('workflow_definition->>id', graphId)
+      .maybeSingle();
+    if (error) throw new Error(`Failed to load workflow: ${error.message}`);
+    return data?.id ?? null;
+  }
+
+  private toStats(totalRuns: number, successfulRuns: number, lastRunAt: number | null): WorkflowRunStats {
+    return {
+      totalRuns,
+      successfulRuns,
+      successRate: totalRuns > 0 ? Math.round((successfulRuns / totalRuns) * 1000) / 10 : null,
+      lastRunAt
+    };
+  }
+}
+
+export const WorkflowExecutionService = new WorkflowExecutionServiceClass();
+
+export default WorkflowExecutionService;
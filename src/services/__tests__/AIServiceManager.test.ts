@@ -1,75 +1,238 @@
-import { afterEach, beforeEach, describe, expect, it, vi, type SpyInstance } from 'vitest';
-import { AIServiceManager, type AIProvider } from '../AIServiceManager';
-
-describe('AIServiceManager helper methods', () => {
-  let manager: AIServiceManager;
-  let callProviderSpy: SpyInstance;
-
-  const mockProvider: AIProvider = {
-    name: 'MockProvider',
-    apiKey: 'test-key',
-    baseUrl: 'https://mock',
-    models: ['mock-model'],
-    capabilities: ['text-generation'],
-    rateLimits: {
-      requestsPerMinute: 100,
-      tokensPerMinute: 1000
-    }
-  };
+import { afterEach, beforeEach, describe, expect, it, vi, type MockInstance } from 'vitest';
+import { AIServiceManager, type AIServiceManagerOptions } from '../AIServiceManager';
+import { AIGatewayClient, type GatewayProvider, type GatewayRequest } from '../AIGatewayClient';
+
+const okResponse = (request: GatewayRequest) => ({
+  content: 'result',
+  model: request.model,
+  provider: request.provider,
+  usage: {
+    promptTokens: 1,
+    completionTokens: 1,
+    totalTokens: 2
+  }
+});
+
+const httpError = (status: number) => Object.assign(new Error(`HTTP ${status}`), { status });
+
+async function createManager(
+  providers: GatewayProvider[] = ['openai', 'anthropic', 'google'],
+  options: AIServiceManagerOptions = {}
+): Promise<AIServiceManager> {
+  vi.spyOn(AIGatewayClient, 'getAvailableProviders').mockResolvedValue(new Set(providers));
+  const manager = new AIServiceManager(options);
+  await manager.getAvailableModels();
+  return manager;
+}
+
+describe('AIServiceManager', () => {
+  let generateSpy: MockInstance<typeof AIGatewayClient.generate>;
 
   beforeEach(() => {
-    manager = new AIServiceManager();
-    vi.spyOn(manager as any, 'selectOptimalProvider').mockResolvedValue(mockProvider);
-    vi.spyOn(manager as any, 'checkRateLimit').mockReturnValue(true);
-    callProviderSpy = vi.spyOn(manager as any, 'callProvider').mockResolvedValue({
-      content: 'result',
-      model: 'mock-model',
-      usage: {
-        promptTokens: 1,
-        completionTokens: 1,
-        totalTokens: 2
-      }
-    });
-    vi.spyOn(manager as any, 'logUsage').mockResolvedValue(undefined);
+    vi.stubGlobal('localStorage', { getItem: () => null, setItem: () => undefined });
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    generateSpy = vi.spyOn(AIGatewayClient, 'generate').mockImplementation(async request => okResponse(request));
   });
 
   afterEach(() => {
     vi.restoreAllMocks();
+    vi.unstubAllGlobals();
+  });
+
+  describe('helper methods', () => {
+    it('generateCode delegates to generateContent and returns provider data', async () => {
+      const manager = await createManager(['openai']);
+      const generateContentSpy = vi.spyOn(manager, 'generateContent');
+
+      const response = await manager.generateCode('Create a function', 'typescript');
+
+      expect(generateContentSpy).toHaveBeenCalledTimes(1);
+      expect(generateSpy).toHaveBeenCalledTimes(1);
+      expect(response).toMatchObject({
+        content: 'result',
+        provider: 'openai',
+        attempts: 1
+      });
+    });
+
+    it('generateContentForType builds an AIRequest and resolves via generateContent', async () => {
+      const manager = await createManager();
+      const generateContentSpy = vi.spyOn(manager, 'generateContent');
+
+      const response = await manager.generateContentForType('Write a blog post', 'blog');
+
+      expect(generateContentSpy).toHaveBeenCalledWith({
+        prompt: 'Write a blog post',
+        systemPrompt: expect.stringContaining('content creator specializing in blog'),
+        temperature: 0.8,
+        maxTokens: 4000
+      });
+      expect(generateSpy).toHaveBeenCalledTimes(1);
+      expect(response.content).toBe('result');
+    });
+
+    it('generateContent rejects when no provider is available', async () => {
+      const manager = await createManager([]);
+
+      await expect(manager.generateCode('code please')).rejects.toThrow('No available AI providers configured');
+      expect(generateSpy).not.toHaveBeenCalled();
+    });
+
+    it('estimates cost from the catalog price of the model that answered', async () => {
+      const manager = await createManager(['openai']);
+
+      const response = await manager.generateContent({ prompt: 'hi', model: 'gpt-4o' });
+
+      expect(response.model).toBe('gpt-4o');
+      expect(response.usage.estimatedCost).toBeCloseTo((2 / 1000) * 0.025);
+    });
+  });
+
+  describe('capability matching', () => {
+    it('only routes vision requests to multimodal models', async () => {
+      const manager = await createManager();
+
+      const models = manager.planRoute({ prompt: 'describe this screenshot', capabilities: ['vision'] });
+
+      expect(models.map(model => model.id).sort()).toEqual(['gemini-1.5-flash', 'gemini-1.5-pro', 'gpt-4o']);
+    });
+
+    it('skips models whose context window is too small for the prompt', async () => {
+      const manager = await createManager();
+
+      const models = manager.planRoute({ prompt: 'x'.repeat(600000), maxTokens: 4000 });
+
+      expect(models.length).toBeGreaterThan(0);
+      expect(models.every(model => model.maxTokens >= 154000)).toBe(true);
+      expect(models.some(model => model.provider === 'openai')).toBe(false);
+    });
   });
 
-  it('generateCode delegates to generateContent and returns provider data', async () => {
-    const generateContentSpy = vi.spyOn(manager, 'generateContent');
+  describe('cost-aware routing', () => {
+    it('orders candidates by price under the cost strategy', async () => {
+      const manager = await createManager();
+
+      const costs = manager.planRoute({ prompt: 'hi' }, { strategy: 'cost' }).map(model => model.costPer1k);
+
+      expect(costs).toEqual([...costs].sort((a, b) => a - b));
+      expect(costs[0]).toBe(0.001);
+    });
+
+    it('drops models above the cost ceiling', async () => {
+      const manager = await createManager();
 
-    const response = await manager.generateCode('Create a function', 'typescript');
+      const models = manager.planRoute({ prompt: 'hi' }, { maxCostPer1k: 0.003 });
 
-    expect(generateContentSpy).toHaveBeenCalledTimes(1);
-    expect(callProviderSpy).toHaveBeenCalledTimes(1);
-    expect(response).toMatchObject({
-      content: 'result',
-      model: 'mock-model',
-      provider: mockProvider.name
+      expect(models.map(model => model.id).sort()).toEqual(['claude-3-haiku-20240307', 'gemini-1.5-flash', 'gpt-3.5-turbo']);
     });
   });
 
-  it('generateContentForType builds an AIRequest and resolves via generateContent', async () => {
-    const generateContentSpy = vi.spyOn(manager, 'generateContent');
+  describe('fallback chains', () => {
+    it('tries chain entries in order and expands provider ids to their models', async () => {
+      const manager = await createManager();
+
+      const models = manager.planRoute({ prompt: 'hi' }, { chain: ['gpt-3.5-turbo', 'anthropic'], fallback: false });
+
+      expect(models[0].id).toBe('gpt-3.5-turbo');
+      expect(models.slice(1).every(model => model.provider === 'anthropic')).toBe(true);
+      expect(models).toHaveLength(4);
+    });
+
+    it('falls back to the next provider on a 5xx and skips the failed provider\'s other models', async () => {
+      const manager = await createManager();
+      generateSpy.mockImplementation(async request => {
+        if (request.provider === 'openai') throw httpError(503);
+        return okResponse(request);
+      });
+
+      const response = await manager.generateContent({ prompt: 'hi' }, { chain: ['gpt-4o', 'gpt-4-turbo', 'anthropic'] });
+
+      expect(response.provider).toBe('anthropic');
+      expect(response.attempts).toBe(2);
+      expect(generateSpy.mock.calls.map(([request]) => request.model)).toEqual(['gpt-4o', 'claude-3-5-sonnet-20241022']);
+    });
+
+    it('does not fall back on non-retryable errors', async () => {
+      const manager = await createManager();
+      generateSpy.mockRejectedValue(httpError(400));
+
+      await expect(manager.generateContent({ prompt: 'hi' })).rejects.toThrow('HTTP 400');
+      expect(generateSpy).toHaveBeenCalledTimes(1);
+    });
 
-    const response = await manager.generateContentForType('Write a blog post', 'blog');
+    it('rethrows the caller\'s daily quota without failing over or tripping the breaker', async () => {
+      const manager = await createManager(['openai', 'anthropic'], { failureThreshold: 1 });
+      generateSpy.mockRejectedValue(Object.assign(httpError(429), { code: 'quota_exceeded' }));
 
-    expect(generateContentSpy).toHaveBeenCalledWith({
-      prompt: 'Write a blog post',
-      systemPrompt: expect.stringContaining('content creator specializing in blog'),
-      temperature: 0.8,
-      maxTokens: 4000
+      await expect(manager.generateContent({ prompt: 'hi' }, { chain: ['openai'] })).rejects.toThrow('HTTP 429');
+      expect(generateSpy).toHaveBeenCalledTimes(1);
+      expect(manager.getCircuitState('openai')).toBe('closed');
+    });
+
+    it('stops after maxAttempts and surfaces the last error', async () => {
+      const manager = await createManager();
+      generateSpy.mockRejectedValue(httpError(429));
+
+      await expect(manager.generateContent({ prompt: 'hi' }, { maxAttempts: 2 })).rejects.toThrow('HTTP 429');
+      expect(generateSpy).toHaveBeenCalledTimes(2);
+    });
+
+    it('falls back before the first streamed token but not after', async () => {
+      const manager = await createManager(['openai', 'anthropic']);
+      vi.spyOn(AIGatewayClient, 'stream').mockImplementation(async function* (request) {
+        if (request.provider === 'openai') throw httpError(502);
+        yield { type: 'delta', content: 'partial' };
+        throw httpError(502);
+      });
+      const onToken = vi.fn();
+
+      await expect(manager.streamContent({ prompt: 'hi' }, { onToken }, { chain: ['openai'] })).rejects.toThrow('HTTP 502');
+      expect(AIGatewayClient.stream).toHaveBeenCalledTimes(2);
+      expect(onToken).toHaveBeenCalledWith('partial', 'partial');
     });
-    expect(callProviderSpy).toHaveBeenCalledTimes(1);
-    expect(response.content).toBe('result');
   });
 
-  it('generateContent rejects when no provider is available', async () => {
-    (manager as any).selectOptimalProvider.mockResolvedValueOnce(null);
+  describe('circuit breakers', () => {
+    it('opens after repeated failures, half-opens after the cooldown and closes on success', async () => {
+      let now = 0;
+      const manager = await createManager(['openai', 'anthropic'], { failureThreshold: 2, cooldownMs: 1000, now: () => now });
+      generateSpy.mockImplementation(async request => {
+        if (request.provider === 'openai') throw httpError(500);
+        return okResponse(request);
+      });
+
+      await manager.generateContent({ prompt: 'hi' }, { chain: ['openai'] });
+      expect(manager.getCircuitState('openai')).toBe('closed');
+      await manager.generateContent({ prompt: 'hi' }, { chain: ['openai'] });
+      expect(manager.getCircuitState('openai')).toBe('open');
 
-    await expect(manager.generateCode('code please')).rejects.toThrow('No available AI providers configured');
-    expect(callProviderSpy).not.toHaveBeenCalled();
+      generateSpy.mockClear();
+      await manager.generateContent({ prompt: 'hi' }, { chain: ['openai'] });
+      expect(generateSpy.mock.calls.every(([request]) => request.provider !== 'openai')).toBe(true);
+      expect(manager.isProviderAvailable('openai')).toBe(false);
+
+      now = 1000;
+      expect(manager.getCircuitState('openai')).toBe('half-open');
+      generateSpy.mockImplementation(async request => okResponse(request));
+
+      const response = await manager.generateContent({ prompt: 'hi' }, { chain: ['openai'] });
+      expect(response.provider).toBe('openai');
+      expect(manager.getCircuitState('openai')).toBe('closed');
+    });
+
+    it('re-opens immediately when the half-open trial fails', async () => {
+      let now = 0;
+      const manager = await createManager(['openai', 'anthropic'], { failureThreshold: 1, cooldownMs: 1000, now: () => now });
+      generateSpy.mockImplementation(async request => {
+        if (request.provider === 'openai') throw httpError(429);
+        return okResponse(request);
+      });
+
+      await manager.generateContent({ prompt: 'hi' }, { chain: ['openai'] });
+      now = 1500;
+      await manager.generateContent({ prompt: 'hi' }, { chain: ['openai'] });
+
+      expect(manager.getCircuitState('openai')).toBe('open');
+    });
   });
 });
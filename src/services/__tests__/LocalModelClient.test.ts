@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LocalModelClient } from '../LocalModelClient';
+
+function sseResponse(events: string[]): Response {
+  const body = events.map(event => `data: ${event}\n\n`).join('');
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('LocalModelClient', () => {
+  let storage: Map<string, string>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    storage = new Map();
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key)
+    });
+    fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    LocalModelClient.refresh();
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('discovers models from the /v1/models endpoint of the configured server', async () => {
+    LocalModelClient.setConfig({ baseUrl: 'http://localhost:8080/', apiKey: 'secret' });
+    fetchMock.mockResolvedValue(Response.json({
+      data: [{ id: 'llama3:8b', owned_by: 'library' }, { id: 'qwen2.5-coder' }]
+    }));
+
+    const models = await LocalModelClient.discoverModels();
+
+    expect(fetchMock).toHaveBeenCalledWith('http://localhost:8080/v1/models', {
+      headers: { 'Content-Type': 'application/json', 'Authorization': 'Bearer secret' }
+    });
+    expect(models).toEqual([
+      { id: 'llama3:8b', ownedBy: 'library' },
+      { id: 'qwen2.5-coder', ownedBy: undefined }
+    ]);
+  });
+
+  it('returns no models when the server is unreachable', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    LocalModelClient.setConfig({ baseUrl: 'http://localhost:11434/v1' });
+    fetchMock.mockRejectedValue(new TypeError('Failed to fetch'));
+
+    await expect(LocalModelClient.discoverModels()).resolves.toEqual([]);
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:11434/v1/models');
+  });
+
+  it('streams chat completion deltas and reports usage', async () => {
+    fetchMock.mockResolvedValue(sseResponse([
+      '{"model":"llama3","choices":[{"delta":{"role":"assistant"}}]}',
+      '{"model":"llama3","choices":[{"delta":{"content":"const"}}]}',
+      '{"model":"llama3","choices":[{"delta":{"content":" x = 1;"}}]}',
+      '{"model":"llama3","choices":[],"usage":{"prompt_tokens":5,"completion_tokens":4,"total_tokens":9}}',
+      '[DONE]'
+    ]));
+
+    const events = [];
+    for await (const event of LocalModelClient.stream({ model: 'llama3', prompt: 'hi', systemPrompt: 'be brief' })) {
+      events.push(event);
+    }
+
+    const body = JSON.parse(fetchMock.mock.calls[0][1].body);
+    expect(body.messages).toEqual([
+      { role: 'system', content: 'be brief' },
+      { role: 'user', content: 'hi' }
+    ]);
+    expect(body.stream).toBe(true);
+    expect(events).toEqual([
+      { type: 'delta', content: 'const' },
+      { type: 'delta', content: ' x = 1;' },
+      { type: 'done', model: 'llama3', usage: { promptTokens: 5, completionTokens: 4, totalTokens: 9 } }
+    ]);
+  });
+});
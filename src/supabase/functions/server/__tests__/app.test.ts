@@ -0,0 +1,71 @@
+import { describe, it, expect, beforeAll, vi } from 'vitest';
+import type { Hono } from 'hono';
+import { MemoryKVStore } from '../kv';
+
+// Module-level clients read these; nothing talks to Supabase in these tests
+const env: Record<string, string> = {
+  SUPABASE_URL: 'http://localhost:54321',
+  SUPABASE_SERVICE_ROLE_KEY: 'service-role-key'
+};
+vi.stubGlobal('Deno', { env: { get: (name: string) => env[name] } });
+
+const kvStore = new MemoryKVStore();
+let app: Hono;
+
+beforeAll(async () => {
+  // The request logger is noise here
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+
+  const kv = await import('../kv_store.tsx');
+  kv.useKVStore(kvStore);
+  app = (await import('../app.tsx')).default;
+});
+
+function post(path: string, body: unknown, headers: Record<string, string> = {}) {
+  return app.request(`/make-server-88829a40${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+}
+
+describe('edge app routes', () => {
+  it('rate limits failed logins per email and client address', async () => {
+    // Each guess forges a different leading address; the proxy-appended one stays the same
+    const attempts = await Promise.all(Array.from({ length: 10 }, (_, attempt) =>
+      post('/auth/login', { email: 'Someone@example.com', password: 'wrong' }, { 'X-Forwarded-For': `198.51.100.${attempt}, 203.0.113.9` })
+    ));
+    expect(attempts.map(response => response.status)).toEqual(Array(10).fill(401));
+
+    const limited = await post('/auth/login', { email: 'someone@example.com', password: 'wrong' }, { 'X-Forwarded-For': '1.2.3.4, 203.0.113.9' });
+    expect(limited.status).toBe(429);
+    expect(await kvStore.get('login_attempts:someone@example.com:203.0.113.9')).toMatchObject({ value: 11 });
+
+    const owner = await post('/auth/login', { email: 'someone@example.com', password: 'wrong' }, { 'X-Forwarded-For': '198.51.100.4' });
+    expect(owner.status).toBe(401);
+  });
+
+  it('caps failed logins per email across client addresses', async () => {
+    const statuses: number[] = [];
+    for (let attempt = 0; attempt < 51; attempt++) {
+      const response = await post('/auth/login', { email: 'spread@example.com', password: 'wrong' }, { 'X-Forwarded-For': `203.0.113.${attempt}` });
+      statuses.push(response.status);
+    }
+
+    expect(statuses.slice(0, 50)).toEqual(Array(50).fill(401));
+    expect(statuses[50]).toBe(429);
+  });
+
+  it('stores analytics events with a TTL and counts them per day', async () => {
+    const response = await post('/studio/analytics/track', { event: 'song_generated', userId: 'user-1', data: { genre: 'pop' } });
+    expect(response.status).toBe(200);
+
+    const { entries } = await kvStore.scan('analytics:user-1:');
+    expect(entries).toHaveLength(1);
+    expect(entries[0].value).toMatchObject({ event: 'song_generated', data: { genre: 'pop' } });
+    expect(entries[0].expiresAt).toBeDefined();
+
+    const { timestamp } = await response.json();
+    expect(await kvStore.get(`analytics_count:${timestamp.slice(0, 10)}:song_generated`)).toMatchObject({ value: 1 });
+  });
+});
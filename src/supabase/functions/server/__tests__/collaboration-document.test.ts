@@ -0,0 +1,244 @@
+import { describe, it, expect } from 'vitest';
+import {
+  CollaborationDocument,
+  type CollaborationStore,
+  type DocumentSnapshot,
+  type StoredOperation
+} from '../collaboration-document';
+import {
+  OTClient,
+  applyOperation,
+  diffToOperation,
+  type TextOperation,
+  type VersionedOperation
+} from '../../../../utils/text-operations';
+
+class MemoryStore implements CollaborationStore {
+  snapshot: DocumentSnapshot | null = null;
+  operations: StoredOperation[] = [];
+  snapshotWrites = 0;
+
+  async loadSnapshot() {
+    return this.snapshot;
+  }
+
+  async loadOperations(_sessionId: string, afterVersion: number) {
+    return this.operations.filter(entry => entry.version > afterVersion);
+  }
+
+  async appendOperation(_sessionId: string, operation: StoredOperation) {
+    const taken = this.operations.some(entry =>
+      entry.version === operation.version || (entry.clientId === operation.clientId && entry.opId === operation.opId)
+    );
+    if (taken) return false;
+    this.operations.push(operation);
+    return true;
+  }
+
+  async saveSnapshot(_sessionId: string, snapshot: DocumentSnapshot) {
+    this.snapshot = snapshot;
+    this.snapshotWrites++;
+  }
+
+  async pruneOperations(_sessionId: string, throughVersion: number) {
+    this.operations = this.operations.filter(entry => entry.version > throughVersion);
+  }
+}
+
+interface OutgoingOperation {
+  operation: TextOperation;
+  baseVersion: number;
+  opId: string;
+}
+
+/**
+ * An editor connected to the server through queues, so the test controls
+ * exactly when each message is delivered
+ */
+class SimulatedEditor {
+  text: string;
+  client: OTClient;
+  outbox: OutgoingOperation[] = [];
+  inbox: VersionedOperation[] = [];
+
+  constructor(readonly id: string, snapshot: DocumentSnapshot) {
+    this.text = snapshot.content;
+    this.client = new OTClient(snapshot.version, id, {
+      sendOperation: (operation, baseVersion, opId) => this.outbox.push({ operation, baseVersion, opId }),
+      applyOperation: operation => {
+        this.text = applyOperation(this.text, operation);
+      }
+    });
+  }
+
+  edit(newText: string) {
+    const operation = diffToOperation(this.text, newText);
+    this.text = newText;
+    this.client.applyLocal(operation);
+  }
+
+  receive() {
+    const message = this.inbox.shift();
+    if (message) this.client.applyServer(message);
+  }
+}
+
+async function deliver(document: CollaborationDocument, editor: SimulatedEditor, editors: SimulatedEditor[]) {
+  const message = editor.outbox.shift();
+  if (!message) return;
+
+  const { operation } = await document.submit({ ...message, clientId: editor.id });
+  editors.forEach(each => each.inbox.push(operation));
+}
+
+async function drain(document: CollaborationDocument, editors: SimulatedEditor[]) {
+  while (editors.some(editor => editor.outbox.length > 0 || editor.inbox.length > 0)) {
+    for (const editor of editors) {
+      await deliver(document, editor, editors);
+      while (editor.inbox.length > 0) editor.receive();
+    }
+  }
+}
+
+async function createDocument(store = new MemoryStore(), compactEvery = 50) {
+  const document = new CollaborationDocument('session-1', store, { compactEvery, historyLimit: 20 });
+  await document.load();
+  return document;
+}
+
+describe('CollaborationDocument', () => {
+  it('merges two editors typing at the same time instead of keeping the last write', async () => {
+    const store = new MemoryStore();
+    store.snapshot = { content: 'const total = 0;\n', version: 1 };
+    const document = await createDocument(store);
+    const alice = new SimulatedEditor('alice', document.getSnapshot());
+    const bob = new SimulatedEditor('bob', document.getSnapshot());
+
+    // Both edit before seeing each other's change
+    alice.edit('// totals\nconst total = 0;\n');
+    bob.edit('const total = 0;\nexport default total;\n');
+    await deliver(document, alice, [alice, bob]);
+    await deliver(document, bob, [alice, bob]);
+    await drain(document, [alice, bob]);
+
+    const expected = '// totals\nconst total = 0;\nexport default total;\n';
+    expect(document.getSnapshot()).toEqual({ content: expected, version: 3 });
+    expect(alice.text).toBe(expected);
+    expect(bob.text).toBe(expected);
+  });
+
+  it('converges across randomly interleaved edits, deliveries and acknowledgements', async () => {
+    let seed = 42;
+    const random = () => {
+      seed = (seed * 1664525 + 1013904223) % 4294967296;
+      return seed / 4294967296;
+    };
+
+    const document = await createDocument(new MemoryStore(), 1000);
+    const editors = ['a', 'b', 'c'].map(id => new SimulatedEditor(id, document.getSnapshot()));
+
+    for (let step = 0; step < 400; step++) {
+      const editor = editors[Math.floor(random() * editors.length)];
+      const action = random();
+
+      if (action < 0.4) {
+        const position = Math.floor(random() * (editor.text.length + 1));
+        const deleteCount = random() < 0.3 ? Math.floor(random() * 3) : 0;
+        editor.edit(editor.text.slice(0, position) + editor.id.repeat(1 + Math.floor(random() * 2)) + editor.text.slice(position + deleteCount));
+      } else if (action < 0.7) {
+        await deliver(document, editor, editors);
+      } else {
+        editor.receive();
+      }
+    }
+
+    await drain(document, editors);
+
+    const { content } = document.getSnapshot();
+    expect(content.length).toBeGreaterThan(0);
+    editors.forEach(editor => {
+      expect(editor.text).toBe(content);
+      expect(editor.client.hasPendingChanges).toBe(false);
+    });
+  });
+
+  it('compacts the log into a snapshot and reloads from it', async () => {
+    const store = new MemoryStore();
+    const document = await createDocument(store, 5);
+    const editor = new SimulatedEditor('solo', document.getSnapshot());
+
+    for (let i = 0; i < 30; i++) {
+      editor.edit(`${editor.text}${i % 10}`);
+      await drain(document, [editor]);
+    }
+
+    expect(store.snapshotWrites).toBe(6);
+    expect(store.snapshot).toEqual({ content: editor.text, version: 31 });
+    // Only the rebase window survives pruning
+    expect(store.operations[0].version).toBe(31 - 20 + 1);
+
+    const reloaded = await createDocument(store, 5);
+    expect(reloaded.getSnapshot()).toEqual(document.getSnapshot());
+    expect(reloaded.operationsSince(25)).toHaveLength(6);
+  });
+
+  it('asks clients that fell behind the retained history to reload', async () => {
+    const document = await createDocument(new MemoryStore(), 1000);
+    const editor = new SimulatedEditor('busy', document.getSnapshot());
+    for (let i = 0; i < 25; i++) {
+      editor.edit(`${editor.text}x`);
+      await drain(document, [editor]);
+    }
+
+    expect(document.operationsSince(2)).toBeNull();
+    await expect(document.submit({ baseVersion: 2, operation: ['late'], clientId: 'stale', opId: 'stale:1' }))
+      .rejects.toMatchObject({ status: 409 });
+  });
+
+  it('applies a resent operation only once', async () => {
+    const document = await createDocument();
+    const request = { baseVersion: 1, operation: ['hello'], clientId: 'c', opId: 'c:1' };
+
+    const first = await document.submit(request);
+    const second = await document.submit(request);
+
+    expect(second).toEqual({ operation: first.operation, duplicate: true });
+    expect(document.getSnapshot()).toEqual({ content: 'hello', version: 2 });
+  });
+
+  it('applies an operation resent to another server instance only once', async () => {
+    const store = new MemoryStore();
+    const first = await createDocument(store);
+    const second = await createDocument(store);
+    const request = { baseVersion: 1, operation: ['hello'], clientId: 'c', opId: 'c:1' };
+
+    const applied = await first.submit(request);
+    const resent = await second.submit(request);
+
+    expect(resent).toEqual({ operation: applied.operation, duplicate: true });
+    expect(second.getSnapshot()).toEqual({ content: 'hello', version: 2 });
+    expect(store.operations).toHaveLength(1);
+  });
+
+  it('rebases onto operations written by another server instance', async () => {
+    const store = new MemoryStore();
+    const first = await createDocument(store);
+    const second = await createDocument(store);
+
+    await first.submit({ baseVersion: 1, operation: ['world'], clientId: 'a', opId: 'a:1' });
+    const { operation } = await second.submit({ baseVersion: 1, operation: ['hello '], clientId: 'b', opId: 'b:1' });
+
+    expect(operation.version).toBe(3);
+    expect(second.getSnapshot().content).toBe('worldhello ');
+  });
+
+  it('rejects operations that do not fit the document', async () => {
+    const document = await createDocument();
+
+    await expect(document.submit({ baseVersion: 1, operation: [5, 'x'], clientId: 'c', opId: 'c:1' }))
+      .rejects.toMatchObject({ status: 400 });
+    await expect(document.submit({ baseVersion: 1, operation: 'not an op', clientId: 'c', opId: 'c:2' }))
+      .rejects.toMatchObject({ status: 400 });
+    expect(document.getSnapshot().version).toBe(1);
+  });
+});
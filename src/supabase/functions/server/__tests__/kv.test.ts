@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryKVStore } from '../kv';
+
+function createStore() {
+  let now = Date.parse('2026-10-18T12:00:00Z');
+  return { store: new MemoryKVStore({ now: () => now }), advance: (seconds: number) => { now += seconds * 1000; } };
+}
+
+describe('MemoryKVStore', () => {
+  it('expires keys after their TTL', async () => {
+    const { store, advance } = createStore();
+    await store.set('session', { user: 'a' }, { ttlSeconds: 60 });
+    await store.set('profile', { name: 'A' });
+
+    expect(await store.get('session')).toMatchObject({ value: { user: 'a' }, expiresAt: '2026-10-18T12:01:00.000Z' });
+
+    advance(60);
+    expect(await store.get('session')).toBeNull();
+    expect((await store.getMany(['session', 'profile'])).map(entry => entry.key)).toEqual(['profile']);
+  });
+
+  it('only lets the writer holding the current version compare-and-set', async () => {
+    const { store } = createStore();
+
+    const created = await store.compareAndSet('lock', null, 'a');
+    expect(created).toMatchObject({ value: 'a', version: 1 });
+    expect(await store.compareAndSet('lock', null, 'b')).toBeNull();
+
+    expect(await store.compareAndSet('lock', 1, 'c')).toMatchObject({ value: 'c', version: 2 });
+    expect(await store.compareAndSet('lock', 1, 'd')).toBeNull();
+    expect((await store.get('lock'))!.value).toBe('c');
+  });
+
+  it('treats an expired key as absent for compare-and-set without reusing its version', async () => {
+    const { store, advance } = createStore();
+    await store.set('lease', 'worker-1', { ttlSeconds: 30 });
+    advance(31);
+
+    expect(await store.compareAndSet('lease', 1, 'stale')).toBeNull();
+    expect(await store.compareAndSet('lease', null, 'worker-2')).toMatchObject({ version: 2 });
+  });
+
+  it('increments counters in a fixed window', async () => {
+    const { store, advance } = createStore();
+
+    expect(await store.increment('hits', 1, { ttlSeconds: 60 })).toBe(1);
+    advance(30);
+    // The window is not extended by later increments
+    expect(await store.increment('hits', 2, { ttlSeconds: 60 })).toBe(3);
+    advance(30);
+    expect(await store.increment('hits', 1, { ttlSeconds: 60 })).toBe(1);
+
+    await store.set('name', 'text');
+    await expect(store.increment('name')).rejects.toThrow('non-numeric');
+  });
+
+  it('scans a prefix in key order, page by page, with keys', async () => {
+    const { store } = createStore();
+    await store.setMany(['user:3', 'user:1', 'user:2', 'users', 'team:1'].map(key => ({ key, value: key.length })));
+
+    const first = await store.scan('user:', { limit: 2 });
+    expect(first.entries.map(entry => entry.key)).toEqual(['user:1', 'user:2']);
+    expect(first.cursor).toBe('user:2');
+
+    const second = await store.scan('user:', { limit: 2, cursor: first.cursor });
+    expect(second.entries).toEqual([{ key: 'user:3', value: 6, version: 1 }]);
+    expect(second.cursor).toBeUndefined();
+  });
+
+  it('returns copies so callers cannot change stored values', async () => {
+    const { store } = createStore();
+    await store.set('config', { flags: ['a'] });
+
+    const entry = await store.get<{ flags: string[] }>('config');
+    entry!.value.flags.push('b');
+    expect((await store.get('config'))!.value).toEqual({ flags: ['a'] });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import {
+  UsageMeter,
+  type BillingAccountUpdate,
+  type MeteredResource,
+  type PlanId,
+  type UsageMeterStore,
+  type UsageRow
+} from '../usage-metering';
+
+// Same rows migration 014 seeds into plan_limits
+const LIMITS: Record<PlanId, Record<MeteredResource, number | null>> = {
+  free: { ai_calls: 50, projects: 3, deployments: 1, storage_bytes: 100 * 1024 * 1024 },
+  pro: { ai_calls: 1000, projects: 25, deployments: 10, storage_bytes: 10 * 1024 ** 3 },
+  enterprise: { ai_calls: null, projects: null, deployments: null, storage_bytes: 100 * 1024 ** 3 }
+};
+
+class MemoryStore implements UsageMeterStore {
+  plans = new Map<string, PlanId>();
+  used = new Map<string, Partial<Record<MeteredResource, number>>>();
+  emails = new Map<string, string>();
+  accounts = new Map<string, BillingAccountUpdate>();
+
+  async usage(userId: string): Promise<UsageRow[]> {
+    const plan = this.plans.get(userId) ?? 'free';
+    const account = this.accounts.get(userId);
+    return (Object.keys(LIMITS[plan]) as MeteredResource[]).map(resource => ({
+      plan,
+      resource,
+      used: this.used.get(userId)?.[resource] ?? 0,
+      limit: LIMITS[plan][resource],
+      periodStart: account?.periodStart ?? '2026-10-01T00:00:00.000Z',
+      periodEnd: account?.periodEnd ?? '2026-11-01T00:00:00.000Z'
+    }));
+  }
+
+  async findUserByEmail(email: string) {
+    return this.emails.get(email) ?? null;
+  }
+
+  async findUserByCustomer(customerId: string) {
+    return [...this.accounts].find(([, account]) => account.stripeCustomerId === customerId)?.[0] ?? null;
+  }
+
+  async saveBillingAccount(userId: string, update: BillingAccountUpdate) {
+    this.accounts.set(userId, { ...this.accounts.get(userId), ...update });
+  }
+
+  async setPlan(userId: string, plan: PlanId) {
+    this.plans.set(userId, plan);
+  }
+}
+
+describe('usage meter', () => {
+  it('reports usage against the plan, with unlimited resources left open', async () => {
+    const store = new MemoryStore();
+    store.used.set('ada', { ai_calls: 12, projects: 3 });
+    store.plans.set('grace', 'enterprise');
+    const meter = new UsageMeter(store);
+
+    const report = await meter.report('ada');
+    expect(report).toMatchObject({ plan: 'free', planName: 'Starter', periodEnd: '2026-11-01T00:00:00.000Z' });
+    expect(report.resources.ai_calls).toEqual({ used: 12, limit: 50, remaining: 38 });
+    expect(report.resources.projects).toEqual({ used: 3, limit: 3, remaining: 0 });
+    expect((await meter.report('grace')).resources.ai_calls).toEqual({ used: 0, limit: null, remaining: null });
+  });
+
+  it('rejects usage past the limit with a 402 that names the upgrade', async () => {
+    const store = new MemoryStore();
+    store.used.set('ada', { ai_calls: 50, storage_bytes: 99 * 1024 * 1024 });
+    store.plans.set('grace', 'enterprise');
+    store.used.set('grace', { ai_calls: 1_000_000 });
+    const meter = new UsageMeter(store);
+
+    const error = await meter.assertWithin('ada', 'ai_calls').catch(e => e);
+    expect(error).toMatchObject({
+      status: 402,
+      details: { code: 'plan_limit_exceeded', resource: 'ai_calls', plan: 'free', used: 50, limit: 50, upgradeTo: 'pro', resetsAt: '2026-11-01T00:00:00.000Z' }
+    });
+    expect(error.message).toBe(
+      'Your Starter plan includes 50 AI tool uses per billing period and you have used 50. ' +
+      'Upgrade to Professional for more, or wait for the reset on 2026-11-01.'
+    );
+
+    await expect(meter.assertWithin('ada', 'storage_bytes', 512 * 1024)).resolves.toBeDefined();
+    await expect(meter.assertWithin('ada', 'storage_bytes', 2 * 1024 * 1024)).rejects.toMatchObject({
+      message: 'Your Starter plan allows 100 MB and you are using 99 MB. Upgrade to Professional for more.',
+      details: { resetsAt: null }
+    });
+    await expect(meter.assertWithin('grace', 'ai_calls')).resolves.toMatchObject({ plan: 'enterprise' });
+  });
+
+  it('follows Stripe: links the customer, changes plan and starts a new period on payment', async () => {
+    const store = new MemoryStore();
+    store.emails.set('ada@example.com', 'ada');
+    store.used.set('ada', { ai_calls: 50 });
+    const meter = new UsageMeter(store);
+
+    expect(await meter.linkCustomer('cus_1', ' Ada@Example.com ')).toBe('ada');
+    expect(await meter.changePlan('cus_1', 'pro', 'sub_1')).toBe('ada');
+    expect(await meter.startBillingPeriod('cus_1', '2026-10-18T00:00:00.000Z', '2026-11-18T00:00:00.000Z')).toBe('ada');
+
+    expect(store.accounts.get('ada')).toEqual({
+      stripeCustomerId: 'cus_1',
+      stripeSubscriptionId: 'sub_1',
+      periodStart: '2026-10-18T00:00:00.000Z',
+      periodEnd: '2026-11-18T00:00:00.000Z'
+    });
+    await expect(meter.assertWithin('ada', 'ai_calls')).resolves.toMatchObject({ plan: 'pro', periodEnd: '2026-11-18T00:00:00.000Z' });
+
+    expect(await meter.changePlan('cus_unknown', 'pro')).toBeNull();
+    await expect(meter.startBillingPeriod('cus_1', '2026-11-18T00:00:00.000Z', '2026-10-18T00:00:00.000Z')).rejects.toMatchObject({ status: 400 });
+  });
+});
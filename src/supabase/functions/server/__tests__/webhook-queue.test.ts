@@ -0,0 +1,209 @@
+import { describe, it, expect, vi } from 'vitest';
+import { createHmac } from 'node:crypto';
+import {
+  WebhookQueue,
+  computeBackoff,
+  deliverOutboundWebhook,
+  webhookUrlError,
+  type QueuedWebhookEvent,
+  type WebhookEventFilter,
+  type WebhookQueueStore
+} from '../webhook-queue';
+
+class MemoryStore implements WebhookQueueStore {
+  events = new Map<string, QueuedWebhookEvent>();
+
+  async insert(event: QueuedWebhookEvent) {
+    this.events.set(event.id, { ...event });
+  }
+
+  async get(id: string) {
+    const event = this.events.get(id);
+    return event ? { ...event } : null;
+  }
+
+  async listDue(handlers: string[], now: string) {
+    return [...this.events.values()]
+      .filter(event => handlers.includes(event.handler))
+      .filter(event => event.status === 'processing'
+        ? event.lockedUntil! < now
+        : (event.status === 'pending' || event.status === 'failed') && event.nextAttemptAt <= now)
+      .map(event => ({ ...event }));
+  }
+
+  async claim(event: QueuedWebhookEvent, lockedUntil: string) {
+    const stored = this.events.get(event.id);
+    if (!stored || stored.status !== event.status || stored.lockedUntil !== event.lockedUntil) return false;
+    this.events.set(event.id, { ...stored, status: 'processing', lockedUntil });
+    return true;
+  }
+
+  async update(id: string, changes: Partial<QueuedWebhookEvent>) {
+    this.events.set(id, { ...this.events.get(id)!, ...changes });
+  }
+
+  async list({ userId, statuses, limit, offset }: WebhookEventFilter) {
+    const events = [...this.events.values()]
+      .filter(event => event.userIds.includes(userId) && (!statuses?.length || statuses.includes(event.status)));
+    return { events: events.slice(offset, offset + limit), total: events.length };
+  }
+}
+
+function createQueue(maxAttempts = 3) {
+  let now = Date.parse('2026-10-18T12:00:00Z');
+  const store = new MemoryStore();
+  const queue = new WebhookQueue(store, {
+    maxAttempts,
+    baseDelayMs: 1000,
+    maxDelayMs: 10_000,
+    now: () => now,
+    random: () => 1
+  });
+  return { store, queue, advance: (ms: number) => { now += ms; } };
+}
+
+const input = { direction: 'inbound' as const, handler: 'test', source: 'github', type: 'push', payload: { ref: 'main' }, userIds: ['user-1'] };
+
+describe('computeBackoff', () => {
+  it('doubles the delay up to the cap with at most half removed as jitter', () => {
+    expect([1, 2, 3, 4, 5].map(attempt => computeBackoff(attempt, 1000, 10_000, () => 1)))
+      .toEqual([1000, 2000, 4000, 8000, 10_000]);
+    expect(computeBackoff(3, 1000, 10_000, () => 0)).toBe(2000);
+  });
+});
+
+describe('WebhookQueue', () => {
+  it('retries a failing event with backoff and dead-letters it after the last attempt', async () => {
+    const { store, queue, advance } = createQueue();
+    const handler = vi.fn().mockRejectedValue(new Error('endpoint down'));
+    const event = await queue.enqueue(input);
+
+    const first = await queue.process(event, { test: handler });
+    expect(first).toMatchObject({ status: 'failed', retryCount: 1, lastError: 'endpoint down' });
+    expect(first.nextAttemptAt).toBe('2026-10-18T12:00:01.000Z');
+
+    // Not due yet
+    expect(await queue.processDue({ test: handler })).toEqual([]);
+
+    advance(1000);
+    const [second] = await queue.processDue({ test: handler });
+    expect(second).toMatchObject({ status: 'failed', retryCount: 2 });
+
+    advance(2000);
+    const [third] = await queue.processDue({ test: handler });
+    expect(third).toMatchObject({ status: 'dead_letter', retryCount: 3 });
+    expect(handler).toHaveBeenCalledTimes(3);
+
+    advance(60_000);
+    expect(await queue.processDue({ test: handler })).toEqual([]);
+    expect(store.events.get(event.id)!.processingLog).toHaveLength(3);
+    expect((await queue.list({ userId: 'user-1', statuses: ['dead_letter'], limit: 10, offset: 0 })).total).toBe(1);
+  });
+
+  it('replays a dead-lettered event with a fresh set of attempts', async () => {
+    const { queue } = createQueue(1);
+    const event = await queue.enqueue(input);
+    await queue.process(event, { test: async () => { throw new Error('bad payload'); } });
+
+    await expect(queue.replay(event.id, 'someone-else')).rejects.toMatchObject({ status: 404 });
+
+    const replayed = await queue.replay(event.id, 'user-1');
+    expect(replayed).toMatchObject({ status: 'pending', retryCount: 0 });
+
+    const result = await queue.process(replayed, { test: async () => 'done' });
+    expect(result).toMatchObject({ status: 'succeeded', retryCount: 1 });
+    expect(result.processingLog.at(-2)).toContain('replayed manually');
+    expect(result.processingLog.at(-1)).toContain('attempt 1 succeeded: done');
+  });
+
+  it('runs an event once when two workers pick it up', async () => {
+    const { queue } = createQueue();
+    const event = await queue.enqueue(input);
+    const handler = vi.fn().mockResolvedValue(undefined);
+
+    await Promise.all([queue.process(event, { test: handler }), queue.process(event, { test: handler })]);
+    expect(handler).toHaveBeenCalledTimes(1);
+  });
+
+  it('reclaims an event whose worker lease expired', async () => {
+    const { store, queue, advance } = createQueue();
+    const event = await queue.enqueue(input);
+    // A worker claimed the event and died
+    await store.claim(event, '2026-10-18T12:05:00.000Z');
+
+    const handler = vi.fn().mockResolvedValue(undefined);
+    expect(await queue.processDue({ test: handler })).toEqual([]);
+    await expect(queue.replay(event.id)).rejects.toMatchObject({ status: 409 });
+
+    advance(5 * 60 * 1000 + 1);
+    const [result] = await queue.processDue({ test: handler });
+    expect(result.status).toBe('succeeded');
+  });
+
+  it('only processes events of the handlers it was given', async () => {
+    const { queue } = createQueue();
+    await queue.enqueue({ ...input, handler: 'other' });
+
+    expect(await queue.processDue({ test: async () => undefined })).toEqual([]);
+  });
+});
+
+describe('deliverOutboundWebhook', () => {
+  it('signs the body and fails the attempt on non-2xx responses', async () => {
+    const { queue } = createQueue();
+    const event = await queue.enqueue({ ...input, direction: 'outbound', type: 'release' });
+    const endpoint = { id: 'endpoint-1', url: 'https://example.com/hook', secret: 'shh' };
+    const fetchImpl = vi.fn()
+      .mockResolvedValueOnce(new Response('ok', { status: 200 }))
+      .mockResolvedValueOnce(new Response('nope', { status: 503 }));
+
+    await expect(deliverOutboundWebhook(event, endpoint, fetchImpl)).resolves.toContain('(200)');
+
+    const [url, init] = fetchImpl.mock.calls[0];
+    expect(url).toBe(endpoint.url);
+    expect(init.headers['X-Delivery-Id']).toBe(event.id);
+    expect(init.headers['X-FlashFusion-Signature'])
+      .toBe(`sha256=${createHmac('sha256', 'shh').update(init.body).digest('hex')}`);
+
+    await expect(deliverOutboundWebhook(event, endpoint, fetchImpl)).rejects.toThrow('Endpoint responded 503: nope');
+  });
+
+  it('refuses endpoints on internal hosts without sending anything', async () => {
+    const { queue } = createQueue();
+    const event = await queue.enqueue({ ...input, direction: 'outbound', type: 'release' });
+    const fetchImpl = vi.fn();
+
+    await expect(deliverOutboundWebhook(event, { id: 'endpoint-1', url: 'http://169.254.169.254/latest', secret: 'shh' }, fetchImpl))
+      .rejects.toThrow('public host');
+    expect(fetchImpl).not.toHaveBeenCalled();
+  });
+});
+
+describe('webhookUrlError', () => {
+  it('only accepts http(s) URLs on public hosts', () => {
+    expect(webhookUrlError('https://hooks.example.com/in')).toBeNull();
+    expect(webhookUrlError('http://203.0.113.7:8080/hook')).toBeNull();
+
+    expect(webhookUrlError('ftp://example.com')).toBe('Endpoint URL must be http(s)');
+    expect(webhookUrlError('not a url')).toBe('Endpoint URL is not valid');
+    for (const url of [
+      'http://localhost:54321',
+      'http://api.localhost',
+      'http://127.0.0.1',
+      'http://2130706433',
+      'http://0x7f.1',
+      'http://0.0.0.0',
+      'http://10.1.2.3',
+      'http://172.20.0.1',
+      'http://192.168.1.1',
+      'http://169.254.169.254/latest/meta-data',
+      'http://metadata.google.internal',
+      'http://[::1]/',
+      'http://[fe80::1]/',
+      'http://[fd00::1]/',
+      'http://[::ffff:127.0.0.1]/'
+    ]) {
+      expect(webhookUrlError(url), url).toBe('Endpoint URL must point to a public host');
+    }
+  });
+});
@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import {
+  XP_REWARDS,
+  XpLedger,
+  levelProgress,
+  type LeaderboardRow,
+  type XpLedgerStore,
+  type XpSummary,
+  type XpTransaction
+} from '../xp-ledger';
+import { TOOL_IDS } from '../../../../data/tool-ids';
+import { ALL_TOOLS } from '../../../../data/tools';
+
+class MemoryStore implements XpLedgerStore {
+  transactions: XpTransaction[] = [];
+  gatewayCalls: Array<{ id: string; userId: string; createdAt: string }> = [];
+  deployments = new Map<string, { userId: string; status: string }>();
+  projects = new Map<string, { userId: string; status: string }>();
+  summaries = new Map<string, XpSummary>();
+
+  async listGatewayCalls(userId: string, since: string) {
+    return this.gatewayCalls.filter(call => call.userId === userId && call.createdAt >= since);
+  }
+
+  async getDeployment(id: string) {
+    return this.deployments.get(id) ?? null;
+  }
+
+  async getProject(id: string) {
+    return this.projects.get(id) ?? null;
+  }
+
+  async insert(transaction: XpTransaction) {
+    if (this.transactions.some(t => t.userId === transaction.userId && t.eventKey === transaction.eventKey)) return false;
+    this.transactions.push(transaction);
+    return true;
+  }
+
+  async list(userId: string) {
+    return this.transactions.filter(t => t.userId === userId);
+  }
+
+  async saveSummary(summary: XpSummary) {
+    this.summaries.set(summary.user_id, summary);
+  }
+
+  async leaderboard(since: string | null, limit: number): Promise<LeaderboardRow[]> {
+    const users = [...new Set(this.transactions.map(t => t.userId))];
+    return users
+      .map(userId => {
+        const own = this.transactions.filter(t => t.userId === userId);
+        return {
+          userId,
+          periodXp: own.filter(t => since === null || t.createdAt >= since).reduce((sum, t) => sum + t.amount, 0),
+          totalXp: own.reduce((sum, t) => sum + t.amount, 0),
+          achievementsCount: own.filter(t => t.category === 'achievement').length,
+          streakDays: this.summaries.get(userId)?.streak_days ?? 0
+        };
+      })
+      .filter(row => row.periodXp > 0)
+      .sort((a, b) => b.periodXp - a.periodXp)
+      .slice(0, limit);
+  }
+}
+
+function clock(start: string) {
+  let now = Date.parse(start);
+  return { now: () => now, advance: (ms: number) => { now += ms; } };
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+describe('XP ledger', () => {
+  it('pays a verified deployment once, with the first-deployment bonus and the achievement it unlocks', async () => {
+    const store = new MemoryStore();
+    store.deployments.set('dep-1', { userId: 'ada', status: 'ready' });
+    const ledger = new XpLedger(store, clock('2026-10-18T12:00:00Z'));
+
+    const first = await ledger.award('ada', { type: 'deployment', recordId: 'dep-1' });
+    const expected = XP_REWARDS.PROJECT_DEPLOYED + XP_REWARDS.FIRST_DEPLOYMENT + 100;
+    expect(first).toMatchObject({ awarded: true, achievementsUnlocked: ['first_steps'], leveledUp: true });
+    expect(first.summary).toMatchObject({ total_xp: expected, deployments: 1, ...levelProgress(expected) });
+    expect(store.summaries.get('ada')?.total_xp).toBe(expected);
+
+    const repeat = await ledger.award('ada', { type: 'deployment', recordId: 'dep-1' });
+    expect(repeat).toMatchObject({ awarded: false, transactions: [] });
+    expect(repeat.summary.total_xp).toBe(expected);
+    expect(store.transactions).toHaveLength(2);
+  });
+
+  it('rejects events the server records do not back', async () => {
+    const store = new MemoryStore();
+    store.deployments.set('theirs', { userId: 'grace', status: 'ready' });
+    store.deployments.set('building', { userId: 'ada', status: 'building' });
+    store.projects.set('draft', { userId: 'ada', status: 'draft' });
+    const ledger = new XpLedger(store);
+
+    await expect(ledger.award('ada', { type: 'deployment', recordId: 'theirs' })).rejects.toMatchObject({ status: 404 });
+    await expect(ledger.award('ada', { type: 'deployment', recordId: 'building' })).rejects.toMatchObject({ status: 409 });
+    await expect(ledger.award('ada', { type: 'project_completion', recordId: 'draft' })).rejects.toMatchObject({ status: 409 });
+    await expect(ledger.award('ada', { type: 'project_completion' })).rejects.toMatchObject({ status: 400 });
+    await expect(ledger.award('ada', { type: 'tool_usage', tool: 'full-stack-builder' })).rejects.toMatchObject({ status: 409 });
+    await expect(ledger.award('ada', { type: 'bonus' } as never)).rejects.toMatchObject({ status: 400 });
+    await expect(ledger.award('ada', { type: 'tool_usage', tool: 'Made Up Tool 7' })).rejects.toMatchObject({ status: 400 });
+    await expect(ledger.award('ada', { type: 'code_generation' })).rejects.toMatchObject({ status: 400 });
+    expect(store.transactions).toEqual([]);
+  });
+
+  it('credits each recent AI gateway call to one tool run', async () => {
+    const store = new MemoryStore();
+    const time = clock('2026-10-18T12:00:00Z');
+    store.gatewayCalls.push(
+      { id: 'stale', userId: 'ada', createdAt: '2026-10-18T11:00:00.000Z' },
+      { id: 'call-1', userId: 'ada', createdAt: '2026-10-18T11:58:00.000Z' },
+      { id: 'call-2', userId: 'ada', createdAt: '2026-10-18T11:59:00.000Z' }
+    );
+    const ledger = new XpLedger(store, time);
+
+    const first = await ledger.award('ada', { type: 'tool_usage', tool: 'full-stack-builder' });
+    const second = await ledger.award('ada', { type: 'tool_usage', tool: 'full-stack-builder' });
+    expect(first.transactions[0]).toMatchObject({ eventKey: 'gateway:call-1', amount: XP_REWARDS.TOOL_USE + XP_REWARDS.NEW_TOOL_FIRST_TIME });
+    expect(second.transactions[0]).toMatchObject({ eventKey: 'gateway:call-2', amount: XP_REWARDS.TOOL_USE });
+    await expect(ledger.award('ada', { type: 'code_generation', tool: 'full-stack-builder' })).rejects.toMatchObject({ status: 409 });
+    expect(second.summary.tools_used).toEqual(['full-stack-builder']);
+  });
+
+  it('counts daily streaks and ranks the leaderboard by XP in the timeframe', async () => {
+    const store = new MemoryStore();
+    const time = clock('2026-10-01T09:00:00Z');
+    const ledger = new XpLedger(store, time);
+
+    for (let day = 0; day < 3; day++) {
+      await ledger.award('ada', { type: 'daily_login' });
+      await ledger.award('ada', { type: 'daily_login' });
+      time.advance(DAY);
+    }
+    time.advance(14 * DAY);
+    store.deployments.set('dep-1', { userId: 'grace', status: 'deployed' });
+    await ledger.award('grace', { type: 'deployment', recordId: 'dep-1' });
+
+    expect(await ledger.summary('ada')).toMatchObject({
+      total_xp: 3 * XP_REWARDS.DAILY_LOGIN + 100,
+      streak_days: 3,
+      achievements_unlocked: ['first_steps']
+    });
+    expect((await ledger.leaderboard('all_time', 10)).map(entry => [entry.rank, entry.user_id])).toEqual([[1, 'grace'], [2, 'ada']]);
+    expect((await ledger.leaderboard('weekly', 10)).map(entry => entry.user_id)).toEqual(['grace']);
+  });
+
+  it('knows the id of every tool in the catalogue', () => {
+    expect(ALL_TOOLS.map(tool => tool.id).filter(id => !TOOL_IDS.includes(id))).toEqual([]);
+  });
+});
@@ -0,0 +1,565 @@
+/**
+ * @fileoverview AI Gateway for FlashFusion
+ * @chunk server
+ * @category ai
+ * @version 1.0.0
+ * @author FlashFusion Team
+ *
+ * Authenticated proxy between the SPA and the AI vendors. Provider keys are
+ * read from the function secrets and never leave the edge runtime; every call
+ * is checked against the caller's plan allowance and daily quota and logged
+ * to ai_usage_logs.
+ */
+
+import { Hono, type Context } from 'npm:hono';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { authenticateUser } from './auth-user.ts';
+import { usageMeter } from './usage-metering-store.tsx';
+import { readSSEData } from '../../../utils/sse-stream.ts';
+
+const aiGatewayApp = new Hono();
+
+// Initialize Supabase client
+const supabaseUrl = Deno.env.get('SUPABASE_URL');
+const supabaseServiceKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY');
+
+if (!supabaseUrl || !supabaseServiceKey) {
+  throw new Error('Missing Supabase configuration');
+}
+
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+type GatewayProvider = 'openai' | 'anthropic' | 'google' | 'github' | 'xai' | 'deepseek';
+
+interface GatewayRequest {
+  provider: GatewayProvider;
+  model: string;
+  prompt: string;
+  systemPrompt?: string;
+  temperature?: number;
+  maxTokens?: number;
+}
+
+interface GatewayResponse {
+  content: string;
+  model: string;
+  provider: GatewayProvider;
+  usage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  };
+}
+
+interface QuotaStatus {
+  requestsUsed: number;
+  requestsLimit: number;
+  tokensUsed: number;
+  tokensLimit: number;
+  resetsAt: string;
+}
+
+// Secret names match API_KEY_CONFIGS in services/APIKeyService.ts
+const PROVIDER_CONFIGS: Record<GatewayProvider, { keyName: string; endpoint: string; format: 'openai' | 'anthropic' | 'google' }> = {
+  openai: {
+    keyName: 'Openai_api_key',
+    endpoint: 'https://api.openai.com/v1/chat/completions',
+    format: 'openai'
+  },
+  anthropic: {
+    keyName: 'Anthropic',
+    endpoint: 'https://api.anthropic.com/v1/messages',
+    format: 'anthropic'
+  },
+  google: {
+    keyName: 'Gemini_api_key',
+    endpoint: 'https://generativelanguage.googleapis.com/v1/models',
+    format: 'google'
+  },
+  github: {
+    keyName: 'Github',
+    endpoint: 'https://api.github.com/copilot/chat/completions',
+    format: 'openai'
+  },
+  xai: {
+    keyName: 'grok_api_key',
+    endpoint: 'https://api.x.ai/v1/chat/completions',
+    format: 'openai'
+  },
+  deepseek: {
+    keyName: 'deepseek_api_key',
+    endpoint: 'https://api.deepseek.com/v1/chat/completions',
+    format: 'openai'
+  }
+};
+
+const DAILY_REQUEST_LIMIT = parseInt(Deno.env.get('AI_GATEWAY_DAILY_REQUESTS') || '200');
+const DAILY_TOKEN_LIMIT = parseInt(Deno.env.get('AI_GATEWAY_DAILY_TOKENS') || '500000');
+const MAX_TOKENS_PER_REQUEST = 8000;
+
+function getProviderKey(provider: GatewayProvider): string | undefined {
+  return Deno.env.get(PROVIDER_CONFIGS[provider].keyName);
+}
+
+async function getQuotaStatus(userId: string): Promise<QuotaStatus> {
+  const dayStart = new Date();
+  dayStart.setUTCHours(0, 0, 0, 0);
+  const resetsAt = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('ai_usage_logs')
+    .select('tokens_used')
+    .eq('user_id', userId)
+    .gte('created_at', dayStart.toISOString());
+
+  if (error) {
+    throw error;
+  }
+
+  return {
+    requestsUsed: data?.length || 0,
+    requestsLimit: DAILY_REQUEST_LIMIT,
+    tokensUsed: data?.reduce((sum, log) => sum + (log.tokens_used || 0), 0) || 0,
+    tokensLimit: DAILY_TOKEN_LIMIT,
+    resetsAt: resetsAt.toISOString()
+  };
+}
+
+function buildProviderRequest(request: GatewayRequest, apiKey: string, stream: boolean): { url: string; init: RequestInit } {
+  const config = PROVIDER_CONFIGS[request.provider];
+  const temperature = request.temperature ?? 0.7;
+  const maxTokens = Math.min(request.maxTokens || 2000, MAX_TOKENS_PER_REQUEST);
+  const messages = [
+    ...(request.systemPrompt ? [{ role: 'system', content: request.systemPrompt }] : []),
+    { role: 'user', content: request.prompt }
+  ];
+
+  switch (config.format) {
+    case 'anthropic':
+      return {
+        url: config.endpoint,
+        init: {
+          method: 'POST',
+          headers: {
+            'x-api-key': apiKey,
+            'Content-Type': 'application/json',
+            'anthropic-version': '2023-06-01'
+          },
+          body: JSON.stringify({
+            model: request.model,
+            max_tokens: maxTokens,
+            temperature,
+            system: request.systemPrompt || '',
+            messages: [{ role: 'user', content: request.prompt }],
+            stream
+          })
+        }
+      };
+    case 'google': {
+      const method = stream ? 'streamGenerateContent?alt=sse&' : 'generateContent?';
+      return {
+        url: `${config.endpoint}/${request.model}:${method}key=${apiKey}`,
+        init: {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{
+              parts: [{ text: (request.systemPrompt ? request.systemPrompt + '\n\n' : '') + request.prompt }]
+            }],
+            generationConfig: {
+              temperature,
+              maxOutputTokens: maxTokens
+            }
+          })
+        }
+      };
+    }
+    default:
+      return {
+        url: config.endpoint,
+        init: {
+          method: 'POST',
+          headers: {
+            'Authorization': `Bearer ${apiKey}`,
+            'Content-Type': 'application/json',
+            ...(request.provider === 'github' ? { 'Accept': 'application/vnd.github+json' } : {})
+          },
+          body: JSON.stringify({
+            model: request.model,
+            messages,
+            temperature,
+            max_tokens: maxTokens,
+            stream,
+            ...(stream ? { stream_options: { include_usage: true } } : {})
+          })
+        }
+      };
+  }
+}
+
+function statusError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+async function fetchProvider(request: GatewayRequest, apiKey: string, stream: boolean, signal?: AbortSignal): Promise<Response> {
+  const { url, init } = buildProviderRequest(request, apiKey, stream);
+  const response = await fetch(url, { ...init, signal });
+
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => ({}));
+    throw statusError(errorData.error?.message || `${request.provider} API error: ${response.status} ${response.statusText}`, response.status);
+  }
+
+  return response;
+}
+
+async function callProvider(request: GatewayRequest, apiKey: string): Promise<GatewayResponse> {
+  const config = PROVIDER_CONFIGS[request.provider];
+  const response = await fetchProvider(request, apiKey, false);
+
+  const data = await response.json();
+
+  switch (config.format) {
+    case 'anthropic': {
+      const usage = data.usage || { input_tokens: 0, output_tokens: 0 };
+      return {
+        content: data.content?.[0]?.text || '',
+        model: request.model,
+        provider: request.provider,
+        usage: {
+          promptTokens: usage.input_tokens,
+          completionTokens: usage.output_tokens,
+          totalTokens: usage.input_tokens + usage.output_tokens
+        }
+      };
+    }
+    case 'google': {
+      const content = data.candidates?.[0]?.content?.parts?.[0]?.text || '';
+      const metadata = data.usageMetadata || {};
+      const completionTokens = metadata.candidatesTokenCount ?? Math.ceil(content.length / 4);
+      return {
+        content,
+        model: request.model,
+        provider: request.provider,
+        usage: {
+          promptTokens: metadata.promptTokenCount || 0,
+          completionTokens,
+          totalTokens: metadata.totalTokenCount ?? completionTokens
+        }
+      };
+    }
+    default: {
+      const usage = data.usage || { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 };
+      return {
+        content: data.choices?.[0]?.message?.content || '',
+        model: request.model,
+        provider: request.provider,
+        usage: {
+          promptTokens: usage.prompt_tokens,
+          completionTokens: usage.completion_tokens,
+          totalTokens: usage.total_tokens
+        }
+      };
+    }
+  }
+}
+
+interface StreamChunk {
+  text?: string;
+  usage?: Partial<GatewayResponse['usage']>;
+}
+
+// Normalizes one vendor stream event into a text delta and/or usage update
+function parseStreamChunk(format: 'openai' | 'anthropic' | 'google', data: string): StreamChunk | null {
+  if (data === '[DONE]') {
+    return null;
+  }
+
+  const payload = JSON.parse(data);
+
+  switch (format) {
+    case 'anthropic':
+      if (payload.type === 'content_block_delta') {
+        return { text: payload.delta?.text || '' };
+      }
+      if (payload.type === 'message_start') {
+        return { usage: { promptTokens: payload.message?.usage?.input_tokens || 0 } };
+      }
+      if (payload.type === 'message_delta') {
+        return { usage: { completionTokens: payload.usage?.output_tokens || 0 } };
+      }
+      if (payload.type === 'error') {
+        throw new Error(payload.error?.message || 'Anthropic stream error');
+      }
+      return null;
+    case 'google':
+      return {
+        text: payload.candidates?.[0]?.content?.parts?.[0]?.text || '',
+        usage: payload.usageMetadata ? {
+          promptTokens: payload.usageMetadata.promptTokenCount || 0,
+          completionTokens: payload.usageMetadata.candidatesTokenCount || 0,
+          totalTokens: payload.usageMetadata.totalTokenCount || 0
+        } : undefined
+      };
+    default:
+      return {
+        text: payload.choices?.[0]?.delta?.content || '',
+        usage: payload.usage ? {
+          promptTokens: payload.usage.prompt_tokens,
+          completionTokens: payload.usage.completion_tokens,
+          totalTokens: payload.usage.total_tokens
+        } : undefined
+      };
+  }
+}
+
+async function logUsage(entry: {
+  userId: string;
+  provider: GatewayProvider;
+  model: string;
+  promptLength: number;
+  tokensUsed: number;
+  responseTime: number;
+  success: boolean;
+  errorMessage?: string;
+}) {
+  try {
+    await supabase.from('ai_usage_logs').insert({
+      user_id: entry.userId,
+      provider: entry.provider,
+      model: entry.model,
+      prompt_length: entry.promptLength,
+      tokens_used: entry.tokensUsed,
+      response_time: entry.responseTime,
+      success: entry.success,
+      error_message: entry.errorMessage,
+      created_at: new Date().toISOString()
+    });
+  } catch (error) {
+    console.error('Failed to log AI usage:', error);
+  }
+}
+
+type PreflightResult =
+  | { ok: true; userId: string; request: GatewayRequest; apiKey: string }
+  | { ok: false; body: Record<string, unknown>; status: 400 | 401 | 402 | 429 | 500 | 503 };
+
+// Shared authentication, validation, plan and quota checks for the generation endpoints
+async function preflight(c: Context): Promise<PreflightResult> {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return { ok: false, body: { error: 'Authentication required' }, status: 401 };
+  }
+
+  let request: GatewayRequest;
+  try {
+    request = await c.req.json();
+  } catch {
+    return { ok: false, body: { error: 'Invalid JSON body' }, status: 400 };
+  }
+
+  if (!request.prompt?.trim()) {
+    return { ok: false, body: { error: 'Prompt is required' }, status: 400 };
+  }
+
+  if (!request.model || !PROVIDER_CONFIGS[request.provider]) {
+    return { ok: false, body: { error: `Unsupported provider: ${request.provider}` }, status: 400 };
+  }
+
+  const apiKey = getProviderKey(request.provider);
+  if (!apiKey) {
+    return { ok: false, body: { error: `Provider ${request.provider} is not configured` }, status: 503 };
+  }
+
+  try {
+    await usageMeter.assertWithin(user.id, 'ai_calls');
+  } catch (error) {
+    const { status, details } = error as { status?: number; details?: Record<string, unknown> };
+    if (status === 402) {
+      return { ok: false, body: { error: (error as Error).message, ...details }, status: 402 };
+    }
+    console.error('Plan usage lookup error:', error);
+    return { ok: false, body: { error: 'Failed to verify plan usage' }, status: 500 };
+  }
+
+  try {
+    const quota = await getQuotaStatus(user.id);
+    if (quota.requestsUsed >= quota.requestsLimit || quota.tokensUsed >= quota.tokensLimit) {
+      // Tagged so clients don't mistake the caller's quota for a rate-limited provider
+      return { ok: false, body: { error: 'Daily AI quota exceeded', code: 'quota_exceeded', quota }, status: 429 };
+    }
+  } catch (error) {
+    console.error('Quota lookup error:', error);
+    return { ok: false, body: { error: 'Failed to verify AI quota' }, status: 500 };
+  }
+
+  return { ok: true, userId: user.id, request, apiKey };
+}
+
+// Proxied generation endpoint
+aiGatewayApp.post('/make-server-88829a40/ai/gateway/generate', async (c) => {
+  const checked = await preflight(c);
+  if (!checked.ok) {
+    return c.json(checked.body, checked.status);
+  }
+
+  const { userId, request, apiKey } = checked;
+  const startTime = Date.now();
+
+  try {
+    const result = await callProvider(request, apiKey);
+
+    await logUsage({
+      userId,
+      provider: request.provider,
+      model: request.model,
+      promptLength: request.prompt.length,
+      tokensUsed: result.usage.totalTokens,
+      responseTime: Date.now() - startTime,
+      success: true
+    });
+
+    return c.json(result);
+
+  } catch (error) {
+    console.error('AI gateway error:', error);
+
+    await logUsage({
+      userId,
+      provider: request.provider,
+      model: request.model,
+      promptLength: request.prompt.length,
+      tokensUsed: 0,
+      responseTime: Date.now() - startTime,
+      success: false,
+      errorMessage: error.message
+    });
+
+    // Surface upstream throttling so the client can fall back to another provider
+    const status = error.status === 429 ? 429 : 502;
+    return c.json({
+      error: 'AI provider request failed',
+      message: error.message
+    }, status);
+  }
+});
+
+// Streaming generation endpoint. Vendor streams are normalized to
+// `data: {"type":"delta","content":"..."}` events followed by a single
+// `data: {"type":"done","usage":{...}}` (or `{"type":"error"}`) event.
+aiGatewayApp.post('/make-server-88829a40/ai/gateway/stream', async (c) => {
+  const checked = await preflight(c);
+  if (!checked.ok) {
+    return c.json(checked.body, checked.status);
+  }
+
+  const { userId, request, apiKey } = checked;
+  const format = PROVIDER_CONFIGS[request.provider].format;
+  const startTime = Date.now();
+
+  // Aborts the upstream call when the browser cancels the request
+  const signal: AbortSignal = c.req.raw.signal;
+
+  let upstream: Response;
+  try {
+    upstream = await fetchProvider(request, apiKey, true, signal);
+  } catch (error) {
+    console.error('AI gateway stream error:', error);
+    const status = error.status === 429 ? 429 : 502;
+    return c.json({ error: 'AI provider request failed', message: error.message }, status);
+  }
+
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: Record<string, unknown>) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(event)}\n\n`));
+      };
+
+      const usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+      let completionLength = 0;
+      let errorMessage: string | undefined;
+
+      try {
+        for await (const data of readSSEData(upstream.body!)) {
+          const chunk = parseStreamChunk(format, data);
+          if (!chunk) continue;
+
+          if (chunk.usage) {
+            Object.assign(usage, chunk.usage);
+          }
+          if (chunk.text) {
+            completionLength += chunk.text.length;
+            send({ type: 'delta', content: chunk.text });
+          }
+        }
+
+        if (!usage.completionTokens) {
+          usage.completionTokens = Math.ceil(completionLength / 4);
+        }
+        if (!usage.totalTokens) {
+          usage.totalTokens = usage.promptTokens + usage.completionTokens;
+        }
+
+        send({ type: 'done', model: request.model, provider: request.provider, usage });
+      } catch (error) {
+        errorMessage = signal.aborted ? 'Cancelled by client' : error.message;
+        if (!signal.aborted) {
+          console.error('AI gateway stream error:', error);
+          send({ type: 'error', message: error.message });
+        }
+      } finally {
+        await logUsage({
+          userId,
+          provider: request.provider,
+          model: request.model,
+          promptLength: request.prompt.length,
+          tokensUsed: usage.totalTokens || Math.ceil(completionLength / 4),
+          responseTime: Date.now() - startTime,
+          success: !errorMessage,
+          errorMessage
+        });
+        try {
+          controller.close();
+        } catch {
+          // Stream already torn down by the client
+        }
+      }
+    }
+  });
+
+  return new Response(body, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  });
+});
+
+// Configured providers (never exposes the keys themselves)
+aiGatewayApp.get('/make-server-88829a40/ai/gateway/providers', (c) => {
+  const providers = (Object.keys(PROVIDER_CONFIGS) as GatewayProvider[]).map(provider => ({
+    provider,
+    available: !!getProviderKey(provider)
+  }));
+
+  return c.json({ providers });
+});
+
+// Current user's quota
+aiGatewayApp.get('/make-server-88829a40/ai/gateway/quota', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    return c.json({ quota: await getQuotaStatus(user.id) });
+  } catch (error) {
+    console.error('Quota lookup error:', error);
+    return c.json({ error: 'Failed to fetch AI quota', message: error.message }, 500);
+  }
+});
+
+export default aiGatewayApp;
@@ -0,0 +1,22 @@
+// Resolves the caller of an edge route from their Supabase access token
+import { createClient, type User } from 'npm:@supabase/supabase-js@2';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+/**
+ * The user whose JWT is in the `Authorization: Bearer` header, or null when
+ * the header is missing or the token doesn't verify. Routes act on this
+ * user's id, never on one the client sends.
+ */
+export async function authenticateUser(authHeader: string | undefined): Promise<User | null> {
+  const token = authHeader?.replace(/^Bearer\s+/i, '');
+  if (!token) {
+    return null;
+  }
+
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  return error ? null : user;
+}
@@ -0,0 +1,227 @@
+// Server-authoritative collaborative documents for FlashFusion sessions
+import {
+  applyOperation,
+  baseLength,
+  isTextOperation,
+  transformOperations,
+  type TextOperation,
+  type VersionedOperation
+} from '../../../utils/text-operations.ts';
+
+export interface DocumentSnapshot {
+  content: string;
+  version: number;
+}
+
+export interface StoredOperation extends VersionedOperation {
+  userId?: string;
+}
+
+/**
+ * Persistence for a session document: a compacted snapshot plus the
+ * operation log written since. Kept behind an interface so the transform
+ * logic runs the same against Postgres and in tests.
+ */
+export interface CollaborationStore {
+  loadSnapshot(sessionId: string): Promise<DocumentSnapshot | null>;
+  /** Operations with a version greater than `afterVersion`, in version order */
+  loadOperations(sessionId: string, afterVersion: number): Promise<StoredOperation[]>;
+  /**
+   * Returns false when another writer already took that version or already
+   * logged this client's `opId`
+   */
+  appendOperation(sessionId: string, operation: StoredOperation): Promise<boolean>;
+  saveSnapshot(sessionId: string, snapshot: DocumentSnapshot, userId?: string): Promise<void>;
+  /** Drop logged operations up to and including `throughVersion` */
+  pruneOperations(sessionId: string, throughVersion: number): Promise<void>;
+}
+
+export interface SubmitOperation {
+  baseVersion: number;
+  operation: unknown;
+  clientId: string;
+  opId: string;
+  userId?: string;
+}
+
+export interface SubmitResult {
+  operation: StoredOperation;
+  /** The op id had already been applied, e.g. a resend after reconnecting */
+  duplicate: boolean;
+}
+
+export interface CollaborationDocumentOptions {
+  /** Write a snapshot to collaboration_data after this many operations */
+  compactEvery?: number;
+  /** Operations kept for rebasing clients that are behind */
+  historyLimit?: number;
+}
+
+type StatusError = Error & { status: number };
+
+const MAX_APPEND_ATTEMPTS = 5;
+
+function statusError(message: string, status: number): StatusError {
+  return Object.assign(new Error(message), { status });
+}
+
+export class CollaborationDocument {
+  private content = '';
+  private version = 0;
+  private snapshotVersion = 0;
+  private history: StoredOperation[] = [];
+  private queue: Promise<unknown> = Promise.resolve();
+  private readonly compactEvery: number;
+  private readonly historyLimit: number;
+
+  constructor(
+    readonly sessionId: string,
+    private store: CollaborationStore,
+    options: CollaborationDocumentOptions = {}
+  ) {
+    this.compactEvery = options.compactEvery ?? 50;
+    this.historyLimit = options.historyLimit ?? 200;
+  }
+
+  async load(): Promise<void> {
+    const snapshot = await this.store.loadSnapshot(this.sessionId) ?? { content: '', version: 1 };
+    this.content = snapshot.content;
+    this.version = snapshot.version;
+    this.snapshotVersion = snapshot.version;
+
+    // Operations folded into the snapshot are still useful for rebasing stale clients
+    const operations = await this.store.loadOperations(this.sessionId, snapshot.version - this.historyLimit);
+    this.history = operations.filter(entry => entry.version <= snapshot.version);
+    this.replay(operations.filter(entry => entry.version > snapshot.version));
+  }
+
+  getSnapshot(): DocumentSnapshot {
+    return { content: this.content, version: this.version };
+  }
+
+  /**
+   * Operations a client at `version` is missing, or null when they have been
+   * compacted away and the client has to reload the snapshot
+   */
+  operationsSince(version: number): StoredOperation[] | null {
+    if (version > this.version) return null;
+    if (version === this.version) return [];
+
+    const oldestBase = this.history.length > 0 ? this.history[0].version - 1 : this.version;
+    if (version < oldestBase) return null;
+
+    return this.history.filter(entry => entry.version > version);
+  }
+
+  /**
+   * Transform an operation made against `baseVersion` past everything applied
+   * since, apply it and log it. Submissions are serialised per document.
+   */
+  submit(request: SubmitOperation): Promise<SubmitResult> {
+    const result = this.queue.then(() => this.applySubmission(request));
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async applySubmission(request: SubmitOperation): Promise<SubmitResult> {
+    if (!isTextOperation(request.operation)) {
+      throw statusError('Invalid operation', 400);
+    }
+
+    for (let attempt = 0; attempt < MAX_APPEND_ATTEMPTS; attempt++) {
+      // Checked on every attempt: a resend may have been logged by another instance we just caught up with
+      const existing = this.history.find(entry => entry.clientId === request.clientId && entry.opId === request.opId);
+      if (existing) {
+        return { operation: existing, duplicate: true };
+      }
+
+      const concurrent = this.operationsSince(request.baseVersion);
+      if (!concurrent) {
+        throw statusError(`Version ${request.baseVersion} is no longer available; reload the document`, 409);
+      }
+
+      // Operations already applied on the server win ties at the same position
+      let operation: TextOperation = request.operation;
+      for (const entry of concurrent) {
+        operation = transformOperations(entry.operation, operation)[1];
+      }
+
+      if (baseLength(operation) !== this.content.length) {
+        throw statusError('Operation does not match the document at its base version', 400);
+      }
+
+      const stored: StoredOperation = {
+        version: this.version + 1,
+        operation,
+        clientId: request.clientId,
+        opId: request.opId,
+        userId: request.userId
+      };
+
+      if (await this.store.appendOperation(this.sessionId, stored)) {
+        this.replay([stored]);
+        await this.compactIfNeeded(request.userId);
+        return { operation: stored, duplicate: false };
+      }
+
+      // Another server instance wrote this version first; catch up and retry
+      this.replay(await this.store.loadOperations(this.sessionId, this.version));
+    }
+
+    throw statusError('Document is too busy; try again', 503);
+  }
+
+  private replay(operations: StoredOperation[]) {
+    for (const entry of operations) {
+      if (entry.version !== this.version + 1) continue;
+      this.content = applyOperation(this.content, entry.operation);
+      this.version = entry.version;
+      this.history.push(entry);
+    }
+
+    if (this.history.length > this.historyLimit) {
+      this.history.splice(0, this.history.length - this.historyLimit);
+    }
+  }
+
+  private async compactIfNeeded(userId?: string) {
+    if (this.version - this.snapshotVersion < this.compactEvery) return;
+
+    const snapshot = this.getSnapshot();
+    try {
+      await this.store.saveSnapshot(this.sessionId, snapshot, userId);
+      this.snapshotVersion = snapshot.version;
+      await this.store.pruneOperations(this.sessionId, snapshot.version - this.historyLimit);
+    } catch (error) {
+      // The operation log is still complete, so compaction can wait for the next write
+      console.error('Collaboration snapshot error:', error);
+    }
+  }
+}
+
+/**
+ * One loaded document per session for the lifetime of the edge isolate
+ */
+export class CollaborationDocumentRegistry {
+  private documents = new Map<string, Promise<CollaborationDocument>>();
+
+  constructor(
+    private store: CollaborationStore,
+    private options: CollaborationDocumentOptions = {}
+  ) {}
+
+  get(sessionId: string): Promise<CollaborationDocument> {
+    let document = this.documents.get(sessionId);
+    if (!document) {
+      const created = new CollaborationDocument(sessionId, this.store, this.options);
+      document = created.load().then(() => created);
+      document.catch(() => this.documents.delete(sessionId));
+      this.documents.set(sessionId, document);
+    }
+    return document;
+  }
+
+  evict(sessionId: string): void {
+    this.documents.delete(sessionId);
+  }
+}
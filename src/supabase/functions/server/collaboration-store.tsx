@@ -0,0 +1,90 @@
+// Postgres persistence for collaborative session documents
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  CollaborationDocumentRegistry,
+  type CollaborationStore,
+  type DocumentSnapshot,
+  type StoredOperation
+} from './collaboration-document.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// Postgres unique_violation: another instance already wrote this version
+const UNIQUE_VIOLATION = '23505';
+
+const supabaseCollaborationStore: CollaborationStore = {
+  async loadSnapshot(sessionId: string): Promise<DocumentSnapshot | null> {
+    const { data, error } = await supabase
+      .from('collaboration_data')
+      .select('content, version')
+      .eq('session_id', sessionId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? { content: data.content || '', version: data.version || 1 } : null;
+  },
+
+  async loadOperations(sessionId: string, afterVersion: number): Promise<StoredOperation[]> {
+    const { data, error } = await supabase
+      .from('collaboration_operations')
+      .select('version, operation, client_id, op_id, user_id')
+      .eq('session_id', sessionId)
+      .gt('version', afterVersion)
+      .order('version', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(row => ({
+      version: row.version,
+      operation: row.operation,
+      clientId: row.client_id,
+      opId: row.op_id,
+      userId: row.user_id || undefined
+    }));
+  },
+
+  async appendOperation(sessionId: string, operation: StoredOperation): Promise<boolean> {
+    const { error } = await supabase
+      .from('collaboration_operations')
+      .insert({
+        session_id: sessionId,
+        version: operation.version,
+        operation: operation.operation,
+        client_id: operation.clientId,
+        op_id: operation.opId,
+        user_id: operation.userId || null
+      });
+
+    if (error?.code === UNIQUE_VIOLATION) return false;
+    if (error) throw error;
+    return true;
+  },
+
+  async saveSnapshot(sessionId: string, snapshot: DocumentSnapshot, userId?: string): Promise<void> {
+    const { error } = await supabase
+      .from('collaboration_data')
+      .upsert({
+        session_id: sessionId,
+        content: snapshot.content,
+        version: snapshot.version,
+        last_modified: new Date().toISOString(),
+        last_modified_by: userId || null
+      }, { onConflict: 'session_id' });
+
+    if (error) throw error;
+  },
+
+  async pruneOperations(sessionId: string, throughVersion: number): Promise<void> {
+    const { error } = await supabase
+      .from('collaboration_operations')
+      .delete()
+      .eq('session_id', sessionId)
+      .lte('version', throughVersion);
+
+    if (error) throw error;
+  }
+};
+
+export const collaborationDocuments = new CollaborationDocumentRegistry(supabaseCollaborationStore);
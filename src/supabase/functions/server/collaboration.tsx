@@ -1,5 +1,8 @@
 import { Hono } from 'npm:hono';
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { collaborationDocuments } from './collaboration-store.tsx';
+import { authenticateUser } from './auth-user.ts';
+import { broadcastToProject, isSessionParticipant } from './realtime.tsx';
 
 const collaborationApp = new Hono();
 
@@ -178,16 +181,12 @@ collaborationApp.post('/make-server-88829a40/collaboration/sessions/:sessionId/j
         data: { username }
       });
 
-    // Get session data
-    const { data: sessionData } = await supabase
-      .from('collaboration_data')
-      .select('*')
-      .eq('session_id', sessionId)
-      .single();
+    // Current document: last snapshot plus any operations logged since
+    const document = await collaborationDocuments.get(sessionId);
 
     return c.json({
       session,
-      sessionData: sessionData || { content: '', version: 1 },
+      sessionData: document.getSnapshot(),
       participants
     });
 
@@ -260,70 +259,98 @@ collaborationApp.post('/make-server-88829a40/collaboration/sessions/:sessionId/l
   }
 });
 
-// Update collaboration content
+// Apply a text operation to the shared document. Operations made against an
+// older version are transformed past everything applied since, so concurrent
+// editors merge instead of overwriting each other. Clients connected over the
+// realtime socket use the same path; this endpoint serves HTTP-only clients.
 collaborationApp.post('/make-server-88829a40/collaboration/sessions/:sessionId/content', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
   try {
     const sessionId = c.req.param('sessionId');
-    const { content, userId, username, operation } = await c.req.json();
+    const { operation, baseVersion, clientId, opId, username } = await c.req.json();
+    const userId = user.id;
 
-    if (!content && !operation) {
-      return c.json({ error: 'Content or operation required' }, 400);
+    if (!operation || typeof baseVersion !== 'number' || !clientId || !opId) {
+      return c.json({ error: 'Operation, baseVersion, clientId and opId required' }, 400);
     }
 
-    // Get current data
-    const { data: currentData, error: fetchError } = await supabase
-      .from('collaboration_data')
+    const { data: session, error: sessionError } = await supabase
+      .from('collaboration_sessions')
       .select('*')
-      .eq('session_id', sessionId)
+      .eq('id', sessionId)
       .single();
 
-    if (fetchError && fetchError.code !== 'PGRST116') { // Not found is ok for new sessions
-      throw fetchError;
+    if (sessionError || !session) {
+      return c.json({ error: 'Session not found' }, 404);
+    }
+    if (!(await isSessionParticipant(sessionId, userId))) {
+      return c.json({ error: 'Not a participant in this session' }, 403);
     }
 
-    const newVersion = (currentData?.version || 0) + 1;
-    const now = new Date().toISOString();
-
-    // Update content
-    const { error: updateError } = await supabase
-      .from('collaboration_data')
-      .upsert({
-        session_id: sessionId,
-        content: content || currentData?.content || '',
-        last_modified: now,
-        version: newVersion,
-        last_modified_by: userId
-      });
-
-    if (updateError) {
-      throw updateError;
+    const document = await collaborationDocuments.get(sessionId);
+    let result;
+    try {
+      result = await document.submit({ baseVersion, operation, clientId, opId, userId });
+    } catch (error) {
+      if (error.status === 409) {
+        return c.json({ error: error.message, ...document.getSnapshot() }, 409);
+      }
+      if (error.status === 400) {
+        return c.json({ error: error.message }, 400);
+      }
+      throw error;
     }
 
-    // Record change event
-    await supabase
-      .from('collaboration_events')
-      .insert({
-        type: 'text_change',
-        session_id: sessionId,
+    const { operation: applied, duplicate } = result;
+    const now = new Date().toISOString();
+
+    if (!duplicate) {
+      broadcastToProject(session.project_id, {
+        type: 'operation',
         user_id: userId,
-        username: username || 'Unknown',
-        timestamp: now,
+        user_name: username || 'Unknown',
+        project_id: session.project_id,
         data: {
-          operation: operation || 'full_update',
-          contentLength: content?.length || 0,
-          version: newVersion
-        }
+          session_id: sessionId,
+          version: applied.version,
+          operation: applied.operation,
+          client_id: applied.clientId,
+          op_id: applied.opId
+        },
+        timestamp: now
       });
 
-    // Update session last activity
-    await supabase
-      .from('collaboration_sessions')
-      .update({ last_activity: now })
-      .eq('id', sessionId);
+      // Record change event
+      await supabase
+        .from('collaboration_events')
+        .insert({
+          type: 'text_change',
+          session_id: sessionId,
+          user_id: userId,
+          username: username || 'Unknown',
+          timestamp: now,
+          data: {
+            operation: 'text_operation',
+            baseVersion,
+            version: applied.version
+          }
+        });
+
+      // Update session last activity
+      await supabase
+        .from('collaboration_sessions')
+        .update({ last_activity: now })
+        .eq('id', sessionId);
+    }
 
     return c.json({
       success: true,
-      version: newVersion,
+      version: applied.version,
+      operation: applied.operation,
       timestamp: now
     });
 
@@ -336,6 +363,47 @@ collaborationApp.post('/make-server-88829a40/collaboration/sessions/:sessionId/c
   }
 });
 
+// Operations applied after a version, for clients catching up without the socket
+collaborationApp.get('/make-server-88829a40/collaboration/sessions/:sessionId/operations', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const sessionId = c.req.param('sessionId');
+    const since = parseInt(c.req.query('since') || '0');
+
+    if (!(await isSessionParticipant(sessionId, user.id))) {
+      return c.json({ error: 'Not a participant in this session' }, 403);
+    }
+
+    const document = await collaborationDocuments.get(sessionId);
+    const operations = document.operationsSince(since);
+
+    if (!operations) {
+      return c.json({ error: 'Version no longer available; reload the document', ...document.getSnapshot() }, 409);
+    }
+
+    return c.json({
+      operations: operations.map(entry => ({
+        version: entry.version,
+        operation: entry.operation,
+        client_id: entry.clientId,
+        op_id: entry.opId
+      })),
+      version: document.getSnapshot().version
+    });
+
+  } catch (error) {
+    console.error('Get operations error:', error);
+    return c.json({
+      error: 'Failed to fetch collaboration operations',
+      message: error.message
+    }, 500);
+  }
+});
+
 // Send chat message
 collaborationApp.post('/make-server-88829a40/collaboration/sessions/:sessionId/chat', async (c) => {
   try {
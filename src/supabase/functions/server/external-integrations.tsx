@@ -13,6 +13,7 @@ import { cors } from 'npm:hono/cors';
 import { logger } from 'npm:hono/logger';
 import { createClient } from 'npm:@supabase/supabase-js@2';
 import * as kv from './kv_store.tsx';
+import { rejectionStatus, releaseInboundWebhook, verifyInboundWebhook, type WebhookProvider } from './webhook-verification.tsx';
 
 const app = new Hono();
 
@@ -34,24 +35,28 @@ const supabase = createClient(
 // Platform configurations
 const PLATFORM_CONFIGS = {
   'bolt.new': {
+    webhookProvider: 'hmac-sha256' as WebhookProvider,
     webhookSecret: Deno.env.get('BOLT_NEW_WEBHOOK_SECRET'),
     apiKey: Deno.env.get('BOLT_NEW_API_KEY'),
     clientId: Deno.env.get('BOLT_NEW_CLIENT_ID'),
     clientSecret: Deno.env.get('BOLT_NEW_CLIENT_SECRET')
   },
   'replit.com': {
+    webhookProvider: 'hmac-sha256' as WebhookProvider,
     webhookSecret: Deno.env.get('REPLIT_WEBHOOK_SECRET'),
     apiKey: Deno.env.get('REPLIT_API_KEY'),
     clientId: Deno.env.get('REPLIT_CLIENT_ID'),
     clientSecret: Deno.env.get('REPLIT_CLIENT_SECRET')
   },
   'vercel.com': {
+    webhookProvider: 'vercel' as WebhookProvider,
     webhookSecret: Deno.env.get('VERCEL_WEBHOOK_SECRET'),
     apiKey: Deno.env.get('VERCEL_API_KEY'),
     clientId: Deno.env.get('VERCEL_CLIENT_ID'),
     clientSecret: Deno.env.get('VERCEL_CLIENT_SECRET')
   },
   'netlify.com': {
+    webhookProvider: 'hmac-sha256' as WebhookProvider,
     webhookSecret: Deno.env.get('NETLIFY_WEBHOOK_SECRET'),
     apiKey: Deno.env.get('NETLIFY_API_KEY'),
     clientId: Deno.env.get('NETLIFY_CLIENT_ID'),
@@ -144,12 +149,9 @@ app.get('/make-server-88829a40/integrations/oauth/callback/:platform', async (c)
 app.post('/make-server-88829a40/integrations/webhook/:platform', async (c) => {
   try {
     const platform = c.req.param('platform');
-    const signature = c.req.header('x-signature') || c.req.header('x-hub-signature-256');
-    const event = c.req.header('x-event') || c.req.header('x-github-event');
     
-    const payload = await c.req.json();
-
-    console.log(`📥 Webhook received from ${platform}:`, { event, signature: !!signature });
+    // Signatures cover the exact bytes sent, so verify before parsing
+    const rawBody = await c.req.text();
 
     const config = PLATFORM_CONFIGS[platform as keyof typeof PLATFORM_CONFIGS];
     if (!config) {
@@ -159,25 +161,35 @@ app.post('/make-server-88829a40/integrations/webhook/:platform', async (c) => {
       }, 400);
     }
 
-    // Verify webhook signature if provided
-    if (signature && config.webhookSecret) {
-      const isValid = await verifyWebhookSignature(
-        JSON.stringify(payload), 
-        signature, 
-        config.webhookSecret
-      );
-      
-      if (!isValid) {
-        console.error(`❌ Invalid webhook signature for ${platform}`);
-        return c.json({ 
-          success: false, 
-          error: 'Invalid webhook signature' 
-        }, 401);
+    const verification = await verifyInboundWebhook(
+      config.webhookProvider,
+      rawBody,
+      c.req.raw.headers,
+      config.webhookSecret
+    );
+
+    if (!verification.valid) {
+      if (verification.reason === 'replayed') {
+        return c.json({ success: true, duplicate: true }, rejectionStatus(verification));
       }
+      console.error(`❌ Rejected webhook for ${platform}: ${verification.message}`);
+      return c.json({ 
+        success: false, 
+        error: verification.message 
+      }, rejectionStatus(verification));
     }
 
+    const payload = JSON.parse(rawBody);
+    const event = c.req.header('x-event') || c.req.header('x-github-event') || payload.type;
+
+    console.log(`📥 Webhook received from ${platform}:`, { event, delivery: verification.deliveryId });
+
     // Process webhook based on platform and event
     const result = await processWebhook(platform, event || 'unknown', payload);
+    if (!result.success) {
+      // Accept the platform's retry of this delivery
+      await releaseInboundWebhook(config.webhookProvider, verification.claims).catch(console.error);
+    }
 
     // Store webhook event in KV store for audit
     const webhookKey = `webhook:${platform}:${Date.now()}`;
@@ -592,36 +604,6 @@ async function refreshAccessToken(platform: string, credentials: any) {
   }
 }
 
-async function verifyWebhookSignature(payload: string, signature: string, secret: string): Promise<boolean> {
-  try {
-    // Implementation depends on platform-specific signature verification
-    // This is a simplified version - in production, implement proper HMAC verification
-    
-    const encoder = new TextEncoder();
-    const key = await crypto.subtle.importKey(
-      'raw',
-      encoder.encode(secret),
-      { name: 'HMAC', hash: 'SHA-256' },
-      false,
-      ['sign']
-    );
-
-    const signatureBytes = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
-    const calculatedSignature = Array.from(new Uint8Array(signatureBytes))
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-
-    // Compare signatures (remove prefix if present)
-    const providedSignature = signature.replace(/^sha256=/, '');
-    
-    return calculatedSignature === providedSignature;
-
-  } catch (error) {
-    console.error('Signature verification error:', error);
-    return false;
-  }
-}
-
 function getTokenEndpoint(platform: string): string {
   const endpoints: Record<string, string> = {
     'bolt.new': 'https://api.bolt.new/v1/oauth/token',
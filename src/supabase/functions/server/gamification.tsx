@@ -0,0 +1,77 @@
+/**
+ * @fileoverview XP and achievement routes for FlashFusion
+ * @chunk server
+ * @category gamification
+ * @version 1.0.0
+ * @author FlashFusion Team
+ *
+ * The SPA reports what the user did; the ledger in xp-ledger.ts decides what
+ * it is worth. Nothing here accepts an XP amount from the client.
+ */
+
+import { Hono } from 'npm:hono';
+import { authenticateUser } from './auth-user.ts';
+import { XP_EVENT_TYPES, type LeaderboardTimeframe, type XpEventClaim } from './xp-ledger.ts';
+import { xpLedger } from './xp-ledger-store.tsx';
+
+const gamificationApp = new Hono();
+
+const LEADERBOARD_TIMEFRAMES: LeaderboardTimeframe[] = ['all_time', 'monthly', 'weekly'];
+const MAX_LEADERBOARD_SIZE = 100;
+
+// Report an event; the reward, if any, is decided and recorded server-side
+gamificationApp.post('/make-server-88829a40/gamification/events', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  const body = await c.req.json().catch(() => null);
+  if (!body || !XP_EVENT_TYPES.includes(body.type)) {
+    return c.json({ error: `type must be one of ${XP_EVENT_TYPES.join(', ')}` }, 400);
+  }
+
+  const claim: XpEventClaim = { type: body.type, recordId: body.recordId, tool: body.tool };
+  try {
+    return c.json(await xpLedger.award(user.id, claim));
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === 400 || status === 404 || status === 409) {
+      return c.json({ error: (error as Error).message }, status);
+    }
+    console.error('XP award error:', error);
+    return c.json({ error: 'Failed to record XP event' }, 500);
+  }
+});
+
+// Caller's level, achievements and streak, computed from the ledger
+gamificationApp.get('/make-server-88829a40/gamification/stats', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    return c.json({ stats: await xpLedger.summary(user.id) });
+  } catch (error) {
+    console.error('XP stats error:', error);
+    return c.json({ error: 'Failed to load XP stats' }, 500);
+  }
+});
+
+gamificationApp.get('/make-server-88829a40/gamification/leaderboard', async (c) => {
+  const timeframe = (c.req.query('timeframe') || 'all_time') as LeaderboardTimeframe;
+  if (!LEADERBOARD_TIMEFRAMES.includes(timeframe)) {
+    return c.json({ error: `timeframe must be one of ${LEADERBOARD_TIMEFRAMES.join(', ')}` }, 400);
+  }
+  const limit = Math.min(MAX_LEADERBOARD_SIZE, Math.max(1, parseInt(c.req.query('limit') || '50') || 50));
+
+  try {
+    return c.json({ entries: await xpLedger.leaderboard(timeframe, limit) });
+  } catch (error) {
+    console.error('Leaderboard error:', error);
+    return c.json({ error: 'Failed to load leaderboard' }, 500);
+  }
+});
+
+export default gamificationApp;
@@ -0,0 +1,174 @@
+/**
+ * Key-Value Store Interface
+ * The edge server's KV contract: JSON values with optional TTL, a version per
+ * key for compare-and-set, atomic counters and paginated prefix scans that
+ * return keys. `kv_store.tsx` implements it on Postgres; `MemoryKVStore`
+ * implements it in process for tests and local runs.
+ */
+
+export interface KVEntry<T = unknown> {
+  key: string;
+  value: T;
+  /** Increases on every write; pass it to `compareAndSet` */
+  version: number;
+  expiresAt?: string;
+}
+
+export interface KVSetOptions {
+  /** Expire the key after this many seconds; omitted means it never expires */
+  ttlSeconds?: number;
+}
+
+export interface KVScanOptions {
+  /** Page size, default 100, at most 1000 */
+  limit?: number;
+  /** `cursor` from the previous page */
+  cursor?: string;
+}
+
+export interface KVScanPage<T = unknown> {
+  entries: KVEntry<T>[];
+  /** Present when more keys match; keys are returned in ascending order */
+  cursor?: string;
+}
+
+export interface KVStore {
+  get<T = unknown>(key: string): Promise<KVEntry<T> | null>;
+  getMany<T = unknown>(keys: string[]): Promise<KVEntry<T>[]>;
+  set<T = unknown>(key: string, value: T, options?: KVSetOptions): Promise<KVEntry<T>>;
+  setMany(entries: { key: string; value: unknown }[], options?: KVSetOptions): Promise<void>;
+  delete(keys: string[]): Promise<void>;
+  /**
+   * Write only if the key is still at `expectedVersion`, or absent when it is
+   * null. Returns the new entry, or null when another writer got there first.
+   */
+  compareAndSet<T = unknown>(
+    key: string,
+    expectedVersion: number | null,
+    value: T,
+    options?: KVSetOptions
+  ): Promise<KVEntry<T> | null>;
+  /**
+   * Atomically add `delta` to a numeric value and return the result. A missing
+   * or expired key starts from zero and takes `ttlSeconds`; an existing
+   * counter keeps its expiry, which makes fixed-window rate limits one call.
+   */
+  increment(key: string, delta?: number, options?: KVSetOptions): Promise<number>;
+  scan<T = unknown>(prefix: string, options?: KVScanOptions): Promise<KVScanPage<T>>;
+}
+
+export const DEFAULT_SCAN_LIMIT = 100;
+export const MAX_SCAN_LIMIT = 1000;
+
+export function scanLimit(options?: KVScanOptions): number {
+  return Math.min(Math.max(1, options?.limit ?? DEFAULT_SCAN_LIMIT), MAX_SCAN_LIMIT);
+}
+
+interface StoredValue {
+  json: string;
+  version: number;
+  expiresAt?: number;
+}
+
+/**
+ * In-process KVStore. Values are stored as JSON text so callers cannot mutate
+ * them through a returned reference, the same as with JSONB.
+ */
+export class MemoryKVStore implements KVStore {
+  private data = new Map<string, StoredValue>();
+  private now: () => number;
+
+  constructor(options: { now?: () => number } = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  private live(key: string): StoredValue | undefined {
+    const stored = this.data.get(key);
+    if (stored?.expiresAt !== undefined && stored.expiresAt <= this.now()) {
+      return undefined;
+    }
+    return stored;
+  }
+
+  private toEntry<T>(key: string, stored: StoredValue): KVEntry<T> {
+    return {
+      key,
+      value: JSON.parse(stored.json),
+      version: stored.version,
+      ...(stored.expiresAt !== undefined ? { expiresAt: new Date(stored.expiresAt).toISOString() } : {})
+    };
+  }
+
+  private write<T>(key: string, value: unknown, expiresAt: number | undefined): KVEntry<T> {
+    const stored: StoredValue = {
+      json: JSON.stringify(value),
+      // Versions keep counting across expiry so a stale version never matches again
+      version: (this.data.get(key)?.version ?? 0) + 1,
+      expiresAt
+    };
+    this.data.set(key, stored);
+    return this.toEntry(key, stored);
+  }
+
+  private expiry(options?: KVSetOptions): number | undefined {
+    return options?.ttlSeconds !== undefined ? this.now() + options.ttlSeconds * 1000 : undefined;
+  }
+
+  async get<T = unknown>(key: string): Promise<KVEntry<T> | null> {
+    const stored = this.live(key);
+    return stored ? this.toEntry<T>(key, stored) : null;
+  }
+
+  async getMany<T = unknown>(keys: string[]): Promise<KVEntry<T>[]> {
+    const entries = await Promise.all(keys.map(key => this.get<T>(key)));
+    return entries.filter((entry): entry is KVEntry<T> => entry !== null);
+  }
+
+  async set<T = unknown>(key: string, value: T, options?: KVSetOptions): Promise<KVEntry<T>> {
+    return this.write<T>(key, value, this.expiry(options));
+  }
+
+  async setMany(entries: { key: string; value: unknown }[], options?: KVSetOptions): Promise<void> {
+    entries.forEach(({ key, value }) => this.write(key, value, this.expiry(options)));
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    keys.forEach(key => this.data.delete(key));
+  }
+
+  async compareAndSet<T = unknown>(
+    key: string,
+    expectedVersion: number | null,
+    value: T,
+    options?: KVSetOptions
+  ): Promise<KVEntry<T> | null> {
+    const current = this.live(key);
+    if ((current?.version ?? null) !== expectedVersion) return null;
+    return this.write<T>(key, value, this.expiry(options));
+  }
+
+  async increment(key: string, delta = 1, options?: KVSetOptions): Promise<number> {
+    const current = this.live(key);
+    const base = current ? JSON.parse(current.json) : 0;
+    if (typeof base !== 'number') {
+      throw new Error(`Cannot increment non-numeric value at ${key}`);
+    }
+
+    const next = base + delta;
+    this.write(key, next, current ? current.expiresAt : this.expiry(options));
+    return next;
+  }
+
+  async scan<T = unknown>(prefix: string, options?: KVScanOptions): Promise<KVScanPage<T>> {
+    const limit = scanLimit(options);
+    const keys = [...this.data.keys()]
+      .filter(key => key.startsWith(prefix) && (!options?.cursor || key > options.cursor) && this.live(key))
+      .sort();
+
+    const page = keys.slice(0, limit);
+    return {
+      entries: page.map(key => this.toEntry<T>(key, this.data.get(key)!)),
+      ...(keys.length > limit ? { cursor: page[page.length - 1] } : {})
+    };
+  }
+}
@@ -1,87 +1,235 @@
-/* AUTOGENERATED FILE - DO NOT EDIT CONTENTS */
-
-/* Table schema:
+/* Table schema (see migrations/011_kv_store_ttl_cas.sql):
 CREATE TABLE kv_store_e6e09e19 (
-  key TEXT NOT NULL PRIMARY KEY,
-  value JSONB NOT NULL
+  key TEXT COLLATE "C" NOT NULL PRIMARY KEY,
+  value JSONB NOT NULL,
+  version BIGINT NOT NULL DEFAULT 1,
+  expires_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW()
 );
 */
 
 // View at https://supabase.com/dashboard/project/gcqfqzhgludrzkfajljp/database/tables
 
-// This file provides a simple key-value interface for storing Figma Make data. It should be adequate for most small-scale use cases.
+// Key-value storage for the edge server. The functions below delegate to the
+// active KVStore: Postgres in deployments, MemoryKVStore in tests via useKVStore.
 import { createClient } from "jsr:@supabase/supabase-js@2.49.8";
+import {
+  scanLimit,
+  type KVEntry,
+  type KVScanOptions,
+  type KVScanPage,
+  type KVSetOptions,
+  type KVStore
+} from "./kv.ts";
+
+export type { KVEntry, KVScanOptions, KVScanPage, KVSetOptions, KVStore };
+
+const TABLE = "kv_store_e6e09e19";
 
 const client = () => createClient(
   Deno.env.get("SUPABASE_URL"),
   Deno.env.get("SUPABASE_SERVICE_ROLE_KEY"),
 );
 
-// Set stores a key-value pair in the database.
-export const set = async (key: string, value: any): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_e6e09e19").upsert({
-    key,
-    value
-  });
-  if (error) {
-    throw new Error(error.message);
+interface KVRow {
+  key: string;
+  value: unknown;
+  version: number;
+  expires_at: string | null;
+}
+
+const toEntry = <T,>(row: KVRow): KVEntry<T> => ({
+  key: row.key,
+  value: row.value as T,
+  version: Number(row.version),
+  ...(row.expires_at ? { expiresAt: row.expires_at } : {}),
+});
+
+// Rows past their expiry are invisible until kv_purge_expired() deletes them
+const notExpired = () => `expires_at.is.null,expires_at.gt."${new Date().toISOString()}"`;
+
+// `_` and `%` in a prefix are literal characters, not LIKE wildcards
+const likePrefix = (prefix: string) => prefix.replace(/[\\%_]/g, "\\$&") + "%";
+
+const fail = (error: { message: string }): never => {
+  throw new Error(error.message);
+};
+
+/**
+ * KVStore on the kv table. Writes go through SQL functions so versions,
+ * compare-and-set and counters are atomic in the database.
+ */
+class PostgresKVStore implements KVStore {
+  async get<T = unknown>(key: string): Promise<KVEntry<T> | null> {
+    const { data, error } = await client().from(TABLE)
+      .select("key, value, version, expires_at")
+      .eq("key", key)
+      .or(notExpired())
+      .maybeSingle();
+    if (error) fail(error);
+    return data ? toEntry<T>(data) : null;
+  }
+
+  async getMany<T = unknown>(keys: string[]): Promise<KVEntry<T>[]> {
+    if (keys.length === 0) return [];
+    const { data, error } = await client().from(TABLE)
+      .select("key, value, version, expires_at")
+      .in("key", keys)
+      .or(notExpired());
+    if (error) fail(error);
+    return (data ?? []).map((row: KVRow) => toEntry<T>(row));
+  }
+
+  async set<T = unknown>(key: string, value: T, options?: KVSetOptions): Promise<KVEntry<T>> {
+    const { data, error } = await client().rpc("kv_set", {
+      p_key: key,
+      p_value: value,
+      p_ttl_seconds: options?.ttlSeconds ?? null,
+    }).single();
+    if (error) fail(error);
+    return toEntry<T>(data as KVRow);
+  }
+
+  async setMany(entries: { key: string; value: unknown }[], options?: KVSetOptions): Promise<void> {
+    // One statement cannot upsert a key twice, so the last value for a key wins
+    const unique = [...new Map(entries.map(entry => [entry.key, entry])).values()];
+    if (unique.length === 0) return;
+
+    const { error } = await client().rpc("kv_set_many", {
+      p_entries: unique,
+      p_ttl_seconds: options?.ttlSeconds ?? null,
+    });
+    if (error) fail(error);
+  }
+
+  async delete(keys: string[]): Promise<void> {
+    if (keys.length === 0) return;
+    const { error } = await client().from(TABLE).delete().in("key", keys);
+    if (error) fail(error);
+  }
+
+  async compareAndSet<T = unknown>(
+    key: string,
+    expectedVersion: number | null,
+    value: T,
+    options?: KVSetOptions,
+  ): Promise<KVEntry<T> | null> {
+    const { data, error } = await client().rpc("kv_compare_and_set", {
+      p_key: key,
+      p_expected_version: expectedVersion,
+      p_value: value,
+      p_ttl_seconds: options?.ttlSeconds ?? null,
+    });
+    if (error) fail(error);
+    const [row] = (data ?? []) as KVRow[];
+    return row ? toEntry<T>(row) : null;
+  }
+
+  async increment(key: string, delta = 1, options?: KVSetOptions): Promise<number> {
+    const { data, error } = await client().rpc("kv_increment", {
+      p_key: key,
+      p_delta: delta,
+      p_ttl_seconds: options?.ttlSeconds ?? null,
+    });
+    if (error) fail(error);
+    return Number(data);
+  }
+
+  async scan<T = unknown>(prefix: string, options?: KVScanOptions): Promise<KVScanPage<T>> {
+    const limit = scanLimit(options);
+    let query = client().from(TABLE)
+      .select("key, value, version, expires_at")
+      .like("key", likePrefix(prefix))
+      .or(notExpired())
+      .order("key", { ascending: true })
+      .limit(limit + 1);
+    if (options?.cursor) query = query.gt("key", options.cursor);
+
+    const { data, error } = await query;
+    if (error) fail(error);
+
+    const rows = (data ?? []) as KVRow[];
+    const page = rows.slice(0, limit).map(row => toEntry<T>(row));
+    return {
+      entries: page,
+      ...(rows.length > limit ? { cursor: page[page.length - 1].key } : {}),
+    };
   }
+}
+
+let store: KVStore = new PostgresKVStore();
+
+/**
+ * Swap the backing store, e.g. for a MemoryKVStore in route tests. Returns
+ * the previous store so it can be restored.
+ */
+export const useKVStore = (next: KVStore): KVStore => {
+  const previous = store;
+  store = next;
+  return previous;
+};
+
+export const getKVStore = (): KVStore => store;
+
+// Set stores a key-value pair in the database.
+export const set = async (key: string, value: any, options?: KVSetOptions): Promise<void> => {
+  await store.set(key, value, options);
 };
 
 // Get retrieves a key-value pair from the database.
 export const get = async (key: string): Promise<any> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_e6e09e19").select("value").eq("key", key).maybeSingle();
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.value;
+  return (await store.get(key))?.value;
 };
 
 // Delete deletes a key-value pair from the database.
 export const del = async (key: string): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_e6e09e19").delete().eq("key", key);
-  if (error) {
-    throw new Error(error.message);
-  }
+  await store.delete([key]);
 };
 
 // Sets multiple key-value pairs in the database.
-export const mset = async (keys: string[], values: any[]): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_e6e09e19").upsert(keys.map((k, i) => ({ key: k, value: values[i] })));
-  if (error) {
-    throw new Error(error.message);
-  }
+export const mset = async (keys: string[], values: any[], options?: KVSetOptions): Promise<void> => {
+  await store.setMany(keys.map((key, i) => ({ key, value: values[i] })), options);
 };
 
-// Gets multiple key-value pairs from the database.
+// Gets multiple key-value pairs from the database, in the order of `keys`.
+// Missing keys are skipped.
 export const mget = async (keys: string[]): Promise<any[]> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_e6e09e19").select("value").in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.map((d) => d.value) ?? [];
+  const byKey = new Map((await store.getMany(keys)).map(entry => [entry.key, entry.value]));
+  return keys.filter(key => byKey.has(key)).map(key => byKey.get(key));
 };
 
 // Deletes multiple key-value pairs from the database.
 export const mdel = async (keys: string[]): Promise<void> => {
-  const supabase = client()
-  const { error } = await supabase.from("kv_store_e6e09e19").delete().in("key", keys);
-  if (error) {
-    throw new Error(error.message);
-  }
+  await store.delete(keys);
 };
 
-// Search for key-value pairs by prefix.
+// Search for key-value pairs by prefix, returning every matching value.
 export const getByPrefix = async (prefix: string): Promise<any[]> => {
-  const supabase = client()
-  const { data, error } = await supabase.from("kv_store_e6e09e19").select("key, value").like("key", prefix + "%");
-  if (error) {
-    throw new Error(error.message);
-  }
-  return data?.map((d) => d.value) ?? [];
-};
\ No newline at end of file
+  const values: any[] = [];
+  let cursor: string | undefined;
+  do {
+    const page = await store.scan(prefix, { cursor, limit: 1000 });
+    values.push(...page.entries.map(entry => entry.value));
+    cursor = page.cursor;
+  } while (cursor);
+  return values;
+};
+
+// One page of entries (with keys and versions) whose key starts with `prefix`.
+export const scan = <T = any>(prefix: string, options?: KVScanOptions): Promise<KVScanPage<T>> =>
+  store.scan<T>(prefix, options);
+
+// Get a key with its version for a later compareAndSet.
+export const getEntry = <T = any>(key: string): Promise<KVEntry<T> | null> => store.get<T>(key);
+
+// Write only if the key is still at `expectedVersion` (null: the key must not exist).
+export const compareAndSet = <T = any>(
+  key: string,
+  expectedVersion: number | null,
+  value: T,
+  options?: KVSetOptions,
+): Promise<KVEntry<T> | null> => store.compareAndSet(key, expectedVersion, value, options);
+
+// Atomically add to a counter; the TTL applies when the counter is created.
+export const increment = (key: string, delta = 1, options?: KVSetOptions): Promise<number> =>
+  store.increment(key, delta, options);
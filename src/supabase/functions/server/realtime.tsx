@@ -1,5 +1,7 @@
 // Real-time features for FlashFusion
 import { createClient } from 'npm:@supabase/supabase-js@2';
+import { collaborationDocuments } from './collaboration-store.tsx';
+import type { StoredOperation } from './collaboration-document.ts';
 
 const supabase = createClient(
   Deno.env.get('SUPABASE_URL')!,
@@ -8,7 +10,7 @@ const supabase = createClient(
 
 // Real-time collaboration types
 export interface CollaborationMessage {
-  type: 'cursor' | 'selection' | 'edit' | 'comment' | 'presence';
+  type: 'cursor' | 'selection' | 'edit' | 'comment' | 'presence' | 'operation' | 'sync';
   user_id: string;
   user_name: string;
   project_id: string;
@@ -35,6 +37,8 @@ export function handleWebSocketConnection(ws: WebSocket, url: URL) {
   const projectId = url.searchParams.get('project_id');
   const userId = url.searchParams.get('user_id');
   const userToken = url.searchParams.get('token');
+  // Optional: join the shared document of a collaboration session
+  const sessionId = url.searchParams.get('session_id');
 
   if (!projectId || !userId || !userToken) {
     ws.close(1008, 'Missing required parameters');
@@ -42,12 +46,17 @@ export function handleWebSocketConnection(ws: WebSocket, url: URL) {
   }
 
   // Verify user token
-  verifyUserToken(userToken, userId).then(isValid => {
+  verifyUserToken(userToken, userId).then(async isValid => {
     if (!isValid) {
       ws.close(1008, 'Invalid token');
       return;
     }
 
+    if (sessionId && !(await isSessionParticipant(sessionId, userId))) {
+      ws.close(1008, 'Not a participant in this session');
+      return;
+    }
+
     // Add connection to project
     if (!activeConnections.has(projectId)) {
       activeConnections.set(projectId, []);
@@ -91,10 +100,31 @@ export function handleWebSocketConnection(ws: WebSocket, url: URL) {
       collaborators: currentCollaborators
     }));
 
+    if (sessionId) {
+      try {
+        const document = await collaborationDocuments.get(sessionId);
+        ws.send(JSON.stringify({
+          type: 'document_sync',
+          session_id: sessionId,
+          ...document.getSnapshot()
+        }));
+      } catch (error) {
+        console.error('Load collaboration document error:', error);
+        ws.close(1011, 'Could not load the shared document');
+        return;
+      }
+    }
+
     // Handle incoming messages
     ws.onmessage = (event) => {
       try {
         const message: CollaborationMessage = JSON.parse(event.data);
+        if (message.type === 'operation' || message.type === 'sync') {
+          handleDocumentMessage(ws, message, projectId, userId, sessionId).catch(error => {
+            console.error('Document message error:', error);
+          });
+          return;
+        }
         handleCollaborationMessage(message, projectId, userId);
       } catch (error) {
         console.error('WebSocket message error:', error);
@@ -126,6 +156,84 @@ async function verifyUserToken(token: string, userId: string): Promise<boolean>
   }
 }
 
+async function isSessionParticipant(sessionId: string, userId: string): Promise<boolean> {
+  const { data: session } = await supabase
+    .from('collaboration_sessions')
+    .select('participants')
+    .eq('id', sessionId)
+    .maybeSingle();
+
+  return Boolean(session?.participants?.includes(userId));
+}
+
+function toOperationPayload(entry: StoredOperation) {
+  return {
+    version: entry.version,
+    operation: entry.operation,
+    client_id: entry.clientId,
+    op_id: entry.opId
+  };
+}
+
+/**
+ * Shared document traffic. Operations are transformed server-side and the
+ * result is broadcast to every connection, the sender included: seeing its
+ * own op id come back is how a client learns the operation was accepted.
+ */
+async function handleDocumentMessage(
+  ws: WebSocket,
+  message: CollaborationMessage,
+  projectId: string,
+  userId: string,
+  sessionId: string | null
+) {
+  if (!sessionId || message.data?.session_id !== sessionId) {
+    ws.send(JSON.stringify({ type: 'operation_rejected', session_id: message.data?.session_id, error: 'Not joined to this session' }));
+    return;
+  }
+
+  const document = await collaborationDocuments.get(sessionId);
+
+  if (message.type === 'sync') {
+    // Reconnecting client: replay what it missed, or hand it a fresh snapshot
+    const operations = document.operationsSince(message.data.version);
+    ws.send(JSON.stringify(operations
+      ? { type: 'operations', session_id: sessionId, operations: operations.map(toOperationPayload) }
+      : { type: 'document_reset', session_id: sessionId, ...document.getSnapshot() }));
+    return;
+  }
+
+  try {
+    const { operation, duplicate } = await document.submit({
+      baseVersion: message.data.base_version,
+      operation: message.data.operation,
+      clientId: message.data.client_id,
+      opId: message.data.op_id,
+      userId
+    });
+
+    const broadcast: CollaborationMessage = {
+      type: 'operation',
+      user_id: userId,
+      user_name: message.user_name || 'User',
+      project_id: projectId,
+      data: { session_id: sessionId, ...toOperationPayload(operation) },
+      timestamp: new Date().toISOString()
+    };
+
+    if (duplicate) {
+      ws.send(JSON.stringify(broadcast));
+    } else {
+      broadcastToProject(projectId, broadcast);
+    }
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    ws.send(JSON.stringify(status === 409
+      ? { type: 'document_reset', session_id: sessionId, ...document.getSnapshot() }
+      : { type: 'operation_rejected', session_id: sessionId, op_id: message.data.op_id, error: (error as Error).message }));
+  }
+}
+
 function handleCollaborationMessage(message: CollaborationMessage, projectId: string, senderId: string) {
   // Update user presence if applicable
   const projectPresence = userPresence.get(projectId);
@@ -392,5 +500,6 @@ export {
   activeConnections,
   userPresence,
   projectCollaborations,
-  broadcastToProject
+  broadcastToProject,
+  isSessionParticipant
 };
\ No newline at end of file
@@ -0,0 +1,82 @@
+/**
+ * @fileoverview Workspace search routes for FlashFusion
+ * @chunk server
+ * @category search
+ * @version 1.0.0
+ * @author FlashFusion Team
+ *
+ * Full-text search over the caller's projects and project files, backed by
+ * `search_workspace` from migration 015. Tools, pages and templates are
+ * searched in the browser; this covers what only the database holds.
+ */
+
+import { Hono } from 'npm:hono';
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { authenticateUser } from './auth-user.ts';
+
+const searchApp = new Hono();
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const MAX_QUERY_LENGTH = 200;
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 50;
+
+// One result of search_workspace
+interface SearchRow {
+  kind: 'project' | 'file';
+  id: string;
+  project_id: string;
+  title: string;
+  path: string | null;
+  snippet: string;
+  rank: number;
+  updated_at: string;
+}
+
+searchApp.get('/make-server-88829a40/search', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  const query = (c.req.query('q') ?? '').trim();
+  if (!query) {
+    return c.json({ error: 'q is required' }, 400);
+  }
+  if (query.length > MAX_QUERY_LENGTH) {
+    return c.json({ error: `q must be at most ${MAX_QUERY_LENGTH} characters` }, 400);
+  }
+
+  const requestedLimit = Number(c.req.query('limit') ?? DEFAULT_LIMIT);
+  const limit = Number.isInteger(requestedLimit) ? Math.min(Math.max(requestedLimit, 1), MAX_LIMIT) : DEFAULT_LIMIT;
+
+  const { data, error } = await supabase.rpc('search_workspace', {
+    p_user_id: user.id,
+    p_query: query,
+    p_limit: limit
+  });
+
+  if (error) {
+    console.error('Workspace search error:', error);
+    return c.json({ error: 'Search failed' }, 500);
+  }
+
+  return c.json({
+    results: (data || []).map((row: SearchRow) => ({
+      kind: row.kind,
+      id: row.id,
+      projectId: row.project_id,
+      title: row.title,
+      path: row.path,
+      snippet: row.snippet,
+      rank: Number(row.rank),
+      updatedAt: row.updated_at
+    }))
+  });
+});
+
+export default searchApp;
@@ -10,6 +10,8 @@
 
 import Stripe from 'https://esm.sh/stripe@13.10.0';
 import * as kv from './kv_store.tsx';
+import { usageMeter } from './usage-metering-store.tsx';
+import type { PlanId } from './usage-metering.ts';
 
 // Initialize Stripe with secret key
 const stripe = new Stripe(Deno.env.get('stripe_secret_api_key')!, {
@@ -17,9 +19,10 @@ const stripe = new Stripe(Deno.env.get('stripe_secret_api_key')!, {
 });
 
 // Promotional pricing configuration
-const PROMO_PLANS = {
+const PROMO_PLANS: Record<string, { planId: string; tier: PlanId; originalPrice: number; discountedPrice: number; name: string; features: string[] }> = {
   'price_starter_promo_50off': {
     planId: 'starter-promo',
+    tier: 'pro',
     originalPrice: 29.00,
     discountedPrice: 14.50,
     name: 'Starter Pro',
@@ -27,6 +30,7 @@ const PROMO_PLANS = {
   },
   'price_professional_promo_50off': {
     planId: 'professional-promo',
+    tier: 'pro',
     originalPrice: 79.00,
     discountedPrice: 39.50,
     name: 'Professional Pro',
@@ -34,6 +38,7 @@ const PROMO_PLANS = {
   },
   'price_enterprise_promo_50off': {
     planId: 'enterprise-promo',
+    tier: 'enterprise',
     originalPrice: 199.00,
     discountedPrice: 99.50,
     name: 'Enterprise Pro',
@@ -41,6 +46,13 @@ const PROMO_PLANS = {
   }
 };
 
+// Stripe keeps serving a subscription in these states, so the plan limits stay raised
+const PAID_SUBSCRIPTION_STATUSES = ['active', 'trialing', 'past_due'];
+
+function tierForPlan(planId: string | undefined): PlanId {
+  return Object.values(PROMO_PLANS).find(plan => plan.planId === planId)?.tier ?? 'free';
+}
+
 interface CheckoutSessionRequest {
   priceId: string;
   promoCode?: string;
@@ -387,6 +399,14 @@ async function handleCheckoutCompleted(session: Stripe.Checkout.Session) {
       metadata: sessionData.metadata
     });
 
+    // Later subscription and invoice events find the user through this link
+    const userId = await usageMeter.linkCustomer(session.customer as string, sessionData.customerEmail);
+    if (userId) {
+      await usageMeter.changePlan(session.customer as string, tierForPlan(sessionData.planId), session.subscription as string);
+    } else {
+      console.warn(`No FlashFusion account for checkout email ${sessionData.customerEmail}`);
+    }
+
     console.log(`Checkout completed for customer ${session.customer}, subscription ${session.subscription}`);
 
   } catch (error) {
@@ -412,6 +432,8 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
       createdAt: new Date().toISOString()
     });
 
+    await applySubscriptionPlan(subscription);
+
     console.log(`Subscription created: ${subscription.id} for customer ${customerId}`);
 
   } catch (error) {
@@ -419,6 +441,16 @@ async function handleSubscriptionCreated(subscription: Stripe.Subscription) {
   }
 }
 
+/**
+ * Move the subscriber onto the plan tier the subscription pays for
+ */
+async function applySubscriptionPlan(subscription: Stripe.Subscription) {
+  const tier = PAID_SUBSCRIPTION_STATUSES.includes(subscription.status)
+    ? tierForPlan(subscription.metadata?.planId)
+    : 'free';
+  await usageMeter.changePlan(subscription.customer as string, tier, subscription.id);
+}
+
 /**
  * Handle subscription updates
  */
@@ -434,6 +466,8 @@ async function handleSubscriptionUpdated(subscription: Stripe.Subscription) {
       updatedAt: new Date().toISOString()
     });
 
+    await applySubscriptionPlan(subscription);
+
     console.log(`Subscription updated: ${subscription.id}, status: ${subscription.status}`);
 
   } catch (error) {
@@ -454,6 +488,8 @@ async function handleSubscriptionCancelled(subscription: Stripe.Subscription) {
       cancelledAt: new Date().toISOString()
     });
 
+    await usageMeter.changePlan(subscription.customer as string, 'free', subscription.id);
+
     console.log(`Subscription cancelled: ${subscription.id}`);
 
   } catch (error) {
@@ -479,6 +515,16 @@ async function handlePaymentSucceeded(invoice: Stripe.Invoice) {
       paidAt: new Date().toISOString()
     });
 
+    // Each paid subscription invoice starts a new metering period
+    const period = invoice.lines.data.find(line => line.type === 'subscription')?.period;
+    if (invoice.subscription && period) {
+      await usageMeter.startBillingPeriod(
+        customerId,
+        new Date(period.start * 1000).toISOString(),
+        new Date(period.end * 1000).toISOString()
+      );
+    }
+
     console.log(`Payment succeeded: ${invoice.id}, amount: ${invoice.amount_paid / 100} ${invoice.currency}`);
 
   } catch (error) {
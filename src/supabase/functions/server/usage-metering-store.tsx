@@ -0,0 +1,73 @@
+// Postgres persistence for usage metering
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { UsageMeter, type UsageMeterStore } from './usage-metering.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const supabaseUsageMeterStore: UsageMeterStore = {
+  async usage(userId) {
+    const { data, error } = await supabase.rpc('plan_usage', { p_user_id: userId });
+
+    if (error) throw error;
+    return (data || []).map((row: any) => ({
+      plan: row.plan,
+      resource: row.resource,
+      used: Number(row.used),
+      limit: row.max_amount === null ? null : Number(row.max_amount),
+      periodStart: row.period_start,
+      periodEnd: row.period_end
+    }));
+  },
+
+  async findUserByEmail(email) {
+    // Profiles copy the email from auth.users, which stores it lower-cased;
+    // ilike would treat `_` and `%` in the address as wildcards
+    const normalized = email.trim().toLowerCase();
+    const { data, error } = await supabase
+      .from('user_profiles')
+      .select('id')
+      .eq('email', normalized)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.id ?? null;
+  },
+
+  async findUserByCustomer(customerId) {
+    const { data, error } = await supabase
+      .from('billing_accounts')
+      .select('user_id')
+      .eq('stripe_customer_id', customerId)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data?.user_id ?? null;
+  },
+
+  async saveBillingAccount(userId, update) {
+    const { error } = await supabase.from('billing_accounts').upsert({
+      user_id: userId,
+      ...(update.stripeCustomerId !== undefined && { stripe_customer_id: update.stripeCustomerId }),
+      ...(update.stripeSubscriptionId !== undefined && { stripe_subscription_id: update.stripeSubscriptionId }),
+      ...(update.periodStart !== undefined && { period_start: update.periodStart }),
+      ...(update.periodEnd !== undefined && { period_end: update.periodEnd }),
+      updated_at: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  },
+
+  async setPlan(userId, plan) {
+    const { error } = await supabase
+      .from('user_profiles')
+      .update({ subscription_tier: plan, updated_at: new Date().toISOString() })
+      .eq('id', userId);
+
+    if (error) throw error;
+  }
+};
+
+export const usageMeter = new UsageMeter(supabaseUsageMeterStore);
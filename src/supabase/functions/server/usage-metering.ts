@@ -0,0 +1,229 @@
+/**
+ * Usage Metering
+ * What each plan allows and how much of it a user has used in the current
+ * billing period. Postgres does the counting (`plan_usage` in migration 014)
+ * and rejects project, deployment and file inserts past a limit on its own;
+ * this module reports usage, gates AI gateway calls before they reach a
+ * provider and moves billing periods forward as Stripe invoices are paid.
+ *
+ * Storage is behind `UsageMeterStore` so the rules can be tested without Postgres.
+ */
+
+export type PlanId = 'free' | 'pro' | 'enterprise';
+
+export type MeteredResource = 'ai_calls' | 'projects' | 'deployments' | 'storage_bytes';
+
+export const METERED_RESOURCES: MeteredResource[] = ['ai_calls', 'projects', 'deployments', 'storage_bytes'];
+
+// Display names from SUBSCRIPTION_TIERS in components/monetization/SubscriptionSystem.tsx
+const PLAN_NAMES: Record<PlanId, string> = {
+  free: 'Starter',
+  pro: 'Professional',
+  enterprise: 'Enterprise'
+};
+
+const UPGRADE_PATH: Record<PlanId, PlanId | null> = {
+  free: 'pro',
+  pro: 'enterprise',
+  enterprise: null
+};
+
+// AI calls and deployments reset each period; projects and storage are standing totals
+const PERIODIC_RESOURCES: MeteredResource[] = ['ai_calls', 'deployments'];
+
+const RESOURCE_LABELS: Record<MeteredResource, string> = {
+  ai_calls: 'AI tool uses',
+  projects: 'projects',
+  deployments: 'deployments',
+  storage_bytes: 'storage'
+};
+
+export interface UsageRow {
+  plan: string;
+  resource: MeteredResource;
+  used: number;
+  /** null when the plan has no limit */
+  limit: number | null;
+  periodStart: string;
+  periodEnd: string;
+}
+
+export interface UsageLine {
+  used: number;
+  limit: number | null;
+  remaining: number | null;
+}
+
+export interface UsageReport {
+  plan: PlanId;
+  planName: string;
+  periodStart: string;
+  /** Periodic usage resets at this time */
+  periodEnd: string;
+  resources: Record<MeteredResource, UsageLine>;
+}
+
+/** Carried by the 402 errors `assertWithin` throws, and sent to the client as is */
+export interface PlanLimitDetails {
+  code: 'plan_limit_exceeded';
+  resource: MeteredResource;
+  plan: PlanId;
+  used: number;
+  limit: number;
+  resetsAt: string | null;
+  upgradeTo: PlanId | null;
+}
+
+export interface BillingAccountUpdate {
+  stripeCustomerId?: string;
+  stripeSubscriptionId?: string;
+  periodStart?: string;
+  periodEnd?: string;
+}
+
+export interface UsageMeterStore {
+  /** One row per metered resource, for the user's plan and current period */
+  usage(userId: string): Promise<UsageRow[]>;
+  findUserByEmail(email: string): Promise<string | null>;
+  findUserByCustomer(customerId: string): Promise<string | null>;
+  /** Create or update the user's billing account with the given fields */
+  saveBillingAccount(userId: string, update: BillingAccountUpdate): Promise<void>;
+  setPlan(userId: string, plan: PlanId): Promise<void>;
+}
+
+export function toPlanId(value: unknown): PlanId {
+  return value === 'pro' || value === 'enterprise' ? value : 'free';
+}
+
+function formatBytes(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${Number.isInteger(value) ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+function formatAmount(resource: MeteredResource, amount: number): string {
+  return resource === 'storage_bytes' ? formatBytes(amount) : `${amount.toLocaleString('en-US')} ${RESOURCE_LABELS[resource]}`;
+}
+
+export function buildUsageReport(rows: UsageRow[]): UsageReport {
+  if (rows.length === 0) {
+    throw new Error('No plan limits found; is migration 014 applied?');
+  }
+
+  const resources = {} as Record<MeteredResource, UsageLine>;
+  for (const resource of METERED_RESOURCES) {
+    const row = rows.find(candidate => candidate.resource === resource);
+    if (!row) {
+      throw new Error(`Plan ${rows[0].plan} has no limit for ${resource}`);
+    }
+    resources[resource] = {
+      used: row.used,
+      limit: row.limit,
+      remaining: row.limit === null ? null : Math.max(0, row.limit - row.used)
+    };
+  }
+
+  const plan = toPlanId(rows[0].plan);
+  return {
+    plan,
+    planName: PLAN_NAMES[plan],
+    periodStart: rows[0].periodStart,
+    periodEnd: rows[0].periodEnd,
+    resources
+  };
+}
+
+/**
+ * The error for a request that would take `resource` past the plan limit.
+ * Its message says what ran out and what to do about it.
+ */
+export function planLimitError(report: UsageReport, resource: MeteredResource): Error & { status: 402; details: PlanLimitDetails } {
+  const { used, limit } = report.resources[resource];
+  const periodic = PERIODIC_RESOURCES.includes(resource);
+  const upgradeTo = UPGRADE_PATH[report.plan];
+  const allowance = formatAmount(resource, limit ?? 0);
+
+  const message = [
+    periodic
+      ? `Your ${report.planName} plan includes ${allowance} per billing period and you have used ${used.toLocaleString('en-US')}.`
+      : `Your ${report.planName} plan allows ${allowance} and you are using ${resource === 'storage_bytes' ? formatBytes(used) : used}.`,
+    upgradeTo
+      ? `Upgrade to ${PLAN_NAMES[upgradeTo]} for more${periodic ? `, or wait for the reset on ${report.periodEnd.slice(0, 10)}` : ''}.`
+      : 'Contact sales to raise this limit.'
+  ].join(' ');
+
+  return Object.assign(new Error(message), {
+    status: 402 as const,
+    details: {
+      code: 'plan_limit_exceeded' as const,
+      resource,
+      plan: report.plan,
+      used,
+      limit: limit ?? 0,
+      resetsAt: periodic ? report.periodEnd : null,
+      upgradeTo
+    }
+  });
+}
+
+export class UsageMeter {
+  constructor(private store: UsageMeterStore) {}
+
+  async report(userId: string): Promise<UsageReport> {
+    return buildUsageReport(await this.store.usage(userId));
+  }
+
+  /**
+   * Resolve with the report if `amount` more of `resource` fits the plan,
+   * otherwise reject with a 402 from `planLimitError`
+   */
+  async assertWithin(userId: string, resource: MeteredResource, amount = 1): Promise<UsageReport> {
+    const report = await this.report(userId);
+    const { used, limit } = report.resources[resource];
+    if (limit !== null && used + amount > limit) {
+      throw planLimitError(report, resource);
+    }
+    return report;
+  }
+
+  /** Attach a Stripe customer to the account registered with the checkout email */
+  async linkCustomer(customerId: string, email: string): Promise<string | null> {
+    const userId = await this.store.findUserByEmail(email.trim().toLowerCase());
+    if (userId) {
+      await this.store.saveBillingAccount(userId, { stripeCustomerId: customerId });
+    }
+    return userId;
+  }
+
+  async changePlan(customerId: string, plan: PlanId, subscriptionId?: string): Promise<string | null> {
+    const userId = await this.store.findUserByCustomer(customerId);
+    if (userId) {
+      await this.store.setPlan(userId, plan);
+      if (subscriptionId) {
+        await this.store.saveBillingAccount(userId, { stripeSubscriptionId: subscriptionId });
+      }
+    }
+    return userId;
+  }
+
+  /**
+   * A paid invoice opens a new period; periodic usage counts from `start`.
+   * Unknown customers resolve to null so the webhook can acknowledge them.
+   */
+  async startBillingPeriod(customerId: string, start: string, end: string): Promise<string | null> {
+    if (!(Date.parse(end) > Date.parse(start))) {
+      throw Object.assign(new Error('Billing period must end after it starts'), { status: 400 });
+    }
+
+    const userId = await this.store.findUserByCustomer(customerId);
+    if (userId) {
+      await this.store.saveBillingAccount(userId, { periodStart: start, periodEnd: end });
+    }
+    return userId;
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * @fileoverview Plan usage routes for FlashFusion
+ * @chunk server
+ * @category billing
+ * @version 1.0.0
+ * @author FlashFusion Team
+ *
+ * Reports how much of their plan the caller has used this billing period.
+ * Limits are enforced where the usage happens: the AI gateway and the
+ * database triggers from migration 014.
+ */
+
+import { Hono } from 'npm:hono';
+import { authenticateUser } from './auth-user.ts';
+import { usageMeter } from './usage-metering-store.tsx';
+
+const usageApp = new Hono();
+
+usageApp.get('/make-server-88829a40/usage', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    return c.json({ usage: await usageMeter.report(user.id) });
+  } catch (error) {
+    console.error('Usage report error:', error);
+    return c.json({ error: 'Failed to load usage' }, 500);
+  }
+});
+
+export default usageApp;
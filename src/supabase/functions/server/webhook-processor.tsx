@@ -2,6 +2,9 @@ import { serve } from 'https://deno.land/std@0.168.0/http/server.ts';
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
 import { corsHeaders } from './cors.ts';
 import * as crypto from 'https://deno.land/std@0.168.0/crypto/mod.ts';
+import { rejectionStatus, releaseInboundWebhook, verifyInboundWebhook, type WebhookProvider } from './webhook-verification.tsx';
+import { isQueueWorkerRequest, webhookQueue } from './webhook-queue-store.tsx';
+import type { QueuedWebhookEvent, WebhookHandlers } from './webhook-queue.ts';
 
 interface WebhookEvent {
   id: string;
@@ -22,6 +25,16 @@ interface ProcessingResult {
   errors?: string[];
 }
 
+// Queue handler name for events received by this function
+const EVENT_PROCESSOR_HANDLER = 'event-processor';
+
+// Signature scheme per webhook source; internal events use a FlashFusion HMAC header
+const WEBHOOK_PROVIDERS: Record<string, WebhookProvider> = {
+  github: 'github',
+  gitlab: 'gitlab',
+  internal: 'hmac-sha256'
+};
+
 /**
  * Webhook Event Processor
  * 
@@ -30,39 +43,16 @@ interface ProcessingResult {
  */
 class WebhookProcessor {
   private supabase: any;
+  private queueHandlers: WebhookHandlers;
   
   constructor() {
     this.supabase = createClient(
       Deno.env.get('SUPABASE_URL') ?? '',
       Deno.env.get('SUPABASE_SERVICE_ROLE_KEY') ?? ''
     );
-  }
-
-  /**
-   * Verify webhook signature for security
-   */
-  private async verifySignature(payload: string, signature: string, secret: string): Promise<boolean> {
-    try {
-      const encoder = new TextEncoder();
-      const key = await crypto.subtle.importKey(
-        'raw',
-        encoder.encode(secret),
-        { name: 'HMAC', hash: 'SHA-256' },
-        false,
-        ['sign']
-      );
-      
-      const expectedSignature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
-      const expectedHex = Array.from(new Uint8Array(expectedSignature))
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-      
-      const providedSignature = signature.replace('sha256=', '');
-      return providedSignature === expectedHex;
-    } catch (error) {
-      console.error('Signature verification failed:', error);
-      return false;
-    }
+    this.queueHandlers = {
+      [EVENT_PROCESSOR_HANDLER]: event => this.processQueuedEvent(event)
+    };
   }
 
   /**
@@ -519,10 +509,54 @@ class WebhookProcessor {
     }
   }
 
+  /**
+   * Queue handler: run the processor for the event's source. A failed result
+   * throws so the queue schedules a retry.
+   */
+  private async processQueuedEvent(queued: QueuedWebhookEvent): Promise<string> {
+    const webhookEvent: WebhookEvent = {
+      id: queued.id,
+      type: queued.type,
+      source: queued.source as WebhookEvent['source'],
+      timestamp: queued.timestamp,
+      payload: queued.payload,
+      processed: false,
+      retryCount: queued.retryCount,
+      processingLog: queued.processingLog
+    };
+
+    let result: ProcessingResult;
+    
+    switch (webhookEvent.source) {
+      case 'github':
+        result = await this.processGitHubWebhook(webhookEvent);
+        break;
+      case 'gitlab':
+        result = await this.processGitLabWebhook(webhookEvent);
+        break;
+      case 'internal':
+        result = await this.processInternalWebhook(webhookEvent);
+        break;
+      default:
+        result = {
+          success: false,
+          message: `Unsupported webhook source: ${webhookEvent.source}`,
+          actions: []
+        };
+    }
+
+    if (!result.success) {
+      throw new Error([result.message, ...(result.errors || [])].join(': '));
+    }
+    return `${result.message} [${result.actions.join(', ')}]`;
+  }
+
   /**
    * Main webhook processing function
    */
   async processWebhook(request: Request): Promise<Response> {
+    let releaseDelivery: (() => Promise<void>) | undefined;
+
     try {
       const body = await request.text();
       const headers = Object.fromEntries(request.headers.entries());
@@ -531,71 +565,66 @@ class WebhookProcessor {
       const source = this.determineWebhookSource(headers);
       const eventType = this.extractEventType(headers, source);
       
-      // Parse payload
-      const payload = JSON.parse(body);
-      
-      // Verify signature if required
-      const signature = headers['x-hub-signature-256'] || headers['x-gitlab-token'];
-      if (signature) {
-        const secret = Deno.env.get(`${source.toUpperCase()}_WEBHOOK_SECRET`) || '';
-        const isValid = await this.verifySignature(body, signature, secret);
-        
-        if (!isValid) {
-          return new Response('Invalid signature', { 
-            status: 401,
-            headers: corsHeaders 
-          });
-        }
+      const provider = WEBHOOK_PROVIDERS[source];
+      if (!provider) {
+        return new Response(`Unsupported webhook source: ${source}`, {
+          status: 400,
+          headers: corsHeaders
+        });
       }
 
-      // Create webhook event record
-      const webhookEvent: WebhookEvent = {
-        id: crypto.randomUUID(),
-        type: eventType,
-        source: source as any,
-        timestamp: new Date().toISOString(),
-        payload: payload,
-        signature: signature,
-        processed: false,
-        retryCount: 0,
-        processingLog: []
-      };
+      // Every source must be signed; the secret comes from <SOURCE>_WEBHOOK_SECRET
+      const verification = await verifyInboundWebhook(
+        provider,
+        body,
+        headers,
+        Deno.env.get(`${source.toUpperCase()}_WEBHOOK_SECRET`),
+        'x-flashfusion-signature'
+      );
 
-      // Process webhook based on source
-      let result: ProcessingResult;
-      
-      switch (source) {
-        case 'github':
-          result = await this.processGitHubWebhook(webhookEvent);
-          break;
-        case 'gitlab':
-          result = await this.processGitLabWebhook(webhookEvent);
-          break;
-        case 'internal':
-          result = await this.processInternalWebhook(webhookEvent);
-          break;
-        default:
-          result = {
-            success: false,
-            message: `Unsupported webhook source: ${source}`,
-            actions: []
-          };
+      if (!verification.valid) {
+        if (verification.reason === 'replayed') {
+          return new Response(JSON.stringify({ duplicate: true }), {
+            status: rejectionStatus(verification),
+            headers: {
+              ...corsHeaders,
+              'Content-Type': 'application/json'
+            }
+          });
+        }
+        return new Response(verification.message, { 
+          status: rejectionStatus(verification),
+          headers: corsHeaders 
+        });
       }
+      // Until the event is queued, a failure lets the sender's retry through
+      releaseDelivery = () => releaseInboundWebhook(provider, verification.claims);
 
-      // Update webhook event with processing result
-      webhookEvent.processed = result.success;
-      webhookEvent.processingLog.push(result.message);
-      
-      if (result.errors) {
-        webhookEvent.processingLog.push(...result.errors);
-      }
+      // Parse payload
+      const payload = JSON.parse(body);
 
-      // Store webhook event
-      await this.storeWebhookEvent(webhookEvent);
+      const queued = await webhookQueue.enqueue({
+        direction: 'inbound',
+        handler: EVENT_PROCESSOR_HANDLER,
+        source,
+        type: eventType,
+        payload,
+        userIds: typeof payload?.userId === 'string' ? [payload.userId] : [],
+        deliveryId: verification.deliveryId
+      });
+      releaseDelivery = undefined;
 
-      // Return response
-      return new Response(JSON.stringify(result), {
-        status: result.success ? 200 : 500,
+      // First attempt runs inline; failures are retried by the queue worker
+      const event = await webhookQueue.process(queued, this.queueHandlers);
+      const success = event.status === 'succeeded';
+
+      return new Response(JSON.stringify({
+        success,
+        event_id: event.id,
+        status: event.status,
+        message: event.processingLog[event.processingLog.length - 1]
+      }), {
+        status: success ? 200 : 202,
         headers: {
           ...corsHeaders,
           'Content-Type': 'application/json'
@@ -604,6 +633,7 @@ class WebhookProcessor {
 
     } catch (error) {
       console.error('Webhook processing error:', error);
+      await releaseDelivery?.().catch(console.error);
       
       return new Response(JSON.stringify({
         success: false,
@@ -619,6 +649,26 @@ class WebhookProcessor {
     }
   }
 
+  /**
+   * Run due retries; called by the scheduler with WEBHOOK_QUEUE_SECRET
+   */
+  async processQueue(request: Request): Promise<Response> {
+    if (!isQueueWorkerRequest(request.headers.get('Authorization'))) {
+      return new Response('Unauthorized', { status: 401, headers: corsHeaders });
+    }
+
+    const processed = await webhookQueue.processDue(this.queueHandlers);
+    return new Response(JSON.stringify({
+      processed: processed.length,
+      statuses: processed.map(event => ({ id: event.id, status: event.status }))
+    }), {
+      headers: {
+        ...corsHeaders,
+        'Content-Type': 'application/json'
+      }
+    });
+  }
+
   private determineWebhookSource(headers: Record<string, string>): string {
     if (headers['x-github-event']) return 'github';
     if (headers['x-gitlab-event']) return 'gitlab';
@@ -648,29 +698,6 @@ class WebhookProcessor {
     };
   }
 
-  private async storeWebhookEvent(event: WebhookEvent): Promise<void> {
-    try {
-      const { error } = await this.supabase
-        .from('webhook_events')
-        .insert({
-          id: event.id,
-          type: event.type,
-          source: event.source,
-          timestamp: event.timestamp,
-          payload: event.payload,
-          processed: event.processed,
-          retry_count: event.retryCount,
-          processing_log: event.processingLog
-        });
-
-      if (error) {
-        console.error('Failed to store webhook event:', error);
-      }
-    } catch (error) {
-      console.error('Database error storing webhook event:', error);
-    }
-  }
-
   // Placeholder functions for complete implementation
   private async updatePullRequestInfo(pr: any, repository: any): Promise<void> { /* Implementation */ }
   private async triggerCodeReviewAnalysis(pr: any): Promise<void> { /* Implementation */ }
@@ -709,5 +736,8 @@ serve(async (req) => {
   }
 
   const processor = new WebhookProcessor();
+  if (new URL(req.url).pathname.endsWith('/process-queue')) {
+    return await processor.processQueue(req);
+  }
   return await processor.processWebhook(req);
 });
\ No newline at end of file
@@ -0,0 +1,359 @@
+// Postgres persistence for the webhook queue and user-registered outbound endpoints
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  WebhookQueue,
+  deliverOutboundWebhook,
+  isPrivateAddress,
+  type QueuedWebhookEvent,
+  type WebhookDirection,
+  type WebhookEventStatus,
+  type WebhookHandler,
+  type WebhookQueueStore
+} from './webhook-queue.ts';
+import { timingSafeEqual } from '../../../utils/webhook-signature.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+export const OUTBOUND_HANDLER = 'outbound';
+
+export interface WebhookEndpointRecord {
+  id: string;
+  userId: string;
+  url: string;
+  events: string[];
+  secret: string;
+  active: boolean;
+  description: string;
+  deliveryCount: number;
+  failureCount: number;
+  lastTriggered?: string;
+}
+
+const COLUMNS: Record<keyof QueuedWebhookEvent, string> = {
+  id: 'id',
+  direction: 'direction',
+  handler: 'handler',
+  source: 'source',
+  type: 'type',
+  payload: 'payload',
+  userIds: 'user_ids',
+  endpointId: 'endpoint_id',
+  deliveryId: 'delivery_id',
+  status: 'status',
+  retryCount: 'retry_count',
+  maxAttempts: 'max_attempts',
+  nextAttemptAt: 'next_attempt_at',
+  lockedUntil: 'locked_until',
+  lastError: 'last_error',
+  processingLog: 'processing_log',
+  timestamp: 'timestamp',
+  completedAt: 'completed_at'
+};
+
+function toRow(event: Partial<QueuedWebhookEvent>): Record<string, unknown> {
+  const row: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(event)) {
+    row[COLUMNS[key as keyof QueuedWebhookEvent]] = value ?? null;
+  }
+  // Kept for readers of the original webhook_events columns
+  if (event.status) row.processed = event.status === 'succeeded';
+  return row;
+}
+
+interface WebhookEventRow {
+  id: string;
+  direction: WebhookDirection;
+  handler: string;
+  source: string;
+  type: string;
+  payload: unknown;
+  user_ids: string[] | null;
+  endpoint_id: string | null;
+  delivery_id: string | null;
+  status: WebhookEventStatus;
+  retry_count: number;
+  max_attempts: number;
+  next_attempt_at: string;
+  locked_until: string | null;
+  last_error: string | null;
+  processing_log: string[] | null;
+  timestamp: string;
+  completed_at: string | null;
+}
+
+function fromRow(row: WebhookEventRow): QueuedWebhookEvent {
+  return {
+    id: row.id,
+    direction: row.direction,
+    handler: row.handler,
+    source: row.source,
+    type: row.type,
+    payload: row.payload,
+    userIds: row.user_ids || [],
+    endpointId: row.endpoint_id ?? undefined,
+    deliveryId: row.delivery_id ?? undefined,
+    status: row.status,
+    retryCount: row.retry_count,
+    maxAttempts: row.max_attempts,
+    nextAttemptAt: row.next_attempt_at,
+    lockedUntil: row.locked_until ?? undefined,
+    lastError: row.last_error ?? undefined,
+    processingLog: row.processing_log || [],
+    timestamp: row.timestamp,
+    completedAt: row.completed_at ?? undefined
+  };
+}
+
+const supabaseWebhookQueueStore: WebhookQueueStore = {
+  async insert(event) {
+    const { error } = await supabase.from('webhook_events').insert(toRow(event));
+    if (error) throw error;
+  },
+
+  async get(id) {
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? fromRow(data) : null;
+  },
+
+  async listDue(handlers, now, limit) {
+    const { data, error } = await supabase
+      .from('webhook_events')
+      .select('*')
+      .in('handler', handlers)
+      .or(`and(status.in.(pending,failed),next_attempt_at.lte."${now}"),and(status.eq.processing,locked_until.lt."${now}")`)
+      .order('next_attempt_at', { ascending: true })
+      .limit(limit);
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  },
+
+  async claim(event, lockedUntil) {
+    let query = supabase
+      .from('webhook_events')
+      .update({ status: 'processing', locked_until: lockedUntil })
+      .eq('id', event.id)
+      .eq('status', event.status);
+
+    query = event.lockedUntil ? query.eq('locked_until', event.lockedUntil) : query.is('locked_until', null);
+
+    const { data, error } = await query.select('id');
+    if (error) throw error;
+    return (data || []).length === 1;
+  },
+
+  async update(id, changes) {
+    const { error } = await supabase
+      .from('webhook_events')
+      .update({ ...toRow(changes), updated_at: new Date().toISOString() })
+      .eq('id', id);
+
+    if (error) throw error;
+  },
+
+  async list({ userId, statuses, direction, limit, offset }) {
+    let query = supabase
+      .from('webhook_events')
+      .select('*', { count: 'exact' })
+      .contains('user_ids', [userId]);
+
+    if (statuses?.length) query = query.in('status', statuses);
+    if (direction) query = query.eq('direction', direction);
+
+    const { data, error, count } = await query
+      .order('timestamp', { ascending: false })
+      .range(offset, offset + limit - 1);
+
+    if (error) throw error;
+    return { events: (data || []).map(fromRow), total: count ?? 0 };
+  }
+};
+
+export const webhookQueue = new WebhookQueue(supabaseWebhookQueueStore);
+
+interface WebhookEndpointRow {
+  id: string;
+  user_id: string;
+  url: string;
+  events: string[] | null;
+  secret: string;
+  active: boolean;
+  description: string | null;
+  delivery_count: number | null;
+  failure_count: number | null;
+  last_triggered: string | null;
+}
+
+function endpointFromRow(row: WebhookEndpointRow): WebhookEndpointRecord {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    url: row.url,
+    events: row.events || [],
+    secret: row.secret,
+    active: row.active,
+    description: row.description || '',
+    deliveryCount: row.delivery_count || 0,
+    failureCount: row.failure_count || 0,
+    lastTriggered: row.last_triggered ?? undefined
+  };
+}
+
+export async function getWebhookEndpoint(id: string): Promise<WebhookEndpointRecord | null> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .eq('id', id)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? endpointFromRow(data) : null;
+}
+
+export async function listWebhookEndpoints(userIds: string[]): Promise<WebhookEndpointRecord[]> {
+  if (userIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .select('*')
+    .in('user_id', userIds)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return (data || []).map(endpointFromRow);
+}
+
+export async function saveWebhookEndpoint(
+  endpoint: Omit<WebhookEndpointRecord, 'id' | 'deliveryCount' | 'failureCount' | 'lastTriggered'>
+): Promise<WebhookEndpointRecord> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .insert({
+      user_id: endpoint.userId,
+      url: endpoint.url,
+      events: endpoint.events,
+      secret: endpoint.secret,
+      active: endpoint.active,
+      description: endpoint.description
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return endpointFromRow(data);
+}
+
+export async function updateWebhookEndpoint(
+  id: string,
+  userId: string,
+  changes: Partial<Pick<WebhookEndpointRecord, 'active' | 'events' | 'description' | 'url'>>
+): Promise<WebhookEndpointRecord | null> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('*')
+    .maybeSingle();
+
+  if (error) throw error;
+  return data ? endpointFromRow(data) : null;
+}
+
+export async function deleteWebhookEndpoint(id: string, userId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('webhook_endpoints')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id');
+
+  if (error) throw error;
+  return (data || []).length > 0;
+}
+
+async function recordDeliveryAttempt(endpoint: WebhookEndpointRecord, succeeded: boolean): Promise<void> {
+  const { error } = await supabase
+    .from('webhook_endpoints')
+    .update({
+      delivery_count: endpoint.deliveryCount + 1,
+      failure_count: endpoint.failureCount + (succeeded ? 0 : 1),
+      last_triggered: new Date().toISOString()
+    })
+    .eq('id', endpoint.id);
+
+  if (error) console.error('Failed to record webhook delivery attempt:', error);
+}
+
+/**
+ * Refuses a host name that resolves to a private address, which the URL
+ * check alone can't see. Addresses that fail to resolve are left to fetch.
+ */
+async function assertPublicHost(url: string): Promise<void> {
+  const { hostname } = new URL(url);
+  const lookups = await Promise.all(
+    (['A', 'AAAA'] as const).map(type => Deno.resolveDns(hostname, type).catch(() => [] as string[]))
+  );
+  if (lookups.flat().some(isPrivateAddress)) {
+    throw new Error('Endpoint URL must point to a public host');
+  }
+}
+
+/**
+ * Handler for outbound events. A deleted or disabled endpoint fails the
+ * attempt, so the event ends up in the dead letter rather than vanishing.
+ */
+export const deliverToEndpoint: WebhookHandler = async event => {
+  const endpoint = event.endpointId ? await getWebhookEndpoint(event.endpointId) : null;
+  if (!endpoint) throw new Error('Webhook endpoint no longer exists');
+  if (!endpoint.active) throw new Error('Webhook endpoint is disabled');
+
+  try {
+    await assertPublicHost(endpoint.url);
+    const message = await deliverOutboundWebhook(event, endpoint);
+    await recordDeliveryAttempt(endpoint, true);
+    return message;
+  } catch (error) {
+    await recordDeliveryAttempt(endpoint, false);
+    throw error;
+  }
+};
+
+/**
+ * Queue `type` for every active endpoint of `userIds` subscribed to it and
+ * make the first delivery attempt right away
+ */
+export async function enqueueOutboundEvent(userIds: string[], type: string, payload: unknown): Promise<QueuedWebhookEvent[]> {
+  const endpoints = (await listWebhookEndpoints(userIds))
+    .filter(endpoint => endpoint.active && endpoint.events.includes(type));
+
+  const events = await Promise.all(endpoints.map(endpoint => webhookQueue.enqueue({
+    direction: 'outbound',
+    handler: OUTBOUND_HANDLER,
+    source: 'flashfusion',
+    type,
+    payload,
+    userIds: [endpoint.userId],
+    endpointId: endpoint.id
+  })));
+
+  return Promise.all(events.map(event => webhookQueue.process(event, { [OUTBOUND_HANDLER]: deliverToEndpoint })));
+}
+
+/**
+ * Queue workers are triggered by a scheduler sending WEBHOOK_QUEUE_SECRET as
+ * a bearer token; without the secret the worker endpoints stay closed
+ */
+export function isQueueWorkerRequest(authorization: string | undefined | null): boolean {
+  const secret = Deno.env.get('WEBHOOK_QUEUE_SECRET');
+  return Boolean(secret && authorization && timingSafeEqual(authorization, `Bearer ${secret}`));
+}
@@ -0,0 +1,366 @@
+/**
+ * Durable Webhook Queue
+ * Every inbound webhook and outbound delivery is stored as an event before it
+ * is processed. Failed attempts are retried with exponential backoff and,
+ * once `maxAttempts` is reached, parked in the dead-letter state until someone
+ * replays them.
+ *
+ * Storage is behind `WebhookQueueStore` so the retry rules can be tested
+ * without Postgres.
+ */
+import { computeHmacHex } from '../../../utils/webhook-signature.ts';
+
+export type WebhookEventStatus = 'pending' | 'processing' | 'succeeded' | 'failed' | 'dead_letter';
+
+export type WebhookDirection = 'inbound' | 'outbound';
+
+export const WEBHOOK_EVENT_STATUSES: WebhookEventStatus[] = ['pending', 'processing', 'succeeded', 'failed', 'dead_letter'];
+
+export interface QueuedWebhookEvent {
+  id: string;
+  direction: WebhookDirection;
+  /** Name of the handler that processes this event, see `WebhookHandlers` */
+  handler: string;
+  source: string;
+  type: string;
+  payload: unknown;
+  /** Users who may see and replay the event */
+  userIds: string[];
+  /** Target of an outbound delivery */
+  endpointId?: string;
+  deliveryId?: string;
+  status: WebhookEventStatus;
+  /** Attempts made since the event was queued or last replayed */
+  retryCount: number;
+  maxAttempts: number;
+  nextAttemptAt: string;
+  /** Lease of the worker processing the event; expired leases are reclaimed */
+  lockedUntil?: string;
+  lastError?: string;
+  processingLog: string[];
+  timestamp: string;
+  completedAt?: string;
+}
+
+export type NewWebhookEvent = Pick<QueuedWebhookEvent, 'direction' | 'handler' | 'source' | 'type' | 'payload'> &
+  Partial<Pick<QueuedWebhookEvent, 'userIds' | 'endpointId' | 'deliveryId' | 'maxAttempts'>>;
+
+export interface WebhookEventFilter {
+  userId: string;
+  statuses?: WebhookEventStatus[];
+  direction?: WebhookDirection;
+  limit: number;
+  offset: number;
+}
+
+export interface WebhookQueueStore {
+  insert(event: QueuedWebhookEvent): Promise<void>;
+  get(id: string): Promise<QueuedWebhookEvent | null>;
+  /** Events of the given handlers that are due now, including ones whose lease expired */
+  listDue(handlers: string[], now: string, limit: number): Promise<QueuedWebhookEvent[]>;
+  /**
+   * Take the lease on an event. Must be atomic: the update only applies while
+   * the stored status and lease still equal the ones in `event`.
+   */
+  claim(event: QueuedWebhookEvent, lockedUntil: string): Promise<boolean>;
+  update(id: string, changes: Partial<QueuedWebhookEvent>): Promise<void>;
+  list(filter: WebhookEventFilter): Promise<{ events: QueuedWebhookEvent[]; total: number }>;
+}
+
+/**
+ * Processes one event. Resolves with a log line on success; throwing marks the
+ * attempt as failed.
+ */
+export type WebhookHandler = (event: QueuedWebhookEvent) => Promise<string | void>;
+
+export type WebhookHandlers = Record<string, WebhookHandler>;
+
+export interface WebhookQueueOptions {
+  maxAttempts?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  leaseMs?: number;
+  now?: () => number;
+  random?: () => number;
+}
+
+const DEFAULT_MAX_ATTEMPTS = 8;
+const DEFAULT_BASE_DELAY_MS = 30_000;
+const DEFAULT_MAX_DELAY_MS = 6 * 60 * 60 * 1000;
+const DEFAULT_LEASE_MS = 5 * 60 * 1000;
+
+/**
+ * Delay before the retry that follows `attempt` failed attempts: doubles from
+ * `baseDelayMs` up to `maxDelayMs`, with up to half of it removed as jitter so
+ * a burst of failures does not retry in lockstep.
+ */
+export function computeBackoff(
+  attempt: number,
+  baseDelayMs = DEFAULT_BASE_DELAY_MS,
+  maxDelayMs = DEFAULT_MAX_DELAY_MS,
+  random: () => number = Math.random
+): number {
+  const exponential = Math.min(maxDelayMs, baseDelayMs * 2 ** Math.max(0, attempt - 1));
+  return Math.round(exponential / 2 + (exponential / 2) * random());
+}
+
+function statusError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+export class WebhookQueue {
+  private maxAttempts: number;
+  private baseDelayMs: number;
+  private maxDelayMs: number;
+  private leaseMs: number;
+  private now: () => number;
+  private random: () => number;
+
+  constructor(private store: WebhookQueueStore, options: WebhookQueueOptions = {}) {
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.baseDelayMs = options.baseDelayMs ?? DEFAULT_BASE_DELAY_MS;
+    this.maxDelayMs = options.maxDelayMs ?? DEFAULT_MAX_DELAY_MS;
+    this.leaseMs = options.leaseMs ?? DEFAULT_LEASE_MS;
+    this.now = options.now ?? Date.now;
+    this.random = options.random ?? Math.random;
+  }
+
+  private isoNow(offsetMs = 0): string {
+    return new Date(this.now() + offsetMs).toISOString();
+  }
+
+  private logLine(message: string): string {
+    return `${this.isoNow()} ${message}`;
+  }
+
+  /**
+   * Persist a new event; it is due immediately
+   */
+  async enqueue(input: NewWebhookEvent): Promise<QueuedWebhookEvent> {
+    const event: QueuedWebhookEvent = {
+      id: crypto.randomUUID(),
+      userIds: [],
+      maxAttempts: this.maxAttempts,
+      ...input,
+      status: 'pending',
+      retryCount: 0,
+      nextAttemptAt: this.isoNow(),
+      processingLog: [],
+      timestamp: this.isoNow()
+    };
+
+    await this.store.insert(event);
+    return event;
+  }
+
+  /**
+   * Run one attempt of an event. Returns the event unchanged when another
+   * worker holds it or it is not due yet.
+   */
+  async process(event: QueuedWebhookEvent, handlers: WebhookHandlers): Promise<QueuedWebhookEvent> {
+    const handler = handlers[event.handler];
+    if (!handler || !this.isDue(event)) return event;
+
+    const lockedUntil = this.isoNow(this.leaseMs);
+    if (!(await this.store.claim(event, lockedUntil))) return event;
+
+    const attempt = event.retryCount + 1;
+    let changes: Partial<QueuedWebhookEvent>;
+
+    try {
+      const message = await handler({ ...event, status: 'processing', lockedUntil });
+      changes = {
+        status: 'succeeded',
+        retryCount: attempt,
+        lockedUntil: undefined,
+        completedAt: this.isoNow(),
+        processingLog: [...event.processingLog, this.logLine(`attempt ${attempt} succeeded${message ? `: ${message}` : ''}`)]
+      };
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+
+      if (attempt >= event.maxAttempts) {
+        changes = {
+          status: 'dead_letter',
+          retryCount: attempt,
+          lockedUntil: undefined,
+          lastError: reason,
+          completedAt: this.isoNow(),
+          processingLog: [...event.processingLog, this.logLine(`attempt ${attempt} failed: ${reason}; moved to dead letter`)]
+        };
+      } else {
+        const delay = computeBackoff(attempt, this.baseDelayMs, this.maxDelayMs, this.random);
+        changes = {
+          status: 'failed',
+          retryCount: attempt,
+          lockedUntil: undefined,
+          lastError: reason,
+          nextAttemptAt: this.isoNow(delay),
+          processingLog: [...event.processingLog, this.logLine(`attempt ${attempt} failed: ${reason}; retrying in ${Math.round(delay / 1000)}s`)]
+        };
+      }
+    }
+
+    await this.store.update(event.id, changes);
+    return { ...event, ...changes };
+  }
+
+  /**
+   * Claim and run every due event of the given handlers, one at a time
+   */
+  async processDue(handlers: WebhookHandlers, limit = 25): Promise<QueuedWebhookEvent[]> {
+    const due = await this.store.listDue(Object.keys(handlers), this.isoNow(), limit);
+    const results: QueuedWebhookEvent[] = [];
+
+    for (const event of due) {
+      results.push(await this.process(event, handlers));
+    }
+    return results;
+  }
+
+  /**
+   * Queue an event again with a fresh set of attempts, keeping its log
+   */
+  async replay(id: string, userId?: string): Promise<QueuedWebhookEvent> {
+    const event = await this.store.get(id);
+    if (!event || (userId && !event.userIds.includes(userId))) {
+      throw statusError('Webhook event not found', 404);
+    }
+    if (event.status === 'processing' && !this.leaseExpired(event)) {
+      throw statusError('Webhook event is being processed', 409);
+    }
+
+    const changes: Partial<QueuedWebhookEvent> = {
+      status: 'pending',
+      retryCount: 0,
+      lockedUntil: undefined,
+      nextAttemptAt: this.isoNow(),
+      completedAt: undefined,
+      processingLog: [...event.processingLog, this.logLine('replayed manually')]
+    };
+
+    await this.store.update(id, changes);
+    return { ...event, ...changes };
+  }
+
+  list(filter: WebhookEventFilter) {
+    return this.store.list(filter);
+  }
+
+  private leaseExpired(event: QueuedWebhookEvent): boolean {
+    return !event.lockedUntil || Date.parse(event.lockedUntil) <= this.now();
+  }
+
+  private isDue(event: QueuedWebhookEvent): boolean {
+    if (event.status === 'processing') return this.leaseExpired(event);
+    return (event.status === 'pending' || event.status === 'failed') && Date.parse(event.nextAttemptAt) <= this.now();
+  }
+}
+
+export interface OutboundWebhookEndpoint {
+  id: string;
+  url: string;
+  secret: string;
+}
+
+function parseIPv4(address: string): number[] | null {
+  const parts = address.split('.');
+  if (parts.length !== 4 || parts.some(part => !/^\d{1,3}$/.test(part) || Number(part) > 255)) {
+    return null;
+  }
+  return parts.map(Number);
+}
+
+/**
+ * Whether an IP address is one outbound webhooks must not reach: loopback,
+ * private, link-local (including the 169.254.169.254 metadata service),
+ * carrier-grade NAT, unspecified or multicast
+ */
+export function isPrivateAddress(address: string): boolean {
+  const host = address.replace(/^\[|\]$/g, '').toLowerCase();
+  const ipv4 = parseIPv4(host);
+  if (ipv4) {
+    const [a, b] = ipv4;
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168)
+      || (a === 198 && (b === 18 || b === 19));
+  }
+  if (!host.includes(':')) return false;
+  // IPv4-mapped addresses are refused outright rather than decoded
+  return host === '::' || host === '::1' || host.startsWith('::ffff:') || /^f[cd]/.test(host) || /^fe[89ab]/.test(host);
+}
+
+/**
+ * Why `url` can't be an outbound endpoint, or null when it can. Only http(s)
+ * URLs on public hosts are allowed so deliveries can't be aimed at the
+ * server's own network. `new URL` has already normalised numeric hosts like
+ * `0x7f.1`, so they are caught as the addresses they stand for.
+ */
+export function webhookUrlError(url: string): string | null {
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return 'Endpoint URL is not valid';
+  }
+  if (parsed.protocol !== 'https:' && parsed.protocol !== 'http:') {
+    return 'Endpoint URL must be http(s)';
+  }
+
+  const host = parsed.hostname.toLowerCase().replace(/\.$/, '');
+  const isInternalName = host === 'localhost'
+    || /\.(localhost|local|internal)$/.test(host)
+    || (!host.includes('.') && !host.includes(':'));
+  if (isInternalName || isPrivateAddress(host)) {
+    return 'Endpoint URL must point to a public host';
+  }
+  return null;
+}
+
+/**
+ * POST an outbound event to a registered endpoint. The body is signed with
+ * the endpoint secret in `X-FlashFusion-Signature`, and `X-Delivery-Id` stays
+ * the same across retries so receivers can drop duplicates. Redirects are
+ * not followed, so a public URL can't bounce the request to a private one.
+ */
+export async function deliverOutboundWebhook(
+  event: QueuedWebhookEvent,
+  endpoint: OutboundWebhookEndpoint,
+  fetchImpl: typeof fetch = fetch,
+  timeoutMs = 10_000
+): Promise<string> {
+  const urlError = webhookUrlError(endpoint.url);
+  if (urlError) {
+    throw new Error(urlError);
+  }
+
+  const body = JSON.stringify({
+    id: event.id,
+    type: event.type,
+    created_at: event.timestamp,
+    data: event.payload
+  });
+
+  const response = await fetchImpl(endpoint.url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      'User-Agent': 'FlashFusion-Webhooks/1.0',
+      'X-FlashFusion-Event': event.type,
+      'X-Delivery-Id': event.id,
+      'X-FlashFusion-Signature': `sha256=${await computeHmacHex('SHA-256', endpoint.secret, body)}`
+    },
+    body,
+    redirect: 'manual',
+    signal: AbortSignal.timeout(timeoutMs)
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new Error(`Endpoint responded ${response.status}${text ? `: ${text.slice(0, 200)}` : ''}`);
+  }
+  return `delivered to ${endpoint.url} (${response.status})`;
+}
@@ -0,0 +1,86 @@
+// Shared inbound webhook verification for FlashFusion edge functions
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  verifyWebhook,
+  type WebhookDeliveryStore,
+  type WebhookHeaders,
+  type WebhookProvider,
+  type WebhookRejection,
+  type WebhookVerificationResult
+} from '../../../utils/webhook-signature.ts';
+
+export type { WebhookProvider, WebhookVerificationResult };
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// Postgres unique_violation: the delivery id was already recorded
+const UNIQUE_VIOLATION = '23505';
+
+/**
+ * Delivery ids live in webhook_deliveries; the primary key makes claiming an
+ * id atomic across edge isolates
+ */
+export const webhookDeliveries: WebhookDeliveryStore = {
+  async markDelivered(provider, deliveryId) {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .insert({ provider, delivery_id: deliveryId });
+
+    if (error?.code === UNIQUE_VIOLATION) return false;
+    if (error) throw error;
+    return true;
+  },
+
+  async release(provider, deliveryId) {
+    const { error } = await supabase
+      .from('webhook_deliveries')
+      .delete()
+      .eq('provider', provider)
+      .eq('delivery_id', deliveryId);
+
+    if (error) throw error;
+  }
+};
+
+/**
+ * Forget every key an accepted delivery claimed, so the sender's retry of it
+ * is let through after processing failed
+ */
+export async function releaseInboundWebhook(provider: WebhookProvider, claims: string[]): Promise<void> {
+  await Promise.all(claims.map(key => webhookDeliveries.release(provider, key)));
+}
+
+/**
+ * Verify a webhook request and claim its delivery id
+ */
+export function verifyInboundWebhook(
+  provider: WebhookProvider,
+  payload: string,
+  headers: WebhookHeaders,
+  secret: string | undefined,
+  signatureHeader?: string
+): Promise<WebhookVerificationResult> {
+  return verifyWebhook({
+    provider,
+    payload,
+    headers,
+    secret,
+    signatureHeader,
+    deliveries: webhookDeliveries
+  });
+}
+
+/**
+ * HTTP status for a rejected webhook. A resend of a delivery that was already
+ * processed gets a 2xx, answered with `{ duplicate: true }`, so the sender
+ * stops retrying; bad signatures and stale timestamps are 401, and a missing
+ * secret is a server misconfiguration.
+ */
+export function rejectionStatus(result: { reason: WebhookRejection }): 200 | 401 | 500 {
+  if (result.reason === 'replayed') return 200;
+  if (result.reason === 'missing_secret') return 500;
+  return 401;
+}
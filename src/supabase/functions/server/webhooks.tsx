@@ -1,8 +1,22 @@
 import { Hono } from 'npm:hono';
 import { cors } from 'npm:hono/cors';
 import { createClient } from 'npm:@supabase/supabase-js@2';
-import { verify } from 'npm:@octokit/webhooks-methods';
 import * as kv from './kv_store.tsx';
+import { authenticateUser } from './auth-user.ts';
+import { rejectionStatus, releaseInboundWebhook, verifyInboundWebhook } from './webhook-verification.tsx';
+import { WEBHOOK_EVENT_STATUSES, webhookUrlError, type QueuedWebhookEvent, type WebhookEventStatus, type WebhookHandlers } from './webhook-queue.ts';
+import {
+  OUTBOUND_HANDLER,
+  deleteWebhookEndpoint,
+  deliverToEndpoint,
+  enqueueOutboundEvent,
+  isQueueWorkerRequest,
+  listWebhookEndpoints,
+  saveWebhookEndpoint,
+  updateWebhookEndpoint,
+  webhookQueue,
+  type WebhookEndpointRecord
+} from './webhook-queue-store.tsx';
 
 /**
  * Repository Webhooks Handler for FlashFusion
@@ -15,7 +29,9 @@ import * as kv from './kv_store.tsx';
  * - Issue events
  * - Release events
  * 
- * Provides real-time notifications to connected FlashFusion users
+ * Provides real-time notifications to connected FlashFusion users.
+ * Every accepted event goes through the durable webhook queue, which also
+ * delivers it to the outbound endpoints users registered for its type.
  */
 
 const app = new Hono();
@@ -24,7 +40,7 @@ const app = new Hono();
 app.use('*', cors({
   origin: '*',
   allowHeaders: ['Content-Type', 'Authorization', 'X-GitHub-Event', 'X-GitHub-Delivery', 'X-Hub-Signature-256'],
-  allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS']
+  allowMethods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS']
 }));
 
 // Supabase client for database operations
@@ -34,7 +50,10 @@ const supabase = createClient(
 );
 
 // GitHub webhook secret for verification
-const WEBHOOK_SECRET = Deno.env.get('GITHUB_WEBHOOK_SECRET') || 'fallback-secret-for-dev';
+const WEBHOOK_SECRET = Deno.env.get('GITHUB_WEBHOOK_SECRET');
+
+// Queue handler for GitHub events that fan out to connected repositories
+const REPOSITORY_UPDATES_HANDLER = 'repository-updates';
 
 interface WebhookEvent {
   id: string;
@@ -120,22 +139,6 @@ interface RealtimeUpdate {
   users: string[];
 }
 
-/**
- * Verify GitHub webhook signature
- */
-async function verifyWebhookSignature(
-  payload: string,
-  signature: string,
-  secret: string
-): Promise<boolean> {
-  try {
-    return await verify(secret, payload, signature);
-  } catch (error) {
-    console.error('Webhook signature verification failed:', error);
-    return false;
-  }
-}
-
 /**
  * Get connected repositories for a GitHub repository
  */
@@ -143,9 +146,9 @@ async function getConnectedRepositories(githubRepoUrl: string): Promise<Connecte
   try {
     const connectedRepos = await kv.getByPrefix('connected_repository_');
     return connectedRepos
-      .map(item => {
+      .map(value => {
         try {
-          const repo = JSON.parse(item.value) as ConnectedRepository;
+          const repo = JSON.parse(value) as ConnectedRepository;
           return repo.url === githubRepoUrl || repo.url.includes(githubRepoUrl.split('/').slice(-2).join('/')) ? repo : null;
         } catch {
           return null;
@@ -159,33 +162,23 @@ async function getConnectedRepositories(githubRepoUrl: string): Promise<Connecte
 }
 
 /**
- * Send real-time update to users
+ * Send real-time update to users. Throws when the broadcast fails so the
+ * queue retries the event.
  */
 async function sendRealtimeUpdate(update: RealtimeUpdate) {
-  try {
-    // Store the update in the database for persistence
-    await kv.set(
-      `webhook_event_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      JSON.stringify(update)
-    );
-
-    // Send real-time notification via Supabase realtime
-    const { error } = await supabase
-      .channel('repository-updates')
-      .send({
-        type: 'broadcast',
-        event: 'repository_update',
-        payload: update
-      });
-
-    if (error) {
-      console.error('Error sending realtime update:', error);
-    }
+  const { error } = await supabase
+    .channel('repository-updates')
+    .send({
+      type: 'broadcast',
+      event: 'repository_update',
+      payload: update
+    });
 
-    console.log(`Sent realtime update for ${update.repository_name} to ${update.users.length} users`);
-  } catch (error) {
-    console.error('Error in sendRealtimeUpdate:', error);
+  if (error) {
+    throw new Error(`Realtime broadcast failed: ${error.message || error}`);
   }
+
+  console.log(`Sent realtime update for ${update.repository_name} to ${update.users.length} users`);
 }
 
 /**
@@ -315,14 +308,65 @@ async function processRepositoryEvent(event: WebhookEvent): Promise<RealtimeUpda
   };
 }
 
+/**
+ * Build the realtime update for a GitHub event, or null for unhandled types
+ */
+async function buildRealtimeUpdate(eventType: string, event: WebhookEvent): Promise<RealtimeUpdate | null> {
+  switch (eventType) {
+    case 'push':
+      return processPushEvent(event);
+    case 'pull_request':
+      return processPullRequestEvent(event);
+    case 'issues':
+      return processIssueEvent(event);
+    case 'release':
+      return processReleaseEvent(event);
+    case 'repository':
+      return processRepositoryEvent(event);
+    default:
+      return null;
+  }
+}
+
+/**
+ * Queue handler: notify connected users, touch the repositories and forward
+ * the update to their outbound endpoints
+ */
+async function processRepositoryUpdate(queued: QueuedWebhookEvent): Promise<string> {
+  const webhookEvent = queued.payload as WebhookEvent;
+  const update = await buildRealtimeUpdate(queued.type, webhookEvent);
+  if (!update) return `event type ${queued.type} not handled`;
+
+  update.users = queued.userIds;
+  await sendRealtimeUpdate(update);
+
+  // Update repository activity timestamp
+  const connectedRepos = await getConnectedRepositories(webhookEvent.repository.html_url);
+  for (const repo of connectedRepos) {
+    repo.last_activity = new Date().toISOString();
+    await kv.set(`connected_repository_${repo.id}`, JSON.stringify(repo));
+  }
+
+  const deliveries = await enqueueOutboundEvent(update.users, queued.type, update);
+  return `notified ${update.users.length} users, queued ${deliveries.length} outbound deliveries`;
+}
+
+const queueHandlers: WebhookHandlers = {
+  [REPOSITORY_UPDATES_HANDLER]: processRepositoryUpdate,
+  [OUTBOUND_HANDLER]: deliverToEndpoint
+};
+
+const HANDLED_EVENT_TYPES = ['push', 'pull_request', 'issues', 'release', 'repository'];
+
 /**
  * Main webhook endpoint
  */
 app.post('/make-server-88829a40/webhooks/github', async (c) => {
+  let claims: string[] = [];
+
   try {
     const signature = c.req.header('X-Hub-Signature-256');
     const event = c.req.header('X-GitHub-Event');
-    const delivery = c.req.header('X-GitHub-Delivery');
     
     if (!signature || !event) {
       return c.json({ error: 'Missing required headers' }, 400);
@@ -330,13 +374,16 @@ app.post('/make-server-88829a40/webhooks/github', async (c) => {
 
     const payload = await c.req.text();
     
-    // Verify webhook signature in production
-    if (Deno.env.get('ENVIRONMENT') === 'production') {
-      const isValid = await verifyWebhookSignature(payload, signature, WEBHOOK_SECRET);
-      if (!isValid) {
-        return c.json({ error: 'Invalid signature' }, 401);
+    // Signature is checked in every environment; the delivery id can only be used once
+    const verification = await verifyInboundWebhook('github', payload, c.req.raw.headers, WEBHOOK_SECRET);
+    if (!verification.valid) {
+      if (verification.reason === 'replayed') {
+        return c.json({ duplicate: true }, rejectionStatus(verification));
       }
+      console.warn(`Rejected GitHub webhook: ${verification.message}`);
+      return c.json({ error: verification.message }, rejectionStatus(verification));
     }
+    claims = verification.claims;
 
     const webhookEvent: WebhookEvent = JSON.parse(payload);
     
@@ -350,55 +397,42 @@ app.post('/make-server-88829a40/webhooks/github', async (c) => {
       return c.json({ message: 'No connected repositories found' });
     }
 
-    // Process different event types
-    let update: RealtimeUpdate;
-    
-    switch (event) {
-      case 'push':
-        update = await processPushEvent(webhookEvent);
-        break;
-      case 'pull_request':
-        update = await processPullRequestEvent(webhookEvent);
-        break;
-      case 'issues':
-        update = await processIssueEvent(webhookEvent);
-        break;
-      case 'release':
-        update = await processReleaseEvent(webhookEvent);
-        break;
-      case 'repository':
-        update = await processRepositoryEvent(webhookEvent);
-        break;
-      default:
-        console.log(`Unhandled event type: ${event}`);
-        return c.json({ message: 'Event type not handled' });
+    if (!HANDLED_EVENT_TYPES.includes(event)) {
+      console.log(`Unhandled event type: ${event}`);
+      return c.json({ message: 'Event type not handled' });
     }
 
     // Collect all users from connected repositories
-    const allUsers = connectedRepos.reduce((acc, repo) => {
-      return [...acc, ...repo.users];
-    }, [] as string[]);
-    
-    update.users = [...new Set(allUsers)]; // Remove duplicates
+    const users = [...new Set(connectedRepos.flatMap(repo => repo.users))];
+
+    const queued = await webhookQueue.enqueue({
+      direction: 'inbound',
+      handler: REPOSITORY_UPDATES_HANDLER,
+      source: 'github',
+      type: event,
+      payload: webhookEvent,
+      userIds: users,
+      deliveryId: verification.deliveryId
+    });
+    // From here on the queue owns retries, so GitHub must not redeliver
+    claims = [];
 
-    // Send real-time update to connected users
-    await sendRealtimeUpdate(update);
-
-    // Update repository activity timestamp
-    for (const repo of connectedRepos) {
-      repo.last_activity = new Date().toISOString();
-      await kv.set(`connected_repository_${repo.id}`, JSON.stringify(repo));
-    }
+    const result = await webhookQueue.process(queued, queueHandlers);
+    const processed = result.status === 'succeeded';
 
     return c.json({ 
-      message: 'Webhook processed successfully',
+      message: processed ? 'Webhook processed successfully' : 'Webhook queued for retry',
+      event_id: result.id,
+      status: result.status,
       event_type: event,
       repository: webhookEvent.repository.name,
-      users_notified: update.users.length
-    });
+      users_notified: processed ? users.length : 0
+    }, processed ? 200 : 202);
 
   } catch (error) {
     console.error('Webhook processing error:', error);
+    // Let GitHub's redelivery of this id through once processing is fixed
+    await releaseInboundWebhook('github', claims).catch(console.error);
     return c.json({ 
       error: 'Internal server error',
       details: error instanceof Error ? error.message : 'Unknown error'
@@ -425,6 +459,11 @@ app.post('/make-server-88829a40/webhooks/register', async (c) => {
 
     const [, owner, repo] = urlParts;
 
+    // Deliveries without a shared secret could never be verified
+    if (!WEBHOOK_SECRET) {
+      return c.json({ error: 'GITHUB_WEBHOOK_SECRET is not configured' }, 500);
+    }
+
     // Create webhook using GitHub API
     const webhookUrl = `${Deno.env.get('SUPABASE_URL')}/functions/v1/make-server-88829a40/webhooks/github`;
     
@@ -505,7 +544,7 @@ app.delete('/make-server-88829a40/webhooks/:webhook_id', async (c) => {
       return c.json({ error: 'Webhook not found' }, 404);
     }
 
-    const webhookData = JSON.parse(registration.value);
+    const webhookData = JSON.parse(registration);
 
     // Delete webhook using GitHub API
     const response = await fetch(
@@ -538,34 +577,52 @@ app.delete('/make-server-88829a40/webhooks/:webhook_id', async (c) => {
 });
 
 /**
- * Get webhook events for a user
+ * An endpoint as shown to its owner. The signing secret is only returned
+ * once, in the response that creates the endpoint.
+ */
+function withoutSecret({ secret: _secret, ...endpoint }: WebhookEndpointRecord) {
+  return endpoint;
+}
+
+/**
+ * Get the caller's webhook events, optionally filtered by comma-separated
+ * `status` values and `direction`
  */
-app.get('/make-server-88829a40/webhooks/events/:user_id', async (c) => {
+app.get('/make-server-88829a40/webhooks/events', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
   try {
-    const userId = c.req.param('user_id');
-    const limit = parseInt(c.req.query('limit') || '50');
+    const userId = user.id;
+    const limit = Math.min(parseInt(c.req.query('limit') || '50'), 200);
     const offset = parseInt(c.req.query('offset') || '0');
+    const direction = c.req.query('direction');
+    const statuses = (c.req.query('status') || '')
+      .split(',')
+      .map(status => status.trim())
+      .filter(Boolean);
+
+    const unknownStatus = statuses.find(status => !WEBHOOK_EVENT_STATUSES.includes(status as WebhookEventStatus));
+    if (unknownStatus) {
+      return c.json({ error: `Unknown status: ${unknownStatus}` }, 400);
+    }
+    if (direction && direction !== 'inbound' && direction !== 'outbound') {
+      return c.json({ error: `Unknown direction: ${direction}` }, 400);
+    }
 
-    // Get all webhook events
-    const events = await kv.getByPrefix('webhook_event_');
-    
-    // Filter events for this user and sort by timestamp
-    const userEvents = events
-      .map(item => {
-        try {
-          const event = JSON.parse(item.value) as RealtimeUpdate;
-          return event.users.includes(userId) ? event : null;
-        } catch {
-          return null;
-        }
-      })
-      .filter(Boolean)
-      .sort((a, b) => new Date(b!.timestamp).getTime() - new Date(a!.timestamp).getTime())
-      .slice(offset, offset + limit);
+    const { events, total } = await webhookQueue.list({
+      userId,
+      statuses: statuses as WebhookEventStatus[],
+      direction: direction as 'inbound' | 'outbound' | undefined,
+      limit,
+      offset
+    });
 
     return c.json({
-      events: userEvents,
-      total: userEvents.length,
+      events,
+      total,
       limit,
       offset
     });
@@ -579,6 +636,205 @@ app.get('/make-server-88829a40/webhooks/events/:user_id', async (c) => {
   }
 });
 
+/**
+ * Replay a failed or dead-lettered event and run its first attempt now
+ */
+app.post('/make-server-88829a40/webhooks/events/:event_id/replay', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const replayed = await webhookQueue.replay(c.req.param('event_id'), user.id);
+    const event = await webhookQueue.process(replayed, queueHandlers);
+
+    return c.json({ event });
+
+  } catch (error) {
+    const status = (error as { status?: number }).status;
+    if (status === 404 || status === 409) {
+      return c.json({ error: (error as Error).message }, status);
+    }
+    console.error('Error replaying webhook event:', error);
+    return c.json({
+      error: 'Failed to replay webhook event',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * Run due retries; called by the scheduler with WEBHOOK_QUEUE_SECRET
+ */
+app.post('/make-server-88829a40/webhooks/queue/process', async (c) => {
+  if (!isQueueWorkerRequest(c.req.header('Authorization'))) {
+    return c.json({ error: 'Unauthorized' }, 401);
+  }
+
+  try {
+    const processed = await webhookQueue.processDue(queueHandlers);
+    const count = (status: WebhookEventStatus) => processed.filter(event => event.status === status).length;
+
+    return c.json({
+      processed: processed.length,
+      succeeded: count('succeeded'),
+      failed: count('failed'),
+      dead_letter: count('dead_letter')
+    });
+
+  } catch (error) {
+    console.error('Webhook queue processing error:', error);
+    return c.json({
+      error: 'Failed to process webhook queue',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * Outbound endpoints registered by the caller
+ */
+app.get('/make-server-88829a40/webhooks/endpoints', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const endpoints = await listWebhookEndpoints([user.id]);
+    return c.json({ endpoints: endpoints.map(withoutSecret) });
+  } catch (error) {
+    console.error('Error fetching webhook endpoints:', error);
+    return c.json({
+      error: 'Failed to fetch webhook endpoints',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+app.post('/make-server-88829a40/webhooks/endpoints', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const { url, events, secret, description, active } = await c.req.json();
+
+    if (!url || !Array.isArray(events) || events.length === 0) {
+      return c.json({ error: 'Missing required fields' }, 400);
+    }
+    const urlError = webhookUrlError(url);
+    if (urlError) {
+      return c.json({ error: urlError }, 400);
+    }
+
+    const endpoint = await saveWebhookEndpoint({
+      userId: user.id,
+      url,
+      events,
+      secret: secret || crypto.randomUUID(),
+      description: description || '',
+      active: active !== false
+    });
+
+    return c.json({ endpoint }, 201);
+  } catch (error) {
+    console.error('Error creating webhook endpoint:', error);
+    return c.json({
+      error: 'Failed to create webhook endpoint',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+app.patch('/make-server-88829a40/webhooks/endpoints/:endpoint_id', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const { active, events, description, url } = await c.req.json();
+    const urlError = url === undefined ? null : webhookUrlError(String(url));
+    if (urlError) {
+      return c.json({ error: urlError }, 400);
+    }
+
+    const changes = Object.fromEntries(
+      Object.entries({ active, events, description, url }).filter(([, value]) => value !== undefined)
+    );
+    const endpoint = await updateWebhookEndpoint(c.req.param('endpoint_id'), user.id, changes);
+
+    return endpoint ? c.json({ endpoint: withoutSecret(endpoint) }) : c.json({ error: 'Webhook endpoint not found' }, 404);
+  } catch (error) {
+    console.error('Error updating webhook endpoint:', error);
+    return c.json({
+      error: 'Failed to update webhook endpoint',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+app.delete('/make-server-88829a40/webhooks/endpoints/:endpoint_id', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const deleted = await deleteWebhookEndpoint(c.req.param('endpoint_id'), user.id);
+    return deleted
+      ? c.json({ message: 'Webhook endpoint deleted' })
+      : c.json({ error: 'Webhook endpoint not found' }, 404);
+  } catch (error) {
+    console.error('Error deleting webhook endpoint:', error);
+    return c.json({
+      error: 'Failed to delete webhook endpoint',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
+/**
+ * Queue a ping to one endpoint and attempt it immediately
+ */
+app.post('/make-server-88829a40/webhooks/endpoints/:endpoint_id/test', async (c) => {
+  const user = await authenticateUser(c.req.header('Authorization'));
+  if (!user) {
+    return c.json({ error: 'Authentication required' }, 401);
+  }
+
+  try {
+    const endpointId = c.req.param('endpoint_id');
+    const endpoint = (await listWebhookEndpoints([user.id])).find(each => each.id === endpointId);
+
+    if (!endpoint) {
+      return c.json({ error: 'Webhook endpoint not found' }, 404);
+    }
+
+    const queued = await webhookQueue.enqueue({
+      direction: 'outbound',
+      handler: OUTBOUND_HANDLER,
+      source: 'flashfusion',
+      type: 'ping',
+      payload: { test: true, timestamp: new Date().toISOString(), source: 'FlashFusion' },
+      userIds: [endpoint.userId],
+      endpointId: endpoint.id
+    });
+    const event = await webhookQueue.process(queued, queueHandlers);
+
+    return c.json({ event });
+  } catch (error) {
+    console.error('Error testing webhook endpoint:', error);
+    return c.json({
+      error: 'Failed to test webhook endpoint',
+      details: error instanceof Error ? error.message : 'Unknown error'
+    }, 500);
+  }
+});
+
 /**
  * Health check endpoint
  */
@@ -0,0 +1,141 @@
+// Postgres persistence for the XP ledger
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { XpLedger, type XpCategory, type XpLedgerStore, type XpTransaction } from './xp-ledger.ts';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+// Postgres reports unique violations with this code
+const UNIQUE_VIOLATION = '23505';
+
+interface XpTransactionRow {
+  id: string;
+  user_id: string;
+  event_key: string;
+  xp_amount: number;
+  reason: string;
+  category: XpCategory;
+  metadata: Record<string, unknown> | null;
+  created_at: string;
+}
+
+// BIGINT columns of xp_leaderboard may arrive as strings
+interface LeaderboardResultRow {
+  user_id: string;
+  username: string | null;
+  avatar_url: string | null;
+  period_xp: number | string;
+  total_xp: number | string;
+  achievements_count: number | string;
+  streak_days: number | null;
+}
+
+function fromRow(row: XpTransactionRow): XpTransaction {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    eventKey: row.event_key,
+    amount: row.xp_amount,
+    reason: row.reason,
+    category: row.category,
+    metadata: row.metadata ?? {},
+    createdAt: row.created_at
+  };
+}
+
+const supabaseXpLedgerStore: XpLedgerStore = {
+  async listGatewayCalls(userId, since) {
+    const { data, error } = await supabase
+      .from('ai_usage_logs')
+      .select('id, created_at')
+      .eq('user_id', userId)
+      .eq('success', true)
+      .gte('created_at', since);
+
+    if (error) throw error;
+    return (data || []).map(row => ({ id: row.id, createdAt: row.created_at }));
+  },
+
+  async getDeployment(id) {
+    const { data, error } = await supabase
+      .from('deployments')
+      .select('user_id, status')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? { userId: data.user_id, status: data.status } : null;
+  },
+
+  async getProject(id) {
+    const { data, error } = await supabase
+      .from('projects')
+      .select('user_id, status')
+      .eq('id', id)
+      .maybeSingle();
+
+    if (error) throw error;
+    return data ? { userId: data.user_id, status: data.status } : null;
+  },
+
+  async insert(transaction) {
+    const { error } = await supabase.from('xp_transactions').insert({
+      id: transaction.id,
+      user_id: transaction.userId,
+      event_key: transaction.eventKey,
+      xp_amount: transaction.amount,
+      reason: transaction.reason,
+      category: transaction.category,
+      metadata: transaction.metadata,
+      created_at: transaction.createdAt
+    });
+
+    if (error?.code === UNIQUE_VIOLATION) return false;
+    if (error) throw error;
+    return true;
+  },
+
+  async list(userId) {
+    const { data, error } = await supabase
+      .from('xp_transactions')
+      .select('*')
+      .eq('user_id', userId)
+      .order('created_at', { ascending: true });
+
+    if (error) throw error;
+    return (data || []).map(fromRow);
+  },
+
+  async saveSummary(summary) {
+    const { error } = await supabase.from('user_gamification').upsert({
+      user_id: summary.user_id,
+      current_xp: summary.current_level_xp,
+      total_xp_earned: summary.total_xp,
+      level: summary.level,
+      streak_days: summary.streak_days,
+      achievements: summary.achievements_unlocked,
+      last_activity: new Date().toISOString()
+    }, { onConflict: 'user_id' });
+
+    if (error) throw error;
+  },
+
+  async leaderboard(since, limit) {
+    const { data, error } = await supabase.rpc('xp_leaderboard', { since, max_rows: limit });
+
+    if (error) throw error;
+    return (data || []).map((row: LeaderboardResultRow) => ({
+      userId: row.user_id,
+      username: row.username,
+      avatarUrl: row.avatar_url,
+      periodXp: Number(row.period_xp),
+      totalXp: Number(row.total_xp),
+      achievementsCount: Number(row.achievements_count),
+      streakDays: row.streak_days ?? 0
+    }));
+  }
+};
+
+export const xpLedger = new XpLedger(supabaseXpLedgerStore);
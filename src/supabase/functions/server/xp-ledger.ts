@@ -0,0 +1,410 @@
+/**
+ * XP Ledger
+ * The server decides who earns XP. Clients report what happened (an AI tool
+ * run, a deployment, a finished project, a daily visit); the ledger checks the
+ * report against records only the server or the owner's data can vouch for,
+ * derives the reward itself and writes it to xp_transactions under an event
+ * key, so repeating a report never pays twice. Levels, achievements and the
+ * leaderboard are computed from the ledger alone.
+ *
+ * Storage is behind `XpLedgerStore` so the rules can be tested without Postgres.
+ */
+import { isToolId } from '../../../data/tool-ids.ts';
+
+export type XpEventType = 'tool_usage' | 'code_generation' | 'deployment' | 'project_completion' | 'daily_login';
+
+export type XpCategory = XpEventType | 'achievement';
+
+export const XP_EVENT_TYPES: XpEventType[] = ['tool_usage', 'code_generation', 'deployment', 'project_completion', 'daily_login'];
+
+// Same table as LEVEL_THRESHOLDS in services/GamificationService.ts
+export const LEVEL_THRESHOLDS = [
+  0, 100, 250, 500, 1000, 1750, 2750, 4000, 5500, 7250, 9250,
+  11500, 14000, 16750, 19750, 23000, 26500, 30250, 34250, 38500, 43000,
+  47750, 52750, 58000, 63500, 69250, 75250, 81500, 88000, 94750, 101750,
+  109000, 116500, 124250, 132250, 140500, 149000, 157750, 166750, 176000, 185500,
+  195250, 205250, 215500, 226000, 236750, 247750, 259000, 270500, 282250, 294250
+];
+
+export const XP_REWARDS = {
+  TOOL_USE: 25,
+  NEW_TOOL_FIRST_TIME: 50,
+  CODE_GENERATED: 30,
+  PROJECT_COMPLETED: 200,
+  PROJECT_DEPLOYED: 150,
+  FIRST_DEPLOYMENT: 300,
+  DAILY_LOGIN: 20
+};
+
+export interface AchievementRule {
+  id: string;
+  name: string;
+  xpReward: number;
+  condition: { type: 'xp_total' | 'projects_count' | 'tools_used' | 'streak_days'; target: number };
+}
+
+/**
+ * Achievements the ledger can prove. The ids and rewards match ACHIEVEMENTS in
+ * services/GamificationService.ts; its "special" achievements have no rule and
+ * cannot be unlocked until one exists.
+ */
+export const ACHIEVEMENT_RULES: AchievementRule[] = [
+  { id: 'first_steps', name: 'First Steps', xpReward: 100, condition: { type: 'xp_total', target: 50 } },
+  { id: 'tool_explorer', name: 'Tool Explorer', xpReward: 150, condition: { type: 'tools_used', target: 5 } },
+  { id: 'perfectionist', name: 'The Perfectionist', xpReward: 500, condition: { type: 'projects_count', target: 10 } },
+  { id: 'dedication', name: 'Dedication', xpReward: 750, condition: { type: 'streak_days', target: 30 } },
+  { id: 'code_architect', name: 'Code Architect', xpReward: 1500, condition: { type: 'projects_count', target: 50 } }
+];
+
+// A tool run earns XP only if an AI gateway call backs it within this window
+const GATEWAY_CALL_WINDOW_MS = 15 * 60 * 1000;
+
+// Both schemas in the migrations name a finished deployment differently
+const FINISHED_DEPLOYMENT_STATUSES = ['ready', 'deployed'];
+const FINISHED_PROJECT_STATUSES = ['deployed', 'completed'];
+
+export interface XpEventClaim {
+  type: XpEventType;
+  /** The deployment or project the event is about */
+  recordId?: string;
+  /** Id of the tool from `TOOL_IDS`, for tool usage and code generation */
+  tool?: string;
+}
+
+export interface XpTransaction {
+  id: string;
+  userId: string;
+  /** Unique per user; a second transaction with the same key is never written */
+  eventKey: string;
+  amount: number;
+  reason: string;
+  category: XpCategory;
+  metadata: Record<string, unknown>;
+  createdAt: string;
+}
+
+export interface XpSummary {
+  user_id: string;
+  total_xp: number;
+  level: number;
+  current_level_xp: number;
+  next_level_xp: number;
+  achievements_unlocked: string[];
+  streak_days: number;
+  last_activity_date: string | null;
+  projects_completed: number;
+  deployments: number;
+  tools_used: string[];
+}
+
+export interface XpAward {
+  awarded: boolean;
+  /** Transactions written for this claim, including achievement bonuses */
+  transactions: XpTransaction[];
+  achievementsUnlocked: string[];
+  leveledUp: boolean;
+  summary: XpSummary;
+}
+
+export type LeaderboardTimeframe = 'all_time' | 'monthly' | 'weekly';
+
+export interface LeaderboardRow {
+  userId: string;
+  username?: string | null;
+  avatarUrl?: string | null;
+  /** XP earned within the timeframe */
+  periodXp: number;
+  totalXp: number;
+  achievementsCount: number;
+  streakDays: number;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  user_id: string;
+  username: string;
+  avatar_url?: string;
+  total_xp: number;
+  period_xp: number;
+  level: number;
+  achievements_count: number;
+  streak_days: number;
+}
+
+export interface XpLedgerStore {
+  /** The user's successful AI gateway calls made at or after `since` */
+  listGatewayCalls(userId: string, since: string): Promise<Array<{ id: string; createdAt: string }>>;
+  getDeployment(id: string): Promise<{ userId: string; status: string } | null>;
+  getProject(id: string): Promise<{ userId: string; status: string } | null>;
+  /**
+   * Write a transaction unless the user already has one with its event key.
+   * Must be atomic; resolves false when the key was taken.
+   */
+  insert(transaction: XpTransaction): Promise<boolean>;
+  list(userId: string): Promise<XpTransaction[]>;
+  /** Keep the per-user projection (user_gamification) in step with the ledger */
+  saveSummary(summary: XpSummary): Promise<void>;
+  /** Users by XP earned since `since` (all time when null), highest first */
+  leaderboard(since: string | null, limit: number): Promise<LeaderboardRow[]>;
+}
+
+export interface XpLedgerOptions {
+  now?: () => number;
+}
+
+function statusError(message: string, status: number): Error {
+  return Object.assign(new Error(message), { status });
+}
+
+export function levelForXp(totalXp: number): number {
+  let level = 1;
+  for (let i = 0; i < LEVEL_THRESHOLDS.length; i++) {
+    if (totalXp >= LEVEL_THRESHOLDS[i]) level = i + 1;
+  }
+  return level;
+}
+
+export function levelProgress(totalXp: number): Pick<XpSummary, 'level' | 'current_level_xp' | 'next_level_xp'> {
+  const level = levelForXp(totalXp);
+  const nextThreshold = LEVEL_THRESHOLDS[level] ?? LEVEL_THRESHOLDS[LEVEL_THRESHOLDS.length - 1];
+  return {
+    level,
+    current_level_xp: totalXp - LEVEL_THRESHOLDS[level - 1],
+    next_level_xp: Math.max(0, nextThreshold - totalXp)
+  };
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/** Consecutive days ending at the latest one */
+function streakLength(days: string[]): number {
+  const sorted = [...new Set(days)].sort().reverse();
+  let streak = sorted.length ? 1 : 0;
+  for (let i = 1; i < sorted.length; i++) {
+    if (Date.parse(sorted[i - 1]) - Date.parse(sorted[i]) !== DAY_MS) break;
+    streak++;
+  }
+  return streak;
+}
+
+/** Everything the client shows about a user's progress, derived from their transactions */
+export function summarizeLedger(userId: string, transactions: XpTransaction[]): XpSummary {
+  const totalXp = transactions.reduce((sum, transaction) => sum + transaction.amount, 0);
+  const ofCategory = (category: XpCategory) => transactions.filter(transaction => transaction.category === category);
+  const tools = transactions
+    .filter(transaction => transaction.category === 'tool_usage' || transaction.category === 'code_generation')
+    .map(transaction => transaction.metadata.tool)
+    .filter((tool): tool is string => typeof tool === 'string');
+  const latest = transactions.reduce<string | null>(
+    (max, transaction) => (max === null || transaction.createdAt > max ? transaction.createdAt : max),
+    null
+  );
+
+  return {
+    user_id: userId,
+    total_xp: totalXp,
+    ...levelProgress(totalXp),
+    achievements_unlocked: ofCategory('achievement').map(transaction => String(transaction.metadata.achievement)),
+    streak_days: streakLength(ofCategory('daily_login').map(transaction => String(transaction.metadata.date))),
+    last_activity_date: latest ? latest.slice(0, 10) : null,
+    projects_completed: ofCategory('project_completion').length,
+    deployments: ofCategory('deployment').length,
+    tools_used: [...new Set(tools)]
+  };
+}
+
+function meetsRule(rule: AchievementRule, summary: XpSummary): boolean {
+  switch (rule.condition.type) {
+    case 'xp_total': return summary.total_xp >= rule.condition.target;
+    case 'projects_count': return summary.projects_completed >= rule.condition.target;
+    case 'tools_used': return summary.tools_used.length >= rule.condition.target;
+    case 'streak_days': return summary.streak_days >= rule.condition.target;
+  }
+}
+
+type PendingTransaction = Pick<XpTransaction, 'eventKey' | 'amount' | 'reason' | 'category' | 'metadata'>;
+
+export class XpLedger {
+  private now: () => number;
+
+  constructor(private store: XpLedgerStore, options: XpLedgerOptions = {}) {
+    this.now = options.now ?? Date.now;
+  }
+
+  /**
+   * Check a reported event and pay its reward once, together with any
+   * achievements it completes. Reports that were already paid resolve with
+   * `awarded: false`; reports the server records do not back are rejected
+   * with a `status` of 400, 404 or 409.
+   */
+  async award(userId: string, claim: XpEventClaim): Promise<XpAward> {
+    const existing = await this.store.list(userId);
+    const pending = await this.verify(userId, claim, existing);
+    const levelBefore = summarizeLedger(userId, existing).level;
+
+    const written = await this.write(userId, pending, existing);
+    if (!written) {
+      return { awarded: false, transactions: [], achievementsUnlocked: [], leveledUp: false, summary: summarizeLedger(userId, existing) };
+    }
+
+    const transactions = [written];
+    const all = [...existing, written];
+    let summary = summarizeLedger(userId, all);
+
+    // An achievement's bonus can complete another (first_steps is an XP total)
+    for (let unlocked = true; unlocked;) {
+      unlocked = false;
+      for (const rule of ACHIEVEMENT_RULES) {
+        if (summary.achievements_unlocked.includes(rule.id) || !meetsRule(rule, summary)) continue;
+        const bonus = await this.write(userId, {
+          eventKey: `achievement:${rule.id}`,
+          amount: rule.xpReward,
+          reason: `Unlocked: ${rule.name}`,
+          category: 'achievement',
+          metadata: { achievement: rule.id }
+        }, all);
+        if (!bonus) continue;
+        transactions.push(bonus);
+        all.push(bonus);
+        summary = summarizeLedger(userId, all);
+        unlocked = true;
+      }
+    }
+
+    await this.store.saveSummary(summary);
+    return {
+      awarded: true,
+      transactions,
+      achievementsUnlocked: transactions.filter(transaction => transaction.category === 'achievement').map(transaction => String(transaction.metadata.achievement)),
+      leveledUp: summary.level > levelBefore,
+      summary
+    };
+  }
+
+  async summary(userId: string): Promise<XpSummary> {
+    return summarizeLedger(userId, await this.store.list(userId));
+  }
+
+  async leaderboard(timeframe: LeaderboardTimeframe, limit: number): Promise<LeaderboardEntry[]> {
+    const days = timeframe === 'weekly' ? 7 : timeframe === 'monthly' ? 30 : null;
+    const since = days === null ? null : new Date(this.now() - days * DAY_MS).toISOString();
+    const rows = await this.store.leaderboard(since, limit);
+
+    return rows.map((row, index) => ({
+      rank: index + 1,
+      user_id: row.userId,
+      username: row.username || `User${row.userId.slice(0, 8)}`,
+      avatar_url: row.avatarUrl ?? undefined,
+      total_xp: row.totalXp,
+      period_xp: row.periodXp,
+      level: levelForXp(row.totalXp),
+      achievements_count: row.achievementsCount,
+      streak_days: row.streakDays
+    }));
+  }
+
+  private async write(userId: string, pending: PendingTransaction, existing: XpTransaction[]): Promise<XpTransaction | null> {
+    if (existing.some(transaction => transaction.eventKey === pending.eventKey)) return null;
+    const transaction: XpTransaction = {
+      id: crypto.randomUUID(),
+      userId,
+      ...pending,
+      createdAt: new Date(this.now()).toISOString()
+    };
+    return (await this.store.insert(transaction)) ? transaction : null;
+  }
+
+  private async verify(userId: string, claim: XpEventClaim, existing: XpTransaction[]): Promise<PendingTransaction> {
+    const taken = new Set(existing.map(transaction => transaction.eventKey));
+
+    switch (claim.type) {
+      case 'tool_usage':
+      case 'code_generation': {
+        // Unknown names would count as new tools towards first-time XP and tool_explorer
+        if (!isToolId(claim.tool)) {
+          throw statusError(`Unknown tool "${String(claim.tool)}"`, 400);
+        }
+        const tool = claim.tool;
+        const since = new Date(this.now() - GATEWAY_CALL_WINDOW_MS).toISOString();
+        const calls = (await this.store.listGatewayCalls(userId, since))
+          .filter(call => !taken.has(`gateway:${call.id}`))
+          .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+        if (calls.length === 0) {
+          throw statusError('No AI request to credit; tool XP follows a completed AI gateway call', 409);
+        }
+
+        if (claim.type === 'code_generation') {
+          return {
+            eventKey: `gateway:${calls[0].id}`,
+            amount: XP_REWARDS.CODE_GENERATED,
+            reason: `Generated code with ${tool}`,
+            category: 'code_generation',
+            metadata: { tool, gateway_call: calls[0].id }
+          };
+        }
+        const firstTime = !summarizeLedger(userId, existing).tools_used.includes(tool);
+        return {
+          eventKey: `gateway:${calls[0].id}`,
+          amount: XP_REWARDS.TOOL_USE + (firstTime ? XP_REWARDS.NEW_TOOL_FIRST_TIME : 0),
+          reason: firstTime ? `First time using ${tool}` : `Used ${tool}`,
+          category: 'tool_usage',
+          metadata: { tool, gateway_call: calls[0].id, first_time: firstTime }
+        };
+      }
+
+      case 'deployment': {
+        const id = this.requireRecordId(claim);
+        const deployment = await this.store.getDeployment(id);
+        if (!deployment || deployment.userId !== userId) throw statusError('Deployment not found', 404);
+        if (!FINISHED_DEPLOYMENT_STATUSES.includes(deployment.status)) {
+          throw statusError('Deployment has not finished', 409);
+        }
+        const first = !existing.some(transaction => transaction.category === 'deployment');
+        return {
+          eventKey: `deployment:${id}`,
+          amount: XP_REWARDS.PROJECT_DEPLOYED + (first ? XP_REWARDS.FIRST_DEPLOYMENT : 0),
+          reason: first ? 'First deployment' : 'Deployed a project',
+          category: 'deployment',
+          metadata: { deployment: id }
+        };
+      }
+
+      case 'project_completion': {
+        const id = this.requireRecordId(claim);
+        const project = await this.store.getProject(id);
+        if (!project || project.userId !== userId) throw statusError('Project not found', 404);
+        if (!FINISHED_PROJECT_STATUSES.includes(project.status)) {
+          throw statusError('Project is not completed yet', 409);
+        }
+        return {
+          eventKey: `project:${id}`,
+          amount: XP_REWARDS.PROJECT_COMPLETED,
+          reason: 'Completed a project',
+          category: 'project_completion',
+          metadata: { project: id }
+        };
+      }
+
+      case 'daily_login': {
+        const date = new Date(this.now()).toISOString().slice(0, 10);
+        return {
+          eventKey: `daily_login:${date}`,
+          amount: XP_REWARDS.DAILY_LOGIN,
+          reason: 'Daily login bonus',
+          category: 'daily_login',
+          metadata: { date }
+        };
+      }
+
+      default:
+        throw statusError(`Unknown XP event "${String((claim as { type?: unknown }).type)}"`, 400);
+    }
+  }
+
+  private requireRecordId(claim: XpEventClaim): string {
+    if (typeof claim.recordId !== 'string' || !claim.recordId) {
+      throw statusError(`A ${claim.type.replace('_', ' ')} needs the id of its record`, 400);
+    }
+    return claim.recordId;
+  }
+}
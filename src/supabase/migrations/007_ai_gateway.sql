@@ -0,0 +1,8 @@
+-- Migration: AI Gateway Usage Tracking
+-- Description: Record the provider per call and speed up per-user quota lookups
+-- Version: 007
+-- Date: 2026-10-18
+
+ALTER TABLE ai_usage_logs ADD COLUMN IF NOT EXISTS provider VARCHAR(50);
+
+CREATE INDEX IF NOT EXISTS idx_ai_usage_logs_user_created_at ON ai_usage_logs(user_id, created_at);
@@ -0,0 +1,24 @@
+-- Migration: Collaborative Editing Operation Log
+-- Description: Store transformed text operations per session; collaboration_data holds the compacted snapshot
+-- Version: 008
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS collaboration_operations (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    session_id UUID REFERENCES collaboration_sessions(id) ON DELETE CASCADE,
+    version INTEGER NOT NULL,
+    operation JSONB NOT NULL,
+    client_id VARCHAR(100) NOT NULL,
+    op_id VARCHAR(150) NOT NULL,
+    user_id UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    -- Concurrent writers race on the next version; the loser rebases and retries
+    UNIQUE (session_id, version),
+    -- A resent operation is logged once, whichever instance receives it
+    UNIQUE (session_id, client_id, op_id)
+);
+
+-- One snapshot row per session so compaction can upsert
+CREATE UNIQUE INDEX IF NOT EXISTS idx_collaboration_data_session_id ON collaboration_data(session_id);
+
+ALTER TABLE collaboration_operations ENABLE ROW LEVEL SECURITY;
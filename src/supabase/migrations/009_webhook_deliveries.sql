@@ -0,0 +1,27 @@
+-- Migration: Webhook Delivery Deduplication
+-- Description: Record accepted webhook delivery ids so a captured request cannot be replayed
+-- Version: 009
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+    provider VARCHAR(50) NOT NULL,
+    delivery_id VARCHAR(255) NOT NULL,
+    received_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    PRIMARY KEY (provider, delivery_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_received_at ON webhook_deliveries(received_at);
+
+ALTER TABLE webhook_deliveries ENABLE ROW LEVEL SECURITY;
+
+-- A delivery id only has to be remembered while its sender may still resend it.
+-- GitHub and Stripe stop retrying and redelivering after three days; a week
+-- leaves margin, and Stripe and Vercel timestamps are rejected after five minutes anyway.
+CREATE OR REPLACE FUNCTION purge_webhook_deliveries()
+RETURNS void AS $$
+BEGIN
+  DELETE FROM webhook_deliveries WHERE received_at < NOW() - INTERVAL '7 days';
+END;
+$$ LANGUAGE plpgsql;
+
+SELECT cron.schedule('purge-webhook-deliveries', '0 * * * *', 'SELECT purge_webhook_deliveries();');
@@ -0,0 +1,72 @@
+-- Migration: Durable Webhook Queue
+-- Description: Persist inbound and outbound webhook events with retry state and dead-lettering, plus user-registered outbound endpoints
+-- Version: 010
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS webhook_endpoints (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+    url TEXT NOT NULL,
+    events TEXT[] NOT NULL DEFAULT '{}',
+    secret TEXT NOT NULL,
+    active BOOLEAN DEFAULT true,
+    description TEXT DEFAULT '',
+    delivery_count INTEGER DEFAULT 0,
+    failure_count INTEGER DEFAULT 0,
+    last_triggered TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_endpoints_user_id ON webhook_endpoints(user_id);
+
+CREATE TABLE IF NOT EXISTS webhook_events (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    direction VARCHAR(10) NOT NULL DEFAULT 'inbound' CHECK (direction IN ('inbound', 'outbound')),
+    handler VARCHAR(50) NOT NULL,
+    source VARCHAR(50) NOT NULL,
+    type VARCHAR(100) NOT NULL,
+    payload JSONB,
+    user_ids TEXT[] NOT NULL DEFAULT '{}',
+    endpoint_id UUID REFERENCES webhook_endpoints(id) ON DELETE SET NULL,
+    delivery_id VARCHAR(255),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'processing', 'succeeded', 'failed', 'dead_letter')),
+    processed BOOLEAN DEFAULT false,
+    retry_count INTEGER NOT NULL DEFAULT 0,
+    max_attempts INTEGER NOT NULL DEFAULT 8,
+    next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    -- Lease of the worker running an attempt; an expired lease means the worker died
+    locked_until TIMESTAMP WITH TIME ZONE,
+    last_error TEXT,
+    processing_log JSONB NOT NULL DEFAULT '[]',
+    timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    completed_at TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Databases that already had webhook_events from the processor get the queue columns
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS direction VARCHAR(10) NOT NULL DEFAULT 'inbound';
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS handler VARCHAR(50) NOT NULL DEFAULT 'event-processor';
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS user_ids TEXT[] NOT NULL DEFAULT '{}';
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS endpoint_id UUID REFERENCES webhook_endpoints(id) ON DELETE SET NULL;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS delivery_id VARCHAR(255);
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'pending';
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS max_attempts INTEGER NOT NULL DEFAULT 8;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW();
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP WITH TIME ZONE;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS last_error TEXT;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE webhook_events ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Workers poll for due events; the events API lists a user's events by status
+CREATE INDEX IF NOT EXISTS idx_webhook_events_due ON webhook_events(handler, status, next_attempt_at);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_user_ids ON webhook_events USING GIN (user_ids);
+CREATE INDEX IF NOT EXISTS idx_webhook_events_timestamp ON webhook_events(timestamp DESC);
+
+ALTER TABLE webhook_endpoints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Retries run when a scheduler (for example pg_cron with pg_net) POSTs to
+-- /make-server-88829a40/webhooks/queue/process and /webhook-processor/process-queue
+-- with "Authorization: Bearer <WEBHOOK_QUEUE_SECRET>" every minute.
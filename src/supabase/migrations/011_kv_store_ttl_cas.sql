@@ -0,0 +1,116 @@
+-- Migration: KV Store TTL, Versions and Atomic Writes
+-- Description: Add expiry and per-key versions to the edge KV table, with SQL functions for set, compare-and-set and counters
+-- Version: 011
+-- Date: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS kv_store_e6e09e19 (
+    key TEXT NOT NULL PRIMARY KEY,
+    value JSONB NOT NULL
+);
+
+ALTER TABLE kv_store_e6e09e19 ADD COLUMN IF NOT EXISTS version BIGINT NOT NULL DEFAULT 1;
+ALTER TABLE kv_store_e6e09e19 ADD COLUMN IF NOT EXISTS expires_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE kv_store_e6e09e19 ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW();
+
+-- Byte-order keys: prefix scans can use the primary key index, and pages come
+-- back in the same order as MemoryKVStore
+ALTER TABLE kv_store_e6e09e19 ALTER COLUMN key TYPE TEXT COLLATE "C";
+
+CREATE INDEX IF NOT EXISTS idx_kv_store_expires_at ON kv_store_e6e09e19(expires_at) WHERE expires_at IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION kv_expiry(p_ttl_seconds INTEGER)
+RETURNS TIMESTAMP WITH TIME ZONE AS $$
+    SELECT CASE WHEN p_ttl_seconds IS NULL THEN NULL ELSE NOW() + make_interval(secs => p_ttl_seconds) END;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION kv_set(p_key TEXT, p_value JSONB, p_ttl_seconds INTEGER DEFAULT NULL)
+RETURNS kv_store_e6e09e19 AS $$
+    INSERT INTO kv_store_e6e09e19 (key, value, version, expires_at, updated_at)
+    VALUES (p_key, p_value, 1, kv_expiry(p_ttl_seconds), NOW())
+    ON CONFLICT (key) DO UPDATE SET
+        value = EXCLUDED.value,
+        version = kv_store_e6e09e19.version + 1,
+        expires_at = EXCLUDED.expires_at,
+        updated_at = NOW()
+    RETURNING *;
+$$ LANGUAGE sql;
+
+CREATE OR REPLACE FUNCTION kv_set_many(p_entries JSONB, p_ttl_seconds INTEGER DEFAULT NULL)
+RETURNS VOID AS $$
+    INSERT INTO kv_store_e6e09e19 (key, value, version, expires_at, updated_at)
+    SELECT entry->>'key', entry->'value', 1, kv_expiry(p_ttl_seconds), NOW()
+    FROM jsonb_array_elements(p_entries) AS entry
+    ON CONFLICT (key) DO UPDATE SET
+        value = EXCLUDED.value,
+        version = kv_store_e6e09e19.version + 1,
+        expires_at = EXCLUDED.expires_at,
+        updated_at = NOW();
+$$ LANGUAGE sql;
+
+-- Writes only when the live row is at p_expected_version, or when there is no
+-- live row and p_expected_version is NULL. Returns no rows when the check fails.
+CREATE OR REPLACE FUNCTION kv_compare_and_set(
+    p_key TEXT,
+    p_expected_version BIGINT,
+    p_value JSONB,
+    p_ttl_seconds INTEGER DEFAULT NULL
+)
+RETURNS SETOF kv_store_e6e09e19 AS $$
+BEGIN
+    IF p_expected_version IS NULL THEN
+        RETURN QUERY
+        INSERT INTO kv_store_e6e09e19 AS kv (key, value, version, expires_at, updated_at)
+        VALUES (p_key, p_value, 1, kv_expiry(p_ttl_seconds), NOW())
+        ON CONFLICT (key) DO UPDATE SET
+            value = EXCLUDED.value,
+            version = kv.version + 1,
+            expires_at = EXCLUDED.expires_at,
+            updated_at = NOW()
+        WHERE kv.expires_at IS NOT NULL AND kv.expires_at <= NOW()
+        RETURNING kv.*;
+    ELSE
+        RETURN QUERY
+        UPDATE kv_store_e6e09e19 AS kv SET
+            value = p_value,
+            version = kv.version + 1,
+            expires_at = kv_expiry(p_ttl_seconds),
+            updated_at = NOW()
+        WHERE kv.key = p_key
+          AND kv.version = p_expected_version
+          AND (kv.expires_at IS NULL OR kv.expires_at > NOW())
+        RETURNING kv.*;
+    END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Counters restart from zero (with a fresh TTL) once expired, which gives
+-- fixed-window rate limits in a single statement
+CREATE OR REPLACE FUNCTION kv_increment(p_key TEXT, p_delta NUMERIC DEFAULT 1, p_ttl_seconds INTEGER DEFAULT NULL)
+RETURNS NUMERIC AS $$
+    INSERT INTO kv_store_e6e09e19 AS kv (key, value, version, expires_at, updated_at)
+    VALUES (p_key, to_jsonb(p_delta), 1, kv_expiry(p_ttl_seconds), NOW())
+    ON CONFLICT (key) DO UPDATE SET
+        value = CASE
+            WHEN kv.expires_at IS NOT NULL AND kv.expires_at <= NOW() THEN to_jsonb(p_delta)
+            ELSE to_jsonb((kv.value #>> '{}')::NUMERIC + p_delta)
+        END,
+        version = kv.version + 1,
+        expires_at = CASE
+            WHEN kv.expires_at IS NOT NULL AND kv.expires_at <= NOW() THEN EXCLUDED.expires_at
+            ELSE kv.expires_at
+        END,
+        updated_at = NOW()
+    RETURNING (value #>> '{}')::NUMERIC;
+$$ LANGUAGE sql;
+
+-- Expired rows are already invisible to reads; schedule this (e.g. hourly with
+-- pg_cron) to reclaim their space
+CREATE OR REPLACE FUNCTION kv_purge_expired()
+RETURNS INTEGER AS $$
+    WITH purged AS (
+        DELETE FROM kv_store_e6e09e19 WHERE expires_at IS NOT NULL AND expires_at <= NOW() RETURNING 1
+    )
+    SELECT COUNT(*)::INTEGER FROM purged;
+$$ LANGUAGE sql;
+
+ALTER TABLE kv_store_e6e09e19 ENABLE ROW LEVEL SECURITY;
@@ -0,0 +1,43 @@
+-- Migration: Workflow Runtime
+-- Description: Give builder workflows an owner, index their executions, and keep run statistics in step with finished executions
+-- Version: 012
+-- Date: 2026-10-18
+
+ALTER TABLE public.agent_workflows ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES public.users(id) DEFAULT auth.uid();
+
+-- Builders have their own workflow ids; the canonical graph keeps them in workflow_definition.id
+CREATE UNIQUE INDEX IF NOT EXISTS idx_agent_workflows_user_definition
+    ON public.agent_workflows(user_id, (workflow_definition->>'id'));
+CREATE INDEX IF NOT EXISTS idx_workflow_executions_workflow_started
+    ON public.workflow_executions(workflow_id, started_at DESC);
+
+ALTER TABLE public.agent_workflows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.workflow_executions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own workflows" ON public.agent_workflows
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users manage executions of own workflows" ON public.workflow_executions
+    FOR ALL USING (
+        EXISTS (SELECT 1 FROM public.agent_workflows w WHERE w.id = workflow_id AND w.user_id = auth.uid())
+    );
+
+-- Count each execution once, when it leaves the running state
+CREATE OR REPLACE FUNCTION record_workflow_run()
+RETURNS TRIGGER AS $$
+BEGIN
+    IF OLD.status = 'running' AND NEW.status IN ('completed', 'failed') THEN
+        UPDATE public.agent_workflows SET
+            total_runs = total_runs + 1,
+            successful_runs = successful_runs + CASE WHEN NEW.status = 'completed' THEN 1 ELSE 0 END,
+            last_run_at = COALESCE(NEW.completed_at, NOW()),
+            updated_at = NOW()
+        WHERE id = NEW.workflow_id;
+    END IF;
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS workflow_execution_finished ON public.workflow_executions;
+CREATE TRIGGER workflow_execution_finished
+    AFTER UPDATE OF status ON public.workflow_executions
+    FOR EACH ROW EXECUTE FUNCTION record_workflow_run();
@@ -0,0 +1,48 @@
+-- Migration: XP Ledger
+-- Description: Make xp_transactions the server-written source of XP, idempotent per event, and rank the leaderboard from it
+-- Version: 013
+-- Date: 2026-10-18
+
+-- Each reward is keyed by the event that earned it, e.g. deployment:<id> or daily_login:<date>
+ALTER TABLE xp_transactions ADD COLUMN IF NOT EXISTS event_key TEXT;
+UPDATE xp_transactions SET event_key = 'legacy:' || id WHERE event_key IS NULL;
+ALTER TABLE xp_transactions ALTER COLUMN event_key SET NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_xp_transactions_user_event_key ON xp_transactions(user_id, event_key);
+CREATE INDEX IF NOT EXISTS idx_xp_transactions_category ON xp_transactions(category);
+
+-- Only the edge function (service role) awards XP; users keep read access to their own rows
+DROP POLICY IF EXISTS "Users can insert own XP transactions" ON xp_transactions;
+DROP POLICY IF EXISTS "Users can insert own gamification data" ON user_gamification;
+DROP POLICY IF EXISTS "Users can update own gamification data" ON user_gamification;
+
+-- Leaderboard straight from the ledger; period_xp counts only transactions since `since`
+CREATE OR REPLACE FUNCTION xp_leaderboard(since TIMESTAMPTZ DEFAULT NULL, max_rows INTEGER DEFAULT 50)
+RETURNS TABLE (
+    user_id UUID,
+    username TEXT,
+    avatar_url TEXT,
+    period_xp BIGINT,
+    total_xp BIGINT,
+    achievements_count BIGINT,
+    streak_days INTEGER
+) AS $$
+    SELECT
+        t.user_id,
+        u.display_name,
+        u.avatar_url,
+        COALESCE(SUM(t.xp_amount) FILTER (WHERE since IS NULL OR t.created_at >= since), 0) AS period_xp,
+        SUM(t.xp_amount) AS total_xp,
+        COUNT(*) FILTER (WHERE t.category = 'achievement') AS achievements_count,
+        COALESCE(MAX(g.streak_days), 0) AS streak_days
+    FROM xp_transactions t
+    LEFT JOIN public.users u ON u.id = t.user_id
+    LEFT JOIN user_gamification g ON g.user_id = t.user_id
+    GROUP BY t.user_id, u.display_name, u.avatar_url
+    HAVING COALESCE(SUM(t.xp_amount) FILTER (WHERE since IS NULL OR t.created_at >= since), 0) > 0
+    ORDER BY period_xp DESC, total_xp DESC
+    LIMIT max_rows;
+$$ LANGUAGE sql STABLE;
+
+REVOKE EXECUTE ON FUNCTION xp_leaderboard(TIMESTAMPTZ, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION xp_leaderboard(TIMESTAMPTZ, INTEGER) TO service_role;
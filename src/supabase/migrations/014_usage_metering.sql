@@ -0,0 +1,151 @@
+-- Migration: Usage Metering
+-- Description: Per-plan limits on AI calls, projects, deployments and storage, metered per billing period and enforced on insert
+-- Version: 014
+-- Date: 2026-10-18
+
+-- Same limits as SUBSCRIPTION_TIERS in components/monetization/SubscriptionSystem.tsx; NULL means unlimited
+CREATE TABLE IF NOT EXISTS plan_limits (
+    plan TEXT NOT NULL,
+    resource TEXT NOT NULL CHECK (resource IN ('ai_calls', 'projects', 'deployments', 'storage_bytes')),
+    max_amount BIGINT,
+    PRIMARY KEY (plan, resource)
+);
+
+INSERT INTO plan_limits (plan, resource, max_amount) VALUES
+    ('free', 'ai_calls', 50),
+    ('free', 'projects', 3),
+    ('free', 'deployments', 1),
+    ('free', 'storage_bytes', 104857600),          -- 100MB
+    ('pro', 'ai_calls', 1000),
+    ('pro', 'projects', 25),
+    ('pro', 'deployments', 10),
+    ('pro', 'storage_bytes', 10737418240),         -- 10GB
+    ('enterprise', 'ai_calls', NULL),
+    ('enterprise', 'projects', NULL),
+    ('enterprise', 'deployments', NULL),
+    ('enterprise', 'storage_bytes', 107374182400)  -- 100GB
+ON CONFLICT (plan, resource) DO UPDATE SET max_amount = EXCLUDED.max_amount;
+
+ALTER TABLE plan_limits ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Anyone can read plan limits" ON plan_limits FOR SELECT USING (true);
+
+-- Stripe customer and current paid period per user; written only by the edge function
+CREATE TABLE IF NOT EXISTS billing_accounts (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+    stripe_customer_id TEXT UNIQUE,
+    stripe_subscription_id TEXT,
+    period_start TIMESTAMP WITH TIME ZONE,
+    period_end TIMESTAMP WITH TIME ZONE,
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+ALTER TABLE billing_accounts ENABLE ROW LEVEL SECURITY;
+CREATE POLICY "Users can view own billing account" ON billing_accounts FOR SELECT USING (auth.uid() = user_id);
+
+-- The paid Stripe period while it is current, otherwise the calendar month (UTC)
+CREATE OR REPLACE FUNCTION billing_period(p_user_id UUID, OUT period_start TIMESTAMPTZ, OUT period_end TIMESTAMPTZ) AS $$
+BEGIN
+    SELECT b.period_start, b.period_end INTO period_start, period_end
+    FROM billing_accounts b
+    WHERE b.user_id = p_user_id AND b.period_start <= NOW() AND b.period_end > NOW();
+
+    IF period_start IS NULL THEN
+        period_start := date_trunc('month', NOW() AT TIME ZONE 'UTC') AT TIME ZONE 'UTC';
+        period_end := period_start + INTERVAL '1 month';
+    END IF;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- AI calls and deployments count within the period; projects and storage are standing totals
+CREATE OR REPLACE FUNCTION plan_usage(p_user_id UUID)
+RETURNS TABLE (
+    plan TEXT,
+    resource TEXT,
+    used BIGINT,
+    max_amount BIGINT,
+    period_start TIMESTAMPTZ,
+    period_end TIMESTAMPTZ
+) AS $$
+    WITH account AS (
+        SELECT COALESCE(
+            (SELECT CASE WHEN p.subscription_tier IN ('pro', 'enterprise') THEN p.subscription_tier ELSE 'free' END
+             FROM public.user_profiles p WHERE p.id = p_user_id),
+            'free'
+        ) AS plan
+    ),
+    period AS (
+        SELECT * FROM billing_period(p_user_id)
+    ),
+    usage AS (
+        SELECT 'ai_calls' AS resource, COUNT(*)::BIGINT AS used
+        FROM ai_usage_logs l, period
+        WHERE l.user_id = p_user_id AND l.success AND l.created_at >= period.period_start
+        UNION ALL
+        SELECT 'projects', COUNT(*)::BIGINT
+        FROM public.projects pr
+        WHERE pr.user_id = p_user_id AND COALESCE(pr.status, '') <> 'archived'
+        UNION ALL
+        SELECT 'deployments', COUNT(*)::BIGINT
+        FROM public.deployments d, period
+        WHERE d.user_id = p_user_id AND d.created_at >= period.period_start
+        UNION ALL
+        SELECT 'storage_bytes', COALESCE(SUM(f.file_size_bytes), 0)::BIGINT
+        FROM public.file_storage f
+        WHERE f.user_id = p_user_id AND f.deleted_at IS NULL
+    )
+    SELECT account.plan, usage.resource, usage.used, limits.max_amount, period.period_start, period.period_end
+    FROM account, period, usage
+    JOIN plan_limits limits ON limits.resource = usage.resource
+    WHERE limits.plan = (SELECT plan FROM account);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION plan_usage(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION plan_usage(UUID) TO service_role;
+
+-- Rejects inserts past the plan limit. SQLSTATE PT402 makes PostgREST answer 402.
+CREATE OR REPLACE FUNCTION enforce_plan_limit()
+RETURNS TRIGGER AS $$
+DECLARE
+    metered TEXT := TG_ARGV[0];
+    amount BIGINT := 1;
+    usage_row RECORD;
+BEGIN
+    IF NEW.user_id IS NULL THEN
+        RETURN NEW;
+    END IF;
+
+    -- Only file_storage rows have a size; the branch is never planned for other tables
+    IF metered = 'storage_bytes' THEN
+        amount := COALESCE(NEW.file_size_bytes, 0);
+    END IF;
+
+    SELECT * INTO usage_row FROM plan_usage(NEW.user_id) u WHERE u.resource = metered;
+
+    IF usage_row.max_amount IS NOT NULL AND usage_row.used + amount > usage_row.max_amount THEN
+        RAISE EXCEPTION USING
+            ERRCODE = 'PT402',
+            MESSAGE = format('Your %s plan allows %s %s; %s are in use', usage_row.plan, usage_row.max_amount, replace(metered, '_', ' '), usage_row.used),
+            DETAIL = json_build_object('code', 'plan_limit_exceeded', 'resource', metered, 'plan', usage_row.plan,
+                                       'used', usage_row.used, 'limit', usage_row.max_amount, 'resets_at', usage_row.period_end)::TEXT,
+            HINT = CASE usage_row.plan
+                WHEN 'free' THEN 'Upgrade to Professional to raise this limit'
+                WHEN 'pro' THEN 'Upgrade to Enterprise to raise this limit'
+                ELSE 'Contact sales to raise this limit'
+            END;
+    END IF;
+
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER IF EXISTS enforce_project_limit ON public.projects;
+CREATE TRIGGER enforce_project_limit BEFORE INSERT ON public.projects
+    FOR EACH ROW EXECUTE FUNCTION enforce_plan_limit('projects');
+
+DROP TRIGGER IF EXISTS enforce_deployment_limit ON public.deployments;
+CREATE TRIGGER enforce_deployment_limit BEFORE INSERT ON public.deployments
+    FOR EACH ROW EXECUTE FUNCTION enforce_plan_limit('deployments');
+
+DROP TRIGGER IF EXISTS enforce_storage_limit ON public.file_storage;
+CREATE TRIGGER enforce_storage_limit BEFORE INSERT ON public.file_storage
+    FOR EACH ROW EXECUTE FUNCTION enforce_plan_limit('storage_bytes');
@@ -0,0 +1,69 @@
+-- Migration: Workspace Search
+-- Description: Full-text search over a user's projects and project files, with prefix matching for search-as-you-type
+-- Version: 015
+-- Date: 2026-10-18
+
+-- Names weigh most, then features, then descriptions
+ALTER TABLE public.projects ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(name, '')), 'A') ||
+        setweight(to_tsvector('english', COALESCE(config->>'features', '')), 'B') ||
+        setweight(to_tsvector('english', COALESCE(description, '')), 'C')
+    ) STORED;
+
+-- Paths are split into words so "components/Header.tsx" matches "header". Only the first
+-- 256 KB of content is indexed; tsvectors are capped at 1 MB.
+ALTER TABLE project_files ADD COLUMN IF NOT EXISTS search_vector TSVECTOR
+    GENERATED ALWAYS AS (
+        setweight(to_tsvector('english', COALESCE(filename, '')), 'A') ||
+        setweight(to_tsvector('english', regexp_replace(COALESCE(filepath, ''), '[^[:alnum:]]+', ' ', 'g')), 'B') ||
+        setweight(to_tsvector('english', left(COALESCE(content, ''), 262144)), 'D')
+    ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_projects_search_vector ON public.projects USING GIN (search_vector);
+CREATE INDEX IF NOT EXISTS idx_project_files_search_vector ON project_files USING GIN (search_vector);
+
+-- Every word of the query must match, as a word or the start of one, so results keep up
+-- with typing. Highlights are only computed for the rows returned.
+CREATE OR REPLACE FUNCTION search_workspace(p_user_id UUID, p_query TEXT, p_limit INTEGER DEFAULT 20)
+RETURNS TABLE (
+    kind TEXT,
+    id UUID,
+    project_id UUID,
+    title TEXT,
+    path TEXT,
+    snippet TEXT,
+    rank REAL,
+    updated_at TIMESTAMPTZ
+) AS $$
+    WITH query AS (
+        SELECT to_tsquery('english', string_agg(quote_literal(word) || ':*', ' & ')) AS q
+        FROM regexp_split_to_table(lower(p_query), '[^[:alnum:]]+') AS word
+        WHERE word <> ''
+    ),
+    ranked AS (
+        SELECT 'project'::TEXT AS kind, p.id, p.id AS project_id, p.name::TEXT AS title, NULL::TEXT AS path,
+               COALESCE(NULLIF(p.description, ''), p.name)::TEXT AS body,
+               ts_rank(p.search_vector, query.q) AS rank, p.updated_at
+        FROM public.projects p, query
+        WHERE p.user_id = p_user_id AND p.search_vector @@ query.q
+        UNION ALL
+        SELECT 'file', f.id, f.project_id, f.filename::TEXT, f.filepath::TEXT,
+               left(COALESCE(f.content, ''), 262144),
+               ts_rank(f.search_vector, query.q), f.updated_at
+        FROM project_files f
+        JOIN public.projects p ON p.id = f.project_id, query
+        WHERE p.user_id = p_user_id AND f.search_vector @@ query.q
+        ORDER BY rank DESC, updated_at DESC
+        LIMIT LEAST(GREATEST(p_limit, 1), 50)
+    )
+    SELECT ranked.kind, ranked.id, ranked.project_id, ranked.title, ranked.path,
+           ts_headline('english', ranked.body, query.q,
+               'StartSel=<mark>, StopSel=</mark>, MaxWords=24, MinWords=8, MaxFragments=2, FragmentDelimiter=" … "'),
+           ranked.rank, ranked.updated_at
+    FROM ranked, query
+    ORDER BY ranked.rank DESC, ranked.updated_at DESC;
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION search_workspace(UUID, TEXT, INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION search_workspace(UUID, TEXT, INTEGER) TO service_role;
@@ -0,0 +1,48 @@
+-- Migration: Assessment Results
+-- Description: Store graded assessment attempts and the study progress rebuilt from them
+-- Version: 016
+-- Date: 2026-10-19
+
+CREATE TABLE IF NOT EXISTS public.assessment_attempts (
+    id UUID DEFAULT gen_random_uuid() PRIMARY KEY,
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+    content_id TEXT NOT NULL,
+    assessment_id TEXT NOT NULL,
+    path_id TEXT NOT NULL,
+    module_id TEXT NOT NULL,
+    responses JSONB NOT NULL DEFAULT '{}',
+    grades JSONB NOT NULL DEFAULT '[]',
+    score NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    max_score NUMERIC(8, 2) NOT NULL DEFAULT 0,
+    status TEXT NOT NULL DEFAULT 'needs-review' CHECK (status IN ('graded', 'needs-review')),
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    submitted_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT NOW(),
+    reviewed_at TIMESTAMP WITH TIME ZONE
+);
+
+-- One row per learner and path; the client rebuilds it from the attempts after each change
+CREATE TABLE IF NOT EXISTS public.study_progress (
+    user_id UUID NOT NULL REFERENCES public.users(id) ON DELETE CASCADE DEFAULT auth.uid(),
+    path_id TEXT NOT NULL,
+    started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    last_accessed_at TIMESTAMP WITH TIME ZONE NOT NULL,
+    completed_modules TEXT[] NOT NULL DEFAULT '{}',
+    current_module TEXT,
+    overall_progress INTEGER NOT NULL DEFAULT 0 CHECK (overall_progress BETWEEN 0 AND 100),
+    time_spent INTEGER NOT NULL DEFAULT 0,
+    scores JSONB NOT NULL DEFAULT '{}',
+    PRIMARY KEY (user_id, path_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_assessment_attempts_user_path
+    ON public.assessment_attempts(user_id, path_id, submitted_at DESC);
+CREATE INDEX IF NOT EXISTS idx_assessment_attempts_user_submitted
+    ON public.assessment_attempts(user_id, submitted_at DESC);
+
+ALTER TABLE public.assessment_attempts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.study_progress ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users manage own assessment attempts" ON public.assessment_attempts
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
+CREATE POLICY "Users manage own study progress" ON public.study_progress
+    FOR ALL USING (auth.uid() = user_id) WITH CHECK (auth.uid() = user_id);
@@ -0,0 +1,96 @@
+#!/usr/bin/env ts-node
+
+/**
+ * FlashFusion Generated Project Verifier
+ *
+ * Materializes generated apps, installs them, type-checks them and runs their
+ * generated tests, then writes a JSON report the Full-Stack App Builder can
+ * display.
+ *
+ * Usage:
+ *   ts-node tools/verify-generated-project.ts <app.json> [--out report.json]
+ *   ts-node tools/verify-generated-project.ts --matrix [--out-dir reports]
+ *
+ * Options:
+ *   --cache <dir>     install offline from this npm cache
+ *   --registry <url>  install from this registry
+ *   --keep            leave the materialized project on disk
+ *
+ * Exits non-zero when any verified project fails.
+ */
+
+import fs from "node:fs";
+import path from "node:path";
+import type { GeneratedApp } from "../types/full-stack-builder";
+import { templateApp, verificationMatrix, type VerificationReport } from "../utils/project-verification";
+import { verifyGeneratedProject, type VerifyProjectOptions } from "../utils/project-verifier";
+
+const args = process.argv.slice(2);
+
+function option(name: string): string | undefined {
+  const index = args.indexOf(name);
+  return index === -1 ? undefined : args[index + 1];
+}
+
+const verifyOptions: VerifyProjectOptions = {
+  cache: option("--cache"),
+  registry: option("--registry"),
+  keep: args.includes("--keep"),
+  onStep: step => console.log(`   ${step.status === "failed" ? "❌" : step.status === "skipped" ? "⏭️ " : "✅"} ${step.package} ${step.name} (${step.durationMs}ms)`)
+};
+
+function summarize(report: VerificationReport & { directory?: string }): void {
+  console.log(`${report.ok ? "✅" : "❌"} ${report.app}: ${report.diagnostics.length} type errors, ${report.tests.failed}/${report.tests.total} tests failing`);
+  for (const diagnostic of report.diagnostics) {
+    console.log(`   ${diagnostic.file}:${diagnostic.line}:${diagnostic.column} ${diagnostic.code} ${diagnostic.message}`);
+  }
+  for (const failure of report.tests.failures) {
+    console.log(`   ${failure.file} › ${failure.name}`);
+  }
+  if (report.directory) console.log(`   📁 ${report.directory}`);
+}
+
+function writeReport(file: string, report: VerificationReport): void {
+  fs.mkdirSync(path.dirname(file), { recursive: true });
+  fs.writeFileSync(file, JSON.stringify(report, null, 2) + "\n");
+  console.log(`📄 Report: ${file}`);
+}
+
+async function main(): Promise<boolean> {
+  if (args.includes("--matrix")) {
+    const outDir = option("--out-dir");
+    let ok = true;
+
+    for (const stack of verificationMatrix()) {
+      const app = templateApp(stack);
+      console.log(`\n🔍 ${app.name} (${Object.values(stack).join(", ")})`);
+      const report = await verifyGeneratedProject(app, verifyOptions);
+      summarize(report);
+      if (outDir) writeReport(path.join(outDir, `${Object.values(stack).join("-")}.json`), report);
+      ok = ok && report.ok;
+    }
+
+    return ok;
+  }
+
+  const appFile = args.find(arg => arg.endsWith(".json") && arg !== option("--out"));
+  if (!appFile) {
+    console.error("Usage: verify-generated-project.ts <app.json> [--out report.json] | --matrix [--out-dir dir]");
+    process.exit(2);
+  }
+
+  const app: GeneratedApp = JSON.parse(fs.readFileSync(appFile, "utf8"));
+  console.log(`🔍 Verifying ${app.name}`);
+  const report = await verifyGeneratedProject(app, verifyOptions);
+  summarize(report);
+  writeReport(option("--out") ?? `${path.basename(appFile, ".json")}.verification.json`, report);
+
+  return report.ok;
+}
+
+main()
+  .then(ok => process.exit(ok ? 0 : 1))
+  .catch((error) => {
+    console.error("❌ Verification failed to run:", error);
+    process.exit(1);
+  });
@@ -0,0 +1,85 @@
+/**
+ * Code review results, as shown by the Smart Code Review tool. Metrics and
+ * findings come from static analysis; explanations and fixes from the AI.
+ */
+
+export interface CodeReviewResult {
+  overall_score: number;
+  security_issues: SecurityIssue[];
+  performance_issues: PerformanceIssue[];
+  quality_issues: QualityIssue[];
+  best_practices: BestPracticeIssue[];
+  suggestions: AutoFixSuggestion[];
+  metrics: CodeMetrics;
+  learning_points: LearningPoint[];
+}
+
+export interface SecurityIssue {
+  id: string;
+  severity: 'critical' | 'high' | 'medium' | 'low';
+  type: string;
+  line: number;
+  description: string;
+  fix_suggestion: string;
+  cwe_id?: string;
+  references: string[];
+}
+
+export interface PerformanceIssue {
+  id: string;
+  impact: 'high' | 'medium' | 'low';
+  type: string;
+  line: number;
+  description: string;
+  suggestion: string;
+  estimated_improvement: string;
+}
+
+export interface QualityIssue {
+  id: string;
+  category: 'maintainability' | 'readability' | 'complexity' | 'duplication';
+  severity: 'error' | 'warning' | 'info';
+  line: number;
+  description: string;
+  suggestion: string;
+}
+
+export interface BestPracticeIssue {
+  id: string;
+  practice: string;
+  description: string;
+  line?: number;
+  recommendation: string;
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+}
+
+export interface AutoFixSuggestion {
+  id: string;
+  type: 'security' | 'performance' | 'quality';
+  description: string;
+  before: string;
+  after: string;
+  confidence: number;
+}
+
+export interface CodeMetrics {
+  /** Lines with code on them, not counting blank and comment-only lines */
+  lines_of_code: number;
+  /** Of the most complex function (or the top level, if that is worse) */
+  cyclomatic_complexity: number;
+  /** 0-100, from Halstead volume, complexity and size */
+  maintainability_index: number;
+  /** Can't be measured from a snippet; null unless a coverage report was loaded */
+  test_coverage: number | null;
+  /** Percentage of code lines that repeat elsewhere in the code */
+  code_duplication: number;
+  /** Estimated time to fix every finding, e.g. "1h 30m" */
+  technical_debt: string;
+}
+
+export interface LearningPoint {
+  concept: string;
+  explanation: string;
+  resources: string[];
+  difficulty: 'beginner' | 'intermediate' | 'advanced';
+}
@@ -13,6 +13,8 @@ import type {
   ContentType, 
   AssessmentType,
   FileFormat,
+  LmsExportFormat,
+  ExportFormat,
   ToolCategory,
   EducationalPlatform,
   GenerationPreset
@@ -108,6 +110,46 @@ export interface RubricScale {
   points: number;
 }
 
+// Assessment Runtime
+export interface QuestionResponse {
+  choices?: number[]; // option indexes, for multiple choice and true/false
+  text?: string;
+  matches?: string[]; // the chosen match for each matching prompt, in order
+}
+
+export interface CriterionScore {
+  criterionId: string;
+  level: number;
+  rationale?: string;
+}
+
+export interface QuestionGrade {
+  questionId: string;
+  // auto: scored from the answer key; suggested: AI rubric score awaiting review;
+  // reviewed: set by a teacher; pending: nobody has scored it yet
+  status: 'auto' | 'suggested' | 'reviewed' | 'pending';
+  points: number;
+  maxPoints: number;
+  criteria?: CriterionScore[];
+  feedback?: string;
+}
+
+export interface AssessmentAttempt {
+  id: string;
+  userId: string;
+  contentId: string;
+  assessmentId: string;
+  pathId?: string;
+  moduleId?: string;
+  responses: { [questionId: string]: QuestionResponse };
+  grades: QuestionGrade[];
+  score: number;
+  maxScore: number;
+  status: 'graded' | 'needs-review';
+  startedAt: Date;
+  submittedAt: Date;
+}
+
 export interface Resource {
   id: string;
   title: string;
@@ -392,7 +434,13 @@ export interface EducationalAnalytics {
   generationSuccess: number; // percentage
   userSatisfaction: number; // 1-5 rating
   averageGenerationTime: number; // in seconds
-  
+
+  // Assessment Analytics
+  assessmentAttempts: number;
+  averageAssessmentScore: number; // percentage
+  pendingReviews: number;
+  questionPerformance: { assessmentId: string; questionId: string; attempts: number; averageScore: number }[]; // averageScore is a percentage
+
   // Time-based Data
   period: 'day' | 'week' | 'month' | 'year';
   startDate: Date;
@@ -400,4 +448,4 @@ export interface EducationalAnalytics {
 }
 
 // Export Types
-export type { EducationalStandard, GradeLevel, SubjectArea, ContentType, AssessmentType, FileFormat, ToolCategory, EducationalPlatform, GenerationPreset };
\ No newline at end of file
+export type { EducationalStandard, GradeLevel, SubjectArea, ContentType, AssessmentType, FileFormat, LmsExportFormat, ExportFormat, ToolCategory, EducationalPlatform, GenerationPreset };
\ No newline at end of file
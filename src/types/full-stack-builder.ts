@@ -33,6 +33,85 @@ export interface GeneratedApp {
   features: string[];
   endpoints: APIEndpoint[];
   deploymentConfig: DeploymentConfig;
+  /** Entities the database, API and shared types were generated from */
+  dataModel?: DataModel;
+  /** What the generator last produced, so regeneration can tell user edits apart */
+  generation?: GenerationManifest;
+}
+
+/**
+ * Content hashes (SHA-256, hex) of every file as the generator wrote it,
+ * keyed by GeneratedFile.path
+ */
+export interface GenerationManifest {
+  version: 1;
+  generatedAt: string;
+  files: Record<string, string>;
+}
+
+export type EntityFieldType =
+  | 'string'
+  | 'text'
+  | 'email'
+  | 'integer'
+  | 'float'
+  | 'decimal'
+  | 'boolean'
+  | 'date'
+  | 'datetime'
+  | 'json'
+  | 'uuid'
+  | 'enum';
+
+export interface EntityField {
+  /** camelCase; columns are snake_case */
+  name: string;
+  type: EntityFieldType;
+  required: boolean;
+  unique?: boolean;
+  /** Literal default; `'now'` for date and datetime fields */
+  defaultValue?: string | number | boolean;
+  /** For string and email fields (default 255) */
+  maxLength?: number;
+  /** Allowed values for enum fields */
+  enumValues?: string[];
+}
+
+/**
+ * Relations are declared on the owning side: many-to-one and one-to-one add a
+ * foreign key to this entity, many-to-many adds a join table. The inverse side
+ * is derived.
+ */
+export type EntityRelationKind = 'many-to-one' | 'one-to-one' | 'many-to-many';
+
+export interface EntityRelation {
+  /** camelCase; the foreign key is `${name}Id` */
+  name: string;
+  /** Name of the related entity */
+  target: string;
+  kind: EntityRelationKind;
+  required?: boolean;
+  onDelete?: 'cascade' | 'set-null' | 'restrict';
+}
+
+export interface EntityIndex {
+  /** Field names, or relation names for their foreign keys */
+  fields: string[];
+  unique?: boolean;
+}
+
+export interface EntityDefinition {
+  /** PascalCase and singular, e.g. `BlogPost` (table `blog_posts`) */
+  name: string;
+  fields: EntityField[];
+  relations: EntityRelation[];
+  indexes: EntityIndex[];
+  /** Adds createdAt/updatedAt */
+  timestamps: boolean;
+}
+
+export interface DataModel {
+  entities: EntityDefinition[];
 }
 
 export interface FrameworkOption {
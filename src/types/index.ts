@@ -133,6 +133,7 @@ export type PageType =
   | 'home'
   | 'dashboard'
   | 'projects'
+  | 'project-detail'
   | 'tools'
   | 'tool-detail'
   | 'creator-content-pipeline'
@@ -142,6 +143,7 @@ export type PageType =
   | 'analytics'
   | 'production-analytics'
   | 'collaboration'
+  | 'live-collaboration'
   | 'integrations'
   | 'cicd'
   | 'gamification'
@@ -155,6 +157,11 @@ export type PageType =
   | 'security'
   | 'wellness'
   | 'workflows'
+  | 'ai-creation'
+  | 'one-click-publishing'
+  | 'creator-commerce'
+  | 'smart-analytics'
+  | 'quality-assurance'
   | 'content-rights'
   | 'ai-trust'
   | 'settings'
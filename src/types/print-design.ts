@@ -0,0 +1,78 @@
+/**
+ * Print designs as edited in the Print Design Suite. Element positions and
+ * sizes are in print pixels: the canvas is the product's print area at its
+ * DPI, so a 4800 × 6000 canvas at 300 DPI prints 16 × 20 inches.
+ */
+
+export interface DesignElement {
+  id: string;
+  type: 'text' | 'image' | 'shape' | 'vector';
+  /** Text, image URL, shape name, or SVG path data for vectors */
+  content: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Degrees clockwise about the element's center */
+  rotation: number;
+  opacity: number;
+  zIndex: number;
+  locked: boolean;
+  visible: boolean;
+  /** Which of the product's print areas it's on; the first area when unset */
+  printArea?: string;
+  properties: Record<string, any>;
+}
+
+export interface CanvasState {
+  elements: DesignElement[];
+  selectedElements: string[];
+  zoom: number;
+  panX: number;
+  panY: number;
+  canvasWidth: number;
+  canvasHeight: number;
+  backgroundColor: string;
+}
+
+/** The parts of a PRODUCT_TYPES entry that printing depends on */
+export interface PrintProductSpec {
+  id: string;
+  name: string;
+  printAreas: readonly string[];
+  dimensions: { width: number; height: number; dpi: number };
+}
+
+/** One print area's artwork; a PDF has a page per print area */
+export interface PrintPage {
+  printArea: string;
+  elements: DesignElement[];
+  backgroundColor: string;
+}
+
+/** Trim, bleed and safe zones of a product in print pixels */
+export interface PrintGeometry {
+  dpi: number;
+  trimWidth: number;
+  trimHeight: number;
+  bleed: number;
+  textSafe: number;
+  graphicSafe: number;
+}
+
+export type PreflightSeverity = 'error' | 'warning';
+
+export interface PreflightIssue {
+  /** Which check raised it, e.g. `resolution` or `text-safe-zone` */
+  check: string;
+  severity: PreflightSeverity;
+  message: string;
+  printArea?: string;
+  elementId?: string;
+}
+
+export interface PreflightReport {
+  /** No errors; warnings don't block publishing */
+  passed: boolean;
+  issues: PreflightIssue[];
+}
@@ -0,0 +1,74 @@
+/**
+ * Workspace search: the documents the client-side index holds, what a query
+ * returns, and the rows of the server-side full-text search.
+ */
+
+export type SearchDocumentType = 'project' | 'file' | 'tool' | 'template' | 'page' | 'documentation' | 'tutorial';
+
+/** The indexed fields, in boost order */
+export type SearchField = 'title' | 'tags' | 'description';
+
+export interface SearchDocument {
+  /** Unique across types, e.g. `tool:seo-optimizer` */
+  id: string;
+  type: SearchDocumentType;
+  title: string;
+  description: string;
+  tags: string[];
+  category?: string;
+  url?: string;
+  icon?: string;
+  /** ISO timestamp; recent documents rank higher */
+  updatedAt?: string;
+  /** How often the document is used or opened; popular documents rank higher */
+  usage?: number;
+  metadata?: Record<string, string | number | boolean>;
+}
+
+export interface SearchHit<D extends SearchDocument = SearchDocument> {
+  document: D;
+  score: number;
+  /** Fields with at least one matching term */
+  matchedFields: SearchField[];
+}
+
+export interface SearchFacets {
+  type: Record<string, number>;
+  category: Record<string, number>;
+  tags: Record<string, number>;
+}
+
+export interface SearchFilters {
+  type?: string[];
+  category?: string[];
+  tags?: string[];
+}
+
+export interface SearchOptions {
+  filters?: SearchFilters;
+  limit?: number;
+  /** Reference time for recency, in ms; defaults to now */
+  now?: number;
+}
+
+export interface SearchResponse<D extends SearchDocument = SearchDocument> {
+  hits: SearchHit<D>[];
+  /** Matches before `limit` */
+  total: number;
+  /** Counts over everything the query matched, before filters, so each filter shows what it would leave */
+  facets: SearchFacets;
+}
+
+/** A project or project file found by Postgres full-text search */
+export interface ServerSearchResult {
+  kind: 'project' | 'file';
+  id: string;
+  projectId: string;
+  title: string;
+  /** File path; null for projects */
+  path: string | null;
+  /** Matching excerpt, with matches wrapped in `<mark>` */
+  snippet: string;
+  rank: number;
+  updatedAt: string;
+}
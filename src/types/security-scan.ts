@@ -0,0 +1,86 @@
+/**
+ * Security scan results, as shown by the Security Scanner tool and exported
+ * as SARIF.
+ */
+
+export type ScanSeverity = 'critical' | 'high' | 'medium' | 'low';
+
+/** A file handed to the scanner, with its path relative to the project root */
+export interface ScanFile {
+  path: string;
+  content: string;
+}
+
+export interface ScanLocation {
+  file: string;
+  line: number;
+  column: number;
+  /** The matched line; secrets in it are redacted */
+  snippet: string;
+}
+
+export interface SecurityScanResult {
+  overall_score: number;
+  vulnerabilities: SecurityVulnerability[];
+  compliance: ComplianceCheck[];
+  dependencies: DependencyIssue[];
+  recommendations: SecurityRecommendation[];
+  scan_metadata: {
+    scan_type: string;
+    /** Seconds */
+    duration: number;
+    files_scanned: number;
+    started_at: number;
+    completed_at: number;
+  };
+}
+
+/** Every match of one rule, across all files */
+export interface SecurityVulnerability {
+  /** The rule id */
+  id: string;
+  severity: ScanSeverity;
+  category: string;
+  cwe_id: string;
+  /** OWASP Top 10 (2021) category, e.g. "A03:2021" */
+  owasp: string;
+  title: string;
+  description: string;
+  affected_files: string[];
+  locations: ScanLocation[];
+  remediation: string;
+  references: string[];
+  exploitability: number;
+  impact: number;
+}
+
+export interface ComplianceCheck {
+  standard: string;
+  status: 'compliant' | 'non_compliant' | 'partial';
+  requirements_met: number;
+  total_requirements: number;
+  details: string[];
+}
+
+export interface DependencyIssue {
+  package: string;
+  version: string;
+  /** CVE or GHSA id */
+  advisory_id: string;
+  vulnerability: string;
+  severity: ScanSeverity;
+  fix_available: boolean;
+  recommended_version: string;
+  /** Lockfile or package.json the version was read from */
+  manifest: string;
+  references: string[];
+}
+
+export interface SecurityRecommendation {
+  priority: 'high' | 'medium' | 'low';
+  category: string;
+  title: string;
+  description: string;
+  implementation_effort: string;
+  security_impact: string;
+}
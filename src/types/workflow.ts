@@ -0,0 +1,97 @@
+/**
+ * Canonical workflow graph shared by the workflow builders and the runtime in
+ * utils/workflow-engine. Builders keep their own canvas state and convert to
+ * this shape to validate, run or store a workflow.
+ */
+
+export type WorkflowNodeType = 'trigger' | 'action' | 'condition' | 'delay' | 'webhook' | 'ai';
+
+export interface WorkflowRetryPolicy {
+  /** Total attempts, including the first */
+  maxAttempts: number;
+  /** Wait before the second attempt; doubles for each attempt after that */
+  backoffMs: number;
+}
+
+export interface WorkflowNode {
+  id: string;
+  type: WorkflowNodeType;
+  label: string;
+  description?: string;
+  /**
+   * Type-specific settings:
+   * - condition: `{ field, operator, value }`
+   * - delay: `{ ms }` or `{ seconds }`
+   * - webhook: `{ url, method, headers, body }`
+   * - ai: `{ prompt, systemPrompt, model }`
+   * - action: `{ action, ...options }`
+   */
+  config: Record<string, unknown>;
+  position: { x: number; y: number };
+  retry?: WorkflowRetryPolicy;
+  timeoutMs?: number;
+}
+
+export interface WorkflowEdge {
+  id: string;
+  source: string;
+  target: string;
+  /** Outgoing edges of a condition node say which outcome they follow */
+  branch?: 'true' | 'false';
+}
+
+export interface WorkflowGraph {
+  id: string;
+  name: string;
+  description?: string;
+  nodes: WorkflowNode[];
+  edges: WorkflowEdge[];
+}
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'contains'
+  | 'greater_than'
+  | 'less_than'
+  | 'exists';
+
+export type NodeRunStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'skipped';
+
+export interface NodeExecutionLog {
+  nodeId: string;
+  label: string;
+  type: WorkflowNodeType;
+  status: NodeRunStatus;
+  attempts: number;
+  startedAt?: number;
+  completedAt?: number;
+  durationMs?: number;
+  output?: unknown;
+  error?: string;
+}
+
+export type WorkflowExecutionStatus = 'running' | 'completed' | 'failed' | 'canceled';
+
+export interface WorkflowExecution {
+  /** Database id once the execution has been stored */
+  id?: string;
+  workflowId: string;
+  status: WorkflowExecutionStatus;
+  /** Dry runs skip side effects (HTTP calls, AI calls, waits) and are not stored */
+  dryRun: boolean;
+  triggerData: Record<string, unknown>;
+  logs: NodeExecutionLog[];
+  startedAt: number;
+  completedAt?: number;
+  durationMs?: number;
+  error?: string;
+}
+
+export interface WorkflowRunStats {
+  totalRuns: number;
+  successfulRuns: number;
+  /** Percentage of completed runs, or null before the first run */
+  successRate: number | null;
+  lastRunAt: number | null;
+}
@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assessmentAnalytics,
+  gradeResponses,
+  overrideGrade,
+  progressFromAttempts,
+  readRubricSuggestion,
+  rubricPoints,
+  scoreWithRubric,
+  summarizeGrades
+} from '../assessment-grading';
+import type { Assessment, AssessmentAttempt, Rubric } from '../../types/education';
+
+const rubric: Rubric = {
+  id: 'rubric',
+  title: 'Written Response',
+  criteria: [
+    { id: 'understanding', name: 'Understanding', description: 'Accuracy', weight: 50 },
+    { id: 'evidence', name: 'Evidence', description: 'Examples', weight: 30 },
+    { id: 'clarity', name: 'Clarity', description: 'Writing', weight: 20 }
+  ],
+  scale: [
+    { level: 4, label: 'Excellent', description: 'Complete', points: 4 },
+    { level: 3, label: 'Proficient', description: 'Minor gaps', points: 3 },
+    { level: 2, label: 'Developing', description: 'Partial', points: 2 },
+    { level: 1, label: 'Beginning', description: 'Limited', points: 1 }
+  ]
+};
+
+const quiz: Assessment = {
+  id: 'quiz-1',
+  title: 'Fractions Quiz',
+  type: 'formative',
+  description: '',
+  pointsTotal: 14,
+  rubric,
+  questions: [
+    { id: 'q1', type: 'multiple-choice', question: 'Which equals 1/2?', options: ['2/4', '1/3', '3/6'], correctAnswer: ['A', 'C'], points: 2, difficulty: 'easy' },
+    { id: 'q2', type: 'true-false', question: '3/3 equals 1.', correctAnswer: 'True', points: 1, difficulty: 'easy' },
+    { id: 'q3', type: 'fill-blank', question: 'The top number is the ____.', correctAnswer: ['numerator'], points: 2, difficulty: 'medium' },
+    { id: 'q4', type: 'matching', question: 'Match.', options: ['1/4', '1/2'], correctAnswer: ['0.25', '0.5'], points: 2, difficulty: 'medium' },
+    { id: 'q5', type: 'essay', question: 'Why do fractions exist?', correctAnswer: [], points: 4, difficulty: 'hard' },
+    { id: 'q6', type: 'short-answer', question: 'Name a fraction.', correctAnswer: [], points: 3, difficulty: 'easy' }
+  ]
+};
+
+function attempt(overrides: Partial<AssessmentAttempt>): AssessmentAttempt {
+  return {
+    id: 'a1',
+    userId: 'u1',
+    contentId: 'lesson-1',
+    assessmentId: 'quiz-1',
+    responses: {},
+    grades: [],
+    score: 0,
+    maxScore: 10,
+    status: 'graded',
+    startedAt: new Date('2024-01-01T10:00:00Z'),
+    submittedAt: new Date('2024-01-01T10:20:00Z'),
+    ...overrides
+  };
+}
+
+describe('assessment grading', () => {
+  it('scores objective answers from the key and leaves written answers for the rubric', () => {
+    const grades = gradeResponses(quiz, {
+      q1: { choices: [0, 1] },
+      q2: { choices: [0] },
+      q3: { text: '  Numerator. ' },
+      q4: { matches: ['0.25', '0.25'] },
+      q5: { text: 'Because wholes get shared.' },
+      q6: { text: '   ' }
+    });
+
+    expect(grades.map(grade => [grade.status, grade.points])).toEqual([
+      ['auto', 0], // one right and one wrong choice cancel out
+      ['auto', 1],
+      ['auto', 2],
+      ['auto', 1],
+      ['pending', 0],
+      ['auto', 0] // blank
+    ]);
+    expect(summarizeGrades(grades)).toEqual({ score: 4, maxScore: 14, status: 'needs-review' });
+  });
+
+  it('weights rubric levels by criterion and lets a teacher override the result', () => {
+    const criteria = [
+      { criterionId: 'understanding', level: 4 },
+      { criterionId: 'evidence', level: 2 },
+      { criterionId: 'clarity', level: 3 }
+    ];
+    // (0.5 × 4/4 + 0.3 × 2/4 + 0.2 × 3/4) × 4 points
+    expect(rubricPoints(rubric, criteria, 4)).toBe(3.2);
+
+    const pending = { questionId: 'q5', status: 'pending' as const, points: 0, maxPoints: 4 };
+    const suggested = scoreWithRubric(pending, rubric, criteria, { reviewed: false, feedback: 'Add an example.' });
+    expect(suggested).toMatchObject({ status: 'suggested', points: 3.2, feedback: 'Add an example.' });
+    expect(summarizeGrades([suggested]).status).toBe('needs-review');
+
+    const overridden = overrideGrade(suggested, 9);
+    expect(overridden).toEqual({ questionId: 'q5', status: 'reviewed', points: 4, maxPoints: 4, feedback: 'Add an example.' });
+    expect(summarizeGrades([overridden]).status).toBe('graded');
+  });
+
+  it('accepts a model suggestion only when every criterion has a level from the scale', () => {
+    const suggestion = readRubricSuggestion({
+      criteria: [
+        { criterion_id: 'understanding', level: 3, rationale: ' Mostly accurate. ' },
+        { criterion_id: 'evidence', level: 2 },
+        { criterion_id: 'clarity', level: 4, rationale: 7 },
+        { criterion_id: 'extra', level: 1 }
+      ],
+      feedback: 'Good start.'
+    }, rubric);
+
+    expect(suggestion).toEqual({
+      criteria: [
+        { criterionId: 'understanding', level: 3, rationale: 'Mostly accurate.' },
+        { criterionId: 'evidence', level: 2, rationale: undefined },
+        { criterionId: 'clarity', level: 4, rationale: undefined }
+      ],
+      feedback: 'Good start.'
+    });
+    expect(readRubricSuggestion({ criteria: [{ criterion_id: 'understanding', level: 3 }] }, rubric)).toBeNull();
+    expect(readRubricSuggestion({ criteria: [
+      { criterion_id: 'understanding', level: 5 },
+      { criterion_id: 'evidence', level: 2 },
+      { criterion_id: 'clarity', level: 2 }
+    ] }, rubric)).toBeNull();
+  });
+
+  it('rebuilds study progress from the best graded attempt per module', () => {
+    const progress = progressFromAttempts('u1', 'lesson-1', ['quiz-1', 'quiz-2'], [
+      attempt({ score: 6 }),
+      attempt({ id: 'a2', score: 9, startedAt: new Date('2024-01-02T10:00:00Z'), submittedAt: new Date('2024-01-02T10:10:00Z') }),
+      attempt({ id: 'a3', assessmentId: 'quiz-2', score: 10, status: 'needs-review', submittedAt: new Date('2024-01-01T10:05:00Z') })
+    ]);
+
+    expect(progress).toEqual({
+      userId: 'u1',
+      pathId: 'lesson-1',
+      startedAt: new Date('2024-01-01T10:00:00Z'),
+      lastAccessedAt: new Date('2024-01-02T10:10:00Z'),
+      completedModules: ['quiz-1'],
+      currentModule: 'quiz-2',
+      overallProgress: 50,
+      timeSpent: 35,
+      scores: { 'quiz-1': 90 }
+    });
+    expect(progressFromAttempts('u1', 'lesson-1', ['quiz-1'], [])).toBeNull();
+  });
+
+  it('summarizes attempts for analytics from final scores only', () => {
+    const analytics = assessmentAnalytics([
+      attempt({
+        score: 5,
+        grades: [
+          { questionId: 'q1', status: 'auto', points: 2, maxPoints: 2 },
+          { questionId: 'q5', status: 'reviewed', points: 1, maxPoints: 4 }
+        ]
+      }),
+      attempt({
+        id: 'a2',
+        score: 8,
+        status: 'needs-review',
+        grades: [
+          { questionId: 'q1', status: 'auto', points: 0, maxPoints: 2 },
+          { questionId: 'q5', status: 'suggested', points: 4, maxPoints: 4 }
+        ]
+      })
+    ]);
+
+    expect(analytics).toEqual({
+      assessmentAttempts: 2,
+      averageAssessmentScore: 50,
+      pendingReviews: 1,
+      questionPerformance: [
+        { assessmentId: 'quiz-1', questionId: 'q5', attempts: 1, averageScore: 25 },
+        { assessmentId: 'quiz-1', questionId: 'q1', attempts: 2, averageScore: 50 }
+      ]
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { describe, it, expect } from 'vitest';
+import { analyzeCode, readReviewExplanation } from '../code-analysis';
+
+const TYPESCRIPT = `import { formatPrice, roundTo } from './money';
+
+export function orderTotal(items: Item[], discount: number, options: any) {
+  var total = 0;
+  for (const item of items) {
+    for (const other of items) {
+      if (item.id == other.id && item.bundle) total -= discount;
+    }
+    if (item.price > 100) total += item.price * 0.9;
+    else if (item.price > 50) total += item.price * 0.95;
+    else total += item.price;
+  }
+  const label = formatPrice(total);
+  return total;
+  console.log(label);
+}
+`;
+
+const DUPLICATED = `export function first(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const spread = sorted[sorted.length - 1] - sorted[0];
+  return { median, spread };
+}
+
+export function second(values: number[]) {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  const median = sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+  const spread = sorted[sorted.length - 1] - sorted[0];
+  return { median, spread, count: values.length };
+}
+`;
+
+const PYTHON = `import os
+from typing import Dict, List
+
+def summarize(rows: List[dict], seen=[]):
+    """Totals per key.
+
+    if this were code it would count"""
+    totals = {}
+    for row in rows:
+        for key in row:
+            if key == None or key in seen:
+                continue
+            totals[key] = totals.get(key, 0) + row[key]
+    try:
+        os.remove("cache")
+    except:
+        pass
+    return totals
+`;
+
+describe('code analysis', () => {
+  it('measures TypeScript functions and reports what is wrong with them', async () => {
+    const analysis = await analyzeCode(TYPESCRIPT, 'typescript');
+
+    expect(analysis.functions).toEqual([
+      { name: 'orderTotal', line: 3, length: 14, complexity: 7, parameters: 3, maxNesting: 3 }
+    ]);
+    expect(analysis.metrics).toMatchObject({ lines_of_code: 15, cyclomatic_complexity: 7, test_coverage: null, code_duplication: 0 });
+    expect(analysis.quality_issues.map(issue => [issue.line, issue.description])).toEqual([
+      [1, "Import 'roundTo' is never used"],
+      [3, "Parameter 'options' is never used"],
+      [15, 'Unreachable code after the return on line 14']
+    ]);
+    expect(analysis.performance_issues.map(issue => [issue.line, issue.type])).toEqual([[6, 'Nested loop']]);
+    expect(analysis.best_practices.map(issue => [issue.line, issue.practice])).toEqual([
+      [3, 'Type safety'],
+      [4, 'Block-scoped declarations'],
+      [7, 'Strict equality'],
+      [15, 'Debugging leftovers']
+    ]);
+    expect(analysis.quality_issues.map(issue => issue.id)).toEqual(['1', '2', '3']);
+  });
+
+  it('finds repeated blocks and counts them towards duplication', async () => {
+    const analysis = await analyzeCode(DUPLICATED, 'typescript');
+
+    expect(analysis.quality_issues).toEqual([
+      expect.objectContaining({ category: 'duplication', line: 10, description: 'Lines 10-13 repeat lines 2-5' })
+    ]);
+    expect(analysis.metrics.code_duplication).toBe(57);
+  });
+
+  it('reads Python blocks from indentation, ignoring strings and comments', async () => {
+    const analysis = await analyzeCode(PYTHON, 'python');
+
+    expect(analysis.functions).toEqual([
+      { name: 'summarize', line: 4, length: 15, complexity: 6, parameters: 2, maxNesting: 3 }
+    ]);
+    expect(analysis.quality_issues.map(issue => issue.description)).toEqual(["Import 'Dict' is never used"]);
+    expect(analysis.performance_issues.map(issue => [issue.line, issue.type])).toEqual([[10, 'Nested loop']]);
+    expect(analysis.best_practices.map(issue => [issue.line, issue.practice])).toEqual([
+      [4, 'Mutable default argument'],
+      [11, 'Identity comparison'],
+      [16, 'Error handling'],
+      [16, 'Error handling']
+    ]);
+    await expect(analyzeCode('fn main() {}', 'rust')).rejects.toThrow('No static analyzer for rust');
+  });
+
+  it('keeps only AI fixes that apply to the reviewed code', () => {
+    const explanation = readReviewExplanation({
+      suggestions: [
+        { type: 'quality', description: 'Use const', before: 'var  total = 0;', after: 'let total = 0;', confidence: 130 },
+        { type: 'quality', description: 'Invented', before: 'let x = compute();', after: 'const x = compute();' },
+        { description: 'Missing before' }
+      ],
+      learning_points: [{ concept: 'Hoisting', explanation: 'var declarations are hoisted', difficulty: 'expert' }]
+    }, TYPESCRIPT);
+
+    expect(explanation).toEqual({
+      suggestions: [
+        { id: '1', type: 'quality', description: 'Use const', before: 'var  total = 0;', after: 'let total = 0;', confidence: 100 }
+      ],
+      learning_points: [
+        { concept: 'Hoisting', explanation: 'var declarations are hoisted', resources: [], difficulty: 'intermediate' }
+      ]
+    });
+  });
+});
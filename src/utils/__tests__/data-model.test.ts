@@ -0,0 +1,153 @@
+import { describe, it, expect } from 'vitest';
+import { createDefaultDataModel, validateDataModel } from '../data-model';
+import {
+  generateAPIEndpoints,
+  generateDatabaseSchema,
+  generateInitialMigration,
+  generatePrismaSchema
+} from '../full-stack-config-generators';
+import { generateEntityValidation, generateSharedTypes } from '../full-stack-code-generators';
+import type { DataModel } from '../../types/full-stack-builder';
+
+const blog: DataModel = {
+  entities: [
+    {
+      name: 'Author',
+      fields: [
+        { name: 'displayName', type: 'string', required: true, maxLength: 80 },
+        { name: 'email', type: 'email', required: true, unique: true }
+      ],
+      relations: [],
+      indexes: [],
+      timestamps: true
+    },
+    {
+      name: 'BlogPost',
+      fields: [
+        { name: 'title', type: 'string', required: true },
+        { name: 'status', type: 'enum', required: true, enumValues: ['draft', 'published'], defaultValue: 'draft' },
+        { name: 'price', type: 'decimal', required: false },
+        { name: 'publishedAt', type: 'datetime', required: false }
+      ],
+      relations: [
+        { name: 'author', target: 'Author', kind: 'many-to-one', required: true, onDelete: 'cascade' },
+        { name: 'editor', target: 'Author', kind: 'many-to-one' },
+        { name: 'tags', target: 'Tag', kind: 'many-to-many' }
+      ],
+      indexes: [{ fields: ['author', 'publishedAt'] }],
+      timestamps: true
+    },
+    {
+      name: 'Tag',
+      fields: [{ name: 'label', type: 'string', required: true, unique: true }],
+      relations: [],
+      indexes: [],
+      timestamps: false
+    }
+  ]
+};
+
+describe('data model', () => {
+  it('accepts a valid model and reports mistakes by entity and member', () => {
+    expect(validateDataModel(blog)).toEqual([]);
+
+    const broken: DataModel = {
+      entities: [
+        {
+          name: 'post',
+          fields: [
+            { name: 'title', type: 'string', required: true },
+            { name: 'title', type: 'enum', required: false },
+            { name: 'createdAt', type: 'datetime', required: false }
+          ],
+          relations: [{ name: 'owner', target: 'User', kind: 'many-to-one', required: true, onDelete: 'set-null' }],
+          indexes: [{ fields: ['missing'] }],
+          timestamps: true
+        }
+      ]
+    };
+
+    expect(validateDataModel(broken)).toEqual([
+      'Entity "post" must be PascalCase letters and digits',
+      'post.title is defined more than once',
+      'post.title: enum fields need at least one value',
+      'post.createdAt is defined more than once',
+      'post.owner: unknown entity User',
+      'post.owner: a required relation cannot be set to null on delete',
+      'post: index field missing is not a column of this entity'
+    ]);
+  });
+
+  it('derives the default model from the selected features', () => {
+    const model = createDefaultDataModel(['User Authentication & Authorization', 'Analytics & Reporting']);
+    expect(model.entities.map(entity => entity.name)).toEqual(['User', 'Session', 'Role', 'AnalyticsEvent']);
+    expect(validateDataModel(model)).toEqual([]);
+  });
+});
+
+describe('data model generators', () => {
+  it('emits PostgreSQL tables, enum types, foreign keys, join tables and indexes', () => {
+    const sql = generateDatabaseSchema('postgresql', [], blog);
+
+    expect(sql).toContain(`CREATE TYPE blog_posts_status AS ENUM ('draft', 'published');`);
+    expect(sql).toContain(`CREATE TABLE blog_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  title VARCHAR(255) NOT NULL,
+  status blog_posts_status NOT NULL DEFAULT 'draft',
+  price NUMERIC(12, 2),
+  published_at TIMESTAMP WITH TIME ZONE,
+  author_id UUID NOT NULL,
+  editor_id UUID,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT CURRENT_TIMESTAMP
+);`);
+    expect(sql).toContain('ALTER TABLE blog_posts ADD CONSTRAINT fk_blog_posts_author_id FOREIGN KEY (author_id) REFERENCES authors(id) ON DELETE CASCADE;');
+    expect(sql).toContain('ALTER TABLE blog_posts ADD CONSTRAINT fk_blog_posts_editor_id FOREIGN KEY (editor_id) REFERENCES authors(id) ON DELETE SET NULL;');
+    expect(sql).toContain('PRIMARY KEY (blog_post_id, tag_id)');
+    expect(sql).toContain('CREATE INDEX idx_blog_posts_author_id_published_at ON blog_posts(author_id, published_at);');
+    expect(sql).toContain('CREATE TRIGGER update_blog_posts_updated_at');
+    expect(sql).not.toContain('update_tags_updated_at');
+
+    expect(generateInitialMigration([], blog, 'mysql')).toContain(`status ENUM('draft', 'published') NOT NULL DEFAULT 'draft'`);
+    expect(generateInitialMigration([], blog, 'mongodb')).toContain(`db.createCollection('blog_posts', {`);
+  });
+
+  it('maps the Prisma schema onto the same tables and columns', () => {
+    const prisma = generatePrismaSchema('postgresql', blog);
+
+    expect(prisma).toContain('provider = "postgresql"');
+    expect(prisma).toContain('  authorId String @map("author_id") @db.Uuid');
+    expect(prisma).toContain('  author Author @relation("BlogPost_author", fields: [authorId], references: [id], onDelete: Cascade)');
+    expect(prisma).toContain('  editor Author? @relation("BlogPost_editor", fields: [editorId], references: [id], onDelete: SetNull)');
+    // Two relations to Author, so the inverse sides are qualified
+    expect(prisma).toContain('  blogPostsByAuthor BlogPost[] @relation("BlogPost_author")');
+    expect(prisma).toContain('  blogPostsByEditor BlogPost[] @relation("BlogPost_editor")');
+    expect(prisma).toContain('  tags BlogPostTags[] @relation("BlogPostTags_blogPost")');
+    expect(prisma).toContain('  blogPostTags BlogPostTags[] @relation("BlogPostTags_tag")');
+    expect(prisma).toContain('  @@id([blogPostId, tagId])\n  @@index([tagId])\n  @@map("blog_post_tags")');
+    expect(prisma).toContain('  status BlogPostStatus @default(draft)');
+    expect(prisma).toContain('enum BlogPostStatus {\n  draft\n  published\n\n  @@map("blog_posts_status")\n}');
+    expect(prisma).toContain('  @@index([authorId, publishedAt])\n  @@map("blog_posts")');
+  });
+
+  it('emits CRUD endpoints, validation and shared types for every entity', () => {
+    const endpoints = generateAPIEndpoints([], blog).map(endpoint => `${endpoint.method} ${endpoint.path}`);
+    expect(endpoints).toEqual(expect.arrayContaining([
+      'GET /api/authors',
+      'POST /api/blog-posts',
+      'PUT /api/blog-posts/:id',
+      'DELETE /api/tags/:id'
+    ]));
+
+    const validation = generateEntityValidation(blog);
+    expect(validation).toContain('export const validateBlogPostUpdate');
+    expect(validation).toContain(`  status: { type: 'enum', required: false, nullable: false, values: ['draft', 'published'] },`);
+    expect(validation).toContain(`  tagIds: { type: 'ids', required: false, nullable: false }\n};`);
+
+    const types = generateSharedTypes(blog, 'postgresql');
+    expect(types).toContain(`export type BlogPostStatus = 'draft' | 'published';`);
+    expect(types).toContain('export interface BlogPost {\n  id: string;\n  title: string;\n  status: BlogPostStatus;\n  price: string | null;');
+    expect(types).toContain('export interface BlogPostCreateInput {\n  title: string;\n  status?: BlogPostStatus;\n  price?: string | number | null;');
+    expect(types).toContain('  authorId: string;\n  editorId?: string | null;');
+  });
+});
@@ -0,0 +1,185 @@
+import { describe, it, expect } from 'vitest';
+import {
+  contentBlocks,
+  correctChoiceIndexes,
+  exportCommonCartridge,
+  exportQti,
+  renderDocx,
+  renderEducationalContent,
+  renderMarkdown,
+  renderMoodleXml,
+  renderPdf
+} from '../education-export';
+import type { Assessment, EducationalContent } from '../../types/education';
+
+const quiz: Assessment = {
+  id: 'quiz-1',
+  title: 'Fractions Quiz',
+  type: 'formative',
+  description: 'Check your understanding of fractions.',
+  pointsTotal: 9,
+  timeLimit: 15,
+  questions: [
+    {
+      id: 'q1',
+      type: 'multiple-choice',
+      question: 'Which fraction equals 1/2?',
+      options: ['2/4', '1/3', '3/4'],
+      correctAnswer: 'a)',
+      points: 2,
+      difficulty: 'easy'
+    },
+    { id: 'q2', type: 'true-false', question: '3/3 equals 1.', correctAnswer: 'True', points: 1, difficulty: 'easy' },
+    {
+      id: 'q3',
+      type: 'fill-blank',
+      question: 'The top number of a fraction is the ____.',
+      correctAnswer: ['numerator', 'Numerator'],
+      points: 2,
+      difficulty: 'medium'
+    },
+    {
+      id: 'q4',
+      type: 'matching',
+      question: 'Match each fraction to its decimal.',
+      options: ['1/4', '1/2'],
+      correctAnswer: ['0.25', '0.5'],
+      points: 2,
+      difficulty: 'medium'
+    },
+    { id: 'q5', type: 'essay', question: 'Why do fractions & decimals <both> exist?', correctAnswer: [], points: 2, difficulty: 'hard' }
+  ]
+};
+
+const lesson: EducationalContent = {
+  id: 'lesson-1',
+  title: 'Understanding Fractions',
+  description: 'An introduction to fractions.',
+  type: 'educator',
+  subject: 'mathematics',
+  gradeLevel: '4th Grade',
+  topic: 'Fractions',
+  objectives: [{ id: 'o1', description: 'Compare fractions', bloomLevel: 'analyze', measurable: true }],
+  content: [
+    {
+      id: 's1',
+      title: 'Warm Up',
+      type: 'introduction',
+      content: 'Cut a pizza into equal slices.',
+      duration: 10,
+      materials: ['Paper plates'],
+      instructions: ['Fold the plate', 'Shade one part']
+    }
+  ],
+  assessments: [quiz],
+  resources: [],
+  metadata: {
+    duration: 45,
+    difficulty: 'beginner',
+    prerequisites: [],
+    keywords: ['fractions'],
+    tags: [],
+    language: 'en-US',
+    accessibility: [],
+    lastModified: new Date('2024-01-01T00:00:00Z')
+  },
+  generatedAt: new Date('2024-01-01T00:00:00Z'),
+  generatedBy: 'test',
+  version: '1.0.0',
+  status: 'draft'
+};
+
+/** Throws unless every element in `xml` is closed in order */
+function assertWellFormed(xml: string) {
+  const open: string[] = [];
+  for (const [, closing, name, selfClosing] of xml.matchAll(/<(\/?)([A-Za-z][\w:.-]*)[^>]*?(\/?)>/g)) {
+    if (closing) {
+      expect(open.pop()).toBe(name);
+    } else if (!selfClosing) {
+      open.push(name);
+    }
+  }
+  expect(open).toEqual([]);
+}
+
+function latin1(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+}
+
+describe('education export', () => {
+  it('resolves answers stored as option text or letters', () => {
+    expect(correctChoiceIndexes(quiz.questions[0])).toEqual([0]);
+    expect(correctChoiceIndexes(quiz.questions[1])).toEqual([0]);
+    expect(correctChoiceIndexes({ ...quiz.questions[0], correctAnswer: ['1/3', 'C'] })).toEqual([1, 2]);
+  });
+
+  it('renders a Word document with styled headings, restarting numbered lists and escaped text', () => {
+    const files = renderDocx(contentBlocks(lesson, { answerKey: true }), { title: lesson.title, created: lesson.generatedAt });
+    const document = files['word/document.xml'];
+
+    expect(Object.keys(files)).toEqual(expect.arrayContaining([
+      '[Content_Types].xml', '_rels/.rels', 'word/document.xml', 'word/styles.xml', 'word/numbering.xml', 'word/_rels/document.xml.rels'
+    ]));
+    expect(document).toContain('<w:pStyle w:val="Title"/></w:pPr><w:r><w:t xml:space="preserve">Understanding Fractions</w:t>');
+    expect(document).toContain('Why do fractions &amp; decimals &lt;both&gt; exist?');
+    // Objectives, instructions and the answer key each number from 1
+    expect(files['word/numbering.xml'].match(/<w:startOverride w:val="1"\/>/g)).toHaveLength(3);
+    Object.values(files).forEach(assertWellFormed);
+  });
+
+  it('exports QTI 2.1 items with interactions and scoring for each question type', () => {
+    const { files, warnings } = exportQti([quiz], 'Fractions');
+    const item = (id: string) => files[`assessment_quiz-1/items/item_quiz-1_${id}.xml`];
+
+    expect(warnings).toEqual([]);
+    expect(item('q1')).toContain('<correctResponse><value>choice_0</value></correctResponse>');
+    expect(item('q1')).toContain('<baseValue baseType="float">2</baseValue>');
+    expect(item('q3')).toContain('<p>The top number of a fraction is the <textEntryInteraction responseIdentifier="RESPONSE" expectedLength="10"/>.</p>');
+    expect(item('q3')).toContain('<mapEntry mapKey="numerator" mappedValue="2" caseSensitive="false"/>');
+    expect(item('q4')).toContain('<value>prompt_0 match_0</value><value>prompt_1 match_1</value>');
+    expect(item('q5')).toContain('<extendedTextInteraction');
+    expect(item('q5')).not.toContain('<responseProcessing>');
+    expect(files['assessment_quiz-1/test.xml']).toContain('<timeLimits maxTime="900"/>');
+    expect(files['imsmanifest.xml']).toContain('type="imsqti_test_xmlv2p1"');
+    expect(files['imsmanifest.xml'].match(/type="imsqti_item_xmlv2p1"/g)).toHaveLength(5);
+    Object.values(files).forEach(assertWellFormed);
+  });
+
+  it('exports Moodle XML and a Common Cartridge, noting what a format cannot carry', () => {
+    const moodleWarnings: string[] = [];
+    const moodle = renderMoodleXml([quiz], moodleWarnings);
+
+    expect(moodleWarnings).toEqual([]);
+    expect(moodle).toContain('<text>$course$/top/Fractions Quiz</text>');
+    expect(moodle).toContain('<answer fraction="100" format="html"><text>&lt;p&gt;2/4&lt;/p&gt;</text></answer>');
+    expect(moodle).toContain('<answer fraction="100"><text>true</text></answer>');
+    expect(moodle).toContain('<subquestion format="html">');
+    assertWellFormed(moodle);
+
+    const cartridge = exportCommonCartridge(lesson);
+    expect(cartridge.warnings).toEqual(['Fractions Quiz, question 4 is exported as an essay because Common Cartridge has no matching questions']);
+    expect(cartridge.files['imsmanifest.xml']).toContain('type="imsqti_xmlv1p2/imscc_xmlv1p1/assessment"');
+    expect(cartridge.files['quiz_quiz-1/assessment.xml']).toContain('<fieldentry>cc.fib.v0p1</fieldentry>');
+    expect(cartridge.files['lesson/index.html']).not.toContain('Fractions Quiz');
+    Object.entries(cartridge.files).filter(([path]) => path.endsWith('.xml')).forEach(([, xml]) => assertWellFormed(xml));
+  });
+
+  it('renders a paginated PDF whose xref offsets point at each object', () => {
+    const long = { ...lesson, content: Array.from({ length: 12 }, (_, index) => ({ ...lesson.content[0], id: `s${index}` })) };
+    const pdf = latin1(renderPdf(contentBlocks(long, { answerKey: true }), { title: long.title, created: long.generatedAt }));
+    const pages = Number(pdf.match(/\/Type \/Pages \/Kids \[[^\]]*\] \/Count (\d+)/)![1]);
+
+    expect(pages).toBeGreaterThan(1);
+    expect(pdf).toContain(`(Page ${pages} of ${pages}) Tj`);
+    const xref = pdf.slice(Number(pdf.match(/startxref\n(\d+)/)![1]));
+    const offsets = [...xref.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => expect(pdf.slice(offset, offset + 12)).toMatch(new RegExp(`^${index + 1} 0 obj`)));
+  });
+
+  it('names files by format and refuses quiz formats for content without questions', () => {
+    expect(renderEducationalContent(lesson, 'common-cartridge').filename).toBe('understanding-fractions.imscc');
+    expect(renderEducationalContent(lesson, 'qti').filename).toBe('understanding-fractions-qti.zip');
+    expect(renderMarkdown(contentBlocks(lesson))).toContain('| 1. 1/4 | A. 0.25 |');
+    expect(() => renderEducationalContent({ ...lesson, assessments: [] }, 'moodle')).toThrow('no assessment questions');
+  });
+});
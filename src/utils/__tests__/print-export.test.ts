@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import { preflightDesign, printGeometry, printPages, renderPdf, renderSvg } from '../print-export';
+import { measureText } from '../pdf';
+import { PRODUCT_TYPES } from '../../constants/print-on-demand';
+import type { DesignElement, PrintProductSpec } from '../../types/print-design';
+
+const TSHIRT = PRODUCT_TYPES.APPAREL.T_SHIRT;
+const POSTER = PRODUCT_TYPES.HOME_DECOR.POSTER;
+
+const element = (id: string, fields: Partial<DesignElement>): DesignElement => ({
+  id,
+  type: 'shape',
+  content: 'rectangle',
+  x: 1000,
+  y: 1000,
+  width: 1000,
+  height: 1000,
+  rotation: 0,
+  opacity: 1,
+  zIndex: 0,
+  locked: false,
+  visible: true,
+  properties: { fill: '#336699' },
+  ...fields
+});
+
+function latin1(bytes: Uint8Array): string {
+  return Array.from(bytes, byte => String.fromCharCode(byte)).join('');
+}
+
+const preflight = (elements: DesignElement[], product: PrintProductSpec = TSHIRT) => preflightDesign({
+  product,
+  pages: printPages(product, elements, '#ffffff'),
+  canvasWidth: product.dimensions.width,
+  canvasHeight: product.dimensions.height
+});
+
+describe('print export', () => {
+  it('renders an SVG at print size with the background in the bleed and elements in paint order', () => {
+    const geometry = printGeometry(TSHIRT);
+    const svg = renderSvg({
+      printArea: 'front',
+      backgroundColor: '#000000',
+      elements: [
+        element('top', { zIndex: 2, type: 'text', content: 'Fish & Chips\nDaily', properties: { fontSize: 100, textAlign: 'center', color: '#ffffff' } }),
+        element('bottom', { zIndex: 1, rotation: 45 }),
+        element('hidden', { visible: false })
+      ]
+    }, geometry);
+
+    // 3mm at 300 DPI is 35px each side
+    expect(geometry.bleed).toBe(35);
+    expect(svg).toContain('width="16.23in" height="20.23in" viewBox="-35 -35 4870 6070"');
+    expect(svg).toContain('<rect x="-35" y="-35" width="4870" height="6070" fill="#000000"/>');
+    expect(svg.indexOf('id="bottom"')).toBeLessThan(svg.indexOf('id="top"'));
+    expect(svg).not.toContain('id="hidden"');
+    expect(svg).toContain('transform="rotate(45 1500 1500)"');
+    expect(svg).toContain('text-anchor="middle"');
+    expect(svg).toContain('>Fish &amp; Chips</tspan><tspan x="1500" y="1210">Daily</tspan>');
+  });
+
+  it('writes a PDF with a page per print area, trim and bleed boxes and a valid xref table', () => {
+    const geometry = printGeometry(TSHIRT);
+    const pages = printPages(TSHIRT, [
+      element('front-art', {}),
+      element('back-text', { type: 'text', content: 'Back (2)', printArea: 'back', properties: { fontFamily: 'Inter', fontSize: 120, color: '#000000' } })
+    ], '#ffffff');
+    const pdf = latin1(renderPdf(pages, geometry, { title: 'Tee', createdAt: new Date('2026-10-18T00:00:00Z') }));
+
+    expect(pdf.startsWith('%PDF-1.4')).toBe(true);
+    expect(pdf).toContain('/Count 2');
+    // 4800px at 300 DPI is 1152pt, plus 35px of bleed (8.4pt) on each side
+    expect(pdf).toContain('/MediaBox [0 0 1168.8 1456.8]');
+    expect(pdf).toContain('/TrimBox [8.4 8.4 1160.4 1448.4]');
+    expect(pdf).toContain('0.667 0.333 0 0.4 k');
+    expect(pdf).toContain('/BaseFont /Helvetica /Encoding /WinAnsiEncoding');
+    expect(pdf).toContain('(Back \\(2\\)) Tj');
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map(match => Number(match[1]));
+    offsets.forEach((offset, index) => expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true));
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref).startsWith('xref')).toBe(true);
+    expect(measureText('Back (2)', 'Helvetica', 1000)).toBe(3723);
+  });
+
+  it('preflights resolution, safe zones, bleed and colors against the print specs', () => {
+    const report = preflight([
+      element('low-res', { type: 'image', content: 'a.png', properties: { originalWidth: 1000, originalHeight: 1000 }, width: 2500, height: 2500 }),
+      element('mid-res', { type: 'image', content: 'b.png', properties: { originalWidth: 1400, originalHeight: 1400 }, width: 2000, height: 2000 }),
+      element('near-edge-text', { type: 'text', content: 'Hello', x: 40, properties: { fontSize: 60, color: '#000000' } }),
+      element('short-of-bleed', { x: -10, y: 2000 }),
+      element('full-bleed', { x: -35, y: -35, width: 4870, height: 6070, properties: { fill: '#ffffff' } }),
+      element('neon', { properties: { fill: '#00ff00' } })
+    ]);
+
+    const found = (id: string) => report.issues.filter(issue => issue.elementId === id).map(issue => `${issue.check}:${issue.severity}`);
+    expect(report.passed).toBe(false);
+    expect(found('low-res')).toContain('resolution:error');
+    expect(found('mid-res')).toContain('resolution:warning');
+    expect(found('near-edge-text')).toEqual(['text-safe-zone:error']);
+    expect(found('short-of-bleed')).toEqual(['bleed:warning']);
+    expect(found('full-bleed')).toEqual([]);
+    expect(found('neon')).toEqual(['cmyk:warning']);
+  });
+
+  it('passes clean designs and uses the large-format bleed for posters', () => {
+    const report = preflight([element('art', { x: 1000, y: 1000 })], POSTER);
+
+    expect(report).toEqual({ passed: true, issues: [] });
+    expect(printGeometry(POSTER).bleed).toBe(59);
+    expect(preflight([]).issues.map(issue => issue.check)).toEqual(['content']);
+  });
+});
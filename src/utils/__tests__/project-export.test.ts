@@ -0,0 +1,178 @@
+import { describe, it, expect } from 'vitest';
+import YAML from 'yaml';
+import {
+  ARCHIVE_METADATA_FILE,
+  PROJECT_EXPORT_VERSION,
+  archiveMetadata,
+  parseProjectExport,
+  projectFromArchive,
+  stringifyYAML,
+  type ProjectExport
+} from '../project-export';
+import { createGenerationManifest } from '../generation-manifest';
+import type { GeneratedApp } from '../../types/full-stack-builder';
+
+const app: GeneratedApp = {
+  name: 'Task Tracker',
+  description: 'Tracks tasks: fast & simple # not a comment',
+  stack: { frontend: 'nextjs', backend: 'nodejs-express', database: 'postgresql', auth: 'nextauth', deployment: 'vercel' },
+  files: [
+    { path: 'frontend/src/pages/index.tsx', content: 'export default function Home() {\n  return <h1>"Hi" \'there\'</h1>;\n}\n', type: 'frontend', size: 0 },
+    { path: 'backend/src/app.ts', content: '\tconst indented = true;   \n---\n...\nkey: value\n', type: 'backend', size: 0 },
+    { path: 'database/schema.sql', content: 'CREATE TABLE tasks (id serial);', type: 'database', size: 0 },
+    { path: 'README.md', content: '# Task Tracker\n\nÜñíçødé ✓ and emoji 🚀\n\n\n', type: 'config', size: 0 },
+    { path: 'VERSION', content: '1.0', type: 'config', size: 0 },
+    { path: 'flags.txt', content: 'true', type: 'config', size: 0 },
+    { path: '.env.example', content: '', type: 'config', size: 0 },
+    { path: 'windows.bat', content: 'echo one\r\necho two\r\n', type: 'config', size: 0 }
+  ],
+  features: ['Authentication', 'Real-time Collaboration'],
+  endpoints: [{ method: 'GET', path: '/api/tasks', description: 'List tasks' }],
+  deploymentConfig: { frontend: 'Deployed on vercel', backend: 'API server on Vercel Functions', database: 'Hosted postgresql instance' }
+};
+
+function buildExport(source: GeneratedApp): ProjectExport {
+  return {
+    exportVersion: PROJECT_EXPORT_VERSION,
+    metadata: { appName: source.name, format: 'yaml' },
+    app: {
+      name: source.name,
+      description: source.description,
+      stack: source.stack,
+      features: source.features,
+      endpoints: source.endpoints,
+      deploymentConfig: source.deploymentConfig,
+      sourceFiles: source.files.map(file => ({ path: file.path, type: file.type }))
+    },
+    files: {
+      ...Object.fromEntries(source.files.map(file => [file.path, file.content])),
+      'DEPLOYMENT.md': '# Deployment Guide'
+    }
+  };
+}
+
+function withoutSizes(project: GeneratedApp) {
+  return { ...project, files: project.files.map(({ size: _size, ...file }) => file) };
+}
+
+describe('project-export', () => {
+  it('round-trips a project through YAML', () => {
+    const yaml = stringifyYAML(buildExport(app));
+    const imported = parseProjectExport(yaml);
+
+    expect(withoutSizes(imported)).toEqual(withoutSizes(app));
+    expect(imported.files[0].size).toBe(new Blob([app.files[0].content]).size);
+  });
+
+  it('round-trips a project through JSON', () => {
+    const imported = parseProjectExport(JSON.stringify(buildExport(app), null, 2));
+
+    expect(withoutSizes(imported)).toEqual(withoutSizes(app));
+  });
+
+  it('keeps the data model the project was generated from', () => {
+    const dataModel = {
+      entities: [{
+        name: 'Task',
+        fields: [{ name: 'title', type: 'string' as const, required: true }],
+        relations: [],
+        indexes: [],
+        timestamps: true
+      }]
+    };
+    const exported = buildExport(app);
+    exported.app.dataModel = dataModel;
+
+    expect(parseProjectExport(stringifyYAML(exported)).dataModel).toEqual(dataModel);
+    expect(parseProjectExport(stringifyYAML(buildExport(app))).dataModel).toBeUndefined();
+  });
+
+  it('writes multi-line file contents as literal block scalars without anchors', () => {
+    const shared = { frontend: 'same', backend: 'same', database: 'same' };
+    const yaml = stringifyYAML({ ...buildExport(app), first: shared, second: shared });
+
+    expect(yaml).toContain('frontend/src/pages/index.tsx: |');
+    expect(yaml).not.toMatch(/[&*]a\d/);
+    // Values that look like other types stay strings
+    expect(YAML.parse(yaml).files['VERSION']).toBe('1.0');
+  });
+
+  it('excludes packaging extras that are not in the source manifest', () => {
+    const imported = parseProjectExport(stringifyYAML(buildExport(app)));
+
+    expect(imported.files.map(file => file.path)).not.toContain('DEPLOYMENT.md');
+  });
+
+  it('imports legacy exports without a manifest by inferring file types', () => {
+    const legacy = [
+      'metadata:',
+      '  appName: "Old App"',
+      'app:',
+      '  name: "Old App"',
+      '  description: "Exported before manifests"',
+      '  stack:',
+      '    frontend: "react"',
+      '  features:',
+      '    - "Authentication"',
+      'files:',
+      '  frontend/src/App.tsx: "export const App = () => null;\\n"',
+      '  backend/server.ts: "listen(3000)"',
+      '  database/seed.sql: "INSERT INTO users VALUES (1);"',
+      '  package.json: "{}"'
+    ].join('\n');
+
+    const imported = parseProjectExport(legacy);
+
+    expect(imported.name).toBe('Old App');
+    expect(imported.stack.frontend).toBe('react');
+    expect(imported.features).toEqual(['Authentication']);
+    expect(imported.files.map(file => [file.path, file.type])).toEqual([
+      ['frontend/src/App.tsx', 'frontend'],
+      ['backend/server.ts', 'backend'],
+      ['database/seed.sql', 'database'],
+      ['package.json', 'config']
+    ]);
+  });
+
+  it('rejects files that are not project exports', () => {
+    expect(() => parseProjectExport('name: just some yaml')).toThrow('Not a FlashFusion project export');
+    expect(() => parseProjectExport('{ not json')).toThrow('Could not read project export');
+  });
+
+  it('rejects exports whose manifest references missing files', () => {
+    const broken = buildExport(app);
+    delete broken.files['README.md'];
+
+    expect(() => parseProjectExport(stringifyYAML(broken))).toThrow('missing contents for README.md');
+  });
+
+  it('restores the generation manifest and edited archives, leaving out packaging extras', async () => {
+    const generation = await createGenerationManifest(app.files, new Date('2026-01-01T00:00:00Z'));
+    const generated = { ...app, generation };
+
+    const exported = buildExport(generated);
+    exported.metadata.generation = generation;
+    expect(parseProjectExport(JSON.stringify(exported)).generation).toEqual(generation);
+
+    // Downloaded, unpacked into a folder, edited and zipped again
+    const archive = {
+      [`task-tracker/${ARCHIVE_METADATA_FILE}`]: JSON.stringify(archiveMetadata(generated, ['DEPLOYMENT.md'])),
+      'task-tracker/DEPLOYMENT.md': '# Deployment Guide',
+      'task-tracker/backend/node_modules/express/index.js': 'module.exports = {};',
+      'task-tracker/backend/src/extra.ts': 'export const mine = true;\n',
+      ...Object.fromEntries(app.files.map(file => [`task-tracker/${file.path}`, file.content])),
+      'task-tracker/VERSION': '1.1'
+    };
+    const imported = projectFromArchive(archive);
+
+    expect(imported.generation).toEqual(generation);
+    expect(imported.stack).toEqual(app.stack);
+    expect(imported.files.find(file => file.path === 'VERSION')?.content).toBe('1.1');
+    expect(imported.files.find(file => file.path === 'backend/src/extra.ts')?.type).toBe('backend');
+    expect(imported.files.map(file => file.path)).not.toContain('DEPLOYMENT.md');
+    expect(imported.files.map(file => file.path)).not.toContain('backend/node_modules/express/index.js');
+    expect(imported.files).toHaveLength(app.files.length + 1);
+
+    expect(() => projectFromArchive({ 'README.md': '# hi' })).toThrow(`${ARCHIVE_METADATA_FILE} is missing`);
+  });
+});
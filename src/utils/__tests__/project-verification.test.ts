@@ -0,0 +1,146 @@
+import { describe, it, expect } from 'vitest';
+import {
+  diagnosticsByFile,
+  parseJestResults,
+  parseTscOutput,
+  parseVerificationReport,
+  templateApp,
+  verificationMatrix,
+  type VerificationReport
+} from '../project-verification';
+import { verifyGeneratedProject } from '../project-verifier';
+
+// Set to an npm cache holding the generated projects' dependencies to verify every stack offline
+const npmCache = process.env.FLASHFUSION_VERIFY_NPM_CACHE;
+
+describe('project verification', () => {
+  it('reads tsc diagnostics, joining continuation lines', () => {
+    const output = [
+      "src/routes/tasks.ts(12,7): error TS2322: Type 'string' is not assignable to type 'number'.",
+      "src/app.ts(3,21): error TS2345: Argument of type '{}' is not assignable to parameter of type 'Options'.",
+      "  Property 'origin' is missing in type '{}' but required in type 'Options'.",
+      'Found 2 errors in 2 files.'
+    ].join('\n');
+
+    expect(parseTscOutput(output, 'backend')).toEqual([
+      {
+        file: 'backend/src/routes/tasks.ts',
+        line: 12,
+        column: 7,
+        code: 'TS2322',
+        message: "Type 'string' is not assignable to type 'number'."
+      },
+      {
+        file: 'backend/src/app.ts',
+        line: 3,
+        column: 21,
+        code: 'TS2345',
+        message: "Argument of type '{}' is not assignable to parameter of type 'Options'.\nProperty 'origin' is missing in type '{}' but required in type 'Options'."
+      }
+    ]);
+    expect(parseTscOutput('', 'frontend')).toEqual([]);
+  });
+
+  it('reads jest results and counts suites that failed to run', () => {
+    const json = JSON.stringify({
+      numTotalTests: 3,
+      numPassedTests: 2,
+      numFailedTests: 1,
+      testResults: [
+        {
+          name: '/tmp/verify/backend/src/__tests__/app.test.ts',
+          status: 'failed',
+          assertionResults: [
+            { fullName: 'Todo Backend API GET /health returns 200', status: 'passed' },
+            { fullName: 'Todo Backend API unknown routes return 404', status: 'passed' }
+          ]
+        },
+        {
+          name: '/tmp/verify/backend/src/__tests__/auth.test.ts',
+          status: 'failed',
+          assertionResults: [
+            {
+              fullName: 'Authentication POST /api/auth/login with valid credentials',
+              status: 'failed',
+              failureMessages: ['\u001b[31mexpected 200 "OK", got 501 "Not Implemented"\u001b[39m']
+            }
+          ]
+        },
+        {
+          name: '/tmp/verify/backend/src/__tests__/orders.test.ts',
+          status: 'failed',
+          message: "Cannot find module '../routes/orders'",
+          assertionResults: []
+        }
+      ]
+    });
+
+    expect(parseJestResults(json, 'backend', '/tmp/verify/backend')).toEqual({
+      total: 4,
+      passed: 2,
+      failed: 2,
+      failures: [
+        {
+          file: 'backend/src/__tests__/auth.test.ts',
+          name: 'Authentication POST /api/auth/login with valid credentials',
+          message: 'expected 200 "OK", got 501 "Not Implemented"'
+        },
+        {
+          file: 'backend/src/__tests__/orders.test.ts',
+          name: 'Test suite failed to run',
+          message: "Cannot find module '../routes/orders'"
+        }
+      ]
+    });
+  });
+
+  it('loads reports and groups their errors by file', () => {
+    const report: VerificationReport = {
+      app: 'Todo',
+      stack: { frontend: 'nextjs', backend: 'nodejs-express', database: 'postgresql', auth: 'custom', deployment: 'vercel' },
+      startedAt: '2026-01-01T00:00:00.000Z',
+      finishedAt: '2026-01-01T00:01:00.000Z',
+      ok: false,
+      steps: [{ name: 'typecheck', package: 'backend', status: 'failed', durationMs: 900 }],
+      diagnostics: [
+        { file: 'backend/src/db.ts', line: 1, column: 1, code: 'TS2307', message: 'a' },
+        { file: 'backend/src/app.ts', line: 4, column: 2, code: 'TS2322', message: 'b' },
+        { file: 'backend/src/db.ts', line: 9, column: 3, code: 'TS2322', message: 'c' }
+      ],
+      tests: { total: 0, passed: 0, failed: 0, failures: [] }
+    };
+
+    const loaded = parseVerificationReport(JSON.stringify(report));
+    expect(diagnosticsByFile(loaded).map(([file, diagnostics]) => [file, diagnostics.length])).toEqual([
+      ['backend/src/app.ts', 1],
+      ['backend/src/db.ts', 2]
+    ]);
+    expect(() => parseVerificationReport('{"name":"todo"}')).toThrow('Not a project verification report');
+  });
+
+  it('covers every frontend, backend and database template', () => {
+    const matrix = verificationMatrix();
+    expect(matrix).toHaveLength(2 * 2 * 2);
+    expect(matrix).toContainEqual(expect.objectContaining({ frontend: 'react-vite', backend: 'nodejs-fastify', database: 'redis' }));
+
+    const app = templateApp(matrix[0]);
+    expect(app.files.map(file => file.path)).toEqual(
+      expect.arrayContaining(['backend/src/routes/tasks.ts', 'backend/src/__tests__/server.ts', 'frontend/src/pages/index.tsx'])
+    );
+  });
+
+  describe.skipIf(!npmCache)('generated projects', () => {
+    it.each(verificationMatrix().map(stack => [Object.values(stack).join(' + '), stack] as const))(
+      '%s type-checks and passes its tests',
+      async (_, stack) => {
+        const report = await verifyGeneratedProject(templateApp(stack), { cache: npmCache });
+
+        expect(report.diagnostics).toEqual([]);
+        // Only the login tests need the AI generated auth routes
+        expect(report.tests.failures.filter(failure => !failure.file.endsWith('auth.test.ts'))).toEqual([]);
+        expect(report.steps.filter(step => step.status === 'failed' && step.name !== 'test')).toEqual([]);
+      },
+      15 * 60 * 1000
+    );
+  });
+});
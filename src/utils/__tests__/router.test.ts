@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { buildPath, matchPath, normalizePathname, RouteTable, safeRedirectPath } from '../router';
+import { ROUTE_TABLE, routePath } from '../../components/layout/route-constants';
+
+describe('router', () => {
+  it('matches and builds paths with encoded parameters', () => {
+    expect(matchPath('/projects/:id', '/projects/a%20b')).toEqual({ id: 'a b' });
+    expect(matchPath('/projects/:id', '/projects')).toBeNull();
+    expect(matchPath('/projects/:id', '/projects/1/files')).toBeNull();
+    expect(matchPath('/projects/:id', '/projects/%E0%A4%A')).toBeNull();
+    expect(matchPath('/tools', '/Tools')).toBeNull();
+
+    expect(buildPath('/projects/:id/files/:fileId', { id: 'a b', fileId: 'x/y' })).toBe('/projects/a%20b/files/x%2Fy');
+    expect(() => buildPath('/projects/:id', { id: '' })).toThrow('Missing route parameter "id"');
+    expect(normalizePathname('projects//42/')).toBe('/projects/42');
+  });
+
+  it('prefers static segments over parameters and the first of two identical paths', () => {
+    const table = new RouteTable([
+      { page: 'tool', path: '/tools/:toolId' },
+      { page: 'new-tool', path: '/tools/new' },
+      { page: 'tools', path: '/tools' },
+      { page: 'duplicate', path: '/tools' }
+    ]);
+
+    expect(table.match('/tools/new')).toEqual({ page: 'new-tool', path: '/tools/new', params: {} });
+    expect(table.match('/tools/seo')?.params).toEqual({ toolId: 'seo' });
+    expect(table.match('/tools/')?.page).toBe('tools');
+    expect(table.match('/tool')).toBeNull();
+  });
+
+  it('resolves app URLs to pages and builds them back', () => {
+    expect(ROUTE_TABLE.match('/')?.page).toBe('home');
+    expect(ROUTE_TABLE.match('/projects/42')).toMatchObject({ page: 'project-detail', params: { id: '42' } });
+    expect(ROUTE_TABLE.match('/tools/code-generator')).toMatchObject({ page: 'tool-detail', params: { toolId: 'code-generator' } });
+    expect(ROUTE_TABLE.match('/workflows')?.page).toBe('no-code-workflows');
+    expect(ROUTE_TABLE.match('/workflows/qa')?.page).toBe('quality-assurance');
+    expect(ROUTE_TABLE.match('/no-such-page')).toBeNull();
+
+    expect(routePath('project-detail', { id: '42' })).toBe('/projects/42');
+    expect(routePath('collaboration')).toBe('/collaboration');
+  });
+
+  it('only redirects to paths on this site', () => {
+    expect(safeRedirectPath('/projects/42?tab=files')).toBe('/projects/42?tab=files');
+    expect(safeRedirectPath('https://evil.example')).toBe('/');
+    expect(safeRedirectPath('//evil.example')).toBe('/');
+    expect(safeRedirectPath('/\\evil.example', '/dashboard')).toBe('/dashboard');
+    expect(safeRedirectPath(null)).toBe('/');
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { SearchIndex, editDistance, projectDocuments, routeDocuments, tokenize, toolDocuments } from '../search-index';
+import { ALL_TOOLS } from '../../data/tools';
+import { ROUTE_CONFIGS } from '../../components/layout/route-constants';
+import type { SearchDocument } from '../../types/search';
+
+const NOW = Date.parse('2026-10-18T00:00:00Z');
+
+const doc = (id: string, fields: Partial<SearchDocument>): SearchDocument => ({
+  id,
+  type: 'tool',
+  title: '',
+  description: '',
+  tags: [],
+  ...fields
+});
+
+describe('search index', () => {
+  it('tokenizes case, accents, plurals and camelCase the same way for documents and queries', () => {
+    expect(tokenize('The GitHub Templates for Café apps')).toEqual(['github', 'git', 'hub', 'template', 'cafe', 'app']);
+    expect(editDistance('deploy', 'depoly', 2)).toBe(1);
+    expect(editDistance('deploy', 'analytics', 2)).toBe(3);
+  });
+
+  it('ranks title matches over tag matches over description matches', () => {
+    const index = new SearchIndex([
+      doc('described', { title: 'Uptime Monitor', description: 'Watches your stripe webhooks' }),
+      doc('tagged', { title: 'Billing Kit', tags: ['stripe'] }),
+      doc('titled', { title: 'Stripe Checkout' })
+    ]);
+
+    expect(index.search('stripe', { now: NOW }).hits.map(hit => hit.document.id)).toEqual(['titled', 'tagged', 'described']);
+    expect(index.search('stripe', { now: NOW }).hits[1].matchedFields).toEqual(['tags']);
+  });
+
+  it('matches prefixes and typos, and requires every query term', () => {
+    const index = new SearchIndex([
+      doc('deploy', { title: 'Deployment Pipeline', description: 'Ship to Vercel' }),
+      doc('logo', { title: 'Logo Generator' })
+    ]);
+
+    expect(index.search('deplo').hits.map(hit => hit.document.id)).toEqual(['deploy']);
+    expect(index.search('deplyoment pipelin').hits.map(hit => hit.document.id)).toEqual(['deploy']);
+    expect(index.search('deployment logo').total).toBe(0);
+    // Short terms get no typo budget
+    expect(index.search('log').hits.map(hit => hit.document.id)).toEqual(['logo']);
+    expect(index.search('lgo').total).toBe(0);
+  });
+
+  it('breaks ties by recency and usage, and counts facets before filters', () => {
+    const index = new SearchIndex([
+      doc('old', { type: 'project', title: 'Shop', category: 'Projects', updatedAt: '2025-01-01T00:00:00Z' }),
+      doc('new', { type: 'project', title: 'Shop', category: 'Projects', updatedAt: '2026-10-17T00:00:00Z' }),
+      doc('popular', { title: 'Shop', category: 'Generation', usage: 5000 }),
+      doc('unused', { title: 'Shop builder', category: 'Generation', usage: 0 })
+    ]);
+
+    const all = index.search('shop', { now: NOW });
+    expect(all.hits.map(hit => hit.document.id).slice(0, 2)).toEqual(['popular', 'new']);
+    expect(all.facets.type).toEqual({ project: 2, tool: 2 });
+
+    const projects = index.search('shop', { now: NOW, filters: { type: ['project'] } });
+    expect(projects.hits.map(hit => hit.document.id)).toEqual(['new', 'old']);
+    expect(projects.facets.category).toEqual({ Projects: 2, Generation: 2 });
+  });
+
+  it('indexes the app catalogs and updates documents in place', () => {
+    const index = new SearchIndex([...toolDocuments(ALL_TOOLS), ...routeDocuments(Object.values(ROUTE_CONFIGS))]);
+    const size = index.size;
+
+    expect(index.search('seo optimzer').hits[0].document).toMatchObject({ id: 'tool:seo-optimizer', url: '/tools/seo-optimizer' });
+    expect(index.search('pricing').hits[0].document).toMatchObject({ type: 'page', url: '/pricing' });
+    expect(index.get('page:tool-detail')).toBeUndefined();
+
+    index.addAll(projectDocuments([{ id: 'p1', name: 'Recipe Finder', framework: 'react', updated_at: '2026-10-01T00:00:00Z' }]));
+    index.add({ ...index.get('project:p1')!, title: 'Recipe Box' });
+    expect(index.size).toBe(size + 1);
+    expect(index.search('finder').total).toBe(0);
+    expect(index.search('recipe react').hits[0].document.title).toBe('Recipe Box');
+
+    expect(index.remove('project:p1')).toBe(true);
+    expect(index.search('recipe').total).toBe(0);
+  });
+});
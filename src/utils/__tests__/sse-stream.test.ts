@@ -0,0 +1,81 @@
+import { describe, it, expect } from 'vitest';
+import { readSSEData, isAbortError } from '../sse-stream';
+
+function streamFrom(chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    }
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): Promise<string[]> {
+  const events: string[] = [];
+  for await (const data of readSSEData(stream, signal)) {
+    events.push(data);
+  }
+  return events;
+}
+
+describe('readSSEData', () => {
+  it('yields the data payload of each event', async () => {
+    const events = await collect(streamFrom([
+      'data: {"type":"delta","content":"Hel"}\n\n',
+      'data: {"type":"delta","content":"lo"}\n\n',
+      'data: [DONE]\n\n'
+    ]));
+
+    expect(events).toEqual([
+      '{"type":"delta","content":"Hel"}',
+      '{"type":"delta","content":"lo"}',
+      '[DONE]'
+    ]);
+  });
+
+  it('reassembles events split across chunk boundaries', async () => {
+    const events = await collect(streamFrom(['da', 'ta: {"a":', '1}\r', '\n\r\ndata: x\n', '\n']));
+
+    expect(events).toEqual(['{"a":1}', 'x']);
+  });
+
+  it('joins multi-line data and ignores comments and other fields', async () => {
+    const events = await collect(streamFrom([
+      ': keep-alive\n',
+      'event: content_block_delta\n',
+      'id: 7\n',
+      'data: line one\n',
+      'data: line two\n\n'
+    ]));
+
+    expect(events).toEqual(['line one\nline two']);
+  });
+
+  it('flushes a final event without a trailing blank line', async () => {
+    const events = await collect(streamFrom(['data: last']));
+
+    expect(events).toEqual(['last']);
+  });
+
+  it('stops with an AbortError when the signal aborts', async () => {
+    const controller = new AbortController();
+    const encoder = new TextEncoder();
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        streamController.enqueue(encoder.encode('data: first\n\n'));
+      }
+    });
+
+    const received: string[] = [];
+    const consume = (async () => {
+      for await (const data of readSSEData(stream, controller.signal)) {
+        received.push(data);
+        controller.abort();
+      }
+    })();
+
+    await expect(consume).rejects.toSatisfy(isAbortError);
+    expect(received).toEqual(['first']);
+  });
+});
@@ -0,0 +1,108 @@
+import { describe, it, expect } from 'vitest';
+import { StackTemplateRegistry, stackTemplates, type StackTemplate } from '../stack-templates';
+import type { AppStack, DataModel } from '../../types/full-stack-builder';
+
+const blog: DataModel = {
+  entities: [
+    {
+      name: 'BlogPost',
+      fields: [{ name: 'title', type: 'string', required: true }],
+      relations: [{ name: 'tags', target: 'Tag', kind: 'many-to-many' }],
+      indexes: [],
+      timestamps: true
+    },
+    {
+      name: 'Tag',
+      fields: [{ name: 'label', type: 'string', required: true, unique: true }],
+      relations: [],
+      indexes: [],
+      timestamps: false
+    }
+  ]
+};
+
+const stack: AppStack = {
+  frontend: 'nextjs',
+  backend: 'nodejs-express',
+  database: 'postgresql',
+  auth: 'custom',
+  deployment: 'vercel'
+};
+
+function compose(overrides: Partial<AppStack> = {}, features: string[] = [], registry = stackTemplates) {
+  const composed = registry.compose({
+    name: 'My Blog',
+    description: 'A blog',
+    stack: { ...stack, ...overrides },
+    features,
+    dataModel: blog
+  });
+  const file = (path: string) => composed.files.find(candidate => candidate.path === path)?.content;
+  return { ...composed, file, paths: composed.files.map(candidate => candidate.path) };
+}
+
+describe('stack templates', () => {
+  it('generates the backend the stack asks for', () => {
+    const express = compose();
+    expect(express.file('backend/src/app.ts')).toContain("import express, { NextFunction, Request, Response } from 'express';");
+    expect(express.file('backend/src/routes/index.ts')).toContain(`router.use('/blog-posts', blogPostRoutes);`);
+    const expressRoutes = express.file('backend/src/routes/blog-posts.ts')!;
+    expect(expressRoutes).toContain('prisma.blogPost.findMany');
+    expect(expressRoutes).toContain('validateBlogPostCreate(req.body)');
+    expect(expressRoutes).toContain('create: tagIds.map(id => ({ tagId: id }))');
+
+    const fastify = compose({ backend: 'nodejs-fastify', database: 'redis' });
+    const app = fastify.file('backend/src/app.ts')!;
+    expect(app).toContain("import Fastify from 'fastify';");
+    expect(app).not.toContain('express');
+    expect(fastify.file('backend/src/routes/index.ts')).toContain(`app.register(blogPostRoutes, { prefix: '/blog-posts' });`);
+    const fastifyRoutes = fastify.file('backend/src/routes/tags.ts')!;
+    expect(fastifyRoutes).toContain('const records = new Map<string, Tag>();');
+    expect(fastifyRoutes).toContain(`      if (!records.delete(request.params.id)) {
+        return reply.code(404).send({ success: false, error: 'Tag not found' });
+      }`);
+    expect(fastify.paths).not.toContain('backend/prisma/schema.prisma');
+  });
+
+  it('merges every layer into the package.json files with current versions', () => {
+    const next = compose({}, ['Rate Limiting'], stackTemplates);
+    const frontend = JSON.parse(next.file('frontend/package.json')!);
+    expect(frontend.name).toBe('my-blog-frontend');
+    expect(frontend.dependencies).toMatchObject({ next: '^14.2.5', react: '^18.3.1' });
+
+    const backend = JSON.parse(next.file('backend/package.json')!);
+    expect(Object.keys(backend.dependencies)).toEqual(['@prisma/client', 'bcryptjs', 'cors', 'dotenv', 'express', 'express-rate-limit', 'jsonwebtoken']);
+    expect(backend.scripts['db:migrate']).toContain('001_initial.sql');
+
+    const vite = JSON.parse(compose({ frontend: 'react-vite', backend: 'nodejs-fastify' }).file('frontend/package.json')!);
+    expect(vite.devDependencies.vite).toBe('^5.4.0');
+    expect(vite.dependencies.next).toBeUndefined();
+  });
+
+  it('adds Dockerfiles for container platforms and the Docker feature only', () => {
+    expect(compose().paths).not.toContain('backend/Dockerfile');
+    expect(compose({ deployment: 'aws', frontend: 'react-vite' }).paths).toEqual(
+      expect.arrayContaining(['frontend/Dockerfile', 'frontend/nginx.conf', 'backend/Dockerfile'])
+    );
+    expect(compose({}, ['Docker Containerization']).file('frontend/Dockerfile')).toContain('Dockerfile for Next.js');
+  });
+
+  it('reports layers without a template and accepts new templates', () => {
+    expect(compose({ backend: 'python-django' }).missing).toEqual(['backend']);
+
+    const hono: StackTemplate = {
+      layer: 'backend',
+      ids: ['nodejs-hono'],
+      name: 'Hono',
+      packages: { backend: { dependencies: { hono: '^4.5.0' } } },
+      files: context => [{ path: 'backend/src/app.ts', content: `// ${context.dataModel.entities.length} entities`, type: 'backend' }]
+    };
+    const registry = new StackTemplateRegistry([...stackTemplates.list('frontend'), hono]);
+    const composed = compose({ backend: 'nodejs-hono' }, [], registry);
+
+    expect(composed.missing).toEqual(['database', 'auth', 'deployment']);
+    expect(composed.file('backend/src/app.ts')).toBe('// 2 entities');
+    expect(JSON.parse(composed.file('backend/package.json')!).dependencies).toEqual({ hono: '^4.5.0' });
+    expect(() => registry.register(hono)).toThrow('A backend template for "nodejs-hono" is already registered');
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { spawnSync } from 'node:child_process';
+import { mkdirSync, mkdtempSync, readFileSync, rmSync, statSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { gunzipSync } from 'node:zlib';
+import { createTarArchive, gzipBytes, defaultFileMode, type TarEntry } from '../tar-archive';
+
+// The system tar binary is the reference parser for the archives we emit
+const hasTar = spawnSync('tar', ['--version']).status === 0;
+
+const longPath = `${'deeply-nested-directory/'.repeat(8)}${'a'.repeat(120)}.ts`;
+
+const entries: TarEntry[] = [
+  { path: 'package.json', content: '{\n  "name": "demo"\n}\n' },
+  { path: 'scripts/deploy.sh', content: '#!/bin/bash\necho "deploying"\n' },
+  { path: 'src/components/Üñíçødé.tsx', content: 'export const label = "héllo";\n' },
+  { path: 'assets/blob.bin', content: new Uint8Array([0, 1, 2, 255, 254]) },
+  { path: 'bin/cli', content: 'node cli.js', mode: 0o700 },
+  { path: longPath, content: 'export {};\n' }
+];
+
+describe('tar-archive', () => {
+  const tempDirs: string[] = [];
+
+  afterEach(() => {
+    tempDirs.splice(0).forEach(dir => rmSync(dir, { recursive: true, force: true }));
+  });
+
+  function extract(archive: Uint8Array, flags: string): string {
+    const dir = mkdtempSync(join(tmpdir(), 'ff-tar-'));
+    tempDirs.push(dir);
+    const archivePath = join(dir, 'archive');
+    writeFileSync(archivePath, archive);
+
+    const output = join(dir, 'out');
+    mkdirSync(output);
+    const result = spawnSync('tar', [flags, archivePath, '-C', output]);
+    expect(result.stderr.toString()).toBe('');
+    expect(result.status).toBe(0);
+    return output;
+  }
+
+  it('produces 512-byte aligned archives ending in two zero blocks', () => {
+    const archive = createTarArchive(entries);
+
+    expect(archive.length % 512).toBe(0);
+    expect(archive.subarray(archive.length - 1024).every(byte => byte === 0)).toBe(true);
+    expect(new TextDecoder().decode(archive.subarray(257, 263))).toBe('ustar\0');
+  });
+
+  it.skipIf(!hasTar)('round-trips contents, modes and long paths through tar -xf', () => {
+    const output = extract(createTarArchive(entries), '-xf');
+
+    for (const entry of entries) {
+      const extracted = readFileSync(join(output, entry.path));
+      const expected = typeof entry.content === 'string' ? Buffer.from(entry.content) : Buffer.from(entry.content);
+      expect(extracted.equals(expected)).toBe(true);
+    }
+
+    expect(statSync(join(output, 'scripts/deploy.sh')).mode & 0o777).toBe(0o755);
+    expect(statSync(join(output, 'package.json')).mode & 0o777).toBe(0o644);
+    expect(statSync(join(output, 'bin/cli')).mode & 0o777).toBe(0o700);
+    expect(statSync(join(output, 'scripts')).isDirectory()).toBe(true);
+  });
+
+  it.skipIf(!hasTar)('gzips into an archive tar -xzf accepts', async () => {
+    const tar = createTarArchive(entries);
+    const gzipped = await gzipBytes(tar);
+
+    expect(gzipped[0]).toBe(0x1f);
+    expect(gzipped[1]).toBe(0x8b);
+    expect(Buffer.from(gunzipSync(gzipped)).equals(Buffer.from(tar))).toBe(true);
+
+    const output = extract(gzipped, '-xzf');
+    expect(readFileSync(join(output, 'scripts/deploy.sh'), 'utf8')).toBe('#!/bin/bash\necho "deploying"\n');
+  });
+
+  it('stores the given modification time', () => {
+    const mtime = new Date('2024-01-02T03:04:05Z');
+    const archive = createTarArchive([{ path: 'a.txt', content: 'a' }], mtime);
+    const field = new TextDecoder().decode(archive.subarray(136, 147));
+
+    expect(parseInt(field, 8)).toBe(mtime.getTime() / 1000);
+  });
+
+  it('marks shell scripts and shebang files executable by default', () => {
+    expect(defaultFileMode('deploy.sh', 'echo hi')).toBe(0o755);
+    expect(defaultFileMode('bin/run', '#!/usr/bin/env node')).toBe(0o755);
+    expect(defaultFileMode('src/index.ts', 'export {}')).toBe(0o644);
+  });
+});
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import {
+  applyOperation,
+  composeOperations,
+  diffToOperation,
+  isTextOperation,
+  transformIndex,
+  transformOperations,
+  type TextOperation
+} from '../text-operations';
+
+// Small deterministic PRNG so failures reproduce
+function createRandom(seed: number) {
+  return () => {
+    seed = (seed * 1664525 + 1013904223) % 4294967296;
+    return seed / 4294967296;
+  };
+}
+
+function randomEdit(text: string, random: () => number): string {
+  const start = Math.floor(random() * (text.length + 1));
+  const end = start + Math.floor(random() * Math.min(4, text.length - start + 1));
+  const insert = random() < 0.7 ? 'xyz\n'.slice(0, 1 + Math.floor(random() * 4)) : '';
+  return text.slice(0, start) + insert + text.slice(end);
+}
+
+describe('text-operations', () => {
+  it('applies retains, inserts and deletes', () => {
+    expect(applyOperation('hello world', [6, 'brave new ', 5])).toBe('hello brave new world');
+    expect(applyOperation('hello world', [5, -6])).toBe('hello');
+    expect(() => applyOperation('short', [10])).toThrow('length 10');
+  });
+
+  it('turns a textarea edit into a minimal operation', () => {
+    expect(diffToOperation('const a = 1;', 'const ab = 1;')).toEqual([7, 'b', 5]);
+    expect(diffToOperation('aaaa', 'aa')).toEqual([2, -2]);
+    expect(diffToOperation('same', 'same')).toEqual([4]);
+    expect(diffToOperation('', 'new')).toEqual(['new']);
+    expect(diffToOperation('replace me', 'swap me')).toEqual(['swap', -7, 3]);
+  });
+
+  it('composes consecutive operations', () => {
+    const text = 'The quick fox';
+    const first = diffToOperation(text, 'The quick brown fox');
+    const second = diffToOperation('The quick brown fox', 'A quick brown fox!');
+
+    expect(applyOperation(text, composeOperations(first, second))).toBe('A quick brown fox!');
+  });
+
+  it('converges when concurrent edits are transformed against each other', () => {
+    const random = createRandom(7);
+
+    for (let round = 0; round < 500; round++) {
+      const base = randomEdit(randomEdit('function add(a, b) {\n  return a + b;\n}\n', random), random);
+      const a = diffToOperation(base, randomEdit(base, random));
+      const b = diffToOperation(base, randomEdit(base, random));
+      const [aPrime, bPrime] = transformOperations(a, b);
+
+      expect(applyOperation(applyOperation(base, a), bPrime)).toBe(applyOperation(applyOperation(base, b), aPrime));
+    }
+  });
+
+  it('orders concurrent inserts at the same position by priority', () => {
+    const [aPrime, bPrime] = transformOperations([3, 'A'], [3, 'B']);
+
+    expect(applyOperation(applyOperation('abc', [3, 'A']), bPrime)).toBe('abcAB');
+    expect(applyOperation(applyOperation('abc', [3, 'B']), aPrime)).toBe('abcAB');
+  });
+
+  it('handles overlapping deletes without deleting twice', () => {
+    const a: TextOperation = [2, -4, 4];
+    const b: TextOperation = [4, -4, 2];
+    const [aPrime, bPrime] = transformOperations(a, b);
+
+    expect(applyOperation(applyOperation('0123456789', a), bPrime)).toBe('0189');
+    expect(applyOperation(applyOperation('0123456789', b), aPrime)).toBe('0189');
+  });
+
+  it('moves cursors across remote edits', () => {
+    expect(transformIndex(5, [2, 'abc', 8])).toBe(8);
+    expect(transformIndex(5, [6, 'abc', 4])).toBe(5);
+    expect(transformIndex(5, [5, 'abc', 5])).toBe(8);
+    expect(transformIndex(5, [2, -6, 2])).toBe(2);
+  });
+
+  it('rejects payloads that are not operations', () => {
+    expect(isTextOperation([3, 'a', -2])).toBe(true);
+    expect(isTextOperation([0])).toBe(false);
+    expect(isTextOperation([1.5])).toBe(false);
+    expect(isTextOperation({ insert: 'a' })).toBe(false);
+  });
+});
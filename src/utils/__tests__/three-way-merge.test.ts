@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { applyRegeneration, mergeRegeneration, mergeText, renderMerge } from '../three-way-merge';
+import { createGenerationManifest } from '../generation-manifest';
+import type { GeneratedFile } from '../../types/full-stack-builder';
+
+const lines = (...items: string[]) => items.map(item => `${item}\n`).join('');
+
+const file = (path: string, content: string): GeneratedFile => ({ path, content, type: 'backend', size: content.length });
+
+describe('three-way merge', () => {
+  it('takes each side where only that side changed', () => {
+    const base = lines('import a', 'const port = 3000', 'app.get(health)', 'listen(port)');
+    const ours = lines('import a', 'import mine', 'const port = 3000', 'app.get(health)', 'listen(port)');
+    const theirs = lines('import a', 'const port = 3000', 'app.get(health)', 'app.get(users)', 'listen(port, host)');
+
+    const merge = mergeText(base, ours, theirs);
+
+    expect(merge.conflicts).toBe(0);
+    expect(renderMerge(merge)).toBe(
+      lines('import a', 'import mine', 'const port = 3000', 'app.get(health)', 'app.get(users)', 'listen(port, host)')
+    );
+  });
+
+  it('reports overlapping changes as conflicts and resolves them by choice', () => {
+    const base = lines('header', 'const limit = 10;', 'footer');
+    const merge = mergeText(base, lines('header', 'const limit = 25;', 'footer'), lines('header', 'const limit = 50;', 'footer'));
+
+    expect(merge.conflicts).toBe(1);
+    expect(renderMerge(merge)).toBe(
+      lines('header', '<<<<<<< yours', 'const limit = 25;', '=======', 'const limit = 50;', '>>>>>>> generated', 'footer')
+    );
+    expect(renderMerge(merge, ['theirs'])).toBe(lines('header', 'const limit = 50;', 'footer'));
+    expect(renderMerge(merge, ['both'])).toBe(lines('header', 'const limit = 25;', 'const limit = 50;', 'footer'));
+
+    // Both sides making the same change is not a conflict
+    expect(mergeText(base, lines('header', 'x', 'footer'), lines('header', 'x', 'footer')).conflicts).toBe(0);
+  });
+
+  it('merges each file of a regeneration by what the user and the generator changed', async () => {
+    const previous = [
+      file('app.ts', lines('a', 'b', 'c')),
+      file('untouched.ts', 'old\n'),
+      file('edited.ts', 'generated\n'),
+      file('deleted.ts', 'x\n'),
+      file('obsolete.ts', 'gone soon\n'),
+      file('conflict.ts', 'one\n')
+    ];
+    const manifest = await createGenerationManifest(previous);
+    const base = new Map(previous.map(entry => [entry.path, entry.content]));
+
+    const current = [
+      file('app.ts', lines('a', 'b', 'c', 'mine')),
+      file('untouched.ts', 'old\n'),
+      file('edited.ts', 'customized\n'),
+      file('obsolete.ts', 'gone soon\n'),
+      file('conflict.ts', 'two\n'),
+      file('notes.md', 'my notes\n')
+    ];
+    const next = [
+      file('app.ts', lines('a2', 'b', 'c')),
+      file('untouched.ts', 'new\n'),
+      file('edited.ts', 'generated\n'),
+      file('deleted.ts', 'x changed\n'),
+      file('conflict.ts', 'three\n'),
+      file('fresh.ts', 'hello\n')
+    ];
+
+    const results = await mergeRegeneration({ manifest, base, current, next });
+    expect(Object.fromEntries(results.map(result => [result.path, result.status]))).toEqual({
+      'app.ts': 'merged',
+      'untouched.ts': 'updated',
+      'edited.ts': 'kept',
+      'deleted.ts': 'removed',
+      'conflict.ts': 'conflict',
+      'fresh.ts': 'added',
+      'obsolete.ts': 'dropped',
+      'notes.md': 'kept'
+    });
+
+    const files = Object.fromEntries(applyRegeneration(results, { 'conflict.ts': ['ours'] }).map(entry => [entry.path, entry.content]));
+    expect(files).toEqual({
+      'app.ts': lines('a2', 'b', 'c', 'mine'),
+      'untouched.ts': 'new\n',
+      'edited.ts': 'customized\n',
+      'conflict.ts': 'two\n',
+      'fresh.ts': 'hello\n',
+      'notes.md': 'my notes\n'
+    });
+
+    // Without the previous contents both versions of an edited file conflict as a whole
+    const [appResult] = await mergeRegeneration({ manifest, base: new Map(), current, next });
+    expect(appResult.status).toBe('conflict');
+    expect(appResult.merge?.hunks).toEqual([
+      { kind: 'conflict', base: [], ours: ['a\n', 'b\n', 'c\n', 'mine\n'], theirs: ['a2\n', 'b\n', 'c\n'] }
+    ]);
+  });
+});
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest';
+import { createHmac } from 'node:crypto';
+import {
+  createMemoryDeliveryStore,
+  timingSafeEqual,
+  verifyWebhook,
+  type WebhookVerificationOptions
+} from '../webhook-signature';
+
+const secret = 'whsec_test_secret';
+const payload = JSON.stringify({ id: 'evt_123', action: 'opened', createdAt: 1_700_000_000_000 });
+const now = () => 1_700_000_000_000;
+
+const hmac = (algorithm: 'sha1' | 'sha256', body: string) =>
+  createHmac(algorithm, secret).update(body).digest('hex');
+
+function verify(options: Partial<WebhookVerificationOptions> & Pick<WebhookVerificationOptions, 'provider' | 'headers'>) {
+  return verifyWebhook({ payload, secret, now, ...options });
+}
+
+describe('webhook-signature', () => {
+  it('compares strings in constant time without false positives', () => {
+    expect(timingSafeEqual('abc', 'abc')).toBe(true);
+    expect(timingSafeEqual('abc', 'abd')).toBe(false);
+    expect(timingSafeEqual('abc', 'abcd')).toBe(false);
+    expect(timingSafeEqual('', '')).toBe(true);
+  });
+
+  it('verifies GitHub sha256 signatures', async () => {
+    const headers = { 'X-Hub-Signature-256': `sha256=${hmac('sha256', payload)}`, 'X-GitHub-Delivery': 'gh-1' };
+
+    await expect(verify({ provider: 'github', headers })).resolves.toEqual({
+      valid: true,
+      deliveryId: 'gh-1',
+      claims: [`sig:${hmac('sha256', payload)}`, 'gh-1'],
+      timestamp: undefined
+    });
+    await expect(verify({ provider: 'github', headers, payload: `${payload} ` })).resolves.toMatchObject({ reason: 'invalid_signature' });
+    await expect(verify({ provider: 'github', headers: { 'X-Hub-Signature-256': hmac('sha256', payload) } }))
+      .resolves.toMatchObject({ reason: 'missing_signature' });
+  });
+
+  it('verifies GitLab tokens', async () => {
+    await expect(verify({ provider: 'gitlab', headers: { 'X-Gitlab-Token': secret, 'X-Gitlab-Event-UUID': 'gl-1' } }))
+      .resolves.toMatchObject({ valid: true, deliveryId: 'gl-1' });
+    await expect(verify({ provider: 'gitlab', headers: { 'X-Gitlab-Token': 'wrong' } }))
+      .resolves.toMatchObject({ reason: 'invalid_signature' });
+  });
+
+  it('verifies Stripe signatures and rejects stale timestamps', async () => {
+    const timestamp = now() / 1000;
+    const signature = hmac('sha256', `${timestamp}.${payload}`);
+    const header = (t: number, v1: string) => ({ 'Stripe-Signature': `t=${t},v1=deadbeef,v1=${v1}` });
+
+    await expect(verify({ provider: 'stripe', headers: header(timestamp, signature) }))
+      .resolves.toEqual({ valid: true, deliveryId: 'evt_123', claims: ['evt_123'], timestamp });
+
+    const staleTimestamp = timestamp - 301;
+    await expect(verify({ provider: 'stripe', headers: header(staleTimestamp, hmac('sha256', `${staleTimestamp}.${payload}`)) }))
+      .resolves.toMatchObject({ reason: 'stale_timestamp' });
+
+    // Moving the timestamp forward breaks the signature
+    await expect(verify({ provider: 'stripe', headers: header(timestamp + 10, signature) }))
+      .resolves.toMatchObject({ reason: 'invalid_signature' });
+  });
+
+  it('verifies Vercel sha1 signatures', async () => {
+    await expect(verify({ provider: 'vercel', headers: { 'x-vercel-signature': hmac('sha1', payload) } }))
+      .resolves.toMatchObject({ valid: true, deliveryId: 'evt_123' });
+    await expect(verify({ provider: 'vercel', headers: { 'x-vercel-signature': hmac('sha256', payload) } }))
+      .resolves.toMatchObject({ reason: 'invalid_signature' });
+    await expect(verify({ provider: 'vercel', headers: { 'x-vercel-signature': hmac('sha1', payload) }, now: () => now() + 600_000 }))
+      .resolves.toMatchObject({ reason: 'stale_timestamp' });
+  });
+
+  it('accepts each delivery id once and again after it is released', async () => {
+    const deliveries = createMemoryDeliveryStore();
+    const headers = new Headers({ 'x-hub-signature-256': `sha256=${hmac('sha256', payload)}`, 'x-github-delivery': 'gh-2' });
+
+    const accepted = await verify({ provider: 'github', headers, deliveries });
+    expect(accepted).toMatchObject({ valid: true });
+    await expect(verify({ provider: 'github', headers, deliveries })).resolves.toMatchObject({ reason: 'replayed' });
+
+    for (const key of accepted.valid ? accepted.claims : []) {
+      await deliveries.release('github', key);
+    }
+    await expect(verify({ provider: 'github', headers, deliveries })).resolves.toMatchObject({ valid: true });
+  });
+
+  it('rejects a captured body resent under a new unsigned delivery id', async () => {
+    const deliveries = createMemoryDeliveryStore();
+    const signature = `sha256=${hmac('sha256', payload)}`;
+
+    await expect(verify({ provider: 'github', headers: { 'x-hub-signature-256': signature, 'x-github-delivery': 'gh-3' }, deliveries }))
+      .resolves.toMatchObject({ valid: true });
+    await expect(verify({ provider: 'github', headers: { 'x-hub-signature-256': signature, 'x-github-delivery': 'gh-forged' }, deliveries }))
+      .resolves.toMatchObject({ reason: 'replayed' });
+    await expect(verify({ provider: 'hmac-sha256', headers: { 'x-signature': signature, 'x-delivery-id': 'a' }, deliveries }))
+      .resolves.toMatchObject({ valid: true });
+    await expect(verify({ provider: 'hmac-sha256', headers: { 'x-signature': signature, 'x-delivery-id': 'b' }, deliveries }))
+      .resolves.toMatchObject({ reason: 'replayed' });
+  });
+
+  it('dedupes deliveries without an id by their signature', async () => {
+    const deliveries = createMemoryDeliveryStore();
+    const headers = { 'x-signature': `sha256=${hmac('sha256', payload)}` };
+
+    await expect(verify({ provider: 'hmac-sha256', headers, deliveries })).resolves.toMatchObject({ valid: true });
+    await expect(verify({ provider: 'hmac-sha256', headers, deliveries })).resolves.toMatchObject({ reason: 'replayed' });
+  });
+
+  it('fails closed when no secret is configured', async () => {
+    await expect(verify({ provider: 'github', headers: {}, secret: undefined }))
+      .resolves.toMatchObject({ valid: false, reason: 'missing_secret' });
+  });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { compileWorkflow, importWorkflowProject, importWorkflowSource } from '../workflow-codegen';
+import type { WorkflowGraph, WorkflowNode } from '../../types/workflow';
+
+function node(id: string, type: WorkflowNode['type'], config: Record<string, unknown> = {}, extra: Partial<WorkflowNode> = {}): WorkflowNode {
+  return { id, type, label: id, config, position: { x: 0, y: 0 }, ...extra };
+}
+
+const TRIAGE_FLOW: WorkflowGraph = {
+  id: 'triage',
+  name: 'Ticket triage',
+  description: 'Summarise urgent tickets',
+  nodes: [
+    node('start', 'trigger', { sample: { priority: 'high', text: 'Printer is on fire' } }),
+    node('is-urgent', 'condition', { field: 'trigger.priority', operator: 'equals', value: 'high' }),
+    node('summarise', 'ai', { prompt: 'Summarise: {{ trigger.text }}', model: 'gpt-4o' }, { retry: { maxAttempts: 2, backoffMs: 500 } }),
+    node('notify', 'webhook', { url: 'https://hooks.example.com/urgent', method: 'POST' }, { timeoutMs: 5000 }),
+    node('archive', 'action', { action: 'archive-ticket' })
+  ],
+  edges: [
+    { id: 'e1', source: 'start', target: 'is-urgent' },
+    { id: 'e2', source: 'is-urgent', target: 'summarise', branch: 'true' },
+    { id: 'e3', source: 'is-urgent', target: 'archive', branch: 'false' },
+    { id: 'e4', source: 'summarise', target: 'notify' }
+  ]
+};
+
+const withoutEdgeIds = (graph: WorkflowGraph) => graph.edges.map(({ id: _id, ...edge }) => edge);
+
+describe('workflow codegen', () => {
+  it('compiles a project with the runtime, tests and stubs for custom actions', () => {
+    const python = compileWorkflow(TRIAGE_FLOW, 'langgraph-python');
+    const typescript = compileWorkflow(TRIAGE_FLOW, 'langchain-js');
+
+    expect(python.files.map(file => file.path)).toEqual(expect.arrayContaining([
+      'workflow/graph.py', 'workflow/runtime.py', 'workflow/actions.py', 'tests/test_workflow.py', 'requirements.txt'
+    ]));
+    expect(typescript.files.map(file => file.path)).toEqual(expect.arrayContaining([
+      'src/workflow.ts', 'src/runtime.ts', 'src/actions.ts', 'tests/workflow.test.ts', 'package.json'
+    ]));
+    expect(python.files.find(file => file.path === 'workflow/actions.py')?.content).toContain('"archive-ticket": action_archive_ticket');
+    expect(python.warnings.join('\n')).toContain('archive-ticket');
+  });
+
+  it('round-trips the graph through both targets', () => {
+    for (const target of ['langgraph-python', 'langchain-js'] as const) {
+      const project = compileWorkflow(TRIAGE_FLOW, target);
+      const files = Object.fromEntries(project.files.map(file => [`${project.name}/${file.path}`, file.content]));
+      const { graph, warnings } = importWorkflowProject(files);
+
+      expect(warnings).toEqual([]);
+      expect(graph).toMatchObject({ id: 'triage', name: 'Ticket triage', description: 'Summarise urgent tickets' });
+      expect(graph.nodes).toEqual(TRIAGE_FLOW.nodes);
+      expect(withoutEdgeIds(graph)).toEqual(withoutEdgeIds(TRIAGE_FLOW));
+    }
+  });
+
+  it('imports hand-edited Python', () => {
+    const source = `
+WORKFLOW = {'id': 'edited', 'name': 'Edited'}
+
+NODES = {
+    'start': {'type': 'trigger', 'label': 'Start', 'config': {}},  # entry point
+    'check': {'type': 'condition', 'label': 'Check', 'config': {'field': 'ok', 'operator': 'exists', 'value': None}},
+    'done': {'type': 'action', 'label': 'Done', 'config': {'action': 'set-data', 'values': {'flag': True}},},
+}
+
+EDGES = []
+
+builder.add_edge('start', 'check')
+builder.add_conditional_edges("check", route("check"), {"true": "done", "false": END})
+`;
+    const { graph, target, warnings } = importWorkflowSource(source, 'graph.py');
+
+    expect(target).toBe('langgraph-python');
+    expect(warnings).toEqual([]);
+    expect(graph.nodes.find(entry => entry.id === 'done')?.config).toEqual({ action: 'set-data', values: { flag: true } });
+    expect(withoutEdgeIds(graph)).toEqual([
+      { source: 'start', target: 'check' },
+      { source: 'check', target: 'done', branch: 'true' }
+    ]);
+  });
+
+  it('refuses graphs that cannot run and computed values it cannot import', () => {
+    const twoTriggers = { ...TRIAGE_FLOW, nodes: [...TRIAGE_FLOW.nodes, node('again', 'trigger')] };
+    expect(() => compileWorkflow(twoTriggers, 'langchain-js')).toThrow(/trigger/);
+    expect(() => compileWorkflow({ ...TRIAGE_FLOW, nodes: TRIAGE_FLOW.nodes.slice(1) }, 'langgraph-python')).toThrow(/cannot run/);
+    expect(() => importWorkflowSource('export const NODES = { start: makeTrigger() };', 'workflow.ts')).toThrow(/makeTrigger/);
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi } from 'vitest';
+import { WorkflowHandlerRegistry, executeWorkflow, validateGraph } from '../workflow-engine';
+import type { WorkflowGraph, WorkflowNode } from '../../types/workflow';
+
+function node(id: string, type: WorkflowNode['type'], config: Record<string, unknown> = {}, extra: Partial<WorkflowNode> = {}): WorkflowNode {
+  return { id, type, label: id, config, position: { x: 0, y: 0 }, ...extra };
+}
+
+const SIGNUP_FLOW: WorkflowGraph = {
+  id: 'signup',
+  name: 'Signup follow-up',
+  nodes: [
+    node('start', 'trigger'),
+    node('is-pro', 'condition', { field: 'trigger.plan', operator: 'equals', value: 'pro' }),
+    node('welcome-pro', 'webhook', { url: 'https://hooks.example.com/pro', body: { email: '{{ trigger.email }}' } }),
+    node('tag', 'action', { action: 'set-data', values: { tier: 'free' } }),
+    node('wait', 'delay', { seconds: 60 })
+  ],
+  edges: [
+    { id: 'e1', source: 'start', target: 'is-pro' },
+    { id: 'e2', source: 'is-pro', target: 'welcome-pro', branch: 'true' },
+    { id: 'e3', source: 'is-pro', target: 'tag', branch: 'false' },
+    { id: 'e4', source: 'tag', target: 'wait' }
+  ]
+};
+
+describe('workflow engine', () => {
+  it('follows only the branch a condition selects', async () => {
+    const sleep = vi.fn(async () => undefined);
+    const execution = await executeWorkflow(SIGNUP_FLOW, { triggerData: { plan: 'free', email: 'ada@example.com' }, sleep });
+
+    const status = Object.fromEntries(execution.logs.map(log => [log.nodeId, log.status]));
+    expect(execution.status).toBe('completed');
+    expect(status).toEqual({ start: 'succeeded', 'is-pro': 'succeeded', 'welcome-pro': 'skipped', tag: 'succeeded', wait: 'succeeded' });
+    expect(execution.logs.find(log => log.nodeId === 'wait')?.output).toEqual({ plan: 'free', email: 'ada@example.com', tier: 'free' });
+    expect(sleep).toHaveBeenCalledWith(60_000, expect.anything());
+  });
+
+  it('dry runs without sending webhooks or waiting', async () => {
+    const fetchSpy = vi.spyOn(globalThis, 'fetch');
+    const sleep = vi.fn(async () => undefined);
+    const execution = await executeWorkflow(SIGNUP_FLOW, { triggerData: { plan: 'pro', email: 'ada@example.com' }, dryRun: true, sleep });
+
+    expect(execution.status).toBe('completed');
+    expect(execution.logs.find(log => log.nodeId === 'welcome-pro')?.output).toMatchObject({
+      method: 'POST',
+      url: 'https://hooks.example.com/pro',
+      body: { email: 'ada@example.com' }
+    });
+    expect(fetchSpy).not.toHaveBeenCalled();
+    expect(sleep).not.toHaveBeenCalled();
+    fetchSpy.mockRestore();
+  });
+
+  it('retries failed steps with backoff and times out slow attempts', async () => {
+    const registry = WorkflowHandlerRegistry.withDefaults();
+    let calls = 0;
+    registry.registerAction('flaky', 'Flaky', async (_config, context) => {
+      calls++;
+      if (context.attempt === 1) return new Promise(() => undefined);
+      if (context.attempt === 2) throw new Error('Service unavailable');
+      return { ok: true };
+    });
+    const sleep = vi.fn(async (_ms: number, _signal?: AbortSignal) => undefined);
+    const graph: WorkflowGraph = {
+      id: 'retry',
+      name: 'Retry',
+      nodes: [
+        node('start', 'trigger'),
+        node('call', 'action', { action: 'flaky' }, { retry: { maxAttempts: 3, backoffMs: 100 }, timeoutMs: 20 })
+      ],
+      edges: [{ id: 'e1', source: 'start', target: 'call' }]
+    };
+
+    const execution = await executeWorkflow(graph, { registry, sleep });
+    const log = execution.logs.find(entry => entry.nodeId === 'call')!;
+    expect(execution.status).toBe('completed');
+    expect(calls).toBe(3);
+    expect(log).toMatchObject({ status: 'succeeded', attempts: 3, output: { ok: true } });
+    expect(sleep.mock.calls.map(([ms]) => ms)).toEqual([100, 200]);
+  });
+
+  it('fails the run and skips downstream steps when retries run out', async () => {
+    const graph: WorkflowGraph = {
+      id: 'broken',
+      name: 'Broken',
+      nodes: [node('start', 'trigger'), node('unknown', 'action', { action: 'missing' }), node('after', 'delay', { ms: 0 })],
+      edges: [
+        { id: 'e1', source: 'start', target: 'unknown' },
+        { id: 'e2', source: 'unknown', target: 'after' }
+      ]
+    };
+
+    const execution = await executeWorkflow(graph);
+    expect(execution.status).toBe('failed');
+    expect(execution.error).toBe('unknown: No handler is registered for the "missing" action');
+    expect(execution.logs.find(log => log.nodeId === 'after')?.status).toBe('skipped');
+  });
+
+  it('rejects graphs with cycles or unlabelled condition branches', async () => {
+    const graph: WorkflowGraph = {
+      ...SIGNUP_FLOW,
+      edges: [...SIGNUP_FLOW.edges.filter(edge => edge.id !== 'e2'), { id: 'e2', source: 'is-pro', target: 'welcome-pro' }, { id: 'loop', source: 'wait', target: 'tag' }]
+    };
+
+    expect(validateGraph(graph).map(problem => problem.message)).toEqual([
+      'Connections from condition "is-pro" must be marked true or false',
+      'The workflow contains a cycle'
+    ]);
+    await expect(executeWorkflow(graph)).rejects.toThrow(/^Workflow cannot run: /);
+  });
+});
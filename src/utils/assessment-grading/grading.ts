@@ -0,0 +1,115 @@
+import type {
+  Assessment,
+  AssessmentAttempt,
+  AssessmentQuestion,
+  CriterionScore,
+  QuestionGrade,
+  QuestionResponse,
+  Rubric
+} from '../../types/education';
+import { answersOf, correctChoiceIndexes, matchingPairs } from '../education-export/questions';
+import { rubricPoints } from './rubric';
+
+export function roundPoints(points: number): number {
+  return Math.round(points * 100) / 100;
+}
+
+const normalizeAnswer = (text: string) => text.trim().toLowerCase().replace(/\s+/g, ' ').replace(/[.!]$/, '');
+
+/** Whether the answer key can score the question; the rest are scored against the rubric or by hand */
+export function isObjective(question: AssessmentQuestion): boolean {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return correctChoiceIndexes(question).length > 0;
+    case 'short-answer':
+    case 'fill-blank':
+      return answersOf(question).length > 0;
+    case 'matching':
+      return matchingPairs(question).length > 0;
+    case 'essay':
+      return false;
+  }
+}
+
+function isBlank(response: QuestionResponse | undefined): boolean {
+  return !response || (!response.choices?.length && !response.text?.trim() && !response.matches?.some(Boolean));
+}
+
+/** The share of the question's points the response earns, from 0 to 1 */
+function objectiveScore(question: AssessmentQuestion, response: QuestionResponse): number {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false': {
+      const correct = correctChoiceIndexes(question);
+      const chosen = new Set(response.choices ?? []);
+      if (correct.length === 1) return chosen.size === 1 && chosen.has(correct[0]) ? 1 : 0;
+      // As in the Moodle export, each correct choice earns a share and each wrong one takes a share away
+      const share = 1 / correct.length;
+      return Math.max(0, [...chosen].reduce((score, index) => score + (correct.includes(index) ? share : -share), 0));
+    }
+    case 'short-answer':
+    case 'fill-blank': {
+      const given = normalizeAnswer(response.text ?? '');
+      return answersOf(question).some(answer => normalizeAnswer(answer) === given) ? 1 : 0;
+    }
+    case 'matching': {
+      const pairs = matchingPairs(question);
+      const matches = response.matches ?? [];
+      return pairs.filter((pair, index) => matches[index] === pair.match).length / pairs.length;
+    }
+    case 'essay':
+      return 0;
+  }
+}
+
+/**
+ * Scores one answer from the answer key. Written answers are left pending for
+ * the rubric or a teacher; a blank answer scores zero whatever the type.
+ */
+export function gradeQuestion(question: AssessmentQuestion, response: QuestionResponse | undefined): QuestionGrade {
+  const grade = { questionId: question.id, maxPoints: question.points };
+  if (isBlank(response)) return { ...grade, status: 'auto', points: 0 };
+  if (!isObjective(question)) return { ...grade, status: 'pending', points: 0 };
+  return { ...grade, status: 'auto', points: roundPoints(question.points * objectiveScore(question, response!)) };
+}
+
+export function gradeResponses(assessment: Assessment, responses: AssessmentAttempt['responses']): QuestionGrade[] {
+  return assessment.questions.map(question => gradeQuestion(question, responses[question.id]));
+}
+
+/** Scores a written answer against the rubric, as a suggestion or as the teacher's own scoring */
+export function scoreWithRubric(
+  grade: QuestionGrade,
+  rubric: Rubric,
+  criteria: CriterionScore[],
+  options: { reviewed: boolean; feedback?: string }
+): QuestionGrade {
+  return {
+    ...grade,
+    status: options.reviewed ? 'reviewed' : 'suggested',
+    points: rubricPoints(rubric, criteria, grade.maxPoints),
+    criteria,
+    feedback: options.feedback ?? grade.feedback
+  };
+}
+
+/** A teacher's score replaces whatever the answer key or rubric gave, so criterion levels are dropped */
+export function overrideGrade(grade: QuestionGrade, points: number, feedback?: string): QuestionGrade {
+  return {
+    questionId: grade.questionId,
+    status: 'reviewed',
+    points: roundPoints(Math.min(grade.maxPoints, Math.max(0, points))),
+    maxPoints: grade.maxPoints,
+    feedback: feedback ?? grade.feedback
+  };
+}
+
+/** Totals for an attempt, which needs review while any answer is unscored or only has a suggested score */
+export function summarizeGrades(grades: QuestionGrade[]): Pick<AssessmentAttempt, 'score' | 'maxScore' | 'status'> {
+  return {
+    score: roundPoints(grades.reduce((sum, grade) => sum + grade.points, 0)),
+    maxScore: roundPoints(grades.reduce((sum, grade) => sum + grade.maxPoints, 0)),
+    status: grades.some(grade => grade.status === 'pending' || grade.status === 'suggested') ? 'needs-review' : 'graded'
+  };
+}
@@ -0,0 +1,25 @@
+/**
+ * Assessment runtime: scores answers from the answer key, scores written
+ * answers against a rubric (suggested by the model, confirmed or overridden
+ * by a teacher) and folds attempts into study progress and analytics.
+ * Storing attempts is left to services/AssessmentService.
+ */
+
+export {
+  gradeQuestion,
+  gradeResponses,
+  isObjective,
+  overrideGrade,
+  roundPoints,
+  scoreWithRubric,
+  summarizeGrades
+} from './grading';
+export {
+  PASSING_PERCENTAGE,
+  assessmentAnalytics,
+  attemptModuleId,
+  attemptPercentage,
+  progressFromAttempts,
+  type AssessmentAnalytics
+} from './progress';
+export { describeRubric, readRubricSuggestion, rubricPoints, type RubricSuggestion } from './rubric';
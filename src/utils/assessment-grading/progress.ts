@@ -0,0 +1,93 @@
+import type { AssessmentAttempt, EducationalAnalytics, StudyProgress } from '../../types/education';
+
+export const PASSING_PERCENTAGE = 70;
+
+export type AssessmentAnalytics = Pick<
+  EducationalAnalytics,
+  'assessmentAttempts' | 'averageAssessmentScore' | 'pendingReviews' | 'questionPerformance'
+>;
+
+const percentage = (points: number, maxPoints: number) => (maxPoints > 0 ? Math.round((points / maxPoints) * 1000) / 10 : 0);
+
+export function attemptPercentage(attempt: Pick<AssessmentAttempt, 'score' | 'maxScore'>): number {
+  return percentage(attempt.score, attempt.maxScore);
+}
+
+/** Attempts on content outside a study path count towards a module named after the assessment */
+export function attemptModuleId(attempt: AssessmentAttempt): string {
+  return attempt.moduleId ?? attempt.assessmentId;
+}
+
+/**
+ * A learner's progress through a path, rebuilt from all of their attempts on
+ * it so that regrading an attempt never counts it twice. Each module keeps its
+ * best graded score and is complete once that passes; time spent includes
+ * attempts still awaiting review.
+ */
+export function progressFromAttempts(
+  userId: string,
+  pathId: string,
+  moduleIds: string[],
+  attempts: AssessmentAttempt[]
+): StudyProgress | null {
+  if (attempts.length === 0) return null;
+
+  const scores: StudyProgress['scores'] = {};
+  for (const attempt of attempts) {
+    if (attempt.status !== 'graded') continue;
+    const moduleId = attemptModuleId(attempt);
+    scores[moduleId] = Math.max(scores[moduleId] ?? 0, attemptPercentage(attempt));
+  }
+
+  const completedModules = moduleIds.filter(moduleId => (scores[moduleId] ?? 0) >= PASSING_PERCENTAGE);
+  const milliseconds = attempts.reduce((sum, attempt) => sum + Math.max(0, attempt.submittedAt.getTime() - attempt.startedAt.getTime()), 0);
+
+  return {
+    userId,
+    pathId,
+    startedAt: new Date(Math.min(...attempts.map(attempt => attempt.startedAt.getTime()))),
+    lastAccessedAt: new Date(Math.max(...attempts.map(attempt => attempt.submittedAt.getTime()))),
+    completedModules,
+    currentModule: moduleIds.find(moduleId => !completedModules.includes(moduleId)),
+    overallProgress: moduleIds.length > 0 ? Math.round((completedModules.length / moduleIds.length) * 100) : 0,
+    timeSpent: Math.round(milliseconds / 60000),
+    scores
+  };
+}
+
+/**
+ * The assessment part of EducationalAnalytics. Averages only use final scores:
+ * graded attempts, and answers scored by the key or reviewed by a teacher.
+ * Questions are listed hardest first.
+ */
+export function assessmentAnalytics(attempts: AssessmentAttempt[]): AssessmentAnalytics {
+  const graded = attempts.filter(attempt => attempt.status === 'graded');
+  const questions = new Map<string, { assessmentId: string; questionId: string; attempts: number; total: number }>();
+
+  for (const attempt of attempts) {
+    for (const grade of attempt.grades) {
+      if ((grade.status !== 'auto' && grade.status !== 'reviewed') || grade.maxPoints <= 0) continue;
+      const key = `${attempt.assessmentId}\u0000${grade.questionId}`;
+      const entry = questions.get(key) ?? { assessmentId: attempt.assessmentId, questionId: grade.questionId, attempts: 0, total: 0 };
+      entry.attempts += 1;
+      entry.total += grade.points / grade.maxPoints;
+      questions.set(key, entry);
+    }
+  }
+
+  return {
+    assessmentAttempts: attempts.length,
+    averageAssessmentScore: graded.length > 0
+      ? Math.round((graded.reduce((sum, attempt) => sum + attemptPercentage(attempt), 0) / graded.length) * 10) / 10
+      : 0,
+    pendingReviews: attempts.length - graded.length,
+    questionPerformance: [...questions.values()]
+      .map(({ assessmentId, questionId, attempts: count, total }) => ({
+        assessmentId,
+        questionId,
+        attempts: count,
+        averageScore: Math.round((total / count) * 1000) / 10
+      }))
+      .sort((a, b) => a.averageScore - b.averageScore)
+  };
+}
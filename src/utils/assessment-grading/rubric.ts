@@ -0,0 +1,68 @@
+import type { CriterionScore, Rubric } from '../../types/education';
+
+/**
+ * Rubric scoring for free-text answers. Each criterion is marked at a level of
+ * the rubric's scale; the question's points are shared out by criterion weight.
+ */
+
+export interface RubricSuggestion {
+  criteria: CriterionScore[];
+  feedback: string;
+}
+
+/**
+ * Points earned on a question worth `maxPoints`. Criteria left unscored count
+ * as zero; a rubric whose weights are all zero weighs its criteria equally.
+ */
+export function rubricPoints(rubric: Rubric, scores: CriterionScore[], maxPoints: number): number {
+  const topPoints = Math.max(0, ...rubric.scale.map(step => step.points));
+  if (topPoints === 0 || rubric.criteria.length === 0) return 0;
+
+  const totalWeight = rubric.criteria.reduce((sum, criterion) => sum + Math.max(0, criterion.weight), 0);
+  const earned = rubric.criteria.reduce((sum, criterion) => {
+    const level = scores.find(score => score.criterionId === criterion.id)?.level;
+    const step = rubric.scale.find(entry => entry.level === level);
+    const weight = totalWeight > 0 ? Math.max(0, criterion.weight) / totalWeight : 1 / rubric.criteria.length;
+    return sum + weight * ((step?.points ?? 0) / topPoints);
+  }, 0);
+
+  return Math.round(earned * maxPoints * 100) / 100;
+}
+
+/** The rubric as prompt text, one line per criterion and per level */
+export function describeRubric(rubric: Rubric): string {
+  const levels = [...rubric.scale].sort((a, b) => b.level - a.level);
+  return [
+    'Criteria:',
+    ...rubric.criteria.map(criterion => `- ${criterion.id} (${criterion.weight}%): ${criterion.name}. ${criterion.description}`),
+    'Levels:',
+    ...levels.map(step => `- ${step.level} ${step.label}: ${step.description}`)
+  ].join('\n');
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+
+/**
+ * The model's scoring, or null unless every criterion got a level from the
+ * scale. A partial suggestion would quietly score the missing criteria as zero.
+ */
+export function readRubricSuggestion(value: unknown, rubric: Rubric): RubricSuggestion | null {
+  const record = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const entries = Array.isArray(record.criteria) ? record.criteria : [];
+  const levels = new Set(rubric.scale.map(step => step.level));
+
+  const criteria: CriterionScore[] = [];
+  for (const criterion of rubric.criteria) {
+    const entry = entries.find(item => (item as Record<string, unknown> | null)?.criterion_id === criterion.id) as
+      | Record<string, unknown>
+      | undefined;
+    if (!entry || typeof entry.level !== 'number' || !levels.has(entry.level)) return null;
+    criteria.push({
+      criterionId: criterion.id,
+      level: entry.level,
+      rationale: isString(entry.rationale) ? entry.rationale.trim() : undefined
+    });
+  }
+
+  return { criteria, feedback: isString(record.feedback) ? record.feedback.trim() : '' };
+}
@@ -166,10 +166,12 @@ export async function storeAuthData(session: Session | null): Promise<AuthState>
 }
 
 /**
- * Determine route protection level based on current path
+ * Determine route protection level based on current path. `search` is the
+ * query string, for the `app` flag; defaults to the current location's.
  */
-export function getRouteProtectionLevel(path?: string): RouteProtectionLevel {
+export function getRouteProtectionLevel(path?: string, search?: string): RouteProtectionLevel {
   const currentPath = path || (typeof window !== 'undefined' ? window.location.pathname : '/');
+  const searchParams = new URLSearchParams(search ?? (typeof window !== 'undefined' ? window.location.search : ''));
 
   // Check admin routes
   if (ADMIN_ROUTES.some(route => currentPath.startsWith(route))) {
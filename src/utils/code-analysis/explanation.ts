@@ -0,0 +1,87 @@
+import type { AutoFixSuggestion, LearningPoint } from '../../types/code-review';
+import type { StaticAnalysis } from './types';
+
+/**
+ * The AI part of a review: given what the analyzer measured, it explains the
+ * findings and proposes fixes. It doesn't add findings of its own.
+ */
+
+export interface ReviewExplanation {
+  suggestions: AutoFixSuggestion[];
+  learning_points: LearningPoint[];
+}
+
+// Enough for the model to explain the worst of it without a huge prompt
+const MAX_PROMPT_FINDINGS = 40;
+
+/** One line per finding, most severe first, for the explanation prompt */
+export function describeFindings(analysis: StaticAnalysis): string {
+  const rank = { error: 0, high: 0, warning: 1, medium: 1, info: 2, low: 2 } as const;
+  const lines = [
+    ...analysis.quality_issues.map(issue => ({
+      rank: rank[issue.severity],
+      text: `line ${issue.line} [quality/${issue.category}, ${issue.severity}] ${issue.description}`
+    })),
+    ...analysis.performance_issues.map(issue => ({
+      rank: rank[issue.impact],
+      text: `line ${issue.line} [performance, ${issue.impact}] ${issue.type}: ${issue.description}`
+    })),
+    ...analysis.best_practices.map(issue => ({
+      rank: 2,
+      text: `${issue.line ? `line ${issue.line} ` : ''}[practice] ${issue.practice}: ${issue.description}`
+    }))
+  ].sort((a, b) => a.rank - b.rank);
+
+  const { metrics } = analysis;
+  return [
+    `Metrics: ${metrics.lines_of_code} lines of code, highest cyclomatic complexity ${metrics.cyclomatic_complexity}, maintainability index ${metrics.maintainability_index}/100, ${metrics.code_duplication}% duplicated.`,
+    ...lines.slice(0, MAX_PROMPT_FINDINGS).map(line => `- ${line.text}`),
+    ...(lines.length > MAX_PROMPT_FINDINGS ? [`- and ${lines.length - MAX_PROMPT_FINDINGS} more`] : [])
+  ].join('\n');
+}
+
+const DIFFICULTIES: LearningPoint['difficulty'][] = ['beginner', 'intermediate', 'advanced'];
+const FIX_TYPES: AutoFixSuggestion['type'][] = ['security', 'performance', 'quality'];
+
+const isString = (value: unknown): value is string => typeof value === 'string' && value.trim() !== '';
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+/**
+ * The model's answer, keeping only well-formed entries. A fix whose `before`
+ * doesn't appear in the code can't be applied and is dropped.
+ */
+export function readReviewExplanation(value: unknown, code: string): ReviewExplanation {
+  const record = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const normalizedCode = normalizeWhitespace(code);
+
+  const suggestions = (Array.isArray(record.suggestions) ? record.suggestions : []).flatMap(entry => {
+    const { type, description, before, after, confidence } = (entry ?? {}) as Record<string, unknown>;
+    if (!isString(description) || !isString(before) || typeof after !== 'string') return [];
+    if (!normalizedCode.includes(normalizeWhitespace(before))) return [];
+    return [{
+      type: FIX_TYPES.includes(type as AutoFixSuggestion['type']) ? (type as AutoFixSuggestion['type']) : 'quality',
+      description,
+      before,
+      after,
+      confidence: typeof confidence === 'number' ? Math.round(Math.max(0, Math.min(100, confidence))) : 50
+    }];
+  });
+
+  const learningPoints = (Array.isArray(record.learning_points) ? record.learning_points : []).flatMap(entry => {
+    const { concept, explanation, resources, difficulty } = (entry ?? {}) as Record<string, unknown>;
+    if (!isString(concept) || !isString(explanation)) return [];
+    return [{
+      concept,
+      explanation,
+      resources: Array.isArray(resources) ? resources.filter(isString) : [],
+      difficulty: DIFFICULTIES.includes(difficulty as LearningPoint['difficulty'])
+        ? (difficulty as LearningPoint['difficulty'])
+        : 'intermediate'
+    }];
+  });
+
+  return {
+    suggestions: suggestions.map((suggestion, index) => ({ id: String(index + 1), ...suggestion })),
+    learning_points: learningPoints
+  };
+}
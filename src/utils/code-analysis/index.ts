@@ -0,0 +1,107 @@
+import type { BestPracticeIssue, PerformanceIssue, QualityIssue } from '../../types/code-review';
+import {
+  DEFAULT_THRESHOLDS,
+  findDuplication,
+  formatDuration,
+  functionFindings,
+  halsteadVolume,
+  maintainabilityIndex,
+  remediationMinutes,
+  reviewScore
+} from './metrics';
+import { pythonAnalyzer } from './python';
+import { typescriptAnalyzer } from './typescript';
+import type { AnalysisThresholds, LanguageAnalyzer, StaticAnalysis } from './types';
+
+export { DEFAULT_THRESHOLDS } from './metrics';
+export { describeFindings, readReviewExplanation, type ReviewExplanation } from './explanation';
+export type {
+  AnalysisThresholds,
+  FunctionMetrics,
+  HalsteadCounts,
+  LanguageAnalyzer,
+  SourceAnalysis,
+  StaticAnalysis
+} from './types';
+
+/** Language analyzers by the review tool's language values */
+export class CodeAnalyzerRegistry {
+  private analyzers = new Map<string, LanguageAnalyzer>();
+
+  constructor(analyzers: LanguageAnalyzer[] = []) {
+    analyzers.forEach(analyzer => this.register(analyzer));
+  }
+
+  register(analyzer: LanguageAnalyzer): void {
+    for (const language of analyzer.languages) {
+      if (this.analyzers.has(language)) {
+        throw new Error(`An analyzer for "${language}" is already registered`);
+      }
+      this.analyzers.set(language, analyzer);
+    }
+  }
+
+  get(language: string): LanguageAnalyzer | undefined {
+    return this.analyzers.get(language);
+  }
+
+  supports(language: string): boolean {
+    return this.analyzers.has(language);
+  }
+
+  languages(): string[] {
+    return Array.from(this.analyzers.keys());
+  }
+}
+
+export const codeAnalyzers = new CodeAnalyzerRegistry([typescriptAnalyzer, pythonAnalyzer]);
+
+const numbered = <T extends { line?: number }>(findings: T[]): Array<T & { id: string }> =>
+  [...findings]
+    .sort((a, b) => (a.line ?? 0) - (b.line ?? 0))
+    .map((finding, index) => ({ ...finding, id: String(index + 1) }));
+
+/**
+ * Static review of `code`: metrics and findings measured from the source.
+ * Throws for languages without an analyzer.
+ */
+export async function analyzeCode(
+  code: string,
+  language: string,
+  options: { thresholds?: Partial<AnalysisThresholds>; registry?: CodeAnalyzerRegistry } = {}
+): Promise<StaticAnalysis> {
+  const registry = options.registry ?? codeAnalyzers;
+  const analyzer = registry.get(language);
+  if (!analyzer) throw new Error(`No static analyzer for ${language}`);
+
+  const thresholds = { ...DEFAULT_THRESHOLDS, ...options.thresholds };
+  const source = await analyzer.analyze(code, language);
+  const duplication = findDuplication(source.codeLines, thresholds.duplicateLines);
+
+  const quality = [...functionFindings(source.functions, thresholds), ...source.quality, ...duplication.findings];
+  const complexities = [source.topLevelComplexity, ...source.functions.map(fn => fn.complexity)];
+  const linesOfCode = source.codeLines.length;
+  const maintainability = maintainabilityIndex(
+    halsteadVolume(source.halstead),
+    complexities.reduce((total, complexity) => total + complexity, 0),
+    linesOfCode
+  );
+
+  return {
+    language,
+    analyzer: analyzer.name,
+    functions: source.functions,
+    metrics: {
+      lines_of_code: linesOfCode,
+      cyclomatic_complexity: Math.max(...complexities),
+      maintainability_index: maintainability,
+      test_coverage: null,
+      code_duplication: duplication.percentage,
+      technical_debt: formatDuration(remediationMinutes(quality, source.performance, source.practices))
+    },
+    quality_issues: numbered<Omit<QualityIssue, 'id'>>(quality),
+    performance_issues: numbered<Omit<PerformanceIssue, 'id'>>(source.performance),
+    best_practices: numbered<Omit<BestPracticeIssue, 'id'>>(source.practices),
+    overall_score: reviewScore(maintainability, duplication.percentage, quality, source.performance, source.practices)
+  };
+}
@@ -0,0 +1,179 @@
+import type {
+  AnalysisThresholds,
+  FunctionMetrics,
+  HalsteadCounts,
+  PerformanceFinding,
+  PracticeFinding,
+  QualityFinding,
+  SourceAnalysis
+} from './types';
+
+export const DEFAULT_THRESHOLDS: AnalysisThresholds = {
+  functionLines: 50,
+  complexity: 10,
+  parameters: 4,
+  nesting: 4,
+  duplicateLines: 4
+};
+
+// Lines like `}` or `return;` repeat everywhere and say nothing about copy-paste
+const MIN_DUPLICATE_LINE_LENGTH = 6;
+
+export interface Duplication {
+  /** Share of code lines that are part of a repeated block, 0-100 */
+  percentage: number;
+  findings: QualityFinding[];
+}
+
+/**
+ * Repeated runs of at least `minLines` code lines. Each repeat is reported
+ * once, pointing back at the first occurrence.
+ */
+export function findDuplication(codeLines: SourceAnalysis['codeLines'], minLines: number): Duplication {
+  const lines = codeLines.filter(line => line.text.length >= MIN_DUPLICATE_LINE_LENGTH);
+  const windowKey = (start: number) => lines.slice(start, start + minLines).map(line => line.text).join('\n');
+  const firstSeen = new Map<string, number>();
+  const duplicated = new Set<number>();
+  const findings: QualityFinding[] = [];
+
+  let index = 0;
+  while (index + minLines <= lines.length) {
+    const key = windowKey(index);
+    const first = firstSeen.get(key);
+
+    if (first !== undefined && first + minLines <= index) {
+      let length = minLines;
+      while (
+        index + length < lines.length &&
+        first + length < index &&
+        lines[first + length].text === lines[index + length].text
+      ) {
+        length++;
+      }
+      for (let offset = 0; offset < length; offset++) {
+        duplicated.add(lines[first + offset].line);
+        duplicated.add(lines[index + offset].line);
+      }
+      findings.push({
+        category: 'duplication',
+        severity: length >= minLines * 2 ? 'warning' : 'info',
+        line: lines[index].line,
+        description: `Lines ${lines[index].line}-${lines[index + length - 1].line} repeat lines ${lines[first].line}-${lines[first + length - 1].line}`,
+        suggestion: 'Extract the shared code into a function and call it from both places'
+      });
+      index += length;
+      continue;
+    }
+
+    if (first === undefined) firstSeen.set(key, index);
+    index++;
+  }
+
+  const percentage = codeLines.length === 0 ? 0 : Math.round((duplicated.size / codeLines.length) * 100);
+  return { percentage, findings };
+}
+
+export function halsteadVolume({ distinctOperators, distinctOperands, totalOperators, totalOperands }: HalsteadCounts): number {
+  const vocabulary = distinctOperators + distinctOperands;
+  const length = totalOperators + totalOperands;
+  return vocabulary < 2 ? length : length * Math.log2(vocabulary);
+}
+
+/** The classic maintainability index, scaled to 0-100 as Visual Studio reports it */
+export function maintainabilityIndex(volume: number, complexity: number, linesOfCode: number): number {
+  const raw = 171 - 5.2 * Math.log(Math.max(volume, 1)) - 0.23 * complexity - 16.2 * Math.log(Math.max(linesOfCode, 1));
+  return Math.round(Math.max(0, Math.min(100, (raw * 100) / 171)));
+}
+
+/** Findings about function size and shape, which every language analyzer shares */
+export function functionFindings(functions: FunctionMetrics[], thresholds: AnalysisThresholds): QualityFinding[] {
+  return functions.flatMap(fn => {
+    const findings: QualityFinding[] = [];
+
+    if (fn.complexity > thresholds.complexity) {
+      findings.push({
+        category: 'complexity',
+        severity: fn.complexity > thresholds.complexity * 2 ? 'error' : 'warning',
+        line: fn.line,
+        description: `${fn.name} has a cyclomatic complexity of ${fn.complexity} (limit ${thresholds.complexity})`,
+        suggestion: 'Split the branches into smaller functions or replace condition chains with a lookup table'
+      });
+    }
+    if (fn.length > thresholds.functionLines) {
+      findings.push({
+        category: 'maintainability',
+        severity: fn.length > thresholds.functionLines * 2 ? 'error' : 'warning',
+        line: fn.line,
+        description: `${fn.name} is ${fn.length} lines long (limit ${thresholds.functionLines})`,
+        suggestion: 'Break it down into smaller functions that each do one thing'
+      });
+    }
+    if (fn.parameters > thresholds.parameters) {
+      findings.push({
+        category: 'readability',
+        severity: 'warning',
+        line: fn.line,
+        description: `${fn.name} takes ${fn.parameters} parameters (limit ${thresholds.parameters})`,
+        suggestion: 'Pass an options object instead of a long parameter list'
+      });
+    }
+    if (fn.maxNesting > thresholds.nesting) {
+      findings.push({
+        category: 'complexity',
+        severity: 'warning',
+        line: fn.line,
+        description: `${fn.name} nests blocks ${fn.maxNesting} levels deep (limit ${thresholds.nesting})`,
+        suggestion: 'Return early or move inner blocks into helper functions'
+      });
+    }
+
+    return findings;
+  });
+}
+
+// Rough effort to fix one finding, in minutes
+const QUALITY_MINUTES = { error: 30, warning: 15, info: 5 } as const;
+const PERFORMANCE_MINUTES = { high: 30, medium: 20, low: 10 } as const;
+const PRACTICE_MINUTES = 10;
+
+export function remediationMinutes(
+  quality: QualityFinding[],
+  performance: PerformanceFinding[],
+  practices: PracticeFinding[]
+): number {
+  return (
+    quality.reduce((total, finding) => total + QUALITY_MINUTES[finding.severity], 0) +
+    performance.reduce((total, finding) => total + PERFORMANCE_MINUTES[finding.impact], 0) +
+    practices.length * PRACTICE_MINUTES
+  );
+}
+
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60);
+  const rest = minutes % 60;
+  if (hours === 0) return `${rest}m`;
+  return rest === 0 ? `${hours}h` : `${hours}h ${rest}m`;
+}
+
+const QUALITY_PENALTY = { error: 10, warning: 4, info: 1 } as const;
+const PERFORMANCE_PENALTY = { high: 8, medium: 4, low: 2 } as const;
+const PRACTICE_PENALTY = 2;
+
+/**
+ * 0-100: the maintainability index averaged with 100 minus a penalty per
+ * finding, so both the shape of the code and what is wrong with it count
+ */
+export function reviewScore(
+  maintainability: number,
+  duplicationPercentage: number,
+  quality: QualityFinding[],
+  performance: PerformanceFinding[],
+  practices: PracticeFinding[]
+): number {
+  const penalty =
+    quality.reduce((total, finding) => total + QUALITY_PENALTY[finding.severity], 0) +
+    performance.reduce((total, finding) => total + PERFORMANCE_PENALTY[finding.impact], 0) +
+    practices.length * PRACTICE_PENALTY +
+    duplicationPercentage / 2;
+  return Math.round((maintainability + Math.max(0, 100 - penalty)) / 2);
+}
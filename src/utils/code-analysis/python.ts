@@ -0,0 +1,314 @@
+import type {
+  FunctionMetrics,
+  LanguageAnalyzer,
+  PerformanceFinding,
+  PracticeFinding,
+  QualityFinding,
+  SourceAnalysis
+} from './types';
+
+/**
+ * Python analysis from indentation and tokens. There is no Python parser in
+ * the browser, so blocks are read off the logical lines, which is enough
+ * for complexity, sizes, nesting and the usual mistakes.
+ */
+
+const KEYWORDS = new Set([
+  'False', 'None', 'True', 'and', 'as', 'assert', 'async', 'await', 'break', 'class', 'continue', 'def', 'del',
+  'elif', 'else', 'except', 'finally', 'for', 'from', 'global', 'if', 'import', 'in', 'is', 'lambda', 'nonlocal',
+  'not', 'or', 'pass', 'raise', 'return', 'try', 'while', 'with', 'yield'
+]);
+const OPERAND_KEYWORDS = new Set(['False', 'None', 'True']);
+const BLOCK_STATEMENT = /^(if|elif|else|for|while|try|except|finally|with|match|case|async\s+for|async\s+with)\b.*:$/;
+const DECISION = /\b(if|elif|for|while|except|and|or)\b/g;
+const TOKEN = /[A-Za-z_]\w*|\d[\w.]*|""|\*\*=?|\/\/=?|->|:=|<<=?|>>=?|[<>!=]=|[+\-*/%@&|^~<>]=?|[()[\]{},.:;=]/g;
+
+interface LogicalLine {
+  line: number;
+  endLine: number;
+  indent: number;
+  text: string;
+}
+
+interface Frame {
+  indent: number;
+  kind: 'def' | 'class' | 'loop' | 'block';
+  fn?: FunctionMetrics;
+}
+
+/** The code with comments removed and every string literal replaced by `""`, line numbers kept */
+function stripCommentsAndStrings(code: string): string[] {
+  let out = '';
+  let index = 0;
+
+  while (index < code.length) {
+    const char = code[index];
+    if (char === '#') {
+      while (index < code.length && code[index] !== '\n') index++;
+      continue;
+    }
+    if (char !== '"' && char !== "'") {
+      out += char;
+      index++;
+      continue;
+    }
+
+    out = out.replace(/(?<![\w])[rRbBuUfF]{1,2}$/, '');
+    const delimiter = code.startsWith(char.repeat(3), index) ? char.repeat(3) : char;
+    index += delimiter.length;
+    let newlines = '';
+    while (index < code.length && !code.startsWith(delimiter, index)) {
+      if (code[index] === '\\') index++;
+      else if (code[index] === '\n') {
+        if (delimiter.length === 1) break;
+        newlines += '\n';
+      }
+      index++;
+    }
+    index += code.startsWith(delimiter, index) ? delimiter.length : 0;
+    out += `""${newlines}`;
+  }
+
+  return out.split('\n');
+}
+
+const indentOf = (line: string) => line.match(/^[ \t]*/)![0].replace(/\t/g, '    ').length;
+
+/** Physical lines joined where brackets or a backslash continue them */
+function logicalLines(lines: string[]): LogicalLine[] {
+  const logical: LogicalLine[] = [];
+  let depth = 0;
+  let continued = false;
+
+  lines.forEach((text, index) => {
+    const trimmed = text.trim();
+    if (depth > 0 || continued) {
+      const last = logical[logical.length - 1];
+      if (last) {
+        last.text = `${last.text} ${trimmed.replace(/\\$/, '')}`.trim();
+        last.endLine = index + 1;
+      }
+    } else if (trimmed !== '') {
+      logical.push({ line: index + 1, endLine: index + 1, indent: indentOf(text), text: trimmed.replace(/\\$/, '').trim() });
+    }
+    for (const char of trimmed) {
+      if ('([{'.includes(char)) depth++;
+      else if (')]}'.includes(char)) depth = Math.max(0, depth - 1);
+    }
+    continued = trimmed.endsWith('\\');
+  });
+
+  return logical;
+}
+
+/** Parameters of a `def` signature, without `self`, `cls` and the bare `*` and `/` markers */
+function parameters(signature: string): string[] {
+  const open = signature.indexOf('(');
+  const params: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of signature.slice(open + 1)) {
+    if (depth === 0 && char === ')') break;
+    if ('([{'.includes(char)) depth++;
+    if (')]}'.includes(char)) depth--;
+    if (depth === 0 && char === ',') {
+      params.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  params.push(current.trim());
+
+  return params.filter(param => param !== '' && param !== '*' && param !== '/' && !/^(self|cls)\b/.test(param));
+}
+
+function importedNames(text: string): string[] {
+  const fromImport = text.match(/^from\s+(\S+)\s+import\s+\(?(.*?)\)?$/);
+  if (fromImport) {
+    if (fromImport[1] === '__future__' || fromImport[2].trim() === '*') return [];
+    return fromImport[2].split(',').map(name => name.trim().split(/\s+as\s+/).pop()!).filter(Boolean);
+  }
+  const plainImport = text.match(/^import\s+(.*)$/);
+  if (!plainImport) return [];
+  return plainImport[1].split(',').map(name => {
+    const [module, alias] = name.trim().split(/\s+as\s+/);
+    return alias ?? module.split('.')[0];
+  });
+}
+
+function analyzeSource(code: string): SourceAnalysis {
+  const lines = stripCommentsAndStrings(code);
+  const logical = logicalLines(lines);
+
+  const functions: FunctionMetrics[] = [];
+  const quality: QualityFinding[] = [];
+  const performance: PerformanceFinding[] = [];
+  const practices: PracticeFinding[] = [];
+  const imports: Array<{ name: string; line: number }> = [];
+  let topLevelComplexity = 1;
+
+  const stack: Frame[] = [];
+  let lastCodeLine = 0;
+  const close = (frame: Frame) => {
+    if (frame.fn) frame.fn.length = lastCodeLine - frame.fn.line + 1;
+  };
+
+  logical.forEach((entry, index) => {
+    const { line, indent, text } = entry;
+    while (stack.length > 0 && indent <= stack[stack.length - 1].indent) close(stack.pop()!);
+
+    const fnIndex = stack.map(frame => frame.kind).lastIndexOf('def');
+    const fn = fnIndex === -1 ? null : stack[fnIndex].fn!;
+    const inFunction = stack.slice(fnIndex + 1);
+
+    const decisions = (text.match(DECISION) ?? []).length + (/^case\b.*:$/.test(text) ? 1 : 0);
+    const definition = text.match(/^(?:async\s+)?def\s+(\w+)\s*\(/);
+
+    if (definition) {
+      const params = parameters(text);
+      const metrics: FunctionMetrics = {
+        name: definition[1],
+        line,
+        length: 1,
+        complexity: 1 + decisions,
+        parameters: params.length,
+        maxNesting: 0
+      };
+      functions.push(metrics);
+      stack.push({ indent, kind: 'def', fn: metrics });
+
+      params
+        .filter(param => /=\s*(\[\]|\{\}|list\(\)|dict\(\)|set\(\))$/.test(param))
+        .forEach(param => practices.push({
+          practice: 'Mutable default argument',
+          description: `The default of '${param.split(/[:=]/)[0].trim()}' is created once and shared by every call`,
+          line,
+          recommendation: 'Default to None and create the list or dict inside the function',
+          difficulty: 'intermediate'
+        }));
+    } else {
+      if (fn) fn.complexity += decisions;
+      else topLevelComplexity += decisions;
+
+      if (/^class\s+\w+/.test(text)) {
+        stack.push({ indent, kind: 'class' });
+      } else if (BLOCK_STATEMENT.test(text)) {
+        const isLoop = /^(async\s+)?(for|while)\b/.test(text);
+        const enclosingLoops = inFunction.filter(frame => frame.kind === 'loop').length;
+        if (fn) fn.maxNesting = Math.max(fn.maxNesting, inFunction.filter(frame => frame.kind !== 'class').length + 1);
+        if (isLoop && enclosingLoops > 0) {
+          performance.push({
+            impact: enclosingLoops >= 2 ? 'high' : 'medium',
+            type: 'Nested loop',
+            line,
+            description: `Loop nested ${enclosingLoops} level${enclosingLoops === 1 ? '' : 's'} deep: O(n^${enclosingLoops + 1}) for n items`,
+            suggestion: 'Index the inner collection in a dict or set before the outer loop',
+            estimated_improvement: 'Linear instead of polynomial time on large inputs'
+          });
+        }
+        stack.push({ indent, kind: isLoop ? 'loop' : 'block' });
+      }
+    }
+
+    if (/^except\s*:/.test(text)) {
+      practices.push({
+        practice: 'Error handling',
+        description: 'Bare `except:` also catches KeyboardInterrupt and SystemExit',
+        line,
+        recommendation: 'Catch the exceptions you expect, or at least `except Exception:`',
+        difficulty: 'beginner'
+      });
+    }
+    const next = logical[index + 1];
+    if (/^except\b/.test(text) && (/:\s*pass$/.test(text) || (next?.text === 'pass' && !(logical[index + 2]?.indent > indent)))) {
+      practices.push({
+        practice: 'Error handling',
+        description: 'Exception handler silently ignores the error',
+        line,
+        recommendation: 'Handle or log the error; leave a comment if ignoring it is intended',
+        difficulty: 'beginner'
+      });
+    }
+    if (/[!=]=\s*None\b|\bNone\s*[!=]=/.test(text)) {
+      practices.push({
+        practice: 'Identity comparison',
+        description: 'Comparing with None by equality can be fooled by a custom `__eq__`',
+        line,
+        recommendation: 'Use `is None` or `is not None`',
+        difficulty: 'beginner'
+      });
+    }
+    if (/\brange\(\s*len\(/.test(text)) {
+      practices.push({
+        practice: 'Pythonic iteration',
+        description: '`range(len(...))` iterates over indexes instead of items',
+        line,
+        recommendation: 'Iterate over the items directly, or use `enumerate()` when the index is needed',
+        difficulty: 'beginner'
+      });
+    }
+    if (/^from\s+\S+\s+import\s+\*$/.test(text)) {
+      practices.push({
+        practice: 'Explicit imports',
+        description: 'Wildcard import hides where names come from',
+        line,
+        recommendation: 'Import the names you use',
+        difficulty: 'beginner'
+      });
+    }
+    importedNames(text).forEach(name => imports.push({ name, line }));
+
+    lastCodeLine = entry.endLine;
+  });
+  stack.splice(0).reverse().forEach(close);
+
+  for (const { name, line } of imports) {
+    const pattern = new RegExp(`\\b${name}\\b`, 'g');
+    const uses = lines.reduce((total, text, index) => total + (index + 1 === line ? 0 : (text.match(pattern) ?? []).length), 0);
+    if (uses === 0) {
+      quality.push({
+        category: 'maintainability',
+        severity: 'warning',
+        line,
+        description: `Import '${name}' is never used`,
+        suggestion: 'Remove it'
+      });
+    }
+  }
+
+  const operators = new Map<string, number>();
+  const operands = new Map<string, number>();
+  for (const token of lines.join('\n').match(TOKEN) ?? []) {
+    const isOperand = /^(""|\d)/.test(token) || (/^[A-Za-z_]/.test(token) && (!KEYWORDS.has(token) || OPERAND_KEYWORDS.has(token)));
+    const counts = isOperand ? operands : operators;
+    counts.set(token, (counts.get(token) ?? 0) + 1);
+  }
+  const sum = (counts: Map<string, number>) => [...counts.values()].reduce((total, count) => total + count, 0);
+
+  return {
+    functions,
+    topLevelComplexity,
+    halstead: {
+      distinctOperators: operators.size,
+      distinctOperands: operands.size,
+      totalOperators: sum(operators),
+      totalOperands: sum(operands)
+    },
+    codeLines: lines.flatMap((text, index) =>
+      text.trim() === '' ? [] : [{ line: index + 1, text: text.trim().replace(/\s+/g, ' ') }]
+    ),
+    quality,
+    performance,
+    practices
+  };
+}
+
+export const pythonAnalyzer: LanguageAnalyzer = {
+  name: 'Python indentation and tokens',
+  languages: ['python'],
+  async analyze(code) {
+    return analyzeSource(code);
+  }
+};
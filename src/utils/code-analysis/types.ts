@@ -0,0 +1,70 @@
+import type {
+  BestPracticeIssue,
+  CodeMetrics,
+  PerformanceIssue,
+  QualityIssue
+} from '../../types/code-review';
+
+/** Findings before they are numbered; ids follow line order across the whole analysis */
+export type QualityFinding = Omit<QualityIssue, 'id'>;
+export type PerformanceFinding = Omit<PerformanceIssue, 'id'>;
+export type PracticeFinding = Omit<BestPracticeIssue, 'id'>;
+
+export interface FunctionMetrics {
+  name: string;
+  line: number;
+  /** Lines from the declaration to the end of the body */
+  length: number;
+  complexity: number;
+  parameters: number;
+  /** Deepest nesting of blocks (branches, loops, try) inside the body */
+  maxNesting: number;
+}
+
+export interface HalsteadCounts {
+  distinctOperators: number;
+  distinctOperands: number;
+  totalOperators: number;
+  totalOperands: number;
+}
+
+/** What a language analyzer reads out of the source; the rest of the review is language independent */
+export interface SourceAnalysis {
+  functions: FunctionMetrics[];
+  /** Complexity of code outside any function */
+  topLevelComplexity: number;
+  halstead: HalsteadCounts;
+  /** Every line with code on it, comments removed and whitespace collapsed, for size and duplication */
+  codeLines: Array<{ line: number; text: string }>;
+  quality: QualityFinding[];
+  performance: PerformanceFinding[];
+  practices: PracticeFinding[];
+}
+
+export interface LanguageAnalyzer {
+  name: string;
+  /** Language values of the review tool this analyzer handles */
+  languages: string[];
+  analyze(code: string, language: string): Promise<SourceAnalysis>;
+}
+
+export interface AnalysisThresholds {
+  functionLines: number;
+  /** Complexity above this is a warning, above twice this an error */
+  complexity: number;
+  parameters: number;
+  nesting: number;
+  /** Shortest run of repeated lines reported as duplication */
+  duplicateLines: number;
+}
+
+export interface StaticAnalysis {
+  language: string;
+  analyzer: string;
+  functions: FunctionMetrics[];
+  metrics: CodeMetrics;
+  quality_issues: QualityIssue[];
+  performance_issues: PerformanceIssue[];
+  best_practices: BestPracticeIssue[];
+  overall_score: number;
+}
@@ -0,0 +1,452 @@
+import type * as TS from 'typescript';
+import type {
+  FunctionMetrics,
+  LanguageAnalyzer,
+  PerformanceFinding,
+  PracticeFinding,
+  QualityFinding,
+  SourceAnalysis
+} from './types';
+
+/**
+ * TypeScript and JavaScript analysis on the TypeScript compiler's syntax
+ * tree. Only the parser is used, so findings are about the code as
+ * written; unused code is matched by name and ignores shadowing.
+ */
+
+type TypeScriptModule = typeof TS;
+
+let compiler: Promise<TypeScriptModule> | undefined;
+
+// The compiler is several megabytes, so it's only fetched once a review needs it
+function loadCompiler(): Promise<TypeScriptModule> {
+  compiler ??= import('typescript').then(
+    module => ((module as { default?: TypeScriptModule }).default ?? module) as TypeScriptModule
+  );
+  return compiler;
+}
+
+type FunctionWithBody =
+  | TS.FunctionDeclaration
+  | TS.FunctionExpression
+  | TS.ArrowFunction
+  | TS.MethodDeclaration
+  | TS.ConstructorDeclaration
+  | TS.AccessorDeclaration;
+
+/** Array methods whose callback runs once per element, so a loop inside one is a nested loop */
+const ITERATION_METHODS = new Set(['forEach', 'map', 'filter', 'reduce', 'reduceRight', 'some', 'every', 'find', 'findIndex', 'flatMap']);
+/** Methods that scan the whole array on every call */
+const LINEAR_LOOKUPS = new Set(['indexOf', 'lastIndexOf', 'includes']);
+
+interface WalkContext {
+  fn: FunctionMetrics | null;
+  nesting: number;
+  /** Loops around this node within the function, counting iteration callbacks */
+  loopDepth: number;
+  /** Loop statements around this node within the function */
+  loopStatements: number;
+}
+
+interface Declaration {
+  name: string;
+  line: number;
+  kind: 'import' | 'variable' | 'parameter';
+}
+
+function analyzeSource(ts: TypeScriptModule, code: string, language: string): SourceAnalysis {
+  const isTypeScript = language === 'typescript';
+  const source = ts.createSourceFile(
+    isTypeScript ? 'review.tsx' : 'review.jsx',
+    code,
+    ts.ScriptTarget.Latest,
+    true,
+    isTypeScript ? ts.ScriptKind.TSX : ts.ScriptKind.JSX
+  );
+
+  const lineOf = (node: TS.Node) => source.getLineAndCharacterOfPosition(node.getStart(source)).line + 1;
+  const endLineOf = (node: TS.Node) => source.getLineAndCharacterOfPosition(node.getEnd()).line + 1;
+
+  const functions: FunctionMetrics[] = [];
+  const quality: QualityFinding[] = [];
+  const performance: PerformanceFinding[] = [];
+  const practices: PracticeFinding[] = [];
+  const declarations: Declaration[] = [];
+  /** Parameters per function, so only unused parameters after the last used one are reported */
+  const parameterLists: Declaration[][] = [];
+  const references = new Map<string, number>();
+  let topLevelComplexity = 1;
+
+  const isFunctionWithBody = (node: TS.Node): node is FunctionWithBody =>
+    (ts.isFunctionDeclaration(node) ||
+      ts.isFunctionExpression(node) ||
+      ts.isArrowFunction(node) ||
+      ts.isMethodDeclaration(node) ||
+      ts.isConstructorDeclaration(node) ||
+      ts.isGetAccessorDeclaration(node) ||
+      ts.isSetAccessorDeclaration(node)) &&
+    node.body !== undefined;
+
+  const functionName = (node: FunctionWithBody): string => {
+    if (ts.isConstructorDeclaration(node)) return 'constructor';
+    if (node.name) return node.name.getText(source);
+    const { parent } = node;
+    if ((ts.isVariableDeclaration(parent) || ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) && parent.name) {
+      return parent.name.getText(source);
+    }
+    return 'Anonymous function';
+  };
+
+  const methodCall = (node: TS.Node): { object: TS.Expression; method: string } | null =>
+    ts.isCallExpression(node) && ts.isPropertyAccessExpression(node.expression)
+      ? { object: node.expression.expression, method: node.expression.name.text }
+      : null;
+
+  const isIterationCallback = (node: TS.Node) => {
+    const call = methodCall(node.parent);
+    return call !== null && ITERATION_METHODS.has(call.method) && (node.parent as TS.CallExpression).arguments.includes(node as TS.Expression);
+  };
+
+  const isDecisionPoint = (node: TS.Node) => {
+    switch (node.kind) {
+      case ts.SyntaxKind.IfStatement:
+      case ts.SyntaxKind.ConditionalExpression:
+      case ts.SyntaxKind.ForStatement:
+      case ts.SyntaxKind.ForInStatement:
+      case ts.SyntaxKind.ForOfStatement:
+      case ts.SyntaxKind.WhileStatement:
+      case ts.SyntaxKind.DoStatement:
+      case ts.SyntaxKind.CaseClause:
+      case ts.SyntaxKind.CatchClause:
+        return true;
+      case ts.SyntaxKind.BinaryExpression:
+        return [
+          ts.SyntaxKind.AmpersandAmpersandToken,
+          ts.SyntaxKind.BarBarToken,
+          ts.SyntaxKind.QuestionQuestionToken,
+          ts.SyntaxKind.AmpersandAmpersandEqualsToken,
+          ts.SyntaxKind.BarBarEqualsToken,
+          ts.SyntaxKind.QuestionQuestionEqualsToken
+        ].includes((node as TS.BinaryExpression).operatorToken.kind);
+      default:
+        return false;
+    }
+  };
+
+  const opensBlock = (node: TS.Node) => {
+    // `else if` continues its `if` rather than nesting inside it
+    if (ts.isIfStatement(node)) return !(ts.isIfStatement(node.parent) && node.parent.elseStatement === node);
+    return ts.isIterationStatement(node, false) || ts.isSwitchStatement(node) || ts.isTryStatement(node);
+  };
+
+  const bindingNames = (name: TS.BindingName): TS.Identifier[] =>
+    ts.isIdentifier(name)
+      ? [name]
+      : name.elements.flatMap(element => (ts.isOmittedExpression(element) ? [] : bindingNames(element.name)));
+
+  const declare = (identifier: TS.Identifier, kind: Declaration['kind']): Declaration | null => {
+    if (identifier.text.startsWith('_')) return null;
+    const declaration = { name: identifier.text, line: lineOf(identifier), kind };
+    declarations.push(declaration);
+    return declaration;
+  };
+
+  const countReference = (identifier: TS.Identifier) => {
+    const { parent } = identifier;
+    const isOwnName =
+      (parent as { name?: TS.Node }).name === identifier &&
+      !ts.isShorthandPropertyAssignment(parent) &&
+      !ts.isExportSpecifier(parent);
+    if (!isOwnName) references.set(identifier.text, (references.get(identifier.text) ?? 0) + 1);
+  };
+
+  const checkUnreachable = (statements: TS.NodeArray<TS.Statement>) => {
+    const exit = statements.findIndex(
+      statement =>
+        ts.isReturnStatement(statement) ||
+        ts.isThrowStatement(statement) ||
+        ts.isBreakStatement(statement) ||
+        ts.isContinueStatement(statement)
+    );
+    if (exit === -1) return;
+    // Function declarations are hoisted and types don't run, so neither counts as dead code
+    const dead = statements.slice(exit + 1).find(
+      statement =>
+        !ts.isFunctionDeclaration(statement) &&
+        !ts.isInterfaceDeclaration(statement) &&
+        !ts.isTypeAliasDeclaration(statement) &&
+        !ts.isEmptyStatement(statement)
+    );
+    if (dead) {
+      quality.push({
+        category: 'maintainability',
+        severity: 'warning',
+        line: lineOf(dead),
+        description: `Unreachable code after the ${statements[exit].getFirstToken(source)?.getText(source)} on line ${lineOf(statements[exit])}`,
+        suggestion: 'Remove the dead code, or move it before the statement that leaves the block'
+      });
+    }
+  };
+
+  const checkNode = (node: TS.Node, context: WalkContext) => {
+    if (ts.isVariableDeclarationList(node) && (node.flags & ts.NodeFlags.BlockScoped) === 0) {
+      practices.push({
+        practice: 'Block-scoped declarations',
+        description: '`var` is function scoped and hoisted, which makes its value easy to misread',
+        line: lineOf(node),
+        recommendation: 'Use `const`, or `let` if the variable is reassigned',
+        difficulty: 'beginner'
+      });
+    }
+
+    if (
+      ts.isBinaryExpression(node) &&
+      (node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsToken ||
+        node.operatorToken.kind === ts.SyntaxKind.ExclamationEqualsToken) &&
+      node.left.kind !== ts.SyntaxKind.NullKeyword &&
+      node.right.kind !== ts.SyntaxKind.NullKeyword
+    ) {
+      const strict = node.operatorToken.kind === ts.SyntaxKind.EqualsEqualsToken ? '===' : '!==';
+      practices.push({
+        practice: 'Strict equality',
+        description: `\`${node.operatorToken.getText(source)}\` converts types before comparing`,
+        line: lineOf(node),
+        recommendation: `Use \`${strict}\``,
+        difficulty: 'beginner'
+      });
+    }
+
+    if (ts.isCatchClause(node) && node.block.statements.length === 0) {
+      practices.push({
+        practice: 'Error handling',
+        description: 'Empty catch block silently swallows errors',
+        line: lineOf(node),
+        recommendation: 'Handle the error, log it, or rethrow it; leave a comment if ignoring it is intended',
+        difficulty: 'beginner'
+      });
+    }
+
+    if (isTypeScript && node.kind === ts.SyntaxKind.AnyKeyword) {
+      practices.push({
+        practice: 'Type safety',
+        description: '`any` turns off type checking for everything it touches',
+        line: lineOf(node),
+        recommendation: 'Use a specific type, a generic, or `unknown` with a type guard',
+        difficulty: 'intermediate'
+      });
+    }
+
+    if (ts.isDebuggerStatement(node)) {
+      practices.push({
+        practice: 'Debugging leftovers',
+        description: '`debugger` statement left in the code',
+        line: lineOf(node),
+        recommendation: 'Remove it before committing',
+        difficulty: 'beginner'
+      });
+    }
+
+    const call = methodCall(node);
+    if (call && ts.isIdentifier(call.object) && call.object.text === 'console' && (call.method === 'log' || call.method === 'debug')) {
+      practices.push({
+        practice: 'Debugging leftovers',
+        description: `\`console.${call.method}\` left in the code`,
+        line: lineOf(node),
+        recommendation: 'Remove it, or log through the application logger at the right level',
+        difficulty: 'beginner'
+      });
+    }
+
+    if (call && LINEAR_LOOKUPS.has(call.method) && context.loopDepth > 0) {
+      performance.push({
+        impact: 'medium',
+        type: 'Linear lookup in loop',
+        line: lineOf(node),
+        description: `\`.${call.method}()\` inside a loop scans the whole collection on every iteration`,
+        suggestion: 'Build a Set or Map once before the loop and look items up in it',
+        estimated_improvement: 'O(n) instead of O(n²) for the loop'
+      });
+    }
+
+    if (
+      call?.method === 'parse' &&
+      ts.isIdentifier(call.object) &&
+      call.object.text === 'JSON' &&
+      methodCall((node as TS.CallExpression).arguments[0] ?? node)?.method === 'stringify'
+    ) {
+      performance.push({
+        impact: 'low',
+        type: 'Deep clone through JSON',
+        line: lineOf(node),
+        description: '`JSON.parse(JSON.stringify(...))` serializes the whole object and loses dates, maps and undefined values',
+        suggestion: 'Use `structuredClone()`',
+        estimated_improvement: 'Faster cloning that keeps value types'
+      });
+    }
+
+    if (ts.isAwaitExpression(node) && context.loopStatements > 0) {
+      performance.push({
+        impact: 'medium',
+        type: 'Sequential await in loop',
+        line: lineOf(node),
+        description: 'Each iteration waits for the previous one to finish',
+        suggestion: 'If the iterations are independent, start them together and `await Promise.all(...)`',
+        estimated_improvement: 'Total time of the slowest call instead of the sum of all calls'
+      });
+    }
+
+    if ((ts.isIterationStatement(node, false) || (isFunctionWithBody(node) && isIterationCallback(node))) && context.loopDepth > 0) {
+      performance.push({
+        impact: context.loopDepth >= 2 ? 'high' : 'medium',
+        type: 'Nested loop',
+        line: lineOf(node),
+        description: `Loop nested ${context.loopDepth} level${context.loopDepth === 1 ? '' : 's'} deep: O(n^${context.loopDepth + 1}) for n items`,
+        suggestion: 'Index the inner collection in a Map or Set before the outer loop',
+        estimated_improvement: 'Linear instead of polynomial time on large inputs'
+      });
+    }
+
+    if (ts.isImportClause(node) && node.name) declare(node.name, 'import');
+    if (ts.isImportSpecifier(node) || ts.isNamespaceImport(node)) declare(node.name, 'import');
+    // Top level names of a snippet are often used by code that wasn't pasted, so only locals are checked
+    if (ts.isVariableDeclaration(node) && context.fn && !ts.isCatchClause(node.parent)) {
+      bindingNames(node.name).forEach(identifier => declare(identifier, 'variable'));
+    }
+
+    if (ts.isBlock(node) || ts.isSourceFile(node) || ts.isCaseClause(node) || ts.isDefaultClause(node)) {
+      checkUnreachable(node.statements);
+    }
+  };
+
+  const visit = (node: TS.Node, context: WalkContext): void => {
+    if (ts.isIdentifier(node)) countReference(node);
+    checkNode(node, context);
+
+    if (isFunctionWithBody(node)) {
+      const metrics: FunctionMetrics = {
+        name: functionName(node),
+        line: lineOf(node),
+        length: endLineOf(node) - lineOf(node) + 1,
+        complexity: 1,
+        parameters: node.parameters.length,
+        maxNesting: 0
+      };
+      functions.push(metrics);
+      parameterLists.push(
+        node.parameters.flatMap(parameter => {
+          if (!ts.isIdentifier(parameter.name) || parameter.name.text === 'this') return [];
+          const declaration = declare(parameter.name, 'parameter');
+          return declaration ? [declaration] : [];
+        })
+      );
+
+      const inner: WalkContext = {
+        fn: metrics,
+        nesting: 0,
+        loopDepth: isIterationCallback(node) ? context.loopDepth + 1 : 0,
+        loopStatements: 0
+      };
+      ts.forEachChild(node, child => visit(child, inner));
+      return;
+    }
+
+    if (isDecisionPoint(node)) {
+      if (context.fn) context.fn.complexity++;
+      else topLevelComplexity++;
+    }
+
+    const isLoop = ts.isIterationStatement(node, false);
+    const child: WalkContext = {
+      fn: context.fn,
+      nesting: context.nesting + (opensBlock(node) ? 1 : 0),
+      loopDepth: context.loopDepth + (isLoop ? 1 : 0),
+      loopStatements: context.loopStatements + (isLoop ? 1 : 0)
+    };
+    if (context.fn) context.fn.maxNesting = Math.max(context.fn.maxNesting, child.nesting);
+    ts.forEachChild(node, next => visit(next, child));
+  };
+
+  visit(source, { fn: null, nesting: 0, loopDepth: 0, loopStatements: 0 });
+
+  const isUnused = (declaration: Declaration) => !references.has(declaration.name);
+  // Unused parameters before a used one have to stay for the position of the ones after them
+  const reportedParameters = new Set(
+    parameterLists.flatMap(parameters => {
+      const lastUsed = parameters.map(isUnused).lastIndexOf(false);
+      return parameters.slice(lastUsed + 1);
+    })
+  );
+  for (const declaration of declarations) {
+    if (!isUnused(declaration) || (declaration.kind === 'parameter' && !reportedParameters.has(declaration))) continue;
+    quality.push({
+      category: 'maintainability',
+      severity: declaration.kind === 'parameter' ? 'info' : 'warning',
+      line: declaration.line,
+      description: `${declaration.kind === 'import' ? 'Import' : declaration.kind === 'parameter' ? 'Parameter' : 'Variable'} '${declaration.name}' is never used`,
+      suggestion: declaration.kind === 'parameter' ? `Remove it, or rename it to '_${declaration.name}' if the signature must keep it` : 'Remove it'
+    });
+  }
+
+  // Halstead counts and code lines both come from the tokens, which leave out comments
+  const operators = new Map<string, number>();
+  const operands = new Map<string, number>();
+  const lineTokens = new Map<number, string[]>();
+  const isOperand = (kind: TS.SyntaxKind) =>
+    kind === ts.SyntaxKind.Identifier ||
+    kind === ts.SyntaxKind.PrivateIdentifier ||
+    kind === ts.SyntaxKind.ThisKeyword ||
+    kind === ts.SyntaxKind.TrueKeyword ||
+    kind === ts.SyntaxKind.FalseKeyword ||
+    kind === ts.SyntaxKind.NullKeyword ||
+    (kind >= ts.SyntaxKind.FirstLiteralToken && kind <= ts.SyntaxKind.LastTemplateToken);
+
+  const collectTokens = (node: TS.Node): void => {
+    const children = node.getChildren(source);
+    if (children.length > 0) {
+      children.forEach(collectTokens);
+      return;
+    }
+    if (node.kind === ts.SyntaxKind.EndOfFileToken || node.getWidth(source) === 0) return;
+
+    const text = node.getText(source);
+    if (node.kind !== ts.SyntaxKind.JsxText) {
+      const counts = isOperand(node.kind) ? operands : operators;
+      counts.set(text, (counts.get(text) ?? 0) + 1);
+    } else if (text.trim() === '') {
+      return;
+    }
+    const line = lineOf(node);
+    lineTokens.set(line, [...(lineTokens.get(line) ?? []), text.replace(/\s+/g, ' ').trim()]);
+    for (let covered = line + 1; covered <= endLineOf(node); covered++) {
+      if (!lineTokens.has(covered)) lineTokens.set(covered, []);
+    }
+  };
+  collectTokens(source);
+
+  const sum = (counts: Map<string, number>) => [...counts.values()].reduce((total, count) => total + count, 0);
+
+  return {
+    functions,
+    topLevelComplexity,
+    halstead: {
+      distinctOperators: operators.size,
+      distinctOperands: operands.size,
+      totalOperators: sum(operators),
+      totalOperands: sum(operands)
+    },
+    codeLines: [...lineTokens.entries()]
+      .sort(([a], [b]) => a - b)
+      .map(([line, tokens]) => ({ line, text: tokens.join(' ') })),
+    quality,
+    performance,
+    practices
+  };
+}
+
+export const typescriptAnalyzer: LanguageAnalyzer = {
+  name: 'TypeScript syntax tree',
+  languages: ['typescript', 'javascript'],
+  async analyze(code, language) {
+    return analyzeSource(await loadCompiler(), code, language);
+  }
+};
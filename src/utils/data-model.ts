@@ -0,0 +1,351 @@
+import type {
+  DataModel,
+  EntityDefinition,
+  EntityField,
+  EntityFieldType,
+  EntityIndex,
+  EntityRelation
+} from '../types/full-stack-builder';
+
+/**
+ * Data Model
+ * Naming rules, lookups and validation for the user-defined entity model that
+ * the full-stack generators turn into SQL, Prisma, routes and shared types.
+ */
+
+export const ENTITY_FIELD_TYPES: EntityFieldType[] = [
+  'string', 'text', 'email', 'integer', 'float', 'decimal', 'boolean', 'date', 'datetime', 'json', 'uuid', 'enum'
+];
+
+/** Columns every entity gets without declaring them */
+export const IMPLICIT_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+const ENTITY_NAME = /^[A-Z][A-Za-z0-9]*$/;
+const MEMBER_NAME = /^[a-z][A-Za-z0-9]*$/;
+const ENUM_VALUE = /^[A-Za-z][A-Za-z0-9_]*$/;
+
+export function toSnakeCase(name: string): string {
+  return name
+    .replace(/([a-z0-9])([A-Z])/g, '$1_$2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1_$2')
+    .replace(/[\s-]+/g, '_')
+    .toLowerCase();
+}
+
+export function toKebabCase(name: string): string {
+  return toSnakeCase(name).replace(/_/g, '-');
+}
+
+export function toCamelCase(name: string): string {
+  return name.charAt(0).toLowerCase() + name.slice(1);
+}
+
+export function toPascalCase(name: string): string {
+  return name.charAt(0).toUpperCase() + name.slice(1);
+}
+
+export function pluralize(word: string): string {
+  if (/[^aeiou]y$/i.test(word)) return `${word.slice(0, -1)}ies`;
+  if (/(s|x|z|ch|sh)$/i.test(word)) return `${word}es`;
+  return `${word}s`;
+}
+
+export function tableName(entity: EntityDefinition): string {
+  return pluralize(toSnakeCase(entity.name));
+}
+
+export function columnName(name: string): string {
+  return toSnakeCase(name);
+}
+
+export function foreignKeyName(relation: EntityRelation): string {
+  return `${relation.name}Id`;
+}
+
+/** Input field carrying the IDs of a many-to-many relation, e.g. `tagIds` for `tags` */
+export function relationIdsName(relation: EntityRelation): string {
+  const singular = relation.name.replace(/ies$/, 'y').replace(/(?<!s)s$/, '');
+  return `${singular}Ids`;
+}
+
+/** URL segment and route file name, e.g. `blog-posts` */
+export function resourceName(entity: EntityDefinition): string {
+  return pluralize(toKebabCase(entity.name));
+}
+
+export interface JoinTable {
+  table: string;
+  /** Prisma model for the join table */
+  model: string;
+  /** Foreign keys to the owning entity and the target, as field names */
+  ownerKey: string;
+  targetKey: string;
+}
+
+export function joinTable(entity: EntityDefinition, relation: EntityRelation): JoinTable {
+  const ownerKey = `${toCamelCase(entity.name)}Id`;
+  const targetKey = `${toCamelCase(relation.target)}Id`;
+  return {
+    table: `${toSnakeCase(entity.name)}_${toSnakeCase(relation.name)}`,
+    model: `${entity.name}${toPascalCase(relation.name)}`,
+    ownerKey,
+    // A self-referencing join table needs two distinct columns
+    targetKey: targetKey === ownerKey ? `related${toPascalCase(targetKey)}` : targetKey
+  };
+}
+
+export function findEntity(model: DataModel, name: string): EntityDefinition | undefined {
+  return model.entities.find(entity => entity.name === name);
+}
+
+/** Relations stored as a foreign key on the entity itself */
+export function foreignKeyRelations(entity: EntityDefinition): EntityRelation[] {
+  return entity.relations.filter(relation => relation.kind !== 'many-to-many');
+}
+
+export function manyToManyRelations(entity: EntityDefinition): EntityRelation[] {
+  return entity.relations.filter(relation => relation.kind === 'many-to-many');
+}
+
+/**
+ * Field names an index refers to, with relation names resolved to their
+ * foreign keys
+ */
+export function indexFields(entity: EntityDefinition, index: EntityIndex): string[] {
+  return index.fields.map(name => {
+    const relation = foreignKeyRelations(entity).find(candidate => candidate.name === name);
+    return relation ? foreignKeyName(relation) : name;
+  });
+}
+
+/**
+ * Problems that would make the generated schema invalid, as readable
+ * messages. An empty list means the model can be generated.
+ */
+export function validateDataModel(model: DataModel): string[] {
+  const errors: string[] = [];
+  const entityNames = new Set<string>();
+  const tables = new Set<string>();
+
+  for (const entity of model.entities) {
+    if (!ENTITY_NAME.test(entity.name)) {
+      errors.push(`Entity "${entity.name}" must be PascalCase letters and digits`);
+    }
+    if (entityNames.has(entity.name)) {
+      errors.push(`Entity ${entity.name} is defined more than once`);
+    }
+    entityNames.add(entity.name);
+
+    const table = tableName(entity);
+    if (tables.has(table)) {
+      errors.push(`${entity.name}: table ${table} is already used by another entity`);
+    }
+    tables.add(table);
+
+    if (entity.fields.length === 0) {
+      errors.push(`${entity.name}: add at least one field`);
+    }
+
+    const members = new Set<string>(entity.timestamps ? IMPLICIT_FIELDS : ['id']);
+    const claim = (name: string) => {
+      if (members.has(name)) {
+        errors.push(`${entity.name}.${name} is defined more than once`);
+      }
+      members.add(name);
+    };
+
+    for (const field of entity.fields) {
+      if (!MEMBER_NAME.test(field.name)) {
+        errors.push(`${entity.name}.${field.name}: field names must be camelCase letters and digits`);
+      }
+      claim(field.name);
+      errors.push(...validateField(entity, field));
+    }
+
+    for (const relation of entity.relations) {
+      if (!MEMBER_NAME.test(relation.name)) {
+        errors.push(`${entity.name}.${relation.name}: relation names must be camelCase letters and digits`);
+      }
+      claim(relation.name);
+      claim(relation.kind === 'many-to-many' ? relationIdsName(relation) : foreignKeyName(relation));
+      if (!model.entities.some(candidate => candidate.name === relation.target)) {
+        errors.push(`${entity.name}.${relation.name}: unknown entity ${relation.target}`);
+      }
+      if (relation.required && relation.onDelete === 'set-null') {
+        errors.push(`${entity.name}.${relation.name}: a required relation cannot be set to null on delete`);
+      }
+    }
+
+    for (const index of entity.indexes) {
+      if (index.fields.length === 0) {
+        errors.push(`${entity.name}: an index needs at least one field`);
+      }
+      for (const name of indexFields(entity, index)) {
+        if (!members.has(name) || manyToManyRelations(entity).some(relation => relation.name === name)) {
+          errors.push(`${entity.name}: index field ${name} is not a column of this entity`);
+        }
+      }
+    }
+  }
+
+  return errors;
+}
+
+function validateField(entity: EntityDefinition, field: EntityField): string[] {
+  const errors: string[] = [];
+  const label = `${entity.name}.${field.name}`;
+
+  if (field.type === 'enum') {
+    const values = field.enumValues ?? [];
+    if (values.length === 0) {
+      errors.push(`${label}: enum fields need at least one value`);
+    }
+    for (const value of values) {
+      if (!ENUM_VALUE.test(value)) {
+        errors.push(`${label}: enum value "${value}" must start with a letter and use letters, digits or _`);
+      }
+    }
+    if (field.defaultValue !== undefined && !values.includes(String(field.defaultValue))) {
+      errors.push(`${label}: default ${field.defaultValue} is not one of the enum values`);
+    }
+  }
+
+  if (field.maxLength !== undefined && (!Number.isInteger(field.maxLength) || field.maxLength < 1)) {
+    errors.push(`${label}: maxLength must be a positive integer`);
+  }
+
+  if (field.defaultValue === 'now' && field.type !== 'date' && field.type !== 'datetime') {
+    errors.push(`${label}: only date and datetime fields can default to now`);
+  }
+
+  return errors;
+}
+
+export function createEntity(name: string): EntityDefinition {
+  return {
+    name,
+    fields: [{ name: 'name', type: 'string', required: true }],
+    relations: [],
+    indexes: [],
+    timestamps: true
+  };
+}
+
+/**
+ * Starting model for the selected features: users, plus sessions and roles
+ * with authentication, uploads with file storage and events with analytics.
+ */
+export function createDefaultDataModel(features: string[]): DataModel {
+  const user: EntityDefinition = {
+    name: 'User',
+    fields: [
+      { name: 'name', type: 'string', required: true },
+      { name: 'email', type: 'email', required: true, unique: true },
+      { name: 'emailVerified', type: 'boolean', required: true, defaultValue: false },
+      { name: 'avatarUrl', type: 'text', required: false }
+    ],
+    relations: [],
+    indexes: [{ fields: ['createdAt'] }],
+    timestamps: true
+  };
+  const entities: EntityDefinition[] = [user];
+
+  if (features.includes('User Authentication & Authorization')) {
+    user.relations.push({ name: 'roles', target: 'Role', kind: 'many-to-many' });
+    entities.push(
+      {
+        name: 'Session',
+        fields: [
+          { name: 'token', type: 'string', required: true, unique: true },
+          { name: 'expiresAt', type: 'datetime', required: true }
+        ],
+        relations: [{ name: 'user', target: 'User', kind: 'many-to-one', required: true, onDelete: 'cascade' }],
+        indexes: [{ fields: ['user'] }, { fields: ['expiresAt'] }],
+        timestamps: true
+      },
+      {
+        name: 'Role',
+        fields: [
+          { name: 'name', type: 'string', required: true, unique: true, maxLength: 100 },
+          { name: 'description', type: 'text', required: false }
+        ],
+        relations: [],
+        indexes: [],
+        timestamps: true
+      }
+    );
+  }
+
+  if (features.includes('File Upload & Storage')) {
+    entities.push({
+      name: 'Upload',
+      fields: [
+        { name: 'filename', type: 'string', required: true },
+        { name: 'originalName', type: 'string', required: true },
+        { name: 'mimeType', type: 'string', required: true, maxLength: 100 },
+        { name: 'sizeBytes', type: 'integer', required: true },
+        { name: 'storagePath', type: 'text', required: true }
+      ],
+      relations: [{ name: 'user', target: 'User', kind: 'many-to-one', required: true, onDelete: 'cascade' }],
+      indexes: [{ fields: ['user'] }],
+      timestamps: true
+    });
+  }
+
+  if (features.includes('Analytics & Reporting')) {
+    entities.push({
+      name: 'AnalyticsEvent',
+      fields: [
+        { name: 'eventName', type: 'string', required: true, maxLength: 100 },
+        { name: 'eventData', type: 'json', required: false },
+        { name: 'sessionId', type: 'string', required: false },
+        { name: 'ipAddress', type: 'string', required: false, maxLength: 45 },
+        { name: 'userAgent', type: 'text', required: false }
+      ],
+      relations: [{ name: 'user', target: 'User', kind: 'many-to-one', required: false, onDelete: 'set-null' }],
+      indexes: [{ fields: ['user'] }, { fields: ['eventName'] }, { fields: ['createdAt'] }],
+      timestamps: true
+    });
+  }
+
+  return { entities };
+}
+
+export type DatabaseDialect = 'postgresql' | 'mysql' | 'mongodb';
+
+/**
+ * How a database choice is modelled: Supabase is Postgres and PlanetScale is
+ * MySQL. Databases without a schema (Redis) return null.
+ */
+export function databaseDialect(database: string): DatabaseDialect | null {
+  if (database === 'postgresql' || database === 'supabase') return 'postgresql';
+  if (database === 'mysql' || database === 'planetscale') return 'mysql';
+  if (database === 'mongodb') return 'mongodb';
+  return null;
+}
+
+/** Explicit delete behaviour, with the same defaults Prisma uses */
+export function onDeleteAction(relation: EntityRelation): NonNullable<EntityRelation['onDelete']> {
+  return relation.onDelete ?? (relation.required ? 'restrict' : 'set-null');
+}
+
+/**
+ * Name of the list or object a relation adds to its target, e.g. `sessions`
+ * on User for Session.user. Qualified with the relation name when it would
+ * otherwise be ambiguous.
+ */
+export function inverseRelationName(model: DataModel, entity: EntityDefinition, relation: EntityRelation): string {
+  const base = relation.kind === 'one-to-one' ? toCamelCase(entity.name) : toCamelCase(pluralize(entity.name));
+  const siblings = foreignKeyRelations(entity).filter(candidate => candidate.target === relation.target);
+  const target = findEntity(model, relation.target);
+  const taken = target
+    ? [...target.fields.map(field => field.name), ...target.relations.map(candidate => candidate.name)]
+    : [];
+
+  return siblings.length > 1 || taken.includes(base) ? `${base}By${toPascalCase(relation.name)}` : base;
+}
+
+/** Human-readable singular name, e.g. `blog post` */
+export function entityLabel(entity: EntityDefinition): string {
+  return toSnakeCase(entity.name).replace(/_/g, ' ');
+}
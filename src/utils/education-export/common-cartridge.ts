@@ -0,0 +1,168 @@
+import type { Assessment, AssessmentQuestion, EducationalContent } from '../../types/education';
+import { contentBlocks } from './document';
+import { answersOf, choicesOf, correctChoiceIndexes, matchingPairs } from './questions';
+import { renderHtml } from './text';
+import { escapeXml, XML_DECLARATION, xmlId, type PackageExport, type PackageFiles } from './xml';
+
+const QTI_NAMESPACES = [
+  'xmlns="http://www.imsglobal.org/xsd/ims_qtiasiv1p2"',
+  'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+  'xsi:schemaLocation="http://www.imsglobal.org/xsd/ims_qtiasiv1p2 http://www.imsglobal.org/profile/cc/ccv1p1/ccv1p1_qtiasiv1p2p1_v1p0.xsd"'
+].join(' ');
+
+function metadata(fields: Record<string, string | number | undefined>): string {
+  const entries = Object.entries(fields).filter(([, value]) => value !== undefined);
+  return `<qtimetadata>${entries.map(([label, value]) =>
+    `<qtimetadatafield><fieldlabel>${label}</fieldlabel><fieldentry>${escapeXml(String(value))}</fieldentry></qtimetadatafield>`).join('')}</qtimetadata>`;
+}
+
+function material(text: string): string {
+  return `<material><mattext texttype="text/plain">${escapeXml(text)}</mattext></material>`;
+}
+
+const SCORE_VARIABLE = '<outcomes><decvar maxvalue="100" minvalue="0" varname="SCORE" vartype="Decimal"/></outcomes>';
+
+function fullScore(condition: string): string {
+  return `<respcondition continue="No"><conditionvar>${condition}</conditionvar><setvar action="Set" varname="SCORE">100</setvar></respcondition>`;
+}
+
+interface CartridgeItem {
+  profile: string;
+  presentation: string;
+  processing: string;
+}
+
+function writtenResponse(question: AssessmentQuestion): CartridgeItem {
+  return {
+    profile: 'cc.essay.v0p1',
+    presentation: `${material(question.question)}<response_str ident="response1" rcardinality="Single"><render_fib><response_label ident="answer1" rshuffle="No"/></render_fib></response_str>`,
+    processing: `<resprocessing>${SCORE_VARIABLE}</resprocessing>`
+  };
+}
+
+function cartridgeItem(question: AssessmentQuestion, warn: (message: string) => void): CartridgeItem {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false': {
+      const choices = choicesOf(question);
+      const correct = correctChoiceIndexes(question);
+      if (correct.length === 0) {
+        warn('has no answer matching its options and will need to be scored by hand');
+      }
+      const multiple = correct.length > 1;
+      const condition = multiple
+        ? `<and>${choices.map((_, index) => correct.includes(index)
+            ? `<varequal respident="response1">choice_${index}</varequal>`
+            : `<not><varequal respident="response1">choice_${index}</varequal></not>`).join('')}</and>`
+        : `<varequal respident="response1">choice_${correct[0]}</varequal>`;
+
+      return {
+        profile: question.type === 'true-false' ? 'cc.true_false.v0p1' : multiple ? 'cc.multiple_response.v0p1' : 'cc.multiple_choice.v0p1',
+        presentation: [
+          material(question.question),
+          `<response_lid ident="response1" rcardinality="${multiple ? 'Multiple' : 'Single'}"><render_choice>`,
+          ...choices.map((choice, index) => `<response_label ident="choice_${index}">${material(choice)}</response_label>`),
+          '</render_choice></response_lid>'
+        ].join(''),
+        processing: `<resprocessing>${SCORE_VARIABLE}${correct.length > 0 ? fullScore(condition) : ''}</resprocessing>`
+      };
+    }
+    case 'fill-blank':
+    case 'short-answer': {
+      const answers = answersOf(question);
+      if (answers.length === 0) {
+        if (question.type === 'fill-blank') warn('has no answer and is exported as an essay');
+        return writtenResponse(question);
+      }
+      return {
+        profile: 'cc.fib.v0p1',
+        presentation: `${material(question.question)}<response_str ident="response1" rcardinality="Single"><render_fib><response_label ident="answer1" rshuffle="No"/></render_fib></response_str>`,
+        processing: `<resprocessing>${SCORE_VARIABLE}${answers.map(answer => fullScore(`<varequal respident="response1" case="No">${escapeXml(answer)}</varequal>`)).join('')}</resprocessing>`
+      };
+    }
+    case 'matching': {
+      // Common Cartridge has no matching profile, so the pairs become a written task
+      warn('is exported as an essay because Common Cartridge has no matching questions');
+      const pairs = matchingPairs(question);
+      const text = [question.question, ...pairs.map(pair => pair.prompt)].join('\n');
+      return writtenResponse({ ...question, question: text });
+    }
+    case 'essay':
+      return writtenResponse(question);
+  }
+}
+
+function renderAssessment(assessment: Assessment, warn: (question: number, message: string) => void): string {
+  const items = assessment.questions.map((question, index) => {
+    const item = cartridgeItem(question, message => warn(index + 1, message));
+    return [
+      `<item ident="${xmlId('question', question.id)}" title="${escapeXml(`Question ${index + 1}`)}">`,
+      `<itemmetadata>${metadata({ cc_profile: item.profile, cc_weighting: question.points })}</itemmetadata>`,
+      `<presentation>${item.presentation}</presentation>`,
+      item.processing,
+      question.explanation ? `<itemfeedback ident="general_fb">${material(question.explanation)}</itemfeedback>` : '',
+      '</item>'
+    ].join('');
+  });
+
+  // The profile allows 1-5 attempts or unlimited
+  const attempts = assessment.attempts ? (assessment.attempts > 5 ? 'unlimited' : assessment.attempts) : 1;
+
+  return [
+    XML_DECLARATION,
+    `<questestinterop ${QTI_NAMESPACES}>`,
+    `<assessment ident="${xmlId('assessment', assessment.id)}" title="${escapeXml(assessment.title)}">`,
+    metadata({
+      cc_profile: 'cc.exam.v0p1',
+      qmd_assessmenttype: 'Examination',
+      qmd_timelimit: assessment.timeLimit,
+      cc_maxattempts: attempts
+    }),
+    assessment.description ? `<rubric>${material(assessment.description)}</rubric>` : '',
+    `<section ident="root_section">${items.join('')}</section>`,
+    '</assessment>',
+    '</questestinterop>'
+  ].join('');
+}
+
+/**
+ * An IMS Common Cartridge 1.1 course package: the lesson as a web page and
+ * each assessment as a quiz, in one module. Canvas, Moodle, Blackboard and
+ * Schoology all import it as course content.
+ */
+export function exportCommonCartridge(content: EducationalContent): PackageExport {
+  const files: PackageFiles = {};
+  const warnings: string[] = [];
+  const items: string[] = [];
+  const resources: string[] = [];
+
+  const lessonId = xmlId('lesson', content.id);
+  files['lesson/index.html'] = renderHtml(contentBlocks({ ...content, assessments: [] }), content.title, content.metadata.language);
+  items.push(`<item identifier="${xmlId('item', lessonId)}" identifierref="${lessonId}"><title>${escapeXml(content.title)}</title></item>`);
+  resources.push(`<resource identifier="${lessonId}" type="webcontent" href="lesson/index.html"><file href="lesson/index.html"/></resource>`);
+
+  for (const assessment of content.assessments) {
+    const resourceId = xmlId('quiz', assessment.id);
+    const href = `${resourceId}/assessment.xml`;
+    files[href] = renderAssessment(assessment, (question, message) => warnings.push(`${assessment.title}, question ${question} ${message}`));
+    items.push(`<item identifier="${xmlId('item', resourceId)}" identifierref="${resourceId}"><title>${escapeXml(assessment.title)}</title></item>`);
+    resources.push(`<resource identifier="${resourceId}" type="imsqti_xmlv1p2/imscc_xmlv1p1/assessment"><file href="${escapeXml(href)}"/></resource>`);
+  }
+
+  files['imsmanifest.xml'] = [
+    XML_DECLARATION,
+    `<manifest identifier="${xmlId('cartridge', content.id)}"`,
+    ' xmlns="http://www.imsglobal.org/xsd/imsccv1p1/imscp_v1p1"',
+    ' xmlns:lomimscc="http://ltsc.ieee.org/xsd/imsccv1p1/LOM/manifest">',
+    '<metadata><schema>IMS Common Cartridge</schema><schemaversion>1.1.0</schemaversion>',
+    `<lomimscc:lom><lomimscc:general><lomimscc:title><lomimscc:string language="${escapeXml(content.metadata.language)}">${escapeXml(content.title)}</lomimscc:string></lomimscc:title></lomimscc:general></lomimscc:lom>`,
+    '</metadata>',
+    '<organizations><organization identifier="organization" structure="rooted-hierarchy"><item identifier="root">',
+    `<item identifier="module"><title>${escapeXml(content.title)}</title>${items.join('')}</item>`,
+    '</item></organization></organizations>',
+    `<resources>${resources.join('')}</resources>`,
+    '</manifest>'
+  ].join('');
+
+  return { files, warnings };
+}
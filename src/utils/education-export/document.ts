@@ -0,0 +1,160 @@
+import { SUBJECTS } from '../../constants/education';
+import type { Assessment, EducationalContent } from '../../types/education';
+import { choicesOf, formatAnswer, matchingPairs, optionLetter } from './questions';
+
+/**
+ * The document formats (DOCX, PDF, HTML, slides, text) all render this one
+ * outline of the content, so they carry the same sections in the same order.
+ */
+export type DocumentBlock =
+  | { type: 'heading'; level: 1 | 2 | 3; text: string }
+  | { type: 'paragraph'; text: string; emphasis?: boolean }
+  | { type: 'list'; ordered: boolean; items: string[] }
+  /** The first row is the header */
+  | { type: 'table'; rows: string[][] };
+
+export interface DocumentOptions {
+  /** Include answers and explanations after each assessment */
+  answerKey?: boolean;
+}
+
+function paragraphs(text: string): DocumentBlock[] {
+  return text
+    .split(/\n\s*\n/)
+    .map(part => part.replace(/\s*\n\s*/g, ' ').trim())
+    .filter(Boolean)
+    .map((part): DocumentBlock => ({ type: 'paragraph', text: part }));
+}
+
+export function assessmentBlocks(assessment: Assessment, options: DocumentOptions = {}): DocumentBlock[] {
+  const details = [
+    `Total points: ${assessment.pointsTotal}`,
+    assessment.timeLimit ? `Time limit: ${assessment.timeLimit} minutes` : '',
+    assessment.attempts ? `Attempts: ${assessment.attempts}` : ''
+  ].filter(Boolean).join(' · ');
+
+  const blocks: DocumentBlock[] = [
+    { type: 'heading', level: 2, text: assessment.title },
+    ...paragraphs(assessment.description),
+    { type: 'paragraph', text: details, emphasis: true }
+  ];
+
+  assessment.questions.forEach((question, index) => {
+    blocks.push({ type: 'paragraph', text: `${index + 1}. ${question.question} (${question.points} ${question.points === 1 ? 'point' : 'points'})` });
+
+    if (question.type === 'matching') {
+      const pairs = matchingPairs(question);
+      const matches = pairs.map(pair => pair.match).sort((a, b) => a.localeCompare(b));
+      blocks.push({
+        type: 'table',
+        rows: [['Item', 'Match'], ...pairs.map((pair, row) => [`${row + 1}. ${pair.prompt}`, `${optionLetter(row)}. ${matches[row]}`])]
+      });
+    } else {
+      const choices = choicesOf(question);
+      if (choices.length > 0) {
+        blocks.push({ type: 'list', ordered: false, items: choices.map((choice, option) => `${optionLetter(option)}. ${choice}`) });
+      }
+    }
+  });
+
+  if (options.answerKey && assessment.questions.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 3, text: 'Answer Key' },
+      {
+        type: 'list',
+        ordered: true,
+        items: assessment.questions.map(question =>
+          [formatAnswer(question) || 'Teacher graded', question.explanation].filter(Boolean).join(' — '))
+      }
+    );
+  }
+
+  if (assessment.rubric) {
+    const { rubric } = assessment;
+    const scale = [...rubric.scale].sort((a, b) => b.level - a.level);
+    blocks.push(
+      { type: 'heading', level: 3, text: rubric.title },
+      {
+        type: 'table',
+        rows: [
+          ['Criterion', 'Weight', ...scale.map(level => `${level.label} (${level.points})`)],
+          ...rubric.criteria.map(criterion => [
+            `${criterion.name}: ${criterion.description}`,
+            `${criterion.weight}%`,
+            ...scale.map(level => level.description)
+          ])
+        ]
+      }
+    );
+  }
+
+  return blocks;
+}
+
+/** The whole lesson: overview, objectives, sections, assessments and resources */
+export function contentBlocks(content: EducationalContent, options: DocumentOptions = {}): DocumentBlock[] {
+  const overview = [
+    SUBJECTS.find(subject => subject.id === content.subject)?.name ?? content.subject,
+    content.gradeLevel,
+    `${content.metadata.duration} minutes`,
+    content.standard
+  ].filter(Boolean).join(' · ');
+
+  const blocks: DocumentBlock[] = [
+    { type: 'heading', level: 1, text: content.title },
+    { type: 'paragraph', text: overview, emphasis: true },
+    ...paragraphs(content.description ?? '')
+  ];
+
+  if (content.metadata.prerequisites.length > 0) {
+    blocks.push({ type: 'paragraph', text: `Prerequisites: ${content.metadata.prerequisites.join(', ')}` });
+  }
+
+  if (content.objectives.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Learning Objectives' },
+      { type: 'list', ordered: true, items: content.objectives.map(objective => `${objective.description} (${objective.bloomLevel})`) }
+    );
+  }
+
+  for (const section of content.content) {
+    blocks.push(
+      { type: 'heading', level: 2, text: section.duration ? `${section.title} (${section.duration} min)` : section.title },
+      ...paragraphs(section.content)
+    );
+    if (section.materials?.length) {
+      blocks.push({ type: 'heading', level: 3, text: 'Materials' }, { type: 'list', ordered: false, items: section.materials });
+    }
+    if (section.instructions?.length) {
+      blocks.push({ type: 'heading', level: 3, text: 'Instructions' }, { type: 'list', ordered: true, items: section.instructions });
+    }
+    if (section.differentiation?.length) {
+      blocks.push(
+        { type: 'heading', level: 3, text: 'Differentiation' },
+        {
+          type: 'list',
+          ordered: false,
+          items: section.differentiation.map(strategy => `${strategy.learnerType} learners (${strategy.type}): ${strategy.strategy} — ${strategy.description}`)
+        }
+      );
+    }
+  }
+
+  for (const assessment of content.assessments) {
+    blocks.push(...assessmentBlocks(assessment, options));
+  }
+
+  if (content.resources.length > 0) {
+    blocks.push(
+      { type: 'heading', level: 2, text: 'Resources' },
+      {
+        type: 'list',
+        ordered: false,
+        items: content.resources.map(resource =>
+          [resource.required ? `${resource.title} (required)` : resource.title, resource.url, resource.description].filter(Boolean).join(' — '))
+      }
+    );
+  }
+
+  return blocks;
+}
@@ -0,0 +1,137 @@
+import type { DocumentBlock } from './document';
+import { contentTypes, packageParts, relationships, RELATIONSHIP_TYPES, type DocumentProperties } from './ooxml';
+import { escapeXml, XML_DECLARATION, type PackageFiles } from './xml';
+
+const W_NS = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const WORD = 'application/vnd.openxmlformats-officedocument.wordprocessingml';
+
+// US Letter with one-inch margins, in twentieths of a point
+const PAGE_WIDTH = 12240;
+const PAGE_HEIGHT = 15840;
+const MARGIN = 1440;
+const TEXT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BULLET_NUM_ID = 1;
+
+function run(text: string, format: { bold?: boolean; italic?: boolean } = {}): string {
+  const props = `${format.bold ? '<w:b/>' : ''}${format.italic ? '<w:i/>' : ''}`;
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function paragraph(content: string, props = ''): string {
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function table(rows: string[][]): string {
+  const columns = Math.max(...rows.map(row => row.length));
+  const width = Math.floor(TEXT_WIDTH / columns);
+  const cell = (text: string, header: boolean) =>
+    `<w:tc><w:tcPr><w:tcW w:w="${width}" w:type="dxa"/></w:tcPr>${paragraph(run(text, { bold: header }))}</w:tc>`;
+
+  return [
+    '<w:tbl>',
+    `<w:tblPr><w:tblStyle w:val="TableGrid"/><w:tblW w:w="${TEXT_WIDTH}" w:type="dxa"/></w:tblPr>`,
+    `<w:tblGrid>${`<w:gridCol w:w="${width}"/>`.repeat(columns)}</w:tblGrid>`,
+    ...rows.map((row, index) => {
+      const cells = Array.from({ length: columns }, (_, column) => cell(row[column] ?? '', index === 0));
+      return `<w:tr>${index === 0 ? '<w:trPr><w:tblHeader/></w:trPr>' : ''}${cells.join('')}</w:tr>`;
+    }),
+    '</w:tbl>',
+    // Word needs a paragraph between a table and whatever follows it
+    paragraph('')
+  ].join('');
+}
+
+function numbering(orderedLists: number): string {
+  const level = (format: string, text: string) => [
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/><w:lvlJc w:val="left"/>`,
+    '<w:pPr><w:ind w:left="720" w:hanging="360"/></w:pPr>',
+    '</w:lvl>'
+  ].join('');
+
+  return [
+    XML_DECLARATION,
+    `<w:numbering ${W_NS}>`,
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>${level('bullet', '•')}</w:abstractNum>`,
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="singleLevel"/>${level('decimal', '%1.')}</w:abstractNum>`,
+    `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>`,
+    // Each ordered list restarts at 1, which takes its own numbering instance
+    ...Array.from({ length: orderedLists }, (_, index) =>
+      `<w:num w:numId="${BULLET_NUM_ID + 1 + index}"><w:abstractNumId w:val="1"/><w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>`),
+    '</w:numbering>'
+  ].join('');
+}
+
+function styles(language: string): string {
+  const heading = (id: string, name: string, size: number, spaceBefore: number) => [
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/>`,
+    `<w:pPr><w:keepNext/><w:spacing w:before="${spaceBefore}" w:after="120"/><w:outlineLvl w:val="${id === 'Title' ? 0 : Number(id.slice(-1)) - 1}"/></w:pPr>`,
+    `<w:rPr><w:b/><w:color w:val="1F2937"/><w:sz w:val="${size}"/></w:rPr></w:style>`
+  ].join('');
+
+  return [
+    XML_DECLARATION,
+    `<w:styles ${W_NS}>`,
+    '<w:docDefaults>',
+    `<w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:lang w:val="${escapeXml(language)}"/></w:rPr></w:rPrDefault>`,
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault>',
+    '</w:docDefaults>',
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+    heading('Title', 'Title', 40, 0),
+    heading('Heading1', 'heading 1', 32, 360),
+    heading('Heading2', 'heading 2', 28, 240),
+    heading('Heading3', 'heading 3', 24, 200),
+    '<w:style w:type="paragraph" w:styleId="ListParagraph"><w:name w:val="List Paragraph"/><w:basedOn w:val="Normal"/><w:pPr><w:spacing w:after="60"/><w:contextualSpacing/></w:pPr></w:style>',
+    '<w:style w:type="table" w:styleId="TableGrid"><w:name w:val="Table Grid"/><w:tblPr><w:tblBorders>',
+    ...['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(side => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="D1D5DB"/>`),
+    '</w:tblBorders><w:tblCellMar><w:left w:w="108" w:type="dxa"/><w:right w:w="108" w:type="dxa"/></w:tblCellMar></w:tblPr></w:style>',
+    '</w:styles>'
+  ].join('');
+}
+
+/** A Word document: headings map to Word's heading styles so the navigation pane and TOC work */
+export function renderDocx(blocks: DocumentBlock[], properties: DocumentProperties): PackageFiles {
+  let orderedLists = 0;
+
+  const body = blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        // The document title takes Word's Title style; outline levels shift up one
+        return paragraph(run(block.text), `<w:pStyle w:val="${block.level === 1 ? 'Title' : `Heading${block.level - 1}`}"/>`);
+      case 'paragraph':
+        return paragraph(run(block.text, { italic: block.emphasis }));
+      case 'list': {
+        const numId = block.ordered ? BULLET_NUM_ID + 1 + orderedLists++ : BULLET_NUM_ID;
+        const props = `<w:pStyle w:val="ListParagraph"/><w:numPr><w:ilvl w:val="0"/><w:numId w:val="${numId}"/></w:numPr>`;
+        return block.items.map(item => paragraph(run(item), props)).join('');
+      }
+      case 'table':
+        return table(block.rows);
+    }
+  }).join('');
+
+  const document = [
+    XML_DECLARATION,
+    `<w:document ${W_NS}><w:body>`,
+    body,
+    `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH}" w:h="${PAGE_HEIGHT}"/>`,
+    `<w:pgMar w:top="${MARGIN}" w:right="${MARGIN}" w:bottom="${MARGIN}" w:left="${MARGIN}" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>`,
+    '</w:body></w:document>'
+  ].join('');
+
+  return {
+    '[Content_Types].xml': contentTypes({
+      'word/document.xml': `${WORD}.document.main+xml`,
+      'word/styles.xml': `${WORD}.styles+xml`,
+      'word/numbering.xml': `${WORD}.numbering+xml`
+    }),
+    ...packageParts('word/document.xml', properties),
+    'word/document.xml': document,
+    'word/styles.xml': styles(properties.language ?? 'en-US'),
+    'word/numbering.xml': numbering(orderedLists),
+    'word/_rels/document.xml.rels': relationships([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+      { id: 'rId2', type: RELATIONSHIP_TYPES.numbering, target: 'numbering.xml' }
+    ])
+  };
+}
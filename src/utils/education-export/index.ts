@@ -0,0 +1,20 @@
+/**
+ * Education Export
+ * Renders Educational Content Studio lessons and assessments as Office
+ * documents, PDF, HTML and text, and as QTI 2.1, Common Cartridge and Moodle
+ * XML packages for import into an LMS. Zipping is left to `./package`.
+ */
+
+export * from './common-cartridge';
+export * from './document';
+export * from './docx';
+export * from './moodle';
+export * from './ooxml';
+export * from './pdf';
+export * from './pptx';
+export * from './qti';
+export * from './questions';
+export * from './render';
+export * from './text';
+export * from './xlsx';
+export * from './xml';
@@ -0,0 +1,127 @@
+import type { Assessment, AssessmentQuestion } from '../../types/education';
+import { answersOf, choicesOf, correctChoiceIndexes, matchingPairs, optionLetter } from './questions';
+import { escapeXml } from './xml';
+
+/** A text element in Moodle's HTML format; the text is escaped for HTML and again for XML */
+function html(tag: string, text: string, paragraph = true): string {
+  const markup = paragraph ? `<p>${escapeXml(text)}</p>` : escapeXml(text);
+  return `<${tag} format="html"><text>${escapeXml(markup)}</text></${tag}>`;
+}
+
+function plain(tag: string, text: string): string {
+  return `<${tag}><text>${escapeXml(text)}</text></${tag}>`;
+}
+
+// Moodle only accepts grade fractions from a fixed list, which 100/n for
+// n = 1-10 falls on once rounded to five places
+function fraction(value: number): string {
+  return String(Math.round(value * 100000) / 100000);
+}
+
+function header(type: string, question: AssessmentQuestion, text = question.question): string {
+  return [
+    `<question type="${type}">`,
+    plain('name', question.question.length > 60 ? `${question.question.slice(0, 60)}…` : question.question),
+    html('questiontext', text),
+    html('generalfeedback', question.explanation ?? '', Boolean(question.explanation)),
+    `<defaultgrade>${question.points}</defaultgrade>`,
+    '<penalty>0</penalty>',
+    '<hidden>0</hidden>'
+  ].join('\n');
+}
+
+function essay(question: AssessmentQuestion, text = question.question): string {
+  return [
+    header('essay', question, text),
+    '<responseformat>editor</responseformat>',
+    '<responserequired>1</responserequired>',
+    `<responsefieldlines>${question.type === 'essay' ? 15 : 5}</responsefieldlines>`,
+    '<attachments>0</attachments>',
+    html('graderinfo', [answersOf(question).join(' / '), question.explanation].filter(Boolean).join(' — ')),
+    '</question>'
+  ].join('\n');
+}
+
+function renderQuestion(question: AssessmentQuestion, warn: (message: string) => void): string {
+  switch (question.type) {
+    case 'multiple-choice': {
+      const choices = choicesOf(question);
+      const correct = correctChoiceIndexes(question);
+      if (correct.length === 0) {
+        warn('has no answer matching its options and is exported as an essay');
+        return essay(question, `${question.question} ${choices.map((choice, index) => `${optionLetter(index)}. ${choice}`).join(' ')}`);
+      }
+      // With several correct answers, each earns a share and each wrong one takes a share away
+      const share = 100 / correct.length;
+      return [
+        header('multichoice', question),
+        `<single>${correct.length === 1}</single>`,
+        '<shuffleanswers>1</shuffleanswers>',
+        '<answernumbering>abc</answernumbering>',
+        ...choices.map((choice, index) => {
+          const value = correct.includes(index) ? share : correct.length === 1 ? 0 : -share;
+          return `<answer fraction="${fraction(value)}" format="html"><text>${escapeXml(`<p>${escapeXml(choice)}</p>`)}</text></answer>`;
+        }),
+        '</question>'
+      ].join('\n');
+    }
+    case 'true-false': {
+      const correct = correctChoiceIndexes(question);
+      if (correct.length !== 1) {
+        warn('has no single True or False answer and is exported as an essay');
+        return essay(question);
+      }
+      // True and False stay in that order whatever the stored options are called
+      return [
+        header('truefalse', question),
+        `<answer fraction="${correct[0] === 0 ? 100 : 0}"><text>true</text></answer>`,
+        `<answer fraction="${correct[0] === 1 ? 100 : 0}"><text>false</text></answer>`,
+        '</question>'
+      ].join('\n');
+    }
+    case 'short-answer':
+    case 'fill-blank': {
+      const answers = answersOf(question);
+      if (answers.length === 0) {
+        if (question.type === 'fill-blank') warn('has no answer and is exported as an essay');
+        return essay(question);
+      }
+      return [
+        header('shortanswer', question),
+        '<usecase>0</usecase>',
+        ...answers.map(answer => `<answer fraction="100" format="moodle_auto_format"><text>${escapeXml(answer)}</text></answer>`),
+        '</question>'
+      ].join('\n');
+    }
+    case 'matching': {
+      const pairs = matchingPairs(question);
+      // Moodle rejects matching questions with fewer than two pairs
+      if (pairs.length < 2) {
+        warn('has fewer than two complete pairs and is exported as an essay');
+        return essay(question);
+      }
+      return [
+        header('matching', question),
+        '<shuffleanswers>1</shuffleanswers>',
+        ...pairs.map(pair => `<subquestion format="html"><text>${escapeXml(`<p>${escapeXml(pair.prompt)}</p>`)}</text><answer><text>${escapeXml(pair.match)}</text></answer></subquestion>`),
+        '</question>'
+      ].join('\n');
+    }
+    case 'essay':
+      return essay(question);
+  }
+}
+
+/**
+ * A Moodle XML question file with a category per assessment, for import into
+ * a course's question bank.
+ */
+export function renderMoodleXml(assessments: Assessment[], warnings: string[] = []): string {
+  const questions = assessments.flatMap(assessment => [
+    `<question type="category"><category><text>$course$/top/${escapeXml(assessment.title.replace(/\//g, '-'))}</text></category></question>`,
+    ...assessment.questions.map((question, index) =>
+      renderQuestion(question, message => warnings.push(`${assessment.title}, question ${index + 1} ${message}`)))
+  ]);
+
+  return ['<?xml version="1.0" encoding="UTF-8"?>', '<quiz>', ...questions, '</quiz>', ''].join('\n');
+}
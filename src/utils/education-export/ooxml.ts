@@ -0,0 +1,90 @@
+import { escapeXml, XML_DECLARATION } from './xml';
+
+/**
+ * Package parts shared by the Word, PowerPoint and Excel writers: content
+ * types, relationships and document properties.
+ */
+
+export interface DocumentProperties {
+  title: string;
+  subject?: string;
+  keywords?: string[];
+  creator?: string;
+  language?: string;
+  created: Date;
+}
+
+export interface Relationship {
+  id: string;
+  type: string;
+  target: string;
+}
+
+const REL = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+export const RELATIONSHIP_TYPES = {
+  officeDocument: `${REL}/officeDocument`,
+  coreProperties: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  extendedProperties: `${REL}/extended-properties`,
+  styles: `${REL}/styles`,
+  numbering: `${REL}/numbering`,
+  theme: `${REL}/theme`,
+  slide: `${REL}/slide`,
+  slideLayout: `${REL}/slideLayout`,
+  slideMaster: `${REL}/slideMaster`,
+  worksheet: `${REL}/worksheet`
+} as const;
+
+export function contentTypes(overrides: Record<string, string>): string {
+  return [
+    XML_DECLARATION,
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+    '<Default Extension="xml" ContentType="application/xml"/>',
+    ...Object.entries(overrides).map(([part, type]) => `<Override PartName="/${part}" ContentType="${type}"/>`),
+    '<Override PartName="/docProps/core.xml" ContentType="application/vnd.openxmlformats-package.core-properties+xml"/>',
+    '<Override PartName="/docProps/app.xml" ContentType="application/vnd.openxmlformats-officedocument.extended-properties+xml"/>',
+    '</Types>'
+  ].join('');
+}
+
+export function relationships(rels: Relationship[]): string {
+  return [
+    XML_DECLARATION,
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+    ...rels.map(rel => `<Relationship Id="${rel.id}" Type="${rel.type}" Target="${escapeXml(rel.target)}"/>`),
+    '</Relationships>'
+  ].join('');
+}
+
+/** The package-level parts every Office document carries, pointing at its main part */
+export function packageParts(mainPart: string, properties: DocumentProperties): Record<string, string> {
+  const created = properties.created.toISOString().replace(/\.\d+Z$/, 'Z');
+  return {
+    '_rels/.rels': relationships([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.officeDocument, target: mainPart },
+      { id: 'rId2', type: RELATIONSHIP_TYPES.coreProperties, target: 'docProps/core.xml' },
+      { id: 'rId3', type: RELATIONSHIP_TYPES.extendedProperties, target: 'docProps/app.xml' }
+    ]),
+    'docProps/core.xml': [
+      XML_DECLARATION,
+      '<cp:coreProperties xmlns:cp="http://schemas.openxmlformats.org/package/2006/metadata/core-properties"',
+      ' xmlns:dc="http://purl.org/dc/elements/1.1/" xmlns:dcterms="http://purl.org/dc/terms/"',
+      ' xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance">',
+      `<dc:title>${escapeXml(properties.title)}</dc:title>`,
+      properties.subject ? `<dc:subject>${escapeXml(properties.subject)}</dc:subject>` : '',
+      `<dc:creator>${escapeXml(properties.creator ?? 'FlashFusion')}</dc:creator>`,
+      properties.keywords?.length ? `<cp:keywords>${escapeXml(properties.keywords.join(', '))}</cp:keywords>` : '',
+      properties.language ? `<dc:language>${escapeXml(properties.language)}</dc:language>` : '',
+      `<dcterms:created xsi:type="dcterms:W3CDTF">${created}</dcterms:created>`,
+      `<dcterms:modified xsi:type="dcterms:W3CDTF">${created}</dcterms:modified>`,
+      '</cp:coreProperties>'
+    ].join(''),
+    'docProps/app.xml': [
+      XML_DECLARATION,
+      '<Properties xmlns="http://schemas.openxmlformats.org/officeDocument/2006/extended-properties">',
+      '<Application>FlashFusion</Application>',
+      '</Properties>'
+    ].join('')
+  };
+}
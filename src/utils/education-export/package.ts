@@ -0,0 +1,35 @@
+import JSZip from 'jszip';
+import type { EducationalContent, ExportFormat } from '../../types/education';
+import { renderEducationalContent } from './render';
+
+export interface EducationalExport {
+  filename: string;
+  blob: Blob;
+  warnings: string[];
+}
+
+/** Render content in `format` and zip it when the format is a package */
+export async function exportEducationalContent(content: EducationalContent, format: ExportFormat): Promise<EducationalExport> {
+  const rendered = renderEducationalContent(content, format);
+
+  if ('data' in rendered) {
+    return {
+      filename: rendered.filename,
+      blob: new Blob([rendered.data as BlobPart], { type: rendered.mimeType }),
+      warnings: rendered.warnings
+    };
+  }
+
+  const zip = new JSZip();
+  // Office readers expect the content types part first
+  const paths = Object.keys(rendered.files).sort((a, b) => Number(b === '[Content_Types].xml') - Number(a === '[Content_Types].xml'));
+  for (const path of paths) {
+    zip.file(path, rendered.files[path]);
+  }
+
+  return {
+    filename: rendered.filename,
+    blob: await zip.generateAsync({ type: 'blob', mimeType: rendered.mimeType, compression: 'DEFLATE' }),
+    warnings: rendered.warnings
+  };
+}
@@ -0,0 +1,204 @@
+import { measureText, pdfDate, pdfStream, pdfString, serializePdf, type PdfObjectBody, type StandardFont } from '../pdf';
+import type { DocumentBlock } from './document';
+import type { DocumentProperties } from './ooxml';
+
+// US Letter in points, one-inch margins
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+const MARGIN = 72;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BODY_SIZE = 10.5;
+const LEADING = 1.4;
+const HEADING_SIZES = { 1: 20, 2: 15, 3: 12 } as const;
+const LIST_INDENT = 18;
+const TABLE_SIZE = 9;
+const CELL_PADDING = 4;
+
+const FONT_NAMES: Record<'Helvetica' | 'Helvetica-Bold', string> = { 'Helvetica': 'F1', 'Helvetica-Bold': 'F2' };
+
+type BodyFont = keyof typeof FONT_NAMES;
+
+function breakWord(word: string, font: StandardFont, size: number, width: number): string[] {
+  const pieces: string[] = [];
+  let piece = '';
+  for (const char of word) {
+    if (piece && measureText(piece + char, font, size) > width) {
+      pieces.push(piece);
+      piece = '';
+    }
+    piece += char;
+  }
+  return piece ? [...pieces, piece] : pieces;
+}
+
+/** Greedy word wrap; words longer than a line are broken between characters */
+export function wrapText(text: string, font: StandardFont, size: number, width: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (measureText(candidate, font, size) <= width) {
+      line = candidate;
+      continue;
+    }
+    if (line) lines.push(line);
+    const pieces = measureText(word, font, size) > width ? breakWord(word, font, size, width) : [word];
+    lines.push(...pieces.slice(0, -1));
+    line = pieces[pieces.length - 1];
+  }
+  return line ? [...lines, line] : lines.length > 0 ? lines : [''];
+}
+
+class PageLayout {
+  pages: string[][] = [];
+  private y = 0;
+
+  constructor() {
+    this.newPage();
+  }
+
+  newPage() {
+    this.pages.push([]);
+    this.y = PAGE_HEIGHT - MARGIN;
+  }
+
+  /** Start a new page unless `height` more points fit on this one */
+  ensure(height: number) {
+    if (this.y - height < MARGIN && this.y < PAGE_HEIGHT - MARGIN) {
+      this.newPage();
+    }
+  }
+
+  space(points: number) {
+    this.y -= points;
+  }
+
+  get top() {
+    return this.y;
+  }
+
+  draw(op: string) {
+    this.pages[this.pages.length - 1].push(op);
+  }
+
+  text(text: string, x: number, font: BodyFont, size: number, gray = 0) {
+    this.draw(`${gray ? `${gray} g ` : ''}BT /${FONT_NAMES[font]} ${size} Tf ${x.toFixed(2)} ${(this.y - size).toFixed(2)} Td ${pdfString(text)} Tj ET${gray ? ' 0 g' : ''}`);
+  }
+
+  /** Wrapped lines at `x`, breaking across pages between lines */
+  lines(lines: string[], x: number, font: BodyFont, size: number, gray = 0) {
+    for (const line of lines) {
+      this.ensure(size * LEADING);
+      this.text(line, x, font, size, gray);
+      this.y -= size * LEADING;
+    }
+  }
+}
+
+function drawTable(layout: PageLayout, rows: string[][]) {
+  const columns = Math.max(...rows.map(row => row.length));
+  const width = CONTENT_WIDTH / columns;
+  const lineHeight = TABLE_SIZE * LEADING;
+  const wrapped = rows.map((row, index) => Array.from({ length: columns }, (_, column) =>
+    wrapText(row[column] ?? '', index === 0 ? 'Helvetica-Bold' : 'Helvetica', TABLE_SIZE, width - CELL_PADDING * 2)));
+
+  const drawRow = (cells: string[][], header: boolean) => {
+    const height = Math.max(...cells.map(cell => cell.length)) * lineHeight + CELL_PADDING * 2;
+    const bottom = layout.top - height;
+    if (header) {
+      layout.draw(`0.93 g ${MARGIN} ${bottom.toFixed(2)} ${CONTENT_WIDTH} ${height.toFixed(2)} re f 0 g`);
+    }
+    cells.forEach((cell, column) => {
+      const x = MARGIN + column * width;
+      layout.draw(`0.5 w 0.8 G ${x.toFixed(2)} ${bottom.toFixed(2)} ${width.toFixed(2)} ${height.toFixed(2)} re S 0 G`);
+      cell.forEach((line, index) => {
+        layout.space(index === 0 ? CELL_PADDING : 0);
+        layout.text(line, x + CELL_PADDING, header ? 'Helvetica-Bold' : 'Helvetica', TABLE_SIZE);
+        layout.space(lineHeight);
+      });
+      // Each cell starts from the row's top edge
+      layout.space(-(cell.length * lineHeight + CELL_PADDING));
+    });
+    layout.space(height);
+  };
+
+  const [header, ...body] = wrapped;
+  layout.ensure(Math.max(...header.map(cell => cell.length)) * lineHeight * 2 + CELL_PADDING * 4);
+  drawRow(header, true);
+  for (const cells of body) {
+    const height = Math.max(...cells.map(cell => cell.length)) * lineHeight + CELL_PADDING * 2;
+    const before = layout.pages.length;
+    layout.ensure(height);
+    // The header repeats on each page the table continues onto
+    if (layout.pages.length !== before) drawRow(header, true);
+    drawRow(cells, false);
+  }
+  layout.space(BODY_SIZE * 0.8);
+}
+
+/** A paginated, text-only PDF using the standard Helvetica fonts */
+export function renderPdf(blocks: DocumentBlock[], properties: DocumentProperties): Uint8Array {
+  const layout = new PageLayout();
+
+  blocks.forEach((block, index) => {
+    switch (block.type) {
+      case 'heading': {
+        const size = HEADING_SIZES[block.level];
+        const lines = wrapText(block.text, 'Helvetica-Bold', size, CONTENT_WIDTH);
+        if (index > 0) layout.space(block.level === 2 ? 14 : 8);
+        // Keep a heading with at least two lines of what follows it
+        layout.ensure(lines.length * size * 1.25 + BODY_SIZE * LEADING * 2);
+        layout.lines(lines, MARGIN, 'Helvetica-Bold', size);
+        layout.space(4);
+        break;
+      }
+      case 'paragraph':
+        layout.lines(wrapText(block.text, 'Helvetica', BODY_SIZE, CONTENT_WIDTH), MARGIN, 'Helvetica', BODY_SIZE, block.emphasis ? 0.42 : 0);
+        layout.space(BODY_SIZE * 0.6);
+        break;
+      case 'list':
+        block.items.forEach((item, position) => {
+          const lines = wrapText(item, 'Helvetica', BODY_SIZE, CONTENT_WIDTH - LIST_INDENT);
+          layout.ensure(BODY_SIZE * LEADING);
+          layout.text(block.ordered ? `${position + 1}.` : '•', MARGIN + 4, 'Helvetica', BODY_SIZE);
+          layout.lines(lines, MARGIN + LIST_INDENT, 'Helvetica', BODY_SIZE);
+          layout.space(2);
+        });
+        layout.space(BODY_SIZE * 0.6);
+        break;
+      case 'table':
+        drawTable(layout, block.rows);
+        break;
+    }
+  });
+
+  const { pages } = layout;
+  // 1 catalog, 2 page tree, 3 info, 4-5 fonts, then a page and its content stream per page
+  const objects: PdfObjectBody[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${6 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    [
+      `<< /Title ${pdfString(properties.title)}`,
+      properties.subject ? ` /Subject ${pdfString(properties.subject)}` : '',
+      properties.keywords?.length ? ` /Keywords ${pdfString(properties.keywords.join(', '))}` : '',
+      ` /Creator (FlashFusion) /CreationDate (${pdfDate(properties.created)}) >>`
+    ].join(''),
+    ...Object.keys(FONT_NAMES).map(font => `<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)
+  ];
+
+  pages.forEach((ops, index) => {
+    const footer = `Page ${index + 1} of ${pages.length}`;
+    const footerX = PAGE_WIDTH - MARGIN - measureText(footer, 'Helvetica', 9);
+    const content = [
+      ...ops,
+      `0.42 g BT /F1 9 Tf ${footerX.toFixed(2)} 40 Td ${pdfString(footer)} Tj ET 0 g`
+    ].join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 4 0 R /F2 5 0 R >> >> /Contents ${7 + index * 2} 0 R >>`,
+      pdfStream(content)
+    );
+  });
+
+  return serializePdf(objects, { root: 1, info: 3 });
+}
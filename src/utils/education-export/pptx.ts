@@ -0,0 +1,219 @@
+import type { DocumentBlock } from './document';
+import { contentTypes, packageParts, relationships, RELATIONSHIP_TYPES, type DocumentProperties } from './ooxml';
+import { escapeXml, XML_DECLARATION, type PackageFiles } from './xml';
+
+const NAMESPACES = [
+  'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"',
+  'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"',
+  'xmlns:p="http://schemas.openxmlformats.org/presentationml/2006/main"'
+].join(' ');
+const PRESENTATION = 'application/vnd.openxmlformats-officedocument.presentationml';
+
+// 16:9 widescreen, in EMU (914400 per inch)
+const SLIDE_WIDTH = 12192000;
+const SLIDE_HEIGHT = 6858000;
+const INCH = 914400;
+
+// How much text fits on one slide's body at 20pt, counted in wrapped lines
+const CHARS_PER_LINE = 88;
+const LINES_PER_SLIDE = 11;
+
+interface SlideLine {
+  text: string;
+  bold?: boolean;
+  bullet?: boolean;
+}
+
+interface Slide {
+  title: string;
+  subtitle?: string;
+  lines: SlideLine[];
+}
+
+function linesOf(block: DocumentBlock): SlideLine[] {
+  switch (block.type) {
+    case 'heading':
+      return [{ text: block.text, bold: true }];
+    case 'paragraph':
+      return [{ text: block.text }];
+    case 'list':
+      return block.items.map((item, index) => ({ text: block.ordered ? `${index + 1}. ${item}` : item, bullet: !block.ordered }));
+    case 'table':
+      return block.rows.slice(1).map(row => ({ text: row.filter(Boolean).join(' — '), bullet: true }));
+  }
+}
+
+/**
+ * A title slide from the level-1 heading and its summary line, then a slide
+ * per level-2 heading. Sections too long for one slide continue on the next.
+ */
+function slidesOf(blocks: DocumentBlock[]): Slide[] {
+  const sections: Slide[] = [];
+  for (const block of blocks) {
+    const current = sections[sections.length - 1];
+    if (block.type === 'heading' && block.level < 3) {
+      sections.push({ title: block.text, lines: [] });
+    } else if (!current) {
+      sections.push({ title: '', lines: linesOf(block) });
+    } else if (block.type === 'paragraph' && block.emphasis && current.lines.length === 0 && !current.subtitle) {
+      current.subtitle = block.text;
+    } else {
+      current.lines.push(...linesOf(block));
+    }
+  }
+
+  return sections.flatMap(section => {
+    const slides: Slide[] = [];
+    let used = Infinity;
+    for (const line of section.lines) {
+      const height = Math.max(1, Math.ceil(line.text.length / CHARS_PER_LINE));
+      if (used + height > LINES_PER_SLIDE) {
+        slides.push({
+          title: slides.length === 0 ? section.title : `${section.title} (cont.)`,
+          subtitle: slides.length === 0 ? section.subtitle : undefined,
+          lines: []
+        });
+        used = 0;
+      }
+      slides[slides.length - 1].lines.push(line);
+      used += height;
+    }
+    return slides.length > 0 ? slides : [{ title: section.title, subtitle: section.subtitle, lines: [] }];
+  });
+}
+
+function textBox(id: number, name: string, box: [number, number, number, number], paragraphs: string[], anchor = 't'): string {
+  const [x, y, cx, cy] = box;
+  return [
+    `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="${name}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>`,
+    `<p:spPr><a:xfrm><a:off x="${x}" y="${y}"/><a:ext cx="${cx}" cy="${cy}"/></a:xfrm><a:prstGeom prst="rect"><a:avLst/></a:prstGeom></p:spPr>`,
+    `<p:txBody><a:bodyPr wrap="square" anchor="${anchor}"><a:normAutofit/></a:bodyPr><a:lstStyle/>${paragraphs.join('')}</p:txBody>`,
+    '</p:sp>'
+  ].join('');
+}
+
+function textParagraph(line: SlideLine, size: number, language: string): string {
+  const props = line.bullet
+    ? '<a:pPr marL="285750" indent="-285750"><a:spcBef><a:spcPts val="600"/></a:spcBef><a:buFont typeface="Arial"/><a:buChar char="•"/></a:pPr>'
+    : '<a:pPr><a:spcBef><a:spcPts val="600"/></a:spcBef><a:buNone/></a:pPr>';
+  return `<a:p>${props}<a:r><a:rPr lang="${escapeXml(language)}" sz="${size}"${line.bold ? ' b="1"' : ''} dirty="0"/><a:t>${escapeXml(line.text)}</a:t></a:r></a:p>`;
+}
+
+const EMPTY_TREE = [
+  '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>',
+  '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>'
+].join('');
+
+function slideXml(slide: Slide, index: number, language: string): string {
+  const margin = INCH / 2;
+  const width = SLIDE_WIDTH - margin * 2;
+  const shapes = index === 0 && slide.lines.length === 0
+    ? [
+        textBox(2, 'Title', [margin, INCH * 2, width, INCH * 1.5], [textParagraph({ text: slide.title, bold: true }, 4000, language)], 'b'),
+        slide.subtitle ? textBox(3, 'Subtitle', [margin, INCH * 3.75, width, INCH], [textParagraph({ text: slide.subtitle }, 2000, language)]) : ''
+      ]
+    : [
+        textBox(2, 'Title', [margin, margin, width, INCH], [textParagraph({ text: slide.title, bold: true }, 3200, language)], 'b'),
+        slide.subtitle ? textBox(3, 'Subtitle', [margin, INCH * 1.5, width, INCH / 2], [textParagraph({ text: slide.subtitle }, 1600, language)]) : '',
+        slide.lines.length > 0
+          ? textBox(4, 'Content', [margin, INCH * (slide.subtitle ? 2 : 1.5), width, SLIDE_HEIGHT - INCH * (slide.subtitle ? 2.5 : 2)],
+              slide.lines.map(line => textParagraph(line, 2000, language)))
+          : ''
+      ];
+
+  return [
+    XML_DECLARATION,
+    `<p:sld ${NAMESPACES}><p:cSld><p:spTree>${EMPTY_TREE}${shapes.join('')}</p:spTree></p:cSld>`,
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>'
+  ].join('');
+}
+
+const THEME = [
+  XML_DECLARATION,
+  '<a:theme xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" name="FlashFusion">',
+  '<a:themeElements>',
+  '<a:clrScheme name="FlashFusion">',
+  '<a:dk1><a:srgbClr val="1F2937"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>',
+  '<a:dk2><a:srgbClr val="111827"/></a:dk2><a:lt2><a:srgbClr val="F3F4F6"/></a:lt2>',
+  ...['FF7B00', '00B4D8', 'E91E63', '10B981', 'F59E0B', '6366F1'].map((color, index) => `<a:accent${index + 1}><a:srgbClr val="${color}"/></a:accent${index + 1}>`),
+  '<a:hlink><a:srgbClr val="0563C1"/></a:hlink><a:folHlink><a:srgbClr val="954F72"/></a:folHlink>',
+  '</a:clrScheme>',
+  '<a:fontScheme name="FlashFusion">',
+  '<a:majorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:majorFont>',
+  '<a:minorFont><a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/></a:minorFont>',
+  '</a:fontScheme>',
+  '<a:fmtScheme name="FlashFusion">',
+  `<a:fillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:fillStyleLst>`,
+  `<a:lnStyleLst>${'<a:ln w="9525"><a:solidFill><a:schemeClr val="phClr"/></a:solidFill></a:ln>'.repeat(3)}</a:lnStyleLst>`,
+  `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>`,
+  `<a:bgFillStyleLst>${'<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>'.repeat(3)}</a:bgFillStyleLst>`,
+  '</a:fmtScheme>',
+  '</a:themeElements>',
+  '</a:theme>'
+].join('');
+
+const SLIDE_MASTER = [
+  XML_DECLARATION,
+  `<p:sldMaster ${NAMESPACES}>`,
+  `<p:cSld><p:bg><p:bgRef idx="1001"><a:schemeClr val="bg1"/></p:bgRef></p:bg><p:spTree>${EMPTY_TREE}</p:spTree></p:cSld>`,
+  '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>',
+  '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst>',
+  '<p:txStyles><p:titleStyle/><p:bodyStyle/><p:otherStyle/></p:txStyles>',
+  '</p:sldMaster>'
+].join('');
+
+const SLIDE_LAYOUT = [
+  XML_DECLARATION,
+  `<p:sldLayout ${NAMESPACES} type="blank" preserve="1">`,
+  `<p:cSld name="Blank"><p:spTree>${EMPTY_TREE}</p:spTree></p:cSld>`,
+  '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr>',
+  '</p:sldLayout>'
+].join('');
+
+/** A slide deck with text placed in plain text boxes on a blank layout */
+export function renderPptx(blocks: DocumentBlock[], properties: DocumentProperties): PackageFiles {
+  const language = properties.language ?? 'en-US';
+  const slides = slidesOf(blocks);
+  const files: PackageFiles = {
+    '[Content_Types].xml': contentTypes({
+      'ppt/presentation.xml': `${PRESENTATION}.presentation.main+xml`,
+      'ppt/slideMasters/slideMaster1.xml': `${PRESENTATION}.slideMaster+xml`,
+      'ppt/slideLayouts/slideLayout1.xml': `${PRESENTATION}.slideLayout+xml`,
+      'ppt/theme/theme1.xml': 'application/vnd.openxmlformats-officedocument.theme+xml',
+      ...Object.fromEntries(slides.map((_, index) => [`ppt/slides/slide${index + 1}.xml`, `${PRESENTATION}.slide+xml`]))
+    }),
+    ...packageParts('ppt/presentation.xml', properties),
+    'ppt/presentation.xml': [
+      XML_DECLARATION,
+      `<p:presentation ${NAMESPACES}>`,
+      '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rId1"/></p:sldMasterIdLst>',
+      `<p:sldIdLst>${slides.map((_, index) => `<p:sldId id="${256 + index}" r:id="rId${index + 3}"/>`).join('')}</p:sldIdLst>`,
+      `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="${SLIDE_HEIGHT}" cy="${SLIDE_WIDTH}"/>`,
+      '</p:presentation>'
+    ].join(''),
+    'ppt/_rels/presentation.xml.rels': relationships([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+      { id: 'rId2', type: RELATIONSHIP_TYPES.theme, target: 'theme/theme1.xml' },
+      ...slides.map((_, index) => ({ id: `rId${index + 3}`, type: RELATIONSHIP_TYPES.slide, target: `slides/slide${index + 1}.xml` }))
+    ]),
+    'ppt/slideMasters/slideMaster1.xml': SLIDE_MASTER,
+    'ppt/slideMasters/_rels/slideMaster1.xml.rels': relationships([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+      { id: 'rId2', type: RELATIONSHIP_TYPES.theme, target: '../theme/theme1.xml' }
+    ]),
+    'ppt/slideLayouts/slideLayout1.xml': SLIDE_LAYOUT,
+    'ppt/slideLayouts/_rels/slideLayout1.xml.rels': relationships([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.slideMaster, target: '../slideMasters/slideMaster1.xml' }
+    ]),
+    'ppt/theme/theme1.xml': THEME
+  };
+
+  slides.forEach((slide, index) => {
+    files[`ppt/slides/slide${index + 1}.xml`] = slideXml(slide, index, language);
+    files[`ppt/slides/_rels/slide${index + 1}.xml.rels`] = relationships([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' }
+    ]);
+  });
+
+  return files;
+}
@@ -0,0 +1,217 @@
+import type { Assessment, AssessmentQuestion } from '../../types/education';
+import { answersOf, BLANK_PATTERN, choicesOf, correctChoiceIndexes, matchingPairs } from './questions';
+import { escapeXml, XML_DECLARATION, xmlId, type PackageExport, type PackageFiles } from './xml';
+
+const QTI_NAMESPACES = [
+  'xmlns="http://www.imsglobal.org/xsd/imsqti_v2p1"',
+  'xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance"',
+  'xsi:schemaLocation="http://www.imsglobal.org/xsd/imsqti_v2p1 http://www.imsglobal.org/xsd/qti/qtiv2p1/imsqti_v2p1.xsd"'
+].join(' ');
+
+interface ItemParts {
+  response: string;
+  body: string;
+  /** Omitted for items a teacher scores by hand */
+  processing?: string;
+}
+
+function setScore(value: string): string {
+  return `<setOutcomeValue identifier="SCORE">${value}</setOutcomeValue>`;
+}
+
+/** Full points when the response matches the correct response exactly, otherwise none */
+function matchCorrect(points: number): string {
+  return [
+    '<responseProcessing><responseCondition>',
+    `<responseIf><match><variable identifier="RESPONSE"/><correct identifier="RESPONSE"/></match>${setScore(`<baseValue baseType="float">${points}</baseValue>`)}</responseIf>`,
+    `<responseElse>${setScore('<baseValue baseType="float">0</baseValue>')}</responseElse>`,
+    '</responseCondition></responseProcessing>'
+  ].join('');
+}
+
+function prompt(text: string): string {
+  return `<prompt>${escapeXml(text)}</prompt>`;
+}
+
+function choiceItem(question: AssessmentQuestion, warn: (message: string) => void): ItemParts {
+  const choices = choicesOf(question);
+  const correct = correctChoiceIndexes(question);
+  const cardinality = correct.length > 1 ? 'multiple' : 'single';
+  if (correct.length === 0) {
+    warn('has no answer matching its options and will need to be scored by hand');
+  }
+
+  return {
+    response: [
+      `<responseDeclaration identifier="RESPONSE" cardinality="${cardinality}" baseType="identifier">`,
+      correct.length > 0 ? `<correctResponse>${correct.map(index => `<value>choice_${index}</value>`).join('')}</correctResponse>` : '',
+      '</responseDeclaration>'
+    ].join(''),
+    body: [
+      `<choiceInteraction responseIdentifier="RESPONSE" shuffle="false" maxChoices="${cardinality === 'multiple' ? 0 : 1}">`,
+      prompt(question.question),
+      ...choices.map((choice, index) => `<simpleChoice identifier="choice_${index}">${escapeXml(choice)}</simpleChoice>`),
+      '</choiceInteraction>'
+    ].join(''),
+    processing: correct.length > 0 ? matchCorrect(question.points) : undefined
+  };
+}
+
+function textEntryItem(question: AssessmentQuestion, warn: (message: string) => void): ItemParts {
+  const answers = answersOf(question);
+  const expectedLength = Math.max(10, ...answers.map(answer => answer.length));
+  const interaction = `<textEntryInteraction responseIdentifier="RESPONSE" expectedLength="${expectedLength}"/>`;
+  const blank = question.question.match(BLANK_PATTERN);
+
+  // The entry box goes where the blank is, or after the question when there isn't one
+  const body = blank
+    ? `<p>${escapeXml(question.question.slice(0, blank.index))}${interaction}${escapeXml(question.question.slice(blank.index! + blank[0].length))}</p>`
+    : `<p>${escapeXml(question.question)}</p><p>${interaction}</p>`;
+
+  if (answers.length === 0) {
+    warn('has no answer and will need to be scored by hand');
+  }
+  return {
+    response: [
+      '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string">',
+      answers.length > 0 ? `<correctResponse><value>${escapeXml(answers[0])}</value></correctResponse>` : '',
+      answers.length > 0
+        ? `<mapping defaultValue="0">${answers.map(answer => `<mapEntry mapKey="${escapeXml(answer)}" mappedValue="${question.points}" caseSensitive="false"/>`).join('')}</mapping>`
+        : '',
+      '</responseDeclaration>'
+    ].join(''),
+    body,
+    processing: answers.length > 0 ? `<responseProcessing>${setScore('<mapResponse identifier="RESPONSE"/>')}</responseProcessing>` : undefined
+  };
+}
+
+function matchItem(question: AssessmentQuestion): ItemParts {
+  const pairs = matchingPairs(question);
+  const targets = [...new Set(pairs.map(pair => pair.match))];
+  const targetId = (match: string) => `match_${targets.indexOf(match)}`;
+
+  return {
+    response: [
+      '<responseDeclaration identifier="RESPONSE" cardinality="multiple" baseType="directedPair">',
+      `<correctResponse>${pairs.map((pair, index) => `<value>prompt_${index} ${targetId(pair.match)}</value>`).join('')}</correctResponse>`,
+      '</responseDeclaration>'
+    ].join(''),
+    body: [
+      `<matchInteraction responseIdentifier="RESPONSE" shuffle="true" maxAssociations="${pairs.length}">`,
+      prompt(question.question),
+      `<simpleMatchSet>${pairs.map((pair, index) => `<simpleAssociableChoice identifier="prompt_${index}" matchMax="1">${escapeXml(pair.prompt)}</simpleAssociableChoice>`).join('')}</simpleMatchSet>`,
+      `<simpleMatchSet>${targets.map(match => `<simpleAssociableChoice identifier="${targetId(match)}" matchMax="${pairs.filter(pair => pair.match === match).length}">${escapeXml(match)}</simpleAssociableChoice>`).join('')}</simpleMatchSet>`,
+      '</matchInteraction>'
+    ].join(''),
+    processing: matchCorrect(question.points)
+  };
+}
+
+function extendedTextItem(question: AssessmentQuestion): ItemParts {
+  return {
+    response: '<responseDeclaration identifier="RESPONSE" cardinality="single" baseType="string"/>',
+    body: `<extendedTextInteraction responseIdentifier="RESPONSE" expectedLines="${question.type === 'essay' ? 12 : 3}">${prompt(question.question)}</extendedTextInteraction>`
+  };
+}
+
+function itemParts(question: AssessmentQuestion, warn: (message: string) => void): ItemParts {
+  switch (question.type) {
+    case 'multiple-choice':
+    case 'true-false':
+      return choiceItem(question, warn);
+    case 'short-answer':
+      // Without a stored answer it's an open response for the teacher to score
+      return answersOf(question).length > 0 ? textEntryItem(question, warn) : extendedTextItem(question);
+    case 'fill-blank':
+      return textEntryItem(question, warn);
+    case 'matching':
+      if (matchingPairs(question).length > 0) return matchItem(question);
+      warn('has no complete pairs and is exported as a written response');
+      return extendedTextItem(question);
+    case 'essay':
+      return extendedTextItem(question);
+  }
+}
+
+export function itemIdentifier(assessment: Assessment, question: AssessmentQuestion): string {
+  return xmlId('item', `${assessment.id}_${question.id}`);
+}
+
+/** One question as a QTI 2.1 assessmentItem */
+export function renderQtiItem(assessment: Assessment, question: AssessmentQuestion, warn: (message: string) => void = () => {}): string {
+  const parts = itemParts(question, warn);
+  const title = question.question.length > 60 ? `${question.question.slice(0, 60)}…` : question.question;
+
+  return [
+    XML_DECLARATION,
+    `<assessmentItem ${QTI_NAMESPACES} identifier="${itemIdentifier(assessment, question)}" title="${escapeXml(title)}" adaptive="false" timeDependent="false">`,
+    parts.response,
+    `<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"${question.points > 0 ? ` normalMaximum="${question.points}"` : ''}>`,
+    '<defaultValue><value>0</value></defaultValue></outcomeDeclaration>',
+    `<itemBody>${parts.body}</itemBody>`,
+    parts.processing ?? '',
+    '</assessmentItem>'
+  ].join('');
+}
+
+function renderQtiTest(assessment: Assessment, itemHref: (question: AssessmentQuestion) => string): string {
+  return [
+    XML_DECLARATION,
+    `<assessmentTest ${QTI_NAMESPACES} identifier="${xmlId('test', assessment.id)}" title="${escapeXml(assessment.title)}">`,
+    '<outcomeDeclaration identifier="SCORE" cardinality="single" baseType="float"/>',
+    assessment.timeLimit ? `<timeLimits maxTime="${assessment.timeLimit * 60}"/>` : '',
+    '<testPart identifier="part_1" navigationMode="nonlinear" submissionMode="simultaneous">',
+    assessment.attempts ? `<itemSessionControl maxAttempts="${assessment.attempts}"/>` : '',
+    `<assessmentSection identifier="section_1" title="${escapeXml(assessment.title)}" visible="true">`,
+    ...assessment.questions.map(question =>
+      `<assessmentItemRef identifier="${itemIdentifier(assessment, question)}" href="${escapeXml(itemHref(question))}"/>`),
+    '</assessmentSection>',
+    '</testPart>',
+    `<outcomeProcessing>${setScore('<sum><testVariables variableIdentifier="SCORE"/></sum>')}</outcomeProcessing>`,
+    '</assessmentTest>'
+  ].join('');
+}
+
+/**
+ * An IMS QTI 2.1 content package: an assessmentTest per assessment, an
+ * assessmentItem per question and the manifest listing them. Canvas,
+ * Blackboard and Schoology import these as quizzes.
+ */
+export function exportQti(assessments: Assessment[], title: string): PackageExport {
+  const files: PackageFiles = {};
+  const warnings: string[] = [];
+  const resources: string[] = [];
+
+  for (const assessment of assessments) {
+    const folder = xmlId('assessment', assessment.id);
+    const itemHref = (question: AssessmentQuestion) => `${folder}/items/${itemIdentifier(assessment, question)}.xml`;
+    const testHref = `${folder}/test.xml`;
+
+    assessment.questions.forEach((question, index) => {
+      const warn = (message: string) => warnings.push(`${assessment.title}, question ${index + 1} ${message}`);
+      files[itemHref(question)] = renderQtiItem(assessment, question, warn);
+      resources.push(
+        `<resource identifier="${itemIdentifier(assessment, question)}" type="imsqti_item_xmlv2p1" href="${escapeXml(itemHref(question))}"><file href="${escapeXml(itemHref(question))}"/></resource>`
+      );
+    });
+
+    files[testHref] = renderQtiTest(assessment, itemHref);
+    resources.push([
+      `<resource identifier="${xmlId('test', assessment.id)}" type="imsqti_test_xmlv2p1" href="${escapeXml(testHref)}">`,
+      `<file href="${escapeXml(testHref)}"/>`,
+      ...assessment.questions.map(question => `<dependency identifierref="${itemIdentifier(assessment, question)}"/>`),
+      '</resource>'
+    ].join(''));
+  }
+
+  files['imsmanifest.xml'] = [
+    XML_DECLARATION,
+    `<manifest xmlns="http://www.imsglobal.org/xsd/imscp_v1p1" identifier="${xmlId('manifest', title.toLowerCase())}">`,
+    '<metadata><schema>QTIv2.1 Package</schema><schemaversion>1.0.0</schemaversion></metadata>',
+    '<organizations/>',
+    `<resources>${resources.join('')}</resources>`,
+    '</manifest>'
+  ].join('');
+
+  return { files, warnings };
+}
@@ -0,0 +1,74 @@
+import type { AssessmentQuestion } from '../../types/education';
+
+const LETTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ';
+
+export function optionLetter(index: number): string {
+  return LETTERS[index] ?? String(index + 1);
+}
+
+/** The accepted answers as a list, whether stored as one string or several */
+export function answersOf(question: AssessmentQuestion): string[] {
+  const answers = Array.isArray(question.correctAnswer) ? question.correctAnswer : [question.correctAnswer];
+  return answers.map(answer => String(answer).trim()).filter(Boolean);
+}
+
+/** Options a learner chooses from; true/false questions get True and False when none are stored */
+export function choicesOf(question: AssessmentQuestion): string[] {
+  if (question.options?.length) return question.options;
+  return question.type === 'true-false' ? ['True', 'False'] : [];
+}
+
+/**
+ * Indexes of the correct options. Answers may be stored as the option text
+ * or as its letter (`B`, `b)`), so both are accepted; answers matching
+ * neither are left out, and callers treat an empty result as unresolvable.
+ */
+export function correctChoiceIndexes(question: AssessmentQuestion): number[] {
+  const choices = choicesOf(question).map(choice => choice.trim().toLowerCase());
+  const indexes = new Set<number>();
+
+  for (const answer of answersOf(question)) {
+    const byText = choices.indexOf(answer.toLowerCase());
+    if (byText !== -1) {
+      indexes.add(byText);
+      continue;
+    }
+    const letter = answer.match(/^\(?([a-z])[).]?$/i);
+    const byLetter = letter ? LETTERS.indexOf(letter[1].toUpperCase()) : -1;
+    if (byLetter !== -1 && byLetter < choices.length) {
+      indexes.add(byLetter);
+    }
+  }
+  return [...indexes].sort((a, b) => a - b);
+}
+
+export interface MatchingPair {
+  prompt: string;
+  match: string;
+}
+
+/** Matching questions store prompts as `options` and each prompt's match at the same index of `correctAnswer` */
+export function matchingPairs(question: AssessmentQuestion): MatchingPair[] {
+  const matches = answersOf(question);
+  return (question.options ?? [])
+    .map((prompt, index) => ({ prompt, match: matches[index] ?? '' }))
+    .filter(pair => pair.prompt && pair.match);
+}
+
+/** The correct answer as a teacher reads it in an answer key */
+export function formatAnswer(question: AssessmentQuestion): string {
+  if (question.type === 'matching') {
+    return matchingPairs(question).map(pair => `${pair.prompt} → ${pair.match}`).join('; ');
+  }
+  if (question.type === 'multiple-choice' || question.type === 'true-false') {
+    const choices = choicesOf(question);
+    const indexes = correctChoiceIndexes(question);
+    if (indexes.length > 0) {
+      return indexes.map(index => `${optionLetter(index)}. ${choices[index]}`).join('; ');
+    }
+  }
+  return answersOf(question).join(' / ');
+}
+
+/** Blanks in fill-in questions are runs of three or more underscores */
+export const BLANK_PATTERN = /_{3,}/;
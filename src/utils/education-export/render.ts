@@ -0,0 +1,108 @@
+import { FILE_FORMATS, LMS_EXPORT_FORMATS, SUBJECTS } from '../../constants/education';
+import type { EducationalContent, ExportFormat } from '../../types/education';
+import { exportCommonCartridge } from './common-cartridge';
+import { contentBlocks } from './document';
+import { renderDocx } from './docx';
+import { renderMoodleXml } from './moodle';
+import type { DocumentProperties } from './ooxml';
+import { renderPdf } from './pdf';
+import { renderPptx } from './pptx';
+import { exportQti } from './qti';
+import { renderHtml, renderMarkdown } from './text';
+import { contentWorksheets, renderXlsx, type Worksheet } from './xlsx';
+import type { PackageFiles } from './xml';
+
+export type RenderedExport = {
+  filename: string;
+  mimeType: string;
+  warnings: string[];
+} & (
+  /** Office documents and LMS packages are zip archives of these files */
+  | { files: PackageFiles }
+  | { data: string | Uint8Array }
+);
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  pdf: 'application/pdf',
+  docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  html: 'text/html',
+  txt: 'text/plain',
+  csv: 'text/csv',
+  json: 'application/json',
+  qti: 'application/zip',
+  'common-cartridge': 'application/zip',
+  moodle: 'application/xml'
+};
+
+const ASSESSMENT_FORMATS: ExportFormat[] = ['qti', 'moodle', 'csv'];
+
+function filename(title: string, format: ExportFormat): string {
+  const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'lesson';
+  const { extension } = [...FILE_FORMATS, ...LMS_EXPORT_FORMATS].find(entry => entry.id === format)!;
+  return `${slug}${format === 'qti' ? '-qti' : ''}${extension}`;
+}
+
+function toCsv(sheet: Worksheet): string {
+  const field = (value: unknown) => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [sheet.columns.map(column => column.header), ...sheet.rows]
+    .map(row => row.map(field).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+/**
+ * Render lesson content in one of the studio's formats. Document formats
+ * include an answer key; the quiz formats (QTI, Moodle, CSV) need at least
+ * one assessment.
+ */
+export function renderEducationalContent(content: EducationalContent, format: ExportFormat): RenderedExport {
+  if (ASSESSMENT_FORMATS.includes(format) && content.assessments.every(assessment => assessment.questions.length === 0)) {
+    throw new Error('This content has no assessment questions to export');
+  }
+
+  const properties: DocumentProperties = {
+    title: content.title,
+    subject: SUBJECTS.find(subject => subject.id === content.subject)?.name,
+    keywords: content.metadata.keywords,
+    language: content.metadata.language,
+    created: content.generatedAt
+  };
+  const blocks = () => contentBlocks(content, { answerKey: true });
+  const result = { filename: filename(content.title, format), mimeType: MIME_TYPES[format], warnings: [] as string[] };
+
+  switch (format) {
+    case 'pdf':
+      return { ...result, data: renderPdf(blocks(), properties) };
+    case 'docx':
+      return { ...result, files: renderDocx(blocks(), properties) };
+    case 'pptx':
+      // Slides are shown to the class, so they leave out the answers
+      return { ...result, files: renderPptx(contentBlocks(content), properties) };
+    case 'xlsx':
+      return { ...result, files: renderXlsx(contentWorksheets(content), properties) };
+    case 'html':
+      return { ...result, data: renderHtml(blocks(), content.title, content.metadata.language) };
+    case 'txt':
+      return { ...result, data: renderMarkdown(blocks()) };
+    case 'csv':
+      return { ...result, data: toCsv(contentWorksheets(content).find(sheet => sheet.name === 'Questions')!) };
+    case 'json':
+      return { ...result, data: JSON.stringify(content, null, 2) };
+    case 'qti': {
+      const { files, warnings } = exportQti(content.assessments, content.title);
+      return { ...result, files, warnings };
+    }
+    case 'common-cartridge': {
+      const { files, warnings } = exportCommonCartridge(content);
+      return { ...result, files, warnings };
+    }
+    case 'moodle': {
+      const warnings: string[] = [];
+      return { ...result, data: renderMoodleXml(content.assessments, warnings), warnings };
+    }
+  }
+}
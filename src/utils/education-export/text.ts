@@ -0,0 +1,71 @@
+import type { DocumentBlock } from './document';
+import { escapeXml } from './xml';
+
+/** Markdown, which also serves as the plain-text export and the studio preview */
+export function renderMarkdown(blocks: DocumentBlock[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading':
+        return `${'#'.repeat(block.level)} ${block.text}`;
+      case 'paragraph':
+        return block.emphasis ? `*${block.text}*` : block.text;
+      case 'list':
+        return block.items.map((item, index) => `${block.ordered ? `${index + 1}.` : '-'} ${item}`).join('\n');
+      case 'table': {
+        const [header, ...rows] = block.rows;
+        const row = (cells: string[]) => `| ${cells.map(cell => cell.replace(/\|/g, '\\|')).join(' | ')} |`;
+        return [row(header), row(header.map(() => '---')), ...rows.map(row)].join('\n');
+      }
+    }
+  }).join('\n\n') + '\n';
+}
+
+function renderHtmlBlock(block: DocumentBlock): string {
+  switch (block.type) {
+    case 'heading':
+      return `<h${block.level}>${escapeXml(block.text)}</h${block.level}>`;
+    case 'paragraph':
+      return block.emphasis ? `<p class="meta">${escapeXml(block.text)}</p>` : `<p>${escapeXml(block.text)}</p>`;
+    case 'list': {
+      const tag = block.ordered ? 'ol' : 'ul';
+      return `<${tag}>${block.items.map(item => `<li>${escapeXml(item)}</li>`).join('')}</${tag}>`;
+    }
+    case 'table': {
+      const [header, ...rows] = block.rows;
+      return [
+        '<table>',
+        `<thead><tr>${header.map(cell => `<th>${escapeXml(cell)}</th>`).join('')}</tr></thead>`,
+        `<tbody>${rows.map(row => `<tr>${row.map(cell => `<td>${escapeXml(cell)}</td>`).join('')}</tr>`).join('')}</tbody>`,
+        '</table>'
+      ].join('');
+    }
+  }
+}
+
+/** The body markup alone, for embedding in an LMS page */
+export function renderHtmlBody(blocks: DocumentBlock[]): string {
+  return blocks.map(renderHtmlBlock).join('\n');
+}
+
+/** A standalone page that reads well in a browser and prints cleanly */
+export function renderHtml(blocks: DocumentBlock[], title: string, language = 'en'): string {
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeXml(language)}">`,
+    '<head>',
+    '<meta charset="utf-8">',
+    '<meta name="viewport" content="width=device-width, initial-scale=1">',
+    `<title>${escapeXml(title)}</title>`,
+    '<style>',
+    'body { font-family: system-ui, sans-serif; line-height: 1.6; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #1f2937; }',
+    'h1, h2, h3 { line-height: 1.25; } .meta { color: #6b7280; font-style: italic; }',
+    'table { border-collapse: collapse; width: 100%; } th, td { border: 1px solid #d1d5db; padding: 0.4rem 0.6rem; text-align: left; vertical-align: top; }',
+    '</style>',
+    '</head>',
+    '<body>',
+    renderHtmlBody(blocks),
+    '</body>',
+    '</html>',
+    ''
+  ].join('\n');
+}
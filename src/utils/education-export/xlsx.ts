@@ -0,0 +1,182 @@
+import { SUBJECTS } from '../../constants/education';
+import type { EducationalContent } from '../../types/education';
+import { contentTypes, packageParts, relationships, RELATIONSHIP_TYPES, type DocumentProperties } from './ooxml';
+import { choicesOf, formatAnswer, matchingPairs } from './questions';
+import { escapeXml, XML_DECLARATION, type PackageFiles } from './xml';
+
+const MAIN_NS = 'xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"';
+const SHEET = 'application/vnd.openxmlformats-officedocument.spreadsheetml';
+
+// Excel refuses cells longer than this
+const MAX_CELL_LENGTH = 32767;
+
+type CellValue = string | number | boolean | undefined;
+
+export interface Worksheet {
+  name: string;
+  columns: { header: string; width: number }[];
+  rows: CellValue[][];
+}
+
+function columnName(index: number): string {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+/** Sheet names are at most 31 characters, unique, and can't contain []:*?/\ */
+function sheetNames(names: string[]): string[] {
+  const used = new Set<string>();
+  return names.map(name => {
+    const base = name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || 'Sheet';
+    let unique = base;
+    for (let n = 2; used.has(unique.toLowerCase()); n++) {
+      unique = `${base.slice(0, 31 - String(n).length - 1)} ${n}`;
+    }
+    used.add(unique.toLowerCase());
+    return unique;
+  });
+}
+
+function cell(value: CellValue, ref: string, style: number): string {
+  const s = style ? ` s="${style}"` : '';
+  if (value === undefined || value === '') return '';
+  if (typeof value === 'number') return `<c r="${ref}"${s}><v>${value}</v></c>`;
+  if (typeof value === 'boolean') return `<c r="${ref}"${s} t="b"><v>${value ? 1 : 0}</v></c>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is><t xml:space="preserve">${escapeXml(value.slice(0, MAX_CELL_LENGTH))}</t></is></c>`;
+}
+
+function worksheetXml(sheet: Worksheet): string {
+  const rows = [sheet.columns.map(column => column.header), ...sheet.rows];
+  return [
+    XML_DECLARATION,
+    `<worksheet ${MAIN_NS}>`,
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>',
+    `<cols>${sheet.columns.map((column, index) => `<col min="${index + 1}" max="${index + 1}" width="${column.width}" customWidth="1"/>`).join('')}</cols>`,
+    '<sheetData>',
+    ...rows.map((row, index) =>
+      `<row r="${index + 1}">${row.map((value, column) => cell(value, `${columnName(column)}${index + 1}`, index === 0 ? 1 : 2)).join('')}</row>`),
+    '</sheetData>',
+    rows.length > 1 ? `<autoFilter ref="A1:${columnName(sheet.columns.length - 1)}${rows.length}"/>` : '',
+    '</worksheet>'
+  ].join('');
+}
+
+// Style 1 is the bold header; style 2 wraps text at the top of the cell
+const STYLES = [
+  XML_DECLARATION,
+  `<styleSheet ${MAIN_NS}>`,
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>',
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>',
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>',
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>',
+  '<cellXfs count="3">',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>',
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/>',
+  '<xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0" applyAlignment="1"><alignment vertical="top" wrapText="1"/></xf>',
+  '</cellXfs>',
+  '<cellStyles count="1"><cellStyle name="Normal" xfId="0" builtinId="0"/></cellStyles>',
+  '</styleSheet>'
+].join('');
+
+export function renderXlsx(sheets: Worksheet[], properties: DocumentProperties): PackageFiles {
+  const names = sheetNames(sheets.map(sheet => sheet.name));
+  const files: PackageFiles = {
+    '[Content_Types].xml': contentTypes({
+      'xl/workbook.xml': `${SHEET}.sheet.main+xml`,
+      'xl/styles.xml': `${SHEET}.styles+xml`,
+      ...Object.fromEntries(sheets.map((_, index) => [`xl/worksheets/sheet${index + 1}.xml`, `${SHEET}.worksheet+xml`]))
+    }),
+    ...packageParts('xl/workbook.xml', properties),
+    'xl/workbook.xml': [
+      XML_DECLARATION,
+      `<workbook ${MAIN_NS} xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">`,
+      `<sheets>${names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 2}"/>`).join('')}</sheets>`,
+      '</workbook>'
+    ].join(''),
+    'xl/_rels/workbook.xml.rels': relationships([
+      { id: 'rId1', type: RELATIONSHIP_TYPES.styles, target: 'styles.xml' },
+      ...sheets.map((_, index) => ({ id: `rId${index + 2}`, type: RELATIONSHIP_TYPES.worksheet, target: `worksheets/sheet${index + 1}.xml` }))
+    ]),
+    'xl/styles.xml': STYLES
+  };
+
+  sheets.forEach((sheet, index) => {
+    files[`xl/worksheets/sheet${index + 1}.xml`] = worksheetXml(sheet);
+  });
+  return files;
+}
+
+/** One sheet per part of the lesson, so objectives and questions can be sorted and filtered */
+export function contentWorksheets(content: EducationalContent): Worksheet[] {
+  return [
+    {
+      name: 'Overview',
+      columns: [{ header: 'Field', width: 20 }, { header: 'Value', width: 80 }],
+      rows: [
+        ['Title', content.title],
+        ['Subject', SUBJECTS.find(subject => subject.id === content.subject)?.name ?? content.subject],
+        ['Grade level', content.gradeLevel],
+        ['Topic', content.topic],
+        ['Type', content.type],
+        ['Standard', content.standard],
+        ['Duration (minutes)', content.metadata.duration],
+        ['Difficulty', content.metadata.difficulty],
+        ['Prerequisites', content.metadata.prerequisites.join(', ')],
+        ['Keywords', content.metadata.keywords.join(', ')],
+        ['Description', content.description]
+      ]
+    },
+    {
+      name: 'Objectives',
+      columns: [{ header: '#', width: 5 }, { header: 'Objective', width: 70 }, { header: "Bloom's level", width: 15 }, { header: 'Measurable', width: 12 }],
+      rows: content.objectives.map((objective, index) => [index + 1, objective.description, objective.bloomLevel, objective.measurable])
+    },
+    {
+      name: 'Sections',
+      columns: [
+        { header: 'Section', width: 25 },
+        { header: 'Type', width: 14 },
+        { header: 'Minutes', width: 9 },
+        { header: 'Content', width: 60 },
+        { header: 'Materials', width: 30 },
+        { header: 'Instructions', width: 50 }
+      ],
+      rows: content.content.map(section => [
+        section.title,
+        section.type,
+        section.duration,
+        section.content,
+        section.materials?.join('\n'),
+        section.instructions?.map((step, index) => `${index + 1}. ${step}`).join('\n')
+      ])
+    },
+    {
+      name: 'Questions',
+      columns: [
+        { header: 'Assessment', width: 25 },
+        { header: '#', width: 5 },
+        { header: 'Type', width: 16 },
+        { header: 'Question', width: 60 },
+        { header: 'Options', width: 40 },
+        { header: 'Answer', width: 40 },
+        { header: 'Points', width: 8 },
+        { header: 'Difficulty', width: 11 },
+        { header: 'Explanation', width: 50 }
+      ],
+      rows: content.assessments.flatMap(assessment => assessment.questions.map((question, index) => [
+        assessment.title,
+        index + 1,
+        question.type,
+        question.question,
+        question.type === 'matching' ? matchingPairs(question).map(pair => pair.prompt).join('\n') : choicesOf(question).join('\n'),
+        formatAnswer(question),
+        question.points,
+        question.difficulty,
+        question.explanation
+      ]))
+    }
+  ];
+}
@@ -0,0 +1,30 @@
+/** XML text and attribute escaping for the OOXML, QTI and cartridge writers */
+
+// Control characters other than tab and newlines aren't allowed in XML 1.0
+const INVALID_XML_CHARS = /[\u0000-\u0008\u000b\u000c\u000e-\u001f\ufffe\uffff]/g;
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(INVALID_XML_CHARS, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+export const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/** A stable XML identifier (NCName) derived from `value` */
+export function xmlId(prefix: string, value: string): string {
+  return `${prefix}_${value.replace(/[^A-Za-z0-9_.-]/g, '_')}`;
+}
+
+/** Files of a zip package by path; the packaging step zips them as-is */
+export type PackageFiles = Record<string, string>;
+
+/** A package's files with notes on anything that couldn't be carried over faithfully */
+export interface PackageExport {
+  files: PackageFiles;
+  warnings: string[];
+}
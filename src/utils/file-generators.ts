@@ -1,6 +1,7 @@
 import JSZip from 'jszip';
 import saveAs from 'file-saver';
 import type { GeneratedApp } from '../types/full-stack-builder';
+import { stackTemplates } from './stack-templates';
 
 /**
  * File Generation Utilities for FlashFusion
@@ -221,7 +222,7 @@ npm run dev:backend   # Backend on http://localhost:3001
 This is a full-stack application with the following architecture:
 
 - **Frontend**: ${app.stack.frontend} with TypeScript
-- **Backend**: ${app.stack.backend} with Express
+- **Backend**: ${stackTemplates.templateName('backend', app.stack.backend)}
 - **Database**: ${app.stack.database}
 - **Authentication**: ${app.stack.auth}
 - **Deployment**: ${app.stack.deployment}
@@ -246,7 +247,7 @@ ${app.name.toLowerCase().replace(/\s+/g, '-')}/
 ├── backend/               # Node.js API server
 │   ├── src/
 │   │   ├── routes/      # API routes
-│   │   ├── middleware/  # Express middleware
+│   │   ├── middleware/  # Request middleware
 │   │   ├── models/      # Database models
 │   │   ├── services/    # Business logic
 │   │   └── utils/       # Utilities
@@ -561,7 +562,7 @@ npm run dev:backend   # http://localhost:3001
 ### Backend (${app.stack.backend})
 - **Location**: \`./backend/\`
 - **Port**: 3001
-- **Key Technologies**: Node.js, Express, TypeScript
+- **Key Technologies**: Node.js, ${stackTemplates.templateName('backend', app.stack.backend)}, TypeScript
 - **Database**: ${app.stack.database}
 - **Authentication**: ${app.stack.auth}
 
@@ -953,6 +954,86 @@ export interface EnhancedDownloadOptions extends DownloadOptions {
   };
 }
 
+/**
+ * Every file of the enhanced download, uncompressed. The project verifier
+ * materializes this same archive, so what it checks is what users get.
+ */
+export async function createEnhancedProjectZip(
+  app: GeneratedApp,
+  options: EnhancedDownloadOptions = { format: 'zip' }
+): Promise<JSZip> {
+  const { onProgress } = options;
+
+  onProgress?.(5, 'Analyzing project structure...');
+  
+  const zip = new JSZip();
+  
+  onProgress?.(15, 'Creating project files...');
+  
+  // Create enhanced project structure
+  const projectStructure = createEnhancedProjectStructure(app, options);
+  
+  onProgress?.(25, 'Adding application files...');
+  await addFilesToZip(zip, projectStructure, '');
+  
+  onProgress?.(40, 'Generating documentation...');
+  
+  // Add enhanced documentation
+  if (options.generateDocumentation !== false) {
+    zip.file('README.md', generateEnhancedReadme(app, options));
+    zip.file('ARCHITECTURE.md', generateArchitectureGuide(app));
+    zip.file('API_DOCUMENTATION.md', generateAPIDocumentation(app));
+    zip.file('DEPLOYMENT_GUIDE.md', generateEnhancedDeploymentGuide(app));
+    zip.file('CONTRIBUTING.md', generateContributingGuide(app));
+  }
+  
+  onProgress?.(55, 'Adding configuration files...');
+  
+  // Enhanced configuration files
+  zip.file('package.json', generateEnhancedRootPackageJson(app, options));
+  zip.file('.env.example', generateEnhancedEnvExample(app));
+  zip.file('docker-compose.yml', generateEnhancedDockerCompose(app));
+  zip.file('docker-compose.prod.yml', generateProductionDockerCompose(app));
+  
+  onProgress?.(70, 'Adding development tools...');
+  
+  // Development tools
+  zip.file('.eslintrc.js', generateESLintConfig());
+  zip.file('.prettierrc.json', generatePrettierConfig());
+  zip.file('jest.config.js', generateJestConfig());
+  zip.file('tsconfig.json', generateTSConfig());
+  
+  onProgress?.(80, 'Generating tests...');
+  
+  // Add tests if requested
+  if (options.generateTests) {
+    zip.file('frontend/src/__tests__/App.test.tsx', generateFrontendTests(app));
+    zip.file('backend/src/__tests__/app.test.ts', generateBackendTests(app));
+    zip.file('backend/src/__tests__/auth.test.ts', generateAuthTests(app));
+  }
+  
+  onProgress?.(90, 'Adding CI/CD configurations...');
+  
+  // CI/CD files
+  zip.file('.github/workflows/ci.yml', generateGitHubActionsCI(app));
+  zip.file('.github/workflows/deploy.yml', generateGitHubActionsDeploy(app));
+  zip.file('.github/ISSUE_TEMPLATE/bug_report.md', generateIssueTemplate('bug'));
+  zip.file('.github/ISSUE_TEMPLATE/feature_request.md', generateIssueTemplate('feature'));
+  
+  onProgress?.(95, 'Finalizing download...');
+  
+  // Add gitignore and other meta files
+  zip.file('.gitignore', generateEnhancedGitIgnore());
+  zip.file('LICENSE', generateMITLicense(app));
+  zip.file('CHANGELOG.md', generateChangelog(app));
+  
+  // Add FlashFusion branding and metadata
+  zip.file('_flashfusion/metadata.json', generateFlashFusionMetadata(app, options));
+  zip.file('_flashfusion/generation-report.html', generateGenerationReport(app, options));
+  
+  return zip;
+}
+
 export async function generateEnhancedDownload(
   app: GeneratedApp,
   options: EnhancedDownloadOptions = { format: 'zip' }
@@ -960,74 +1041,9 @@ export async function generateEnhancedDownload(
   const { onProgress } = options;
   
   try {
-    onProgress?.(5, 'Analyzing project structure...');
-    
-    const zip = new JSZip();
+    const zip = await createEnhancedProjectZip(app, options);
     const projectName = app.name.toLowerCase().replace(/\s+/g, '-');
     
-    onProgress?.(15, 'Creating project files...');
-    
-    // Create enhanced project structure
-    const projectStructure = createEnhancedProjectStructure(app, options);
-    
-    onProgress?.(25, 'Adding application files...');
-    await addFilesToZip(zip, projectStructure, '');
-    
-    onProgress?.(40, 'Generating documentation...');
-    
-    // Add enhanced documentation
-    if (options.generateDocumentation !== false) {
-      zip.file('README.md', generateEnhancedReadme(app, options));
-      zip.file('ARCHITECTURE.md', generateArchitectureGuide(app));
-      zip.file('API_DOCUMENTATION.md', generateAPIDocumentation(app));
-      zip.file('DEPLOYMENT_GUIDE.md', generateEnhancedDeploymentGuide(app));
-      zip.file('CONTRIBUTING.md', generateContributingGuide(app));
-    }
-    
-    onProgress?.(55, 'Adding configuration files...');
-    
-    // Enhanced configuration files
-    zip.file('package.json', generateEnhancedRootPackageJson(app, options));
-    zip.file('.env.example', generateEnhancedEnvExample(app));
-    zip.file('docker-compose.yml', generateEnhancedDockerCompose(app));
-    zip.file('docker-compose.prod.yml', generateProductionDockerCompose(app));
-    
-    onProgress?.(70, 'Adding development tools...');
-    
-    // Development tools
-    zip.file('.eslintrc.js', generateESLintConfig());
-    zip.file('.prettierrc.json', generatePrettierConfig());
-    zip.file('jest.config.js', generateJestConfig());
-    zip.file('tsconfig.json', generateTSConfig());
-    
-    onProgress?.(80, 'Generating tests...');
-    
-    // Add tests if requested
-    if (options.generateTests) {
-      zip.file('frontend/src/__tests__/App.test.tsx', generateFrontendTests(app));
-      zip.file('backend/src/__tests__/app.test.ts', generateBackendTests(app));
-      zip.file('backend/src/__tests__/auth.test.ts', generateAuthTests(app));
-    }
-    
-    onProgress?.(90, 'Adding CI/CD configurations...');
-    
-    // CI/CD files
-    zip.file('.github/workflows/ci.yml', generateGitHubActionsCI(app));
-    zip.file('.github/workflows/deploy.yml', generateGitHubActionsDeploy(app));
-    zip.file('.github/ISSUE_TEMPLATE/bug_report.md', generateIssueTemplate('bug'));
-    zip.file('.github/ISSUE_TEMPLATE/feature_request.md', generateIssueTemplate('feature'));
-    
-    onProgress?.(95, 'Finalizing download...');
-    
-    // Add gitignore and other meta files
-    zip.file('.gitignore', generateEnhancedGitIgnore());
-    zip.file('LICENSE', generateMITLicense(app));
-    zip.file('CHANGELOG.md', generateChangelog(app));
-    
-    // Add FlashFusion branding and metadata
-    zip.file('_flashfusion/metadata.json', generateFlashFusionMetadata(app, options));
-    zip.file('_flashfusion/generation-report.html', generateGenerationReport(app, options));
-    
     onProgress?.(98, 'Compressing files...');
     
     const content = await zip.generateAsync({
@@ -1136,8 +1152,8 @@ npm run dev
 This application follows a modern full-stack architecture:
 
 - **Frontend**: ${app.stack.frontend} with TypeScript and Tailwind CSS
-- **Backend**: ${app.stack.backend} with Express and TypeScript
-- **Database**: ${app.stack.database} with Prisma ORM
+- **Backend**: ${stackTemplates.templateName('backend', app.stack.backend)} with TypeScript
+- **Database**: ${app.stack.database} via ${stackTemplates.templateName('database', app.stack.database)}
 - **Authentication**: ${app.stack.auth}
 - **Deployment**: Optimized for ${app.stack.deployment}
 
@@ -1160,9 +1176,9 @@ ${projectName.toLowerCase().replace(/\s+/g, '-')}/
 │   └── package.json
 ├── backend/                 # Node.js API server
 │   ├── src/
-│   │   ├── routes/         # Express routes
+│   │   ├── routes/         # API routes
 │   │   ├── controllers/    # Route controllers
-│   │   ├── middleware/     # Express middleware
+│   │   ├── middleware/     # Request middleware
 │   │   ├── models/         # Database models
 │   │   ├── services/       # Business logic
 │   │   └── utils/          # Utility functions
@@ -1316,17 +1332,17 @@ ${app.name} follows a modern three-tier architecture with clear separation of co
 - **State Management**: React Context + Hooks
 - **Styling**: Tailwind CSS
 - **Routing**: React Router v6
-- **Build Tool**: Vite/Next.js
+- **Build Tool**: ${stackTemplates.templateName('frontend', app.stack.frontend)}
 
 ## Backend Layer  
 - **Technology**: ${app.stack.backend}
-- **Framework**: Express.js
+- **Framework**: ${stackTemplates.templateName('backend', app.stack.backend)}
 - **Authentication**: ${app.stack.auth}
 - **API Style**: RESTful APIs with OpenAPI documentation
 
 ## Data Layer
 - **Database**: ${app.stack.database}
-- **ORM**: Prisma
+- **Data Access**: ${stackTemplates.templateName('database', app.stack.database)}
 - **Migrations**: Automated database migrations
 - **Caching**: Redis (optional)
 
@@ -1820,17 +1836,18 @@ function generateTSConfig(): string {
 }
 
 function generateFrontendTests(app: GeneratedApp): string {
-  return `import { render, screen } from '@testing-library/react';
-import App from '../App';
+  return `import '@testing-library/jest-dom';
+import { render, screen } from '@testing-library/react';
+import Home from '../pages/index';
 
 describe('${app.name} Frontend', () => {
   test('renders main application', () => {
-    render(<App />);
+    render(<Home />);
     expect(screen.getByRole('main')).toBeInTheDocument();
   });
 
   test('displays application title', () => {
-    render(<App />);
+    render(<Home />);
     expect(screen.getByText('${app.name}')).toBeInTheDocument();
   });
 });`;
@@ -1838,32 +1855,44 @@ describe('${app.name} Frontend', () => {
 
 function generateBackendTests(app: GeneratedApp): string {
   return `import request from 'supertest';
-import app from '../app';
+import { testServer } from './server';
 
 describe('${app.name} Backend API', () => {
+  let server: Awaited<ReturnType<typeof testServer>>;
+
+  beforeAll(async () => {
+    server = await testServer();
+  });
+
   test('GET /health returns 200', async () => {
-    const response = await request(app)
+    const response = await request(server)
       .get('/health')
       .expect(200);
     
-    expect(response.body.status).toBe('ok');
+    expect(response.body.status).toBe('OK');
   });
 
-  test('GET /api/users requires authentication', async () => {
-    await request(app)
-      .get('/api/users')
-      .expect(401);
+  test('unknown routes return 404', async () => {
+    await request(server)
+      .get('/api/does-not-exist')
+      .expect(404);
   });
 });`;
 }
 
 function generateAuthTests(app: GeneratedApp): string {
   return `import request from 'supertest';
-import app from '../app';
+import { testServer } from './server';
 
 describe('Authentication', () => {
+  let server: Awaited<ReturnType<typeof testServer>>;
+
+  beforeAll(async () => {
+    server = await testServer();
+  });
+
   test('POST /api/auth/login with valid credentials', async () => {
-    const response = await request(app)
+    const response = await request(server)
       .post('/api/auth/login')
       .send({
         email: 'test@example.com',
@@ -1875,7 +1904,7 @@ describe('Authentication', () => {
   });
 
   test('POST /api/auth/login with invalid credentials', async () => {
-    await request(app)
+    await request(server)
       .post('/api/auth/login')
       .send({
         email: 'test@example.com',
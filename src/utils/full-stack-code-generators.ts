@@ -1,68 +1,14 @@
-import type { AppStack } from '../types/full-stack-builder';
-
-export function generateFrontendPackageJson(name: string, frontend: string, features: string[]): string {
-  const dependencies: Record<string, string> = {
-    next: "^13.0.0",
-    react: "^18.0.0",
-    "react-dom": "^18.0.0"
-  };
-
-  if (frontend === 'react-vite') {
-    dependencies.vite = "^4.0.0";
-    delete dependencies.next;
-  }
-
-  if (features.includes('TypeScript Support')) {
-    dependencies.typescript = "^5.0.0";
-  }
-
-  return JSON.stringify({
-    name: `${name}-frontend`,
-    version: "1.0.0",
-    scripts: {
-      dev: frontend === 'nextjs' ? "next dev" : "vite",
-      build: frontend === 'nextjs' ? "next build" : "vite build",
-      start: frontend === 'nextjs' ? "next start" : "vite preview"
-    },
-    dependencies
-  }, null, 2);
-}
-
-export function generateBackendPackageJson(name: string, backend: string, features: string[]): string {
-  const dependencies: Record<string, string> = {};
-  
-  if (backend.includes('express')) {
-    dependencies.express = "^4.18.0";
-    dependencies.cors = "^2.8.5";
-  }
-  
-  if (backend.includes('fastify')) {
-    dependencies.fastify = "^4.0.0";
-  }
-
-  dependencies.dotenv = "^16.0.0";
-
-  if (features.includes('Database Integration')) {
-    dependencies.prisma = "^5.0.0";
-  }
-
-  return JSON.stringify({
-    name: `${name}-backend`,
-    version: "1.0.0",
-    scripts: {
-      dev: "nodemon src/app.ts",
-      build: "tsc",
-      start: "node dist/app.js"
-    },
-    dependencies,
-    devDependencies: {
-      "@types/express": "^4.17.0",
-      "@types/cors": "^2.8.0",
-      typescript: "^5.0.0",
-      nodemon: "^3.0.0"
-    }
-  }, null, 2);
-}
+import type { AppStack, DataModel, EntityDefinition, EntityField } from '../types/full-stack-builder';
+import {
+  databaseDialect,
+  foreignKeyName,
+  foreignKeyRelations,
+  manyToManyRelations,
+  relationIdsName,
+  toCamelCase,
+  toPascalCase,
+  type DatabaseDialect
+} from './data-model';
 
 export function generateFrontendHomePage(name: string, description: string): string {
   return `import Head from 'next/head';
@@ -143,232 +89,228 @@ export default function Layout({ children }: LayoutProps) {
 }`;
 }
 
-export function generateBackendApp(backend: string, features: string[]): string {
-  let imports = `import express from 'express';
-import cors from 'cors';
-import dotenv from 'dotenv';`;
-
-  if (features.includes('Database Integration')) {
-    imports += `\nimport { PrismaClient } from '@prisma/client';`;
+function tsFieldType(entity: EntityDefinition, field: EntityField, dialect: DatabaseDialect | null): string {
+  switch (field.type) {
+    case 'integer':
+    case 'float':
+      return 'number';
+    // Prisma serialises Decimal as a string; Mongo stores decimals as floats
+    case 'decimal': return dialect === 'mongodb' ? 'number' : 'string';
+    case 'boolean': return 'boolean';
+    case 'json': return 'unknown';
+    case 'enum': return `${entity.name}${toPascalCase(field.name)}`;
+    default: return 'string';
   }
+}
 
-  imports += `\nimport userRoutes from './routes/users';`;
+/**
+ * TypeScript types for every entity, shared by the frontend and backend.
+ * Records are typed as they arrive over JSON, so dates are ISO strings.
+ */
+export function generateSharedTypes(model: DataModel, database: string): string {
+  const dialect = databaseDialect(database);
 
-  return `${imports}
+  const blocks = model.entities.map(entity => {
+    const enums = entity.fields
+      .filter(field => field.type === 'enum')
+      .map(field => `export type ${tsFieldType(entity, field, dialect)} = ${(field.enumValues ?? []).map(value => `'${value}'`).join(' | ')};`);
 
-dotenv.config();
+    const record = ['  id: string;'];
+    const input: string[] = [];
 
-const app = express();
-const PORT = process.env.PORT || 3001;
+    for (const field of entity.fields) {
+      const type = tsFieldType(entity, field, dialect);
+      record.push(`  ${field.name}: ${type}${field.required ? '' : ' | null'};`);
 
-${features.includes('Database Integration') ? 'const prisma = new PrismaClient();' : ''}
+      const inputType = field.type === 'decimal' && dialect !== 'mongodb' ? 'string | number' : type;
+      const optional = !field.required || field.defaultValue !== undefined;
+      input.push(`  ${field.name}${optional ? '?' : ''}: ${inputType}${field.required ? '' : ' | null'};`);
+    }
 
-// Middleware
-app.use(cors({
-  origin: process.env.FRONTEND_URL || 'http://localhost:3000',
-  credentials: true
-}));
-app.use(express.json({ limit: '10mb' }));
-app.use(express.urlencoded({ extended: true }));
+    for (const relation of foreignKeyRelations(entity)) {
+      const key = foreignKeyName(relation);
+      record.push(`  ${key}: string${relation.required ? '' : ' | null'};`);
+      input.push(`  ${key}${relation.required ? '' : '?'}: string${relation.required ? '' : ' | null'};`);
+    }
 
-${features.includes('Rate Limiting') ? `
-// Rate limiting
-import rateLimit from 'express-rate-limit';
-const limiter = rateLimit({
-  windowMs: 15 * 60 * 1000, // 15 minutes
-  max: 100 // limit each IP to 100 requests per windowMs
-});
-app.use(limiter);
-` : ''}
+    for (const relation of manyToManyRelations(entity)) {
+      input.push(`  /** Replaces the related ${relation.target} records */\n  ${relationIdsName(relation)}?: string[];`);
+    }
 
-// Routes
-app.use('/api/users', userRoutes);
+    if (entity.timestamps) {
+      record.push('  createdAt: string;', '  updatedAt: string;');
+    }
 
-// Health check endpoint
-app.get('/health', (req, res) => {
-  res.json({ 
-    status: 'OK', 
-    timestamp: new Date().toISOString(),
-    environment: process.env.NODE_ENV || 'development'
+    return [
+      ...enums,
+      `export interface ${entity.name} {\n${record.join('\n')}\n}`,
+      `export interface ${entity.name}CreateInput {\n${input.join('\n')}\n}`,
+      `export type ${entity.name}UpdateInput = Partial<${entity.name}CreateInput>;`
+    ].join('\n\n');
   });
-});
 
-app.get('/', (req, res) => {
-  res.json({ 
-    message: 'API is running!',
-    version: '1.0.0',
-    features: ${JSON.stringify(features)}
-  });
-});
-
-// Error handling middleware
-app.use((err: Error, req: express.Request, res: express.Response, next: express.NextFunction) => {
-  console.error('Error:', err);
-  res.status(500).json({ 
-    error: 'Internal server error',
-    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
-  });
-});
-
-// 404 handler
-app.use('*', (req, res) => {
-  res.status(404).json({ error: 'Route not found' });
-});
-
-app.listen(PORT, () => {
-  console.log(\`🚀 Server running on port \${PORT}\`);
-  console.log(\`📱 Environment: \${process.env.NODE_ENV || 'development'}\`);
-  ${features.includes('Database Integration') ? "console.log('🗄️  Database connected');" : ''}
-});
-
-${features.includes('Database Integration') ? `
-// Graceful shutdown
-process.on('SIGINT', async () => {
-  console.log('\\n🔄 Shutting down gracefully...');
-  await prisma.$disconnect();
-  process.exit(0);
-});
-` : ''}
-
-export default app;`;
+  return `// Entity types generated by FlashFusion Full-Stack Builder from the app's data model
+
+${blocks.join('\n\n')}
+
+export interface ListResponse<T> {
+  success: true;
+  data: T[];
+  total: number;
+}
+`;
 }
 
-export function generateUserRoutes(backend: string): string {
-  return `import { Router, Request, Response } from 'express';
-${backend.includes('Database Integration') ? "import { PrismaClient } from '@prisma/client';" : ''}
+interface ValidationRule {
+  type: EntityField['type'] | 'id' | 'ids';
+  /** Must be present on create */
+  required: boolean;
+  nullable: boolean;
+  maxLength?: number;
+  values?: string[];
+}
 
-const router = Router();
-${backend.includes('Database Integration') ? 'const prisma = new PrismaClient();' : ''}
+function validationRules(entity: EntityDefinition): Record<string, ValidationRule> {
+  const rules: Record<string, ValidationRule> = {};
 
-// GET /api/users
-router.get('/', async (req: Request, res: Response) => {
-  try {
-    ${backend.includes('Database Integration') ? `
-    const users = await prisma.user.findMany({
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        createdAt: true
-      },
-      orderBy: { createdAt: 'desc' }
-    });
-    ` : `
-    // Mock data - replace with actual database query
-    const users = [
-      { id: 1, name: 'John Doe', email: 'john@example.com' },
-      { id: 2, name: 'Jane Smith', email: 'jane@example.com' }
-    ];
-    `}
-    
-    res.json({
-      success: true,
-      data: users,
-      total: users.length
-    });
-  } catch (error) {
-    console.error('Error fetching users:', error);
-    res.status(500).json({ 
-      success: false, 
-      error: 'Failed to fetch users' 
-    });
+  for (const field of entity.fields) {
+    rules[field.name] = {
+      type: field.type,
+      required: field.required && field.defaultValue === undefined,
+      nullable: !field.required,
+      ...(field.type === 'string' || field.type === 'email' ? { maxLength: field.maxLength ?? 255 } : {}),
+      ...(field.type === 'enum' ? { values: field.enumValues ?? [] } : {})
+    };
+  }
+  for (const relation of foreignKeyRelations(entity)) {
+    rules[foreignKeyName(relation)] = { type: 'id', required: !!relation.required, nullable: !relation.required };
+  }
+  for (const relation of manyToManyRelations(entity)) {
+    rules[relationIdsName(relation)] = { type: 'ids', required: false, nullable: false };
   }
-});
 
-// POST /api/users
-router.post('/', async (req: Request, res: Response) => {
-  try {
-    const { name, email } = req.body;
-    
-    // Validation
-    if (!name || !email) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Name and email are required' 
-      });
-    }
+  return rules;
+}
 
-    if (!/^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/.test(email)) {
-      return res.status(400).json({ 
-        success: false, 
-        error: 'Invalid email format' 
-      });
-    }
-    
-    ${backend.includes('Database Integration') ? `
-    const user = await prisma.user.create({
-      data: { name, email },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        createdAt: true
-      }
-    });
-    ` : `
-    // Mock user creation
-    const user = { 
-      id: Date.now(), 
-      name, 
-      email, 
-      createdAt: new Date() 
-    };
-    `}
-    
-    res.status(201).json({
-      success: true,
-      data: user,
-      message: 'User created successfully'
-    });
-  } catch (error) {
-    console.error('Error creating user:', error);
-    res.status(500).json({ 
-      success: false, 
-      error: 'Failed to create user' 
+/**
+ * Request validation for every entity's create and update inputs. Updates are
+ * partial; unknown fields are rejected in both.
+ */
+export function generateEntityValidation(model: DataModel): string {
+  const imports = model.entities.flatMap(entity => [`${entity.name}CreateInput`, `${entity.name}UpdateInput`]);
+
+  const validators = model.entities.map(entity => {
+    const rules = Object.entries(validationRules(entity)).map(([field, rule]) => {
+      const properties = Object.entries(rule).map(([key, value]) =>
+        `${key}: ${Array.isArray(value) ? `[${value.map(item => `'${item}'`).join(', ')}]` : typeof value === 'string' ? `'${value}'` : value}`
+      );
+      return `  ${field}: { ${properties.join(', ')} }`;
     });
+    const name = toCamelCase(entity.name);
+    return `const ${name}Rules: Record<string, Rule> = {\n${rules.join(',\n')}\n};
+
+export const validate${entity.name}Create = (input: unknown) => validate<${entity.name}CreateInput>(${name}Rules, input, false);
+export const validate${entity.name}Update = (input: unknown) => validate<${entity.name}UpdateInput>(${name}Rules, input, true);`;
+  });
+
+  return `import type {
+${imports.map(name => `  ${name}`).join(',\n')}
+} from '../types/entities';
+
+export interface ValidationResult<T> {
+  value?: T;
+  errors: string[];
+}
+
+interface Rule {
+  type: string;
+  /** Must be present on create */
+  required: boolean;
+  nullable: boolean;
+  maxLength?: number;
+  values?: string[];
+}
+
+const EMAIL = /^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$/;
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+const DATE = /^\\d{4}-\\d{2}-\\d{2}$/;
+const DECIMAL = /^-?\\d+(\\.\\d+)?$/;
+
+function checkValue(name: string, rule: Rule, value: unknown): string | null {
+  switch (rule.type) {
+    case 'string':
+    case 'email':
+    case 'text':
+      if (typeof value !== 'string') return \`\${name} must be a string\`;
+      if (rule.maxLength && value.length > rule.maxLength) return \`\${name} must be at most \${rule.maxLength} characters\`;
+      if (rule.type === 'email' && !EMAIL.test(value)) return \`\${name} must be an email address\`;
+      return null;
+    case 'uuid':
+      return typeof value === 'string' && UUID.test(value) ? null : \`\${name} must be a UUID\`;
+    case 'id':
+      return typeof value === 'string' && value.length > 0 ? null : \`\${name} must be an ID\`;
+    case 'ids':
+      return Array.isArray(value) && value.every(item => typeof item === 'string' && item.length > 0)
+        ? null
+        : \`\${name} must be a list of IDs\`;
+    case 'integer':
+      return Number.isInteger(value) ? null : \`\${name} must be an integer\`;
+    case 'float':
+      return typeof value === 'number' && Number.isFinite(value) ? null : \`\${name} must be a number\`;
+    case 'decimal':
+      return (typeof value === 'number' && Number.isFinite(value)) || (typeof value === 'string' && DECIMAL.test(value))
+        ? null
+        : \`\${name} must be a decimal number\`;
+    case 'boolean':
+      return typeof value === 'boolean' ? null : \`\${name} must be true or false\`;
+    case 'date':
+      return typeof value === 'string' && DATE.test(value) && !Number.isNaN(Date.parse(value))
+        ? null
+        : \`\${name} must be a date (YYYY-MM-DD)\`;
+    case 'datetime':
+      return typeof value === 'string' && !Number.isNaN(Date.parse(value)) ? null : \`\${name} must be an ISO 8601 date-time\`;
+    case 'enum':
+      return rule.values?.includes(value as string) ? null : \`\${name} must be one of \${rule.values?.join(', ')}\`;
+    default:
+      return null;
   }
-});
+}
 
-// GET /api/users/:id
-router.get('/:id', async (req: Request, res: Response) => {
-  try {
-    const { id } = req.params;
-    
-    ${backend.includes('Database Integration') ? `
-    const user = await prisma.user.findUnique({
-      where: { id: parseInt(id) },
-      select: {
-        id: true,
-        name: true,
-        email: true,
-        createdAt: true
-      }
-    });
-    ` : `
-    const user = null; // Mock - replace with actual database query
-    `}
-    
-    if (!user) {
-      return res.status(404).json({
-        success: false,
-        error: 'User not found'
-      });
+function validate<T>(rules: Record<string, Rule>, input: unknown, partial: boolean): ValidationResult<T> {
+  if (typeof input !== 'object' || input === null || Array.isArray(input)) {
+    return { errors: ['Request body must be a JSON object'] };
+  }
+
+  const source = input as Record<string, unknown>;
+  const errors: string[] = [];
+  const value: Record<string, unknown> = {};
+
+  for (const [name, rule] of Object.entries(rules)) {
+    const candidate = source[name];
+    if (candidate === undefined) {
+      if (rule.required && !partial) errors.push(\`\${name} is required\`);
+      continue;
     }
-    
-    res.json({
-      success: true,
-      data: user
-    });
-  } catch (error) {
-    console.error('Error fetching user:', error);
-    res.status(500).json({ 
-      success: false, 
-      error: 'Failed to fetch user' 
-    });
+    if (candidate === null) {
+      if (rule.nullable) value[name] = null;
+      else errors.push(\`\${name} cannot be null\`);
+      continue;
+    }
+
+    const error = checkValue(name, rule, candidate);
+    if (error) errors.push(error);
+    else value[name] = candidate;
+  }
+
+  for (const name of Object.keys(source)) {
+    if (!(name in rules)) errors.push(\`\${name} is not a writable field\`);
   }
-});
 
-export default router;`;
+  return errors.length > 0 ? { errors } : { value: value as T, errors };
+}
+
+${validators.join('\n\n')}
+`;
 }
 
 export function generateAuthConfig(auth: string): string {
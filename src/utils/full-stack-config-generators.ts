@@ -1,193 +1,500 @@
-import type { AppStack } from '../types/full-stack-builder';
+import type { AppStack, DataModel, EntityDefinition, EntityField } from '../types/full-stack-builder';
+import {
+  columnName,
+  createDefaultDataModel,
+  databaseDialect,
+  entityLabel,
+  findEntity,
+  foreignKeyName,
+  foreignKeyRelations,
+  indexFields,
+  inverseRelationName,
+  joinTable,
+  manyToManyRelations,
+  onDeleteAction,
+  resourceName,
+  tableName,
+  toCamelCase,
+  toPascalCase,
+  type DatabaseDialect
+} from './data-model';
+
+type SqlDialect = Exclude<DatabaseDialect, 'mongodb'>;
+
+// Words that cannot be bare identifiers in at least one of the SQL dialects
+const RESERVED_WORDS = new Set([
+  'all', 'and', 'check', 'column', 'constraint', 'default', 'desc', 'end', 'from', 'group', 'index', 'key',
+  'limit', 'offset', 'order', 'position', 'primary', 'range', 'references', 'select', 'table', 'to', 'user', 'where'
+]);
+
+function sqlIdentifier(name: string, dialect: SqlDialect): string {
+  if (!RESERVED_WORDS.has(name)) return name;
+  return dialect === 'mysql' ? `\`${name}\`` : `"${name}"`;
+}
 
-export function generateDatabaseSchema(database: string, features: string[]): string {
-  if (database === 'postgresql') {
-    return `-- PostgreSQL Database Schema
--- Generated by FlashFusion Full-Stack Builder
+function sqlLiteral(field: EntityField, dialect: SqlDialect): string {
+  const value = field.defaultValue!;
+  if (value === 'now') {
+    if (field.type === 'datetime') return dialect === 'mysql' ? 'CURRENT_TIMESTAMP(3)' : 'CURRENT_TIMESTAMP';
+    return dialect === 'mysql' ? '(CURRENT_DATE)' : 'CURRENT_DATE';
+  }
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  if (typeof value === 'number') return String(value);
 
--- Enable UUID extension
-CREATE EXTENSION IF NOT EXISTS "uuid-ossp";
-
--- Users table
-CREATE TABLE users (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  name VARCHAR(255) NOT NULL,
-  email VARCHAR(255) UNIQUE NOT NULL,
-  password_hash VARCHAR(255),
-  email_verified BOOLEAN DEFAULT FALSE,
-  avatar_url TEXT,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-  updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-);
-
-${features.includes('User Authentication & Authorization') ? `
--- Sessions table for authentication
-CREATE TABLE sessions (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  token VARCHAR(255) UNIQUE NOT NULL,
-  expires_at TIMESTAMP WITH TIME ZONE NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-);
-
--- Roles and permissions
-CREATE TABLE roles (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  name VARCHAR(100) UNIQUE NOT NULL,
-  description TEXT,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-);
-
-CREATE TABLE user_roles (
-  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  role_id UUID REFERENCES roles(id) ON DELETE CASCADE,
-  PRIMARY KEY (user_id, role_id)
-);
-` : ''}
+  const quoted = `'${value.replace(/'/g, "''")}'`;
+  // MySQL only accepts JSON defaults as expressions
+  return field.type === 'json' && dialect === 'mysql' ? `(${quoted})` : quoted;
+}
 
-${features.includes('File Upload & Storage') ? `
--- File uploads table
-CREATE TABLE uploads (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  filename VARCHAR(255) NOT NULL,
-  original_name VARCHAR(255) NOT NULL,
-  mime_type VARCHAR(100) NOT NULL,
-  size_bytes INTEGER NOT NULL,
-  storage_path TEXT NOT NULL,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-);
-` : ''}
+function enumTypeName(entity: EntityDefinition, field: EntityField): string {
+  return `${tableName(entity)}_${columnName(field.name)}`;
+}
 
-${features.includes('Analytics & Reporting') ? `
--- Analytics events table
-CREATE TABLE analytics_events (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
-  event_name VARCHAR(100) NOT NULL,
-  event_data JSONB,
-  session_id VARCHAR(255),
-  ip_address INET,
-  user_agent TEXT,
-  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP
-);
-` : ''}
+function sqlColumnType(entity: EntityDefinition, field: EntityField, dialect: SqlDialect): string {
+  const mysql = dialect === 'mysql';
+  switch (field.type) {
+    case 'string':
+    case 'email':
+      return `VARCHAR(${field.maxLength ?? 255})`;
+    case 'text': return 'TEXT';
+    case 'integer': return mysql ? 'INT' : 'INTEGER';
+    case 'float': return mysql ? 'DOUBLE' : 'DOUBLE PRECISION';
+    case 'decimal': return mysql ? 'DECIMAL(12, 2)' : 'NUMERIC(12, 2)';
+    case 'boolean': return 'BOOLEAN';
+    case 'date': return 'DATE';
+    case 'datetime': return mysql ? 'DATETIME(3)' : 'TIMESTAMP WITH TIME ZONE';
+    case 'json': return mysql ? 'JSON' : 'JSONB';
+    case 'uuid': return mysql ? 'CHAR(36)' : 'UUID';
+    case 'enum':
+      return mysql
+        ? `ENUM(${(field.enumValues ?? []).map(value => `'${value}'`).join(', ')})`
+        : enumTypeName(entity, field);
+  }
+}
 
--- Create indexes for better performance
-CREATE INDEX idx_users_email ON users(email);
-CREATE INDEX idx_users_created_at ON users(created_at);
+const ON_DELETE_SQL = { cascade: 'CASCADE', 'set-null': 'SET NULL', restrict: 'RESTRICT' } as const;
+
+/**
+ * Tables, enum types, foreign keys and indexes for every entity. Foreign keys
+ * are added after all tables exist, so entities can reference each other in
+ * any order.
+ */
+function generateRelationalDDL(model: DataModel, dialect: SqlDialect): string {
+  const mysql = dialect === 'mysql';
+  const id = (name: string) => sqlIdentifier(name, dialect);
+  const idType = mysql ? 'CHAR(36)' : 'UUID';
+  const timestampType = mysql ? 'DATETIME(3)' : 'TIMESTAMP WITH TIME ZONE';
+  const now = mysql ? 'CURRENT_TIMESTAMP(3)' : 'CURRENT_TIMESTAMP';
+
+  const sections: string[] = [];
+  const foreignKeys: string[] = [];
+  const indexes: string[] = [];
+
+  if (!mysql) {
+    const enums = model.entities.flatMap(entity => entity.fields
+      .filter(field => field.type === 'enum')
+      .map(field => `CREATE TYPE ${enumTypeName(entity, field)} AS ENUM (${(field.enumValues ?? []).map(value => `'${value}'`).join(', ')});`));
+    if (enums.length > 0) {
+      sections.push(`-- Enum types\n${enums.join('\n')}`);
+    }
+  }
 
-${features.includes('User Authentication & Authorization') ? `
-CREATE INDEX idx_sessions_token ON sessions(token);
-CREATE INDEX idx_sessions_user_id ON sessions(user_id);
-CREATE INDEX idx_sessions_expires_at ON sessions(expires_at);
-` : ''}
+  const addForeignKey = (table: string, column: string, target: string, onDelete: string) => {
+    foreignKeys.push(`ALTER TABLE ${id(table)} ADD CONSTRAINT fk_${table}_${column} FOREIGN KEY (${id(column)}) REFERENCES ${id(target)}(id) ON DELETE ${onDelete};`);
+  };
 
-${features.includes('Analytics & Reporting') ? `
-CREATE INDEX idx_analytics_events_user_id ON analytics_events(user_id);
-CREATE INDEX idx_analytics_events_name ON analytics_events(event_name);
-CREATE INDEX idx_analytics_events_created_at ON analytics_events(created_at);
-` : ''}
+  for (const entity of model.entities) {
+    const table = tableName(entity);
+    const columns = [`  id ${idType} PRIMARY KEY${mysql ? ' DEFAULT (UUID())' : ' DEFAULT gen_random_uuid()'}`];
+
+    for (const field of entity.fields) {
+      let column = `  ${id(columnName(field.name))} ${sqlColumnType(entity, field, dialect)}`;
+      if (field.required) column += ' NOT NULL';
+      if (field.unique) column += ' UNIQUE';
+      if (field.defaultValue !== undefined) column += ` DEFAULT ${sqlLiteral(field, dialect)}`;
+      columns.push(column);
+    }
+
+    for (const relation of foreignKeyRelations(entity)) {
+      const column = columnName(foreignKeyName(relation));
+      const target = findEntity(model, relation.target);
+      columns.push(`  ${id(column)} ${idType}${relation.required ? ' NOT NULL' : ''}${relation.kind === 'one-to-one' ? ' UNIQUE' : ''}`);
+      if (target) {
+        addForeignKey(table, column, tableName(target), ON_DELETE_SQL[onDeleteAction(relation)]);
+      }
+    }
+
+    if (entity.timestamps) {
+      columns.push(
+        `  created_at ${timestampType} NOT NULL DEFAULT ${now}`,
+        `  updated_at ${timestampType} NOT NULL DEFAULT ${now}${mysql ? ` ON UPDATE ${now}` : ''}`
+      );
+    }
+
+    sections.push(`-- ${entity.name}\nCREATE TABLE ${id(table)} (\n${columns.join(',\n')}\n);`);
+
+    for (const index of entity.indexes) {
+      const indexColumns = indexFields(entity, index).map(columnName);
+      const name = `${index.unique ? 'uq' : 'idx'}_${table}_${indexColumns.join('_')}`;
+      indexes.push(`CREATE ${index.unique ? 'UNIQUE ' : ''}INDEX ${name} ON ${id(table)}(${indexColumns.map(id).join(', ')});`);
+    }
+
+    for (const relation of manyToManyRelations(entity)) {
+      const join = joinTable(entity, relation);
+      const owner = columnName(join.ownerKey);
+      const related = columnName(join.targetKey);
+      const target = findEntity(model, relation.target);
+
+      sections.push(`-- ${entity.name}.${relation.name} (many-to-many)
+CREATE TABLE ${id(join.table)} (
+  ${owner} ${idType} NOT NULL,
+  ${related} ${idType} NOT NULL,
+  PRIMARY KEY (${owner}, ${related})
+);`);
+      addForeignKey(join.table, owner, table, 'CASCADE');
+      if (target) {
+        addForeignKey(join.table, related, tableName(target), 'CASCADE');
+      }
+      indexes.push(`CREATE INDEX idx_${join.table}_${related} ON ${id(join.table)}(${related});`);
+    }
+  }
+
+  if (foreignKeys.length > 0) sections.push(`-- Foreign keys\n${foreignKeys.join('\n')}`);
+  if (indexes.length > 0) sections.push(`-- Indexes\n${indexes.join('\n')}`);
 
--- Insert default roles
-${features.includes('User Authentication & Authorization') ? `
-INSERT INTO roles (name, description) VALUES 
-  ('admin', 'Administrator with full access'),
-  ('user', 'Standard user with limited access'),
-  ('moderator', 'Moderator with content management access');
-` : ''}`;
+  const timestamped = model.entities.filter(entity => entity.timestamps);
+  if (!mysql && timestamped.length > 0) {
+    sections.push(`-- Keep updated_at current
+CREATE OR REPLACE FUNCTION update_updated_at_column()
+RETURNS TRIGGER AS $$
+BEGIN
+    NEW.updated_at = NOW();
+    RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+${timestamped.map(entity => `CREATE TRIGGER update_${tableName(entity)}_updated_at
+  BEFORE UPDATE ON ${id(tableName(entity))}
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();`).join('\n\n')}`);
   }
-  
-  if (database === 'mongodb') {
-    return `// MongoDB Database Schema
-// Generated by FlashFusion Full-Stack Builder
 
-// Users collection
-db.users.createIndex({ "email": 1 }, { unique: true });
-db.users.createIndex({ "createdAt": 1 });
-
-// Example user document structure:
-{
-  "_id": ObjectId,
-  "name": String,
-  "email": String,
-  "passwordHash": String,
-  "emailVerified": Boolean,
-  "avatarUrl": String,
-  "roles": [String],
-  "metadata": Object,
-  "createdAt": Date,
-  "updatedAt": Date
+  return sections.join('\n\n');
 }
 
-${features.includes('User Authentication & Authorization') ? `
-// Sessions collection
-db.sessions.createIndex({ "token": 1 }, { unique: true });
-db.sessions.createIndex({ "userId": 1 });
-db.sessions.createIndex({ "expiresAt": 1 }, { expireAfterSeconds: 0 });
-` : ''}
+const BSON_TYPES: Record<EntityField['type'], string | null> = {
+  string: 'string', text: 'string', email: 'string', uuid: 'string',
+  integer: 'int', float: 'double', decimal: 'double', boolean: 'bool',
+  date: 'date', datetime: 'date', json: null, enum: null
+};
+
+/** Collections with $jsonSchema validators and indexes for every entity */
+function generateMongoScript(model: DataModel): string {
+  const sections = model.entities.map(entity => {
+    const collection = tableName(entity);
+    const required: string[] = [];
+    const properties: string[] = [];
+    const indexes: string[] = [];
+
+    for (const field of entity.fields) {
+      if (field.required) required.push(field.name);
+      const bsonType = BSON_TYPES[field.type];
+      const types = bsonType && !field.required ? `['${bsonType}', 'null']` : `'${bsonType}'`;
+      if (field.type === 'enum') {
+        const values = [...(field.enumValues ?? []).map(value => `'${value}'`), ...(field.required ? [] : ['null'])];
+        properties.push(`        ${field.name}: { enum: [${values.join(', ')}] }`);
+      } else if (bsonType) {
+        const maxLength = field.type === 'string' || field.type === 'email' ? `, maxLength: ${field.maxLength ?? 255}` : '';
+        properties.push(`        ${field.name}: { bsonType: ${types}${maxLength} }`);
+      }
+      if (field.unique) {
+        indexes.push(`db.${collection}.createIndex({ ${field.name}: 1 }, { unique: true });`);
+      }
+    }
+
+    for (const relation of foreignKeyRelations(entity)) {
+      const key = foreignKeyName(relation);
+      if (relation.required) required.push(key);
+      properties.push(`        ${key}: { bsonType: ${relation.required ? "'objectId'" : "['objectId', 'null']"} }`);
+      if (relation.kind === 'one-to-one') {
+        indexes.push(`db.${collection}.createIndex({ ${key}: 1 }, { unique: true, sparse: true });`);
+      }
+    }
+
+    if (entity.timestamps) {
+      required.push('createdAt', 'updatedAt');
+      properties.push("        createdAt: { bsonType: 'date' }", "        updatedAt: { bsonType: 'date' }");
+    }
+
+    for (const index of entity.indexes) {
+      const keys = indexFields(entity, index).map(name => `${name}: 1`).join(', ');
+      indexes.push(`db.${collection}.createIndex({ ${keys} }${index.unique ? ', { unique: true }' : ''});`);
+    }
+
+    const joins = manyToManyRelations(entity).map(relation => {
+      const join = joinTable(entity, relation);
+      return `// ${entity.name}.${relation.name} (many-to-many)
+db.createCollection('${join.table}');
+db.${join.table}.createIndex({ ${join.ownerKey}: 1, ${join.targetKey}: 1 }, { unique: true });
+db.${join.table}.createIndex({ ${join.targetKey}: 1 });`;
+    });
+
+    return [`// ${entity.name}
+db.createCollection('${collection}', {
+  validator: {
+    $jsonSchema: {
+      bsonType: 'object',
+      required: [${required.map(name => `'${name}'`).join(', ')}],
+      properties: {
+${properties.join(',\n')}
+      }
+    }
+  }
+});${indexes.length > 0 ? `\n${indexes.join('\n')}` : ''}`, ...joins].join('\n\n');
+  });
+
+  return sections.join('\n\n');
+}
+
+/**
+ * Schema for the app's data model. `features` pick the default model when no
+ * model is given.
+ */
+export function generateDatabaseSchema(
+  database: string,
+  features: string[],
+  model: DataModel = createDefaultDataModel(features)
+): string {
+  const dialect = databaseDialect(database);
+
+  if (dialect === 'postgresql') {
+    return `-- PostgreSQL Database Schema
+-- Generated by FlashFusion Full-Stack Builder
+
+-- gen_random_uuid() on PostgreSQL < 13
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
 
-${features.includes('Analytics & Reporting') ? `
-// Analytics events collection
-db.analyticsEvents.createIndex({ "userId": 1 });
-db.analyticsEvents.createIndex({ "eventName": 1 });
-db.analyticsEvents.createIndex({ "createdAt": 1 });
-` : ''}`;
+${generateRelationalDDL(model, dialect)}
+`;
   }
-  
+
+  if (dialect === 'mysql') {
+    return `-- MySQL Database Schema
+-- Generated by FlashFusion Full-Stack Builder
+
+${generateRelationalDDL(model, dialect)}
+`;
+  }
+
+  if (dialect === 'mongodb') {
+    return `// MongoDB Database Schema
+// Generated by FlashFusion Full-Stack Builder
+
+${generateMongoScript(model)}
+`;
+  }
+
   return `-- Database schema for ${database}
 -- Configure your database schema here`;
 }
 
-export function generateInitialMigration(features: string[]): string {
-  return `-- Initial Migration
+/** First migration: the whole schema, in a transaction where DDL allows one */
+export function generateInitialMigration(
+  features: string[],
+  model: DataModel = createDefaultDataModel(features),
+  database = 'postgresql'
+): string {
+  const dialect = databaseDialect(database);
+
+  if (dialect === 'postgresql') {
+    return `-- Initial Migration
 -- Run this script to set up the database
 
 BEGIN;
 
--- Core users table
-CREATE TABLE IF NOT EXISTS users (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  email VARCHAR(255) UNIQUE NOT NULL,
-  name VARCHAR(255) NOT NULL,
-  password_hash VARCHAR(255),
-  email_verified BOOLEAN DEFAULT FALSE,
-  created_at TIMESTAMP DEFAULT NOW(),
-  updated_at TIMESTAMP DEFAULT NOW()
-);
-
--- Update trigger for updated_at
-CREATE OR REPLACE FUNCTION update_updated_at_column()
-RETURNS TRIGGER AS $$
-BEGIN
-    NEW.updated_at = NOW();
-    RETURN NEW;
-END;
-$$ language 'plpgsql';
-
-CREATE TRIGGER update_users_updated_at 
-  BEFORE UPDATE ON users 
-  FOR EACH ROW 
-  EXECUTE FUNCTION update_updated_at_column();
-
-${features.includes('User Authentication & Authorization') ? `
--- Authentication tables
-CREATE TABLE IF NOT EXISTS sessions (
-  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
-  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
-  token VARCHAR(255) UNIQUE NOT NULL,
-  expires_at TIMESTAMP NOT NULL,
-  created_at TIMESTAMP DEFAULT NOW()
-);
-` : ''}
+CREATE EXTENSION IF NOT EXISTS "pgcrypto";
+
+${generateRelationalDDL(model, dialect)}
 
 COMMIT;
+`;
+  }
+
+  if (dialect === 'mysql') {
+    return `-- Initial Migration
+-- Run this script to set up the database (MySQL commits each DDL statement)
+
+${generateRelationalDDL(model, dialect)}
+`;
+  }
+
+  if (dialect === 'mongodb') {
+    return `// Initial Migration
+// Run with: mongosh "$DATABASE_URL" database/migrations/001_initial.js
+
+${generateMongoScript(model)}
+`;
+  }
+
+  return `-- ${database} has no schema to migrate`;
+}
+
+const PRISMA_TYPES: Record<EntityField['type'], string> = {
+  string: 'String', text: 'String', email: 'String', uuid: 'String',
+  integer: 'Int', float: 'Float', decimal: 'Decimal', boolean: 'Boolean',
+  date: 'DateTime', datetime: 'DateTime', json: 'Json', enum: ''
+};
+
+const ON_DELETE_PRISMA = { cascade: 'Cascade', 'set-null': 'SetNull', restrict: 'Restrict' } as const;
+
+function prismaEnumName(entity: EntityDefinition, field: EntityField): string {
+  return `${entity.name}${toPascalCase(field.name)}`;
+}
+
+function prismaNativeType(field: EntityField, dialect: DatabaseDialect): string | null {
+  if (dialect === 'mongodb') return null;
+  switch (field.type) {
+    case 'string':
+    case 'email':
+      return `@db.VarChar(${field.maxLength ?? 255})`;
+    case 'text': return '@db.Text';
+    case 'decimal': return '@db.Decimal(12, 2)';
+    case 'date': return '@db.Date';
+    case 'datetime': return dialect === 'mysql' ? '@db.DateTime(3)' : '@db.Timestamptz(6)';
+    case 'uuid': return dialect === 'mysql' ? '@db.Char(36)' : '@db.Uuid';
+    default: return null;
+  }
+}
+
+function prismaDefault(field: EntityField): string | null {
+  const value = field.defaultValue;
+  if (value === undefined) return null;
+  if (value === 'now') return '@default(now())';
+  if (field.type === 'enum' || typeof value !== 'string') return `@default(${value})`;
+  return `@default(${JSON.stringify(value)})`;
+}
+
+/**
+ * Prisma schema for the data model, mapped onto the tables and columns of
+ * database/schema.sql. Many-to-many relations use an explicit join model so
+ * Prisma and the SQL agree on the join table.
+ */
+export function generatePrismaSchema(database: string, model: DataModel): string {
+  const dialect = databaseDialect(database);
+  if (!dialect) {
+    return `// ${database} is not supported by Prisma`;
+  }
+
+  const mongo = dialect === 'mongodb';
+  // Column names are snake_case in SQL; Mongo documents keep the field names
+  const map = (name: string) => (mongo || columnName(name) === name ? '' : ` @map("${columnName(name)}")`);
+  const idAttributes = mongo ? '@default(auto()) @map("_id") @db.ObjectId' : `@default(uuid()) ${dialect === 'mysql' ? '@db.Char(36)' : '@db.Uuid'}`;
+  const keyType = mongo ? ' @db.ObjectId' : dialect === 'mysql' ? ' @db.Char(36)' : ' @db.Uuid';
+  const timestampType = mongo ? '' : dialect === 'mysql' ? ' @db.DateTime(3)' : ' @db.Timestamptz(6)';
+
+  // Inverse sides of relations, keyed by the entity they are added to
+  const inverse = new Map<string, string[]>();
+  const addInverse = (entityName: string, line: string) => {
+    inverse.set(entityName, [...(inverse.get(entityName) ?? []), line]);
+  };
+
+  for (const entity of model.entities) {
+    for (const relation of foreignKeyRelations(entity)) {
+      const name = inverseRelationName(model, entity, relation);
+      const type = relation.kind === 'one-to-one' ? `${entity.name}?` : `${entity.name}[]`;
+      addInverse(relation.target, `  ${name} ${type} @relation("${entity.name}_${relation.name}")`);
+    }
+    for (const relation of manyToManyRelations(entity)) {
+      const join = joinTable(entity, relation);
+      const targetField = join.targetKey.replace(/Id$/, '');
+      addInverse(relation.target, `  ${toCamelCase(join.model)} ${join.model}[] @relation("${join.model}_${targetField}")`);
+    }
+  }
+
+  const models: string[] = [];
+  const joinModels: string[] = [];
+  const enums: string[] = [];
+
+  for (const entity of model.entities) {
+    const lines = [`  id String @id ${idAttributes}`];
+    const attributes: string[] = [];
+
+    for (const field of entity.fields) {
+      let type = PRISMA_TYPES[field.type];
+      if (field.type === 'enum') {
+        type = prismaEnumName(entity, field);
+        enums.push(`enum ${type} {
+${(field.enumValues ?? []).map(value => `  ${value}`).join('\n')}${dialect === 'postgresql' ? `\n\n  @@map("${enumTypeName(entity, field)}")` : ''}
+}`);
+      }
+      if (field.type === 'decimal' && mongo) type = 'Float';
+
+      const parts = [`  ${field.name} ${type}${field.required ? '' : '?'}`];
+      if (field.unique) parts.push('@unique');
+      const defaultValue = prismaDefault(field);
+      if (defaultValue) parts.push(defaultValue);
+      lines.push(parts.join(' ') + map(field.name) + (prismaNativeType(field, dialect) ? ` ${prismaNativeType(field, dialect)}` : ''));
+    }
+
+    for (const relation of foreignKeyRelations(entity)) {
+      const key = foreignKeyName(relation);
+      const optional = relation.required ? '' : '?';
+      lines.push(
+        `  ${key} String${optional}${relation.kind === 'one-to-one' ? ' @unique' : ''}${map(key)}${keyType}`,
+        `  ${relation.name} ${relation.target}${optional} @relation("${entity.name}_${relation.name}", fields: [${key}], references: [id], onDelete: ${ON_DELETE_PRISMA[onDeleteAction(relation)]})`
+      );
+    }
+
+    for (const relation of manyToManyRelations(entity)) {
+      const join = joinTable(entity, relation);
+      const ownerField = join.ownerKey.replace(/Id$/, '');
+      const targetField = join.targetKey.replace(/Id$/, '');
+
+      lines.push(`  ${relation.name} ${join.model}[] @relation("${join.model}_${ownerField}")`);
+
+      joinModels.push(`model ${join.model} {
+${mongo ? `  id String @id ${idAttributes}\n` : ''}  ${join.ownerKey} String${map(join.ownerKey)}${keyType}
+  ${ownerField} ${entity.name} @relation("${join.model}_${ownerField}", fields: [${join.ownerKey}], references: [id], onDelete: Cascade)
+  ${join.targetKey} String${map(join.targetKey)}${keyType}
+  ${targetField} ${relation.target} @relation("${join.model}_${targetField}", fields: [${join.targetKey}], references: [id], onDelete: Cascade)
+
+  ${mongo ? '@@unique' : '@@id'}([${join.ownerKey}, ${join.targetKey}])
+  @@index([${join.targetKey}])
+  @@map("${join.table}")
+}`);
+    }
+
+    lines.push(...(inverse.get(entity.name) ?? []));
+
+    if (entity.timestamps) {
+      lines.push(
+        `  createdAt DateTime @default(now())${map('createdAt')}${timestampType}`,
+        `  updatedAt DateTime @updatedAt${map('updatedAt')}${timestampType}`
+      );
+    }
+
+    for (const index of entity.indexes) {
+      attributes.push(`  @@${index.unique ? 'unique' : 'index'}([${indexFields(entity, index).join(', ')}])`);
+    }
+    attributes.push(`  @@map("${tableName(entity)}")`);
+
+    models.push(`model ${entity.name} {\n${lines.join('\n')}\n\n${attributes.join('\n')}\n}`);
+  }
+
+  return `// Prisma schema generated by FlashFusion Full-Stack Builder
+// Tables and columns match database/schema.sql
+
+generator client {
+  provider = "prisma-client-js"
+}
+
+datasource db {
+  provider = "${dialect}"
+  url      = env("DATABASE_URL")
+}
 
--- Seed data
-INSERT INTO users (email, name, email_verified) VALUES 
-  ('admin@example.com', 'Administrator', true),
-  ('user@example.com', 'Test User', true)
-ON CONFLICT (email) DO NOTHING;`;
+${[...models, ...joinModels, ...enums].join('\n\n')}
+`;
 }
 
 export function generateDockerCompose(stack: AppStack, features: string[]): string {
@@ -388,7 +695,23 @@ ENABLE_RATE_LIMITING=true
 ENABLE_ANALYTICS=true`;
 }
 
-export function generateProjectReadme(name: string, description: string, stack: AppStack, features: string[]): string {
+export function generateProjectReadme(
+  name: string,
+  description: string,
+  stack: AppStack,
+  features: string[],
+  model: DataModel = createDefaultDataModel(features)
+): string {
+  const entityDocs = model.entities.map(entity => {
+    const path = `/api/${resourceName(entity)}`;
+    return `### ${entity.name} Endpoints
+- \`GET ${path}\` - List ${entityLabel(entity)} records
+- \`POST ${path}\` - Create a ${entityLabel(entity)}
+- \`GET ${path}/:id\` - Get a ${entityLabel(entity)} by ID
+- \`PUT ${path}/:id\` - Update a ${entityLabel(entity)}
+- \`DELETE ${path}/:id\` - Delete a ${entityLabel(entity)}`;
+  }).join('\n\n');
+
   return `# ${name}
 
 ${description}
@@ -524,11 +847,7 @@ docker-compose exec backend   # Access backend container
 - \`POST /api/auth/logout\` - User logout
 - \`GET /api/auth/me\` - Get current user
 
-### User Endpoints
-- \`GET /api/users\` - Get all users (admin)
-- \`GET /api/users/:id\` - Get user by ID
-- \`PUT /api/users/:id\` - Update user
-- \`DELETE /api/users/:id\` - Delete user
+${entityDocs}
 
 ### Health Check
 - \`GET /api/health\` - Server health status
@@ -638,16 +957,26 @@ This project is licensed under the MIT License - see the [LICENSE](LICENSE) file
 Built with ❤️ using the latest web technologies and best practices.`;
 }
 
-export function generateAPIEndpoints(features: string[]): Array<{method: string, path: string, description: string}> {
+export function generateAPIEndpoints(
+  features: string[],
+  model: DataModel = createDefaultDataModel(features)
+): Array<{method: string, path: string, description: string}> {
   const endpoints = [
-    { method: 'GET', path: '/api/health', description: 'Health check endpoint' },
-    { method: 'GET', path: '/api/users', description: 'Get all users' },
-    { method: 'POST', path: '/api/users', description: 'Create new user' },
-    { method: 'GET', path: '/api/users/:id', description: 'Get user by ID' },
-    { method: 'PUT', path: '/api/users/:id', description: 'Update user' },
-    { method: 'DELETE', path: '/api/users/:id', description: 'Delete user' }
+    { method: 'GET', path: '/api/health', description: 'Health check endpoint' }
   ];
 
+  for (const entity of model.entities) {
+    const path = `/api/${resourceName(entity)}`;
+    const label = entityLabel(entity);
+    endpoints.push(
+      { method: 'GET', path, description: `List ${label} records` },
+      { method: 'POST', path, description: `Create ${label}` },
+      { method: 'GET', path: `${path}/:id`, description: `Get ${label} by ID` },
+      { method: 'PUT', path: `${path}/:id`, description: `Update ${label}` },
+      { method: 'DELETE', path: `${path}/:id`, description: `Delete ${label}` }
+    );
+  }
+
   if (features.includes('User Authentication & Authorization')) {
     endpoints.push(
       { method: 'POST', path: '/api/auth/login', description: 'User login' },
@@ -0,0 +1,96 @@
+import type { GeneratedFile, GenerationManifest } from '../types/full-stack-builder';
+
+/**
+ * Generation manifests record what the full-stack generator wrote, one
+ * content hash per file. Exports carry the manifest in
+ * `_flashfusion-metadata.json`; the generated contents themselves stay in
+ * this browser's snapshot store, where regeneration looks up the base
+ * version of a file for its three-way merge.
+ */
+
+const SNAPSHOT_KEY = 'ff-generation-snapshots';
+// Enough to come back to the last few projects without filling localStorage
+const MAX_SNAPSHOTS = 5;
+
+export async function hashContent(content: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(content));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export async function createGenerationManifest(
+  files: GeneratedFile[],
+  generatedAt: Date = new Date()
+): Promise<GenerationManifest> {
+  const hashes = await Promise.all(files.map(file => hashContent(file.content)));
+  return {
+    version: 1,
+    generatedAt: generatedAt.toISOString(),
+    files: Object.fromEntries(files.map((file, index) => [file.path, hashes[index]]))
+  };
+}
+
+/** A manifest read from an export, or undefined when the value isn't one */
+export function readGenerationManifest(value: unknown): GenerationManifest | undefined {
+  if (typeof value !== 'object' || value === null) return undefined;
+  const { version, generatedAt, files } = value as Record<string, unknown>;
+  if (version !== 1 || typeof generatedAt !== 'string' || typeof files !== 'object' || files === null) {
+    return undefined;
+  }
+
+  const hashes = Object.entries(files).filter((entry): entry is [string, string] => typeof entry[1] === 'string');
+  return { version, generatedAt, files: Object.fromEntries(hashes) };
+}
+
+interface GenerationSnapshot {
+  generatedAt: string;
+  files: Record<string, string>;
+}
+
+function readSnapshots(): GenerationSnapshot[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(SNAPSHOT_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Remember the generated contents behind a manifest. Oldest snapshots are
+ * dropped first, also when storage is full; merges without a base fall
+ * back to whole-file conflicts.
+ */
+export function saveGenerationSnapshot(manifest: GenerationManifest, files: GeneratedFile[]): void {
+  const snapshot: GenerationSnapshot = {
+    generatedAt: manifest.generatedAt,
+    files: Object.fromEntries(files.filter(file => file.path in manifest.files).map(file => [file.path, file.content]))
+  };
+  let snapshots = [snapshot, ...readSnapshots().filter(stored => stored.generatedAt !== manifest.generatedAt)]
+    .slice(0, MAX_SNAPSHOTS);
+
+  while (snapshots.length > 0) {
+    try {
+      localStorage.setItem(SNAPSHOT_KEY, JSON.stringify(snapshots));
+      return;
+    } catch {
+      snapshots = snapshots.slice(0, -1);
+    }
+  }
+}
+
+/**
+ * The generated contents of every manifest file this browser still has,
+ * checked against the manifest's hashes
+ */
+export async function loadGeneratedContents(manifest: GenerationManifest): Promise<Map<string, string>> {
+  const snapshot = readSnapshots().find(stored => stored.generatedAt === manifest.generatedAt);
+  const contents = new Map<string, string>();
+  if (!snapshot) return contents;
+
+  for (const [path, content] of Object.entries(snapshot.files)) {
+    if (typeof content === 'string' && manifest.files[path] === await hashContent(content)) {
+      contents.set(path, content);
+    }
+  }
+  return contents;
+}
@@ -1,6 +1,15 @@
 import JSZip from 'jszip';
 import saveAs from 'file-saver';
-import type { GeneratedApp } from '../types/full-stack-builder';
+import type { GeneratedApp, GenerationManifest } from '../types/full-stack-builder';
+import { createTarArchive, gzipBytes, isGzipSupported, type TarEntry } from './tar-archive';
+import {
+  ARCHIVE_METADATA_FILE,
+  PROJECT_EXPORT_VERSION,
+  archiveMetadata,
+  projectExportApp,
+  stringifyYAML,
+  type ProjectExport
+} from './project-export';
 
 /**
  * Multi-Format Download System for FlashFusion
@@ -44,6 +53,8 @@ export interface FileExport {
   mimeType?: string;
   size?: number;
   encoding?: 'utf8' | 'base64' | 'binary';
+  /** Unix permission bits for archive formats that keep them (e.g. 0o755) */
+  mode?: number;
 }
 
 export interface DownloadPackage {
@@ -55,6 +66,11 @@ export interface DownloadPackage {
     totalSize: number;
     appName: string;
     version: string;
+    /** App settings, so an archive can be imported back into the builder */
+    project: ProjectExport['app'];
+    /** Files the download added around the app's own, left out when importing */
+    packagingFiles: string[];
+    generation?: GenerationManifest;
   };
 }
 
@@ -195,7 +211,8 @@ async function prepareDownloadPackage(
       totalFiles: files.length,
       totalSize,
       appName: app.name,
-      version: '1.0.0'
+      version: '1.0.0',
+      ...archiveMetadata(app, files.map(file => file.name).filter(name => !app.files.some(file => file.path === name)))
     }
   };
 }
@@ -231,7 +248,7 @@ async function downloadAsZip(
   });
 
   // Add metadata file
-  zip.file('_flashfusion-metadata.json', JSON.stringify(packageData.metadata, null, 2));
+  zip.file(ARCHIVE_METADATA_FILE, JSON.stringify(packageData.metadata, null, 2));
 
   const content = await zip.generateAsync({
     type: 'blob',
@@ -246,29 +263,31 @@ async function downloadAsZip(
 }
 
 /**
- * Download as TAR archive (simulated using ZIP with different naming)
+ * Download as TAR archive. Compression 'none' produces a plain .tar; every
+ * other level gzips it (browsers offer one deflate level) into a .tar.gz.
  */
 async function downloadAsTar(
   packageData: DownloadPackage,
   options: DownloadOptions
 ): Promise<void> {
-  // Note: Browser environments don't natively support TAR creation
-  // We'll create a ZIP but name it as TAR for download consistency
-  const zip = new JSZip();
-
-  packageData.files.forEach(file => {
-    zip.file(file.name, file.content);
+  const entries: TarEntry[] = packageData.files.map(file => ({
+    path: file.name,
+    content: file.encoding === 'base64' ? base64ToBytes(file.content) : file.content,
+    mode: file.mode
+  }));
+  entries.push({
+    path: ARCHIVE_METADATA_FILE,
+    content: JSON.stringify(packageData.metadata, null, 2)
   });
 
-  zip.file('_flashfusion-metadata.json', JSON.stringify(packageData.metadata, null, 2));
-
-  const content = await zip.generateAsync({
-    type: 'blob',
-    compression: 'STORE' // No compression for TAR-like behavior
-  });
+  const tar = createTarArchive(entries, new Date(packageData.metadata.generatedAt));
+  const compress = options.compression !== 'none' && isGzipSupported();
+  const content = compress
+    ? new Blob([await gzipBytes(tar) as BlobPart], { type: 'application/gzip' })
+    : new Blob([tar as BlobPart], { type: 'application/x-tar' });
 
   const fileName = options.customName || 
-    `${packageData.metadata.appName.toLowerCase().replace(/\s+/g, '-')}-${packageData.metadata.format}.tar.gz`;
+    `${packageData.metadata.appName.toLowerCase().replace(/\s+/g, '-')}-${packageData.metadata.format}.${compress ? 'tar.gz' : 'tar'}`;
   
   saveAs(content, fileName);
 }
@@ -295,32 +314,43 @@ async function downloadAsIndividualFiles(packageData: DownloadPackage): Promise<
   const metadataBlob = new Blob([JSON.stringify(packageData.metadata, null, 2)], { 
     type: 'application/json' 
   });
-  saveAs(metadataBlob, '_flashfusion-metadata.json');
+  saveAs(metadataBlob, ARCHIVE_METADATA_FILE);
 }
 
 /**
- * Download as JSON configuration
+ * Shared structure of the JSON and YAML exports; see utils/project-export for the importer
  */
-async function downloadAsJSON(packageData: DownloadPackage, app: GeneratedApp): Promise<void> {
-  const jsonExport = {
-    metadata: packageData.metadata,
-    app: {
-      name: app.name,
-      description: app.description,
-      stack: app.stack,
-      features: app.features,
-      endpoints: app.endpoints
-    },
-    files: packageData.files.reduce((acc, file) => {
-      acc[file.name] = file.content;
-      return acc;
-    }, {} as Record<string, string>),
+function buildProjectExport(packageData: DownloadPackage, app: GeneratedApp): ProjectExport {
+  const files: Record<string, string> = {};
+  packageData.files.forEach(file => {
+    files[file.name] = file.content;
+  });
+  // Packaging extras share names like README.md with app files; the app's own content wins
+  app.files.forEach(file => {
+    files[file.path] = file.content;
+  });
+
+  // The app section already holds the project settings
+  const { project, packagingFiles, ...metadata } = packageData.metadata;
+
+  return {
+    exportVersion: PROJECT_EXPORT_VERSION,
+    metadata,
+    app: projectExportApp(app),
+    files,
     configuration: {
       package: generatePackageJSON(app),
       docker: generateDockerCompose(app),
       environment: generateEnvironmentConfig(app)
     }
   };
+}
+
+/**
+ * Download as JSON configuration
+ */
+async function downloadAsJSON(packageData: DownloadPackage, app: GeneratedApp): Promise<void> {
+  const jsonExport = buildProjectExport(packageData, app);
 
   const blob = new Blob([JSON.stringify(jsonExport, null, 2)], { type: 'application/json' });
   const fileName = `${app.name.toLowerCase().replace(/\s+/g, '-')}-export.json`;
@@ -331,18 +361,7 @@ async function downloadAsJSON(packageData: DownloadPackage, app: GeneratedApp):
  * Download as YAML configuration
  */
 async function downloadAsYAML(packageData: DownloadPackage, app: GeneratedApp): Promise<void> {
-  // Simple YAML conversion (for production, use a proper YAML library)
-  const yamlContent = convertToYAML({
-    metadata: packageData.metadata,
-    app: {
-      name: app.name,
-      description: app.description,
-      stack: app.stack,
-      features: app.features,
-      endpoints: app.endpoints
-    },
-    files: Object.fromEntries(packageData.files.map(f => [f.name, f.content]))
-  });
+  const yamlContent = stringifyYAML(buildProjectExport(packageData, app));
 
   const blob = new Blob([yamlContent], { type: 'application/x-yaml' });
   const fileName = `${app.name.toLowerCase().replace(/\s+/g, '-')}-export.yaml`;
@@ -570,6 +589,11 @@ function getMimeType(filename: string): string {
   return mimeTypes[ext || ''] || 'text/plain';
 }
 
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
 function getCompressionLevel(level?: CompressionLevel): number {
   switch (level) {
     case 'none': return 0;
@@ -593,26 +617,6 @@ function isConfigFile(filename: string): boolean {
          configExtensions.some(ext => filename.endsWith(ext));
 }
 
-function convertToYAML(obj: any, indent = 0): string {
-  const indentStr = '  '.repeat(indent);
-  let yaml = '';
-
-  for (const [key, value] of Object.entries(obj)) {
-    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
-      yaml += `${indentStr}${key}:\n${convertToYAML(value, indent + 1)}`;
-    } else if (Array.isArray(value)) {
-      yaml += `${indentStr}${key}:\n`;
-      value.forEach(item => {
-        yaml += `${indentStr}  - ${JSON.stringify(item)}\n`;
-      });
-    } else {
-      yaml += `${indentStr}${key}: ${JSON.stringify(value)}\n`;
-    }
-  }
-
-  return yaml;
-}
-
 // Generator functions (simplified versions - full implementations would be more comprehensive)
 
 function generateDocumentationFiles(app: GeneratedApp): FileExport[] {
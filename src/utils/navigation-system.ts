@@ -8,6 +8,8 @@
  * Comprehensive navigation system with robust URL detection and state management.
  */
 
+import { getRouteProtectionLevel } from './auth-protection';
+
 /**
  * Navigation Event Manager
  * Handles all navigation-related events and state changes
@@ -144,11 +146,9 @@ export class URLParameterDetector {
       return true;
     }
 
-    // Pathname checks
-    const appPaths = ['/app', '/dashboard', '/tools', '/projects'];
-    const matchesPath = appPaths.some(path => 
-      pathname === path || pathname.startsWith(path + '/')
-    );
+    // Pathname checks: /app, and any page that needs a session
+    const matchesPath = pathname === '/app' || pathname.startsWith('/app/') ||
+      getRouteProtectionLevel(pathname, search) !== 'public';
     if (matchesPath) {
       console.log('🔍 URL Detection: App path found:', pathname);
       return true;
@@ -0,0 +1,104 @@
+/**
+ * PDF exports use the standard 14 fonts, which every PDF reader has, rather
+ * than embedding web fonts. Each design font maps to the closest of them, and
+ * the Adobe metrics below are used to align and measure text.
+ */
+
+export type StandardFont =
+  | 'Helvetica'
+  | 'Helvetica-Bold'
+  | 'Times-Roman'
+  | 'Times-Bold'
+  | 'Courier'
+  | 'Courier-Bold';
+
+// Advance widths in 1/1000 em for characters 32-126
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584
+];
+
+const HELVETICA_BOLD = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584
+];
+
+const TIMES_ROMAN = [
+  250, 333, 408, 500, 500, 833, 778, 180, 333, 333, 500, 564, 250, 333, 250, 278,
+  500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 278, 278, 564, 564, 564, 444,
+  921, 722, 667, 667, 722, 611, 556, 722, 722, 333, 389, 722, 611, 889, 722, 722,
+  556, 722, 667, 556, 611, 722, 722, 944, 722, 722, 611, 333, 278, 333, 469, 500,
+  333, 444, 500, 444, 500, 444, 333, 500, 500, 278, 278, 500, 278, 778, 500, 500,
+  500, 500, 333, 389, 278, 500, 500, 722, 500, 500, 444, 480, 200, 480, 541
+];
+
+const TIMES_BOLD = [
+  250, 333, 555, 500, 500, 1000, 833, 278, 333, 333, 500, 570, 250, 333, 250, 278,
+  500, 500, 500, 500, 500, 500, 500, 500, 500, 500, 333, 333, 570, 570, 570, 500,
+  930, 722, 667, 722, 722, 667, 611, 778, 778, 389, 500, 778, 667, 944, 722, 778,
+  611, 778, 722, 556, 667, 722, 722, 1000, 722, 722, 667, 333, 278, 333, 581, 500,
+  333, 500, 556, 444, 556, 444, 333, 500, 556, 278, 333, 556, 278, 833, 556, 500,
+  556, 556, 444, 389, 333, 556, 500, 722, 500, 500, 444, 394, 220, 394, 520
+];
+
+const WIDTHS: Record<StandardFont, number[] | number> = {
+  'Helvetica': HELVETICA,
+  'Helvetica-Bold': HELVETICA_BOLD,
+  'Times-Roman': TIMES_ROMAN,
+  'Times-Bold': TIMES_BOLD,
+  'Courier': 600,
+  'Courier-Bold': 600
+};
+
+const SERIF_FAMILIES = ['serif', 'times', 'georgia', 'garamond', 'playfair', 'merriweather', 'lora', 'baskerville'];
+const MONOSPACE_FAMILIES = ['mono', 'courier', 'consolas', 'code'];
+
+export function isBold(fontWeight: unknown): boolean {
+  return fontWeight === 'bold' || fontWeight === 'bolder' || Number(fontWeight) >= 600;
+}
+
+/** The standard font a design font is printed with */
+export function standardFontFor(fontFamily: unknown, fontWeight: unknown): StandardFont {
+  const family = String(fontFamily ?? '').toLowerCase();
+  const bold = isBold(fontWeight);
+
+  if (MONOSPACE_FAMILIES.some(name => family.includes(name))) {
+    return bold ? 'Courier-Bold' : 'Courier';
+  }
+  if (SERIF_FAMILIES.some(name => family.includes(name)) && !family.includes('sans')) {
+    return bold ? 'Times-Bold' : 'Times-Roman';
+  }
+  return bold ? 'Helvetica-Bold' : 'Helvetica';
+}
+
+/** Whether printing with `font` changes how the design font looks */
+export function isSubstituted(fontFamily: unknown, font: StandardFont): boolean {
+  const family = String(fontFamily ?? '').split(',')[0].trim().replace(/['"]/g, '').toLowerCase();
+  const printed = font.split('-')[0].toLowerCase();
+  const generic = { helvetica: ['arial', 'sans-serif'], times: ['times new roman', 'serif'], courier: ['courier new', 'monospace'] };
+  return family !== printed && !generic[printed as keyof typeof generic].includes(family);
+}
+
+/** Width of `text` in `font` at `size`; characters outside ASCII count as a digit */
+export function measureText(text: string, font: StandardFont, size: number, letterSpacing = 0): number {
+  const widths = WIDTHS[font];
+  const chars = [...text];
+  let units = 0;
+  for (const char of chars) {
+    const code = char.charCodeAt(0);
+    if (typeof widths === 'number') {
+      units += widths;
+    } else {
+      units += code >= 32 && code <= 126 ? widths[code - 32] : widths['0'.charCodeAt(0) - 32];
+    }
+  }
+  return (units * size) / 1000 + letterSpacing * Math.max(chars.length - 1, 0);
+}
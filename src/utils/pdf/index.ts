@@ -0,0 +1,8 @@
+/**
+ * PDF Primitives
+ * Shared by the print and document exports, which lay out their own pages
+ * and write PDFs without a PDF library.
+ */
+
+export * from './fonts';
+export * from './objects';
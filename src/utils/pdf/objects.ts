@@ -0,0 +1,86 @@
+/**
+ * PDF file structure shared by the hand-written PDF exports: string
+ * encoding, streams, and serializing numbered objects with their xref table.
+ */
+
+/** An object's dictionary or value, or the byte chunks of a binary stream */
+export type PdfObjectBody = string | Uint8Array[];
+
+// Unicode punctuation that WinAnsiEncoding has in its 0x80-0x9F range
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99
+};
+
+/** Text as a PDF literal string in WinAnsiEncoding; unmappable characters become `?` */
+export function pdfString(text: string): string {
+  let encoded = '';
+  for (const char of text) {
+    const code = char.charCodeAt(0);
+    const byte = WIN_ANSI_EXTRAS[char] ?? (code >= 32 && code <= 255 && (code < 0x7f || code >= 0xa0) ? code : 0x3f);
+    const mapped = String.fromCharCode(byte);
+    encoded += mapped === '(' || mapped === ')' || mapped === '\\' ? `\\${mapped}` : mapped;
+  }
+  return `(${encoded})`;
+}
+
+// Every string written is built from char codes below 256, one byte each
+export function latin1(value: string): Uint8Array {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) {
+    bytes[i] = value.charCodeAt(i);
+  }
+  return bytes;
+}
+
+export function pdfDate(date: Date): string {
+  return `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+}
+
+/** An uncompressed content stream */
+export function pdfStream(content: string): string {
+  return `<< /Length ${content.length} >>\nstream\n${content}\nendstream`;
+}
+
+/**
+ * Serialize objects numbered from 1 in array order into a complete file,
+ * with the trailer pointing at the catalog and document info objects.
+ */
+export function serializePdf(objects: PdfObjectBody[], refs: { root: number; info?: number }): Uint8Array {
+  const chunks: Uint8Array[] = [latin1('%PDF-1.4\n%\xe2\xe3\xcf\xd3\n')];
+  let length = chunks[0].length;
+  const offsets: number[] = [];
+  const write = (chunk: Uint8Array) => {
+    chunks.push(chunk);
+    length += chunk.length;
+  };
+
+  objects.forEach((body, index) => {
+    offsets.push(length);
+    write(latin1(`${index + 1} 0 obj\n`));
+    (typeof body === 'string' ? [latin1(body)] : body).forEach(write);
+    write(latin1('\nendobj\n'));
+  });
+
+  const xrefOffset = length;
+  write(latin1([
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root ${refs.root} 0 R${refs.info ? ` /Info ${refs.info} 0 R` : ''} >>`,
+    'startxref',
+    String(xrefOffset),
+    '%%EOF',
+    ''
+  ].join('\n')));
+
+  const pdf = new Uint8Array(length);
+  let offset = 0;
+  for (const chunk of chunks) {
+    pdf.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return pdf;
+}
@@ -0,0 +1,87 @@
+/** CSS colors to RGB and CMYK for print output */
+
+export interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+export interface Cmyk {
+  c: number;
+  m: number;
+  y: number;
+  k: number;
+}
+
+// Names the suite uses for product colors, plus the basics
+const NAMED_COLORS: Record<string, string> = {
+  white: '#ffffff',
+  black: '#000000',
+  gray: '#808080',
+  grey: '#808080',
+  navy: '#000080',
+  red: '#ff0000',
+  blue: '#0000ff',
+  green: '#008000',
+  yellow: '#ffff00',
+  orange: '#ffa500',
+  purple: '#800080',
+  pink: '#ffc0cb',
+  natural: '#f5f0e1',
+  cream: '#fffdd0'
+};
+
+/** null for `none`, `transparent` and anything unparseable; channels are 0-255 */
+export function parseColor(value: unknown): Rgb | null {
+  if (typeof value !== 'string') return null;
+  const color = NAMED_COLORS[value.trim().toLowerCase()] ?? value.trim().toLowerCase();
+
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(digit => digit + digit).join('') : hex[1];
+    return {
+      r: parseInt(digits.slice(0, 2), 16),
+      g: parseInt(digits.slice(2, 4), 16),
+      b: parseInt(digits.slice(4, 6), 16)
+    };
+  }
+
+  const rgb = color.match(/^rgba?\(\s*(\d+)\s*,\s*(\d+)\s*,\s*(\d+)\s*(?:,\s*([\d.]+)\s*)?\)$/);
+  if (rgb && (rgb[4] === undefined || Number(rgb[4]) > 0)) {
+    return { r: Number(rgb[1]), g: Number(rgb[2]), b: Number(rgb[3]) };
+  }
+
+  return null;
+}
+
+/** Device conversion without an ICC profile; channels are 0-1 */
+export function rgbToCmyk({ r, g, b }: Rgb): Cmyk {
+  const [red, green, blue] = [r / 255, g / 255, b / 255];
+  const k = 1 - Math.max(red, green, blue);
+  if (k >= 1) return { c: 0, m: 0, y: 0, k: 1 };
+  return {
+    c: (1 - red - k) / (1 - k),
+    m: (1 - green - k) / (1 - k),
+    y: (1 - blue - k) / (1 - k),
+    k
+  };
+}
+
+/**
+ * Bright, saturated screen colors that process inks can't reach; they print
+ * noticeably duller. A heuristic on chroma and brightness, not a gamut
+ * calculation against a press profile.
+ */
+export function isOutsideCmykGamut({ r, g, b }: Rgb): boolean {
+  const max = Math.max(r, g, b);
+  const chroma = max - Math.min(r, g, b);
+  return chroma >= 204 && max >= 204;
+}
+
+export function toHex({ r, g, b }: Rgb): string {
+  return `#${[r, g, b].map(channel => channel.toString(16).padStart(2, '0')).join('')}`;
+}
+
+export function formatCmyk({ c, m, y, k }: Cmyk): string {
+  return [c, m, y, k].map(channel => Math.round(channel * 100)).join('/');
+}
@@ -0,0 +1,73 @@
+import { PRINT_SPECS } from '../../constants/print-on-demand';
+import type { DesignElement, PrintGeometry, PrintPage, PrintProductSpec } from '../../types/print-design';
+
+const MM_PER_INCH = 25.4;
+
+// Printed at sizes where printers ask for the wider bleed
+const LARGE_FORMAT_PRODUCTS = new Set(['poster']);
+
+export function mmToPx(mm: number, dpi: number): number {
+  return Math.round((mm / MM_PER_INCH) * dpi);
+}
+
+export function printGeometry(product: PrintProductSpec): PrintGeometry {
+  const { width, height, dpi } = product.dimensions;
+  const bleedMm = LARGE_FORMAT_PRODUCTS.has(product.id)
+    ? PRINT_SPECS.BLEED_AREAS.LARGE_FORMAT
+    : PRINT_SPECS.BLEED_AREAS.STANDARD;
+
+  return {
+    dpi,
+    trimWidth: width,
+    trimHeight: height,
+    bleed: mmToPx(bleedMm, dpi),
+    textSafe: mmToPx(PRINT_SPECS.SAFE_ZONES.TEXT, dpi),
+    graphicSafe: mmToPx(PRINT_SPECS.SAFE_ZONES.GRAPHICS, dpi)
+  };
+}
+
+export interface Bounds {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+}
+
+/** Axis-aligned box around the element as printed, rotation included */
+export function elementBounds(element: DesignElement): Bounds {
+  const cx = element.x + element.width / 2;
+  const cy = element.y + element.height / 2;
+  const angle = (element.rotation * Math.PI) / 180;
+  const halfWidth = (Math.abs(Math.cos(angle)) * element.width + Math.abs(Math.sin(angle)) * element.height) / 2;
+  const halfHeight = (Math.abs(Math.sin(angle)) * element.width + Math.abs(Math.cos(angle)) * element.height) / 2;
+
+  return { left: cx - halfWidth, top: cy - halfHeight, right: cx + halfWidth, bottom: cy + halfHeight };
+}
+
+/** Visible elements in paint order */
+export function printableElements(elements: DesignElement[]): DesignElement[] {
+  return elements
+    .filter(element => element.visible !== false && element.opacity > 0)
+    .sort((a, b) => a.zIndex - b.zIndex);
+}
+
+/** The print area an element is on, falling back to the first when the product has no such area */
+export function elementPrintArea(element: DesignElement, product: PrintProductSpec): string {
+  return element.printArea && product.printAreas.includes(element.printArea)
+    ? element.printArea
+    : product.printAreas[0];
+}
+
+/**
+ * A page per print area that has artwork, in the product's order. The first
+ * area is always included so an empty design still exports a page.
+ */
+export function printPages(product: PrintProductSpec, elements: DesignElement[], backgroundColor: string): PrintPage[] {
+  return product.printAreas
+    .map(printArea => ({
+      printArea,
+      elements: elements.filter(element => elementPrintArea(element, product) === printArea),
+      backgroundColor
+    }))
+    .filter((page, index) => index === 0 || page.elements.length > 0);
+}
@@ -0,0 +1,113 @@
+/**
+ * Browser-side image handling for print exports: decoding placed images for
+ * the PDF writer, and rasterizing the SVG render for PNG and JPG downloads.
+ */
+
+import type { DesignElement, PrintGeometry } from '../../types/print-design';
+import type { PdfImage } from './pdf';
+
+export interface PreparedImage extends PdfImage {
+  /** PNG data URL, so rasterized SVGs don't depend on fetching the original */
+  dataUrl: string;
+}
+
+function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.crossOrigin = 'anonymous';
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error(`Could not load image ${src}`));
+    image.src = src;
+  });
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('The browser could not encode the image'))), type, quality);
+  });
+}
+
+async function deflate(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function prepareImage(src: string): Promise<PreparedImage> {
+  const image = await loadImage(src);
+  const canvas = document.createElement('canvas');
+  canvas.width = image.naturalWidth;
+  canvas.height = image.naturalHeight;
+  const context = canvas.getContext('2d')!;
+  context.drawImage(image, 0, 0);
+
+  const pixels = context.getImageData(0, 0, canvas.width, canvas.height).data;
+  const alpha = new Uint8Array(canvas.width * canvas.height);
+  let transparent = false;
+  for (let i = 0; i < alpha.length; i++) {
+    alpha[i] = pixels[i * 4 + 3];
+    transparent ||= alpha[i] < 255;
+  }
+  const dataUrl = canvas.toDataURL('image/png');
+
+  // JPEG has no alpha; flatten onto white and carry transparency in the mask
+  context.globalCompositeOperation = 'destination-over';
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  const jpeg = await canvasToBlob(canvas, 'image/jpeg', 0.95);
+
+  return {
+    width: canvas.width,
+    height: canvas.height,
+    data: new Uint8Array(await jpeg.arrayBuffer()),
+    alpha: transparent ? await deflate(alpha) : undefined,
+    dataUrl
+  };
+}
+
+/**
+ * Decode every image the elements place, keyed by URL. Images that fail to
+ * load, usually cross-origin ones without CORS headers, are left out.
+ */
+export async function prepareImages(elements: DesignElement[]): Promise<Map<string, PreparedImage>> {
+  const sources = [...new Set(elements.filter(element => element.type === 'image').map(element => element.content))];
+  const prepared = new Map<string, PreparedImage>();
+
+  for (const src of sources) {
+    try {
+      prepared.set(src, await prepareImage(src));
+    } catch (error) {
+      console.warn('Print export skipped an image:', error);
+    }
+  }
+  return prepared;
+}
+
+/**
+ * Draw an SVG from renderSvg at print size, cropped to the trim. The SVG must
+ * not reference external resources, which browsers don't load for images.
+ */
+export async function rasterizeSvg(svg: string, geometry: PrintGeometry, type: 'image/png' | 'image/jpeg'): Promise<Blob> {
+  const { trimWidth, trimHeight, bleed } = geometry;
+  const url = URL.createObjectURL(new Blob([svg], { type: 'image/svg+xml' }));
+  try {
+    const image = await loadImage(url);
+    const canvas = document.createElement('canvas');
+    canvas.width = trimWidth;
+    canvas.height = trimHeight;
+    canvas.getContext('2d')!.drawImage(image, -bleed, -bleed, trimWidth + bleed * 2, trimHeight + bleed * 2);
+    return await canvasToBlob(canvas, type, 0.95);
+  } finally {
+    URL.revokeObjectURL(url);
+  }
+}
+
+export function downloadBlob(blob: Blob, filename: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.download = filename;
+  link.href = url;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
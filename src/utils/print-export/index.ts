@@ -0,0 +1,14 @@
+/**
+ * Print Export
+ * Renders Print Design Suite designs to print-ready SVG and PDF at the
+ * product's DPI, and preflights them against PRINT_SPECS.
+ */
+
+export * from './color';
+export * from './geometry';
+export * from './images';
+export * from './pdf';
+export * from './preflight';
+export * from './shapes';
+export * from './svg';
+export * from './text';
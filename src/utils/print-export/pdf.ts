@@ -0,0 +1,226 @@
+/**
+ * PDF Writer
+ * Builds print-ready PDFs by hand: a page per print area sized to the trim
+ * plus bleed with TrimBox and BleedBox set, vector shapes and text in
+ * DeviceCMYK, text in the standard 14 fonts, and images embedded as JPEG
+ * with their transparency as a soft mask.
+ */
+
+import type { DesignElement, PrintGeometry, PrintPage } from '../../types/print-design';
+import { latin1, measureText, pdfDate, pdfStream, pdfString, serializePdf, standardFontFor, type PdfObjectBody, type StandardFont } from '../pdf';
+import { parseColor, rgbToCmyk } from './color';
+import { printableElements } from './geometry';
+import { shapePath, type PathCommand } from './shapes';
+import { formatNumber } from './svg';
+import { layoutText } from './text';
+
+/** A decoded image ready to embed; `data` is a baseline RGB JPEG */
+export interface PdfImage {
+  width: number;
+  height: number;
+  data: Uint8Array;
+  /** zlib-compressed 8-bit alpha channel, for images with transparency */
+  alpha?: Uint8Array;
+}
+
+export interface PdfOptions {
+  title?: string;
+  /** Images by element content (URL); image elements without one are left out */
+  images?: Map<string, PdfImage>;
+  createdAt?: Date;
+}
+
+const POINTS_PER_INCH = 72;
+
+function cmykOperands(value: unknown): string | null {
+  const rgb = parseColor(value);
+  if (!rgb) return null;
+  const { c, m, y, k } = rgbToCmyk(rgb);
+  return [c, m, y, k].map(channel => String(Math.round(channel * 1000) / 1000)).join(' ');
+}
+
+function pathOperators(commands: PathCommand[]): string {
+  return commands.map(([op, ...points]) => {
+    const operands = points.map(formatNumber).join(' ');
+    switch (op) {
+      case 'M': return `${operands} m`;
+      case 'L': return `${operands} l`;
+      case 'C': return `${operands} c`;
+      case 'Z': return 'h';
+    }
+  }).join('\n');
+}
+
+/** Resource names for the fonts, opacities and images the pages use */
+class ResourceRegistry {
+  fonts = new Map<StandardFont, string>();
+  opacities = new Map<number, string>();
+  images = new Map<string, string>();
+
+  font(font: StandardFont): string {
+    if (!this.fonts.has(font)) this.fonts.set(font, `F${this.fonts.size + 1}`);
+    return this.fonts.get(font)!;
+  }
+
+  opacity(opacity: number): string {
+    const rounded = Math.round(opacity * 100) / 100;
+    if (!this.opacities.has(rounded)) this.opacities.set(rounded, `GS${this.opacities.size + 1}`);
+    return this.opacities.get(rounded)!;
+  }
+
+  image(url: string): string {
+    if (!this.images.has(url)) this.images.set(url, `Im${this.images.size + 1}`);
+    return this.images.get(url)!;
+  }
+}
+
+function drawElement(element: DesignElement, resources: ResourceRegistry, images: Map<string, PdfImage>): string | null {
+  const { properties } = element;
+
+  switch (element.type) {
+    case 'shape': {
+      const fill = cmykOperands(properties.fill);
+      const strokeWidth = Number(properties.strokeWidth) || 0;
+      const stroke = strokeWidth > 0 ? cmykOperands(properties.stroke) : null;
+      if (!fill && !stroke) return null;
+
+      const paintOperator = fill && stroke ? 'B' : fill ? 'f' : 'S';
+      return [
+        fill ? `${fill} k` : '',
+        stroke ? `${stroke} K ${formatNumber(strokeWidth)} w` : '',
+        pathOperators(shapePath(element)),
+        paintOperator
+      ].filter(Boolean).join('\n');
+    }
+
+    case 'text': {
+      const layout = layoutText(element);
+      const font = standardFontFor(properties.fontFamily, properties.fontWeight);
+      const fontName = resources.font(font);
+      const color = cmykOperands(properties.color) ?? '0 0 0 1';
+
+      // The page is y-down, so each line's matrix flips glyphs back upright
+      const lines = layout.lines.filter(line => line.text.length > 0).map(line => {
+        const width = measureText(line.text, font, layout.fontSize, layout.letterSpacing);
+        const x = layout.anchor === 'middle' ? line.x - width / 2 : layout.anchor === 'end' ? line.x - width : line.x;
+        return `1 0 0 -1 ${formatNumber(x)} ${formatNumber(line.baseline)} Tm ${pdfString(line.text)} Tj`;
+      });
+      if (lines.length === 0) return null;
+
+      return [
+        `${color} k`,
+        'BT',
+        `/${fontName} ${formatNumber(layout.fontSize)} Tf`,
+        layout.letterSpacing ? `${formatNumber(layout.letterSpacing)} Tc` : '',
+        ...lines,
+        'ET'
+      ].filter(Boolean).join('\n');
+    }
+
+    case 'image': {
+      if (!images.has(element.content)) return null;
+      const name = resources.image(element.content);
+      const { x, y, width, height } = element;
+      return `${formatNumber(width)} 0 0 ${formatNumber(-height)} ${formatNumber(x)} ${formatNumber(y + height)} cm /${name} Do`;
+    }
+
+    // Vector paths aren't parsed for PDF; preflight reports them
+    case 'vector':
+      return null;
+  }
+}
+
+function pageContent(page: PrintPage, geometry: PrintGeometry, resources: ResourceRegistry, images: Map<string, PdfImage>): string {
+  const { dpi, trimWidth, trimHeight, bleed } = geometry;
+  const scale = POINTS_PER_INCH / dpi;
+  const mediaHeight = (trimHeight + bleed * 2) * scale;
+
+  // Draw in print pixels, y down, with the trim's top-left corner at the origin
+  const operators = [
+    `${scale} 0 0 ${-scale} 0 ${formatNumber(mediaHeight)} cm`,
+    `1 0 0 1 ${bleed} ${bleed} cm`
+  ];
+
+  const background = cmykOperands(page.backgroundColor);
+  if (background) {
+    operators.push(`${background} k ${-bleed} ${-bleed} ${trimWidth + bleed * 2} ${trimHeight + bleed * 2} re f`);
+  }
+
+  for (const element of printableElements(page.elements)) {
+    const drawing = drawElement(element, resources, images);
+    if (!drawing) continue;
+
+    const angle = (element.rotation * Math.PI) / 180;
+    const cx = element.x + element.width / 2;
+    const cy = element.y + element.height / 2;
+    const [cos, sin] = [Math.cos(angle), Math.sin(angle)];
+
+    operators.push(
+      'q',
+      element.rotation
+        ? [cos, sin, -sin, cos, cx - cos * cx + sin * cy, cy - sin * cx - cos * cy].map(value => String(Math.round(value * 10000) / 10000)).join(' ') + ' cm'
+        : '',
+      element.opacity < 1 ? `/${resources.opacity(element.opacity)} gs` : '',
+      drawing,
+      'Q'
+    );
+  }
+
+  return operators.filter(Boolean).join('\n');
+}
+
+export function renderPdf(pages: PrintPage[], geometry: PrintGeometry, options: PdfOptions = {}): Uint8Array {
+  const images = options.images ?? new Map<string, PdfImage>();
+  const scale = POINTS_PER_INCH / geometry.dpi;
+  const mediaWidth = formatNumber((geometry.trimWidth + geometry.bleed * 2) * scale);
+  const mediaHeight = formatNumber((geometry.trimHeight + geometry.bleed * 2) * scale);
+  const bleed = geometry.bleed * scale;
+  const trimBox = [bleed, bleed, geometry.trimWidth * scale + bleed, geometry.trimHeight * scale + bleed].map(formatNumber).join(' ');
+
+  // Objects 1-3 are the catalog, page tree and info; the rest follow in order
+  const objects: PdfObjectBody[] = ['', '', ''];
+  const addObject = (body: PdfObjectBody) => objects.push(body);
+
+  const resources = new ResourceRegistry();
+  const contents = pages.map(page => pageContent(page, geometry, resources, images));
+
+  const fontRefs = [...resources.fonts].map(([font, name]) =>
+    `/${name} ${addObject(`<< /Type /Font /Subtype /Type1 /BaseFont /${font} /Encoding /WinAnsiEncoding >>`)} 0 R`);
+  const opacityRefs = [...resources.opacities].map(([opacity, name]) =>
+    `/${name} ${addObject(`<< /Type /ExtGState /ca ${opacity} /CA ${opacity} >>`)} 0 R`);
+  const imageRefs = [...resources.images].map(([url, name]) => {
+    const image = images.get(url)!;
+    const size = `/Width ${image.width} /Height ${image.height} /BitsPerComponent 8`;
+    const softMask = image.alpha
+      ? ` /SMask ${addObject([
+          latin1(`<< /Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceGray /Filter /FlateDecode /Length ${image.alpha.length} >>\nstream\n`),
+          image.alpha,
+          latin1('\nendstream')
+        ])} 0 R`
+      : '';
+    const header = `<< /Type /XObject /Subtype /Image ${size} /ColorSpace /DeviceRGB /Filter /DCTDecode${softMask} /Length ${image.data.length} >>\nstream\n`;
+    return `/${name} ${addObject([latin1(header), image.data, latin1('\nendstream')])} 0 R`;
+  });
+
+  const resourceDictionary = [
+    '<<',
+    fontRefs.length ? `/Font << ${fontRefs.join(' ')} >>` : '',
+    opacityRefs.length ? `/ExtGState << ${opacityRefs.join(' ')} >>` : '',
+    imageRefs.length ? `/XObject << ${imageRefs.join(' ')} >>` : '',
+    '>>'
+  ].filter(Boolean).join(' ');
+
+  const pageRefs = contents.map(content => {
+    const contentRef = addObject(pdfStream(content));
+    return addObject(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${mediaWidth} ${mediaHeight}] /BleedBox [0 0 ${mediaWidth} ${mediaHeight}] ` +
+      `/TrimBox [${trimBox}] /Resources ${resourceDictionary} /Contents ${contentRef} 0 R >>`
+    );
+  });
+
+  objects[0] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[1] = `<< /Type /Pages /Kids [${pageRefs.map(ref => `${ref} 0 R`).join(' ')}] /Count ${pageRefs.length} >>`;
+  objects[2] = `<< /Title ${pdfString(options.title ?? 'Design')} /Producer (FlashFusion Print Design Suite) /CreationDate (${pdfDate(options.createdAt ?? new Date())}) >>`;
+
+  return serializePdf(objects, { root: 1, info: 3 });
+}
@@ -0,0 +1,229 @@
+import { PRINT_SPECS } from '../../constants/print-on-demand';
+import type {
+  DesignElement,
+  PreflightIssue,
+  PrintGeometry,
+  PrintPage,
+  PrintProductSpec,
+  PreflightReport
+} from '../../types/print-design';
+import { isSubstituted, standardFontFor } from '../pdf';
+import { formatCmyk, isOutsideCmykGamut, parseColor, rgbToCmyk } from './color';
+import { elementBounds, printGeometry, printableElements, type Bounds } from './geometry';
+
+export interface PreflightInput {
+  product: PrintProductSpec;
+  pages: PrintPage[];
+  /** The editor canvas, which must match the product's print area */
+  canvasWidth: number;
+  canvasHeight: number;
+}
+
+function describe(element: DesignElement): string {
+  switch (element.type) {
+    case 'text': {
+      const text = element.content.replace(/\s+/g, ' ').trim();
+      return `Text "${text.length > 24 ? `${text.slice(0, 24)}…` : text}"`;
+    }
+    case 'image':
+      return element.properties.aiGenerated ? 'AI image' : 'Image';
+    case 'shape':
+      return `${String(element.properties.shapeType ?? element.content).replace(/^\w/, letter => letter.toUpperCase())} shape`;
+    case 'vector':
+      return 'Vector';
+  }
+}
+
+/** How far each side of `bounds` sits inside the trim; negative is past it */
+function insets(bounds: Bounds, geometry: PrintGeometry): number[] {
+  return [bounds.left, bounds.top, geometry.trimWidth - bounds.right, geometry.trimHeight - bounds.bottom];
+}
+
+/** Print resolution of an image at its placed size, or null when its pixel size isn't known */
+export function effectiveDpi(element: DesignElement, dpi: number): number | null {
+  const originalWidth = Number(element.properties.originalWidth);
+  const originalHeight = Number(element.properties.originalHeight);
+  if (!originalWidth || !originalHeight || element.width <= 0 || element.height <= 0) {
+    return null;
+  }
+  return Math.round(dpi * Math.min(originalWidth / element.width, originalHeight / element.height));
+}
+
+function checkResolution(element: DesignElement, geometry: PrintGeometry): Omit<PreflightIssue, 'printArea'> | null {
+  const dpi = effectiveDpi(element, geometry.dpi);
+  const { MINIMUM, RECOMMENDED } = PRINT_SPECS.RESOLUTION;
+
+  if (dpi === null) {
+    return {
+      check: 'resolution',
+      severity: 'warning',
+      elementId: element.id,
+      message: `${describe(element)} has an unknown resolution; make sure it is at least ${RECOMMENDED} DPI at this size`
+    };
+  }
+  if (dpi < MINIMUM) {
+    return {
+      check: 'resolution',
+      severity: 'error',
+      elementId: element.id,
+      message: `${describe(element)} prints at ${dpi} DPI, below the ${MINIMUM} DPI minimum; use a larger image or scale it down`
+    };
+  }
+  if (dpi < RECOMMENDED) {
+    return {
+      check: 'resolution',
+      severity: 'warning',
+      elementId: element.id,
+      message: `${describe(element)} prints at ${dpi} DPI; ${RECOMMENDED} DPI is recommended for sharp prints`
+    };
+  }
+  return null;
+}
+
+function checkPlacement(element: DesignElement, geometry: PrintGeometry): Omit<PreflightIssue, 'printArea'> | null {
+  const bounds = elementBounds(element);
+  const sides = insets(bounds, geometry);
+
+  if (bounds.right <= 0 || bounds.bottom <= 0 || bounds.left >= geometry.trimWidth || bounds.top >= geometry.trimHeight) {
+    return {
+      check: 'off-canvas',
+      severity: 'warning',
+      elementId: element.id,
+      message: `${describe(element)} is outside the print area and won't print`
+    };
+  }
+
+  if (element.type === 'text') {
+    return sides.some(inset => inset < geometry.textSafe)
+      ? {
+          check: 'text-safe-zone',
+          severity: 'error',
+          elementId: element.id,
+          message: `${describe(element)} is within ${PRINT_SPECS.SAFE_ZONES.TEXT}mm of the edge and may be trimmed; move it inside the safe zone`
+        }
+      : null;
+  }
+
+  // Art that reaches the trim must carry on through the bleed, or a sliver of
+  // background shows wherever the cut lands
+  if (sides.some(inset => inset <= 0 && inset > -geometry.bleed)) {
+    return {
+      check: 'bleed',
+      severity: 'warning',
+      elementId: element.id,
+      message: `${describe(element)} reaches the edge but not the bleed; extend it ${Math.round((geometry.bleed / geometry.dpi) * 25.4)}mm past the edge`
+    };
+  }
+  if (sides.some(inset => inset > 0 && inset < geometry.graphicSafe)) {
+    return {
+      check: 'graphic-safe-zone',
+      severity: 'warning',
+      elementId: element.id,
+      message: `${describe(element)} is within ${PRINT_SPECS.SAFE_ZONES.GRAPHICS}mm of the edge and may be trimmed unevenly`
+    };
+  }
+  return null;
+}
+
+function elementColors(element: DesignElement): unknown[] {
+  switch (element.type) {
+    case 'text':
+      return [element.properties.color];
+    case 'shape':
+      return [element.properties.fill, Number(element.properties.strokeWidth) > 0 ? element.properties.stroke : null];
+    case 'vector':
+      return [element.properties.fill];
+    default:
+      return [];
+  }
+}
+
+function colorShift(value: unknown): string | null {
+  const rgb = parseColor(value);
+  return rgb && isOutsideCmykGamut(rgb) ? `${String(value)} (prints near C/M/Y/K ${formatCmyk(rgbToCmyk(rgb))})` : null;
+}
+
+/**
+ * Check a design against PRINT_SPECS before it is exported or published.
+ * Errors are problems a printer would reject or that visibly ruin the print;
+ * warnings are worth a look but don't block publishing.
+ */
+export function preflightDesign({ product, pages, canvasWidth, canvasHeight }: PreflightInput): PreflightReport {
+  const geometry = printGeometry(product);
+  const issues: PreflightIssue[] = [];
+
+  if (canvasWidth !== geometry.trimWidth || canvasHeight !== geometry.trimHeight) {
+    issues.push({
+      check: 'canvas-size',
+      severity: 'error',
+      message: `The canvas is ${canvasWidth} × ${canvasHeight}px but ${product.name} prints at ${geometry.trimWidth} × ${geometry.trimHeight}px (${geometry.dpi} DPI)`
+    });
+  }
+
+  if (pages.every(page => printableElements(page.elements).length === 0)) {
+    issues.push({ check: 'content', severity: 'error', message: 'The design is empty' });
+  }
+
+  const background = colorShift(pages[0]?.backgroundColor);
+  if (background) {
+    issues.push({
+      check: 'cmyk',
+      severity: 'warning',
+      message: `Background ${background} is brighter than CMYK inks can print and will look duller`
+    });
+  }
+
+  const substitutedFonts = new Set<string>();
+
+  for (const page of pages) {
+    const add = (issue: Omit<PreflightIssue, 'printArea'> | null) => {
+      if (issue) issues.push({ ...issue, printArea: page.printArea });
+    };
+
+    for (const element of printableElements(page.elements)) {
+      add(checkPlacement(element, geometry));
+
+      if (element.type === 'image') {
+        add(checkResolution(element, geometry));
+      }
+
+      const shifted = elementColors(element).map(colorShift).filter(Boolean);
+      if (shifted.length > 0) {
+        add({
+          check: 'cmyk',
+          severity: 'warning',
+          elementId: element.id,
+          message: `${describe(element)} uses ${shifted.join(', ')}, brighter than CMYK inks can print`
+        });
+      }
+
+      if (element.type === 'text') {
+        const family = String(element.properties.fontFamily ?? '');
+        const font = standardFontFor(family, element.properties.fontWeight);
+        if (family && isSubstituted(family, font) && !substitutedFonts.has(family)) {
+          substitutedFonts.add(family);
+          add({
+            check: 'font',
+            severity: 'warning',
+            elementId: element.id,
+            message: `${family} is printed as ${font} in PDF exports; use SVG to keep the original font`
+          });
+        }
+      }
+
+      if (element.type === 'vector') {
+        add({
+          check: 'vector',
+          severity: 'warning',
+          elementId: element.id,
+          message: `${describe(element)} is only included in SVG exports`
+        });
+      }
+    }
+  }
+
+  return {
+    passed: issues.every(issue => issue.severity !== 'error'),
+    issues
+  };
+}
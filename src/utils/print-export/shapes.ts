@@ -0,0 +1,100 @@
+import type { DesignElement } from '../../types/print-design';
+
+/** Outline commands in canvas pixels, shared by the SVG and PDF writers */
+export type PathCommand =
+  | ['M', number, number]
+  | ['L', number, number]
+  | ['C', number, number, number, number, number, number]
+  | ['Z'];
+
+// Control point distance that makes a cubic Bézier a quarter circle
+const KAPPA = 0.5522847498;
+
+function polygon(points: Array<[number, number]>): PathCommand[] {
+  return [
+    ['M', ...points[0]],
+    ...points.slice(1).map(([x, y]): PathCommand => ['L', x, y]),
+    ['Z']
+  ];
+}
+
+function radial(element: DesignElement, count: number, radiusAt: (index: number) => number): PathCommand[] {
+  const cx = element.x + element.width / 2;
+  const cy = element.y + element.height / 2;
+  const points = Array.from({ length: count }, (_, index): [number, number] => {
+    const angle = -Math.PI / 2 + (index * 2 * Math.PI) / count;
+    const radius = radiusAt(index);
+    return [cx + Math.cos(angle) * (element.width / 2) * radius, cy + Math.sin(angle) * (element.height / 2) * radius];
+  });
+  return polygon(points);
+}
+
+function ellipse(element: DesignElement): PathCommand[] {
+  const rx = element.width / 2;
+  const ry = element.height / 2;
+  const cx = element.x + rx;
+  const cy = element.y + ry;
+  const ox = rx * KAPPA;
+  const oy = ry * KAPPA;
+
+  return [
+    ['M', cx + rx, cy],
+    ['C', cx + rx, cy + oy, cx + ox, cy + ry, cx, cy + ry],
+    ['C', cx - ox, cy + ry, cx - rx, cy + oy, cx - rx, cy],
+    ['C', cx - rx, cy - oy, cx - ox, cy - ry, cx, cy - ry],
+    ['C', cx + ox, cy - ry, cx + rx, cy - oy, cx + rx, cy],
+    ['Z']
+  ];
+}
+
+function rectangle(element: DesignElement): PathCommand[] {
+  const { x, y, width, height } = element;
+  const radius = Math.min(Math.max(Number(element.properties.borderRadius) || 0, 0), width / 2, height / 2);
+  if (radius === 0) {
+    return polygon([[x, y], [x + width, y], [x + width, y + height], [x, y + height]]);
+  }
+
+  const offset = radius * (1 - KAPPA);
+  const right = x + width;
+  const bottom = y + height;
+  return [
+    ['M', x + radius, y],
+    ['L', right - radius, y],
+    ['C', right - offset, y, right, y + offset, right, y + radius],
+    ['L', right, bottom - radius],
+    ['C', right, bottom - offset, right - offset, bottom, right - radius, bottom],
+    ['L', x + radius, bottom],
+    ['C', x + offset, bottom, x, bottom - offset, x, bottom - radius],
+    ['L', x, y + radius],
+    ['C', x, y + offset, x + offset, y, x + radius, y],
+    ['Z']
+  ];
+}
+
+/** Outline of a shape element; unknown shapes print as rectangles */
+export function shapePath(element: DesignElement): PathCommand[] {
+  const { x, y, width, height } = element;
+
+  switch (element.properties.shapeType ?? element.content) {
+    case 'circle':
+      return ellipse(element);
+    case 'triangle':
+      return polygon([[x + width / 2, y], [x + width, y + height], [x, y + height]]);
+    case 'star':
+      return radial(element, 10, index => (index % 2 === 0 ? 1 : 0.4));
+    case 'hexagon':
+      return radial(element, 6, () => 1);
+    case 'arrow':
+      return polygon([
+        [x, y + height * 0.3],
+        [x + width * 0.6, y + height * 0.3],
+        [x + width * 0.6, y],
+        [x + width, y + height / 2],
+        [x + width * 0.6, y + height],
+        [x + width * 0.6, y + height * 0.7],
+        [x, y + height * 0.7]
+      ]);
+    default:
+      return rectangle(element);
+  }
+}
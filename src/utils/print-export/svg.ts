@@ -0,0 +1,90 @@
+import type { DesignElement, PrintGeometry, PrintPage } from '../../types/print-design';
+import { printableElements } from './geometry';
+import { shapePath, type PathCommand } from './shapes';
+import { layoutText } from './text';
+
+/** Two decimals is well below a print pixel */
+export function formatNumber(value: number): string {
+  return String(Math.round(value * 100) / 100);
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+function paint(value: unknown, fallback: string): string {
+  if (typeof value !== 'string' || !value.trim() || value === 'transparent') return fallback;
+  return escapeXml(value);
+}
+
+function pathData(commands: PathCommand[]): string {
+  return commands.map(([op, ...points]) => [op, ...points.map(formatNumber)].join(' ')).join(' ');
+}
+
+function renderElement(element: DesignElement): string {
+  const { x, y, width, height, properties } = element;
+
+  switch (element.type) {
+    case 'text': {
+      const layout = layoutText(element);
+      const attributes = [
+        `font-family="${escapeXml(String(properties.fontFamily ?? 'sans-serif'))}"`,
+        `font-size="${formatNumber(layout.fontSize)}"`,
+        `font-weight="${escapeXml(String(properties.fontWeight ?? 'normal'))}"`,
+        `fill="${paint(properties.color, '#000000')}"`,
+        `text-anchor="${layout.anchor}"`,
+        layout.letterSpacing ? `letter-spacing="${formatNumber(layout.letterSpacing)}"` : ''
+      ].filter(Boolean).join(' ');
+      const lines = layout.lines
+        .map(line => `<tspan x="${formatNumber(line.x)}" y="${formatNumber(line.baseline)}">${escapeXml(line.text)}</tspan>`)
+        .join('');
+      return `<text ${attributes} xml:space="preserve">${lines}</text>`;
+    }
+
+    case 'image':
+      return `<image x="${formatNumber(x)}" y="${formatNumber(y)}" width="${formatNumber(width)}" height="${formatNumber(height)}" preserveAspectRatio="none" xlink:href="${escapeXml(element.content)}"/>`;
+
+    case 'shape': {
+      const strokeWidth = Number(properties.strokeWidth) || 0;
+      const stroke = strokeWidth > 0 ? paint(properties.stroke, 'none') : 'none';
+      return `<path d="${pathData(shapePath(element))}" fill="${paint(properties.fill, 'none')}" stroke="${stroke}"${stroke === 'none' ? '' : ` stroke-width="${formatNumber(strokeWidth)}"`}/>`;
+    }
+
+    case 'vector': {
+      const viewBox = escapeXml(String(properties.viewBox ?? `0 0 ${formatNumber(width)} ${formatNumber(height)}`));
+      return `<svg x="${formatNumber(x)}" y="${formatNumber(y)}" width="${formatNumber(width)}" height="${formatNumber(height)}" viewBox="${viewBox}" preserveAspectRatio="none"><path d="${escapeXml(element.content)}" fill="${paint(properties.fill, '#000000')}"/></svg>`;
+    }
+  }
+}
+
+/**
+ * A print area as a standalone SVG sized in inches, so it opens at print size.
+ * User units are print pixels with the trim at the origin, and the
+ * background runs out into the bleed on every side.
+ */
+export function renderSvg(page: PrintPage, geometry: PrintGeometry): string {
+  const { dpi, trimWidth, trimHeight, bleed } = geometry;
+  const width = trimWidth + bleed * 2;
+  const height = trimHeight + bleed * 2;
+
+  const elements = printableElements(page.elements).map(element => {
+    const transform = element.rotation
+      ? ` transform="rotate(${formatNumber(element.rotation)} ${formatNumber(element.x + element.width / 2)} ${formatNumber(element.y + element.height / 2)})"`
+      : '';
+    const opacity = element.opacity < 1 ? ` opacity="${formatNumber(element.opacity)}"` : '';
+    return `<g id="${escapeXml(element.id)}"${transform}${opacity}>${renderElement(element)}</g>`;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" width="${formatNumber(width / dpi)}in" height="${formatNumber(height / dpi)}in" viewBox="${-bleed} ${-bleed} ${width} ${height}">`,
+    `<rect x="${-bleed}" y="${-bleed}" width="${width}" height="${height}" fill="${paint(page.backgroundColor, '#ffffff')}"/>`,
+    ...elements,
+    '</svg>'
+  ].join('\n');
+}
@@ -0,0 +1,46 @@
+import type { DesignElement } from '../../types/print-design';
+
+export type TextAnchor = 'start' | 'middle' | 'end';
+
+export interface TextLine {
+  text: string;
+  /** Where the anchor point of the line sits */
+  x: number;
+  baseline: number;
+}
+
+export interface TextLayout {
+  lines: TextLine[];
+  anchor: TextAnchor;
+  fontSize: number;
+  letterSpacing: number;
+}
+
+// Alphabetic baseline below the top of the line box, in ems
+const ASCENT = 0.8;
+
+/**
+ * Lines of a text element positioned the way the editor lays them out: one
+ * per `\n`, aligned within the element's box, with CSS-style half-leading.
+ */
+export function layoutText(element: DesignElement): TextLayout {
+  const fontSize = Number(element.properties.fontSize) || 16;
+  const lineHeight = Number(element.properties.lineHeight) || 1.2;
+  const letterSpacing = Number(element.properties.letterSpacing) || 0;
+  const align = element.properties.textAlign;
+
+  const anchor: TextAnchor = align === 'center' ? 'middle' : align === 'right' ? 'end' : 'start';
+  const x = anchor === 'middle' ? element.x + element.width / 2 : anchor === 'end' ? element.x + element.width : element.x;
+  const firstBaseline = element.y + fontSize * ((lineHeight - 1) / 2 + ASCENT);
+
+  return {
+    lines: element.content.split('\n').map((text, index) => ({
+      text,
+      x,
+      baseline: firstBaseline + index * fontSize * lineHeight
+    })),
+    anchor,
+    fontSize,
+    letterSpacing
+  };
+}
@@ -0,0 +1,297 @@
+import JSZip from 'jszip';
+import YAML from 'yaml';
+import type {
+  APIEndpoint,
+  AppStack,
+  DataModel,
+  DeploymentConfig,
+  EntityDefinition,
+  GeneratedApp,
+  GeneratedFile
+} from '../types/full-stack-builder';
+import { readGenerationManifest } from './generation-manifest';
+
+/**
+ * Project Export Format
+ * Shape of the JSON/YAML project exports and the importer that turns them
+ * back into a GeneratedApp so work can resume in the full-stack builder.
+ */
+
+export const PROJECT_EXPORT_VERSION = 1;
+
+/** Written next to the files of archive downloads (ZIP, TAR, individual files) */
+export const ARCHIVE_METADATA_FILE = '_flashfusion-metadata.json';
+
+export interface ProjectExport {
+  exportVersion: number;
+  metadata: Record<string, unknown>;
+  app: {
+    name: string;
+    description: string;
+    stack: AppStack;
+    features: string[];
+    endpoints: APIEndpoint[];
+    deploymentConfig: DeploymentConfig;
+    dataModel?: DataModel;
+    /** Files that belong to the app itself, as opposed to packaging extras */
+    sourceFiles: Array<{ path: string; type: GeneratedFile['type'] }>;
+  };
+  /** Path to content for every packaged file */
+  files: Record<string, string>;
+  configuration?: Record<string, unknown>;
+}
+
+/** The `app` section of an export; archive metadata carries it too so archives can be imported */
+export function projectExportApp(app: GeneratedApp): ProjectExport['app'] {
+  return {
+    name: app.name,
+    description: app.description,
+    stack: app.stack,
+    features: app.features,
+    endpoints: app.endpoints,
+    deploymentConfig: app.deploymentConfig,
+    ...(app.dataModel ? { dataModel: app.dataModel } : {}),
+    sourceFiles: app.files.map(file => ({ path: file.path, type: file.type }))
+  };
+}
+
+/**
+ * What archive downloads write to their metadata file so they can be
+ * imported back: the app settings, the packaging extras the download added
+ * and the generation manifest
+ */
+export function archiveMetadata(app: GeneratedApp, packagingFiles: string[]) {
+  return {
+    project: projectExportApp(app),
+    packagingFiles,
+    ...(app.generation ? { generation: app.generation } : {})
+  };
+}
+
+/**
+ * YAML 1.2 output: multi-line strings become literal block scalars so file
+ * contents stay readable, lines are never folded, and repeated objects are
+ * written out in full instead of as anchors/aliases.
+ */
+export function stringifyYAML(value: unknown): string {
+  return YAML.stringify(value, {
+    aliasDuplicateObjects: false,
+    blockQuote: 'literal',
+    lineWidth: 0
+  });
+}
+
+const STACK_KEYS: Array<keyof AppStack> = ['frontend', 'backend', 'database', 'auth', 'deployment'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function inferFileType(path: string): GeneratedFile['type'] {
+  if (path.startsWith('frontend/')) return 'frontend';
+  if (path.startsWith('backend/')) return 'backend';
+  if (path.startsWith('database/') || path.endsWith('.sql') || path.endsWith('.prisma')) return 'database';
+  return 'config';
+}
+
+function readString(source: Record<string, unknown>, key: string, fallback = ''): string {
+  const value = source[key];
+  return typeof value === 'string' ? value : fallback;
+}
+
+function readStringArray(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+}
+
+function readEndpoints(value: unknown): APIEndpoint[] {
+  if (!Array.isArray(value)) return [];
+  return value.filter(isRecord).map(endpoint => ({
+    method: readString(endpoint, 'method', 'GET'),
+    path: readString(endpoint, 'path', '/'),
+    description: readString(endpoint, 'description')
+  }));
+}
+
+// Entities keep their own shape; only the containers are checked so a hand-edited
+// export cannot crash the builder
+function readDataModel(value: unknown): DataModel | undefined {
+  if (!isRecord(value) || !Array.isArray(value.entities)) return undefined;
+  const entities = value.entities
+    .filter(isRecord)
+    .filter(entity => typeof entity.name === 'string')
+    .map(entity => ({
+      ...entity,
+      fields: Array.isArray(entity.fields) ? entity.fields.filter(isRecord) : [],
+      relations: Array.isArray(entity.relations) ? entity.relations.filter(isRecord) : [],
+      indexes: Array.isArray(entity.indexes) ? entity.indexes.filter(isRecord) : [],
+      timestamps: entity.timestamps !== false
+    }) as unknown as EntityDefinition);
+  return { entities };
+}
+
+/**
+ * Rebuild a GeneratedApp from a parsed export. Exports written before the
+ * `sourceFiles` manifest existed are accepted too: every packaged file is
+ * restored and its type inferred from its path.
+ */
+export function projectFromExport(data: unknown): GeneratedApp {
+  if (!isRecord(data) || !isRecord(data.app) || !isRecord(data.files)) {
+    throw new Error('Not a FlashFusion project export: expected "app" and "files" sections');
+  }
+
+  const { app, files } = data;
+  const name = readString(app, 'name').trim();
+  if (!name) {
+    throw new Error('Project export is missing the app name');
+  }
+
+  const rawStack = isRecord(app.stack) ? app.stack : {};
+  const stack = Object.fromEntries(
+    STACK_KEYS.map(key => [key, readString(rawStack, key)])
+  ) as unknown as AppStack;
+
+  const contents = new Map<string, string>();
+  for (const [path, content] of Object.entries(files)) {
+    if (typeof content === 'string') {
+      contents.set(path, content);
+    } else if (content !== null && content !== undefined) {
+      // Legacy hand-written YAML could turn file contents into numbers or booleans
+      contents.set(path, String(content));
+    }
+  }
+
+  const manifest = Array.isArray(app.sourceFiles)
+    ? app.sourceFiles.filter(isRecord).map(file => ({
+        path: readString(file, 'path'),
+        type: readString(file, 'type') as GeneratedFile['type']
+      }))
+    : Array.from(contents.keys()).map(path => ({ path, type: inferFileType(path) }));
+
+  const missing = manifest.filter(file => !contents.has(file.path));
+  if (missing.length > 0) {
+    throw new Error(`Project export is missing contents for ${missing.map(file => file.path).join(', ')}`);
+  }
+
+  const generatedFiles: GeneratedFile[] = manifest.map(file => {
+    const content = contents.get(file.path)!;
+    return {
+      path: file.path,
+      content,
+      type: ['frontend', 'backend', 'config', 'database'].includes(file.type) ? file.type : inferFileType(file.path),
+      size: new Blob([content]).size
+    };
+  });
+
+  const rawDeployment = isRecord(app.deploymentConfig) ? app.deploymentConfig : {};
+  const dataModel = readDataModel(app.dataModel);
+  const generation = isRecord(data.metadata) ? readGenerationManifest(data.metadata.generation) : undefined;
+
+  return {
+    name,
+    description: readString(app, 'description'),
+    stack,
+    files: generatedFiles,
+    features: readStringArray(app.features),
+    endpoints: readEndpoints(app.endpoints),
+    deploymentConfig: {
+      frontend: readString(rawDeployment, 'frontend'),
+      backend: readString(rawDeployment, 'backend'),
+      database: readString(rawDeployment, 'database')
+    },
+    ...(dataModel ? { dataModel } : {}),
+    ...(generation ? { generation } : {})
+  };
+}
+
+/**
+ * Parse a JSON or YAML project export
+ */
+export function parseProjectExport(text: string): GeneratedApp {
+  let data: unknown;
+
+  try {
+    data = text.trimStart().startsWith('{') ? JSON.parse(text) : YAML.parse(text);
+  } catch (error) {
+    throw new Error(`Could not read project export: ${error instanceof Error ? error.message : 'invalid file'}`);
+  }
+
+  return projectFromExport(data);
+}
+
+// Installs and build output of a project the user ran locally
+const LOCAL_ONLY_DIRECTORY = /(^|\/)(node_modules|\.git|\.next|dist|build|coverage)\//;
+
+/**
+ * An archive re-created from the unpacked project usually nests everything
+ * in one directory; paths are made relative to the metadata file's directory
+ */
+function archiveRoot(archive: Record<string, string>): Record<string, string> {
+  const metadataPath = Object.keys(archive)
+    .filter(path => path === ARCHIVE_METADATA_FILE || path.endsWith(`/${ARCHIVE_METADATA_FILE}`))
+    .sort((a, b) => a.length - b.length)[0];
+  const root = metadataPath?.slice(0, -ARCHIVE_METADATA_FILE.length) ?? '';
+
+  return Object.fromEntries(
+    Object.entries(archive)
+      .filter(([path]) => path.startsWith(root))
+      .map(([path, content]): [string, string] => [path.slice(root.length), content])
+      .filter(([path]) => !LOCAL_ONLY_DIRECTORY.test(path))
+  );
+}
+
+/**
+ * Rebuild a GeneratedApp from the files of a downloaded archive, possibly
+ * edited since. Its metadata file holds the app settings and names the
+ * packaging extras to leave out; every other file is restored, including
+ * ones the user added.
+ */
+export function projectFromArchive(archive: Record<string, string>): GeneratedApp {
+  const files = archiveRoot(archive);
+  const rawMetadata = files[ARCHIVE_METADATA_FILE];
+  if (rawMetadata === undefined) {
+    throw new Error(`Not a FlashFusion project archive: ${ARCHIVE_METADATA_FILE} is missing`);
+  }
+
+  let metadata: unknown;
+  try {
+    metadata = JSON.parse(rawMetadata);
+  } catch {
+    throw new Error(`Could not read ${ARCHIVE_METADATA_FILE}`);
+  }
+  if (!isRecord(metadata) || !isRecord(metadata.project)) {
+    throw new Error('This archive was downloaded before projects could be re-imported; import a JSON or YAML export instead');
+  }
+
+  const packaging = new Set(readStringArray(metadata.packagingFiles));
+  const projectFiles = Object.fromEntries(
+    Object.entries(files).filter(([path]) => path !== ARCHIVE_METADATA_FILE && !packaging.has(path))
+  );
+  const known = new Map(
+    (Array.isArray(metadata.project.sourceFiles) ? metadata.project.sourceFiles : [])
+      .filter(isRecord)
+      .map(file => [readString(file, 'path'), file])
+  );
+
+  return projectFromExport({
+    metadata,
+    app: {
+      ...metadata.project,
+      sourceFiles: Object.keys(projectFiles).map(path => known.get(path) ?? { path, type: inferFileType(path) })
+    },
+    files: projectFiles
+  });
+}
+
+async function readZipArchive(file: File): Promise<Record<string, string>> {
+  const zip = await JSZip.loadAsync(await file.arrayBuffer());
+  const entries = Object.values(zip.files).filter(entry => !entry.dir);
+  const contents = await Promise.all(entries.map(entry => entry.async('string')));
+  return Object.fromEntries(entries.map((entry, index) => [entry.name, contents[index]]));
+}
+
+export async function importProjectFile(file: File): Promise<GeneratedApp> {
+  if (file.name.toLowerCase().endsWith('.zip')) {
+    return projectFromArchive(await readZipArchive(file));
+  }
+  return parseProjectExport(await file.text());
+}
@@ -0,0 +1,236 @@
+import type { AppStack, DataModel, GeneratedApp } from '../types/full-stack-builder';
+import { generateEntityValidation, generateSharedTypes } from './full-stack-code-generators';
+import { generateDeploymentConfig } from './full-stack-config-generators';
+import { stackTemplates, type PackageTarget, type StackTemplateRegistry } from './stack-templates';
+
+/**
+ * Project verification reports: what type-checking and the generated tests
+ * found when a generated project was materialized and built headlessly.
+ * The verifier itself (tools/verify-generated-project.ts) needs Node; the
+ * report format and parsers here are shared with the builder, which shows
+ * reports the CLI wrote.
+ */
+
+export type VerificationStepName = 'install' | 'generate' | 'typecheck' | 'test';
+
+export interface VerificationStep {
+  name: VerificationStepName;
+  /** `root` for steps that cover the whole project */
+  package: PackageTarget | 'root';
+  status: 'passed' | 'failed' | 'skipped';
+  durationMs: number;
+  /** Tail of the command output when the step failed */
+  output?: string;
+}
+
+export interface VerificationDiagnostic {
+  /** Path within the generated project, e.g. backend/src/app.ts */
+  file: string;
+  line: number;
+  column: number;
+  code: string;
+  message: string;
+}
+
+export interface VerificationTestFailure {
+  file: string;
+  name: string;
+  message: string;
+}
+
+export interface VerificationReport {
+  app: string;
+  stack: AppStack;
+  startedAt: string;
+  finishedAt: string;
+  ok: boolean;
+  steps: VerificationStep[];
+  diagnostics: VerificationDiagnostic[];
+  tests: {
+    total: number;
+    passed: number;
+    failed: number;
+    failures: VerificationTestFailure[];
+  };
+}
+
+const TSC_LINE = /^(.+?)\((\d+),(\d+)\): error (TS\d+): (.*)$/;
+
+const joinPath = (dir: string, file: string) =>
+  `${dir}/${file.replace(/\\/g, '/').replace(/^\.\//, '')}`;
+
+/**
+ * Diagnostics from `tsc --pretty false` run inside one package directory.
+ * Messages that continue on indented lines are joined to their diagnostic.
+ */
+export function parseTscOutput(output: string, packageDir: string): VerificationDiagnostic[] {
+  const diagnostics: VerificationDiagnostic[] = [];
+
+  for (const line of output.split(/\r?\n/)) {
+    const match = TSC_LINE.exec(line);
+    if (match) {
+      const [, file, lineNumber, column, code, message] = match;
+      diagnostics.push({
+        file: joinPath(packageDir, file),
+        line: Number(lineNumber),
+        column: Number(column),
+        code,
+        message
+      });
+    } else if (/^\s+\S/.test(line) && diagnostics.length > 0) {
+      diagnostics[diagnostics.length - 1].message += `\n${line.trim()}`;
+    }
+  }
+
+  return diagnostics;
+}
+
+/** The parts of Jest's `--json` output the report uses */
+interface JestJsonResult {
+  numTotalTests: number;
+  numPassedTests: number;
+  numFailedTests: number;
+  testResults: Array<{
+    name: string;
+    status: string;
+    message?: string;
+    assertionResults: Array<{
+      fullName: string;
+      status: string;
+      failureMessages?: string[];
+    }>;
+  }>;
+}
+
+// Jest colours its failure messages even in JSON output
+const stripAnsi = (text: string) => text.replace(/\u001b\[[0-9;]*m/g, '');
+
+/**
+ * Test counts and failures from Jest's `--json` output for one package. A
+ * suite that failed before running any test (e.g. it didn't compile) counts
+ * as one failure so it can't pass silently.
+ */
+export function parseJestResults(json: string, packageDir: string, rootDir: string): VerificationReport['tests'] {
+  const result = JSON.parse(json) as JestJsonResult;
+  const failures: VerificationTestFailure[] = [];
+  let brokenSuites = 0;
+
+  for (const suite of result.testResults) {
+    const file = joinPath(packageDir, suite.name.replace(/\\/g, '/').replace(`${rootDir.replace(/\\/g, '/')}/`, ''));
+
+    if (suite.status === 'failed' && suite.assertionResults.length === 0) {
+      brokenSuites += 1;
+      failures.push({ file, name: 'Test suite failed to run', message: stripAnsi(suite.message ?? '').trim() });
+      continue;
+    }
+
+    for (const test of suite.assertionResults) {
+      if (test.status === 'failed') {
+        failures.push({ file, name: test.fullName, message: stripAnsi((test.failureMessages ?? []).join('\n')).trim() });
+      }
+    }
+  }
+
+  return {
+    total: result.numTotalTests + brokenSuites,
+    passed: result.numPassedTests,
+    failed: result.numFailedTests + brokenSuites,
+    failures
+  };
+}
+
+/** Type errors grouped by file, files in path order */
+export function diagnosticsByFile(report: VerificationReport): Array<[string, VerificationDiagnostic[]]> {
+  const byFile = new Map<string, VerificationDiagnostic[]>();
+  for (const diagnostic of report.diagnostics) {
+    byFile.set(diagnostic.file, [...(byFile.get(diagnostic.file) ?? []), diagnostic]);
+  }
+  return [...byFile.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+/** Reads a report the CLI wrote; throws when the JSON isn't one */
+export function parseVerificationReport(json: string): VerificationReport {
+  const report = JSON.parse(json) as Partial<VerificationReport>;
+  if (
+    typeof report !== 'object' || report === null ||
+    typeof report.ok !== 'boolean' ||
+    !Array.isArray(report.steps) ||
+    !Array.isArray(report.diagnostics) ||
+    typeof report.tests?.total !== 'number'
+  ) {
+    throw new Error('Not a project verification report');
+  }
+  return report as VerificationReport;
+}
+
+const MATRIX_DATA_MODEL: DataModel = {
+  entities: [
+    {
+      name: 'Task',
+      fields: [
+        { name: 'title', type: 'string', required: true },
+        { name: 'done', type: 'boolean', required: true }
+      ],
+      relations: [{ name: 'project', target: 'Project', kind: 'many-to-one' }],
+      indexes: [],
+      timestamps: true
+    },
+    {
+      name: 'Project',
+      fields: [{ name: 'name', type: 'string', required: true, unique: true }],
+      relations: [],
+      indexes: [],
+      timestamps: false
+    }
+  ]
+};
+
+/**
+ * The project the templates and the data model produce for a stack, before
+ * any AI generated code is added; the verification matrix checks these.
+ */
+export function templateApp(
+  stack: AppStack,
+  dataModel: DataModel = MATRIX_DATA_MODEL,
+  registry: StackTemplateRegistry = stackTemplates
+): GeneratedApp {
+  const name = `Verify ${registry.templateName('frontend', stack.frontend)} ${registry.templateName('backend', stack.backend)}`;
+  const description = 'Template verification project';
+  const features: string[] = [];
+  const { files } = registry.compose({ name, description, stack, features, dataModel });
+  const sharedTypes = generateSharedTypes(dataModel, stack.database);
+  const entityValidation = generateEntityValidation(dataModel);
+
+  return {
+    name,
+    description,
+    stack,
+    files: [
+      ...files,
+      { path: 'backend/src/types/entities.ts', content: sharedTypes, type: 'backend', size: sharedTypes.length },
+      { path: 'frontend/src/types/entities.ts', content: sharedTypes, type: 'frontend', size: sharedTypes.length },
+      { path: 'backend/src/validation/entities.ts', content: entityValidation, type: 'backend', size: entityValidation.length }
+    ],
+    features,
+    endpoints: [],
+    deploymentConfig: generateDeploymentConfig(stack),
+    dataModel
+  };
+}
+
+/**
+ * Every frontend × backend × database combination the templates support,
+ * each with the first auth and deployment option (those only add packages
+ * and platform files)
+ */
+export function verificationMatrix(registry: StackTemplateRegistry = stackTemplates): AppStack[] {
+  const ids = (layer: keyof AppStack) => registry.list(layer).flatMap(template => template.ids.slice(0, 1));
+  const [auth] = ids('auth');
+  const [deployment] = ids('deployment');
+
+  return ids('frontend').flatMap(frontend =>
+    ids('backend').flatMap(backend =>
+      ids('database').map(database => ({ frontend, backend, database, auth, deployment }))
+    )
+  );
+}
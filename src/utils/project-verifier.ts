@@ -0,0 +1,218 @@
+import { spawn } from 'node:child_process';
+import { existsSync } from 'node:fs';
+import { mkdir, mkdtemp, readFile, readdir, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { dirname, join } from 'node:path';
+import type { GeneratedApp } from '../types/full-stack-builder';
+import { createEnhancedProjectZip } from './file-generators';
+import {
+  parseJestResults,
+  parseTscOutput,
+  type VerificationReport,
+  type VerificationStep
+} from './project-verification';
+import type { PackageTarget } from './stack-templates';
+
+/**
+ * Headless verification of a generated project (Node only): writes the
+ * download archive to a temp directory, installs it, type-checks each side
+ * and runs its generated Jest tests. Prisma projects download their query
+ * engine during `db:generate`, so offline runs need it in Prisma's cache.
+ */
+
+export interface VerifyProjectOptions {
+  /** npm cache to install from offline, so runs don't depend on the network */
+  cache?: string;
+  registry?: string;
+  /** Leave the materialized project on disk and report where */
+  keep?: boolean;
+  /** Time limit for each command */
+  timeoutMs?: number;
+  onStep?: (step: VerificationStep) => void;
+}
+
+/** Installed without saving when a side has tests; the generated package.json files don't list a test runner */
+const TEST_TOOLCHAIN: Record<PackageTarget, string[]> = {
+  backend: ['jest@^29.7.0', 'ts-jest@^29.2.4', '@types/jest@^29.5.12', 'supertest@^7.0.0', '@types/supertest@^6.0.2'],
+  frontend: [
+    'jest@^29.7.0',
+    'ts-jest@^29.2.4',
+    '@types/jest@^29.5.12',
+    'jest-environment-jsdom@^29.7.0',
+    '@testing-library/react@^14.3.1',
+    '@testing-library/jest-dom@^6.4.8'
+  ]
+};
+
+const JEST_CONFIG: Record<PackageTarget, object> = {
+  backend: {
+    testEnvironment: 'node',
+    roots: ['<rootDir>/src'],
+    testMatch: ['**/__tests__/**/*.test.ts'],
+    transform: { '^.+\\.ts$': ['ts-jest', { diagnostics: false, tsconfig: { esModuleInterop: true } }] }
+  },
+  frontend: {
+    testEnvironment: 'jsdom',
+    roots: ['<rootDir>/src'],
+    testMatch: ['**/__tests__/**/*.test.ts?(x)'],
+    transform: {
+      '^.+\\.tsx?$': ['ts-jest', { diagnostics: false, tsconfig: { jsx: 'react-jsx', esModuleInterop: true } }]
+    }
+  }
+};
+
+const OUTPUT_TAIL = 4000;
+
+interface CommandResult {
+  code: number | null;
+  output: string;
+}
+
+function run(command: string, args: string[], cwd: string, timeoutMs: number): Promise<CommandResult> {
+  return new Promise(resolve => {
+    const child = spawn(command, args, {
+      cwd,
+      timeout: timeoutMs,
+      env: { ...process.env, CI: 'true', NODE_ENV: 'test' }
+    });
+    let output = '';
+    const collect = (chunk: Buffer) => {
+      output = (output + chunk.toString()).slice(-OUTPUT_TAIL * 4);
+    };
+    child.stdout.on('data', collect);
+    child.stderr.on('data', collect);
+    child.on('error', error => resolve({ code: null, output: `${output}${error.message}` }));
+    child.on('close', code => resolve({ code, output }));
+  });
+}
+
+/** Writes every file of the project download under `directory` */
+export async function materializeProject(app: GeneratedApp, directory: string): Promise<string[]> {
+  const zip = await createEnhancedProjectZip(app, { format: 'zip', generateTests: true, generateDocumentation: false });
+  const paths: string[] = [];
+
+  for (const entry of Object.values(zip.files)) {
+    if (entry.dir) continue;
+    const target = join(directory, entry.name);
+    await mkdir(dirname(target), { recursive: true });
+    await writeFile(target, await entry.async('nodebuffer'));
+    paths.push(entry.name);
+  }
+
+  return paths.sort();
+}
+
+async function hasTests(directory: string): Promise<boolean> {
+  const testsDir = join(directory, 'src', '__tests__');
+  if (!existsSync(testsDir)) return false;
+  return (await readdir(testsDir)).some(name => /\.test\.tsx?$/.test(name));
+}
+
+/**
+ * Verifies one generated app. Never throws for problems in the generated
+ * project; those end up in the report with `ok: false`.
+ */
+export async function verifyGeneratedProject(
+  app: GeneratedApp,
+  options: VerifyProjectOptions = {}
+): Promise<VerificationReport & { directory?: string }> {
+  const timeoutMs = options.timeoutMs ?? 5 * 60 * 1000;
+  const root = await mkdtemp(join(tmpdir(), 'flashfusion-verify-'));
+  const report: VerificationReport = {
+    app: app.name,
+    stack: app.stack,
+    startedAt: new Date().toISOString(),
+    finishedAt: '',
+    ok: false,
+    steps: [],
+    diagnostics: [],
+    tests: { total: 0, passed: 0, failed: 0, failures: [] }
+  };
+
+  const step = async (
+    name: VerificationStep['name'],
+    target: VerificationStep['package'],
+    action: () => Promise<CommandResult | null>
+  ): Promise<CommandResult | null> => {
+    const started = Date.now();
+    const result = await action();
+    const entry: VerificationStep = {
+      name,
+      package: target,
+      status: result === null ? 'skipped' : result.code === 0 ? 'passed' : 'failed',
+      durationMs: Date.now() - started
+    };
+    if (entry.status === 'failed') entry.output = result!.output.slice(-OUTPUT_TAIL);
+    report.steps.push(entry);
+    options.onStep?.(entry);
+    return result;
+  };
+
+  try {
+    await materializeProject(app, root);
+
+    const targets = (['backend', 'frontend'] as const).filter(target => existsSync(join(root, target, 'package.json')));
+    const tested = (await Promise.all(targets.map(async target => ((await hasTests(join(root, target))) ? target : null))))
+      .filter((target): target is PackageTarget => target !== null);
+    const toolchain = [...new Set(tested.flatMap(target => TEST_TOOLCHAIN[target]))];
+    const bin = (name: string) => join(root, 'node_modules', '.bin', name);
+
+    // The project is an npm workspace, so one install at the root covers both sides
+    const installed = await step('install', 'root', () =>
+      run('npm', [
+        'install',
+        '--no-audit',
+        '--no-fund',
+        ...(options.cache ? ['--offline', '--cache', options.cache] : []),
+        ...(options.registry ? ['--registry', options.registry] : []),
+        ...(toolchain.length > 0 ? ['--no-save', ...toolchain] : [])
+      ], root, timeoutMs)
+    );
+
+    // Nothing after this can run without the dependencies
+    for (const target of installed?.code === 0 ? targets : []) {
+      const directory = join(root, target);
+      const scripts: Record<string, string> = JSON.parse(await readFile(join(directory, 'package.json'), 'utf8')).scripts ?? {};
+
+      await step('generate', target, async () =>
+        scripts['db:generate'] ? run('npm', ['run', 'db:generate'], directory, timeoutMs) : null
+      );
+
+      const typecheck = await step('typecheck', target, () =>
+        run(bin('tsc'), ['--noEmit', '--pretty', 'false', '-p', 'tsconfig.json'], directory, timeoutMs)
+      );
+      report.diagnostics.push(...parseTscOutput(typecheck!.output, target));
+
+      const resultsFile = join(root, `${target}-jest.json`);
+      await step('test', target, async () =>
+        tested.includes(target)
+          ? run(bin('jest'), [
+            '--ci',
+            '--forceExit',
+            '--json',
+            '--outputFile', resultsFile,
+            '--config', JSON.stringify({ rootDir: directory, ...JEST_CONFIG[target] })
+          ], directory, timeoutMs)
+          : null
+      );
+      if (existsSync(resultsFile)) {
+        const tests = parseJestResults(await readFile(resultsFile, 'utf8'), target, directory);
+        report.tests.total += tests.total;
+        report.tests.passed += tests.passed;
+        report.tests.failed += tests.failed;
+        report.tests.failures.push(...tests.failures);
+      }
+    }
+  } finally {
+    if (!options.keep) await rm(root, { recursive: true, force: true });
+  }
+
+  report.finishedAt = new Date().toISOString();
+  report.ok =
+    report.steps.length > 0 &&
+    report.steps.every(entry => entry.status !== 'failed') &&
+    report.diagnostics.length === 0 &&
+    report.tests.failed === 0;
+
+  return options.keep ? { ...report, directory: root } : report;
+}
@@ -0,0 +1,13 @@
+export {
+  buildPath,
+  compareSpecificity,
+  matchPath,
+  normalizePathname,
+  type PathParams
+} from './path';
+export {
+  RouteTable,
+  safeRedirectPath,
+  type RouteDefinition,
+  type RouteMatch
+} from './route-table';
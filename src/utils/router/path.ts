@@ -0,0 +1,78 @@
+/**
+ * Path patterns like `/projects/:id`: matching a pathname against one,
+ * building a pathname from one, and the parameter names a pattern declares
+ * as a type.
+ */
+
+type ParamNames<Path extends string> =
+  Path extends `${string}:${infer Name}/${infer Rest}`
+    ? Name | ParamNames<`/${Rest}`>
+    : Path extends `${string}:${infer Name}`
+      ? Name
+      : never;
+
+/** `{ id: string }` for `/projects/:id`; `{}` for a path without parameters */
+export type PathParams<Path extends string> = { [Name in ParamNames<Path>]: string };
+
+function segments(path: string): string[] {
+  return path.split('/').filter(Boolean);
+}
+
+function isParam(segment: string): boolean {
+  return segment.startsWith(':');
+}
+
+/** Leading slash, no repeated or trailing slashes */
+export function normalizePathname(pathname: string): string {
+  return `/${segments(pathname).join('/')}`;
+}
+
+/**
+ * The parameters `pathname` fills in `pattern`, or null when it doesn't
+ * match. Static segments match exactly; every segment has to be there.
+ */
+export function matchPath(pattern: string, pathname: string): Record<string, string> | null {
+  const expected = segments(pattern);
+  const actual = segments(pathname);
+  if (expected.length !== actual.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let index = 0; index < expected.length; index++) {
+    const segment = expected[index];
+    if (!isParam(segment)) {
+      if (segment !== actual[index]) return null;
+      continue;
+    }
+    try {
+      params[segment.slice(1)] = decodeURIComponent(actual[index]);
+    } catch {
+      return null; // malformed escape
+    }
+  }
+  return params;
+}
+
+export function buildPath<Path extends string>(pattern: Path, params: PathParams<Path>): string {
+  const values = params as Record<string, string | undefined>;
+  const built = segments(pattern).map(segment => {
+    if (!isParam(segment)) return segment;
+    const value = values[segment.slice(1)];
+    if (!value) throw new Error(`Missing route parameter "${segment.slice(1)}" for ${pattern}`);
+    return encodeURIComponent(value);
+  });
+  return `/${built.join('/')}`;
+}
+
+/**
+ * Orders patterns so the more specific one is tried first: at the first
+ * segment where they differ, a static segment beats a parameter.
+ */
+export function compareSpecificity(a: string, b: string): number {
+  const left = segments(a);
+  const right = segments(b);
+  for (let index = 0; index < Math.min(left.length, right.length); index++) {
+    const difference = Number(isParam(left[index])) - Number(isParam(right[index]));
+    if (difference !== 0) return difference;
+  }
+  return right.length - left.length;
+}
@@ -0,0 +1,51 @@
+import { compareSpecificity, matchPath, normalizePathname } from './path';
+
+export interface RouteDefinition<Page extends string = string> {
+  page: Page;
+  path: string;
+}
+
+export interface RouteMatch<Page extends string = string> {
+  page: Page;
+  path: string;
+  params: Record<string, string>;
+}
+
+/**
+ * Resolves pathnames to pages. Routes are tried most specific first, so
+ * `/tools/new` wins over `/tools/:toolId`; of two identical paths the one
+ * listed first wins.
+ */
+export class RouteTable<Page extends string = string> {
+  private routes: RouteDefinition<Page>[];
+  private paths = new Map<Page, string>();
+
+  constructor(routes: RouteDefinition<Page>[]) {
+    this.routes = [...routes].sort((a, b) => compareSpecificity(a.path, b.path));
+    routes.forEach(route => this.paths.set(route.page, route.path));
+  }
+
+  match(pathname: string): RouteMatch<Page> | null {
+    const normalized = normalizePathname(pathname);
+    for (const route of this.routes) {
+      const params = matchPath(route.path, normalized);
+      if (params) return { page: route.page, path: route.path, params };
+    }
+    return null;
+  }
+
+  pathOf(page: Page): string | undefined {
+    return this.paths.get(page);
+  }
+}
+
+/**
+ * `target` when it is a path on this site, `fallback` otherwise. Keeps a
+ * `redirect` query parameter from sending the user to another origin.
+ */
+export function safeRedirectPath(target: string | null | undefined, fallback = '/'): string {
+  if (!target || !target.startsWith('/') || target.startsWith('//') || target.startsWith('/\\')) {
+    return fallback;
+  }
+  return target;
+}
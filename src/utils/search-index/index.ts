@@ -0,0 +1,297 @@
+import type {
+  SearchDocument,
+  SearchFacets,
+  SearchField,
+  SearchHit,
+  SearchOptions,
+  SearchResponse
+} from '../../types/search';
+import { editDistance, maxEdits } from './fuzzy';
+import { normalize, tokenize } from './tokenize';
+
+/**
+ * In-memory search index: an inverted index over title, tags and
+ * description, BM25 scoring with per-field boosts, prefix and typo-tolerant
+ * term matching, and recency and usage signals on top of text relevance.
+ */
+
+export { editDistance, maxEdits } from './fuzzy';
+export { normalize, stem, tokenize } from './tokenize';
+export {
+  projectDocuments,
+  routeDocuments,
+  templateDocuments,
+  toolDocuments,
+  type IndexableProject
+} from './sources';
+
+export const FIELD_BOOSTS: Record<SearchField, number> = {
+  title: 3,
+  tags: 2,
+  description: 1
+};
+
+const FIELDS = Object.keys(FIELD_BOOSTS) as SearchField[];
+
+/** How much a term counts when it matched the query term other than exactly */
+const MATCH_QUALITY = {
+  exact: 1,
+  prefix: 0.8,
+  typo: 0.6,
+  typoPrefix: 0.45
+};
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/** The most recent documents score up to this much more, halving every `RECENCY_HALF_LIFE_DAYS` */
+const RECENCY_WEIGHT = 0.3;
+const RECENCY_HALF_LIFE_DAYS = 30;
+/** The most used document scores this much more; the rest scale by log of usage */
+const USAGE_WEIGHT = 0.3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+type FieldFrequencies = Partial<Record<SearchField, number>>;
+
+interface TermExpansion {
+  term: string;
+  quality: number;
+}
+
+function emptyFacets(): SearchFacets {
+  return { type: {}, category: {}, tags: {} };
+}
+
+function count(bucket: Record<string, number>, key: string | undefined) {
+  if (key) bucket[key] = (bucket[key] ?? 0) + 1;
+}
+
+export class SearchIndex<D extends SearchDocument = SearchDocument> {
+  private documents = new Map<string, D>();
+  /** term -> document id -> occurrences per field */
+  private postings = new Map<string, Map<string, FieldFrequencies>>();
+  /** document id -> its terms, for removal */
+  private terms = new Map<string, Set<string>>();
+  private lengths = new Map<string, Record<SearchField, number>>();
+  private totalLengths: Record<SearchField, number> = { title: 0, tags: 0, description: 0 };
+
+  constructor(documents: D[] = []) {
+    this.addAll(documents);
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  get(id: string): D | undefined {
+    return this.documents.get(id);
+  }
+
+  /** Adds the document, replacing any with the same id */
+  add(document: D): void {
+    this.remove(document.id);
+    this.documents.set(document.id, document);
+
+    const fieldTerms: Record<SearchField, string[]> = {
+      title: tokenize(document.title),
+      tags: [...document.tags, document.category ?? ''].flatMap(tokenize),
+      description: tokenize(document.description)
+    };
+
+    const lengths = { title: 0, tags: 0, description: 0 };
+    for (const field of FIELDS) {
+      lengths[field] = fieldTerms[field].length;
+      this.totalLengths[field] += lengths[field];
+      for (const term of fieldTerms[field]) {
+        let posting = this.postings.get(term);
+        if (!posting) {
+          posting = new Map();
+          this.postings.set(term, posting);
+        }
+        const frequencies = posting.get(document.id) ?? {};
+        frequencies[field] = (frequencies[field] ?? 0) + 1;
+        posting.set(document.id, frequencies);
+      }
+    }
+    this.lengths.set(document.id, lengths);
+    this.terms.set(document.id, new Set(FIELDS.flatMap(field => fieldTerms[field])));
+  }
+
+  addAll(documents: D[]): void {
+    documents.forEach(document => this.add(document));
+  }
+
+  remove(id: string): boolean {
+    const lengths = this.lengths.get(id);
+    if (!lengths) return false;
+
+    for (const term of this.terms.get(id)!) {
+      const posting = this.postings.get(term)!;
+      posting.delete(id);
+      if (posting.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    for (const field of FIELDS) {
+      this.totalLengths[field] -= lengths[field];
+    }
+    this.terms.delete(id);
+    this.lengths.delete(id);
+    this.documents.delete(id);
+    return true;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.terms.clear();
+    this.lengths.clear();
+    this.totalLengths = { title: 0, tags: 0, description: 0 };
+  }
+
+  /**
+   * Documents matching every term of `query`, best first. An empty query
+   * matches everything and ranks by recency and usage alone.
+   */
+  search(query: string, options: SearchOptions = {}): SearchResponse<D> {
+    const queryTerms = [...new Set(tokenize(query))];
+    const scored = queryTerms.length === 0 ? this.scoreAll() : this.scoreTerms(queryTerms);
+
+    const facets = emptyFacets();
+    const { filters = {}, limit = 20, now = Date.now() } = options;
+    const maxUsage = Math.max(0, ...[...this.documents.values()].map(document => document.usage ?? 0));
+    const normalizedQuery = normalize(query.trim());
+    const hits: SearchHit<D>[] = [];
+
+    for (const [id, { score, matchedFields }] of scored) {
+      const document = this.documents.get(id)!;
+      count(facets.type, document.type);
+      count(facets.category, document.category);
+      document.tags.forEach(tag => count(facets.tags, tag));
+
+      if (filters.type?.length && !filters.type.includes(document.type)) continue;
+      if (filters.category?.length && !(document.category && filters.category.includes(document.category))) continue;
+      if (filters.tags?.length && !filters.tags.some(tag => document.tags.includes(tag))) continue;
+
+      hits.push({
+        document,
+        score: score * this.titleBonus(document, normalizedQuery) * this.signals(document, now, maxUsage),
+        matchedFields
+      });
+    }
+
+    hits.sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title));
+    return { hits: hits.slice(0, limit), total: hits.length, facets };
+  }
+
+  private scoreAll(): Map<string, { score: number; matchedFields: SearchField[] }> {
+    return new Map([...this.documents.keys()].map(id => [id, { score: 1, matchedFields: [] }]));
+  }
+
+  private scoreTerms(queryTerms: string[]): Map<string, { score: number; matchedFields: SearchField[] }> {
+    let results: Map<string, { score: number; matchedFields: Set<SearchField> }> | null = null;
+
+    for (const queryTerm of queryTerms) {
+      const termScores = new Map<string, { score: number; matchedFields: Set<SearchField> }>();
+
+      for (const { term, quality } of this.expand(queryTerm)) {
+        const posting = this.postings.get(term)!;
+        const idf = Math.log(1 + (this.documents.size - posting.size + 0.5) / (posting.size + 0.5));
+
+        for (const [id, frequencies] of posting) {
+          if (results && !results.has(id)) continue;
+
+          let score = 0;
+          const matchedFields = new Set<SearchField>();
+          for (const field of FIELDS) {
+            const frequency = frequencies[field];
+            if (!frequency) continue;
+            matchedFields.add(field);
+            score += FIELD_BOOSTS[field] * idf * this.termWeight(frequency, id, field);
+          }
+          score *= quality;
+
+          // A document scores by the best of the terms the query term expanded to
+          const best = termScores.get(id);
+          if (best) {
+            best.score = Math.max(best.score, score);
+            matchedFields.forEach(field => best.matchedFields.add(field));
+          } else {
+            termScores.set(id, { score, matchedFields });
+          }
+        }
+      }
+
+      // Every query term has to match somewhere
+      const combined = new Map<string, { score: number; matchedFields: Set<SearchField> }>();
+      for (const [id, termScore] of termScores) {
+        const previous = results?.get(id);
+        combined.set(id, previous
+          ? { score: previous.score + termScore.score, matchedFields: new Set([...previous.matchedFields, ...termScore.matchedFields]) }
+          : termScore);
+      }
+      results = combined;
+      if (results.size === 0) break;
+    }
+
+    return new Map([...(results ?? [])].map(([id, { score, matchedFields }]) => [
+      id,
+      { score, matchedFields: FIELDS.filter(field => matchedFields.has(field)) }
+    ]));
+  }
+
+  /** Index terms a query term stands for: itself, terms it starts, and terms within its typo budget */
+  private expand(queryTerm: string): TermExpansion[] {
+    const edits = maxEdits(queryTerm);
+    const expansions: TermExpansion[] = [];
+
+    for (const term of this.postings.keys()) {
+      if (term === queryTerm) {
+        expansions.push({ term, quality: MATCH_QUALITY.exact });
+      } else if (queryTerm.length >= 2 && term.startsWith(queryTerm)) {
+        expansions.push({ term, quality: MATCH_QUALITY.prefix });
+      } else if (edits > 0) {
+        if (editDistance(queryTerm, term, edits) <= edits) {
+          expansions.push({ term, quality: MATCH_QUALITY.typo });
+        } else if (term.length > queryTerm.length && editDistance(queryTerm, term.slice(0, queryTerm.length), edits) <= edits) {
+          expansions.push({ term, quality: MATCH_QUALITY.typoPrefix });
+        }
+      }
+    }
+
+    return expansions;
+  }
+
+  private termWeight(frequency: number, id: string, field: SearchField): number {
+    const averageLength = this.totalLengths[field] / this.documents.size || 1;
+    const length = this.lengths.get(id)![field];
+    return (frequency * (K1 + 1)) / (frequency + K1 * (1 - B + B * length / averageLength));
+  }
+
+  /** Typing a title out in full should put that document first */
+  private titleBonus(document: D, normalizedQuery: string): number {
+    if (!normalizedQuery) return 1;
+    const title = normalize(document.title);
+    if (title === normalizedQuery) return 2;
+    if (title.startsWith(normalizedQuery)) return 1.3;
+    return 1;
+  }
+
+  private signals(document: D, now: number, maxUsage: number): number {
+    let factor = 1;
+
+    const updatedAt = document.updatedAt ? Date.parse(document.updatedAt) : NaN;
+    if (!Number.isNaN(updatedAt)) {
+      const ageDays = Math.max(0, now - updatedAt) / DAY_MS;
+      factor *= 1 + RECENCY_WEIGHT * Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    }
+
+    if (maxUsage > 0 && document.usage) {
+      factor *= 1 + USAGE_WEIGHT * Math.log1p(document.usage) / Math.log1p(maxUsage);
+    }
+
+    return factor;
+  }
+}
@@ -0,0 +1,109 @@
+import type { Tool } from '../../types';
+import type { SearchDocument } from '../../types/search';
+import type { RouteConfig } from '../../components/layout/route-constants';
+import type { StackTemplate } from '../stack-templates/types';
+
+/** Search documents built from the app's catalogs; ids are prefixed with the type so they never collide */
+
+const TOOL_CATEGORY_NAMES: Record<Tool['category'], string> = {
+  generation: 'Generation',
+  design: 'Design',
+  optimization: 'Optimization',
+  analysis: 'Analysis',
+  automation: 'Automation',
+  collaboration: 'Collaboration'
+};
+
+const ROUTE_CATEGORY_NAMES: Record<RouteConfig['category'], string> = {
+  public: 'Pages',
+  protected: 'Workspace',
+  'design-system': 'Guides',
+  differentiators: 'Features',
+  tools: 'Tools'
+};
+
+const LAYER_NAMES: Record<StackTemplate['layer'], string> = {
+  frontend: 'Frontend',
+  backend: 'Backend',
+  database: 'Database',
+  auth: 'Authentication',
+  deployment: 'Deployment'
+};
+
+/** The fields of a saved project the index uses; `projectService` rows have them */
+export interface IndexableProject {
+  id: string;
+  name: string;
+  description?: string;
+  framework?: string;
+  features?: string[];
+  deployment_status?: string;
+  created_at?: string;
+  updated_at?: string;
+}
+
+export function toolDocuments(tools: Tool[]): SearchDocument[] {
+  return tools.map(tool => ({
+    id: `tool:${tool.id}`,
+    type: 'tool',
+    title: tool.name,
+    description: tool.description,
+    tags: [tool.tier, ...(tool.featured ? ['featured'] : []), ...(tool.comingSoon ? ['coming soon'] : [])],
+    category: TOOL_CATEGORY_NAMES[tool.category],
+    url: `/tools/${tool.id}`,
+    icon: tool.icon,
+    usage: tool.usageCount,
+    metadata: { tier: tool.tier }
+  }));
+}
+
+/**
+ * App pages; the design-system pages are written guidance, so they are
+ * documentation. Pages with path parameters are reached through their
+ * parent and left out.
+ */
+export function routeDocuments(routes: RouteConfig[]): SearchDocument[] {
+  return routes
+    .filter(route => !route.path.includes(':'))
+    .map(route => ({
+      id: `page:${route.page}`,
+      type: route.category === 'design-system' ? 'documentation' : 'page',
+      title: route.title.replace(/\s+-\s+FlashFusion$/, ''),
+      description: route.description,
+      tags: [...(route.tier ? [route.tier] : []), ...(route.comingSoon ? ['coming soon'] : [])],
+      category: ROUTE_CATEGORY_NAMES[route.category],
+      url: route.path,
+      metadata: { requiresAuth: route.requiresAuth }
+    }));
+}
+
+/** Stack templates the Full-Stack App Builder composes projects from */
+export function templateDocuments(templates: StackTemplate[]): SearchDocument[] {
+  return templates.map(template => ({
+    id: `template:${template.layer}:${template.ids[0]}`,
+    type: 'template',
+    title: template.name,
+    description: `${LAYER_NAMES[template.layer]} template for generated full-stack apps`,
+    tags: [...template.ids, ...(template.orm ? [template.orm] : []), ...(template.containerized ? ['docker'] : [])],
+    category: LAYER_NAMES[template.layer],
+    url: '/templates',
+    metadata: { layer: template.layer }
+  }));
+}
+
+export function projectDocuments(projects: IndexableProject[]): SearchDocument[] {
+  return projects.map(project => ({
+    id: `project:${project.id}`,
+    type: 'project',
+    title: project.name,
+    description: project.description ?? '',
+    tags: [...(project.framework ? [project.framework] : []), ...(project.features ?? [])],
+    category: 'Projects',
+    url: '/projects',
+    updatedAt: project.updated_at ?? project.created_at,
+    metadata: {
+      projectId: project.id,
+      ...(project.deployment_status && { status: project.deployment_status })
+    }
+  }));
+}
@@ -0,0 +1,39 @@
+/** Text to index terms; queries and documents go through the same steps */
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'in', 'into', 'is', 'it',
+  'of', 'on', 'or', 'the', 'this', 'to', 'with', 'your', 'you'
+]);
+
+/** Lowercase with accents removed, so "Café" and "cafe" are the same term */
+export function normalize(text: string): string {
+  return text.normalize('NFKD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+}
+
+/**
+ * Strip plural endings so "templates" finds "template". Deliberately light:
+ * typo tolerance covers most other inflections.
+ */
+export function stem(term: string): string {
+  if (term.length > 4 && term.endsWith('ies')) return `${term.slice(0, -3)}y`;
+  if (term.length > 3 && term.endsWith('s') && !term.endsWith('ss') && !term.endsWith('us')) return term.slice(0, -1);
+  return term;
+}
+
+/**
+ * Index terms of `text`. A camelCase word yields itself and its parts, so
+ * "GitHub" is found by both "github" and "hub".
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of text.split(/[^\p{L}\p{N}]+/u)) {
+    const parts = word.replace(/([a-z0-9])([A-Z])/g, '$1 $2').split(' ');
+    for (const part of parts.length > 1 ? [word, ...parts] : parts) {
+      const term = normalize(part).replace(/[^a-z0-9]/g, '');
+      if (term && !STOP_WORDS.has(term)) {
+        terms.push(stem(term));
+      }
+    }
+  }
+  return terms;
+}
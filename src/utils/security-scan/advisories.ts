@@ -0,0 +1,47 @@
+import type { ScanSeverity } from '../../types/security-scan';
+
+/**
+ * Offline snapshot of npm security advisories for widely used packages, so
+ * dependency audits work without a network connection. Ranges use the
+ * comparators understood by `satisfies` in ./dependencies, joined by `||`.
+ */
+
+export interface PackageAdvisory {
+  id: string;
+  package: string;
+  vulnerable: string;
+  /** First version without the issue on the affected release line, if one exists */
+  patched: string | null;
+  severity: ScanSeverity;
+  title: string;
+}
+
+export const NPM_ADVISORIES: PackageAdvisory[] = [
+  { id: 'CVE-2021-23337', package: 'lodash', vulnerable: '<4.17.21', patched: '4.17.21', severity: 'high', title: 'Command injection in lodash.template' },
+  { id: 'CVE-2020-8203', package: 'lodash', vulnerable: '<4.17.19', patched: '4.17.19', severity: 'high', title: 'Prototype pollution in zipObjectDeep' },
+  { id: 'CVE-2021-44906', package: 'minimist', vulnerable: '<0.2.4 || >=1.0.0 <1.2.6', patched: '1.2.6', severity: 'critical', title: 'Prototype pollution' },
+  { id: 'CVE-2020-28168', package: 'axios', vulnerable: '<0.21.1', patched: '0.21.1', severity: 'medium', title: 'Server-side request forgery through redirects' },
+  { id: 'CVE-2023-45857', package: 'axios', vulnerable: '>=0.8.1 <0.28.0 || >=1.0.0 <1.6.0', patched: '1.6.0', severity: 'medium', title: 'XSRF-TOKEN sent to third-party hosts' },
+  { id: 'CVE-2022-0235', package: 'node-fetch', vulnerable: '<2.6.7 || >=3.0.0 <3.1.1', patched: '2.6.7', severity: 'high', title: 'Cookie and authorization headers forwarded to other hosts on redirect' },
+  { id: 'CVE-2022-23540', package: 'jsonwebtoken', vulnerable: '<9.0.0', patched: '9.0.0', severity: 'medium', title: 'Insecure default algorithm allows signature bypass' },
+  { id: 'CVE-2024-29041', package: 'express', vulnerable: '<4.19.2', patched: '4.19.2', severity: 'medium', title: 'Open redirect in malformed URLs' },
+  { id: 'CVE-2022-25883', package: 'semver', vulnerable: '<5.7.2 || >=6.0.0 <6.3.1 || >=7.0.0 <7.5.2', patched: '7.5.2', severity: 'medium', title: 'Regular expression denial of service' },
+  { id: 'CVE-2022-46175', package: 'json5', vulnerable: '<1.0.2 || >=2.0.0 <2.2.2', patched: '2.2.2', severity: 'high', title: 'Prototype pollution in parse' },
+  { id: 'CVE-2023-26136', package: 'tough-cookie', vulnerable: '<4.1.3', patched: '4.1.3', severity: 'medium', title: 'Prototype pollution' },
+  { id: 'CVE-2023-26115', package: 'word-wrap', vulnerable: '<1.2.4', patched: '1.2.4', severity: 'medium', title: 'Regular expression denial of service' },
+  { id: 'CVE-2022-31129', package: 'moment', vulnerable: '>=2.18.0 <2.29.4', patched: '2.29.4', severity: 'high', title: 'Inefficient parsing of RFC 2822 dates (ReDoS)' },
+  { id: 'CVE-2021-23369', package: 'handlebars', vulnerable: '<4.7.7', patched: '4.7.7', severity: 'critical', title: 'Remote code execution when compiling untrusted templates' },
+  { id: 'CVE-2024-28849', package: 'follow-redirects', vulnerable: '<1.15.6', patched: '1.15.6', severity: 'medium', title: 'Proxy-Authorization header kept across hosts' },
+  { id: 'CVE-2023-0842', package: 'xml2js', vulnerable: '<0.5.0', patched: '0.5.0', severity: 'medium', title: 'Prototype pollution' },
+  { id: 'CVE-2022-29078', package: 'ejs', vulnerable: '<3.1.7', patched: '3.1.7', severity: 'critical', title: 'Template injection through the outputFunctionName option' },
+  { id: 'CVE-2021-23358', package: 'underscore', vulnerable: '>=1.3.2 <1.12.1', patched: '1.12.1', severity: 'high', title: 'Arbitrary code execution in template' },
+  { id: 'CVE-2022-24771', package: 'node-forge', vulnerable: '<1.3.0', patched: '1.3.0', severity: 'high', title: 'RSA PKCS#1 v1.5 signature verification is too lenient' },
+  { id: 'CVE-2022-33987', package: 'got', vulnerable: '<11.8.5 || >=12.0.0 <12.1.0', patched: '11.8.5', severity: 'medium', title: 'Redirects to UNIX sockets are followed' },
+  { id: 'CVE-2024-45296', package: 'path-to-regexp', vulnerable: '<0.1.10', patched: '0.1.10', severity: 'high', title: 'Backtracking regular expressions (ReDoS)' },
+  { id: 'CVE-2021-32640', package: 'ws', vulnerable: '>=5.0.0 <5.2.3 || >=6.0.0 <6.2.2 || >=7.0.0 <7.4.6', patched: '7.4.6', severity: 'medium', title: 'ReDoS in Sec-Websocket-Protocol header' },
+  { id: 'CVE-2024-37890', package: 'ws', vulnerable: '>=8.0.0 <8.17.1', patched: '8.17.1', severity: 'high', title: 'Denial of service with many HTTP headers' },
+  { id: 'CVE-2024-21538', package: 'cross-spawn', vulnerable: '<6.0.6 || >=7.0.0 <7.0.5', patched: '7.0.5', severity: 'high', title: 'Regular expression denial of service' },
+  { id: 'CVE-2024-4068', package: 'braces', vulnerable: '<3.0.3', patched: '3.0.3', severity: 'high', title: 'Uncontrolled resource consumption' },
+  { id: 'CVE-2024-4067', package: 'micromatch', vulnerable: '<4.0.8', patched: '4.0.8', severity: 'medium', title: 'Regular expression denial of service' },
+  { id: 'CVE-2025-29927', package: 'next', vulnerable: '>=11.1.4 <12.3.5 || >=13.0.0 <13.5.9 || >=14.0.0 <14.2.25 || >=15.0.0 <15.2.3', patched: '15.2.3', severity: 'critical', title: 'Authorization bypass in middleware' }
+];
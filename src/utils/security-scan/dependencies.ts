@@ -0,0 +1,221 @@
+import type { DependencyIssue, ScanFile } from '../../types/security-scan';
+import { NPM_ADVISORIES, type PackageAdvisory } from './advisories';
+
+/**
+ * Dependency audit: reads installed versions from npm, Yarn and pnpm
+ * lockfiles (or, failing that, the lowest version a package.json range
+ * allows) and matches them against an advisory list.
+ */
+
+export interface InstalledPackage {
+  name: string;
+  version: string;
+  manifest: string;
+}
+
+type Version = [number, number, number, string];
+
+function parseVersion(value: string): Version | null {
+  const match = /^v?(\d+)(?:\.(\d+))?(?:\.(\d+))?(?:-([0-9A-Za-z.-]+))?/.exec(value.trim());
+  if (!match) return null;
+  return [Number(match[1]), Number(match[2] ?? 0), Number(match[3] ?? 0), match[4] ?? ''];
+}
+
+/** Negative, zero or positive as `a` is lower than, equal to or higher than `b`; prereleases sort first */
+export function compareVersions(a: string, b: string): number {
+  const left = parseVersion(a);
+  const right = parseVersion(b);
+  if (!left || !right) return 0;
+  for (let i = 0; i < 3; i++) {
+    if (left[i] !== right[i]) return (left[i] as number) - (right[i] as number);
+  }
+  if (left[3] === right[3]) return 0;
+  if (!left[3]) return 1;
+  if (!right[3]) return -1;
+  return left[3] < right[3] ? -1 : 1;
+}
+
+/** Whether `version` is inside a range of space-separated comparators (`>=1.0.0 <1.6.0`), alternatives joined by `||` */
+export function satisfies(version: string, range: string): boolean {
+  if (!parseVersion(version)) return false;
+  return range.split('||').some(alternative =>
+    alternative.trim().split(/\s+/).filter(Boolean).every(comparator => {
+      const match = /^(<=|>=|<|>|=)?(.+)$/.exec(comparator)!;
+      const order = compareVersions(version, match[2]);
+      switch (match[1]) {
+        case '<': return order < 0;
+        case '<=': return order <= 0;
+        case '>': return order > 0;
+        case '>=': return order >= 0;
+        default: return order === 0;
+      }
+    })
+  );
+}
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function dirname(path: string): string {
+  const slash = path.lastIndexOf('/');
+  return slash === -1 ? '' : path.slice(0, slash);
+}
+
+/** `lodash@^4.17.0` / `@scope/pkg@npm:1.0.0` → package name */
+function nameFromSpecifier(specifier: string): string {
+  const at = specifier.indexOf('@', 1);
+  return at === -1 ? specifier : specifier.slice(0, at);
+}
+
+function readPackageLock(file: ScanFile): InstalledPackage[] {
+  const lock = JSON.parse(file.content);
+  const installed: InstalledPackage[] = [];
+
+  if (lock.packages) {
+    // lockfileVersion 2 and 3: flat map of node_modules paths
+    for (const [path, entry] of Object.entries<any>(lock.packages)) {
+      if (!path || entry.link || !entry.version) continue;
+      const name = entry.name ?? path.slice(path.lastIndexOf('node_modules/') + 'node_modules/'.length);
+      installed.push({ name, version: entry.version, manifest: file.path });
+    }
+    return installed;
+  }
+
+  // lockfileVersion 1: nested dependency tree
+  const walk = (dependencies: Record<string, any> | undefined) => {
+    for (const [name, entry] of Object.entries(dependencies ?? {})) {
+      if (entry.version) installed.push({ name, version: entry.version, manifest: file.path });
+      walk(entry.dependencies);
+    }
+  };
+  walk(lock.dependencies);
+  return installed;
+}
+
+function readYarnLock(file: ScanFile): InstalledPackage[] {
+  const installed: InstalledPackage[] = [];
+  let name: string | null = null;
+
+  for (const line of file.content.split('\n')) {
+    if (/^\S.*:\s*$/.test(line) && !line.startsWith('#') && !line.startsWith('__metadata')) {
+      const first = line.replace(/:\s*$/, '').split(',')[0].trim().replace(/^"|"$/g, '');
+      name = nameFromSpecifier(first);
+      continue;
+    }
+    // v1 writes `version "1.2.3"`, berry writes `version: 1.2.3`
+    const version = /^\s+version:?\s+"?([^"\s]+)"?/.exec(line);
+    if (version && name) {
+      installed.push({ name, version: version[1], manifest: file.path });
+      name = null;
+    }
+  }
+  return installed;
+}
+
+function readPnpmLock(file: ScanFile): InstalledPackage[] {
+  const installed: InstalledPackage[] = [];
+  let inPackages = false;
+
+  for (const line of file.content.split('\n')) {
+    if (/^\S/.test(line)) {
+      inPackages = /^(?:packages|snapshots):/.test(line);
+      continue;
+    }
+    if (!inPackages) continue;
+    // `/lodash/4.17.21:` (v5), `/lodash@4.17.21:` (v6), `lodash@4.17.21:` (v9), each optionally quoted
+    const entry = /^ {2}['"]?\/?((?:@[^/\s]+\/)?[^@/\s'"]+)[@/](\d[^:('"_\s]*)/.exec(line);
+    if (entry) installed.push({ name: entry[1], version: entry[2], manifest: file.path });
+  }
+  return installed;
+}
+
+/** Without a lockfile the best guess is the lowest version each declared range accepts */
+function readPackageJson(file: ScanFile): InstalledPackage[] {
+  const manifest = JSON.parse(file.content);
+  const installed: InstalledPackage[] = [];
+
+  for (const field of ['dependencies', 'devDependencies', 'optionalDependencies']) {
+    for (const [name, range] of Object.entries<string>(manifest[field] ?? {})) {
+      if (typeof range !== 'string' || /^(?:workspace|file|link|git|github|https?):/.test(range)) continue;
+      const lowest = /(\d+(?:\.\d+){0,2}(?:-[0-9A-Za-z.-]+)?)/.exec(range);
+      if (lowest) installed.push({ name, version: lowest[1], manifest: file.path });
+    }
+  }
+  return installed;
+}
+
+const LOCKFILE_READERS: Record<string, (file: ScanFile) => InstalledPackage[]> = {
+  'package-lock.json': readPackageLock,
+  'npm-shrinkwrap.json': readPackageLock,
+  'yarn.lock': readYarnLock,
+  'pnpm-lock.yaml': readPnpmLock
+};
+
+/** Installed packages across all manifests; a package.json only counts when its directory has no lockfile */
+export function readInstalledPackages(files: ScanFile[]): InstalledPackage[] {
+  const lockedDirectories = new Set(
+    files.filter(file => basename(file.path) in LOCKFILE_READERS).map(file => dirname(file.path))
+  );
+  const installed: InstalledPackage[] = [];
+
+  for (const file of files) {
+    const name = basename(file.path);
+    try {
+      if (name in LOCKFILE_READERS) {
+        installed.push(...LOCKFILE_READERS[name](file));
+      } else if (name === 'package.json' && !file.path.includes('node_modules/') && !lockedDirectories.has(dirname(file.path))) {
+        installed.push(...readPackageJson(file));
+      }
+    } catch (error) {
+      console.warn(`Skipping unreadable manifest ${file.path}:`, error);
+    }
+  }
+  return installed;
+}
+
+/** The upper bound of the vulnerable range `version` falls in, so the fix stays on its release line when one exists */
+function fixedVersion(version: string, advisory: PackageAdvisory): string | null {
+  if (advisory.patched === null) return null;
+  for (const alternative of advisory.vulnerable.split('||')) {
+    const upper = /<([^\s=]+)/.exec(alternative);
+    if (upper && satisfies(version, alternative)) return upper[1];
+  }
+  return advisory.patched;
+}
+
+function advisoryReferences(advisory: PackageAdvisory): string[] {
+  const advisoryPage = advisory.id.startsWith('GHSA-')
+    ? `https://github.com/advisories/${advisory.id}`
+    : `https://nvd.nist.gov/vuln/detail/${advisory.id}`;
+  return [advisoryPage, `https://www.npmjs.com/package/${advisory.package}`];
+}
+
+/** One issue per vulnerable package version and advisory in each manifest */
+export function auditDependencies(files: ScanFile[], advisories: PackageAdvisory[] = NPM_ADVISORIES): DependencyIssue[] {
+  const byPackage = new Map<string, PackageAdvisory[]>();
+  for (const advisory of advisories) {
+    byPackage.set(advisory.package, [...(byPackage.get(advisory.package) ?? []), advisory]);
+  }
+
+  const issues = new Map<string, DependencyIssue>();
+  for (const pkg of readInstalledPackages(files)) {
+    for (const advisory of byPackage.get(pkg.name) ?? []) {
+      const key = `${pkg.manifest}|${pkg.name}@${pkg.version}|${advisory.id}`;
+      if (issues.has(key) || !satisfies(pkg.version, advisory.vulnerable)) continue;
+      const fixed = fixedVersion(pkg.version, advisory);
+      issues.set(key, {
+        package: pkg.name,
+        version: pkg.version,
+        advisory_id: advisory.id,
+        vulnerability: advisory.title,
+        severity: advisory.severity,
+        fix_available: fixed !== null,
+        recommended_version: fixed ?? 'No fixed release',
+        manifest: pkg.manifest,
+        references: advisoryReferences(advisory)
+      });
+    }
+  }
+  return [...issues.values()];
+}
@@ -0,0 +1,319 @@
+import type {
+  ComplianceCheck,
+  DependencyIssue,
+  ScanFile,
+  ScanLocation,
+  ScanSeverity,
+  SecurityRecommendation,
+  SecurityScanResult,
+  SecurityVulnerability
+} from '../../types/security-scan';
+import { NPM_ADVISORIES, type PackageAdvisory } from './advisories';
+import { auditDependencies } from './dependencies';
+import { COMMENT_LINE, OWASP_CATEGORIES, SAST_RULES, type SecurityRule } from './rules';
+import { findSecrets, redact } from './secrets';
+
+/**
+ * Security scanner: pattern rules and secret detection over source files,
+ * plus a dependency audit of their lockfiles, rolled up into compliance
+ * checks and recommendations.
+ */
+
+export { NPM_ADVISORIES, type PackageAdvisory } from './advisories';
+export { auditDependencies, compareVersions, satisfies } from './dependencies';
+export { SAST_RULES, type SecurityRule } from './rules';
+export { findSecrets, shannonEntropy } from './secrets';
+export { toSarif } from './sarif';
+export { isScannable, readUploadedFiles } from './sources';
+
+export type ScanType = 'comprehensive' | 'quick' | 'dependency' | 'compliance';
+
+export interface ScanOptions {
+  scanType?: ScanType;
+  /** Compliance standards to assess, by id (see COMPLIANCE_STANDARDS) */
+  standards?: string[];
+  includeSourceCode?: boolean;
+  includeDependencies?: boolean;
+  advisories?: PackageAdvisory[];
+  onProgress?: (scanned: number, total: number) => void;
+}
+
+interface ComplianceControl {
+  id: string;
+  title: string;
+  /** OWASP categories whose findings fail the control */
+  owasp: string[];
+}
+
+/** Controls of each standard that automated code checks can speak to */
+export const COMPLIANCE_STANDARDS: Record<string, { label: string; controls: ComplianceControl[] }> = {
+  'owasp-top-10': {
+    label: 'OWASP Top 10',
+    controls: Object.entries(OWASP_CATEGORIES).map(([id, title]) => ({ id, title, owasp: [id] }))
+  },
+  soc2: {
+    label: 'SOC 2 Type I',
+    controls: [
+      { id: 'CC6.1', title: 'Logical access security', owasp: ['A07:2021'] },
+      { id: 'CC6.7', title: 'Protection of data in transit', owasp: ['A02:2021', 'A05:2021'] },
+      { id: 'CC7.1', title: 'Vulnerability detection', owasp: ['A06:2021'] },
+      { id: 'CC8.1', title: 'Secure change management', owasp: ['A03:2021', 'A08:2021'] }
+    ]
+  },
+  'pci-dss': {
+    label: 'PCI DSS',
+    controls: [
+      { id: '3.5', title: 'Stored account data is protected with strong cryptography', owasp: ['A02:2021'] },
+      { id: '4.2', title: 'Strong cryptography during transmission', owasp: ['A05:2021'] },
+      { id: '6.2.4', title: 'Software is protected against common attacks', owasp: ['A03:2021', 'A08:2021'] },
+      { id: '6.3.3', title: 'Known vulnerabilities are patched', owasp: ['A06:2021'] },
+      { id: '8.3', title: 'Strong authentication', owasp: ['A07:2021'] }
+    ]
+  },
+  gdpr: {
+    label: 'GDPR',
+    controls: [
+      { id: 'Art. 25', title: 'Data protection by design and by default', owasp: ['A05:2021'] },
+      { id: 'Art. 32(1)(a)', title: 'Encryption of personal data', owasp: ['A02:2021'] },
+      { id: 'Art. 32(1)(b)', title: 'Confidentiality and integrity of processing systems', owasp: ['A03:2021', 'A06:2021', 'A07:2021', 'A08:2021'] }
+    ]
+  },
+  hipaa: {
+    label: 'HIPAA',
+    controls: [
+      { id: '164.308(a)(1)', title: 'Security management process', owasp: ['A06:2021'] },
+      { id: '164.312(a)', title: 'Access control', owasp: ['A07:2021'] },
+      { id: '164.312(c)', title: 'Integrity', owasp: ['A03:2021', 'A08:2021'] },
+      { id: '164.312(e)', title: 'Transmission security', owasp: ['A02:2021', 'A05:2021'] }
+    ]
+  },
+  iso27001: {
+    label: 'ISO 27001',
+    controls: [
+      { id: 'A.5.17', title: 'Authentication information', owasp: ['A07:2021'] },
+      { id: 'A.8.8', title: 'Management of technical vulnerabilities', owasp: ['A06:2021'] },
+      { id: 'A.8.9', title: 'Configuration management', owasp: ['A05:2021'] },
+      { id: 'A.8.24', title: 'Use of cryptography', owasp: ['A02:2021'] },
+      { id: 'A.8.28', title: 'Secure coding', owasp: ['A03:2021', 'A08:2021'] }
+    ]
+  }
+};
+
+const SOURCE_CATEGORIES = ['A02:2021', 'A03:2021', 'A05:2021', 'A07:2021', 'A08:2021'];
+const DEPENDENCY_CATEGORY = 'A06:2021';
+
+const SEVERITY_ORDER: ScanSeverity[] = ['critical', 'high', 'medium', 'low'];
+const VULNERABILITY_PENALTY: Record<ScanSeverity, number> = { critical: 15, high: 8, medium: 4, low: 1 };
+const DEPENDENCY_PENALTY: Record<ScanSeverity, number> = { critical: 10, high: 5, medium: 2, low: 1 };
+
+const LOCKFILES = new Set(['package-lock.json', 'npm-shrinkwrap.json', 'yarn.lock', 'pnpm-lock.yaml']);
+const MAX_SNIPPET_LENGTH = 200;
+
+const RECOMMENDATIONS: Record<string, { title: string; description: string }> = {
+  'A02:2021': { title: 'Replace weak cryptography', description: 'Move hashing to SHA-256 or a password hash, encryption to AES-GCM, and secret generation to a CSPRNG.' },
+  'A03:2021': { title: 'Remove injection sinks', description: 'Pass user input as parameters or text, never as SQL, shell commands, HTML or code.' },
+  'A05:2021': { title: 'Harden security configuration', description: 'Keep TLS verification on and restrict CORS to the origins that need it.' },
+  'A06:2021': { title: 'Upgrade vulnerable dependencies', description: 'Update the affected packages and commit the regenerated lockfile.' },
+  'A07:2021': { title: 'Rotate leaked credentials and pin token algorithms', description: 'Revoke every committed credential, load replacements from the environment or a secret manager, and verify tokens against a fixed algorithm.' },
+  'A08:2021': { title: 'Stop deserializing untrusted data', description: 'Exchange data as JSON or load YAML with safe_load.' }
+};
+
+function basename(path: string): string {
+  return path.slice(path.lastIndexOf('/') + 1);
+}
+
+function isEnvFile(path: string): boolean {
+  const name = basename(path);
+  return name.startsWith('.env') && !/example|sample|template/i.test(name);
+}
+
+function extensionOf(path: string): string {
+  if (isEnvFile(path)) return 'env';
+  const name = basename(path);
+  const dot = name.lastIndexOf('.');
+  return dot <= 0 ? '' : name.slice(dot + 1).toLowerCase();
+}
+
+function snippetOf(line: string): string {
+  const trimmed = line.trim();
+  return trimmed.length > MAX_SNIPPET_LENGTH ? `${trimmed.slice(0, MAX_SNIPPET_LENGTH)}…` : trimmed;
+}
+
+function bySeverity(a: { severity: ScanSeverity }, b: { severity: ScanSeverity }): number {
+  return SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity);
+}
+
+function ruleVulnerability(rule: SecurityRule): SecurityVulnerability {
+  const { id, title, category, cwe_id, owasp, severity, description, remediation, references, exploitability, impact } = rule;
+  return { id, title, category, cwe_id, owasp, severity, description, remediation, references, exploitability, impact, affected_files: [], locations: [] };
+}
+
+function secretVulnerability(id: string, title: string, severity: ScanSeverity): SecurityVulnerability {
+  return {
+    id,
+    title,
+    severity,
+    category: 'Sensitive Data Exposure',
+    cwe_id: 'CWE-798',
+    owasp: 'A07:2021',
+    description: `${title} committed to the codebase; anyone with read access to the code can use it`,
+    remediation: 'Revoke and rotate the credential, then load it from an environment variable or secret manager and keep .env files out of version control',
+    references: ['https://cwe.mitre.org/data/definitions/798.html'],
+    exploitability: 9,
+    impact: severity === 'critical' ? 9 : 7,
+    affected_files: [],
+    locations: []
+  };
+}
+
+function addLocation(vulnerability: SecurityVulnerability, location: ScanLocation): void {
+  vulnerability.locations.push(location);
+  if (!vulnerability.affected_files.includes(location.file)) vulnerability.affected_files.push(location.file);
+}
+
+function scanSource(file: ScanFile, findings: Map<string, SecurityVulnerability>): void {
+  const extension = extensionOf(file.path);
+  const envFile = extension === 'env';
+  const rules = SAST_RULES.filter(rule => rule.extensions.includes(extension));
+
+  file.content.split('\n').forEach((line, index) => {
+    const secrets = findSecrets(line, envFile);
+    let snippet = snippetOf(line);
+    for (const secret of secrets) snippet = redact(snippet, secret.value);
+
+    for (const secret of secrets) {
+      if (!findings.has(secret.id)) findings.set(secret.id, secretVulnerability(secret.id, secret.title, secret.severity));
+      addLocation(findings.get(secret.id)!, { file: file.path, line: index + 1, column: secret.column, snippet });
+    }
+
+    if (COMMENT_LINE.test(line)) return;
+    for (const rule of rules) {
+      const match = rule.pattern.exec(line);
+      if (!match) continue;
+      if (!findings.has(rule.id)) findings.set(rule.id, ruleVulnerability(rule));
+      addLocation(findings.get(rule.id)!, { file: file.path, line: index + 1, column: match.index + 1, snippet });
+    }
+  });
+}
+
+function assessCompliance(
+  standards: string[],
+  vulnerabilities: SecurityVulnerability[],
+  dependencies: DependencyIssue[],
+  checkedCategories: Set<string>
+): ComplianceCheck[] {
+  const findingsPerCategory = new Map<string, number>();
+  for (const vulnerability of vulnerabilities) {
+    findingsPerCategory.set(vulnerability.owasp, (findingsPerCategory.get(vulnerability.owasp) ?? 0) + vulnerability.locations.length);
+  }
+  if (dependencies.length) findingsPerCategory.set(DEPENDENCY_CATEGORY, dependencies.length);
+
+  return standards.filter(id => id in COMPLIANCE_STANDARDS).map(id => {
+    const { label, controls } = COMPLIANCE_STANDARDS[id];
+    const details: string[] = [];
+    let assessed = 0;
+    let met = 0;
+
+    for (const control of controls) {
+      if (!control.owasp.every(category => checkedCategories.has(category))) {
+        details.push(`${control.id} ${control.title}: not assessed by this scan`);
+        continue;
+      }
+      assessed++;
+      const findings = control.owasp.reduce((sum, category) => sum + (findingsPerCategory.get(category) ?? 0), 0);
+      if (findings === 0) met++;
+      details.push(`${control.id} ${control.title}: ${findings === 0 ? 'no findings' : `${findings} finding${findings === 1 ? '' : 's'}`}`);
+    }
+    details.push('Covers automated code and dependency checks only; policies and operational controls need a separate audit');
+
+    return {
+      standard: label,
+      status: assessed > 0 && met === assessed ? 'compliant' : assessed > 0 && met === 0 ? 'non_compliant' : 'partial',
+      requirements_met: met,
+      total_requirements: assessed,
+      details
+    };
+  });
+}
+
+function recommend(vulnerabilities: SecurityVulnerability[], dependencies: DependencyIssue[]): SecurityRecommendation[] {
+  const perCategory = new Map<string, { severities: ScanSeverity[]; findings: number }>();
+  const record = (category: string, severity: ScanSeverity, findings: number) => {
+    const entry = perCategory.get(category) ?? { severities: [], findings: 0 };
+    entry.severities.push(severity);
+    entry.findings += findings;
+    perCategory.set(category, entry);
+  };
+  vulnerabilities.forEach(vulnerability => record(vulnerability.owasp, vulnerability.severity, vulnerability.locations.length));
+  dependencies.forEach(issue => record(DEPENDENCY_CATEGORY, issue.severity, 1));
+
+  return [...perCategory.entries()]
+    .map(([category, { severities, findings }]): SecurityRecommendation => {
+      const worst = SEVERITY_ORDER.find(severity => severities.includes(severity))!;
+      const priority = worst === 'critical' || worst === 'high' ? 'high' : worst === 'medium' ? 'medium' : 'low';
+      return {
+        priority,
+        category: OWASP_CATEGORIES[category],
+        title: RECOMMENDATIONS[category].title,
+        description: RECOMMENDATIONS[category].description,
+        implementation_effort: findings <= 3 ? 'Under a day' : findings <= 10 ? '1-3 days' : '1-2 weeks',
+        security_impact: `${priority[0].toUpperCase()}${priority.slice(1)} - resolves ${findings} finding${findings === 1 ? '' : 's'} in ${category}`
+      };
+    })
+    .sort((a, b) => ['high', 'medium', 'low'].indexOf(a.priority) - ['high', 'medium', 'low'].indexOf(b.priority));
+}
+
+/** Scans the given files; a quick scan keeps only critical and high findings, a dependency scan only audits lockfiles */
+export async function scanFiles(files: ScanFile[], options: ScanOptions = {}): Promise<SecurityScanResult> {
+  const {
+    scanType = 'comprehensive',
+    standards = ['owasp-top-10'],
+    includeSourceCode = true,
+    includeDependencies = true,
+    advisories = NPM_ADVISORIES,
+    onProgress
+  } = options;
+  const startedAt = Date.now();
+  const scanSources = includeSourceCode && scanType !== 'dependency';
+  const scanDependencies = includeDependencies || scanType === 'dependency';
+
+  const findings = new Map<string, SecurityVulnerability>();
+  if (scanSources) {
+    for (let i = 0; i < files.length; i++) {
+      if (!LOCKFILES.has(basename(files[i].path))) scanSource(files[i], findings);
+      if (i % 50 === 49) {
+        onProgress?.(i + 1, files.length);
+        // Let the page repaint between batches of a large scan
+        await new Promise(resolve => setTimeout(resolve, 0));
+      }
+    }
+  }
+  onProgress?.(files.length, files.length);
+
+  let vulnerabilities = [...findings.values()].sort(bySeverity);
+  let dependencies = scanDependencies ? auditDependencies(files, advisories).sort(bySeverity) : [];
+  if (scanType === 'quick') {
+    vulnerabilities = vulnerabilities.filter(({ severity }) => severity === 'critical' || severity === 'high');
+    dependencies = dependencies.filter(({ severity }) => severity === 'critical' || severity === 'high');
+  }
+
+  const checkedCategories = new Set([...(scanSources ? SOURCE_CATEGORIES : []), ...(scanDependencies ? [DEPENDENCY_CATEGORY] : [])]);
+  const penalty = vulnerabilities.reduce((sum, { severity }) => sum + VULNERABILITY_PENALTY[severity], 0)
+    + dependencies.reduce((sum, { severity }) => sum + DEPENDENCY_PENALTY[severity], 0);
+  const completedAt = Date.now();
+
+  return {
+    overall_score: Math.max(0, 100 - penalty),
+    vulnerabilities,
+    compliance: assessCompliance(standards, vulnerabilities, dependencies, checkedCategories),
+    dependencies,
+    recommendations: recommend(vulnerabilities, dependencies),
+    scan_metadata: {
+      scan_type: scanType,
+      duration: Math.round((completedAt - startedAt) / 100) / 10,
+      files_scanned: files.length,
+      started_at: startedAt,
+      completed_at: completedAt
+    }
+  };
+}
@@ -0,0 +1,284 @@
+import type { ScanSeverity } from '../../types/security-scan';
+
+/**
+ * Source code rules. Each rule is a pattern matched line by line against
+ * files of the languages it covers; it reports the sink, not whether
+ * untrusted data actually reaches it, so matches are worth a look rather
+ * than proof of a vulnerability.
+ */
+
+export interface SecurityRule {
+  id: string;
+  title: string;
+  category: string;
+  cwe_id: string;
+  owasp: string;
+  severity: ScanSeverity;
+  /** Extensions (without the dot) of the files the rule applies to */
+  extensions: string[];
+  pattern: RegExp;
+  description: string;
+  remediation: string;
+  references: string[];
+  exploitability: number;
+  impact: number;
+}
+
+const JS = ['js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'vue', 'svelte'];
+const PY = ['py'];
+const WEB = [...JS, 'html', 'htm'];
+
+export const OWASP_CATEGORIES: Record<string, string> = {
+  'A02:2021': 'Cryptographic Failures',
+  'A03:2021': 'Injection',
+  'A05:2021': 'Security Misconfiguration',
+  'A06:2021': 'Vulnerable and Outdated Components',
+  'A07:2021': 'Identification and Authentication Failures',
+  'A08:2021': 'Software and Data Integrity Failures'
+};
+
+export const SAST_RULES: SecurityRule[] = [
+  {
+    id: 'js-eval',
+    title: 'Dynamic code evaluation',
+    category: 'Injection',
+    cwe_id: 'CWE-95',
+    owasp: 'A03:2021',
+    severity: 'high',
+    extensions: JS,
+    pattern: /(?<![\w.])eval\s*\(|\bnew\s+Function\s*\(/,
+    description: '`eval` and `new Function` run strings as code; any user input reaching them is code execution',
+    remediation: 'Parse data with JSON.parse, or look the behaviour up in a map of functions instead of building code',
+    references: ['https://cwe.mitre.org/data/definitions/95.html'],
+    exploitability: 7,
+    impact: 9
+  },
+  {
+    id: 'js-string-timer',
+    title: 'Timer with a code string',
+    category: 'Injection',
+    cwe_id: 'CWE-95',
+    owasp: 'A03:2021',
+    severity: 'medium',
+    extensions: WEB,
+    pattern: /\bset(?:Timeout|Interval)\s*\(\s*['"`]/,
+    description: 'A string passed to setTimeout or setInterval is evaluated like `eval`',
+    remediation: 'Pass a function instead of a string',
+    references: ['https://cwe.mitre.org/data/definitions/95.html'],
+    exploitability: 4,
+    impact: 7
+  },
+  {
+    id: 'js-inner-html',
+    title: 'HTML injection through innerHTML',
+    category: 'Cross-Site Scripting',
+    cwe_id: 'CWE-79',
+    owasp: 'A03:2021',
+    severity: 'high',
+    extensions: WEB,
+    pattern: /\.(?:innerHTML|outerHTML)\s*\+?=(?!=)|\.insertAdjacentHTML\s*\(/,
+    description: 'Markup assigned to innerHTML runs any scripts and event handlers it contains',
+    remediation: 'Use textContent for text, or sanitize the markup with DOMPurify before inserting it',
+    references: ['https://owasp.org/www-community/attacks/xss/', 'https://cwe.mitre.org/data/definitions/79.html'],
+    exploitability: 7,
+    impact: 8
+  },
+  {
+    id: 'js-document-write',
+    title: 'document.write',
+    category: 'Cross-Site Scripting',
+    cwe_id: 'CWE-79',
+    owasp: 'A03:2021',
+    severity: 'medium',
+    extensions: WEB,
+    pattern: /\bdocument\.write(?:ln)?\s*\(/,
+    description: 'document.write parses its argument as HTML',
+    remediation: 'Create elements with the DOM API and set their textContent',
+    references: ['https://cwe.mitre.org/data/definitions/79.html'],
+    exploitability: 6,
+    impact: 7
+  },
+  {
+    id: 'react-dangerous-html',
+    title: 'dangerouslySetInnerHTML',
+    category: 'Cross-Site Scripting',
+    cwe_id: 'CWE-79',
+    owasp: 'A03:2021',
+    severity: 'medium',
+    extensions: JS,
+    pattern: /dangerouslySetInnerHTML\s*=/,
+    description: 'React renders this markup without escaping it',
+    remediation: 'Render the content as children, or sanitize it with DOMPurify first',
+    references: ['https://react.dev/reference/react-dom/components/common#dangerously-setting-the-inner-html'],
+    exploitability: 6,
+    impact: 7
+  },
+  {
+    id: 'sql-string-building',
+    title: 'SQL built from strings',
+    category: 'Injection',
+    cwe_id: 'CWE-89',
+    owasp: 'A03:2021',
+    severity: 'critical',
+    extensions: [...JS, ...PY],
+    pattern: /`\s*(?:SELECT|INSERT|UPDATE|DELETE)\b[^`]*\$\{|['"]\s*(?:SELECT|INSERT|UPDATE|DELETE)\b[^'"]*['"]\s*(?:\+|%\s*[\w(])|\b(?:execute|executemany|raw)\s*\(\s*f['"]|\$queryRawUnsafe\s*\(|\$executeRawUnsafe\s*\(/i,
+    description: 'Values are spliced into the SQL text, so crafted input can change the query',
+    remediation: 'Use parameterized queries (placeholders with separate values) or the query builder of your ORM',
+    references: ['https://owasp.org/www-community/attacks/SQL_Injection', 'https://cwe.mitre.org/data/definitions/89.html'],
+    exploitability: 8,
+    impact: 9
+  },
+  {
+    id: 'js-command-injection',
+    title: 'Shell command built from strings',
+    category: 'Injection',
+    cwe_id: 'CWE-78',
+    owasp: 'A03:2021',
+    severity: 'critical',
+    extensions: JS,
+    pattern: /(?<![\w])exec(?:Sync)?\s*\(\s*(?:`[^`]*\$\{|['"][^'"]*['"]\s*\+)|\bshell\s*:\s*true\b/,
+    description: 'The command runs through a shell, so input containing `;`, `|` or `$()` runs extra commands',
+    remediation: 'Use execFile or spawn with an argument array and without `shell: true`',
+    references: ['https://cwe.mitre.org/data/definitions/78.html'],
+    exploitability: 8,
+    impact: 10
+  },
+  {
+    id: 'py-command-injection',
+    title: 'Shell command execution',
+    category: 'Injection',
+    cwe_id: 'CWE-78',
+    owasp: 'A03:2021',
+    severity: 'high',
+    extensions: PY,
+    pattern: /\bos\.(?:system|popen)\s*\(|\bsubprocess\.\w+\(.*\bshell\s*=\s*True/,
+    description: 'The command runs through a shell, so input containing `;`, `|` or `$()` runs extra commands',
+    remediation: 'Call subprocess.run with an argument list and shell=False',
+    references: ['https://cwe.mitre.org/data/definitions/78.html'],
+    exploitability: 7,
+    impact: 10
+  },
+  {
+    id: 'py-eval',
+    title: 'Dynamic code evaluation',
+    category: 'Injection',
+    cwe_id: 'CWE-95',
+    owasp: 'A03:2021',
+    severity: 'high',
+    extensions: PY,
+    pattern: /(?<![\w.])(?:eval|exec)\s*\(/,
+    description: '`eval` and `exec` run strings as Python code',
+    remediation: 'Use ast.literal_eval for literals, or dispatch through a dict of functions',
+    references: ['https://cwe.mitre.org/data/definitions/95.html'],
+    exploitability: 7,
+    impact: 9
+  },
+  {
+    id: 'py-unsafe-deserialization',
+    title: 'Unsafe deserialization',
+    category: 'Insecure Deserialization',
+    cwe_id: 'CWE-502',
+    owasp: 'A08:2021',
+    severity: 'high',
+    extensions: PY,
+    pattern: /\b(?:pickle|cPickle|dill|marshal)\.loads?\s*\(|\byaml\.load\s*\((?![^)]*SafeLoader)/,
+    description: 'Loading pickle, marshal or full YAML from untrusted data can execute arbitrary code',
+    remediation: 'Use JSON or yaml.safe_load for data that crosses a trust boundary',
+    references: ['https://cwe.mitre.org/data/definitions/502.html'],
+    exploitability: 6,
+    impact: 10
+  },
+  {
+    id: 'weak-hash',
+    title: 'Weak hash algorithm',
+    category: 'Cryptography',
+    cwe_id: 'CWE-328',
+    owasp: 'A02:2021',
+    severity: 'medium',
+    extensions: [...JS, ...PY],
+    pattern: /createHash\s*\(\s*['"](?:md5|sha1)['"]|\bhashlib\.(?:md5|sha1)\s*\(|\bhashlib\.new\s*\(\s*['"](?:md5|sha1)['"]/i,
+    description: 'MD5 and SHA-1 have practical collision attacks and are far too fast for passwords',
+    remediation: 'Use SHA-256 or better for integrity, and bcrypt, scrypt or Argon2 for passwords',
+    references: ['https://cwe.mitre.org/data/definitions/328.html'],
+    exploitability: 4,
+    impact: 6
+  },
+  {
+    id: 'weak-cipher',
+    title: 'Weak or deprecated cipher',
+    category: 'Cryptography',
+    cwe_id: 'CWE-327',
+    owasp: 'A02:2021',
+    severity: 'high',
+    extensions: [...JS, ...PY],
+    pattern: /\bcreateCipher\s*\(|createCipheriv\s*\(\s*['"](?:des|des-ede3?|rc4|bf|[\w-]*-ecb)['"]|\b(?:DES|ARC4|Blowfish)\.new\s*\(|\bMODE_ECB\b/i,
+    description: 'DES, RC4, Blowfish and ECB mode leak patterns or can be broken; createCipher derives keys without a salt',
+    remediation: 'Use AES-256-GCM (createCipheriv with a random IV) or a vetted library such as libsodium',
+    references: ['https://cwe.mitre.org/data/definitions/327.html'],
+    exploitability: 5,
+    impact: 8
+  },
+  {
+    id: 'insecure-random',
+    title: 'Predictable random value for a secret',
+    category: 'Cryptography',
+    cwe_id: 'CWE-338',
+    owasp: 'A02:2021',
+    severity: 'medium',
+    extensions: [...JS, ...PY],
+    pattern: /(?:token|secret|password|passwd|salt|nonce|session|otp|api_?key)\w*\s*[:=][^;\n]*(?:Math\.random\s*\(|\brandom\.(?:random|randint|choice)\s*\()/i,
+    description: 'Math.random and Python\'s random module are predictable and must not generate secrets',
+    remediation: 'Use crypto.randomBytes / crypto.getRandomValues, or Python\'s secrets module',
+    references: ['https://cwe.mitre.org/data/definitions/338.html'],
+    exploitability: 5,
+    impact: 7
+  },
+  {
+    id: 'tls-verification-disabled',
+    title: 'TLS certificate verification disabled',
+    category: 'Security Misconfiguration',
+    cwe_id: 'CWE-295',
+    owasp: 'A05:2021',
+    severity: 'high',
+    extensions: [...JS, ...PY, 'env', 'yml', 'yaml'],
+    pattern: /rejectUnauthorized\s*:\s*false|NODE_TLS_REJECT_UNAUTHORIZED\s*[=:]\s*['"]?0|\bverify\s*=\s*False\b/,
+    description: 'Without certificate checks anyone on the network path can intercept the connection',
+    remediation: 'Keep verification on; trust a private CA through its certificate instead of disabling checks',
+    references: ['https://cwe.mitre.org/data/definitions/295.html'],
+    exploitability: 5,
+    impact: 8
+  },
+  {
+    id: 'jwt-none-algorithm',
+    title: 'JWT accepts the "none" algorithm',
+    category: 'Authentication',
+    cwe_id: 'CWE-347',
+    owasp: 'A07:2021',
+    severity: 'high',
+    extensions: [...JS, ...PY],
+    pattern: /algorithms?\s*[:=]\s*\[?\s*['"]none['"]/i,
+    description: 'Tokens signed with "none" carry no signature, so anyone can forge them',
+    remediation: 'Pin the expected algorithm (e.g. HS256 or RS256) when verifying tokens',
+    references: ['https://cwe.mitre.org/data/definitions/347.html'],
+    exploitability: 8,
+    impact: 9
+  },
+  {
+    id: 'cors-wildcard',
+    title: 'CORS allows every origin',
+    category: 'Security Misconfiguration',
+    cwe_id: 'CWE-942',
+    owasp: 'A05:2021',
+    severity: 'low',
+    extensions: [...JS, ...PY],
+    pattern: /Access-Control-Allow-Origin['"]?\s*[:,]\s*['"]\*['"]|\borigin\s*:\s*['"]\*['"]|allow_origins\s*=\s*\[\s*['"]\*['"]/i,
+    description: 'Any website can read responses from this API in its visitors\' browsers',
+    remediation: 'List the origins that need access',
+    references: ['https://cwe.mitre.org/data/definitions/942.html'],
+    exploitability: 3,
+    impact: 5
+  }
+];
+
+/** Comment-only lines, which rules skip so commented-out examples don't count */
+export const COMMENT_LINE = /^\s*(?:\/\/|#|\*|\/\*|<!--)/;
@@ -0,0 +1,105 @@
+import type { ScanSeverity, SecurityScanResult } from '../../types/security-scan';
+
+/**
+ * SARIF 2.1.0 export, the format GitHub code scanning and most IDEs import.
+ * Dependency issues are reported against the manifest they were read from.
+ */
+
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const LEVELS: Record<ScanSeverity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  high: 'error',
+  medium: 'warning',
+  low: 'note'
+};
+
+/** CVSS-like scores GitHub uses to bucket `security-severity` */
+const SECURITY_SEVERITY: Record<ScanSeverity, string> = {
+  critical: '9.5',
+  high: '8.0',
+  medium: '5.5',
+  low: '2.0'
+};
+
+export function toSarif(result: SecurityScanResult, toolVersion = '1.0.0'): object {
+  const rules: object[] = [];
+  const results: object[] = [];
+
+  for (const vulnerability of result.vulnerabilities) {
+    const ruleIndex = rules.length;
+    rules.push({
+      id: vulnerability.id,
+      name: vulnerability.title,
+      shortDescription: { text: vulnerability.title },
+      fullDescription: { text: vulnerability.description },
+      help: { text: vulnerability.remediation },
+      helpUri: vulnerability.references[0],
+      properties: {
+        tags: ['security', vulnerability.cwe_id, vulnerability.owasp],
+        'security-severity': SECURITY_SEVERITY[vulnerability.severity]
+      }
+    });
+    for (const location of vulnerability.locations) {
+      results.push({
+        ruleId: vulnerability.id,
+        ruleIndex,
+        level: LEVELS[vulnerability.severity],
+        message: { text: `${vulnerability.title}: ${vulnerability.description}` },
+        locations: [{
+          physicalLocation: {
+            artifactLocation: { uri: location.file },
+            region: { startLine: location.line, startColumn: location.column, snippet: { text: location.snippet } }
+          }
+        }]
+      });
+    }
+  }
+
+  for (const issue of result.dependencies) {
+    const ruleId = `${issue.advisory_id}/${issue.package}`;
+    let ruleIndex = rules.findIndex(rule => (rule as { id: string }).id === ruleId);
+    if (ruleIndex === -1) {
+      ruleIndex = rules.length;
+      rules.push({
+        id: ruleId,
+        name: `${issue.package}: ${issue.vulnerability}`,
+        shortDescription: { text: `${issue.advisory_id} in ${issue.package}` },
+        fullDescription: { text: issue.vulnerability },
+        help: {
+          text: issue.fix_available ? `Upgrade ${issue.package} to ${issue.recommended_version} or later` : 'No fixed release is available'
+        },
+        helpUri: issue.references[0],
+        properties: { tags: ['security', 'dependency'], 'security-severity': SECURITY_SEVERITY[issue.severity] }
+      });
+    }
+    results.push({
+      ruleId,
+      ruleIndex,
+      level: LEVELS[issue.severity],
+      message: { text: `${issue.package}@${issue.version} is affected by ${issue.advisory_id}: ${issue.vulnerability}` },
+      locations: [{ physicalLocation: { artifactLocation: { uri: issue.manifest } } }]
+    });
+  }
+
+  return {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [{
+      tool: {
+        driver: {
+          name: 'FlashFusion Security Scanner',
+          version: toolVersion,
+          informationUri: 'https://owasp.org/Top10/',
+          rules
+        }
+      },
+      invocations: [{
+        executionSuccessful: true,
+        startTimeUtc: new Date(result.scan_metadata.started_at).toISOString(),
+        endTimeUtc: new Date(result.scan_metadata.completed_at).toISOString()
+      }],
+      results
+    }]
+  };
+}
@@ -0,0 +1,102 @@
+import type { ScanSeverity } from '../../types/security-scan';
+
+/**
+ * Secret detection: tokens with a known provider prefix, private keys, and
+ * high-entropy strings assigned to something named like a credential.
+ */
+
+export interface SecretPattern {
+  id: string;
+  title: string;
+  severity: ScanSeverity;
+  pattern: RegExp;
+}
+
+export const SECRET_PATTERNS: SecretPattern[] = [
+  { id: 'secret-private-key', title: 'Private key', severity: 'critical', pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/ },
+  { id: 'secret-aws-access-key', title: 'AWS access key ID', severity: 'critical', pattern: /\b(?:AKIA|ASIA)[0-9A-Z]{16}\b/ },
+  { id: 'secret-github-token', title: 'GitHub token', severity: 'critical', pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{22,})\b/ },
+  { id: 'secret-stripe-key', title: 'Stripe live secret key', severity: 'critical', pattern: /\b[sr]k_live_[A-Za-z0-9]{20,}\b/ },
+  { id: 'secret-anthropic-key', title: 'Anthropic API key', severity: 'critical', pattern: /\bsk-ant-[A-Za-z0-9_-]{20,}/ },
+  { id: 'secret-openai-key', title: 'OpenAI API key', severity: 'critical', pattern: /\bsk-(?!ant-)(?:proj-)?[A-Za-z0-9_-]{32,}/ },
+  { id: 'secret-slack-token', title: 'Slack token', severity: 'high', pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}/ },
+  { id: 'secret-google-api-key', title: 'Google API key', severity: 'high', pattern: /\bAIza[0-9A-Za-z_-]{35}\b/ },
+  { id: 'secret-sendgrid-key', title: 'SendGrid API key', severity: 'high', pattern: /\bSG\.[A-Za-z0-9_-]{22}\.[A-Za-z0-9_-]{43}\b/ }
+];
+
+/** Names that say a value is a credential */
+const CREDENTIAL_NAME = /(?:secret|token|passw(?:or)?d|pwd|api[_-]?key|access[_-]?key|private[_-]?key|client[_-]?secret|credential|auth)/i;
+/** A quoted value assigned to a name: `name = "value"`, `name: 'value'`, `"name": "value"` */
+const ASSIGNED_STRING = /([\w.-]+)['"]?\s*[:=]\s*['"`]([^'"`\s]{8,})['"`]/g;
+/** `NAME=value` lines of .env files */
+const ENV_ASSIGNMENT = /^\s*(?:export\s+)?([A-Za-z_][A-Za-z0-9_]*)\s*=\s*['"]?([^'"\s#]+)/;
+/** Values that are obviously not real secrets */
+const PLACEHOLDER = /^(?:x+|\*+|\.+|<.*>|\$\{.*\}|\{\{.*\}\}|process\.env.*|changeme|change_me|password|secret|example|test|dummy|null|undefined|true|false)$|your[_-]|example|placeholder|xxxx/i;
+
+const MIN_ENTROPY = 3.5;
+const MIN_SECRET_LENGTH = 16;
+
+/** Shannon entropy in bits per character */
+export function shannonEntropy(value: string): number {
+  const counts = new Map<string, number>();
+  for (const char of value) counts.set(char, (counts.get(char) ?? 0) + 1);
+  return [...counts.values()].reduce((entropy, count) => {
+    const p = count / value.length;
+    return entropy - p * Math.log2(p);
+  }, 0);
+}
+
+/** Keeps the first few characters so the secret can be found, and hides the rest */
+export function redact(line: string, secret: string): string {
+  const visible = secret.slice(0, Math.min(4, Math.floor(secret.length / 4)));
+  return line.split(secret).join(`${visible}${'*'.repeat(8)}`);
+}
+
+export interface SecretMatch {
+  id: string;
+  title: string;
+  severity: ScanSeverity;
+  column: number;
+  value: string;
+}
+
+function looksLikeSecret(name: string, value: string): boolean {
+  if (!CREDENTIAL_NAME.test(name) || PLACEHOLDER.test(value)) return false;
+  // Hardcoded passwords are a finding however weak they are
+  if (/passw(?:or)?d|pwd/i.test(name)) return value.length >= 8;
+  return value.length >= MIN_SECRET_LENGTH && shannonEntropy(value) >= MIN_ENTROPY;
+}
+
+/** Secrets on one line; `.env`-style files also treat bare `NAME=value` as assignments */
+export function findSecrets(line: string, envFile: boolean): SecretMatch[] {
+  const matches: SecretMatch[] = [];
+
+  for (const { id, title, severity, pattern } of SECRET_PATTERNS) {
+    const match = pattern.exec(line);
+    if (match) matches.push({ id, title, severity, column: match.index + 1, value: match[0] });
+  }
+
+  const candidates: Array<{ name: string; value: string; column: number }> = [];
+  if (envFile) {
+    const env = ENV_ASSIGNMENT.exec(line);
+    if (env) candidates.push({ name: env[1], value: env[2], column: line.indexOf(env[2]) + 1 });
+  } else {
+    for (const assignment of line.matchAll(ASSIGNED_STRING)) {
+      candidates.push({ name: assignment[1], value: assignment[2], column: assignment.index! + assignment[0].indexOf(assignment[2]) + 1 });
+    }
+  }
+
+  for (const { name, value, column } of candidates) {
+    if (matches.some(match => match.value.includes(value) || value.includes(match.value))) continue;
+    if (!looksLikeSecret(name, value)) continue;
+    matches.push({
+      id: 'secret-hardcoded-credential',
+      title: 'Hardcoded credential',
+      severity: 'high',
+      column,
+      value
+    });
+  }
+
+  return matches;
+}
@@ -0,0 +1,35 @@
+import type { ScanFile } from '../../types/security-scan';
+
+/** Where scanned code comes from: uploaded files and archives, filtered to text worth scanning */
+
+const SKIPPED_DIRECTORIES = /(?:^|\/)(?:node_modules|\.git|dist|build|out|\.next|\.nuxt|coverage|vendor|__pycache__|\.venv|venv)\//;
+const BINARY_EXTENSIONS = /\.(?:png|jpe?g|gif|webp|ico|bmp|svgz|pdf|zip|gz|tgz|tar|7z|rar|jar|war|class|exe|dll|so|dylib|wasm|woff2?|ttf|otf|eot|mp[34]|mov|avi|webm|ogg|wav|lockb|min\.js|map)$/i;
+
+export const MAX_SCANNED_FILE_BYTES = 1024 * 1024;
+
+/** Whether a path is source or configuration the scanner should read */
+export function isScannable(path: string, size = 0): boolean {
+  return !SKIPPED_DIRECTORIES.test(path) && !BINARY_EXTENSIONS.test(path) && size <= MAX_SCANNED_FILE_BYTES;
+}
+
+/** Reads uploaded files; `.zip` archives are expanded, with their paths kept relative to the archive root */
+export async function readUploadedFiles(files: File[]): Promise<ScanFile[]> {
+  const scanned: ScanFile[] = [];
+
+  for (const file of files) {
+    if (file.name.toLowerCase().endsWith('.zip')) {
+      const JSZip = (await import('jszip')).default;
+      const archive = await JSZip.loadAsync(file);
+      const entries = Object.values(archive.files).filter(entry => !entry.dir && isScannable(entry.name));
+      for (const entry of entries) {
+        const content = await entry.async('string');
+        if (content.length <= MAX_SCANNED_FILE_BYTES) scanned.push({ path: entry.name, content });
+      }
+    } else {
+      const path = (file as File & { webkitRelativePath?: string }).webkitRelativePath || file.name;
+      if (isScannable(path, file.size)) scanned.push({ path, content: await file.text() });
+    }
+  }
+
+  return scanned;
+}
@@ -0,0 +1,74 @@
+/**
+ * Server-Sent Events Reader
+ * Incrementally decodes a `text/event-stream` body into the data payload of
+ * each event, so callers can render streamed AI output as it arrives.
+ */
+
+/**
+ * Yield the `data:` payload of every event in the stream.
+ *
+ * Multi-line `data:` fields are joined with newlines, comment lines and other
+ * fields (`event:`, `id:`, `retry:`) are ignored, and CRLF/CR/LF line endings
+ * are all accepted. When `signal` aborts, the underlying reader is cancelled
+ * and iteration ends with an `AbortError`.
+ */
+export async function* readSSEData(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let dataLines: string[] = [];
+
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort);
+
+  try {
+    while (true) {
+      if (signal?.aborted) {
+        throw new DOMException('The stream was aborted', 'AbortError');
+      }
+
+      const { done, value } = await reader.read();
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      const lines = buffer.split(/\r\n|\r|\n/);
+      // Keep the trailing partial line until more bytes arrive
+      buffer = done ? '' : lines.pop() || '';
+
+      for (const line of lines) {
+        if (line === '') {
+          if (dataLines.length > 0) {
+            yield dataLines.join('\n');
+            dataLines = [];
+          }
+        } else if (line.startsWith('data:')) {
+          dataLines.push(line.slice(5).replace(/^ /, ''));
+        }
+      }
+
+      if (done) {
+        if (signal?.aborted) {
+          throw new DOMException('The stream was aborted', 'AbortError');
+        }
+        if (dataLines.length > 0) {
+          yield dataLines.join('\n');
+        }
+        return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    reader.releaseLock();
+  }
+}
+
+/**
+ * Whether an error came from an aborted fetch or stream
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'AbortError';
+}
@@ -0,0 +1,71 @@
+import type { PackageContribution, StackContext, StackTemplate } from '../types';
+
+/** The provider's Next.js SDK on Next.js, its plain React SDK otherwise */
+const reactSdk = (next: Record<string, string>, react: Record<string, string>) =>
+  (context: StackContext): PackageContribution => ({
+    dependencies: context.stack.frontend === 'nextjs' ? next : react
+  });
+
+/**
+ * Auth providers only add SDKs: the auth routes, config and middleware are
+ * written for the chosen frameworks at generation time.
+ */
+export const authTemplates: StackTemplate[] = [
+  {
+    layer: 'auth',
+    ids: ['auth0'],
+    name: 'Auth0',
+    packages: {
+      frontend: reactSdk({ '@auth0/nextjs-auth0': '^3.5.0' }, { '@auth0/auth0-react': '^2.2.4' }),
+      // Verifies Auth0 access tokens against the tenant's JWKS
+      backend: { dependencies: { jose: '^5.6.3' } }
+    }
+  },
+  {
+    layer: 'auth',
+    ids: ['firebase-auth'],
+    name: 'Firebase Auth',
+    packages: {
+      frontend: { dependencies: { firebase: '^10.12.4' } },
+      backend: { dependencies: { 'firebase-admin': '^12.3.0' } }
+    }
+  },
+  {
+    layer: 'auth',
+    ids: ['supabase-auth'],
+    name: 'Supabase Auth',
+    packages: {
+      frontend: { dependencies: { '@supabase/supabase-js': '^2.45.0' } },
+      backend: { dependencies: { '@supabase/supabase-js': '^2.45.0' } }
+    }
+  },
+  {
+    layer: 'auth',
+    ids: ['clerk'],
+    name: 'Clerk',
+    packages: {
+      frontend: reactSdk({ '@clerk/nextjs': '^5.2.0' }, { '@clerk/clerk-react': '^5.2.0' }),
+      backend: { dependencies: { '@clerk/backend': '^1.4.0' } }
+    }
+  },
+  {
+    layer: 'auth',
+    ids: ['nextauth'],
+    name: 'NextAuth.js',
+    packages: {
+      frontend: { dependencies: { 'next-auth': '^4.24.7' } },
+      backend: { dependencies: { jose: '^5.6.3' } }
+    }
+  },
+  {
+    layer: 'auth',
+    ids: ['custom'],
+    name: 'Custom JWT',
+    packages: {
+      backend: {
+        dependencies: { bcryptjs: '^2.4.3', jsonwebtoken: '^9.0.2' },
+        devDependencies: { '@types/bcryptjs': '^2.4.6', '@types/jsonwebtoken': '^9.0.6' }
+      }
+    }
+  }
+];
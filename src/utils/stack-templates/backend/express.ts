@@ -0,0 +1,283 @@
+import type { EntityDefinition } from '../../../types/full-stack-builder';
+import { entityLabel, resourceName, toCamelCase, toPascalCase } from '../../data-model';
+import type { StackContext, StackTemplate, TemplateFile } from '../types';
+import { NODE_BACKEND_PACKAGES, entityStore, nodeBackendDockerfile, nodeBackendTsconfig } from './node';
+
+function appFile(context: StackContext): string {
+  const usePrisma = context.orm === 'prisma';
+  const rateLimited = context.features.includes('Rate Limiting');
+
+  return `import express, { NextFunction, Request, Response } from 'express';
+import dotenv from 'dotenv';${rateLimited ? `
+import rateLimit from 'express-rate-limit';` : ''}${usePrisma ? `
+import { prisma } from './db';` : ''}
+import { corsMiddleware } from './middleware/cors';
+import authRoutes from './routes/auth';
+import apiRoutes from './routes';
+
+dotenv.config();
+
+const app = express();
+const PORT = Number(process.env.PORT) || 3001;
+
+// Middleware
+app.use(corsMiddleware);
+app.use(express.json({ limit: '10mb' }));
+app.use(express.urlencoded({ extended: true }));
+${rateLimited ? `
+// 100 requests per IP every 15 minutes
+app.use(rateLimit({ windowMs: 15 * 60 * 1000, limit: 100 }));
+` : ''}
+app.use('/api/auth', authRoutes);
+
+// Entity CRUD routes, e.g. /api/users
+app.use('/api', apiRoutes);
+
+// Health check endpoint
+app.get('/health', (req: Request, res: Response) => {
+  res.json({
+    status: 'OK',
+    timestamp: new Date().toISOString(),
+    environment: process.env.NODE_ENV || 'development'
+  });
+});
+
+app.get('/', (req: Request, res: Response) => {
+  res.json({
+    message: 'API is running!',
+    version: '1.0.0',
+    features: ${JSON.stringify(context.features)}
+  });
+});
+
+// Error handling middleware
+app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
+  console.error('Error:', err);
+  res.status(500).json({
+    error: 'Internal server error',
+    message: process.env.NODE_ENV === 'development' ? err.message : 'Something went wrong'
+  });
+});
+
+// 404 handler
+app.use('*', (req: Request, res: Response) => {
+  res.status(404).json({ error: 'Route not found' });
+});
+
+// Tests import the app without starting a server
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(\`🚀 Server running on port \${PORT}\`);
+    console.log(\`📱 Environment: \${process.env.NODE_ENV || 'development'}\`);
+  });
+}
+${usePrisma ? `
+// Graceful shutdown
+process.on('SIGINT', async () => {
+  console.log('\\n🔄 Shutting down gracefully...');
+  await prisma.$disconnect();
+  process.exit(0);
+});
+` : ''}
+export default app;
+`;
+}
+
+// Stands in until the auth routes for the chosen provider are generated
+function authPlaceholderFile(): string {
+  return `import { Router, Request, Response } from 'express';
+
+const router = Router();
+
+router.all('*', (req: Request, res: Response) => {
+  res.status(501).json({ success: false, error: 'Authentication is not set up yet' });
+});
+
+export default router;
+`;
+}
+
+function corsFile(): string {
+  return `import cors from 'cors';
+
+const allowedOrigins = [
+  'http://localhost:3000',
+  'http://localhost:5173',
+  process.env.FRONTEND_URL,
+].filter(Boolean);
+
+export const corsMiddleware = cors({
+  origin: (origin, callback) => {
+    if (!origin || allowedOrigins.includes(origin)) {
+      callback(null, true);
+    } else {
+      callback(new Error('Not allowed by CORS'));
+    }
+  },
+  credentials: true,
+  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
+  allowedHeaders: ['Content-Type', 'Authorization'],
+});
+`;
+}
+
+/**
+ * Express CRUD router for one entity: list (paginated), get, create, update
+ * and delete, with request validation
+ */
+export function expressEntityRoutes(entity: EntityDefinition, context: StackContext): string {
+  const path = `/api/${resourceName(entity)}`;
+  const label = entityLabel(entity);
+  const store = entityStore(entity, context, {
+    id: 'req.params.id',
+    notFound: error => [`res.status(404).json({ success: false, error: '${error}' });`, 'return;']
+  });
+
+  return `import { Router, Request, Response } from 'express';
+import { validate${entity.name}Create, validate${entity.name}Update } from '../validation/entities';
+${store.setup}
+const router = Router();
+
+// GET ${path}?limit=&offset=
+router.get('/', async (req: Request, res: Response) => {
+  try {
+    const limit = Math.min(Math.max(Number(req.query.limit) || 50, 1), 100);
+    const offset = Math.max(Number(req.query.offset) || 0, 0);
+    ${store.list}
+
+    res.json({ success: true, data, total });
+  } catch (error) {
+    console.error('Error listing ${label} records:', error);
+    res.status(500).json({ success: false, error: 'Failed to list ${label} records' });
+  }
+});
+
+// GET ${path}/:id
+router.get('/:id', async (req: Request, res: Response) => {
+  try {
+    ${store.get}
+    if (!record) {
+      res.status(404).json({ success: false, error: '${toPascalCase(label)} not found' });
+      return;
+    }
+
+    res.json({ success: true, data: record });
+  } catch (error) {
+    console.error('Error fetching ${label}:', error);
+    res.status(500).json({ success: false, error: 'Failed to fetch ${label}' });
+  }
+});
+
+// POST ${path}
+router.post('/', async (req: Request, res: Response) => {
+  const { value, errors } = validate${entity.name}Create(req.body);
+  if (errors.length > 0) {
+    res.status(400).json({ success: false, error: 'Validation failed', details: errors });
+    return;
+  }
+
+  try {
+    ${store.create}
+
+    res.status(201).json({ success: true, data: record });
+  } catch (error) {
+    console.error('Error creating ${label}:', error);
+    res.status(500).json({ success: false, error: 'Failed to create ${label}' });
+  }
+});
+
+// PUT ${path}/:id (partial update)
+router.put('/:id', async (req: Request, res: Response) => {
+  const { value, errors } = validate${entity.name}Update(req.body);
+  if (errors.length > 0) {
+    res.status(400).json({ success: false, error: 'Validation failed', details: errors });
+    return;
+  }
+
+  try {
+    ${store.update}
+
+    res.json({ success: true, data: record });
+  } catch (error) {${store.catchNotFound}
+    console.error('Error updating ${label}:', error);
+    res.status(500).json({ success: false, error: 'Failed to update ${label}' });
+  }
+});
+
+// DELETE ${path}/:id
+router.delete('/:id', async (req: Request, res: Response) => {
+  try {
+    ${store.remove}
+
+    res.status(204).send();
+  } catch (error) {${store.catchNotFound}
+    console.error('Error deleting ${label}:', error);
+    res.status(500).json({ success: false, error: 'Failed to delete ${label}' });
+  }
+});
+
+export default router;
+`;
+}
+
+function routerIndexFile(context: StackContext): string {
+  const routers = context.dataModel.entities.map(entity => ({
+    name: `${toCamelCase(entity.name)}Routes`,
+    resource: resourceName(entity)
+  }));
+
+  return `import { Router } from 'express';
+${routers.map(router => `import ${router.name} from './${router.resource}';`).join('\n')}
+
+const router = Router();
+
+${routers.map(router => `router.use('/${router.resource}', ${router.name});`).join('\n')}
+
+export default router;
+`;
+}
+
+export const expressTemplate: StackTemplate = {
+  layer: 'backend',
+  ids: ['nodejs-express'],
+  name: 'Express',
+  routeModule: 'an Express Router as the default export',
+  packages: {
+    backend: context => ({
+      dependencies: {
+        ...NODE_BACKEND_PACKAGES.dependencies,
+        cors: '^2.8.5',
+        express: '^4.19.2',
+        ...(context.features.includes('Rate Limiting') ? { 'express-rate-limit': '^7.4.0' } : {})
+      },
+      devDependencies: {
+        ...NODE_BACKEND_PACKAGES.devDependencies,
+        '@types/cors': '^2.8.17',
+        '@types/express': '^4.17.21'
+      },
+      scripts: NODE_BACKEND_PACKAGES.scripts
+    })
+  },
+  files: (context): TemplateFile[] => [
+    { path: 'backend/src/app.ts', content: appFile(context), type: 'backend' },
+    { path: 'backend/src/middleware/cors.ts', content: corsFile(), type: 'backend' },
+    { path: 'backend/src/routes/auth.ts', content: authPlaceholderFile(), type: 'backend' },
+    {
+      path: 'backend/src/__tests__/server.ts',
+      type: 'backend',
+      content: `import app from '../app';
+
+/** What HTTP tests send requests to */
+export const testServer = async () => app;
+`
+    },
+    { path: 'backend/src/routes/index.ts', content: routerIndexFile(context), type: 'backend' },
+    ...context.dataModel.entities.map(entity => ({
+      path: `backend/src/routes/${resourceName(entity)}.ts`,
+      content: expressEntityRoutes(entity, context),
+      type: 'backend' as const
+    })),
+    nodeBackendTsconfig()
+  ],
+  dockerfile: () => nodeBackendDockerfile('Express')
+};
@@ -0,0 +1,259 @@
+import type { EntityDefinition } from '../../../types/full-stack-builder';
+import { entityLabel, resourceName, toCamelCase, toPascalCase } from '../../data-model';
+import type { StackContext, StackTemplate, TemplateFile } from '../types';
+import { NODE_BACKEND_PACKAGES, entityStore, nodeBackendDockerfile, nodeBackendTsconfig } from './node';
+
+function appFile(context: StackContext): string {
+  const usePrisma = context.orm === 'prisma';
+  const rateLimited = context.features.includes('Rate Limiting');
+
+  return `import Fastify from 'fastify';
+import cors from '@fastify/cors';${rateLimited ? `
+import rateLimit from '@fastify/rate-limit';` : ''}
+import dotenv from 'dotenv';${usePrisma ? `
+import { prisma } from './db';` : ''}
+import authRoutes from './routes/auth';
+import apiRoutes from './routes';
+
+dotenv.config();
+
+const app = Fastify({ logger: true, bodyLimit: 10 * 1024 * 1024 });
+const PORT = Number(process.env.PORT) || 3001;
+
+app.register(cors, {
+  origin: [process.env.FRONTEND_URL || 'http://localhost:3000', 'http://localhost:5173'],
+  credentials: true
+});
+${rateLimited ? `
+// 100 requests per IP every 15 minutes
+app.register(rateLimit, { max: 100, timeWindow: '15 minutes' });
+` : ''}
+app.register(authRoutes, { prefix: '/api/auth' });
+
+// Entity CRUD routes, e.g. /api/users
+app.register(apiRoutes, { prefix: '/api' });
+
+// Health check endpoint
+app.get('/health', async () => ({
+  status: 'OK',
+  timestamp: new Date().toISOString(),
+  environment: process.env.NODE_ENV || 'development'
+}));
+
+app.get('/', async () => ({
+  message: 'API is running!',
+  version: '1.0.0',
+  features: ${JSON.stringify(context.features)}
+}));
+
+app.setErrorHandler((error, request, reply) => {
+  request.log.error(error);
+  const status = error.statusCode ?? 500;
+  reply.code(status).send({
+    error: status < 500 ? error.message : 'Internal server error',
+    message: process.env.NODE_ENV === 'development' ? error.message : 'Something went wrong'
+  });
+});
+
+app.setNotFoundHandler((request, reply) => {
+  reply.code(404).send({ error: 'Route not found' });
+});
+${usePrisma ? `
+app.addHook('onClose', async () => {
+  await prisma.$disconnect();
+});
+` : ''}
+// Graceful shutdown
+process.on('SIGINT', () => {
+  app.close().then(() => process.exit(0));
+});
+
+// Tests import the app without starting a server
+if (require.main === module) {
+  app.listen({ port: PORT, host: '0.0.0.0' }).catch(error => {
+    app.log.error(error);
+    process.exit(1);
+  });
+}
+
+export default app;
+`;
+}
+
+/**
+ * Fastify plugin with the CRUD routes for one entity: list (paginated), get,
+ * create, update and delete, with request validation
+ */
+export function fastifyEntityRoutes(entity: EntityDefinition, context: StackContext): string {
+  const path = `/api/${resourceName(entity)}`;
+  const label = entityLabel(entity);
+  const store = entityStore(entity, context, {
+    id: 'request.params.id',
+    notFound: error => [`return reply.code(404).send({ success: false, error: '${error}' });`]
+  });
+
+  return `import type { FastifyInstance } from 'fastify';
+import { validate${entity.name}Create, validate${entity.name}Update } from '../validation/entities';
+${store.setup}
+interface IdParams {
+  id: string;
+}
+
+interface ListQuery {
+  limit?: string;
+  offset?: string;
+}
+
+export default async function ${toCamelCase(entity.name)}Routes(app: FastifyInstance) {
+  // GET ${path}?limit=&offset=
+  app.get<{ Querystring: ListQuery }>('/', async (request, reply) => {
+    try {
+      const limit = Math.min(Math.max(Number(request.query.limit) || 50, 1), 100);
+      const offset = Math.max(Number(request.query.offset) || 0, 0);
+      ${indentBody(store.list)}
+
+      return { success: true, data, total };
+    } catch (error) {
+      request.log.error(error, 'Error listing ${label} records');
+      return reply.code(500).send({ success: false, error: 'Failed to list ${label} records' });
+    }
+  });
+
+  // GET ${path}/:id
+  app.get<{ Params: IdParams }>('/:id', async (request, reply) => {
+    try {
+      ${indentBody(store.get)}
+      if (!record) {
+        return reply.code(404).send({ success: false, error: '${toPascalCase(label)} not found' });
+      }
+
+      return { success: true, data: record };
+    } catch (error) {
+      request.log.error(error, 'Error fetching ${label}');
+      return reply.code(500).send({ success: false, error: 'Failed to fetch ${label}' });
+    }
+  });
+
+  // POST ${path}
+  app.post('/', async (request, reply) => {
+    const { value, errors } = validate${entity.name}Create(request.body);
+    if (errors.length > 0) {
+      return reply.code(400).send({ success: false, error: 'Validation failed', details: errors });
+    }
+
+    try {
+      ${indentBody(store.create)}
+
+      return reply.code(201).send({ success: true, data: record });
+    } catch (error) {
+      request.log.error(error, 'Error creating ${label}');
+      return reply.code(500).send({ success: false, error: 'Failed to create ${label}' });
+    }
+  });
+
+  // PUT ${path}/:id (partial update)
+  app.put<{ Params: IdParams }>('/:id', async (request, reply) => {
+    const { value, errors } = validate${entity.name}Update(request.body);
+    if (errors.length > 0) {
+      return reply.code(400).send({ success: false, error: 'Validation failed', details: errors });
+    }
+
+    try {
+      ${indentBody(store.update)}
+
+      return { success: true, data: record };
+    } catch (error) {${indentBody(store.catchNotFound)}
+      request.log.error(error, 'Error updating ${label}');
+      return reply.code(500).send({ success: false, error: 'Failed to update ${label}' });
+    }
+  });
+
+  // DELETE ${path}/:id
+  app.delete<{ Params: IdParams }>('/:id', async (request, reply) => {
+    try {
+      ${indentBody(store.remove)}
+
+      return reply.code(204).send();
+    } catch (error) {${indentBody(store.catchNotFound)}
+      request.log.error(error, 'Error deleting ${label}');
+      return reply.code(500).send({ success: false, error: 'Failed to delete ${label}' });
+    }
+  });
+}
+`;
+}
+
+// Store snippets are laid out for a top-level handler; these sit one level deeper
+function indentBody(snippet: string): string {
+  return snippet.replace(/\n(?=.)/g, '\n  ');
+}
+
+// Stands in until the auth routes for the chosen provider are generated
+function authPlaceholderFile(): string {
+  return `import type { FastifyInstance } from 'fastify';
+
+export default async function authRoutes(app: FastifyInstance) {
+  app.all('/*', async (request, reply) =>
+    reply.code(501).send({ success: false, error: 'Authentication is not set up yet' })
+  );
+}
+`;
+}
+
+function routesIndexFile(context: StackContext): string {
+  const plugins = context.dataModel.entities.map(entity => ({
+    name: `${toCamelCase(entity.name)}Routes`,
+    resource: resourceName(entity)
+  }));
+
+  return `import type { FastifyInstance } from 'fastify';
+${plugins.map(plugin => `import ${plugin.name} from './${plugin.resource}';`).join('\n')}
+
+export default async function apiRoutes(app: FastifyInstance) {
+${plugins.map(plugin => `  app.register(${plugin.name}, { prefix: '/${plugin.resource}' });`).join('\n')}
+}
+`;
+}
+
+export const fastifyTemplate: StackTemplate = {
+  layer: 'backend',
+  ids: ['nodejs-fastify'],
+  name: 'Fastify',
+  routeModule: 'an async Fastify plugin as the default export',
+  packages: {
+    backend: context => ({
+      dependencies: {
+        ...NODE_BACKEND_PACKAGES.dependencies,
+        '@fastify/cors': '^9.0.1',
+        fastify: '^4.28.1',
+        ...(context.features.includes('Rate Limiting') ? { '@fastify/rate-limit': '^9.1.0' } : {})
+      },
+      devDependencies: NODE_BACKEND_PACKAGES.devDependencies,
+      scripts: NODE_BACKEND_PACKAGES.scripts
+    })
+  },
+  files: (context): TemplateFile[] => [
+    { path: 'backend/src/app.ts', content: appFile(context), type: 'backend' },
+    { path: 'backend/src/routes/index.ts', content: routesIndexFile(context), type: 'backend' },
+    { path: 'backend/src/routes/auth.ts', content: authPlaceholderFile(), type: 'backend' },
+    {
+      path: 'backend/src/__tests__/server.ts',
+      type: 'backend',
+      content: `import app from '../app';
+
+/** What HTTP tests send requests to: the booted app's Node server */
+export async function testServer() {
+  await app.ready();
+  return app.server;
+}
+`
+    },
+    ...context.dataModel.entities.map(entity => ({
+      path: `backend/src/routes/${resourceName(entity)}.ts`,
+      content: fastifyEntityRoutes(entity, context),
+      type: 'backend' as const
+    })),
+    nodeBackendTsconfig()
+  ],
+  dockerfile: () => nodeBackendDockerfile('Fastify')
+};
@@ -0,0 +1,227 @@
+import type { EntityDefinition } from '../../../types/full-stack-builder';
+import {
+  entityLabel,
+  joinTable,
+  manyToManyRelations,
+  relationIdsName,
+  toCamelCase,
+  toPascalCase
+} from '../../data-model';
+import type { PackageContribution, StackContext, TemplateFile } from '../types';
+
+/** Packages every TypeScript Node backend needs on top of its framework */
+export const NODE_BACKEND_PACKAGES: PackageContribution = {
+  dependencies: {
+    dotenv: '^16.4.5'
+  },
+  devDependencies: {
+    '@types/node': '^20.14.10',
+    tsx: '^4.16.2',
+    typescript: '^5.5.4'
+  },
+  scripts: {
+    dev: 'tsx watch src/app.ts',
+    build: 'tsc',
+    start: 'node dist/app.js'
+  }
+};
+
+export function nodeBackendTsconfig(): TemplateFile {
+  return {
+    path: 'backend/tsconfig.json',
+    type: 'backend',
+    content: `{
+  "compilerOptions": {
+    "target": "ES2022",
+    "module": "commonjs",
+    "lib": ["ES2022"],
+    "outDir": "./dist",
+    "rootDir": "./src",
+    "strict": true,
+    "esModuleInterop": true,
+    "skipLibCheck": true,
+    "forceConsistentCasingInFileNames": true,
+    "resolveJsonModule": true,
+    "sourceMap": true,
+    "removeComments": true,
+    "noImplicitReturns": true,
+    "noFallthroughCasesInSwitch": true,
+    "moduleResolution": "node",
+    "baseUrl": "./",
+    "paths": {
+      "@/*": ["src/*"]
+    },
+    "allowSyntheticDefaultImports": true
+  },
+  "include": ["src/**/*"],
+  "exclude": ["node_modules", "dist", "**/*.test.ts"]
+}`
+  };
+}
+
+export function nodeBackendDockerfile(framework: string): string {
+  return `# Backend Dockerfile for Node.js + ${framework}
+FROM node:20-alpine AS base
+
+# Install dependencies only when needed
+FROM base AS deps
+RUN apk add --no-cache libc6-compat
+WORKDIR /app
+
+# Install dependencies based on the preferred package manager
+COPY package.json yarn.lock* package-lock.json* pnpm-lock.yaml* ./
+RUN \\
+  if [ -f yarn.lock ]; then yarn --frozen-lockfile; \\
+  elif [ -f package-lock.json ]; then npm ci; \\
+  elif [ -f pnpm-lock.yaml ]; then corepack enable pnpm && pnpm i --frozen-lockfile; \\
+  else echo "Lockfile not found." && exit 1; \\
+  fi
+
+# Rebuild the source code only when needed
+FROM base AS builder
+WORKDIR /app
+COPY --from=deps /app/node_modules ./node_modules
+COPY . .
+
+# Build the application
+RUN npm run build
+
+# Production image, copy all the files and run the app
+FROM base AS runner
+WORKDIR /app
+
+ENV NODE_ENV=production
+
+RUN addgroup --system --gid 1001 nodejs
+RUN adduser --system --uid 1001 nodejs
+
+# Copy built application
+COPY --from=builder --chown=nodejs:nodejs /app/dist ./dist
+COPY --from=builder --chown=nodejs:nodejs /app/node_modules ./node_modules
+COPY --from=builder --chown=nodejs:nodejs /app/package.json ./package.json
+
+USER nodejs
+
+EXPOSE 3001
+
+ENV PORT=3001
+
+# Add healthcheck (alpine ships wget, not curl)
+HEALTHCHECK --interval=30s --timeout=3s --start-period=5s --retries=3 \\
+  CMD wget --no-verbose --tries=1 --spider http://localhost:3001/health || exit 1
+
+CMD ["node", "dist/app.js"]`;
+}
+
+export interface EntityResponder {
+  /** Expression for the :id route parameter */
+  id: string;
+  /** Statements that end the handler with a 404 */
+  notFound: (error: string) => string[];
+}
+
+/**
+ * Framework-independent data access for one entity's CRUD handlers. Every
+ * snippet declares what the handler uses next (`data`/`total`, `record`),
+ * reading `limit`, `offset` and the validated `value` from the handler.
+ */
+export interface EntityStore {
+  /** Imports and module-level helpers */
+  setup: string;
+  list: string;
+  get: string;
+  create: string;
+  update: string;
+  remove: string;
+  /** Leading statements for the update and delete catch blocks */
+  catchNotFound: string;
+}
+
+const indent = (lines: string[], depth: number) =>
+  lines.map(line => `${' '.repeat(depth)}${line}`).join('\n');
+
+export function entityStore(entity: EntityDefinition, context: StackContext, respond: EntityResponder): EntityStore {
+  const label = entityLabel(entity);
+  const missing = (depth: number) => indent(respond.notFound(`${toPascalCase(label)} not found`), depth);
+  const typeImports = `import type { ${entity.name}, ${entity.name}CreateInput, ${entity.name}UpdateInput } from '../types/entities';`;
+
+  if (context.orm !== 'prisma') {
+    return {
+      setup: `import { randomUUID } from 'crypto';
+${typeImports}
+
+// ${context.stack.database || 'This database'} has no generated schema: records live in memory until you add persistence
+const records = new Map<string, ${entity.name}>();
+`,
+      list: `const all = Array.from(records.values());
+    const data = all.slice(offset, offset + limit);
+    const total = all.length;`,
+      get: `const record = records.get(${respond.id});`,
+      create: `const now = new Date().toISOString();
+    const record = { ...value, id: randomUUID()${entity.timestamps ? ', createdAt: now, updatedAt: now' : ''} } as unknown as ${entity.name};
+    records.set(record.id, record);`,
+      update: `const existing = records.get(${respond.id});
+    if (!existing) {
+${missing(6)}
+    }
+    const record = { ...existing, ...value${entity.timestamps ? ', updatedAt: new Date().toISOString()' : ''} } as ${entity.name};
+    records.set(record.id, record);`,
+      remove: `if (!records.delete(${respond.id})) {
+${missing(6)}
+    }`,
+      catchNotFound: ''
+    };
+  }
+
+  const delegate = `prisma.${toCamelCase(entity.name)}`;
+  const orderBy = entity.timestamps ? "{ createdAt: 'desc' }" : "{ id: 'asc' }";
+  const links = manyToManyRelations(entity);
+  const dateFields = entity.fields.filter(field => field.type === 'date' || field.type === 'datetime').map(field => field.name);
+
+  return {
+    setup: `import { Prisma } from '@prisma/client';
+import { prisma } from '../db';
+${typeImports}
+
+${dateFields.length > 0 ? `const DATE_FIELDS = ${JSON.stringify(dateFields).replace(/"/g, "'")};
+
+` : ''}// Prisma reports a missing record on update and delete as P2025
+const isNotFound = (error: unknown) =>
+  error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2025';
+
+function toData(input: ${entity.name}UpdateInput, mode: 'create' | 'update'): Record<string, unknown> {
+  const { ${[...links.map(relationIdsName), '...fields'].join(', ')} } = input;
+  const data: Record<string, unknown> = { ...fields };
+${dateFields.length > 0 ? `  for (const field of DATE_FIELDS) {
+    if (typeof data[field] === 'string') data[field] = new Date(data[field] as string);
+  }
+` : ''}${links.map(relation => {
+      const join = joinTable(entity, relation);
+      const ids = relationIdsName(relation);
+      return `  if (${ids}) {
+    data.${relation.name} = {
+      ...(mode === 'update' ? { deleteMany: {} } : {}),
+      create: ${ids}.map(id => ({ ${join.targetKey}: id }))
+    };
+  }
+`;
+    }).join('')}  return data;
+}
+`,
+    list: `const [data, total] = await Promise.all([
+      ${delegate}.findMany({ skip: offset, take: limit, orderBy: ${orderBy} }),
+      ${delegate}.count()
+    ]);`,
+    get: `const record = await ${delegate}.findUnique({ where: { id: ${respond.id} } });`,
+    create: `const record = await ${delegate}.create({ data: toData(value!, 'create') as Prisma.${entity.name}UncheckedCreateInput });`,
+    update: `const record = await ${delegate}.update({
+      where: { id: ${respond.id} },
+      data: toData(value!, 'update') as Prisma.${entity.name}UncheckedUpdateInput
+    });`,
+    remove: `await ${delegate}.delete({ where: { id: ${respond.id} } });`,
+    catchNotFound: `
+    if (isNotFound(error)) {
+${missing(6)}
+    }`
+  };
+}
@@ -0,0 +1,52 @@
+import { databaseDialect } from '../../data-model';
+import {
+  generateDatabaseSchema,
+  generateInitialMigration,
+  generatePrismaSchema
+} from '../../full-stack-config-generators';
+import type { StackTemplate, TemplateFile } from '../types';
+
+const PRISMA_VERSION = '^5.17.0';
+
+/** Every database Prisma can model: the schema, its first migration and the shared client */
+export const prismaTemplate: StackTemplate = {
+  layer: 'database',
+  ids: ['postgresql', 'mysql', 'mongodb', 'supabase', 'planetscale'],
+  name: 'Prisma',
+  orm: 'prisma',
+  packages: {
+    backend: context => ({
+      dependencies: { '@prisma/client': PRISMA_VERSION },
+      devDependencies: { prisma: PRISMA_VERSION },
+      scripts: {
+        'db:generate': 'prisma generate',
+        'db:migrate': databaseDialect(context.stack.database) === 'mongodb'
+          ? 'mongosh "$DATABASE_URL" ../database/migrations/001_initial.js'
+          : 'prisma db execute --file ../database/migrations/001_initial.sql --schema prisma/schema.prisma'
+      }
+    })
+  },
+  files: (context): TemplateFile[] => {
+    const { database } = context.stack;
+    const script = databaseDialect(database) === 'mongodb' ? 'js' : 'sql';
+
+    return [
+      {
+        path: 'backend/src/db.ts',
+        type: 'backend',
+        content: `import { PrismaClient } from '@prisma/client';
+
+// One client per process; Prisma pools connections itself
+export const prisma = new PrismaClient();
+`
+      },
+      { path: 'backend/prisma/schema.prisma', content: generatePrismaSchema(database, context.dataModel), type: 'database' },
+      { path: `database/schema.${script}`, content: generateDatabaseSchema(database, context.features, context.dataModel), type: 'database' },
+      {
+        path: `database/migrations/001_initial.${script}`,
+        content: generateInitialMigration(context.features, context.dataModel, database),
+        type: 'database'
+      }
+    ];
+  }
+};
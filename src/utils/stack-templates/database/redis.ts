@@ -0,0 +1,26 @@
+import type { StackTemplate } from '../types';
+
+/**
+ * Redis as a cache and session store. Entities have no schema here, so the
+ * backend keeps them in memory.
+ */
+export const redisTemplate: StackTemplate = {
+  layer: 'database',
+  ids: ['redis'],
+  name: 'Redis',
+  packages: {
+    backend: {
+      dependencies: { ioredis: '^5.4.1' }
+    }
+  },
+  files: () => [
+    {
+      path: 'backend/src/db.ts',
+      type: 'backend',
+      content: `import Redis from 'ioredis';
+
+export const redis = new Redis(process.env.REDIS_URL || 'redis://localhost:6379');
+`
+    }
+  ]
+};
@@ -0,0 +1,65 @@
+import type { StackContext, StackTemplate, TemplateFile } from '../types';
+
+const onNext = (context: StackContext) => context.stack.frontend === 'nextjs';
+
+function vercelConfig(context: StackContext): string {
+  return JSON.stringify({
+    $schema: 'https://openapi.vercel.sh/vercel.json',
+    framework: onNext(context) ? 'nextjs' : 'vite',
+    // Client-side routes all load the SPA shell
+    ...(onNext(context) ? {} : { rewrites: [{ source: '/(.*)', destination: '/index.html' }] })
+  }, null, 2);
+}
+
+function netlifyConfig(context: StackContext): string {
+  if (onNext(context)) {
+    return `[build]
+  command = "npm run build"
+  publish = ".next"
+
+[[plugins]]
+  package = "@netlify/plugin-nextjs"
+`;
+  }
+
+  return `[build]
+  command = "npm run build"
+  publish = "dist"
+
+[[redirects]]
+  from = "/*"
+  to = "/index.html"
+  status = 200
+`;
+}
+
+export const deploymentTemplates: StackTemplate[] = [
+  {
+    layer: 'deployment',
+    ids: ['vercel'],
+    name: 'Vercel',
+    files: (context): TemplateFile[] => [
+      { path: 'frontend/vercel.json', content: vercelConfig(context), type: 'config' }
+    ]
+  },
+  {
+    layer: 'deployment',
+    ids: ['netlify'],
+    name: 'Netlify',
+    files: (context): TemplateFile[] => [
+      { path: 'frontend/netlify.toml', content: netlifyConfig(context), type: 'config' }
+    ]
+  },
+  {
+    layer: 'deployment',
+    ids: ['heroku'],
+    name: 'Heroku',
+    // Heroku runs the build script on deploy and starts the web process
+    files: (): TemplateFile[] => [
+      { path: 'backend/Procfile', content: 'web: npm start\n', type: 'config' }
+    ]
+  },
+  { layer: 'deployment', ids: ['aws'], name: 'AWS', containerized: true },
+  { layer: 'deployment', ids: ['gcp'], name: 'Google Cloud', containerized: true },
+  { layer: 'deployment', ids: ['digital-ocean'], name: 'DigitalOcean', containerized: true }
+];
@@ -0,0 +1,144 @@
+import type { StackTemplate } from '../types';
+import { REACT_PACKAGES, placeholderHomePage } from './react';
+
+function nextConfig(): string {
+  return `/** @type {import('next').NextConfig} */
+const nextConfig = {
+  reactStrictMode: true,
+  // The Docker image runs the standalone server
+  output: 'standalone',
+  async rewrites() {
+    return [
+      {
+        source: '/api/:path*',
+        destination: \`\${process.env.BACKEND_URL || 'http://localhost:3001'}/api/:path*\`
+      }
+    ];
+  }
+};
+
+module.exports = nextConfig;
+`;
+}
+
+function tsconfig(): string {
+  return `{
+  "compilerOptions": {
+    "target": "ES2017",
+    "lib": ["dom", "dom.iterable", "esnext"],
+    "allowJs": true,
+    "skipLibCheck": true,
+    "strict": true,
+    "noEmit": true,
+    "esModuleInterop": true,
+    "module": "esnext",
+    "moduleResolution": "bundler",
+    "resolveJsonModule": true,
+    "isolatedModules": true,
+    "jsx": "preserve",
+    "incremental": true,
+    "baseUrl": ".",
+    "paths": {
+      "@/*": ["src/*"]
+    }
+  },
+  "include": ["next-env.d.ts", "**/*.ts", "**/*.tsx"],
+  "exclude": ["node_modules"]
+}`;
+}
+
+function dockerfile(): string {
+  return `# Frontend Dockerfile for Next.js
+FROM node:20-alpine AS base
+
+# Install dependencies only when needed
+FROM base AS deps
+# Check https://github.com/nodejs/docker-node/tree/b4117f9333da4138b03a546ec926ef50a31506c3#nodealpine to understand why libc6-compat might be needed.
+RUN apk add --no-cache libc6-compat
+WORKDIR /app
+
+# Install dependencies based on the preferred package manager
+COPY package.json yarn.lock* package-lock.json* pnpm-lock.yaml* ./
+RUN \\
+  if [ -f yarn.lock ]; then yarn --frozen-lockfile; \\
+  elif [ -f package-lock.json ]; then npm ci; \\
+  elif [ -f pnpm-lock.yaml ]; then corepack enable pnpm && pnpm i --frozen-lockfile; \\
+  else echo "Lockfile not found." && exit 1; \\
+  fi
+
+# Rebuild the source code only when needed
+FROM base AS builder
+WORKDIR /app
+COPY --from=deps /app/node_modules ./node_modules
+COPY . .
+
+# Next.js collects completely anonymous telemetry data about general usage.
+# Learn more here: https://nextjs.org/telemetry
+ENV NEXT_TELEMETRY_DISABLED=1
+
+RUN npm run build
+
+# Production image, copy all the files and run next
+FROM base AS runner
+WORKDIR /app
+
+ENV NODE_ENV=production
+ENV NEXT_TELEMETRY_DISABLED=1
+
+RUN addgroup --system --gid 1001 nodejs
+RUN adduser --system --uid 1001 nextjs
+
+COPY --from=builder /app/public ./public
+
+# Set the correct permission for prerender cache
+RUN mkdir .next
+RUN chown nextjs:nodejs .next
+
+# Automatically leverage output traces to reduce image size
+# https://nextjs.org/docs/app/api-reference/next-config-js/output
+COPY --from=builder --chown=nextjs:nodejs /app/.next/standalone ./
+COPY --from=builder --chown=nextjs:nodejs /app/.next/static ./.next/static
+
+USER nextjs
+
+EXPOSE 3000
+
+ENV PORT=3000
+ENV HOSTNAME="0.0.0.0"
+
+CMD ["node", "server.js"]`;
+}
+
+export const nextjsTemplate: StackTemplate = {
+  layer: 'frontend',
+  ids: ['nextjs'],
+  name: 'Next.js',
+  packages: {
+    frontend: {
+      dependencies: {
+        ...REACT_PACKAGES.dependencies,
+        next: '^14.2.5'
+      },
+      devDependencies: {
+        ...REACT_PACKAGES.devDependencies,
+        eslint: '^8.57.0',
+        'eslint-config-next': '^14.2.5'
+      },
+      scripts: {
+        dev: 'next dev',
+        build: 'next build',
+        start: 'next start',
+        lint: 'next lint'
+      }
+    }
+  },
+  files: context => [
+    placeholderHomePage(context),
+    { path: 'frontend/next.config.js', content: nextConfig(), type: 'frontend' },
+    { path: 'frontend/tsconfig.json', content: tsconfig(), type: 'frontend' },
+    { path: 'frontend/next-env.d.ts', content: '/// <reference types="next" />\n/// <reference types="next/image-types/global" />\n', type: 'frontend' },
+    // The Docker image copies public/, so it has to exist
+    { path: 'frontend/public/robots.txt', content: 'User-agent: *\nAllow: /\n', type: 'frontend' }
+  ],
+  dockerfile
+};
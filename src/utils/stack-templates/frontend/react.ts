@@ -0,0 +1,34 @@
+import type { PackageContribution, StackContext, TemplateFile } from '../types';
+
+/** React, its types and TypeScript, shared by the React-based frontends */
+export const REACT_PACKAGES: PackageContribution = {
+  dependencies: {
+    react: '^18.3.1',
+    'react-dom': '^18.3.1'
+  },
+  devDependencies: {
+    '@types/node': '^20.14.10',
+    '@types/react': '^18.3.3',
+    '@types/react-dom': '^18.3.0',
+    typescript: '^5.5.4'
+  }
+};
+
+const jsxText = (text: string) => text.replace(/[{}<>]/g, char => `{'${char}'}`);
+
+/** A home page to render until the designed one is generated */
+export function placeholderHomePage(context: StackContext): TemplateFile {
+  return {
+    path: 'frontend/src/pages/index.tsx',
+    type: 'frontend',
+    content: `export default function Home() {
+  return (
+    <main>
+      <h1>${jsxText(context.name)}</h1>
+      <p>${jsxText(context.description)}</p>
+    </main>
+  );
+}
+`
+  };
+}
@@ -0,0 +1,35 @@
+import { StackTemplateRegistry } from './registry';
+import type { StackTemplate } from './types';
+import { nextjsTemplate } from './frontend/nextjs';
+import { reactViteTemplate } from './frontend/react-vite';
+import { expressTemplate } from './backend/express';
+import { fastifyTemplate } from './backend/fastify';
+import { prismaTemplate } from './database/prisma';
+import { redisTemplate } from './database/redis';
+import { authTemplates } from './auth/providers';
+import { deploymentTemplates } from './deployment/platforms';
+
+export { StackTemplateRegistry, STACK_LAYERS } from './registry';
+export type {
+  ComposedStack,
+  PackageContribution,
+  PackageTarget,
+  StackContext,
+  StackLayer,
+  StackTemplate,
+  TemplateFile
+} from './types';
+
+/** Supporting another framework, database or platform means adding its module here */
+export const BUILT_IN_TEMPLATES: StackTemplate[] = [
+  nextjsTemplate,
+  reactViteTemplate,
+  expressTemplate,
+  fastifyTemplate,
+  prismaTemplate,
+  redisTemplate,
+  ...authTemplates,
+  ...deploymentTemplates
+];
+
+export const stackTemplates = new StackTemplateRegistry(BUILT_IN_TEMPLATES);
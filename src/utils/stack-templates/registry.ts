@@ -0,0 +1,118 @@
+import type { GeneratedFile } from '../../types/full-stack-builder';
+import type {
+  ComposedStack,
+  PackageContribution,
+  PackageTarget,
+  StackContext,
+  StackLayer,
+  StackTemplate,
+  TemplateFile
+} from './types';
+
+export const STACK_LAYERS: StackLayer[] = ['frontend', 'backend', 'database', 'auth', 'deployment'];
+
+const PACKAGE_TARGETS: PackageTarget[] = ['frontend', 'backend'];
+
+const sortKeys = (record: Record<string, string>) =>
+  Object.fromEntries(Object.entries(record).sort(([a], [b]) => a.localeCompare(b)));
+
+function packageName(appName: string, target: PackageTarget): string {
+  const slug = appName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '');
+  return `${slug || 'app'}-${target}`;
+}
+
+function toGeneratedFile(file: TemplateFile): GeneratedFile {
+  return { ...file, size: new Blob([file.content]).size };
+}
+
+/**
+ * Stack templates by layer and option id. Composing a stack picks one
+ * template per layer, merges what they declare into the package.json files
+ * and collects their files in layer order.
+ */
+export class StackTemplateRegistry {
+  private templates = new Map<string, StackTemplate>();
+
+  constructor(templates: StackTemplate[] = []) {
+    templates.forEach(template => this.register(template));
+  }
+
+  register(template: StackTemplate): void {
+    for (const id of template.ids) {
+      const key = `${template.layer}:${id}`;
+      if (this.templates.has(key)) {
+        throw new Error(`A ${template.layer} template for "${id}" is already registered`);
+      }
+      this.templates.set(key, template);
+    }
+  }
+
+  get(layer: StackLayer, id: string): StackTemplate | undefined {
+    return this.templates.get(`${layer}:${id}`);
+  }
+
+  has(layer: StackLayer, id: string): boolean {
+    return this.templates.has(`${layer}:${id}`);
+  }
+
+  list(layer: StackLayer): StackTemplate[] {
+    return Array.from(new Set(this.templates.values())).filter(template => template.layer === layer);
+  }
+
+  /** Display name of the template behind an option, falling back to the id */
+  templateName(layer: StackLayer, id: string): string {
+    return this.get(layer, id)?.name ?? id;
+  }
+
+  compose(context: Omit<StackContext, 'orm' | 'containerized'>): ComposedStack {
+    const selected = STACK_LAYERS.map(layer => ({ layer, template: this.get(layer, context.stack[layer]) }));
+    const templates = selected.flatMap(({ template }) => (template ? [template] : []));
+
+    const full: StackContext = {
+      ...context,
+      orm: this.get('database', context.stack.database)?.orm ?? null,
+      containerized: context.features.includes('Docker Containerization') ||
+        !!this.get('deployment', context.stack.deployment)?.containerized
+    };
+
+    const files: GeneratedFile[] = [];
+    for (const target of PACKAGE_TARGETS) {
+      const manifest = this.packageJson(target, templates, full);
+      if (manifest) files.push(toGeneratedFile({ path: `${target}/package.json`, content: manifest, type: target }));
+    }
+
+    for (const template of templates) {
+      files.push(...(template.files?.(full) ?? []).map(toGeneratedFile));
+      if (full.containerized && template.dockerfile) {
+        files.push(toGeneratedFile({ path: `${template.layer}/Dockerfile`, content: template.dockerfile(), type: 'config' }));
+      }
+    }
+
+    return {
+      files,
+      missing: selected.filter(({ template }) => !template).map(({ layer }) => layer)
+    };
+  }
+
+  /** Later layers win when two templates pin the same package */
+  private packageJson(target: PackageTarget, templates: StackTemplate[], context: StackContext): string | null {
+    const contributions = templates.flatMap(template => {
+      const contribution = template.packages?.[target];
+      if (!contribution) return [];
+      return [typeof contribution === 'function' ? contribution(context) : contribution];
+    });
+    if (contributions.length === 0) return null;
+
+    const merge = (key: keyof PackageContribution) =>
+      contributions.reduce<Record<string, string>>((merged, contribution) => ({ ...merged, ...contribution[key] }), {});
+
+    return JSON.stringify({
+      name: packageName(context.name, target),
+      version: '1.0.0',
+      private: true,
+      scripts: merge('scripts'),
+      dependencies: sortKeys(merge('dependencies')),
+      devDependencies: sortKeys(merge('devDependencies'))
+    }, null, 2);
+  }
+}
@@ -0,0 +1,58 @@
+import type { AppStack, DataModel, GeneratedFile } from '../../types/full-stack-builder';
+
+export type StackLayer = keyof AppStack;
+
+/** The generated project has one package.json per side */
+export type PackageTarget = 'frontend' | 'backend';
+
+export interface PackageContribution {
+  dependencies?: Record<string, string>;
+  devDependencies?: Record<string, string>;
+  scripts?: Record<string, string>;
+}
+
+export interface TemplateFile {
+  path: string;
+  content: string;
+  type: GeneratedFile['type'];
+}
+
+export interface StackContext {
+  name: string;
+  description: string;
+  stack: AppStack;
+  features: string[];
+  dataModel: DataModel;
+  /** The ORM the database template sets up, if any; backend templates generate data access for it */
+  orm: 'prisma' | null;
+  /** Dockerfiles are emitted, either because the feature is on or the platform runs containers */
+  containerized: boolean;
+}
+
+/**
+ * One option of one stack layer: the files it contributes to the generated
+ * project and the packages (with versions) it needs. Templates never look at
+ * which other templates were picked except through the context.
+ */
+export interface StackTemplate {
+  layer: StackLayer;
+  /** Builder option ids this template implements */
+  ids: string[];
+  name: string;
+  packages?: Partial<Record<PackageTarget, PackageContribution | ((context: StackContext) => PackageContribution)>>;
+  files?: (context: StackContext) => TemplateFile[];
+  /** Backend templates: how a route module exports its routes, for code written against the template */
+  routeModule?: string;
+  /** Frontend and backend templates: the Dockerfile for their side */
+  dockerfile?: () => string;
+  /** Database templates: the ORM their generated client uses */
+  orm?: 'prisma';
+  /** Deployment templates: the platform runs the Dockerfiles */
+  containerized?: boolean;
+}
+
+export interface ComposedStack {
+  files: GeneratedFile[];
+  /** Layers whose selected option has no template; they contribute nothing */
+  missing: StackLayer[];
+}
@@ -0,0 +1,178 @@
+/**
+ * TAR Archive Writer
+ * Builds POSIX ustar archives (with PAX headers for long paths) and gzips them
+ * with the platform CompressionStream, so downloads extract with `tar -xzf`.
+ */
+
+export interface TarEntry {
+  path: string;
+  content: string | Uint8Array;
+  /** Unix permission bits; defaults to 0755 for scripts and 0644 otherwise */
+  mode?: number;
+  mtime?: Date;
+}
+
+const BLOCK_SIZE = 512;
+const NAME_LENGTH = 100;
+const PREFIX_LENGTH = 155;
+
+const encoder = new TextEncoder();
+
+/**
+ * Shell scripts and anything with a shebang must stay executable after extraction
+ */
+export function defaultFileMode(path: string, content: string | Uint8Array): number {
+  const startsWithShebang = typeof content === 'string'
+    ? content.startsWith('#!')
+    : content[0] === 0x23 && content[1] === 0x21;
+  return startsWithShebang || /\.(sh|bash|command)$/.test(path) ? 0o755 : 0o644;
+}
+
+function writeString(header: Uint8Array, value: string | Uint8Array, offset: number, length: number) {
+  const bytes = typeof value === 'string' ? encoder.encode(value) : value;
+  header.set(bytes.subarray(0, length), offset);
+}
+
+// Numeric fields are zero-padded octal terminated by NUL
+function writeOctal(header: Uint8Array, value: number, offset: number, length: number) {
+  writeString(header, value.toString(8).padStart(length - 1, '0') + '\0', offset, length);
+}
+
+/**
+ * Split a path across the ustar `prefix` and `name` fields. Returns null when
+ * no split fits, in which case the path goes in a PAX header instead.
+ */
+function splitPath(pathBytes: Uint8Array): { name: Uint8Array; prefix: Uint8Array } | null {
+  if (pathBytes.length <= NAME_LENGTH) {
+    return { name: pathBytes, prefix: new Uint8Array(0) };
+  }
+
+  for (let i = pathBytes.length - 1; i > 0; i--) {
+    // 0x2f is '/'; the separator itself is dropped between prefix and name
+    if (pathBytes[i] !== 0x2f) continue;
+    const prefix = pathBytes.subarray(0, i);
+    const name = pathBytes.subarray(i + 1);
+    if (prefix.length > PREFIX_LENGTH) continue;
+    if (name.length === 0 || name.length > NAME_LENGTH) return null;
+    return { name, prefix };
+  }
+
+  return null;
+}
+
+function createHeader(
+  name: Uint8Array,
+  prefix: Uint8Array,
+  size: number,
+  mode: number,
+  mtime: number,
+  typeflag: string
+): Uint8Array {
+  const header = new Uint8Array(BLOCK_SIZE);
+
+  writeString(header, name, 0, NAME_LENGTH);
+  writeOctal(header, mode & 0o7777, 100, 8);
+  writeOctal(header, 0, 108, 8); // uid
+  writeOctal(header, 0, 116, 8); // gid
+  writeOctal(header, size, 124, 12);
+  writeOctal(header, mtime, 136, 12);
+  writeString(header, typeflag, 156, 1);
+  writeString(header, 'ustar\0', 257, 6);
+  writeString(header, '00', 263, 2);
+  writeString(header, prefix, 345, PREFIX_LENGTH);
+
+  // Checksum is computed with its own field treated as eight spaces
+  header.fill(0x20, 148, 156);
+  const checksum = header.reduce((sum, byte) => sum + byte, 0);
+  writeString(header, checksum.toString(8).padStart(6, '0') + '\0 ', 148, 8);
+
+  return header;
+}
+
+// Each PAX record is "<length> <key>=<value>\n" where length counts the whole record
+function paxRecord(key: string, value: string): string {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = encoder.encode(body).length;
+  let length = bodyLength + String(bodyLength).length;
+  // Prepending the length can itself add a digit
+  if (String(length).length > String(bodyLength).length) {
+    length = bodyLength + String(length).length;
+  }
+  return `${length}${body}`;
+}
+
+function padToBlock(size: number): number {
+  return (BLOCK_SIZE - (size % BLOCK_SIZE)) % BLOCK_SIZE;
+}
+
+function normalizePath(path: string): string {
+  return path.replace(/\\/g, '/').replace(/^(\.\/|\/)+/, '');
+}
+
+/**
+ * Build an uncompressed ustar archive. Parent directories are emitted before
+ * the files they contain so extraction creates them with 0755 permissions.
+ */
+export function createTarArchive(entries: TarEntry[], mtime: Date = new Date()): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  const directories = new Set<string>();
+
+  const pushEntry = (path: string, data: Uint8Array, mode: number, entryTime: Date, typeflag: string) => {
+    const seconds = Math.floor(entryTime.getTime() / 1000);
+    const pathBytes = encoder.encode(path);
+    const split = splitPath(pathBytes);
+
+    if (!split) {
+      const pax = encoder.encode(paxRecord('path', path));
+      const paxName = encoder.encode(`PaxHeader/${path.split('/').pop()}`.slice(0, NAME_LENGTH));
+      chunks.push(createHeader(paxName, new Uint8Array(0), pax.length, 0o644, seconds, 'x'));
+      chunks.push(pax, new Uint8Array(padToBlock(pax.length)));
+    }
+
+    const name = split ? split.name : pathBytes.subarray(pathBytes.length - NAME_LENGTH);
+    const prefix = split ? split.prefix : new Uint8Array(0);
+    chunks.push(createHeader(name, prefix, data.length, mode, seconds, typeflag));
+    chunks.push(data, new Uint8Array(padToBlock(data.length)));
+  };
+
+  for (const entry of entries) {
+    const path = normalizePath(entry.path);
+    const segments = path.split('/');
+
+    for (let i = 1; i < segments.length; i++) {
+      const directory = `${segments.slice(0, i).join('/')}/`;
+      if (!directories.has(directory)) {
+        directories.add(directory);
+        pushEntry(directory, new Uint8Array(0), 0o755, entry.mtime || mtime, '5');
+      }
+    }
+
+    const data = typeof entry.content === 'string' ? encoder.encode(entry.content) : entry.content;
+    const mode = entry.mode ?? defaultFileMode(path, entry.content);
+    pushEntry(path, data, mode, entry.mtime || mtime, '0');
+  }
+
+  // End of archive is marked by two zero-filled blocks
+  chunks.push(new Uint8Array(BLOCK_SIZE * 2));
+
+  const archive = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    archive.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return archive;
+}
+
+export function isGzipSupported(): boolean {
+  return typeof CompressionStream !== 'undefined';
+}
+
+/**
+ * Gzip bytes with the platform CompressionStream. Browsers expose a single
+ * deflate level, so callers choose only between compressed and uncompressed.
+ */
+export async function gzipBytes(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data as BlobPart]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
@@ -0,0 +1,373 @@
+/**
+ * Text Operations
+ * Operational transformation for plain text, shared by the collaboration edge
+ * function (which transforms concurrent edits server-side) and the browser
+ * editor. An operation walks the whole document: a positive number retains
+ * that many characters, a negative number deletes them and a string inserts.
+ *
+ * This module must stay free of imports so the Deno edge function can load it.
+ */
+
+export type TextOperationComponent = number | string;
+export type TextOperation = TextOperationComponent[];
+
+const isRetain = (component: TextOperationComponent | undefined): component is number =>
+  typeof component === 'number' && component > 0;
+
+const isDelete = (component: TextOperationComponent | undefined): component is number =>
+  typeof component === 'number' && component < 0;
+
+const isInsert = (component: TextOperationComponent | undefined): component is string =>
+  typeof component === 'string';
+
+function pushRetain(operation: TextOperation, count: number) {
+  if (count <= 0) return;
+  const last = operation[operation.length - 1];
+  if (isRetain(last)) {
+    operation[operation.length - 1] = last + count;
+  } else {
+    operation.push(count);
+  }
+}
+
+// Inserts are kept ahead of an adjacent delete so equal edits share one canonical form
+function pushInsert(operation: TextOperation, text: string) {
+  if (!text) return;
+  const last = operation[operation.length - 1];
+  if (isInsert(last)) {
+    operation[operation.length - 1] = last + text;
+  } else if (isDelete(last)) {
+    const beforeDelete = operation[operation.length - 2];
+    if (isInsert(beforeDelete)) {
+      operation[operation.length - 2] = beforeDelete + text;
+    } else {
+      operation[operation.length - 1] = text;
+      operation.push(last);
+    }
+  } else {
+    operation.push(text);
+  }
+}
+
+function pushDelete(operation: TextOperation, count: number) {
+  if (count <= 0) return;
+  const last = operation[operation.length - 1];
+  if (isDelete(last)) {
+    operation[operation.length - 1] = last - count;
+  } else {
+    operation.push(-count);
+  }
+}
+
+/**
+ * Check untrusted input (e.g. a WebSocket payload) before treating it as an operation
+ */
+export function isTextOperation(value: unknown): value is TextOperation {
+  return Array.isArray(value) && value.every(component =>
+    typeof component === 'string' || (Number.isSafeInteger(component) && component !== 0)
+  );
+}
+
+/** Length of the document the operation applies to */
+export function baseLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, component) =>
+    typeof component === 'number' ? length + Math.abs(component) : length, 0);
+}
+
+/** Length of the document after the operation is applied */
+export function targetLength(operation: TextOperation): number {
+  return operation.reduce<number>((length, component) => {
+    if (isRetain(component)) return length + component;
+    if (isInsert(component)) return length + component.length;
+    return length;
+  }, 0);
+}
+
+export function isNoop(operation: TextOperation): boolean {
+  return operation.every(isRetain);
+}
+
+export function applyOperation(text: string, operation: TextOperation): string {
+  if (baseLength(operation) !== text.length) {
+    throw new Error(`Operation expects a document of length ${baseLength(operation)}, got ${text.length}`);
+  }
+
+  const parts: string[] = [];
+  let index = 0;
+  for (const component of operation) {
+    if (isRetain(component)) {
+      parts.push(text.slice(index, index + component));
+      index += component;
+    } else if (isInsert(component)) {
+      parts.push(component);
+    } else {
+      index -= component;
+    }
+  }
+  return parts.join('');
+}
+
+/**
+ * Combine `a` followed by `b` into a single operation
+ */
+export function composeOperations(a: TextOperation, b: TextOperation): TextOperation {
+  if (targetLength(a) !== baseLength(b)) {
+    throw new Error('Cannot compose operations: the first operation\'s result does not match the second\'s base');
+  }
+
+  const result: TextOperation = [];
+  let i = 0;
+  let j = 0;
+  let componentA = a[i++];
+  let componentB = b[j++];
+
+  while (componentA !== undefined || componentB !== undefined) {
+    if (isDelete(componentA)) {
+      pushDelete(result, -componentA);
+      componentA = a[i++];
+      continue;
+    }
+    if (isInsert(componentB)) {
+      pushInsert(result, componentB);
+      componentB = b[j++];
+      continue;
+    }
+    if (componentA === undefined || componentB === undefined) {
+      throw new Error('Cannot compose operations: operations have different lengths');
+    }
+
+    if (isRetain(componentA) && isRetain(componentB)) {
+      const length = Math.min(componentA, componentB);
+      pushRetain(result, length);
+      componentA = componentA > length ? componentA - length : a[i++];
+      componentB = componentB > length ? componentB - length : b[j++];
+    } else if (isInsert(componentA) && isDelete(componentB)) {
+      const length = Math.min(componentA.length, -componentB);
+      componentA = componentA.length > length ? componentA.slice(length) : a[i++];
+      componentB = -componentB > length ? componentB + length : b[j++];
+    } else if (isInsert(componentA) && isRetain(componentB)) {
+      const length = Math.min(componentA.length, componentB);
+      pushInsert(result, componentA.slice(0, length));
+      componentA = componentA.length > length ? componentA.slice(length) : a[i++];
+      componentB = componentB > length ? componentB - length : b[j++];
+    } else if (isRetain(componentA) && isDelete(componentB)) {
+      const length = Math.min(componentA, -componentB);
+      pushDelete(result, length);
+      componentA = componentA > length ? componentA - length : a[i++];
+      componentB = -componentB > length ? componentB + length : b[j++];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Transform two concurrent operations on the same document into `[a', b']`
+ * so that applying `a` then `b'` gives the same text as `b` then `a'`.
+ * When both insert at the same position, `a`'s text ends up first.
+ */
+export function transformOperations(a: TextOperation, b: TextOperation): [TextOperation, TextOperation] {
+  if (baseLength(a) !== baseLength(b)) {
+    throw new Error('Cannot transform operations: they were made against different documents');
+  }
+
+  const aPrime: TextOperation = [];
+  const bPrime: TextOperation = [];
+  let i = 0;
+  let j = 0;
+  let componentA = a[i++];
+  let componentB = b[j++];
+
+  while (componentA !== undefined || componentB !== undefined) {
+    if (isInsert(componentA)) {
+      pushInsert(aPrime, componentA);
+      pushRetain(bPrime, componentA.length);
+      componentA = a[i++];
+      continue;
+    }
+    if (isInsert(componentB)) {
+      pushRetain(aPrime, componentB.length);
+      pushInsert(bPrime, componentB);
+      componentB = b[j++];
+      continue;
+    }
+    if (componentA === undefined || componentB === undefined) {
+      throw new Error('Cannot transform operations: operations have different lengths');
+    }
+
+    const lengthA = Math.abs(componentA);
+    const lengthB = Math.abs(componentB);
+    const length = Math.min(lengthA, lengthB);
+
+    if (isRetain(componentA) && isRetain(componentB)) {
+      pushRetain(aPrime, length);
+      pushRetain(bPrime, length);
+    } else if (isDelete(componentA) && isRetain(componentB)) {
+      pushDelete(aPrime, length);
+    } else if (isRetain(componentA) && isDelete(componentB)) {
+      pushDelete(bPrime, length);
+    }
+    // Both deleting the same text leaves nothing for either side to do
+
+    componentA = lengthA > length ? Math.sign(componentA) * (lengthA - length) : a[i++];
+    componentB = lengthB > length ? Math.sign(componentB) * (lengthB - length) : b[j++];
+  }
+
+  return [aPrime, bPrime];
+}
+
+/**
+ * Move a cursor or selection offset across an operation. Text inserted exactly
+ * at the cursor pushes it forward, matching how remote typing looks locally.
+ */
+export function transformIndex(index: number, operation: TextOperation): number {
+  let oldIndex = 0;
+  let newIndex = index;
+
+  for (const component of operation) {
+    if (oldIndex > index) break;
+
+    if (isRetain(component)) {
+      oldIndex += component;
+    } else if (isInsert(component)) {
+      newIndex += component.length;
+    } else {
+      newIndex -= Math.min(-component, index - oldIndex);
+      oldIndex -= component;
+    }
+  }
+
+  return newIndex;
+}
+
+/**
+ * Describe an edit as an operation by trimming the common prefix and suffix.
+ * Textarea input only ever changes one contiguous range, so this is exact for
+ * typing, pasting and deleting a selection.
+ */
+export function diffToOperation(oldText: string, newText: string): TextOperation {
+  let prefix = 0;
+  const maxPrefix = Math.min(oldText.length, newText.length);
+  while (prefix < maxPrefix && oldText[prefix] === newText[prefix]) {
+    prefix++;
+  }
+
+  let suffix = 0;
+  const maxSuffix = maxPrefix - prefix;
+  while (
+    suffix < maxSuffix &&
+    oldText[oldText.length - 1 - suffix] === newText[newText.length - 1 - suffix]
+  ) {
+    suffix++;
+  }
+
+  const operation: TextOperation = [];
+  pushRetain(operation, prefix);
+  pushInsert(operation, newText.slice(prefix, newText.length - suffix));
+  pushDelete(operation, oldText.length - prefix - suffix);
+  pushRetain(operation, suffix);
+  return operation;
+}
+
+/**
+ * An operation accepted by the server, in the order it was applied
+ */
+export interface VersionedOperation {
+  /** Document version after this operation */
+  version: number;
+  operation: TextOperation;
+  clientId: string;
+  opId: string;
+}
+
+export interface OTClientCallbacks {
+  sendOperation: (operation: TextOperation, baseVersion: number, opId: string) => void;
+  applyOperation: (operation: TextOperation) => void;
+}
+
+/**
+ * Client half of the server-transform protocol. At most one operation is in
+ * flight; edits made while waiting for its acknowledgement are composed into a
+ * buffer, and both are transformed past every remote operation that arrives.
+ */
+export class OTClient {
+  private outstanding: { operation: TextOperation; opId: string } | null = null;
+  private buffer: TextOperation | null = null;
+  private opCounter = 0;
+
+  constructor(
+    public version: number,
+    readonly clientId: string,
+    private callbacks: OTClientCallbacks
+  ) {}
+
+  get hasPendingChanges(): boolean {
+    return this.outstanding !== null || this.buffer !== null;
+  }
+
+  applyLocal(operation: TextOperation): void {
+    if (isNoop(operation)) return;
+
+    if (this.outstanding) {
+      this.buffer = this.buffer ? composeOperations(this.buffer, operation) : operation;
+      return;
+    }
+
+    this.outstanding = { operation, opId: `${this.clientId}:${++this.opCounter}` };
+    this.callbacks.sendOperation(operation, this.version, this.outstanding.opId);
+  }
+
+  /**
+   * Handle an operation broadcast by the server. Our own operation coming back
+   * acknowledges it; anything else is a remote edit to merge.
+   */
+  applyServer(message: VersionedOperation): void {
+    // Already seen, e.g. replayed after a reconnect
+    if (message.version <= this.version) return;
+
+    if (this.outstanding && message.clientId === this.clientId && message.opId === this.outstanding.opId) {
+      this.version = message.version;
+      this.outstanding = null;
+      if (this.buffer) {
+        const buffered = this.buffer;
+        this.buffer = null;
+        this.applyLocal(buffered);
+      }
+      return;
+    }
+
+    let remote = message.operation;
+    if (this.outstanding) {
+      const [remotePrime, outstandingPrime] = transformOperations(remote, this.outstanding.operation);
+      this.outstanding = { ...this.outstanding, operation: outstandingPrime };
+      remote = remotePrime;
+    }
+    if (this.buffer) {
+      const [remotePrime, bufferPrime] = transformOperations(remote, this.buffer);
+      this.buffer = bufferPrime;
+      remote = remotePrime;
+    }
+
+    this.version = message.version;
+    this.callbacks.applyOperation(remote);
+  }
+
+  /**
+   * Send the in-flight operation again after a reconnect. The server
+   * recognises the op id, so an operation it already applied is not doubled.
+   */
+  resend(): void {
+    if (this.outstanding) {
+      this.callbacks.sendOperation(this.outstanding.operation, this.version, this.outstanding.opId);
+    }
+  }
+
+  /**
+   * Start over from a server snapshot, dropping unsent local changes
+   */
+  reset(version: number): void {
+    this.version = version;
+    this.outstanding = null;
+    this.buffer = null;
+  }
+}
@@ -0,0 +1,277 @@
+import type { GeneratedFile, GenerationManifest } from '../types/full-stack-builder';
+import { hashContent } from './generation-manifest';
+
+/**
+ * Three-way merge of regenerated projects: the user's version of each file
+ * and the generator's new output are merged against what the generator
+ * produced last time (diff3 over lines).
+ */
+
+export type MergeHunk =
+  | { kind: 'stable'; lines: string[] }
+  | { kind: 'conflict'; base: string[]; ours: string[]; theirs: string[] };
+
+export interface TextMerge {
+  hunks: MergeHunk[];
+  conflicts: number;
+}
+
+/** How to resolve one conflict: the user's lines, the generated lines, or both in that order */
+export type ConflictChoice = 'ours' | 'theirs' | 'both';
+
+// Beyond this many cells the line matching would need too much memory; such
+// files are merged as one block
+const MAX_LCS_CELLS = 4_000_000;
+
+/** Lines with their line endings, so joining them gives back the text exactly */
+export function splitLines(text: string): string[] {
+  return text === '' ? [] : text.split(/(?<=\n)/);
+}
+
+const sameLines = (a: string[], b: string[]) => a.length === b.length && a.every((line, index) => line === b[index]);
+
+/**
+ * For each line of `base`, the index of the line it is matched to in
+ * `other` by a longest common subsequence, or -1
+ */
+function matchLines(base: string[], other: string[]): Int32Array {
+  const matches = new Int32Array(base.length).fill(-1);
+
+  let prefix = 0;
+  while (prefix < base.length && prefix < other.length && base[prefix] === other[prefix]) {
+    matches[prefix] = prefix;
+    prefix++;
+  }
+  let suffix = 0;
+  while (
+    suffix < base.length - prefix &&
+    suffix < other.length - prefix &&
+    base[base.length - 1 - suffix] === other[other.length - 1 - suffix]
+  ) {
+    matches[base.length - 1 - suffix] = other.length - 1 - suffix;
+    suffix++;
+  }
+
+  const n = base.length - prefix - suffix;
+  const m = other.length - prefix - suffix;
+  if (n === 0 || m === 0 || (n + 1) * (m + 1) > MAX_LCS_CELLS) return matches;
+
+  // lengths[i * (m + 1) + j]: LCS length of the middle sections from i and j on
+  const lengths = new Uint32Array((n + 1) * (m + 1));
+  for (let i = n - 1; i >= 0; i--) {
+    for (let j = m - 1; j >= 0; j--) {
+      lengths[i * (m + 1) + j] = base[prefix + i] === other[prefix + j]
+        ? lengths[(i + 1) * (m + 1) + j + 1] + 1
+        : Math.max(lengths[(i + 1) * (m + 1) + j], lengths[i * (m + 1) + j + 1]);
+    }
+  }
+
+  let i = 0;
+  let j = 0;
+  while (i < n && j < m) {
+    if (base[prefix + i] === other[prefix + j]) {
+      matches[prefix + i] = prefix + j;
+      i++;
+      j++;
+    } else if (lengths[(i + 1) * (m + 1) + j] >= lengths[i * (m + 1) + j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+  return matches;
+}
+
+/**
+ * Merge two edits of `base`. Regions only one side changed take that side's
+ * version; regions both changed identically merge cleanly; everything else
+ * is a conflict.
+ */
+export function mergeText(base: string, ours: string, theirs: string): TextMerge {
+  const baseLines = splitLines(base);
+  const ourLines = splitLines(ours);
+  const theirLines = splitLines(theirs);
+  const ourMatches = matchLines(baseLines, ourLines);
+  const theirMatches = matchLines(baseLines, theirLines);
+
+  const hunks: MergeHunk[] = [];
+  const pushStable = (lines: string[]) => {
+    if (lines.length === 0) return;
+    const last = hunks[hunks.length - 1];
+    if (last?.kind === 'stable') last.lines.push(...lines);
+    else hunks.push({ kind: 'stable', lines: [...lines] });
+  };
+
+  let i = 0;
+  let a = 0;
+  let b = 0;
+  while (i < baseLines.length || a < ourLines.length || b < theirLines.length) {
+    if (i < baseLines.length && ourMatches[i] === a && theirMatches[i] === b) {
+      pushStable([baseLines[i]]);
+      i++;
+      a++;
+      b++;
+      continue;
+    }
+
+    // The next base line both sides kept ends this unstable region
+    let sync = i;
+    while (sync < baseLines.length && (ourMatches[sync] === -1 || theirMatches[sync] === -1)) sync++;
+    const ourEnd = sync < baseLines.length ? ourMatches[sync] : ourLines.length;
+    const theirEnd = sync < baseLines.length ? theirMatches[sync] : theirLines.length;
+
+    const baseChunk = baseLines.slice(i, sync);
+    const ourChunk = ourLines.slice(a, ourEnd);
+    const theirChunk = theirLines.slice(b, theirEnd);
+
+    if (sameLines(ourChunk, theirChunk) || sameLines(baseChunk, theirChunk)) {
+      pushStable(ourChunk);
+    } else if (sameLines(baseChunk, ourChunk)) {
+      pushStable(theirChunk);
+    } else {
+      hunks.push({ kind: 'conflict', base: baseChunk, ours: ourChunk, theirs: theirChunk });
+    }
+
+    i = sync;
+    a = ourEnd;
+    b = theirEnd;
+  }
+
+  return { hunks, conflicts: hunks.filter(hunk => hunk.kind === 'conflict').length };
+}
+
+/** Both versions of the whole file as one conflict, for merges without a base */
+export function wholeFileConflict(ours: string, theirs: string): TextMerge {
+  return { hunks: [{ kind: 'conflict', base: [], ours: splitLines(ours), theirs: splitLines(theirs) }], conflicts: 1 };
+}
+
+const withNewline = (lines: string[]) => {
+  const text = lines.join('');
+  return text === '' || text.endsWith('\n') ? text : `${text}\n`;
+};
+
+/**
+ * The merged text. Conflicts are resolved by `choices` in order; any left
+ * over are written with git-style conflict markers.
+ */
+export function renderMerge(merge: TextMerge, choices: Array<ConflictChoice | undefined> = []): string {
+  let conflictIndex = 0;
+
+  return merge.hunks.map(hunk => {
+    if (hunk.kind === 'stable') return hunk.lines.join('');
+
+    const choice = choices[conflictIndex++];
+    if (choice === 'ours') return hunk.ours.join('');
+    if (choice === 'theirs') return hunk.theirs.join('');
+    if (choice === 'both') return withNewline(hunk.ours) + hunk.theirs.join('');
+    return `<<<<<<< yours\n${withNewline(hunk.ours)}=======\n${withNewline(hunk.theirs)}>>>>>>> generated\n`;
+  }).join('');
+}
+
+export type RegenerationStatus =
+  /** The user's file already matches the new output */
+  | 'unchanged'
+  /** Not edited by the user: replaced with the new output */
+  | 'updated'
+  /** Edited by the user, or the user's own file, and the generator has nothing new for it */
+  | 'kept'
+  /** Edited by the user and changed by the generator, merged without conflicts */
+  | 'merged'
+  | 'conflict'
+  /** New in this generation */
+  | 'added'
+  /** Deleted by the user; stays deleted */
+  | 'removed'
+  /** No longer generated and not edited by the user; deleted */
+  | 'dropped';
+
+export interface RegeneratedFile {
+  path: string;
+  type: GeneratedFile['type'];
+  status: RegenerationStatus;
+  /** Content after the merge, with conflict markers for unresolved conflicts; null when the file is gone */
+  content: string | null;
+  /** The generator's new output, when there is one */
+  generated?: string;
+  merge?: TextMerge;
+}
+
+export interface RegenerationInput {
+  /** What the previous generation produced */
+  manifest: GenerationManifest;
+  /** The previous generation's contents, where still available */
+  base: Map<string, string>;
+  /** The project as the user has it now */
+  current: GeneratedFile[];
+  /** The new generator output */
+  next: GeneratedFile[];
+}
+
+export async function mergeRegeneration({ manifest, base, current, next }: RegenerationInput): Promise<RegeneratedFile[]> {
+  const currentByPath = new Map(current.map(file => [file.path, file]));
+  const nextPaths = new Set(next.map(file => file.path));
+  const results: RegeneratedFile[] = [];
+
+  for (const file of next) {
+    const previousHash = manifest.files[file.path];
+    const mine = currentByPath.get(file.path);
+    const result = { path: file.path, type: file.type, generated: file.content };
+
+    if (!mine) {
+      results.push(previousHash
+        ? { ...result, status: 'removed', content: null }
+        : { ...result, status: 'added', content: file.content });
+      continue;
+    }
+    if (mine.content === file.content) {
+      results.push({ ...result, status: 'unchanged', content: mine.content });
+      continue;
+    }
+
+    const [mineHash, nextHash] = await Promise.all([hashContent(mine.content), hashContent(file.content)]);
+    if (mineHash === previousHash) {
+      results.push({ ...result, status: 'updated', content: file.content });
+    } else if (nextHash === previousHash) {
+      results.push({ ...result, status: 'kept', content: mine.content });
+    } else {
+      const baseContent = previousHash ? base.get(file.path) : undefined;
+      const merge = baseContent === undefined
+        ? wholeFileConflict(mine.content, file.content)
+        : mergeText(baseContent, mine.content, file.content);
+      results.push({
+        ...result,
+        status: merge.conflicts > 0 ? 'conflict' : 'merged',
+        content: renderMerge(merge),
+        merge
+      });
+    }
+  }
+
+  for (const mine of current) {
+    if (nextPaths.has(mine.path)) continue;
+    const previousHash = manifest.files[mine.path];
+    const untouched = previousHash !== undefined && (await hashContent(mine.content)) === previousHash;
+    results.push({
+      path: mine.path,
+      type: mine.type,
+      status: untouched ? 'dropped' : 'kept',
+      content: untouched ? null : mine.content
+    });
+  }
+
+  return results;
+}
+
+/** The project files after a regeneration, with conflicts resolved by the given choices per path */
+export function applyRegeneration(
+  results: RegeneratedFile[],
+  choices: Record<string, Array<ConflictChoice | undefined>> = {}
+): GeneratedFile[] {
+  return results.flatMap(result => {
+    const content = result.merge && result.status === 'conflict'
+      ? renderMerge(result.merge, choices[result.path])
+      : result.content;
+    if (content === null) return [];
+    return [{ path: result.path, content, type: result.type, size: new Blob([content]).size }];
+  });
+}
@@ -0,0 +1,270 @@
+/**
+ * Webhook Signature Verification
+ * One verifier for every inbound webhook: GitHub and Vercel HMAC signatures,
+ * GitLab secret tokens, Stripe `t=,v1=` signatures and a generic HMAC-SHA256
+ * header for other platforms. Comparisons are constant-time, timestamped
+ * deliveries outside the tolerance window are rejected, and each delivery id
+ * is accepted once.
+ *
+ * Uses only WebCrypto and no imports so the Deno edge functions can load it.
+ */
+
+export type WebhookProvider = 'github' | 'gitlab' | 'stripe' | 'vercel' | 'hmac-sha256';
+
+export type WebhookHeaders = Headers | Record<string, string | undefined>;
+
+export type WebhookRejection =
+  | 'missing_secret'
+  | 'missing_signature'
+  | 'invalid_signature'
+  | 'stale_timestamp'
+  | 'replayed';
+
+export type WebhookVerificationResult =
+  | {
+      valid: true;
+      deliveryId: string;
+      /** Keys recorded in the delivery store; release all of them to accept a retry */
+      claims: string[];
+      timestamp?: number;
+    }
+  | { valid: false; reason: WebhookRejection; message: string };
+
+/**
+ * Records delivery ids that were accepted. `markDelivered` must be atomic:
+ * of two concurrent calls with the same id, exactly one returns true.
+ */
+export interface WebhookDeliveryStore {
+  markDelivered(provider: WebhookProvider, deliveryId: string): Promise<boolean>;
+  /** Forget a delivery whose processing failed so the sender's retry is accepted */
+  release(provider: WebhookProvider, deliveryId: string): Promise<void>;
+}
+
+export interface WebhookVerificationOptions {
+  provider: WebhookProvider;
+  /** The raw request body, exactly as received */
+  payload: string;
+  headers: WebhookHeaders;
+  secret: string | undefined;
+  deliveries?: WebhookDeliveryStore;
+  /** Maximum age of a signed timestamp, default five minutes */
+  toleranceSeconds?: number;
+  /** Header carrying the signature for `hmac-sha256`, default `x-signature` */
+  signatureHeader?: string;
+  now?: () => number;
+}
+
+const DEFAULT_TOLERANCE_SECONDS = 300;
+
+// Providers whose delivery id is part of the signed payload. The others send
+// it in a header the signature doesn't cover.
+const SIGNED_ID_PROVIDERS: WebhookProvider[] = ['stripe', 'vercel'];
+const encoder = new TextEncoder();
+
+function getHeader(headers: WebhookHeaders, name: string): string | undefined {
+  if (typeof Headers !== 'undefined' && headers instanceof Headers) {
+    return headers.get(name) ?? undefined;
+  }
+
+  const record = headers as Record<string, string | undefined>;
+  const key = Object.keys(record).find(header => header.toLowerCase() === name.toLowerCase());
+  return key ? record[key] : undefined;
+}
+
+/**
+ * Compare two strings without leaking where they differ through timing.
+ * Runs over the longer input so the length is the only thing revealed.
+ */
+export function timingSafeEqual(a: string, b: string): boolean {
+  const left = encoder.encode(a);
+  const right = encoder.encode(b);
+  const length = Math.max(left.length, right.length);
+  let difference = left.length ^ right.length;
+
+  for (let i = 0; i < length; i++) {
+    difference |= (left[i] ?? 0) ^ (right[i] ?? 0);
+  }
+  return difference === 0;
+}
+
+export async function computeHmacHex(
+  algorithm: 'SHA-1' | 'SHA-256',
+  secret: string,
+  payload: string
+): Promise<string> {
+  const key = await crypto.subtle.importKey(
+    'raw',
+    encoder.encode(secret),
+    { name: 'HMAC', hash: algorithm },
+    false,
+    ['sign']
+  );
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(payload));
+  return Array.from(new Uint8Array(signature))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+type WebhookRejected = Extract<WebhookVerificationResult, { valid: false }>;
+
+function reject(reason: WebhookRejection, message: string): WebhookRejected {
+  return { valid: false, reason, message };
+}
+
+function readPayloadField(payload: string, field: string): unknown {
+  try {
+    const parsed = JSON.parse(payload);
+    return parsed && typeof parsed === 'object' ? parsed[field] : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
+function isFresh(timestampSeconds: number, options: WebhookVerificationOptions): boolean {
+  const now = (options.now ?? Date.now)() / 1000;
+  const tolerance = options.toleranceSeconds ?? DEFAULT_TOLERANCE_SECONDS;
+  return Number.isFinite(timestampSeconds) && Math.abs(now - timestampSeconds) <= tolerance;
+}
+
+type SignatureCheck =
+  | { valid: true; deliveryId?: string; timestamp?: number }
+  | WebhookRejected;
+
+async function checkSignature(options: WebhookVerificationOptions, secret: string): Promise<SignatureCheck> {
+  const { provider, payload, headers } = options;
+
+  switch (provider) {
+    case 'github': {
+      const signature = getHeader(headers, 'x-hub-signature-256');
+      if (!signature?.startsWith('sha256=')) {
+        return reject('missing_signature', 'Missing X-Hub-Signature-256 header');
+      }
+      const expected = `sha256=${await computeHmacHex('SHA-256', secret, payload)}`;
+      return timingSafeEqual(signature, expected)
+        ? { valid: true, deliveryId: getHeader(headers, 'x-github-delivery') }
+        : reject('invalid_signature', 'GitHub signature does not match');
+    }
+
+    case 'gitlab': {
+      // GitLab sends the shared secret itself rather than a signature
+      const token = getHeader(headers, 'x-gitlab-token');
+      if (!token) {
+        return reject('missing_signature', 'Missing X-Gitlab-Token header');
+      }
+      return timingSafeEqual(token, secret)
+        ? { valid: true, deliveryId: getHeader(headers, 'idempotency-key') || getHeader(headers, 'x-gitlab-event-uuid') }
+        : reject('invalid_signature', 'GitLab token does not match');
+    }
+
+    case 'stripe': {
+      const header = getHeader(headers, 'stripe-signature');
+      const parts = (header || '').split(',').map(part => part.trim().split('='));
+      const timestamp = Number(parts.find(([key]) => key === 't')?.[1]);
+      const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value || '');
+      if (!header || !timestamp || signatures.length === 0) {
+        return reject('missing_signature', 'Missing or malformed Stripe-Signature header');
+      }
+
+      const expected = await computeHmacHex('SHA-256', secret, `${timestamp}.${payload}`);
+      // Check every candidate so a secret rotation (two v1 values) still passes
+      const matched = signatures.reduce((found, signature) => timingSafeEqual(signature, expected) || found, false);
+      if (!matched) {
+        return reject('invalid_signature', 'Stripe signature does not match');
+      }
+      if (!isFresh(timestamp, options)) {
+        return reject('stale_timestamp', 'Stripe signature timestamp is outside the tolerance window');
+      }
+      const eventId = readPayloadField(payload, 'id');
+      return { valid: true, deliveryId: typeof eventId === 'string' ? eventId : undefined, timestamp };
+    }
+
+    case 'vercel': {
+      const signature = getHeader(headers, 'x-vercel-signature');
+      if (!signature) {
+        return reject('missing_signature', 'Missing x-vercel-signature header');
+      }
+      if (!timingSafeEqual(signature, await computeHmacHex('SHA-1', secret, payload))) {
+        return reject('invalid_signature', 'Vercel signature does not match');
+      }
+
+      // Vercel signs the body only; its createdAt (milliseconds) bounds the replay window
+      const createdAt = readPayloadField(payload, 'createdAt');
+      const timestamp = typeof createdAt === 'number' ? Math.floor(createdAt / 1000) : undefined;
+      if (timestamp !== undefined && !isFresh(timestamp, options)) {
+        return reject('stale_timestamp', 'Vercel event is outside the tolerance window');
+      }
+      const eventId = readPayloadField(payload, 'id');
+      return { valid: true, deliveryId: typeof eventId === 'string' ? eventId : undefined, timestamp };
+    }
+
+    case 'hmac-sha256': {
+      const signature = getHeader(headers, options.signatureHeader || 'x-signature');
+      if (!signature) {
+        return reject('missing_signature', 'Missing webhook signature header');
+      }
+      const expected = await computeHmacHex('SHA-256', secret, payload);
+      return timingSafeEqual(signature.replace(/^sha256=/, ''), expected)
+        ? { valid: true, deliveryId: getHeader(headers, 'x-delivery-id') || getHeader(headers, 'x-request-id') }
+        : reject('invalid_signature', 'Webhook signature does not match');
+    }
+  }
+}
+
+/**
+ * Verify an inbound webhook and claim its delivery id. Deliveries without a
+ * provider id are deduplicated by their signature. So are deliveries whose id
+ * isn't signed, since a captured body could be resent under a fresh id.
+ */
+export async function verifyWebhook(options: WebhookVerificationOptions): Promise<WebhookVerificationResult> {
+  if (!options.secret) {
+    return reject('missing_secret', `No webhook secret configured for ${options.provider}`);
+  }
+
+  const check = await checkSignature(options, options.secret);
+  if (!check.valid) {
+    return check;
+  }
+
+  const bodyKey = `sig:${await computeHmacHex('SHA-256', options.secret, options.payload)}`;
+  const deliveryId = check.deliveryId || bodyKey;
+  const claims = deliveryId !== bodyKey && !SIGNED_ID_PROVIDERS.includes(options.provider)
+    ? [bodyKey, deliveryId]
+    : [deliveryId];
+
+  const { deliveries } = options;
+  if (deliveries) {
+    for (const [index, key] of claims.entries()) {
+      if (!(await deliveries.markDelivered(options.provider, key))) {
+        await Promise.all(claims.slice(0, index).map(claimed => deliveries.release(options.provider, claimed)));
+        return reject('replayed', `Delivery ${deliveryId} was already processed`);
+      }
+    }
+  }
+
+  return { valid: true, deliveryId, claims, timestamp: check.timestamp };
+}
+
+/**
+ * Delivery store for a single process, bounded to the most recent ids
+ */
+export function createMemoryDeliveryStore(maxEntries = 10000): WebhookDeliveryStore {
+  const seen = new Set<string>();
+
+  return {
+    async markDelivered(provider, deliveryId) {
+      const key = `${provider}:${deliveryId}`;
+      if (seen.has(key)) return false;
+
+      seen.add(key);
+      if (seen.size > maxEntries) {
+        // Sets iterate in insertion order, so this drops the oldest id
+        seen.delete(seen.values().next().value as string);
+      }
+      return true;
+    },
+
+    async release(provider, deliveryId) {
+      seen.delete(`${provider}:${deliveryId}`);
+    }
+  };
+}
@@ -0,0 +1,139 @@
+import type { WorkflowEdge, WorkflowGraph, WorkflowNode } from '../../types/workflow';
+import { validateGraph } from '../workflow-engine';
+import { extractLiteral, parseLiteral, type SourceDialect } from './literals';
+import { NODE_TYPES } from './spec';
+import type { ImportedWorkflow, WorkflowExportTarget } from './types';
+
+/** Files the importer looks for in an exported project, in order */
+const ENTRY_FILES = ['workflow/graph.py', 'src/workflow.ts', 'graph.py', 'workflow.ts'];
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return value !== null && typeof value === 'object' && !Array.isArray(value);
+}
+
+function readLiteral(source: string, name: string, dialect: SourceDialect): unknown {
+  try {
+    const literal = extractLiteral(source, name, dialect);
+    return literal === null ? undefined : parseLiteral(literal, dialect);
+  } catch (error) {
+    throw new Error(`Could not read ${name}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/** `builder.add_edge("a", "b")` and `add_conditional_edges("c", ..., {"true": "x", "false": "y"})` with literal names */
+function edgesFromCalls(source: string): Array<{ source: string; target: string; branch?: 'true' | 'false' }> {
+  const edges: Array<{ source: string; target: string; branch?: 'true' | 'false' }> = [];
+  const name = `(?:"([^"]+)"|'([^']+)')`;
+  for (const match of source.matchAll(new RegExp(`\\.add_edge\\(\\s*${name}\\s*,\\s*${name}\\s*\\)`, 'g'))) {
+    edges.push({ source: match[1] ?? match[2], target: match[3] ?? match[4] });
+  }
+  for (const match of source.matchAll(new RegExp(`\\.add_conditional_edges\\(\\s*${name}\\s*,(?:[^{()]|\\([^()]*\\))*(\\{[^}]*\\})\\s*\\)`, 'g'))) {
+    // A branch that ends the run maps to END, which has no step to connect to
+    const mapping = parseLiteral(match[3].replace(/:\s*END\b/g, ': None'), 'python');
+    if (!isRecord(mapping)) continue;
+    for (const [branch, target] of Object.entries(mapping)) {
+      if ((branch === 'true' || branch === 'false') && typeof target === 'string') {
+        edges.push({ source: match[1] ?? match[2], target, branch });
+      }
+    }
+  }
+  return edges;
+}
+
+function toNode(id: string, spec: unknown, index: number, warnings: string[]): WorkflowNode | null {
+  if (!isRecord(spec)) {
+    warnings.push(`Skipped "${id}": its entry is not an object`);
+    return null;
+  }
+  if (!NODE_TYPES.includes(spec.type as WorkflowNode['type'])) {
+    warnings.push(`Skipped "${id}": unknown step type "${String(spec.type)}"`);
+    return null;
+  }
+  const position = isRecord(spec.position) && typeof spec.position.x === 'number' && typeof spec.position.y === 'number'
+    ? { x: spec.position.x, y: spec.position.y }
+    : { x: 100 + (index % 4) * 250, y: 100 + Math.floor(index / 4) * 180 };
+  const retry = isRecord(spec.retry) && typeof spec.retry.maxAttempts === 'number'
+    ? { maxAttempts: spec.retry.maxAttempts, backoffMs: typeof spec.retry.backoffMs === 'number' ? spec.retry.backoffMs : 0 }
+    : undefined;
+
+  const node: WorkflowNode = {
+    id,
+    type: spec.type as WorkflowNode['type'],
+    label: typeof spec.label === 'string' && spec.label ? spec.label : id,
+    config: isRecord(spec.config) ? spec.config : {},
+    position
+  };
+  if (typeof spec.description === 'string') node.description = spec.description;
+  if (retry) node.retry = retry;
+  if (typeof spec.timeoutMs === 'number') node.timeoutMs = spec.timeoutMs;
+  return node;
+}
+
+/**
+ * Reads a workflow back from a generated `graph.py` or `workflow.ts`. The
+ * supported subset is the `NODES`, `EDGES` and `WORKFLOW` literals, plus
+ * `add_edge`/`add_conditional_edges` calls with literal node names in Python.
+ * Graph problems (a missing trigger, unlabelled branches) come back as
+ * warnings so the graph can still be fixed on the canvas.
+ */
+export function importWorkflowSource(source: string, fileName = ''): ImportedWorkflow {
+  const dialect: SourceDialect = /\.py$/.test(fileName) || (!/\.[jt]sx?$/.test(fileName) && /^NODES\s*=/m.test(source))
+    ? 'python'
+    : 'typescript';
+  const target: WorkflowExportTarget = dialect === 'python' ? 'langgraph-python' : 'langchain-js';
+  const warnings: string[] = [];
+
+  const nodesLiteral = readLiteral(source, 'NODES', dialect);
+  if (nodesLiteral === undefined) {
+    throw new Error(`No NODES definition found; import a workflow exported from the builder (${dialect === 'python' ? 'workflow/graph.py' : 'src/workflow.ts'})`);
+  }
+  if (!isRecord(nodesLiteral)) throw new Error('NODES must map step ids to their settings');
+
+  const nodes = Object.entries(nodesLiteral)
+    .map(([id, spec], index) => toNode(id, spec, index, warnings))
+    .filter((node): node is WorkflowNode => node !== null);
+  const ids = new Set(nodes.map(node => node.id));
+
+  const edgesLiteral = readLiteral(source, 'EDGES', dialect);
+  const declared = Array.isArray(edgesLiteral) ? edgesLiteral : [];
+  if (edgesLiteral !== undefined && !Array.isArray(edgesLiteral)) warnings.push('EDGES is not a list and was ignored');
+  const candidates = [...declared, ...(dialect === 'python' ? edgesFromCalls(source) : [])];
+
+  const edges: WorkflowEdge[] = [];
+  for (const candidate of candidates) {
+    if (!isRecord(candidate) || typeof candidate.source !== 'string' || typeof candidate.target !== 'string') {
+      warnings.push('Skipped a connection without a source and target');
+      continue;
+    }
+    const { source: from, target: to } = candidate;
+    if (!ids.has(from) || !ids.has(to)) {
+      warnings.push(`Skipped the connection ${from} → ${to}: ${ids.has(from) ? to : from} is not a step`);
+      continue;
+    }
+    const branch = candidate.branch === 'true' || candidate.branch === 'false' ? candidate.branch : undefined;
+    if (edges.some(edge => edge.source === from && edge.target === to && edge.branch === branch)) continue;
+    edges.push({ id: `edge-${edges.length + 1}`, source: from, target: to, ...(branch ? { branch } : {}) });
+  }
+
+  const meta = readLiteral(source, 'WORKFLOW', dialect);
+  const graph: WorkflowGraph = {
+    id: isRecord(meta) && typeof meta.id === 'string' ? meta.id : `imported-${Date.now()}`,
+    name: isRecord(meta) && typeof meta.name === 'string' ? meta.name : 'Imported workflow',
+    nodes,
+    edges
+  };
+  if (isRecord(meta) && typeof meta.description === 'string') graph.description = meta.description;
+
+  warnings.push(...validateGraph(graph).map(problem => problem.message));
+  return { graph, target, warnings };
+}
+
+/** Imports from the files of an exported project, e.g. an unpacked zip */
+export function importWorkflowProject(files: Record<string, string>): ImportedWorkflow {
+  const paths = Object.keys(files);
+  for (const entry of ENTRY_FILES) {
+    const path = paths.find(candidate => candidate === entry || candidate.endsWith(`/${entry}`));
+    if (path) return importWorkflowSource(files[path], path);
+  }
+  throw new Error(`No exported workflow found; expected one of ${ENTRY_FILES.slice(0, 2).join(' or ')}`);
+}
@@ -0,0 +1,29 @@
+/**
+ * Compiles workflow graphs into runnable LangGraph (Python) and LangChain.js
+ * (TypeScript) projects, and imports them back.
+ */
+
+import type { WorkflowGraph } from '../../types/workflow';
+import { compileLangChainJs } from './langchain-js';
+import { compileLangGraph } from './langgraph';
+import type { CompiledWorkflowProject, CompileOptions, WorkflowExportTarget } from './types';
+
+export { importWorkflowProject, importWorkflowSource } from './importer';
+export { extractLiteral, parseLiteral, toPythonLiteral, toTypeScriptLiteral } from './literals';
+export { DEFAULT_MODEL } from './spec';
+export type { CompiledWorkflowProject, CompileOptions, ImportedWorkflow, WorkflowExportTarget } from './types';
+
+export const WORKFLOW_EXPORT_TARGETS: Array<{ id: WorkflowExportTarget; label: string; language: string }> = [
+  { id: 'langgraph-python', label: 'LangGraph', language: 'Python' },
+  { id: 'langchain-js', label: 'LangChain.js', language: 'TypeScript' }
+];
+
+const COMPILERS: Record<WorkflowExportTarget, (graph: WorkflowGraph, options?: CompileOptions) => CompiledWorkflowProject> = {
+  'langgraph-python': compileLangGraph,
+  'langchain-js': compileLangChainJs
+};
+
+/** Throws when the graph cannot run, with the problems listed */
+export function compileWorkflow(graph: WorkflowGraph, target: WorkflowExportTarget, options: CompileOptions = {}): CompiledWorkflowProject {
+  return COMPILERS[target](graph, options);
+}
@@ -0,0 +1,444 @@
+import type { WorkflowGraph } from '../../types/workflow';
+import { toTypeScriptLiteral } from './literals';
+import {
+  DEFAULT_MODEL,
+  edgeSpecs,
+  nodeSpecs,
+  prepareGraph,
+  projectSlug,
+  sampleTrigger,
+  unconditionalNodes
+} from './spec';
+import type { CompiledWorkflowProject, CompileOptions } from './types';
+
+const DEPENDENCIES = {
+  '@langchain/core': '0.3.26',
+  '@langchain/openai': '0.3.16'
+};
+
+const DEV_DEPENDENCIES = {
+  '@types/node': '22.10.2',
+  tsx: '4.19.2',
+  typescript: '5.7.2',
+  vitest: '2.1.8'
+};
+
+/** Interprets NODES with the same semantics as the builder's runtime */
+const RUNTIME_TS = String.raw`/**
+ * Runtime for the generated workflow: node behaviour, retries and timeouts.
+ * Each step runs as a LangChain runnable so callbacks and tracing see it.
+ * Regenerating the project from the builder overwrites this file.
+ */
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import { StringOutputParser } from '@langchain/core/output_parsers';
+import { ChatPromptTemplate } from '@langchain/core/prompts';
+import { RunnableLambda } from '@langchain/core/runnables';
+
+export type NodeType = 'trigger' | 'action' | 'condition' | 'delay' | 'webhook' | 'ai';
+
+export interface NodeSpec {
+  type: NodeType;
+  label: string;
+  description?: string;
+  config: Record<string, any>;
+  position: { x: number; y: number };
+  retry?: { maxAttempts: number; backoffMs: number };
+  timeoutMs?: number;
+}
+
+export interface EdgeSpec {
+  source: string;
+  target: string;
+  branch?: 'true' | 'false';
+}
+
+export interface Scope {
+  input: unknown;
+  trigger: Record<string, unknown>;
+  nodes: Record<string, unknown>;
+}
+
+export type ActionHandler = (config: Record<string, any>, scope: Scope) => unknown;
+
+export interface Dependencies {
+  llm: (model: string) => BaseChatModel;
+  fetch: typeof fetch;
+  sleep: (ms: number) => Promise<void>;
+  actions: Record<string, ActionHandler>;
+}
+
+export interface RunResult {
+  outputs: Record<string, unknown>;
+  branches: Record<string, 'true' | 'false'>;
+}
+
+export const DEFAULT_TIMEOUT_MS = 30_000;
+
+export function readPath(scope: Scope, path: string): unknown {
+  const [head, ...rest] = path.trim().split('.');
+  const roots: Record<string, unknown> = { input: scope.input, trigger: scope.trigger, nodes: scope.nodes };
+  const [root, keys] = head in roots ? [roots[head], rest] : [scope.input, [head, ...rest]];
+  return keys.reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    root
+  );
+}
+
+function text(value: unknown): string {
+  if (value === undefined || value === null) return '';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+export function render(value: unknown, scope: Scope): any {
+  if (typeof value === 'string') return value.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, path: string) => text(readPath(scope, path)));
+  if (Array.isArray(value)) return value.map(item => render(item, scope));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, render(item, scope)]));
+  }
+  return value;
+}
+
+export function evaluate(actual: unknown, operator: string, expected: unknown): boolean {
+  switch (operator) {
+    case 'equals': return text(actual) === text(expected);
+    case 'not_equals': return text(actual) !== text(expected);
+    case 'contains':
+      return Array.isArray(actual) ? actual.map(text).includes(text(expected)) : text(actual).includes(text(expected));
+    case 'greater_than': return Number(actual) > Number(expected);
+    case 'less_than': return Number(actual) < Number(expected);
+    case 'exists': return actual !== undefined && actual !== null && actual !== '';
+    default: throw new Error('Unknown condition operator "' + operator + '"');
+  }
+}
+
+type Handler = (spec: NodeSpec, scope: Scope, deps: Dependencies) => Promise<unknown>;
+
+const handlers: Record<NodeType, Handler> = {
+  trigger: async (_spec, scope) => scope.trigger,
+
+  condition: async (spec, scope) => {
+    const { field, operator = 'equals', value } = spec.config;
+    if (!field) throw new Error('Condition has no field to check');
+    return evaluate(readPath(scope, field), operator, value);
+  },
+
+  delay: async (spec, scope, deps) => {
+    const ms = Number(spec.config.ms ?? Number(spec.config.seconds ?? 0) * 1000);
+    await deps.sleep(ms);
+    return scope.input;
+  },
+
+  webhook: async (spec, scope, deps) => {
+    const url = render(String(spec.config.url ?? ''), scope);
+    if (!/^https?:\/\//.test(url)) throw new Error('Webhook needs an http(s) URL');
+    const method = String(spec.config.method ?? 'POST').toUpperCase();
+    const headers = { 'Content-Type': 'application/json', ...render(spec.config.headers ?? {}, scope) };
+    const body = method === 'GET' || method === 'HEAD'
+      ? undefined
+      : JSON.stringify(spec.config.body === undefined ? scope.input : render(spec.config.body, scope));
+    const response = await deps.fetch(url, { method, headers, body });
+    const payload = response.headers.get('content-type')?.includes('application/json') ? await response.json() : await response.text();
+    if (!response.ok) throw new Error('Webhook returned ' + response.status + ' ' + response.statusText);
+    return { status: response.status, body: payload };
+  },
+
+  ai: async (spec, scope, deps) => {
+    const prompt = render(String(spec.config.prompt ?? ''), scope);
+    if (!prompt.trim()) throw new Error('AI step has no prompt');
+    const system = spec.config.systemPrompt ? render(String(spec.config.systemPrompt), scope) : '';
+    // Rendered text goes in as variables so braces in it are not read as template slots
+    const template = ChatPromptTemplate.fromMessages(
+      system ? [['system', '{system}'], ['human', '{prompt}']] : [['human', '{prompt}']]
+    );
+    const chain = template.pipe(deps.llm(spec.config.model)).pipe(new StringOutputParser());
+    return { text: await chain.invoke({ system, prompt }), model: spec.config.model };
+  },
+
+  action: async (spec, scope, deps) => {
+    const action = spec.config.action;
+    if (!action) throw new Error('Action has no operation selected');
+    if (action === 'set-data') {
+      const base = scope.input !== null && typeof scope.input === 'object' ? scope.input : {};
+      return { ...base, ...render(spec.config.values ?? {}, scope) };
+    }
+    const handler = deps.actions[action];
+    if (!handler) throw new Error('No handler is registered for the "' + action + '" action');
+    return handler(spec.config, scope);
+  }
+};
+
+async function attempt<T>(call: () => Promise<T>, timeoutMs: number | undefined): Promise<T> {
+  if (timeoutMs === undefined) return call();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Timed out after ' + timeoutMs + ' ms')), timeoutMs);
+  });
+  try {
+    return await Promise.race([call(), timeout]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+export async function callWithPolicy<T>(spec: NodeSpec, call: () => Promise<T>, sleep: Dependencies['sleep']): Promise<T> {
+  const attempts = Math.max(1, spec.retry?.maxAttempts ?? 1);
+  const timeoutMs = spec.timeoutMs ?? (spec.type === 'delay' ? undefined : DEFAULT_TIMEOUT_MS);
+  for (let number = 1; ; number++) {
+    try {
+      return await attempt(call, timeoutMs);
+    } catch (error) {
+      if (number >= attempts) throw error;
+      await sleep((spec.retry?.backoffMs ?? 0) * 2 ** (number - 1));
+    }
+  }
+}
+
+function topologicalOrder(nodes: Record<string, NodeSpec>, edges: EdgeSpec[]): string[] {
+  const remaining = new Map(Object.keys(nodes).map(id => [id, edges.filter(edge => edge.target === id).length]));
+  const ready = Object.keys(nodes).filter(id => remaining.get(id) === 0);
+  const order: string[] = [];
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    for (const edge of edges.filter(candidate => candidate.source === id)) {
+      remaining.set(edge.target, remaining.get(edge.target)! - 1);
+      if (remaining.get(edge.target) === 0) ready.push(edge.target);
+    }
+  }
+  if (order.length !== Object.keys(nodes).length) throw new Error('The workflow contains a cycle');
+  return order;
+}
+
+/**
+ * Runs every step in dependency order. A step runs when at least one incoming
+ * connection is active: its source ran and, for conditions, took that branch.
+ */
+export async function runWorkflow(
+  nodes: Record<string, NodeSpec>,
+  edges: EdgeSpec[],
+  trigger: Record<string, unknown>,
+  deps: Dependencies
+): Promise<RunResult> {
+  const outputs: Record<string, unknown> = {};
+  const branches: Record<string, 'true' | 'false'> = {};
+
+  for (const id of topologicalOrder(nodes, edges)) {
+    const spec = nodes[id];
+    const active = edges.filter(edge =>
+      edge.target === id && edge.source in outputs && (!edge.branch || branches[edge.source] === edge.branch)
+    );
+    if (spec.type !== 'trigger' && active.length === 0) continue;
+
+    const input = spec.type === 'trigger'
+      ? trigger
+      : active.length === 1
+        ? outputs[active[0].source]
+        : Object.fromEntries(active.map(edge => [edge.source, outputs[edge.source]]));
+    const step = RunnableLambda.from((scope: Scope) =>
+      callWithPolicy(spec, () => handlers[spec.type](spec, scope, deps), deps.sleep)
+    ).withConfig({ runName: spec.label });
+    const result = await step.invoke({ input, trigger, nodes: outputs });
+
+    if (spec.type === 'condition') {
+      outputs[id] = input;
+      branches[id] = result ? 'true' : 'false';
+    } else {
+      outputs[id] = result;
+    }
+  }
+
+  return { outputs, branches };
+}
+`;
+
+function workflowTs(graph: WorkflowGraph, options: CompileOptions): string {
+  return `/**
+ * ${graph.name}${graph.description ? ` — ${graph.description}` : ''}
+ *
+ * Generated by FlashFusion from the workflow canvas. NODES and EDGES describe
+ * the graph; edit them here or re-import this file into the builder.
+ */
+import { ChatOpenAI } from '@langchain/openai';
+import { ACTIONS } from './actions';
+import { runWorkflow, type Dependencies, type EdgeSpec, type NodeSpec, type RunResult } from './runtime';
+
+export const WORKFLOW = ${toTypeScriptLiteral({ id: graph.id, name: graph.name, description: graph.description })};
+
+export const NODES: Record<string, NodeSpec> = ${toTypeScriptLiteral(nodeSpecs(graph, options.defaultModel ?? DEFAULT_MODEL))};
+
+export const EDGES: EdgeSpec[] = ${toTypeScriptLiteral(edgeSpecs(graph.edges))};
+
+export function defaultDependencies(): Dependencies {
+  return {
+    llm: model => new ChatOpenAI({ model }),
+    fetch: globalThis.fetch.bind(globalThis),
+    sleep: ms => new Promise(resolve => setTimeout(resolve, ms)),
+    actions: ACTIONS
+  };
+}
+
+/** Runs the workflow once and returns every step's output and each condition's branch */
+export function run(trigger: Record<string, unknown>, dependencies: Partial<Dependencies> = {}): Promise<RunResult> {
+  return runWorkflow(NODES, EDGES, trigger, { ...defaultDependencies(), ...dependencies });
+}
+`;
+}
+
+function actionsTs(customActions: string[]): string {
+  const entries = customActions.map(action => `  // TODO: implement the "${action}" action; until then it passes its input through
+  ${JSON.stringify(action)}: (_config, scope) => scope.input`);
+  return `import type { ActionHandler } from './runtime';
+
+/** Handlers for action steps, by operation name. "set-data" is built in. */
+export const ACTIONS: Record<string, ActionHandler> = {${entries.length ? `\n${entries.join(',\n')}\n` : ''}};
+`;
+}
+
+function testsTs(graph: WorkflowGraph): string {
+  const always = unconditionalNodes(graph);
+  const conditions = graph.nodes.filter(node => node.type === 'condition' && always.includes(node.id)).map(node => node.id);
+  const webhooks = graph.nodes.filter(node => node.type === 'webhook' && always.includes(node.id)).length;
+
+  return `import { describe, it, expect, vi } from 'vitest';
+import { FakeListChatModel } from '@langchain/core/utils/testing';
+import { NODES, run } from '../src/workflow';
+
+// The model, HTTP and delays are faked so the suite runs offline
+const SAMPLE_TRIGGER = ${toTypeScriptLiteral(sampleTrigger(graph))};
+
+/** Steps that run whichever way the conditions go */
+const ALWAYS_RUNS: string[] = ${toTypeScriptLiteral(always)};
+
+function fakeDependencies() {
+  const fetch = vi.fn(async () => new Response(JSON.stringify({ ok: true }), {
+    status: 200,
+    headers: { 'content-type': 'application/json' }
+  }));
+  return {
+    fetch: fetch as unknown as typeof globalThis.fetch,
+    llm: () => new FakeListChatModel({ responses: ['stub answer'] }),
+    sleep: async () => undefined
+  };
+}
+
+describe(${JSON.stringify(graph.name)}, () => {
+  it('defines every step it connects', () => {
+    expect(Object.keys(NODES)).toEqual(expect.arrayContaining(ALWAYS_RUNS));
+  });
+
+  it('runs end to end with the sample trigger', async () => {
+    const result = await run(SAMPLE_TRIGGER, fakeDependencies());
+    for (const id of ALWAYS_RUNS) expect(result.outputs).toHaveProperty([id]);
+  });
+${conditions.length ? `
+  it('lets every condition choose a branch', async () => {
+    const result = await run(SAMPLE_TRIGGER, fakeDependencies());
+    for (const id of ${toTypeScriptLiteral(conditions).replace(/\n\s*/g, ' ')}) expect(['true', 'false']).toContain(result.branches[id]);
+  });
+` : ''}${webhooks ? `
+  it('calls its webhooks', async () => {
+    const dependencies = fakeDependencies();
+    await run(SAMPLE_TRIGGER, dependencies);
+    expect((dependencies.fetch as unknown as ReturnType<typeof vi.fn>).mock.calls.length).toBeGreaterThanOrEqual(${webhooks});
+  });
+` : ''}});
+`;
+}
+
+function packageJson(graph: WorkflowGraph): string {
+  return `${JSON.stringify({
+    name: projectSlug(graph.name),
+    version: '0.1.0',
+    private: true,
+    type: 'module',
+    scripts: {
+      start: 'tsx src/main.ts',
+      test: 'vitest run',
+      typecheck: 'tsc --noEmit'
+    },
+    dependencies: DEPENDENCIES,
+    devDependencies: DEV_DEPENDENCIES
+  }, null, 2)}\n`;
+}
+
+const TSCONFIG = `${JSON.stringify({
+  compilerOptions: {
+    target: 'ES2022',
+    module: 'ESNext',
+    moduleResolution: 'Bundler',
+    strict: true,
+    skipLibCheck: true,
+    types: ['node']
+  },
+  include: ['src', 'tests']
+}, null, 2)}\n`;
+
+const MAIN_TS = `import { run } from './workflow';
+
+// Runs the workflow once: npm start -- '<trigger JSON>'
+const trigger = process.argv[2] ? JSON.parse(process.argv[2]) : {};
+run(trigger)
+  .then(result => console.log(JSON.stringify(result, null, 2)))
+  .catch(error => {
+    console.error(error instanceof Error ? error.message : error);
+    process.exit(1);
+  });
+`;
+
+function readmeMd(graph: WorkflowGraph, warnings: string[]): string {
+  return `# ${graph.name}
+
+${graph.description ?? 'Workflow exported from the FlashFusion builder.'}
+
+A [LangChain.js](https://js.langchain.com/) project generated from the workflow canvas.
+\`src/workflow.ts\` holds the graph as data (\`NODES\`, \`EDGES\`); \`src/runtime.ts\` runs each step as a LangChain
+runnable with the same retries, timeouts and branching as the builder.
+
+## Run
+
+\`\`\`bash
+npm install
+export OPENAI_API_KEY=...
+npm start -- '{"email": "ada@example.com"}'
+\`\`\`
+
+## Test
+
+\`\`\`bash
+npm test
+\`\`\`
+
+The tests fake the model, HTTP calls and delays, so they run offline.
+
+## Custom actions
+
+Action steps dispatch on their \`action\` name to \`src/actions.ts\`.
+
+## Editing and re-importing
+
+Upload \`src/workflow.ts\` (or the whole project as a zip) in the builder's import dialog to load the graph back onto the canvas.
+The importer reads the \`NODES\`, \`EDGES\` and \`WORKFLOW\` literals; anything computed is ignored.
+${warnings.length ? `\n## Warnings\n\n${warnings.map(warning => `- ${warning}`).join('\n')}\n` : ''}`;
+}
+
+/** A LangChain.js (TypeScript) project for the graph */
+export function compileLangChainJs(graph: WorkflowGraph, options: CompileOptions = {}): CompiledWorkflowProject {
+  const { warnings, customActions } = prepareGraph(graph, ['set-data']);
+
+  return {
+    target: 'langchain-js',
+    name: projectSlug(graph.name),
+    entry: 'src/workflow.ts',
+    warnings,
+    files: [
+      { path: 'src/workflow.ts', content: workflowTs(graph, options) },
+      { path: 'src/runtime.ts', content: RUNTIME_TS },
+      { path: 'src/actions.ts', content: actionsTs(customActions) },
+      { path: 'src/main.ts', content: MAIN_TS },
+      { path: 'tests/workflow.test.ts', content: testsTs(graph) },
+      { path: 'package.json', content: packageJson(graph) },
+      { path: 'tsconfig.json', content: TSCONFIG },
+      { path: 'README.md', content: readmeMd(graph, warnings) }
+    ]
+  };
+}
@@ -0,0 +1,453 @@
+import type { WorkflowGraph } from '../../types/workflow';
+import { incomingEdges } from '../workflow-engine';
+import { toPythonLiteral } from './literals';
+import {
+  DEFAULT_MODEL,
+  edgeSpecs,
+  nodeSpecs,
+  prepareGraph,
+  projectSlug,
+  sampleTrigger,
+  unconditionalNodes
+} from './spec';
+import type { CompiledWorkflowProject, CompileOptions } from './types';
+
+const REQUIREMENTS = `langgraph==0.2.60
+langchain-core==0.3.29
+langchain-openai==0.2.14
+requests==2.32.3
+pytest==8.3.4
+`;
+
+/** Interprets NODES with the same semantics as the builder's runtime */
+const RUNTIME_PY = String.raw`"""Runtime for the generated workflow: node behaviour, retries and timeouts.
+
+Regenerating the project from the builder overwrites this file.
+"""
+import json
+import re
+import time
+from concurrent.futures import ThreadPoolExecutor
+from concurrent.futures import TimeoutError as FutureTimeout
+from typing import Annotated, Any, Callable, Dict, List, TypedDict
+
+import requests
+from langchain_core.messages import HumanMessage, SystemMessage
+
+DEFAULT_TIMEOUT_MS = 30_000
+_PLACEHOLDER = re.compile(r"\{\{\s*([\w.-]+)\s*\}\}")
+
+
+def _merge(left: Dict[str, Any], right: Dict[str, Any]) -> Dict[str, Any]:
+    return {**left, **right}
+
+
+class WorkflowState(TypedDict):
+    trigger: Dict[str, Any]
+    outputs: Annotated[Dict[str, Any], _merge]
+    branches: Annotated[Dict[str, str], _merge]
+
+
+def default_dependencies(actions: Dict[str, Callable]) -> Dict[str, Any]:
+    def llm(model: str):
+        from langchain_openai import ChatOpenAI
+
+        return ChatOpenAI(model=model)
+
+    return {"llm": llm, "http": requests, "sleep": time.sleep, "actions": actions}
+
+
+def read_path(scope: Dict[str, Any], path: str) -> Any:
+    head, *rest = path.strip().split(".")
+    if head in ("input", "trigger", "nodes"):
+        value = scope[head]
+    else:
+        value, rest = scope["input"], [head, *rest]
+    for key in rest:
+        value = value.get(key) if isinstance(value, dict) else None
+    return value
+
+
+def _text(value: Any) -> str:
+    if value is None:
+        return ""
+    if isinstance(value, bool):
+        return "true" if value else "false"
+    if isinstance(value, (dict, list)):
+        return json.dumps(value)
+    return str(value)
+
+
+def render(value: Any, scope: Dict[str, Any]) -> Any:
+    if isinstance(value, str):
+        return _PLACEHOLDER.sub(lambda match: _text(read_path(scope, match.group(1))), value)
+    if isinstance(value, list):
+        return [render(item, scope) for item in value]
+    if isinstance(value, dict):
+        return {key: render(item, scope) for key, item in value.items()}
+    return value
+
+
+def _number(value: Any) -> float:
+    try:
+        return float(value)
+    except (TypeError, ValueError):
+        return float("nan")
+
+
+def evaluate(actual: Any, operator: str, expected: Any) -> bool:
+    if operator == "equals":
+        return _text(actual) == _text(expected)
+    if operator == "not_equals":
+        return _text(actual) != _text(expected)
+    if operator == "contains":
+        if isinstance(actual, list):
+            return _text(expected) in [_text(item) for item in actual]
+        return _text(expected) in _text(actual)
+    if operator == "greater_than":
+        return _number(actual) > _number(expected)
+    if operator == "less_than":
+        return _number(actual) < _number(expected)
+    if operator == "exists":
+        return actual is not None and actual != ""
+    raise ValueError(f'Unknown condition operator "{operator}"')
+
+
+def run_trigger(spec, scope, deps):
+    return scope["trigger"]
+
+
+def run_condition(spec, scope, deps):
+    config = spec["config"]
+    if not config.get("field"):
+        raise ValueError("Condition has no field to check")
+    return evaluate(read_path(scope, config["field"]), config.get("operator", "equals"), config.get("value"))
+
+
+def run_delay(spec, scope, deps):
+    config = spec["config"]
+    ms = config["ms"] if "ms" in config else float(config.get("seconds", 0)) * 1000
+    deps["sleep"](ms / 1000)
+    return scope["input"]
+
+
+def run_webhook(spec, scope, deps):
+    config = spec["config"]
+    url = render(config.get("url", ""), scope)
+    if not re.match(r"^https?://", url):
+        raise ValueError("Webhook needs an http(s) URL")
+    method = config.get("method", "POST").upper()
+    headers = {"Content-Type": "application/json", **render(config.get("headers", {}), scope)}
+    body = None
+    if method not in ("GET", "HEAD"):
+        body = scope["input"] if config.get("body") is None else render(config["body"], scope)
+    response = deps["http"].request(method, url, json=body, headers=headers, timeout=DEFAULT_TIMEOUT_MS / 1000)
+    response.raise_for_status()
+    is_json = "application/json" in response.headers.get("content-type", "")
+    return {"status": response.status_code, "body": response.json() if is_json else response.text}
+
+
+def run_ai(spec, scope, deps):
+    config = spec["config"]
+    prompt = render(config.get("prompt", ""), scope)
+    if not prompt.strip():
+        raise ValueError("AI step has no prompt")
+    messages = [HumanMessage(content=prompt)]
+    if config.get("systemPrompt"):
+        messages.insert(0, SystemMessage(content=render(config["systemPrompt"], scope)))
+    response = deps["llm"](config["model"]).invoke(messages)
+    return {"text": response.content, "model": config["model"]}
+
+
+def run_action(spec, scope, deps):
+    config = spec["config"]
+    action = config.get("action")
+    if not action:
+        raise ValueError("Action has no operation selected")
+    if action == "set-data":
+        base = scope["input"] if isinstance(scope["input"], dict) else {}
+        return {**base, **render(config.get("values", {}), scope)}
+    if action not in deps["actions"]:
+        raise NotImplementedError(f'No handler is registered for the "{action}" action')
+    return deps["actions"][action](config, scope)
+
+
+HANDLERS = {
+    "trigger": run_trigger,
+    "condition": run_condition,
+    "delay": run_delay,
+    "webhook": run_webhook,
+    "ai": run_ai,
+    "action": run_action,
+}
+
+
+def _attempt(call: Callable[[], Any], timeout_ms):
+    if timeout_ms is None:
+        return call()
+    pool = ThreadPoolExecutor(max_workers=1)
+    try:
+        return pool.submit(call).result(timeout=timeout_ms / 1000)
+    except FutureTimeout:
+        raise TimeoutError(f"Timed out after {timeout_ms} ms") from None
+    finally:
+        pool.shutdown(wait=False)
+
+
+def call_with_policy(spec: Dict[str, Any], call: Callable[[], Any], sleep: Callable[[float], None]) -> Any:
+    retry = spec.get("retry") or {}
+    attempts = max(1, retry.get("maxAttempts", 1))
+    timeout_ms = spec.get("timeoutMs", None if spec["type"] == "delay" else DEFAULT_TIMEOUT_MS)
+    for attempt in range(1, attempts + 1):
+        try:
+            return _attempt(call, timeout_ms)
+        except Exception:
+            if attempt == attempts:
+                raise
+            sleep(retry.get("backoffMs", 0) * 2 ** (attempt - 1) / 1000)
+
+
+def make_node(node_id: str, spec: Dict[str, Any], incoming: List[Dict[str, str]], deps: Dict[str, Any]):
+    handler = HANDLERS[spec["type"]]
+
+    def node(state: WorkflowState):
+        outputs = state["outputs"]
+        ready = [
+            edge["source"]
+            for edge in incoming
+            if edge["source"] in outputs and edge.get("branch") in (None, state["branches"].get(edge["source"]))
+        ]
+        if not incoming:
+            node_input = state["trigger"]
+        elif len(ready) == 1:
+            node_input = outputs[ready[0]]
+        else:
+            node_input = {parent: outputs[parent] for parent in ready}
+        scope = {"input": node_input, "trigger": state["trigger"], "nodes": outputs}
+        result = call_with_policy(spec, lambda: handler(spec, scope, deps), deps["sleep"])
+        if spec["type"] == "condition":
+            return {"outputs": {node_id: node_input}, "branches": {node_id: "true" if result else "false"}}
+        return {"outputs": {node_id: result}}
+
+    return node
+
+
+def route(node_id: str):
+    def choose(state: WorkflowState) -> str:
+        return state["branches"][node_id]
+
+    return choose
+`;
+
+function graphPy(graph: WorkflowGraph, options: CompileOptions): string {
+  return `"""${graph.name}${graph.description ? ` — ${graph.description}` : ''}
+
+Generated by FlashFusion from the workflow canvas. NODES and EDGES describe
+the graph; edit them here or re-import this file into the builder.
+"""
+from typing import Any, Dict, Optional
+
+from langgraph.graph import END, START, StateGraph
+
+from .actions import ACTIONS
+from .runtime import WorkflowState, default_dependencies, make_node, route
+
+WORKFLOW = ${toPythonLiteral({ id: graph.id, name: graph.name, description: graph.description })}
+
+NODES = ${toPythonLiteral(nodeSpecs(graph, options.defaultModel ?? DEFAULT_MODEL))}
+
+EDGES = ${toPythonLiteral(edgeSpecs(graph.edges))}
+
+
+def build_graph(dependencies: Optional[Dict[str, Any]] = None):
+    deps = {**default_dependencies(ACTIONS), **(dependencies or {})}
+    builder = StateGraph(WorkflowState)
+
+    for node_id, spec in NODES.items():
+        incoming = [edge for edge in EDGES if edge["target"] == node_id]
+        builder.add_node(node_id, make_node(node_id, spec, incoming, deps))
+        if spec["type"] == "trigger":
+            builder.add_edge(START, node_id)
+
+    for node_id, spec in NODES.items():
+        outgoing = [edge for edge in EDGES if edge["source"] == node_id]
+        if spec["type"] == "condition":
+            branches = {"true": END, "false": END}
+            branches.update({edge["branch"]: edge["target"] for edge in outgoing})
+            builder.add_conditional_edges(node_id, route(node_id), branches)
+        elif outgoing:
+            for edge in outgoing:
+                builder.add_edge(node_id, edge["target"])
+        else:
+            builder.add_edge(node_id, END)
+
+    return builder.compile()
+
+
+def run(trigger: Dict[str, Any], dependencies: Optional[Dict[str, Any]] = None) -> Dict[str, Any]:
+    """Runs the workflow once and returns every node's output and each condition's branch"""
+    return build_graph(dependencies).invoke({"trigger": trigger, "outputs": {}, "branches": {}})
+`;
+}
+
+function actionsPy(customActions: string[]): string {
+  const stubs = customActions.map(action => {
+    const name = `action_${action.replace(/\W+/g, '_')}`;
+    return { action, name, code: `def ${name}(config: Dict[str, Any], scope: Dict[str, Any]) -> Any:
+    # TODO: implement the "${action}" action; until then it passes its input through
+    return scope["input"]
+` };
+  });
+  return `"""Handlers for action steps, by operation name. "set-data" is built in."""
+from typing import Any, Callable, Dict
+${stubs.length ? '\n\n' : '\n'}${stubs.map(stub => stub.code).join('\n\n')}${stubs.length ? '\n\n' : ''}ACTIONS: Dict[str, Callable[[Dict[str, Any], Dict[str, Any]], Any]] = {${
+  stubs.length ? `\n${stubs.map(stub => `    ${JSON.stringify(stub.action)}: ${stub.name},`).join('\n')}\n` : ''
+}}
+`;
+}
+
+function testsPy(graph: WorkflowGraph): string {
+  const always = unconditionalNodes(graph);
+  const conditions = graph.nodes.filter(node => node.type === 'condition' && always.includes(node.id)).map(node => node.id);
+  const webhooks = graph.nodes.filter(node => node.type === 'webhook' && always.includes(node.id)).map(node => node.id);
+
+  return `"""Generated tests: the LLM, HTTP and sleeping are faked so the suite runs offline."""
+from langchain_core.language_models.fake_chat_models import FakeListChatModel
+
+from workflow.graph import NODES, build_graph, run
+
+SAMPLE_TRIGGER = ${toPythonLiteral(sampleTrigger(graph))}
+
+# Steps that run whichever way the conditions go
+ALWAYS_RUNS = ${toPythonLiteral(always)}
+
+
+class FakeResponse:
+    status_code = 200
+    headers = {"content-type": "application/json"}
+    text = '{"ok": true}'
+
+    def json(self):
+        return {"ok": True}
+
+    def raise_for_status(self):
+        pass
+
+
+class FakeHttp:
+    def __init__(self):
+        self.calls = []
+
+    def request(self, method, url, **kwargs):
+        self.calls.append((method, url, kwargs))
+        return FakeResponse()
+
+
+def fake_dependencies(http=None):
+    return {
+        "llm": lambda model: FakeListChatModel(responses=["stub answer"]),
+        "http": http or FakeHttp(),
+        "sleep": lambda seconds: None,
+    }
+
+
+def test_graph_compiles_with_every_node():
+    compiled = build_graph(fake_dependencies())
+    assert set(NODES).issubset(set(compiled.get_graph().nodes))
+
+
+def test_runs_end_to_end_with_the_sample_trigger():
+    result = run(SAMPLE_TRIGGER, fake_dependencies())
+    for node_id in ALWAYS_RUNS:
+        assert node_id in result["outputs"], f"{node_id} did not run"
+${conditions.length ? `
+
+def test_conditions_choose_a_branch():
+    result = run(SAMPLE_TRIGGER, fake_dependencies())
+    for node_id in ${toPythonLiteral(conditions)}:
+        assert result["branches"][node_id] in ("true", "false")
+` : ''}${webhooks.length ? `
+
+def test_webhooks_are_called():
+    http = FakeHttp()
+    run(SAMPLE_TRIGGER, fake_dependencies(http))
+    assert len(http.calls) >= ${webhooks.length}
+` : ''}`;
+}
+
+function readmeMd(graph: WorkflowGraph, warnings: string[]): string {
+  return `# ${graph.name}
+
+${graph.description ?? 'Workflow exported from the FlashFusion builder.'}
+
+A [LangGraph](https://langchain-ai.github.io/langgraph/) project generated from the workflow canvas.
+\`workflow/graph.py\` holds the graph as data (\`NODES\`, \`EDGES\`) and builds a \`StateGraph\` from it;
+\`workflow/runtime.py\` implements each kind of step with the same retries, timeouts and branching as the builder.
+
+## Run
+
+\`\`\`bash
+python -m venv .venv && . .venv/bin/activate
+pip install -r requirements.txt
+export OPENAI_API_KEY=...
+python main.py '{"email": "ada@example.com"}'
+\`\`\`
+
+## Test
+
+\`\`\`bash
+pytest
+\`\`\`
+
+The tests fake the model, HTTP calls and delays, so they run offline.
+
+## Custom actions
+
+Action steps dispatch on their \`action\` name to \`workflow/actions.py\`. Add a function there and list it in \`ACTIONS\`.
+
+## Editing and re-importing
+
+Upload \`workflow/graph.py\` (or the whole project as a zip) in the builder's import dialog to load the graph back onto the canvas.
+The importer reads the \`NODES\`, \`EDGES\` and \`WORKFLOW\` literals and plain \`builder.add_edge("a", "b")\` calls; anything computed is ignored.
+${warnings.length ? `\n## Warnings\n\n${warnings.map(warning => `- ${warning}`).join('\n')}\n` : ''}`;
+}
+
+const MAIN_PY = `"""Runs the workflow once: python main.py '<trigger JSON>'"""
+import json
+import sys
+
+from workflow.graph import run
+
+if __name__ == "__main__":
+    trigger = json.loads(sys.argv[1]) if len(sys.argv) > 1 else {}
+    result = run(trigger)
+    print(json.dumps({"outputs": result["outputs"], "branches": result["branches"]}, indent=2, default=str))
+`;
+
+/** A LangGraph (Python) project for the graph */
+export function compileLangGraph(graph: WorkflowGraph, options: CompileOptions = {}): CompiledWorkflowProject {
+  const { warnings, customActions } = prepareGraph(graph, ['set-data']);
+  for (const node of graph.nodes) {
+    if (incomingEdges(graph, node.id).length > 1) {
+      warnings.push(`"${node.label}" joins several branches; LangGraph runs it once for each branch that reaches it in a different step`);
+    }
+  }
+
+  return {
+    target: 'langgraph-python',
+    name: projectSlug(graph.name),
+    entry: 'workflow/graph.py',
+    warnings,
+    files: [
+      { path: 'workflow/__init__.py', content: '' },
+      { path: 'workflow/graph.py', content: graphPy(graph, options) },
+      { path: 'workflow/runtime.py', content: RUNTIME_PY },
+      { path: 'workflow/actions.py', content: actionsPy(customActions) },
+      { path: 'tests/__init__.py', content: '' },
+      { path: 'tests/test_workflow.py', content: testsPy(graph) },
+      { path: 'main.py', content: MAIN_PY },
+      { path: 'requirements.txt', content: REQUIREMENTS },
+      { path: 'README.md', content: readmeMd(graph, warnings) }
+    ]
+  };
+}
@@ -0,0 +1,156 @@
+/**
+ * Data literals in generated Python and TypeScript: writing them, and reading
+ * them back. The reader accepts the JSON-like subset people keep when they
+ * hand-edit the files — either quote style, unquoted keys, trailing commas,
+ * comments, and Python's True/False/None — and rejects anything computed.
+ */
+
+export type SourceDialect = 'python' | 'typescript';
+
+export function toPythonLiteral(value: unknown, indent = 0): string {
+  const pad = ' '.repeat(indent);
+  const inner = ' '.repeat(indent + 4);
+  if (value === null || value === undefined) return 'None';
+  if (value === true) return 'True';
+  if (value === false) return 'False';
+  if (typeof value === 'number') return Number.isFinite(value) ? String(value) : 'None';
+  if (typeof value === 'string') return JSON.stringify(value);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return '[]';
+    return `[\n${value.map(item => inner + toPythonLiteral(item, indent + 4)).join(',\n')},\n${pad}]`;
+  }
+  const entries = Object.entries(value as Record<string, unknown>).filter(([, item]) => item !== undefined);
+  if (entries.length === 0) return '{}';
+  return `{\n${entries.map(([key, item]) => `${inner}${JSON.stringify(key)}: ${toPythonLiteral(item, indent + 4)}`).join(',\n')},\n${pad}}`;
+}
+
+export function toTypeScriptLiteral(value: unknown): string {
+  return JSON.stringify(value, null, 2);
+}
+
+function skipComment(source: string, index: number, dialect: SourceDialect): number {
+  if (dialect === 'python' && source[index] === '#') {
+    const end = source.indexOf('\n', index);
+    return end === -1 ? source.length : end;
+  }
+  if (dialect === 'typescript' && source.startsWith('//', index)) {
+    const end = source.indexOf('\n', index);
+    return end === -1 ? source.length : end;
+  }
+  if (dialect === 'typescript' && source.startsWith('/*', index)) {
+    const end = source.indexOf('*/', index + 2);
+    return end === -1 ? source.length : end + 2;
+  }
+  return index;
+}
+
+/** Reads a quoted string starting at `index`; returns its value and the index after the closing quote */
+function readString(source: string, index: number): { value: string; end: number } {
+  const quote = source[index];
+  let value = '';
+  let i = index + 1;
+  while (i < source.length && source[i] !== quote) {
+    if (source[i] === '\n' && quote !== '`') throw new Error('Unterminated string');
+    if (source[i] !== '\\') {
+      value += source[i++];
+      continue;
+    }
+    const next = source[i + 1];
+    const simple: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f', '0': '\0' };
+    if (next === 'u' || next === 'x') {
+      const length = next === 'u' ? 4 : 2;
+      value += String.fromCharCode(parseInt(source.slice(i + 2, i + 2 + length), 16));
+      i += 2 + length;
+    } else {
+      value += simple[next] ?? next;
+      i += 2;
+    }
+  }
+  if (i >= source.length) throw new Error('Unterminated string');
+  if (quote === '`' && value.includes('${')) throw new Error('Template literals with placeholders are not supported');
+  return { value, end: i + 1 };
+}
+
+/** The source text of the object or array literal assigned to `name`, or null when there is none */
+export function extractLiteral(source: string, name: string, dialect: SourceDialect): string | null {
+  const assignment = dialect === 'python'
+    ? new RegExp(`^${name}\\s*(?::[^=\\n]+)?=\\s*`, 'm')
+    : new RegExp(`^export\\s+const\\s+${name}\\b[^=\\n]*=\\s*`, 'm');
+  const match = assignment.exec(source);
+  if (!match) return null;
+
+  const start = match.index + match[0].length;
+  if (source[start] !== '{' && source[start] !== '[') {
+    throw new Error(`${name} must be a literal ${source[start] === undefined ? 'value' : `(found "${source.slice(start, start + 20)}")`}`);
+  }
+
+  let depth = 0;
+  for (let i = start; i < source.length; i++) {
+    const afterComment = skipComment(source, i, dialect);
+    if (afterComment !== i) {
+      i = afterComment - 1;
+      continue;
+    }
+    const char = source[i];
+    if (char === '"' || char === "'" || char === '`') {
+      i = readString(source, i).end - 1;
+    } else if (char === '{' || char === '[') {
+      depth++;
+    } else if (char === '}' || char === ']') {
+      depth--;
+      if (depth === 0) return source.slice(start, i + 1);
+    }
+  }
+  throw new Error(`${name} is not closed`);
+}
+
+/** Parses a literal from `extractLiteral` into plain data */
+export function parseLiteral(literal: string, dialect: SourceDialect): unknown {
+  const keywords: Record<string, string> = dialect === 'python'
+    ? { True: 'true', False: 'false', None: 'null' }
+    : { true: 'true', false: 'false', null: 'null' };
+  let json = '';
+  let i = 0;
+
+  const nextSignificant = (from: number) => {
+    let j = from;
+    while (j < literal.length && /\s/.test(literal[j])) j++;
+    return literal[j];
+  };
+
+  while (i < literal.length) {
+    const afterComment = skipComment(literal, i, dialect);
+    if (afterComment !== i) {
+      i = afterComment;
+      continue;
+    }
+    const char = literal[i];
+
+    if (char === '"' || char === "'" || (char === '`' && dialect === 'typescript')) {
+      const { value, end } = readString(literal, i);
+      json += JSON.stringify(value);
+      i = end;
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const word = /^[A-Za-z_$][\w$]*/.exec(literal.slice(i))![0];
+      const end = i + word.length;
+      if (nextSignificant(end) === ':' && dialect === 'typescript') json += JSON.stringify(word);
+      else if (word in keywords) json += keywords[word];
+      else throw new Error(`Unsupported value "${word}"; only literal data can be imported`);
+      i = end;
+    } else if (/[-+\d.]/.test(char)) {
+      const number = /^[-+]?[\d_]*\.?[\d_]*(?:[eE][-+]?\d+)?/.exec(literal.slice(i))![0];
+      json += number.replace(/_/g, '').replace(/^\+/, '');
+      i += number.length;
+    } else if (char === '}' || char === ']') {
+      json = json.replace(/,\s*$/, '') + char;
+      i++;
+    } else if ('{[:,'.includes(char) || /\s/.test(char)) {
+      json += char;
+      i++;
+    } else {
+      throw new Error(`Unexpected "${char}"; only literal data can be imported`);
+    }
+  }
+
+  return JSON.parse(json);
+}
@@ -0,0 +1,87 @@
+import type { WorkflowEdge, WorkflowGraph, WorkflowNode, WorkflowNodeType } from '../../types/workflow';
+import { assertRunnable, outgoingEdges } from '../workflow-engine';
+
+/**
+ * What the generated projects store about a graph. Both targets write the
+ * nodes and edges as data literals (`NODES`, `EDGES`) that their runtime
+ * interprets, which is also the subset the importer reads back.
+ */
+
+export type NodeSpec = Omit<WorkflowNode, 'id'>;
+
+export interface EdgeSpec {
+  source: string;
+  target: string;
+  branch?: 'true' | 'false';
+}
+
+export const NODE_TYPES: WorkflowNodeType[] = ['trigger', 'action', 'condition', 'delay', 'webhook', 'ai'];
+
+export const DEFAULT_MODEL = 'gpt-4o-mini';
+
+export function nodeSpecs(graph: WorkflowGraph, defaultModel = DEFAULT_MODEL): Record<string, NodeSpec> {
+  return Object.fromEntries(graph.nodes.map(node => {
+    const config = node.type === 'ai' && !node.config.model ? { ...node.config, model: defaultModel } : node.config;
+    const spec: NodeSpec = { type: node.type, label: node.label, config, position: node.position };
+    if (node.description) spec.description = node.description;
+    if (node.retry) spec.retry = node.retry;
+    if (node.timeoutMs !== undefined) spec.timeoutMs = node.timeoutMs;
+    return [node.id, spec];
+  }));
+}
+
+export function edgeSpecs(edges: WorkflowEdge[]): EdgeSpec[] {
+  return edges.map(({ source, target, branch }) => (branch ? { source, target, branch } : { source, target }));
+}
+
+/** Lowercase, dash-separated name for project folders and packages */
+export function projectSlug(name: string): string {
+  return name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '') || 'workflow';
+}
+
+/** Trigger data the generated tests run with: the trigger's dry-run sample */
+export function sampleTrigger(graph: WorkflowGraph): Record<string, unknown> {
+  const sample = graph.nodes.find(node => node.type === 'trigger')?.config.sample;
+  return sample !== null && typeof sample === 'object' && !Array.isArray(sample) ? (sample as Record<string, unknown>) : {};
+}
+
+/** Nodes that run whatever the conditions decide: reachable from the trigger without taking a branch */
+export function unconditionalNodes(graph: WorkflowGraph): string[] {
+  const reached = new Set<string>();
+  const queue = graph.nodes.filter(node => node.type === 'trigger').map(node => node.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reached.has(id)) continue;
+    reached.add(id);
+    for (const edge of outgoingEdges(graph, id)) {
+      if (!edge.branch) queue.push(edge.target);
+    }
+  }
+  return graph.nodes.filter(node => reached.has(node.id)).map(node => node.id);
+}
+
+/**
+ * Checks that apply to every target, plus warnings about behaviour the
+ * generated code cannot reproduce exactly. Throws for graphs that cannot run.
+ */
+export function prepareGraph(graph: WorkflowGraph, knownActions: string[]): { warnings: string[]; customActions: string[] } {
+  assertRunnable(graph);
+  const triggers = graph.nodes.filter(node => node.type === 'trigger');
+  if (triggers.length > 1) {
+    throw new Error(`Exported workflows start from one trigger; "${triggers[1].label}" is a second one`);
+  }
+
+  const warnings: string[] = [];
+  const customActions = Array.from(new Set(
+    graph.nodes
+      .filter(node => node.type === 'action' && typeof node.config.action === 'string' && !knownActions.includes(node.config.action))
+      .map(node => String(node.config.action))
+  ));
+  for (const action of customActions) {
+    warnings.push(`The "${action}" action is generated as a stub that passes its input through; implement it before relying on the output`);
+  }
+  for (const node of graph.nodes.filter(node => node.type === 'action' && !node.config.action)) {
+    warnings.push(`"${node.label}" has no operation selected and will fail when it runs`);
+  }
+  return { warnings, customActions };
+}
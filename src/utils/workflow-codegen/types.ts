@@ -0,0 +1,26 @@
+import type { WorkflowGraph } from '../../types/workflow';
+
+export type WorkflowExportTarget = 'langgraph-python' | 'langchain-js';
+
+export interface CompileOptions {
+  /** Model for AI steps that do not name one */
+  defaultModel?: string;
+}
+
+export interface CompiledWorkflowProject {
+  target: WorkflowExportTarget;
+  /** Folder name for downloads */
+  name: string;
+  /** The file the importer reads the graph back from */
+  entry: string;
+  files: Array<{ path: string; content: string }>;
+  /** Behaviour the generated code does not reproduce exactly */
+  warnings: string[];
+}
+
+export interface ImportedWorkflow {
+  graph: WorkflowGraph;
+  target: WorkflowExportTarget;
+  /** Parts of the source that were skipped or look wrong */
+  warnings: string[];
+}
@@ -0,0 +1,193 @@
+import type { NodeExecutionLog, WorkflowExecution, WorkflowGraph, WorkflowNode } from '../../types/workflow';
+import { assertRunnable, incomingEdges } from './graph';
+import { workflowHandlers, type NodeContext, type WorkflowHandlerRegistry } from './handlers';
+
+export const DEFAULT_NODE_TIMEOUT_MS = 30_000;
+
+export interface ExecuteOptions {
+  triggerData?: Record<string, unknown>;
+  /** Which trigger starts the run when the graph has several; defaults to the first */
+  triggerId?: string;
+  dryRun?: boolean;
+  registry?: WorkflowHandlerRegistry;
+  signal?: AbortSignal;
+  /** Called whenever a node changes status, for live canvas updates */
+  onNodeUpdate?: (log: NodeExecutionLog) => void;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+  now?: () => number;
+}
+
+interface NodeOutcome {
+  status: 'succeeded' | 'failed' | 'skipped';
+  output?: unknown;
+  /** Which outgoing edges of a condition stay active */
+  branch?: 'true' | 'false';
+}
+
+function abortError(signal: AbortSignal): Error {
+  return signal.reason instanceof Error ? signal.reason : new Error('Workflow run was canceled');
+}
+
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(abortError(signal));
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(abortError(signal!));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** One attempt, cut off after `timeoutMs`; the handler's signal aborts so fetches stop too */
+async function attemptWithTimeout<T>(
+  run: (signal: AbortSignal) => Promise<T>,
+  timeoutMs: number | undefined,
+  parent: AbortSignal
+): Promise<T> {
+  const controller = new AbortController();
+  const forwardAbort = () => controller.abort(abortError(parent));
+  parent.addEventListener('abort', forwardAbort, { once: true });
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const attempt = run(controller.signal);
+    if (timeoutMs === undefined) return await attempt;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => {
+        const error = new Error(`Timed out after ${timeoutMs} ms`);
+        controller.abort(error);
+        reject(error);
+      }, timeoutMs);
+    });
+    return await Promise.race([attempt, timeout]);
+  } finally {
+    clearTimeout(timer);
+    parent.removeEventListener('abort', forwardAbort);
+  }
+}
+
+/**
+ * Runs a workflow graph. Each node starts once all of its parents have
+ * settled and runs if at least one incoming connection is active: the parent
+ * succeeded and, for conditions, the connection's branch matches the result.
+ * Independent branches run concurrently. A node that fails after its retries
+ * skips everything downstream of it and fails the run; other branches finish.
+ */
+export async function executeWorkflow(graph: WorkflowGraph, options: ExecuteOptions = {}): Promise<WorkflowExecution> {
+  assertRunnable(graph);
+
+  const {
+    triggerData = {},
+    dryRun = false,
+    registry = workflowHandlers,
+    onNodeUpdate,
+    sleep = abortableSleep,
+    now = Date.now
+  } = options;
+  const signal = options.signal ?? new AbortController().signal;
+  const startTrigger = options.triggerId ?? graph.nodes.find(node => node.type === 'trigger')!.id;
+
+  const execution: WorkflowExecution = {
+    workflowId: graph.id,
+    status: 'running',
+    dryRun,
+    triggerData,
+    logs: graph.nodes.map(node => ({ nodeId: node.id, label: node.label, type: node.type, status: 'pending', attempts: 0 })),
+    startedAt: now()
+  };
+  const logOf = (nodeId: string) => execution.logs.find(log => log.nodeId === nodeId)!;
+  const update = (log: NodeExecutionLog, changes: Partial<NodeExecutionLog>) => {
+    Object.assign(log, changes);
+    onNodeUpdate?.({ ...log });
+  };
+
+  const outputs: Record<string, unknown> = {};
+  const outcomes = new Map<string, Promise<NodeOutcome>>();
+
+  const runNode = async (node: WorkflowNode): Promise<NodeOutcome> => {
+    const parents = incomingEdges(graph, node.id);
+    const settled = await Promise.all(parents.map(edge => outcomeOf(edge.source).then(outcome => ({ edge, outcome }))));
+    const active = settled.filter(({ edge, outcome }) =>
+      outcome.status === 'succeeded' && (edge.branch === undefined || edge.branch === outcome.branch)
+    );
+    const log = logOf(node.id);
+
+    const runnable = node.type === 'trigger' ? node.id === startTrigger : active.length > 0;
+    if (!runnable || signal.aborted) {
+      update(log, { status: 'skipped' });
+      return { status: 'skipped' };
+    }
+
+    const input = node.type === 'trigger'
+      ? triggerData
+      : active.length === 1
+        ? active[0].outcome.output
+        : Object.fromEntries(active.map(({ edge, outcome }) => [edge.source, outcome.output]));
+    const handler = registry.get(node.type);
+    const maxAttempts = Math.max(1, node.retry?.maxAttempts ?? 1);
+    const timeoutMs = node.timeoutMs ?? (node.type === 'delay' ? undefined : DEFAULT_NODE_TIMEOUT_MS);
+    const startedAt = now();
+    update(log, { status: 'running', startedAt });
+
+    let lastError: unknown = new Error(`No handler is registered for ${node.type} nodes`);
+    for (let attempt = 1; handler && attempt <= maxAttempts; attempt++) {
+      update(log, { attempts: attempt });
+      try {
+        const result = await attemptWithTimeout(attemptSignal => {
+          const context: NodeContext = { input, trigger: triggerData, outputs, dryRun, signal: attemptSignal, attempt, sleep };
+          return handler(node, context);
+        }, timeoutMs, signal);
+
+        // Conditions pass their input through and pick a branch
+        const outcome: NodeOutcome = node.type === 'condition'
+          ? { status: 'succeeded', output: input, branch: result ? 'true' : 'false' }
+          : { status: 'succeeded', output: result };
+        outputs[node.id] = outcome.output;
+        const completedAt = now();
+        update(log, {
+          status: 'succeeded',
+          output: node.type === 'condition' ? { passed: Boolean(result) } : result,
+          error: undefined,
+          completedAt,
+          durationMs: completedAt - startedAt
+        });
+        return outcome;
+      } catch (error) {
+        lastError = error;
+        if (signal.aborted) break;
+        if (attempt < maxAttempts) {
+          update(log, { error: error instanceof Error ? error.message : String(error) });
+          if (!dryRun) await sleep((node.retry?.backoffMs ?? 0) * 2 ** (attempt - 1), signal).catch(() => undefined);
+        }
+      }
+    }
+
+    const completedAt = now();
+    update(log, {
+      status: 'failed',
+      error: lastError instanceof Error ? lastError.message : String(lastError),
+      completedAt,
+      durationMs: completedAt - startedAt
+    });
+    return { status: 'failed' };
+  };
+
+  const outcomeOf = (nodeId: string): Promise<NodeOutcome> => {
+    if (!outcomes.has(nodeId)) outcomes.set(nodeId, runNode(graph.nodes.find(node => node.id === nodeId)!));
+    return outcomes.get(nodeId)!;
+  };
+
+  await Promise.all(graph.nodes.map(node => outcomeOf(node.id)));
+
+  const failed = execution.logs.find(log => log.status === 'failed');
+  execution.status = signal.aborted ? 'canceled' : failed ? 'failed' : 'completed';
+  execution.error = signal.aborted ? abortError(signal).message : failed ? `${failed.label}: ${failed.error}` : undefined;
+  execution.completedAt = now();
+  execution.durationMs = execution.completedAt - execution.startedAt;
+  return execution;
+}
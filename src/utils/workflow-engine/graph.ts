@@ -0,0 +1,103 @@
+import type { WorkflowEdge, WorkflowGraph, WorkflowNode } from '../../types/workflow';
+
+/** Structural checks and ordering for workflow graphs */
+
+export interface GraphProblem {
+  nodeId?: string;
+  edgeId?: string;
+  message: string;
+}
+
+export function incomingEdges(graph: WorkflowGraph, nodeId: string): WorkflowEdge[] {
+  return graph.edges.filter(edge => edge.target === nodeId);
+}
+
+export function outgoingEdges(graph: WorkflowGraph, nodeId: string): WorkflowEdge[] {
+  return graph.edges.filter(edge => edge.source === nodeId);
+}
+
+/** The branch a new connection from a condition should take, or null when both are used */
+export function nextConditionBranch(edges: WorkflowEdge[], sourceId: string): 'true' | 'false' | null {
+  const used = edges.filter(edge => edge.source === sourceId).map(edge => edge.branch);
+  if (!used.includes('true')) return 'true';
+  if (!used.includes('false')) return 'false';
+  return null;
+}
+
+/**
+ * Nodes in dependency order (Kahn's algorithm), ties broken by canvas
+ * position so the order matches how the graph reads left to right.
+ * Returns null when the graph has a cycle.
+ */
+export function topologicalOrder(graph: WorkflowGraph): WorkflowNode[] | null {
+  const remaining = new Map(graph.nodes.map(node => [node.id, incomingEdges(graph, node.id).length]));
+  const byPosition = (a: WorkflowNode, b: WorkflowNode) => a.position.x - b.position.x || a.position.y - b.position.y;
+  const ready = graph.nodes.filter(node => remaining.get(node.id) === 0).sort(byPosition);
+  const order: WorkflowNode[] = [];
+
+  while (ready.length > 0) {
+    const node = ready.shift()!;
+    order.push(node);
+    for (const edge of outgoingEdges(graph, node.id)) {
+      const count = remaining.get(edge.target)! - 1;
+      remaining.set(edge.target, count);
+      if (count === 0) {
+        ready.push(graph.nodes.find(candidate => candidate.id === edge.target)!);
+        ready.sort(byPosition);
+      }
+    }
+  }
+
+  return order.length === graph.nodes.length ? order : null;
+}
+
+/** Everything that would stop the graph from running; an empty list means it can run */
+export function validateGraph(graph: WorkflowGraph): GraphProblem[] {
+  const problems: GraphProblem[] = [];
+  const ids = new Set<string>();
+
+  for (const node of graph.nodes) {
+    if (ids.has(node.id)) problems.push({ nodeId: node.id, message: `Duplicate node id "${node.id}"` });
+    ids.add(node.id);
+  }
+
+  for (const edge of graph.edges) {
+    if (!ids.has(edge.source) || !ids.has(edge.target)) {
+      problems.push({ edgeId: edge.id, message: `Connection ${edge.id} points to a node that does not exist` });
+    } else if (edge.source === edge.target) {
+      problems.push({ edgeId: edge.id, message: `Connection ${edge.id} connects a node to itself` });
+    }
+  }
+  if (problems.length > 0) return problems;
+
+  const triggers = graph.nodes.filter(node => node.type === 'trigger');
+  if (triggers.length === 0) problems.push({ message: 'The workflow needs a trigger' });
+
+  for (const node of graph.nodes) {
+    const incoming = incomingEdges(graph, node.id);
+    if (node.type === 'trigger' && incoming.length > 0) {
+      problems.push({ nodeId: node.id, message: `Trigger "${node.label}" cannot have incoming connections` });
+    }
+    if (node.type !== 'trigger' && incoming.length === 0) {
+      problems.push({ nodeId: node.id, message: `"${node.label}" is not connected to a trigger` });
+    }
+    if (node.type === 'condition') {
+      for (const edge of outgoingEdges(graph, node.id)) {
+        if (edge.branch !== 'true' && edge.branch !== 'false') {
+          problems.push({ edgeId: edge.id, message: `Connections from condition "${node.label}" must be marked true or false` });
+        }
+      }
+    }
+  }
+
+  if (!topologicalOrder(graph)) problems.push({ message: 'The workflow contains a cycle' });
+  return problems;
+}
+
+/** Throws with every problem listed (and attached as `problems`) unless the graph can run */
+export function assertRunnable(graph: WorkflowGraph): void {
+  const problems = validateGraph(graph);
+  if (problems.length > 0) {
+    throw Object.assign(new Error(`Workflow cannot run: ${problems.map(problem => problem.message).join('; ')}`), { problems });
+  }
+}
@@ -0,0 +1,169 @@
+import type { ConditionOperator, WorkflowNode, WorkflowNodeType } from '../../types/workflow';
+
+/** What a node handler sees while it runs */
+export interface NodeContext {
+  /** Output of the parent node, or `{ [parentId]: output }` when several branches join */
+  input: unknown;
+  trigger: Record<string, unknown>;
+  /** Outputs of the nodes that have finished, by node id */
+  outputs: Record<string, unknown>;
+  dryRun: boolean;
+  /** Aborted when the node times out or the run is canceled */
+  signal: AbortSignal;
+  attempt: number;
+  sleep(ms: number, signal?: AbortSignal): Promise<void>;
+}
+
+/** Runs one node and returns its output; conditions return whether they passed */
+export type NodeHandler = (node: WorkflowNode, context: NodeContext) => Promise<unknown>;
+
+/** Named operations for action nodes (`config.action`) */
+export type ActionHandler = (config: Record<string, unknown>, context: NodeContext) => Promise<unknown>;
+
+/** `input.user.name`, `trigger.id`, `nodes.fetch-1.status`; bare paths read from the input */
+export function readPath(context: Pick<NodeContext, 'input' | 'trigger' | 'outputs'>, path: string): unknown {
+  const [head, ...rest] = path.trim().split('.');
+  const roots: Record<string, unknown> = { input: context.input, trigger: context.trigger, nodes: context.outputs };
+  const [root, keys] = head in roots ? [roots[head], rest] : [context.input, [head, ...rest]];
+  return keys.reduce<unknown>(
+    (value, key) => (value !== null && typeof value === 'object' ? (value as Record<string, unknown>)[key] : undefined),
+    root
+  );
+}
+
+/** Replaces `{{ path }}` placeholders; objects are inserted as JSON */
+export function renderTemplate(template: string, context: Pick<NodeContext, 'input' | 'trigger' | 'outputs'>): string {
+  return template.replace(/\{\{\s*([\w.-]+)\s*\}\}/g, (_, path: string) => {
+    const value = readPath(context, path);
+    if (value === undefined || value === null) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  });
+}
+
+function renderValue(value: unknown, context: NodeContext): unknown {
+  if (typeof value === 'string') return renderTemplate(value, context);
+  if (Array.isArray(value)) return value.map(item => renderValue(item, context));
+  if (value !== null && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, renderValue(item, context)]));
+  }
+  return value;
+}
+
+export function evaluateCondition(actual: unknown, operator: ConditionOperator, expected: unknown): boolean {
+  switch (operator) {
+    case 'equals': return String(actual) === String(expected);
+    case 'not_equals': return String(actual) !== String(expected);
+    case 'contains':
+      return Array.isArray(actual) ? actual.map(String).includes(String(expected)) : String(actual ?? '').includes(String(expected));
+    case 'greater_than': return Number(actual) > Number(expected);
+    case 'less_than': return Number(actual) < Number(expected);
+    case 'exists': return actual !== undefined && actual !== null && actual !== '';
+    default: throw new Error(`Unknown condition operator "${operator}"`);
+  }
+}
+
+const triggerHandler: NodeHandler = async (node, context) =>
+  Object.keys(context.trigger).length === 0 && context.dryRun && node.config.sample
+    ? node.config.sample
+    : context.trigger;
+
+const conditionHandler: NodeHandler = async (node, context) => {
+  const { field, operator = 'equals', value } = node.config as { field?: string; operator?: ConditionOperator; value?: unknown };
+  if (!field) throw new Error('Condition has no field to check');
+  return evaluateCondition(readPath(context, field), operator, value);
+};
+
+const delayHandler: NodeHandler = async (node, context) => {
+  const ms = Number(node.config.ms ?? Number(node.config.seconds ?? 0) * 1000);
+  if (!Number.isFinite(ms) || ms < 0) throw new Error('Delay must be a positive duration');
+  if (!context.dryRun) await context.sleep(ms, context.signal);
+  return context.input;
+};
+
+const webhookHandler: NodeHandler = async (node, context) => {
+  const url = renderTemplate(String(node.config.url ?? ''), context);
+  if (!/^https?:\/\//.test(url)) throw new Error('Webhook needs an http(s) URL');
+  const method = String(node.config.method ?? 'POST').toUpperCase();
+  const headers = { 'Content-Type': 'application/json', ...(renderValue(node.config.headers ?? {}, context) as Record<string, string>) };
+  const body = method === 'GET' || method === 'HEAD'
+    ? undefined
+    : JSON.stringify(node.config.body === undefined ? context.input : renderValue(node.config.body, context));
+
+  if (context.dryRun) return { method, url, headers, body: body === undefined ? undefined : JSON.parse(body) };
+
+  const response = await fetch(url, { method, headers, body, signal: context.signal });
+  const payload = response.headers.get('content-type')?.includes('application/json') ? await response.json() : await response.text();
+  if (!response.ok) {
+    throw Object.assign(new Error(`Webhook returned ${response.status} ${response.statusText}`), { status: response.status });
+  }
+  return { status: response.status, body: payload };
+};
+
+const aiHandler: NodeHandler = async (node, context) => {
+  const prompt = renderTemplate(String(node.config.prompt ?? ''), context);
+  if (!prompt.trim()) throw new Error('AI step has no prompt');
+  const systemPrompt = node.config.systemPrompt ? renderTemplate(String(node.config.systemPrompt), context) : undefined;
+  if (context.dryRun) return { prompt, systemPrompt };
+
+  const { aiServiceManager } = await import('../../services/AIServiceManager');
+  const response = await aiServiceManager.generateContent({
+    prompt,
+    systemPrompt,
+    model: node.config.model ? String(node.config.model) : undefined
+  });
+  return { text: response.content, model: response.model };
+};
+
+/** Node handlers by type, and the named operations action nodes can perform */
+export class WorkflowHandlerRegistry {
+  private nodeHandlers = new Map<WorkflowNodeType, NodeHandler>();
+  private actions = new Map<string, { label: string; handler: ActionHandler }>();
+
+  registerNode(type: WorkflowNodeType, handler: NodeHandler): void {
+    if (this.nodeHandlers.has(type)) throw new Error(`A handler for ${type} nodes is already registered`);
+    this.nodeHandlers.set(type, handler);
+  }
+
+  registerAction(name: string, label: string, handler: ActionHandler): void {
+    if (this.actions.has(name)) throw new Error(`An action named "${name}" is already registered`);
+    this.actions.set(name, { label, handler });
+  }
+
+  get(type: WorkflowNodeType): NodeHandler | undefined {
+    return this.nodeHandlers.get(type);
+  }
+
+  hasAction(name: string): boolean {
+    return this.actions.has(name);
+  }
+
+  listActions(): Array<{ name: string; label: string }> {
+    return Array.from(this.actions.entries(), ([name, { label }]) => ({ name, label }));
+  }
+
+  /** Action nodes dispatch on `config.action` */
+  private runAction: NodeHandler = async (node, context) => {
+    const name = String(node.config.action ?? '');
+    const action = this.actions.get(name);
+    if (!action) throw new Error(name ? `No handler is registered for the "${name}" action` : 'Action has no operation selected');
+    return action.handler(node.config, context);
+  };
+
+  /** A registry with the built-in handlers for every node type */
+  static withDefaults(): WorkflowHandlerRegistry {
+    const registry = new WorkflowHandlerRegistry();
+    registry.registerNode('trigger', triggerHandler);
+    registry.registerNode('condition', conditionHandler);
+    registry.registerNode('delay', delayHandler);
+    registry.registerNode('webhook', webhookHandler);
+    registry.registerNode('ai', aiHandler);
+    registry.registerNode('action', registry.runAction);
+    registry.registerAction('set-data', 'Set data', async (config, context) => ({
+      ...(context.input !== null && typeof context.input === 'object' ? context.input : {}),
+      ...(renderValue(config.values ?? {}, context) as Record<string, unknown>)
+    }));
+    return registry;
+  }
+}
+
+export const workflowHandlers = WorkflowHandlerRegistry.withDefaults();
@@ -0,0 +1,26 @@
+/**
+ * Workflow runtime: validates a canonical workflow graph and executes it as a
+ * DAG with per-node retries and timeouts. Storing executions is left to
+ * services/WorkflowExecutionService.
+ */
+
+export { DEFAULT_NODE_TIMEOUT_MS, abortableSleep, executeWorkflow, type ExecuteOptions } from './executor';
+export {
+  assertRunnable,
+  incomingEdges,
+  nextConditionBranch,
+  outgoingEdges,
+  topologicalOrder,
+  validateGraph,
+  type GraphProblem
+} from './graph';
+export {
+  WorkflowHandlerRegistry,
+  evaluateCondition,
+  readPath,
+  renderTemplate,
+  workflowHandlers,
+  type ActionHandler,
+  type NodeContext,
+  type NodeHandler
+} from './handlers';
@@ -18,6 +18,11 @@ export default defineConfig({
       '@': path.resolve(__dirname, 'src'),
       msw: path.resolve(__dirname, 'src/tests/msw'),
       'msw/node': path.resolve(__dirname, 'src/tests/msw/node'),
+      // Deno specifiers used by the edge functions under supabase/functions
+      'npm:hono': 'hono',
+      'npm:@supabase/supabase-js@2': '@supabase/supabase-js',
+      'https://esm.sh/@supabase/supabase-js@2': '@supabase/supabase-js',
+      'jsr:@supabase/supabase-js@2.49.8': '@supabase/supabase-js',
     },
   },
 });